@@ -4,17 +4,20 @@ import { SchemaBuilder } from './builders/SchemaBuilder';
 import { AttributeGenerator } from './builders/AttributeGenerator';
 import { ThemeBuilder } from './builders/ThemeBuilder';
 import { LivePreview } from './components/LivePreview';
+import { APIStorageAdapter } from './core/storage';
 
 type Tab = 'schemas' | 'attributes' | 'themes' | 'preview';
 
 interface AdminPanelProps {
   mode?: 'standalone' | 'embedded';
   onClose?: () => void;
+  schemaAdapter?: APIStorageAdapter; // Server the Schemas tab loads from and publishes to
 }
 
 export const AdminPanel: React.FC<AdminPanelProps> = ({
   mode = 'standalone',
-  onClose
+  onClose,
+  schemaAdapter
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('schemas');
 
@@ -83,7 +86,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
 
       {/* Content */}
       <div style={styles.content}>
-        {activeTab === 'schemas' && <SchemaBuilder />}
+        {activeTab === 'schemas' && <SchemaBuilder adapter={schemaAdapter} />}
         {activeTab === 'attributes' && <AttributeGenerator />}
         {activeTab === 'themes' && <ThemeBuilder />}
         {activeTab === 'preview' && <LivePreview mode={mode} />}
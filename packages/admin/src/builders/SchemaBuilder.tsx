@@ -1,5 +1,6 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useSchemaStore, ElementSchema, SchemaEntry, validateSchema } from '../core/schema-store';
+import { APIStorageAdapter, RemoteSchema, SchemaConflictError } from '../core/storage';
 import toast from 'react-hot-toast';
 
 /**
@@ -23,11 +24,13 @@ const EDITOR_TYPES = [
 interface SchemaBuilderProps {
   onSchemaCreated?: (sight: string, schema: ElementSchema) => void;
   onSchemaUpdated?: (sight: string, schema: ElementSchema) => void;
+  adapter?: APIStorageAdapter; // Loads schemas from and publishes them to a server
 }
 
 export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
   onSchemaCreated,
-  onSchemaUpdated
+  onSchemaUpdated,
+  adapter
 }) => {
   const {
     schemas,
@@ -52,8 +55,43 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
     type: 'text'
   });
 
+  const [isSyncing, setIsSyncing] = useState(false);
+
   const allSchemas = getAllSchemas();
 
+  // Server schemas replace local copies; schemas only kept locally stay
+  const loadFromServer = useCallback(async () => {
+    if (!adapter) return;
+
+    setIsSyncing(true);
+    try {
+      const remote = await adapter.listSchemas();
+      remote.forEach(entry => {
+        const local = getSchema(entry.sight);
+        addSchema(entry.sight, entry.schema, { ...local, version: entry.version });
+      });
+    } catch (error) {
+      console.error('[SchemaBuilder] Failed to load schemas:', error);
+      toast.error('Failed to load schemas from the server');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [adapter, addSchema, getSchema]);
+
+  useEffect(() => {
+    loadFromServer();
+  }, [loadFromServer]);
+
+  // Takes the server's side of a conflict, or drops the schema when it was deleted there
+  const acceptServerSchema = useCallback((conflict: SchemaConflictError) => {
+    if (conflict.currentSchema) {
+      addSchema(conflict.sight, conflict.currentSchema, { ...getSchema(conflict.sight), version: conflict.currentVersion ?? undefined });
+      setEditingSchema(conflict.currentSchema);
+    } else {
+      deleteSchema(conflict.sight);
+    }
+  }, [addSchema, deleteSchema, getSchema]);
+
   const handleCreateNew = useCallback(() => {
     setIsCreating(true);
     setEditingSight('');
@@ -68,7 +106,7 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
     setSelectedSight(entry.sight);
   }, [setSelectedSight]);
 
-  const handleSave = useCallback(() => {
+  const handleSave = useCallback(async () => {
     if (!editingSight.trim()) {
       toast.error('Please enter a sight identifier');
       return;
@@ -85,7 +123,45 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
       return;
     }
 
-    if (isCreating) {
+    if (adapter) {
+      const existing = getSchema(editingSight);
+      const schema = (isCreating ? editingSchema : { ...existing?.schema, ...editingSchema }) as ElementSchema;
+
+      setIsSyncing(true);
+      try {
+        let published: RemoteSchema;
+        try {
+          published = await adapter.publishSchema(editingSight, schema, existing?.version);
+        } catch (error) {
+          if (!(error instanceof SchemaConflictError)) throw error;
+
+          const overwrite = window.confirm(
+            `Schema "${editingSight}" was changed on the server since you loaded it. Overwrite it with your version?`
+          );
+          if (!overwrite) {
+            acceptServerSchema(error);
+            toast.error(`Loaded the server's version of "${editingSight}"`);
+            return;
+          }
+          published = await adapter.publishSchema(editingSight, schema, error.currentVersion ?? undefined);
+        }
+
+        addSchema(editingSight, published.schema, { ...existing, version: published.version });
+        toast.success(`Schema "${editingSight}" published (version ${published.version})`);
+      } catch (error) {
+        console.error('[SchemaBuilder] Failed to publish schema:', error);
+        toast.error(`Failed to publish "${editingSight}"`);
+        return;
+      } finally {
+        setIsSyncing(false);
+      }
+
+      if (isCreating) {
+        onSchemaCreated?.(editingSight, schema);
+      } else {
+        onSchemaUpdated?.(editingSight, schema);
+      }
+    } else if (isCreating) {
       addSchema(editingSight, editingSchema as ElementSchema);
       toast.success(`Schema "${editingSight}" created!`);
       onSchemaCreated?.(editingSight, editingSchema as ElementSchema);
@@ -98,17 +174,31 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
     setIsCreating(false);
     setEditingSight('');
     setEditingSchema({ type: 'text' });
-  }, [editingSight, editingSchema, isCreating, addSchema, updateSchema, onSchemaCreated, onSchemaUpdated]);
+  }, [editingSight, editingSchema, isCreating, adapter, addSchema, updateSchema, getSchema, acceptServerSchema, onSchemaCreated, onSchemaUpdated]);
 
-  const handleDelete = useCallback((sight: string) => {
+  const handleDelete = useCallback(async (sight: string) => {
     if (window.confirm(`Delete schema "${sight}"?`)) {
+      if (adapter) {
+        try {
+          await adapter.deleteSchema(sight, getSchema(sight)?.version);
+        } catch (error) {
+          if (error instanceof SchemaConflictError) {
+            acceptServerSchema(error);
+            toast.error(`Schema "${sight}" was changed on the server; review it before deleting`);
+          } else {
+            console.error('[SchemaBuilder] Failed to delete schema:', error);
+            toast.error(`Failed to delete "${sight}"`);
+          }
+          return;
+        }
+      }
       deleteSchema(sight);
       toast.success(`Schema "${sight}" deleted`);
       if (selectedSight === sight) {
         setSelectedSight(null);
       }
     }
-  }, [deleteSchema, selectedSight, setSelectedSight]);
+  }, [adapter, deleteSchema, getSchema, acceptServerSchema, selectedSight, setSelectedSight]);
 
   const handleExport = useCallback(() => {
     const json = exportSchemas();
@@ -152,6 +242,11 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
           <button onClick={handleCreateNew} style={styles.primaryButton}>
             + New Schema
           </button>
+          {adapter && (
+            <button onClick={loadFromServer} disabled={isSyncing} style={styles.secondaryButton}>
+              🔄 Reload from Server
+            </button>
+          )}
           <button onClick={handleExport} style={styles.secondaryButton}>
             📤 Export
           </button>
@@ -223,6 +318,11 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
                 <div style={styles.schemaItemMeta}>
                   <span style={styles.schemaType}>{entry.schema.type}</span>
                   {entry.schema.required && <span style={styles.requiredBadge}>Required</span>}
+                  {adapter && (
+                    <span style={styles.schemaType}>
+                      {entry.version !== undefined ? `v${entry.version}` : 'Not published'}
+                    </span>
+                  )}
                 </div>
                 <button
                   onClick={(e) => {
@@ -325,8 +425,8 @@ export const SchemaBuilder: React.FC<SchemaBuilderProps> = ({
 
               {/* Actions */}
               <div style={styles.formActions}>
-                <button onClick={handleSave} style={styles.saveButton}>
-                  💾 Save Schema
+                <button onClick={handleSave} disabled={isSyncing} style={styles.saveButton}>
+                  {adapter ? '🚀 Publish Schema' : '💾 Save Schema'}
                 </button>
                 <button
                   onClick={() => {
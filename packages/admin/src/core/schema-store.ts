@@ -39,6 +39,7 @@ export interface SchemaEntry {
   updatedAt: number;
   tags?: string[];
   description?: string;
+  version?: number; // Server version this entry was loaded or published at
 }
 
 /**
@@ -87,7 +88,8 @@ export const useSchemaStore = create<SchemaStoreState>()(
             createdAt: metadata?.createdAt || now,
             updatedAt: now,
             tags: metadata?.tags,
-            description: metadata?.description
+            description: metadata?.description,
+            version: metadata?.version
           });
 
           return { schemas: newSchemas };
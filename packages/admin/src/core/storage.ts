@@ -24,6 +24,30 @@ export interface StorageAdapter {
   importProject(data: string): Promise<string>;
 }
 
+/**
+ * A schema as published on the server, with the version to send back when changing it
+ */
+export interface RemoteSchema {
+  sight: string;
+  schema: any;
+  version: number;
+  updatedAt?: string;
+}
+
+/**
+ * The server's schema changed since it was loaded; holds the schema it has now
+ */
+export class SchemaConflictError extends Error {
+  constructor(
+    public sight: string,
+    public currentVersion: number | null,
+    public currentSchema: any
+  ) {
+    super(`Schema "${sight}" was changed on the server`);
+    this.name = 'SchemaConflictError';
+  }
+}
+
 /**
  * LocalStorage Adapter
  */
@@ -139,12 +163,57 @@ export class APIStorageAdapter implements StorageAdapter {
     });
 
     if (!response.ok) {
-      throw new Error(`API error: ${response.statusText}`);
+      const error: any = new Error(`API error: ${response.statusText}`);
+      error.status = response.status;
+      error.data = await response.json().catch(() => null);
+      throw error;
     }
 
     return response.json();
   }
 
+  /**
+   * Schemas published on the server (`GET /schemas`)
+   */
+  async listSchemas(): Promise<RemoteSchema[]> {
+    const result = await this.request('/schemas');
+    return result.schemas;
+  }
+
+  /**
+   * Publishes a schema. Pass the version it was loaded at to be told, with a
+   * SchemaConflictError, when someone else changed it in the meantime.
+   */
+  async publishSchema(sight: string, schema: any, expectedVersion?: number): Promise<RemoteSchema> {
+    try {
+      const result = await this.request(`/schemas/${encodeURIComponent(sight)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ schema, expectedVersion })
+      });
+      return { sight, schema: result.schema, version: result.version, updatedAt: result.updatedAt };
+    } catch (error) {
+      throw this.schemaError(sight, error);
+    }
+  }
+
+  async deleteSchema(sight: string, expectedVersion?: number): Promise<void> {
+    const query = expectedVersion === undefined ? '' : `?expectedVersion=${expectedVersion}`;
+    try {
+      await this.request(`/schemas/${encodeURIComponent(sight)}${query}`, {
+        method: 'DELETE'
+      });
+    } catch (error: any) {
+      // Never published, or already deleted
+      if (error.status === 404) return;
+      throw this.schemaError(sight, error);
+    }
+  }
+
+  private schemaError(sight: string, error: any): Error {
+    const conflict = error.status === 409 ? error.data?.conflict : null;
+    return conflict ? new SchemaConflictError(sight, conflict.currentVersion, conflict.currentValue) : error;
+  }
+
   async saveProject(project: ProjectConfig): Promise<void> {
     await this.request(`/projects/${project.id}`, {
       method: 'PUT',
@@ -15,9 +15,10 @@ export {
   LocalStorageAdapter,
   APIStorageAdapter,
   FileSystemAdapter,
-  getGlobalStorage
+  getGlobalStorage,
+  SchemaConflictError
 } from './core/storage';
-export type { ProjectConfig, StorageAdapter } from './core/storage';
+export type { ProjectConfig, StorageAdapter, RemoteSchema } from './core/storage';
 
 // Export builders
 export { SchemaBuilder } from './builders/SchemaBuilder';
@@ -112,9 +112,9 @@ export abstract class CMSAdapter {
   abstract fetch(query: FetchQuery): Promise<FetchResponse>;
 
   /**
-   * Fetch a single entry by ID
+   * Fetch a single entry by ID, in `locale` or the configured locale
    */
-  abstract fetchById(id: string): Promise<any>;
+  abstract fetchById(id: string, locale?: string): Promise<any>;
 
   /**
    * Update an existing entry
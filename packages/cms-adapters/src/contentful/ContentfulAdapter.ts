@@ -81,7 +81,10 @@ export class ContentfulAdapter extends CMSAdapter {
         // Update existing entry
         try {
           entry = await this.environmentContext.getEntry(data.id);
-          entry.fields = contentfulData.fields;
+          // Only the saved field's value in the saved locale changes; other translations stay
+          Object.entries(contentfulData.fields).forEach(([field, values]) => {
+            entry.fields[field] = { ...(entry.fields[field] || {}), ...(values as Record<string, any>) };
+          });
           entry = await entry.update();
         } catch (error) {
           // Entry doesn't exist, create new one
@@ -143,7 +146,7 @@ export class ContentfulAdapter extends CMSAdapter {
       const response = await this.client.getEntries(contentfulQuery);
 
       return {
-        data: response.items.map(item => this.mapToInternal(item)),
+        data: response.items.map(item => this.mapToInternal(item, query.locale)),
         total: response.total,
         offset: response.skip,
         limit: response.limit,
@@ -157,16 +160,16 @@ export class ContentfulAdapter extends CMSAdapter {
     }
   }
 
-  async fetchById(id: string): Promise<any> {
+  async fetchById(id: string, locale?: string): Promise<any> {
     if (!this.client) {
       throw new Error('Client not connected');
     }
 
     try {
       const entry = await this.client.getEntry(id, {
-        locale: this.config.locale
+        locale: locale || this.config.locale
       });
-      return this.mapToInternal(entry);
+      return this.mapToInternal(entry, locale);
     } catch (error) {
       this.handleError(error, `Failed to fetch entry ${id}`);
     }
@@ -413,7 +416,7 @@ export class ContentfulAdapter extends CMSAdapter {
   }
 
   protected mapToExternal(data: SaveData): any {
-    const locale = this.config.locale || 'en-US';
+    const locale = data.locale || this.config.locale || 'en-US';
 
     return {
       contentType: data.sight.split('.')[0], // First part of sight as content type
@@ -426,8 +429,8 @@ export class ContentfulAdapter extends CMSAdapter {
     };
   }
 
-  protected mapToInternal(cmsData: any): any {
-    const locale = this.config.locale || 'en-US';
+  protected mapToInternal(cmsData: any, requestedLocale?: string): any {
+    const locale = requestedLocale || this.config.locale || 'en-US';
 
     return {
       id: cmsData.sys.id,
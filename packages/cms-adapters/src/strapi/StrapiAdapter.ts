@@ -60,6 +60,8 @@ export class StrapiAdapter extends CMSAdapter {
     try {
       const strapiData = this.mapToExternal(data);
       const contentType = data.sight.split('.')[0];
+      const locale = data.locale || this.config.locale;
+      const config = locale ? { params: { locale } } : undefined;
 
       let response;
 
@@ -67,13 +69,15 @@ export class StrapiAdapter extends CMSAdapter {
         // Update existing entry
         response = await this.client.put(
           `/api/${contentType}/${data.id}`,
-          { data: strapiData }
+          { data: strapiData },
+          config
         );
       } else {
         // Create new entry
         response = await this.client.post(
           `/api/${contentType}`,
-          { data: strapiData }
+          { data: strapiData },
+          config
         );
       }
 
@@ -123,8 +127,8 @@ export class StrapiAdapter extends CMSAdapter {
       }
 
       // Add locale
-      if (query.locale) {
-        params['locale'] = query.locale;
+      if (query.locale || this.config.locale) {
+        params['locale'] = query.locale || this.config.locale;
       }
 
       const response = await this.client.get(`/api/${query.contentType}`, { params });
@@ -144,7 +148,7 @@ export class StrapiAdapter extends CMSAdapter {
     }
   }
 
-  async fetchById(id: string): Promise<any> {
+  async fetchById(id: string, locale?: string): Promise<any> {
     if (!this.client) {
       throw new Error('Client not connected');
     }
@@ -154,8 +158,12 @@ export class StrapiAdapter extends CMSAdapter {
       const parts = id.split(':');
       const contentType = parts.length > 1 ? parts[0] : 'entries';
       const entryId = parts.length > 1 ? parts[1] : id;
+      const requestedLocale = locale || this.config.locale;
 
-      const response = await this.client.get(`/api/${contentType}/${entryId}`);
+      const response = await this.client.get(
+        `/api/${contentType}/${entryId}`,
+        requestedLocale ? { params: { locale: requestedLocale } } : undefined
+      );
       const data = this.version === 'v4' ? response.data.data : response.data;
 
       return this.mapToInternal(data);
@@ -1,5 +1,7 @@
 import { SightEditAPI } from '../api';
 import { SightEditConfig, SaveData, BatchOperation } from '../types';
+import { ConflictError, SchemaValidationError, HookCancelledError } from '../utils/error-handler';
+import { registerHook, clearAllHooks, NetworkHookContext } from '../hooks/HookManager';
 
 // Mock fetch and other browser APIs
 const mockFetch = jest.fn();
@@ -445,6 +447,20 @@ describe('SightEditAPI Integration Tests', () => {
       );
     });
 
+    it('should request atomic mode when asked', async () => {
+      await api.batch(mockOperations, { atomic: true });
+
+      const [, options] = mockFetch.mock.calls[0];
+      expect(JSON.parse(options.body)).toEqual(expect.objectContaining({ atomic: true }));
+    });
+
+    it('should not send the atomic flag by default', async () => {
+      await api.batch(mockOperations);
+
+      const [, options] = mockFetch.mock.calls[0];
+      expect(JSON.parse(options.body).atomic).toBeUndefined();
+    });
+
     it('should validate batch operations', async () => {
       const invalidOperations = [
         {
@@ -547,6 +563,662 @@ describe('SightEditAPI Integration Tests', () => {
     });
   });
 
+  describe('Published Schema Fetching', () => {
+    it('should fetch a published schema with its version', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, sight: 'hero-title', schema: { type: 'text', maxLength: 60 }, version: 3 }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const stored = await api.fetchStoredSchema('hero-title');
+
+      expect(stored).toEqual({ sight: 'hero-title', schema: { type: 'text', maxLength: 60 }, version: 3, updatedAt: undefined });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/schemas/hero-title',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should return null when no schema is published', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: async () => ({ success: false, error: 'Schema not found' }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await expect(api.fetchStoredSchema('hero-title')).resolves.toBeNull();
+    });
+  });
+
+  describe('Network Hooks', () => {
+    afterEach(() => {
+      clearAllHooks();
+    });
+
+    it('should let network:beforeRequest hooks rewrite the request', async () => {
+      registerHook({
+        event: 'network:beforeRequest',
+        handler: (context: NetworkHookContext) => {
+          context.headers = { ...context.headers, 'X-Tenant': 'acme' };
+        }
+      });
+
+      await api.save({ sight: 'hero-title', value: 'Hello', type: 'text' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/save',
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-Tenant': 'acme' }) })
+      );
+    });
+
+    it('should not send requests a network:beforeRequest hook cancels', async () => {
+      registerHook({
+        event: 'network:beforeRequest',
+        handler: (context: NetworkHookContext) => {
+          context.cancel = true;
+          context.reason = 'Read-only session';
+        }
+      });
+
+      await expect(api.fetchStoredSchema('hero-title')).rejects.toThrow(HookCancelledError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass responses to network:afterRequest hooks', async () => {
+      const afterRequest = jest.fn();
+      registerHook({ event: 'network:afterRequest', handler: afterRequest });
+
+      await api.save({ sight: 'hero-title', value: 'Hello', type: 'text' });
+
+      expect(afterRequest).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://api.example.com/save',
+        method: 'POST',
+        response: { success: true }
+      }));
+    });
+  });
+
+  describe('Version Conflict Handling', () => {
+    const conflict = {
+      sight: 'hero-title',
+      key: 'hero-title',
+      expectedVersion: 100,
+      currentVersion: 200,
+      currentValue: 'Their title'
+    };
+
+    it('should send the expected version with saves', async () => {
+      await api.save({ sight: 'hero-title', value: 'My title', type: 'text', expectedVersion: 100 });
+
+      const [, options] = mockFetch.mock.calls[0];
+      expect(JSON.parse(options.body)).toEqual(expect.objectContaining({ expectedVersion: 100 }));
+    });
+
+    it('should reject stale saves with a ConflictError carrying the server value', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({ success: false, error: 'Version conflict', conflict }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const promise = api.save({ sight: 'hero-title', value: 'My title', type: 'text', expectedVersion: 100 });
+
+      await expect(promise).rejects.toBeInstanceOf(ConflictError);
+      await expect(promise).rejects.toMatchObject({ conflicts: [conflict] });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should collect every conflict from a rejected batch', async () => {
+      const otherConflict = { ...conflict, sight: 'hero-subtitle', key: 'hero-subtitle' };
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({ success: false, error: 'Version conflict', conflicts: [conflict, otherConflict] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await expect(api.batch([
+        { type: 'update', data: { sight: 'hero-title', value: 'A', type: 'text', expectedVersion: 100 } },
+        { type: 'update', data: { sight: 'hero-subtitle', value: 'B', type: 'text', expectedVersion: 100 } }
+      ])).rejects.toMatchObject({ conflicts: [conflict, otherConflict] });
+    });
+  });
+
+  describe('Schema Validation Handling', () => {
+    const errors = [
+      { sight: 'hero-title', rule: 'maxLength', message: 'Must be at most 5 characters' },
+      { sight: 'hero-title', rule: 'pattern', message: 'Invalid format' }
+    ];
+
+    it('should reject invalid saves with the field errors from the server', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        json: async () => ({ success: false, error: 'Validation failed', errors }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const promise = api.save({ sight: 'hero-title', value: 'my long title', type: 'text' });
+
+      await expect(promise).rejects.toBeInstanceOf(SchemaValidationError);
+      await expect(promise).rejects.toMatchObject({ errors });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Content Fetching Integration', () => {
+    const storedEntry = {
+      key: 'hero-title',
+      sight: 'hero-title',
+      value: 'Welcome',
+      type: 'text',
+      version: 1700000000000
+    };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, data: storedEntry }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+    });
+
+    it('should fetch a single content entry', async () => {
+      const entry = await api.fetch('hero-title');
+
+      expect(entry).toEqual(storedEntry);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/content/hero-title',
+        expect.objectContaining({
+          method: 'GET'
+        })
+      );
+    });
+
+    it('should pass record context as query parameters', async () => {
+      await api.fetch('title', { recordId: 'post-1', id: 'main' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/content/title?recordId=post-1&id=main',
+        expect.any(Object)
+      );
+    });
+
+    it('should return null for missing content', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        json: async () => ({ success: false, error: 'Content not found' }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const entry = await api.fetch('missing-sight');
+
+      expect(entry).toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch several sights in one request', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, items: [storedEntry], missing: ['hero-subtitle'] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const entries = await api.fetchMany(['hero-title', 'hero-subtitle', 'hero-title']);
+
+      expect(entries).toEqual([storedEntry]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/content?sights=hero-title%2Chero-subtitle',
+        expect.objectContaining({
+          method: 'GET'
+        })
+      );
+    });
+
+    it('should fetch content by key prefix', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, items: [storedEntry] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await api.fetchMany({ prefix: 'hero' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/content?prefix=hero',
+        expect.any(Object)
+      );
+    });
+
+    it('should skip the request for an empty sight list', async () => {
+      const entries = await api.fetchMany([]);
+
+      expect(entries).toEqual([]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should validate sight identifiers', async () => {
+      await expect(api.fetch('')).rejects.toThrow('Invalid sight identifier');
+      await expect(api.fetchMany(['ok', '../invalid'])).rejects.toThrow('Sight identifier contains invalid characters');
+    });
+  });
+
+  describe('Publishing Integration', () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          success: true,
+          published: [{ key: 'hero-title', sight: 'hero-title', version: 1700000000000 }],
+          missing: []
+        }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+    });
+
+    it('should publish a single sight', async () => {
+      const response = await api.publish({ sight: 'hero-title' });
+
+      expect(response.published).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/publish',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ sight: 'hero-title' })
+        })
+      );
+    });
+
+    it('should publish a whole page', async () => {
+      await api.publish({ page: '/about' });
+
+      const [, options] = mockFetch.mock.calls[0];
+      expect(JSON.parse(options.body)).toEqual({ page: '/about' });
+    });
+
+    it('should validate publish targets', async () => {
+      await expect(api.publish({ items: [] })).rejects.toThrow('Nothing to publish');
+      await expect(api.publish({ items: [{ sight: '../invalid' }] })).rejects.toThrow('Sight identifier contains invalid characters');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should request drafts when fetching for editing', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, items: [] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await api.fetchMany(['hero-title'], { draft: true });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/content?sights=hero-title&draft=true',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Scheduling Integration', () => {
+    const schedule = {
+      id: 'lq2x9k8a1b2c3d4e5f6',
+      action: 'publish',
+      keys: ['hero-title'],
+      sights: ['hero-title'],
+      runAt: '2030-01-01T09:00:00.000Z',
+      status: 'scheduled',
+      createdAt: '2029-12-31T12:00:00.000Z'
+    };
+
+    it('should send schedule times as ISO strings', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, schedules: [schedule] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const response = await api.schedule({
+        page: '/about',
+        publishAt: new Date('2030-01-01T09:00:00Z'),
+        expireAt: Date.parse('2030-02-01T00:00:00Z')
+      });
+
+      expect(response.schedules).toEqual([schedule]);
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.example.com/schedule');
+      expect(JSON.parse(options.body)).toEqual({
+        page: '/about',
+        publishAt: '2030-01-01T09:00:00.000Z',
+        expireAt: '2030-02-01T00:00:00.000Z'
+      });
+    });
+
+    it('should validate schedules before sending them', async () => {
+      await expect(api.schedule({ sight: 'hero-title' })).rejects.toThrow('Specify publishAt, expireAt or both');
+      await expect(api.schedule({ sight: 'hero-title', publishAt: 'soon' })).rejects.toThrow('Invalid schedule time');
+      await expect(api.schedule({ items: [], expireAt: Date.now() })).rejects.toThrow('Nothing to publish');
+      await expect(api.cancelSchedule('../x')).rejects.toThrow('Invalid schedule ID');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should list and cancel schedules', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, schedules: [schedule] }),
+          headers: new Headers({ 'content-type': 'application/json' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, schedule: { ...schedule, status: 'cancelled' } }),
+          headers: new Headers({ 'content-type': 'application/json' })
+        });
+
+      const schedules = await api.getSchedules({ status: 'scheduled', sight: 'hero-title' });
+      const cancelled = await api.cancelSchedule(schedule.id);
+
+      expect(schedules).toEqual([schedule]);
+      expect(cancelled.status).toBe('cancelled');
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.example.com/schedules?status=scheduled&sight=hero-title',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        `https://api.example.com/schedules/${schedule.id}`,
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('Comments Integration', () => {
+    const thread = {
+      id: 'lq2x9k8a9f8e7d6c5b4',
+      key: 'article-body',
+      sight: 'article-body',
+      range: { start: 4, end: 9, quote: 'quick' },
+      page: '/blog',
+      status: 'open',
+      comments: [{
+        id: 'lq2x9k8a0a1b2c3d4e5',
+        author: { id: 'user-1', name: 'Editor' },
+        body: '@Reviewer is this right?',
+        mentions: [{ id: 'user-2', name: 'Reviewer' }],
+        createdAt: '2024-01-01T00:00:00.000Z'
+      }],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+
+    it('should start a thread on a text range with mentions', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, thread }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const created = await api.createComment({
+        sight: 'article-body',
+        range: thread.range,
+        page: '/blog',
+        body: '@Reviewer is this right?',
+        mentions: ['user-2']
+      });
+
+      expect(created).toEqual(thread);
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.example.com/comments');
+      expect(options.method).toBe('POST');
+      expect(JSON.parse(options.body)).toEqual({
+        sight: 'article-body',
+        range: { start: 4, end: 9, quote: 'quick' },
+        page: '/blog',
+        body: '@Reviewer is this right?',
+        mentions: ['user-2']
+      });
+    });
+
+    it('should reply to, resolve and reopen threads', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, thread }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await api.replyToComment(thread.id, 'Fixed', ['user-1']);
+      await api.resolveComment(thread.id);
+      await api.reopenComment(thread.id);
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        `https://api.example.com/comments/${thread.id}/replies`,
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ body: 'Fixed', mentions: ['user-1'] }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        `https://api.example.com/comments/${thread.id}/resolve`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        3,
+        `https://api.example.com/comments/${thread.id}/reopen`,
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should list threads and search users to mention', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, threads: [thread] }),
+          headers: new Headers({ 'content-type': 'application/json' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true, users: [{ id: 'user-2', name: 'Reviewer' }] }),
+          headers: new Headers({ 'content-type': 'application/json' })
+        });
+
+      const threads = await api.getComments({ sight: 'article-body', status: 'open' });
+      const users = await api.searchCommentUsers('rev', 5);
+
+      expect(threads).toEqual([thread]);
+      expect(users).toEqual([{ id: 'user-2', name: 'Reviewer' }]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.example.com/comments?sight=article-body&status=open',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://api.example.com/comments/users?q=rev&limit=5',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should validate comments before sending them', async () => {
+      await expect(api.createComment({ sight: 'article-body', body: '  ' })).rejects.toThrow('Comment body is required');
+      await expect(api.createComment({ sight: '../etc', body: 'Hi' })).rejects.toThrow();
+      await expect(api.resolveComment('../x')).rejects.toThrow('Invalid comment ID');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Workflow Integration', () => {
+    const item = {
+      key: 'hero-title',
+      sight: 'hero-title',
+      stage: 'review',
+      stageName: 'In review',
+      version: 1700000000000,
+      history: [{
+        action: 'submit',
+        from: 'draft',
+        to: 'review',
+        by: { id: 'user-1', name: 'Editor' },
+        at: '2024-01-01T00:00:00.000Z'
+      }],
+      actions: ['approve', 'reject']
+    };
+
+    it('should load the review stages of a page', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, stages: [{ id: 'review', name: 'In review' }], items: [item] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const status = await api.getWorkflow({ page: '/landing', locale: 'de' });
+
+      expect(status).toEqual({ stages: [{ id: 'review', name: 'In review' }], items: [item] });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/workflow?page=%2Flanding&locale=de',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should submit, approve and reject changes with comments', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, items: [item], skipped: [] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await api.submitForReview({ page: '/landing' });
+      await api.approveChanges({ sight: 'hero-title' }, 'Looks good');
+      await api.rejectChanges({ items: [{ sight: 'hero-title' }] }, 'Wrong tone');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://api.example.com/workflow/submit',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ page: '/landing' }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://api.example.com/workflow/approve',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ sight: 'hero-title', comment: 'Looks good' }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        3,
+        'https://api.example.com/workflow/reject',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ items: [{ sight: 'hero-title' }], comment: 'Wrong tone' }) })
+      );
+    });
+
+    it('should require a comment to reject changes', async () => {
+      await expect(api.rejectChanges({ page: '/landing' }, '  ')).rejects.toThrow('A comment is required to reject changes');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should surface unapproved changes when publishing', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({ success: false, error: 'Changes must be approved before publishing', unapproved: ['hero-title'] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const promise = api.publish({ page: '/landing' });
+
+      await expect(promise).rejects.toBeInstanceOf(ConflictError);
+      await expect(promise).rejects.toThrow('Changes must be approved before publishing');
+    });
+  });
+
+  describe('Revision History Integration', () => {
+    const revision = {
+      id: 2,
+      key: 'hero-title',
+      sight: 'hero-title',
+      value: 'Old title',
+      type: 'text',
+      action: 'save',
+      status: 'published',
+      version: 1700000000000,
+      author: { id: 'user-1', name: 'Editor' },
+      createdAt: '2024-01-01T00:00:00.000Z'
+    };
+
+    it('should list revisions for a record', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, revisions: [revision] }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const revisions = await api.getHistory('hero-title', { recordId: 'post-1', limit: 10 });
+
+      expect(revisions).toEqual([revision]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/history/hero-title?recordId=post-1&limit=10',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should diff a revision against the latest one', async () => {
+      const diff = { type: 'text', parts: [{ type: 'delete', value: 'Old' }, { type: 'insert', value: 'New' }] };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, from: revision, to: { ...revision, id: 3 }, diff }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const response = await api.diffRevisions('hero-title', 2);
+
+      expect(response.diff).toEqual(diff);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/history/hero-title/diff?from=2',
+        expect.any(Object)
+      );
+    });
+
+    it('should restore a revision with the expected version', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, data: 'Old title', version: 1700000000500, status: 'draft', restoredFrom: 2 }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      const response = await api.restoreRevision('hero-title', 2, { expectedVersion: 1700000000100 });
+
+      expect(response.restoredFrom).toBe(2);
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.example.com/history/hero-title/restore');
+      expect(JSON.parse(options.body)).toEqual({ expectedVersion: 1700000000100, revision: 2 });
+    });
+
+    it('should surface stale restores as conflicts', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        json: async () => ({
+          success: false,
+          error: 'Version conflict',
+          conflict: { sight: 'hero-title', key: 'hero-title', expectedVersion: 1, currentVersion: 2, currentValue: 'Newer' }
+        }),
+        headers: new Headers({ 'content-type': 'application/json' })
+      });
+
+      await expect(api.restoreRevision('hero-title', 2, { expectedVersion: 1 })).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should validate the sight before requesting history', async () => {
+      await expect(api.getHistory('../invalid')).rejects.toThrow('Sight identifier contains invalid characters');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('File Upload Integration', () => {
     let mockFile: File;
 
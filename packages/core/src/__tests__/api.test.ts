@@ -132,6 +132,50 @@ describe('SightEditAPI - Essential Tests', () => {
     });
   });
 
+  describe('Localization', () => {
+    it('should fetch content in a locale', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          items: [{ key: 'home.title', sight: 'home.title', value: 'Hello', type: 'text', locale: 'en', fallback: true }]
+        }),
+        headers: new Headers(),
+        status: 200,
+        statusText: 'OK'
+      } as Response);
+
+      const entries = await api.fetchMany(['home.title'], { locale: 'de' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:3000/api/content?sights=home.title&locale=de',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(entries[0].fallback).toBe(true);
+    });
+
+    it('should list missing translations', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          success: true,
+          items: [{ key: 'home.title', sight: 'home.title', locales: ['fr'] }]
+        }),
+        headers: new Headers(),
+        status: 200,
+        statusText: 'OK'
+      } as Response);
+
+      const missing = await api.getMissingTranslations({ locale: 'fr', prefix: 'home.' });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:3000/api/translations/missing?locale=fr&prefix=home.',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(missing).toEqual([{ key: 'home.title', sight: 'home.title', locales: ['fr'] }]);
+    });
+  });
+
   describe('Authentication', () => {
     it('should add API key header', async () => {
       const configWithKey = { ...config, apiKey: 'test-api-key' };
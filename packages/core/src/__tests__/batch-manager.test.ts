@@ -0,0 +1,55 @@
+import { BatchManager } from '../batch-manager';
+import { BatchOperation, SaveData } from '../types';
+
+describe('BatchManager', () => {
+  const data: SaveData = { sight: 'title', value: 'Hello', type: 'text' };
+  const operation: BatchOperation = { type: 'update', data };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends flushed batches through the API with the atomic flag', async () => {
+    const sender = { batch: jest.fn().mockResolvedValue({ success: true, results: [] }) };
+    const manager = new BatchManager({ autoFlush: false, atomic: true }, sender);
+
+    manager.add(data);
+    await manager.flush();
+
+    expect(sender.batch).toHaveBeenCalledWith([operation], { atomic: true });
+    expect(manager.size()).toBe(0);
+    manager.destroy();
+  });
+
+  it('lets a single flush ask for atomic mode', async () => {
+    const sender = { batch: jest.fn().mockResolvedValue({ success: true, results: [] }) };
+    const manager = new BatchManager({ autoFlush: false }, sender);
+
+    manager.add(data);
+    await manager.flush({ atomic: true });
+
+    expect(sender.batch).toHaveBeenCalledWith([operation], { atomic: true });
+    manager.destroy();
+  });
+
+  it('keeps the changes queued when the server rolls the batch back', async () => {
+    jest.useFakeTimers();
+    const sender = {
+      batch: jest.fn().mockResolvedValue({ success: false, results: [], rolledBack: true, error: 'Rolled back' })
+    };
+    const manager = new BatchManager({ autoFlush: false, retryOnFailure: false }, sender);
+    const onError = jest.fn();
+    manager.on('flush:error', onError);
+
+    manager.add(data);
+    await manager.flush({ atomic: true });
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Rolled back' }));
+    expect(manager.size()).toBe(1);
+    manager.destroy();
+  });
+});
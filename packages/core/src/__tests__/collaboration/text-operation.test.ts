@@ -0,0 +1,94 @@
+import {
+  applyOperation,
+  composeOperations,
+  diffToOperation,
+  isNoop,
+  isTextOperation,
+  transformIndex,
+  transformOperations,
+  TextOperation
+} from '../../collaboration/text-operation';
+
+describe('text operations', () => {
+  describe('applyOperation', () => {
+    it('should retain, insert and delete', () => {
+      expect(applyOperation('Hello world', [6, 'big ', 5])).toBe('Hello big world');
+      expect(applyOperation('Hello world', [5, -6])).toBe('Hello');
+    });
+
+    it('should reject operations for a different document length', () => {
+      expect(() => applyOperation('Hello', [10, 'x'])).toThrow();
+    });
+  });
+
+  describe('diffToOperation', () => {
+    it('should describe a single replaced span', () => {
+      const operation = diffToOperation('The cat sat', 'The dog sat');
+      expect(operation).toEqual([4, 'dog', -3, 4]);
+      expect(applyOperation('The cat sat', operation)).toBe('The dog sat');
+    });
+
+    it('should be a no-op for identical strings', () => {
+      expect(isNoop(diffToOperation('same', 'same'))).toBe(true);
+    });
+  });
+
+  describe('composeOperations', () => {
+    it('should have the same effect as applying both operations', () => {
+      const a = diffToOperation('abc', 'abXc');
+      const b = diffToOperation('abXc', 'aXc!');
+      expect(applyOperation('abc', composeOperations(a, b))).toBe('aXc!');
+    });
+  });
+
+  describe('transformOperations', () => {
+    const converge = (text: string, a: TextOperation, b: TextOperation) => {
+      const [aPrime, bPrime] = transformOperations(a, b);
+      const left = applyOperation(applyOperation(text, a), bPrime);
+      const right = applyOperation(applyOperation(text, b), aPrime);
+      expect(left).toBe(right);
+      return left;
+    };
+
+    it('should merge concurrent inserts in different places', () => {
+      expect(converge('Hello world', [5, ',', 6], [11, '!'])).toBe('Hello, world!');
+    });
+
+    it('should put the first operation first when both insert at the same position', () => {
+      expect(converge('ab', [1, 'X', 1], [1, 'Y', 1])).toBe('aXYb');
+    });
+
+    it('should not delete the same characters twice', () => {
+      expect(converge('abcdef', [1, -3, 2], [2, -3, 1])).toBe('af');
+    });
+
+    it('should keep an insert inside a range the other side deleted', () => {
+      expect(converge('abcdef', [3, 'X', 3], [1, -4, 1])).toBe('aXf');
+    });
+  });
+
+  describe('transformIndex', () => {
+    it('should shift a caret after remote inserts before it', () => {
+      expect(transformIndex(5, ['abc', 10])).toBe(8);
+    });
+
+    it('should leave a caret before a remote insert where it was', () => {
+      expect(transformIndex(2, [5, 'abc', 5])).toBe(2);
+    });
+
+    it('should pull a caret back over deleted text', () => {
+      expect(transformIndex(6, [2, -3, 5])).toBe(3);
+      expect(transformIndex(3, [2, -3, 5])).toBe(2);
+    });
+  });
+
+  describe('isTextOperation', () => {
+    it('should validate operations received over the wire', () => {
+      expect(isTextOperation([3, 'a', -2])).toBe(true);
+      expect(isTextOperation([0])).toBe(false);
+      expect(isTextOperation([1.5])).toBe(false);
+      expect(isTextOperation(['', 2])).toBe(false);
+      expect(isTextOperation('abc')).toBe(false);
+    });
+  });
+});
@@ -120,6 +120,46 @@ describe('ImageEditor', () => {
       
       expect(divElement.style.backgroundImage).toBe("url(https://example.com/new-bg.jpg)");
     });
+
+    it('should write srcset, sizes and the focal point of a responsive value', () => {
+      editor = new ImageEditor(imgElement, config);
+
+      editor.applyValue({
+        src: '/uploads/photo.jpg',
+        srcset: '/uploads/photo.jpg?w=320&format=auto 320w, /uploads/photo.jpg?w=640&format=auto 640w',
+        sizes: '(min-width: 768px) 50vw, 100vw',
+        focalPoint: { x: 0.25, y: 0.75 }
+      });
+
+      expect(imgElement.getAttribute('srcset')).toBe('/uploads/photo.jpg?w=320&format=auto 320w, /uploads/photo.jpg?w=640&format=auto 640w');
+      expect(imgElement.getAttribute('sizes')).toBe('(min-width: 768px) 50vw, 100vw');
+      expect(imgElement.style.objectPosition).toBe('25% 75%');
+      expect(editor.extractValue()).toEqual(expect.objectContaining({
+        srcset: expect.stringContaining('640w'),
+        focalPoint: { x: 0.25, y: 0.75 }
+      }));
+    });
+
+    it('should drop srcset candidates with unsafe URLs', () => {
+      editor = new ImageEditor(imgElement, config);
+
+      editor.applyValue({
+        src: 'https://example.com/new.jpg',
+        srcset: 'javascript:alert(1) 320w, https://example.com/new-640.jpg 640w'
+      });
+
+      expect(imgElement.getAttribute('srcset')).toBe('https://example.com/new-640.jpg 640w');
+    });
+
+    it('should remove a previous srcset when given a plain URL', () => {
+      imgElement.setAttribute('srcset', 'https://example.com/old-640.jpg 640w');
+      editor = new ImageEditor(imgElement, config);
+
+      editor.applyValue('https://example.com/new.jpg');
+
+      expect(imgElement.hasAttribute('srcset')).toBe(false);
+      expect(editor.extractValue()).toBe('https://example.com/new.jpg');
+    });
   });
 
   describe('render', () => {
@@ -479,6 +479,23 @@ describe('TextEditor', () => {
     });
   });
 
+  describe('remote operations', () => {
+    it('should apply a collaborator operation to the element text', () => {
+      editor.render();
+
+      editor.applyRemoteOperation([8, 'shared ', 12]);
+
+      expect(element.textContent).toBe('Initial shared text content');
+      expect(editor.getValue()).toBe('Initial shared text content');
+    });
+
+    it('should expose the untrimmed text as the collaborative document', () => {
+      element.textContent = ' padded ';
+
+      expect(editor.getCollaborativeText()).toBe(' padded ');
+    });
+  });
+
   describe('integration with base editor', () => {
     beforeEach(() => {
       editor.render();
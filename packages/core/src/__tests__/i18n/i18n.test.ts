@@ -0,0 +1,139 @@
+import { I18n } from '../../i18n/I18n';
+import { formatMessage } from '../../i18n/message-format';
+
+describe('formatMessage', () => {
+  it('substitutes arguments and leaves missing ones visible', () => {
+    expect(formatMessage('Hello {name}', { name: 'Ana' }, 'en')).toBe('Hello Ana');
+    expect(formatMessage('Hello {name}', {}, 'en')).toBe('Hello {name}');
+  });
+
+  it('picks plural forms, exact matches and #', () => {
+    const message = '{count, plural, =0 {No changes} one {# change} other {# changes}}';
+    expect(formatMessage(message, { count: 0 }, 'en')).toBe('No changes');
+    expect(formatMessage(message, { count: 1 }, 'en')).toBe('1 change');
+    expect(formatMessage(message, { count: 1200 }, 'en')).toBe('1,200 changes');
+  });
+
+  it('uses the plural categories of the locale', () => {
+    const message = '{n, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}';
+    expect([0, 1, 2, 3, 11, 100].map(n => formatMessage(message, { n }, 'ar')))
+      .toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+  });
+
+  it('supports offset, selectordinal and select', () => {
+    expect(formatMessage('{n, plural, offset:1 =0 {nobody} one {you and # other} other {you and # others}}', { n: 3 }, 'en'))
+      .toBe('you and 2 others');
+    expect(formatMessage('{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}', { n: 22 }, 'en')).toBe('22nd');
+    expect(formatMessage('{role, select, admin {Administrator} other {Editor}}', { role: 'admin' }, 'en')).toBe('Administrator');
+    expect(formatMessage('{role, select, admin {Administrator} other {Editor}}', { role: 'guest' }, 'en')).toBe('Editor');
+  });
+
+  it('treats quoted braces as text', () => {
+    expect(formatMessage("Use '{name}' for {what}", { what: 'names' }, 'en')).toBe('Use {name} for names');
+    expect(formatMessage("It''s {n}", { n: 'ok' }, 'en')).toBe("It's ok");
+  });
+
+  it('formats numbers for the locale', () => {
+    expect(formatMessage('{n, number}', { n: 1234.5 }, 'de')).toBe('1.234,5');
+    expect(formatMessage('{n, number, percent}', { n: 0.25 }, 'en')).toBe('25%');
+  });
+});
+
+describe('I18n', () => {
+  let i18n: I18n;
+
+  beforeEach(() => {
+    i18n = new I18n();
+  });
+
+  it('falls back to English and then to the key', async () => {
+    await i18n.configure({
+      locale: 'pt-BR',
+      loadCatalog: async locale => (locale === 'pt' ? { 'common.save': 'Salvar' } : null)
+    });
+
+    expect(i18n.t('common.save')).toBe('Salvar');
+    expect(i18n.t('common.cancel')).toBe('Cancel');
+    expect(i18n.t('no.such.key')).toBe('no.such.key');
+  });
+
+  it('lets overrides win over catalogs', async () => {
+    await i18n.configure({ locale: 'en', translations: { 'toolbar.publish': 'Go live' } });
+
+    expect(i18n.t('toolbar.publish')).toBe('Go live');
+    expect(i18n.t('toolbar.changes', { count: 2 })).toBe('2 changes');
+  });
+
+  it('only loads a catalog when its locale is selected', async () => {
+    const loadCatalog = jest.fn().mockResolvedValue({ 'modal.close': 'Sulje' });
+    await i18n.configure({ locale: 'en', loadCatalog });
+    expect(loadCatalog).not.toHaveBeenCalledWith('fi');
+
+    await i18n.setLocale('fi');
+    await i18n.setLocale('en');
+    await i18n.setLocale('fi');
+
+    expect(loadCatalog.mock.calls.filter(([locale]) => locale === 'fi')).toHaveLength(1);
+    expect(i18n.t('modal.close')).toBe('Sulje');
+  });
+
+  it('keeps the last requested locale when loads finish out of order', async () => {
+    let finishSlow: (catalog: Record<string, string>) => void = () => {};
+    await i18n.configure({
+      loadCatalog: locale => locale === 'sv'
+        ? new Promise(resolve => { finishSlow = resolve; })
+        : Promise.resolve({ 'modal.close': 'Lukk' })
+    });
+
+    const slow = i18n.setLocale('sv');
+    await i18n.setLocale('nb');
+    finishSlow({ 'modal.close': 'Stäng' });
+    await slow;
+
+    expect(i18n.getLocale()).toBe('nb');
+    expect(i18n.t('modal.close')).toBe('Lukk');
+  });
+
+  it('shows English when a catalog fails to load', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await i18n.configure({ locale: 'it', loadCatalog: () => Promise.reject(new Error('offline')) });
+
+    expect(i18n.getLocale()).toBe('it');
+    expect(i18n.t('common.apply')).toBe('Apply');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('loads bundled catalogs on demand', async () => {
+    await i18n.setLocale('de');
+
+    expect(i18n.t('common.save')).toBe('Speichern');
+    expect(i18n.t('toolbar.changes', { count: 3 })).toBe('3 Änderungen');
+  });
+
+  it('fills arguments inside plural branches of the unsaved-changes prompts', () => {
+    expect(i18n.t('toolbar.confirmExit', { count: 1 })).toBe('You have 1 unsaved change. Do you want to discard it?');
+    expect(i18n.t('toolbar.confirmLocaleSwitch', { count: 2, from: 'en', to: 'de' }))
+      .toBe('You have 2 unsaved changes in en. Discard them and switch to de?');
+  });
+
+  it('reports the text direction and announces locale changes', async () => {
+    const listener = jest.fn();
+    i18n.on('localeChange', listener);
+    i18n.addMessages('he', { 'modal.close': 'סגור' });
+
+    await i18n.setLocale('he');
+
+    expect(i18n.getDirection()).toBe('rtl');
+    expect(i18n.getDirection('en-GB')).toBe('ltr');
+    expect(listener).toHaveBeenCalledWith({ locale: 'he', direction: 'rtl', previous: 'en' });
+  });
+
+  it('formats numbers and dates in the current locale', async () => {
+    await i18n.setLocale('de-DE');
+
+    expect(i18n.formatNumber(1234.5)).toBe('1.234,5');
+    expect(i18n.formatDate(new Date(2024, 2, 5), { day: 'numeric', month: 'numeric', year: 'numeric' })).toBe('5.3.2024');
+    expect(i18n.getFirstDayOfWeek()).toBe(1);
+  });
+});
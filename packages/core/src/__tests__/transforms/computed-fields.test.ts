@@ -0,0 +1,125 @@
+import SightEdit from '../../index';
+import { ComputedFieldManager, resetGlobalComputedManager } from '../../transforms/computed-fields';
+import { parseComputedExpression } from '../../transforms/computed-expression';
+import { CircularDependencyError, ConfigurationError } from '../../utils/error-handler';
+import { changeTracker } from '../../utils/change-tracker';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Computed Fields', () => {
+  describe('ComputedFieldManager', () => {
+    it('should refuse fields that depend on each other', () => {
+      const manager = new ComputedFieldManager();
+      manager.registerComputed({ sight: 'a', dependencies: ['b'], compute: values => values.b });
+      manager.registerComputed({ sight: 'b', dependencies: ['c'], compute: values => values.c });
+
+      expect(() => manager.registerComputed({ sight: 'c', dependencies: ['a'], compute: values => values.a }))
+        .toThrow(CircularDependencyError);
+      expect(manager.isComputed('c')).toBe(false);
+      expect(manager.hasCircularDependencies()).toBe(false);
+
+      let error: CircularDependencyError | undefined;
+      try {
+        manager.registerComputed({ sight: 'b', dependencies: ['a'], compute: values => values.a });
+      } catch (thrown) {
+        error = thrown as CircularDependencyError;
+      }
+      expect(error!.cycle).toEqual(['a', 'b', 'a']);
+      expect(error!.message).toBe('Computed fields depend on each other: a → b → a');
+      // The earlier definition is kept
+      expect(manager.getField('b')!.dependencies).toEqual(['c']);
+    });
+
+    it('should compute fields after the fields they depend on', async () => {
+      const manager = new ComputedFieldManager();
+      manager.registerComputed({ sight: 'total', dependencies: ['net', 'tax'], compute: values => values.net + values.tax });
+      manager.registerComputed({ sight: 'tax', dependencies: ['net'], compute: values => values.net * 0.2 });
+      manager.registerComputed({ sight: 'net', dependencies: ['price', 'qty'], compute: values => values.price * values.qty });
+
+      const updates = await manager.recomputeDependents(['price'], { price: 10, qty: 3 });
+
+      expect(updates).toEqual({ net: 30, tax: 6, total: 36 });
+    });
+  });
+
+  describe('parseComputedExpression', () => {
+    it('should calculate with the sights it references', () => {
+      const expression = parseComputedExpression('round({product.price} * (1 + {product.tax-rate} / 100), 2)');
+
+      expect(expression.dependencies).toEqual(['product.price', 'product.tax-rate']);
+      expect(expression.evaluate({ 'product.price': '19.99', 'product.tax-rate': '21' })).toBe(24.19);
+    });
+
+    it('should join text and treat empty values as 0 in sums', () => {
+      expect(parseComputedExpression('{first} + " " + {last}').evaluate({ first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+      expect(parseComputedExpression('{a} + {b}').evaluate({ a: '2', b: '' })).toBe(2);
+      expect(parseComputedExpression('{a} / {b}').evaluate({ a: 1, b: 0 })).toBe('');
+    });
+
+    it('should reject anything but arithmetic', () => {
+      expect(() => parseComputedExpression('alert(1)')).toThrow(ConfigurationError);
+      expect(() => parseComputedExpression('{a} + ')).toThrow('unexpected end');
+      expect(() => parseComputedExpression('{a}; {b}')).toThrow('unexpected ";"');
+      expect(() => parseComputedExpression('{price')).toThrow('sights are written as {sight}');
+    });
+  });
+
+  describe('bound to the page', () => {
+    let instance: ReturnType<typeof SightEdit.init>;
+
+    beforeEach(() => {
+      SightEdit.getInstance()?.destroy();
+      resetGlobalComputedManager();
+      changeTracker.discardAll();
+      document.body.innerHTML = `
+        <span data-sight="price">10</span>
+        <span data-sight="qty">3</span>
+        <span data-sight="total" data-sight-computed="{price} * {qty}" data-sight-persist="true"></span>
+      `;
+      instance = SightEdit.init({ endpoint: 'http://localhost:3000/api' });
+    });
+
+    afterEach(() => {
+      instance.destroy();
+      changeTracker.discardAll();
+      document.body.innerHTML = '';
+    });
+
+    const total = () => document.querySelector<HTMLElement>('[data-sight="total"]')!;
+
+    it('should show computed values and update them on changes', async () => {
+      await flush();
+      expect(total().textContent).toBe('30');
+
+      const price = document.querySelector<HTMLElement>('[data-sight="price"]')!;
+      changeTracker.track('price', '12', '10', 'text', price);
+      instance.emit('change', { sight: 'price', value: '12', pendingChanges: 1 });
+      await flush();
+
+      expect(total().textContent).toBe('36');
+      expect(changeTracker.getChange('total')).toEqual(expect.objectContaining({ value: 36, originalValue: '30' }));
+    });
+
+    it('should keep computed elements read-only in edit mode', async () => {
+      instance.enterEditMode();
+      await flush();
+
+      expect(total().classList.contains('sight-computed')).toBe(true);
+      expect(total().getAttribute('aria-readonly')).toBe('true');
+      expect(Array.from(instance.getActiveEditors().keys())).not.toContain(total());
+
+      instance.exitEditMode();
+      expect(total().classList.contains('sight-computed')).toBe(false);
+    });
+
+    it('should register computed fields from code', async () => {
+      document.body.insertAdjacentHTML('beforeend', '<span data-sight="label"></span>');
+      instance.registerComputed({ sight: 'label', dependencies: ['qty'], compute: values => `${values.qty} items` });
+      await flush();
+
+      expect(document.querySelector('[data-sight="label"]')!.textContent).toBe('3 items');
+      expect(() => instance.registerComputed({ sight: 'qty', dependencies: ['label'], compute: () => 1 }))
+        .toThrow(CircularDependencyError);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { CommentsPanel } from '../../ui/comments-panel';
+import { CollaborationUI } from '../../ui/collaboration-ui';
+import { SightEditAPI } from '../../api';
+import { CommentThread } from '../../types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Comments', () => {
+  const thread: CommentThread = {
+    id: 'lq2x9k8a9f8e7d6c5b4',
+    key: 'article-body',
+    sight: 'article-body',
+    range: { start: 4, end: 9, quote: 'quick' },
+    status: 'open',
+    comments: [{
+      id: 'lq2x9k8a0a1b2c3d4e5',
+      author: { id: 'user-1', name: 'Editor' },
+      body: '@Reviewer is this right?',
+      mentions: [{ id: 'user-2', name: 'Reviewer' }],
+      createdAt: '2024-01-01T00:00:00.000Z'
+    }],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    createdBy: { id: 'user-1', name: 'Editor' },
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+
+  const createApi = () => ({
+    getComments: jest.fn().mockResolvedValue([thread, { ...thread, id: 'lq2x9k8aotherpage1', sight: 'footer' }]),
+    resolveComment: jest.fn().mockResolvedValue({ ...thread, status: 'resolved' }),
+    searchCommentUsers: jest.fn().mockResolvedValue([])
+  }) as unknown as SightEditAPI & Record<string, jest.Mock>;
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('lists the threads on the page with quotes and mentions', async () => {
+    const api = createApi();
+    const panel = new CommentsPanel(api);
+    panel.open({ page: '/blog', targets: [{ sight: 'article-body' }], onChange: jest.fn() });
+    await flush();
+
+    const cards = document.querySelectorAll('.sight-comment-thread');
+    expect(api.getComments).toHaveBeenCalledWith({ status: 'open' });
+    expect(cards).toHaveLength(1);
+    expect(cards[0].textContent).toContain('On “quick”');
+    expect(cards[0].querySelector('.sight-comment-mention')?.textContent).toBe('@Reviewer');
+    panel.close();
+  });
+
+  it('resolves a thread and reports the change', async () => {
+    const api = createApi();
+    const onChange = jest.fn();
+    const panel = new CommentsPanel(api);
+    panel.open({ page: '/blog', targets: [{ sight: 'article-body' }], userId: 'user-2', onChange });
+    await flush();
+
+    const buttons = Array.from(document.querySelectorAll<HTMLButtonElement>('.sight-comment-thread button'));
+    expect(buttons.map(button => button.textContent)).toEqual(['Reply', 'Resolve']);
+    buttons[1].click();
+    await flush();
+
+    expect(api.resolveComment).toHaveBeenCalledWith(thread.id);
+    expect(onChange).toHaveBeenCalledWith('resolved', expect.objectContaining({ status: 'resolved' }));
+    panel.close();
+  });
+
+  it('marks elements with open threads', () => {
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+    const onOpen = jest.fn();
+    const ui = new CollaborationUI();
+
+    ui.showCommentMarkers([
+      { element, sight: 'article-body', open: 2 },
+      { element, sight: 'footer', open: 0 }
+    ], onOpen);
+
+    const markers = document.querySelectorAll<HTMLButtonElement>('.sight-edit-comment-marker');
+    expect(markers).toHaveLength(1);
+    expect(markers[0].getAttribute('aria-label')).toBe('2 open comments');
+    markers[0].click();
+    expect(onOpen).toHaveBeenCalledWith(expect.objectContaining({ sight: 'article-body' }));
+
+    ui.destroy();
+    expect(document.querySelector('.sight-edit-comment-marker')).toBeNull();
+  });
+});
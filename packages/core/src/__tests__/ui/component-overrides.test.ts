@@ -0,0 +1,217 @@
+import { componentRegistry, registerComponent, ComponentProps } from '../../customization/ComponentRegistry';
+import { ModalManager } from '../../ui/modal-manager';
+import { EditToolbar } from '../../ui/edit-toolbar';
+import { confirmAction } from '../../ui/confirm-dialog';
+import { NumberModalEditor } from '../../editors/number-modal';
+import { DateModalEditor } from '../../editors/date-modal';
+import { LinkEditor } from '../../editors/link';
+
+describe('Component overrides', () => {
+  afterEach(() => {
+    componentRegistry.clearAll();
+    ModalManager.getInstance().close();
+    document.body.innerHTML = '';
+    jest.useRealTimers();
+  });
+
+  const button = (props: ComponentProps): HTMLElement => {
+    const element = document.createElement('button');
+    element.className = 'ds-button';
+    element.textContent = props.label || '';
+    element.onclick = () => props.onClick?.();
+    return element;
+  };
+
+  it('renders modals with the app component and keeps the editor content and footer', () => {
+    jest.useFakeTimers();
+    registerComponent({
+      type: 'modal',
+      renderer: props => {
+        const dialog = document.createElement('dialog');
+        dialog.className = 'ds-dialog';
+        dialog.dataset.title = props.title || '';
+        dialog.appendChild(props.content as HTMLElement);
+        dialog.appendChild(props.footer!);
+        return dialog;
+      }
+    });
+
+    const modal = ModalManager.getInstance();
+    const footer = modal.open('<p>Body</p>', { title: 'Edit', footer: true });
+
+    const dialog = document.querySelector<HTMLElement>('.ds-dialog')!;
+    expect(dialog.dataset.title).toBe('Edit');
+    expect(dialog.textContent).toContain('Body');
+    expect(dialog.contains(footer)).toBe(true);
+    expect(document.querySelector('.sight-modal')).toBeNull();
+
+    modal.close();
+    jest.advanceTimersByTime(200);
+    expect(document.querySelector('.ds-dialog')).toBeNull();
+  });
+
+  it('renders editor footer buttons and form fields with the app components', () => {
+    registerComponent({ type: 'saveButton', renderer: button });
+    registerComponent({
+      type: 'formField',
+      renderer: props => {
+        const field = document.createElement('div');
+        field.className = 'ds-field';
+        field.dataset.label = props.label || '';
+        field.appendChild(props.control!);
+        return field;
+      }
+    });
+
+    const element = document.createElement('span');
+    element.textContent = '5';
+    document.body.appendChild(element);
+    const editor = new NumberModalEditor(element, { type: 'number' });
+    const stopEditing = jest.spyOn(editor as any, 'stopEditing').mockResolvedValue(undefined);
+    (editor as any).startEditing();
+
+    const save = document.querySelector<HTMLButtonElement>('.sight-modal-footer .ds-button')!;
+    expect(save.textContent).toBe('Apply');
+    save.click();
+    expect(stopEditing).toHaveBeenCalledWith(true);
+
+    const field = document.querySelector<HTMLElement>('.ds-field')!;
+    expect(field.dataset.label).toBe('Enter value directly:');
+    expect(field.querySelector('input')!.value).toBe('5');
+  });
+
+  it('renders editor view switches as tabs and other editor actions as buttons', () => {
+    const tabRenders: ComponentProps[] = [];
+    registerComponent({
+      type: 'tabs',
+      renderer: props => {
+        tabRenders.push(props);
+        const strip = document.createElement('div');
+        strip.className = 'ds-tabs';
+        strip.dataset.active = props.activeTab;
+        return strip;
+      }
+    });
+    registerComponent({ type: 'button', renderer: button });
+
+    const element = document.createElement('span');
+    element.textContent = '2024-03-05';
+    document.body.appendChild(element);
+    const editor = new DateModalEditor(element, { type: 'date' });
+    (editor as any).startEditing();
+
+    expect(tabRenders[0].tabs!.map(tab => tab.id)).toEqual(['date', 'time']);
+    tabRenders[0].onSelect!('time');
+    expect(document.querySelectorAll('.ds-tabs')).toHaveLength(1);
+    expect(document.querySelector<HTMLElement>('.ds-tabs')!.dataset.active).toBe('time');
+    expect(document.getElementById('time-view')!.style.display).toBe('block');
+    expect(document.getElementById('calendar-view')!.style.display).toBe('none');
+
+    const today = document.querySelector<HTMLButtonElement>('.sight-modal-footer .ds-button')!;
+    expect(today.textContent).toBe('Today');
+    today.click();
+    expect((editor as any).selectedDate.getFullYear()).toBe(new Date().getFullYear());
+  });
+
+  it('renders the link dialog with the app modal, fields and buttons', async () => {
+    let modalProps: ComponentProps | undefined;
+    registerComponent({
+      type: 'modal',
+      renderer: props => {
+        modalProps = props;
+        const dialog = document.createElement('dialog');
+        dialog.className = 'ds-dialog';
+        dialog.appendChild(props.content as HTMLElement);
+        return dialog;
+      }
+    });
+    registerComponent({
+      type: 'formField',
+      renderer: props => {
+        const field = document.createElement('div');
+        field.className = 'ds-field';
+        field.appendChild(props.control!);
+        return field;
+      }
+    });
+    registerComponent({ type: 'saveButton', renderer: button });
+
+    const link = document.createElement('a');
+    link.href = 'https://example.com/';
+    link.textContent = 'Example';
+    document.body.appendChild(link);
+    const editor = new LinkEditor(link, { type: 'link' } as any);
+    const onSave = jest.fn().mockResolvedValue(undefined);
+    editor.onSave = onSave;
+    (editor as any).showModal();
+
+    expect(modalProps!.title).toBe('Edit Link');
+    expect(document.querySelectorAll('.ds-dialog .ds-field')).toHaveLength(2);
+    document.querySelector<HTMLInputElement>('.ds-field input[name="text"]')!.value = 'Changed';
+
+    document.querySelector<HTMLButtonElement>('.ds-dialog .ds-button')!.click();
+    await Promise.resolve();
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ href: 'https://example.com/', text: 'Changed' }));
+    expect(link.textContent).toBe('Changed');
+  });
+
+  it('renders the toolbar with the app component and re-renders it on changes', () => {
+    const renders: ComponentProps[] = [];
+    registerComponent({
+      type: 'toolbar',
+      renderer: props => {
+        renders.push(props);
+        const toolbar = document.createElement('div');
+        toolbar.className = 'ds-toolbar';
+        toolbar.textContent = `${props.changeCount} changes`;
+        return toolbar;
+      }
+    });
+
+    const toolbar = new EditToolbar();
+    const onSave = jest.fn();
+    toolbar.onSave(onSave);
+    toolbar.show(2);
+
+    expect(document.querySelectorAll('.ds-toolbar')).toHaveLength(1);
+    expect(document.querySelector('.ds-toolbar')!.textContent).toBe('2 changes');
+
+    toolbar.updateCount(3);
+    expect(document.querySelectorAll('.ds-toolbar')).toHaveLength(1);
+    expect(document.querySelector('.ds-toolbar')!.textContent).toBe('3 changes');
+
+    renders[renders.length - 1].onSave!();
+    expect(onSave).toHaveBeenCalled();
+
+    toolbar.hide();
+    expect(document.querySelector('.ds-toolbar')).toBeNull();
+  });
+
+  it('asks for confirmation with the app dialog, or the browser one without it', async () => {
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValue(false);
+    await expect(confirmAction({ message: 'Delete?' })).resolves.toBe(false);
+    expect(confirmSpy).toHaveBeenCalledWith('Delete?');
+
+    let dialogProps: ComponentProps | undefined;
+    registerComponent({
+      type: 'confirmDialog',
+      renderer: props => {
+        dialogProps = props;
+        const dialog = document.createElement('div');
+        dialog.className = 'ds-confirm';
+        return dialog;
+      }
+    });
+
+    const confirmed = confirmAction({ message: 'Delete?', variant: 'danger' });
+    expect(document.querySelector('.ds-confirm')).not.toBeNull();
+    expect(dialogProps).toEqual(expect.objectContaining({ message: 'Delete?', variant: 'danger', confirmLabel: 'Confirm' }));
+
+    dialogProps!.onConfirm!();
+    await expect(confirmed).resolves.toBe(true);
+    expect(document.querySelector('.ds-confirm')).toBeNull();
+    expect(confirmSpy).toHaveBeenCalledTimes(1);
+    confirmSpy.mockRestore();
+  });
+});
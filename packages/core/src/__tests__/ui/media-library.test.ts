@@ -0,0 +1,97 @@
+import { MediaLibrary } from '../../ui/media-library';
+import { MediaAsset, MediaLibrarySource } from '../../types';
+
+const createAsset = (id: string, overrides: Partial<MediaAsset> = {}): MediaAsset => ({
+  id,
+  filename: id,
+  originalName: `${id}.jpg`,
+  url: `/uploads/${id}`,
+  mimetype: 'image/jpeg',
+  size: 1024,
+  alt: '',
+  tags: [],
+  uploadedAt: '2024-01-01T00:00:00.000Z',
+  uploadedBy: 'user-1',
+  ...overrides
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MediaLibrary', () => {
+  let source: jest.Mocked<MediaLibrarySource>;
+
+  beforeEach(() => {
+    source = {
+      listAssets: jest.fn().mockResolvedValue({
+        assets: [createAsset('a'), createAsset('b')],
+        total: 2,
+        page: 1,
+        limit: 24,
+        pages: 1
+      }),
+      getAsset: jest.fn(),
+      uploadAssets: jest.fn(),
+      updateAsset: jest.fn(),
+      deleteAsset: jest.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list assets of the configured type', async () => {
+    const library = new MediaLibrary(source, { type: 'image', onSelectionChange: jest.fn() });
+    const element = library.render();
+    await flush();
+
+    expect(source.listAssets).toHaveBeenCalledWith(expect.objectContaining({ type: 'image', page: 1 }));
+    expect(element.querySelectorAll('.sight-media-item')).toHaveLength(2);
+  });
+
+  it('should keep a single selection unless multiple is enabled', async () => {
+    const onSelectionChange = jest.fn();
+    const library = new MediaLibrary(source, { onSelectionChange });
+    const element = library.render();
+    await flush();
+
+    const tiles = element.querySelectorAll<HTMLElement>('.sight-media-item');
+    tiles[0].click();
+    tiles[1].click();
+
+    expect(onSelectionChange).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'b' })]);
+    expect(tiles[0].getAttribute('aria-selected')).toBe('false');
+  });
+
+  it('should warn before deleting an asset that is still referenced', async () => {
+    source.getAsset.mockResolvedValue({
+      asset: createAsset('a'),
+      references: [{ key: 'hero-image', sight: 'hero-image', status: 'published' }]
+    });
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+    const library = new MediaLibrary(source, { onSelectionChange: jest.fn() });
+    const element = library.render();
+    await flush();
+
+    element.querySelector<HTMLButtonElement>('.sight-media-item button')!.click();
+    await flush();
+
+    expect(confirmSpy.mock.calls[0][0]).toContain('hero-image');
+    expect(source.deleteAsset).toHaveBeenCalledWith('a', { force: true });
+  });
+
+  it('should not delete when the warning is dismissed', async () => {
+    source.getAsset.mockResolvedValue({ asset: createAsset('a'), references: [] });
+    jest.spyOn(window, 'confirm').mockReturnValue(false);
+
+    const library = new MediaLibrary(source, { onSelectionChange: jest.fn() });
+    const element = library.render();
+    await flush();
+
+    element.querySelector<HTMLButtonElement>('.sight-media-item button')!.click();
+    await flush();
+
+    expect(source.deleteAsset).not.toHaveBeenCalled();
+  });
+});
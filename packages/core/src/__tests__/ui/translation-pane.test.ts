@@ -0,0 +1,49 @@
+import { createTranslationPane, isTranslating } from '../../ui/translation-pane';
+import { TranslationSource } from '../../types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Translation pane', () => {
+  const createSource = (locale: string, value: any): TranslationSource => ({
+    sourceLocale: 'en',
+    getLocale: () => locale,
+    getSource: jest.fn().mockResolvedValue(value)
+  });
+
+  it('is only shown when editing a locale other than the source', () => {
+    expect(isTranslating(undefined)).toBe(false);
+    expect(isTranslating(createSource('en', 'Hello'))).toBe(false);
+    expect(isTranslating(createSource('de', 'Hello'))).toBe(true);
+  });
+
+  it('shows the source text and copies it', async () => {
+    const onCopy = jest.fn();
+    const pane = createTranslationPane(createSource('de', 'Hello world'), { onCopy });
+    await flush();
+
+    expect(pane.textContent).toContain('Hello world');
+    const copy = pane.querySelector('button') as HTMLButtonElement;
+    expect(copy.disabled).toBe(false);
+    copy.click();
+    expect(onCopy).toHaveBeenCalledWith('Hello world');
+  });
+
+  it('sanitizes source markup', async () => {
+    const pane = createTranslationPane(
+      createSource('de', '<p>Hi</p><script>alert(1)</script>'),
+      { html: true, onCopy: jest.fn() }
+    );
+    await flush();
+
+    expect(pane.querySelector('p')?.textContent).toBe('Hi');
+    expect(pane.querySelector('script')).toBeNull();
+  });
+
+  it('says when there is nothing to translate from', async () => {
+    const pane = createTranslationPane(createSource('de', undefined), { onCopy: jest.fn() });
+    await flush();
+
+    expect(pane.textContent).toContain('Nothing written in EN yet.');
+    expect((pane.querySelector('button') as HTMLButtonElement).disabled).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { WorkflowPanel, pageStage } from '../../ui/workflow-panel';
+import { SightEditAPI } from '../../api';
+import { WorkflowItem, WorkflowStatus } from '../../types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Workflow', () => {
+  const item: WorkflowItem = {
+    key: 'hero-title',
+    sight: 'hero-title',
+    stage: 'review',
+    stageName: 'In review',
+    version: 1700000000000,
+    history: [{
+      action: 'submit',
+      from: 'draft',
+      to: 'review',
+      by: { id: 'user-1', name: 'Editor' },
+      comment: 'Ready for a look',
+      at: '2024-01-01T00:00:00.000Z'
+    }],
+    actions: ['approve', 'reject']
+  };
+
+  const status: WorkflowStatus = {
+    stages: [{ id: 'review', name: 'In review' }, { id: 'legal', name: 'Legal' }],
+    items: [item]
+  };
+
+  const createApi = () => ({
+    getWorkflow: jest.fn().mockResolvedValue(status)
+  }) as unknown as SightEditAPI & Record<string, jest.Mock>;
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('lists pending changes with their stage and enables the allowed actions', async () => {
+    const api = createApi();
+    const panel = new WorkflowPanel(api);
+    panel.open({ page: '/landing', locale: 'de', onAction: jest.fn() });
+    await flush();
+
+    expect(api.getWorkflow).toHaveBeenCalledWith({ page: '/landing', locale: 'de' });
+    expect(document.querySelector('.sight-workflow-stages')?.textContent).toBe('Draft → In review → Legal → Approved');
+
+    const rows = document.querySelectorAll('.sight-workflow-item');
+    expect(rows).toHaveLength(1);
+    expect(rows[0].textContent).toContain('In review');
+    expect(rows[0].textContent).toContain('Ready for a look');
+
+    const buttons = Array.from(document.querySelectorAll<HTMLButtonElement>('button[data-action]'));
+    expect(buttons.map(button => [button.dataset.action, button.disabled])).toEqual([
+      ['submit', true],
+      ['approve', false],
+      ['reject', false]
+    ]);
+    panel.close();
+  });
+
+  it('asks for a comment before rejecting', async () => {
+    const api = createApi();
+    const onAction = jest.fn().mockResolvedValue({ success: true, items: [], skipped: [] });
+    const panel = new WorkflowPanel(api);
+    panel.open({ page: '/landing', onAction });
+    await flush();
+
+    const reject = document.querySelector<HTMLButtonElement>('button[data-action="reject"]')!;
+    reject.click();
+    await flush();
+    expect(onAction).not.toHaveBeenCalled();
+    expect(document.querySelector('[role="status"]')?.textContent).toBe('Add a comment explaining what needs to change.');
+
+    document.querySelector('textarea')!.value = 'Wrong tone';
+    reject.click();
+    await flush();
+    expect(onAction).toHaveBeenCalledWith('reject', 'Wrong tone');
+    panel.close();
+  });
+
+  it('reports the least advanced stage of a page, rejected changes first', () => {
+    const approved = { ...item, key: 'hero-subtitle', stage: 'approved', stageName: 'approved' };
+    const rejected = { ...item, key: 'footer', stage: 'rejected', stageName: 'rejected' };
+
+    expect(pageStage({ ...status, items: [approved, item, item] })).toEqual({ stage: 'review', label: 'In review', count: 2 });
+    expect(pageStage({ ...status, items: [item, rejected] })).toEqual({ stage: 'rejected', label: 'Rejected', count: 1 });
+    expect(pageStage({ ...status, items: [] })).toBeNull();
+  });
+});
@@ -4,9 +4,40 @@ import {
   SaveResponse, 
   BatchOperation, 
   BatchResponse,
-  ElementSchema
+  BatchOptions,
+  ElementSchema,
+  StoredSchema,
+  ContentEntry,
+  ContentQuery,
+  FetchOptions,
+  PublishItem,
+  PublishTarget,
+  PublishResponse,
+  ScheduleTarget,
+  ScheduleResponse,
+  ScheduleQuery,
+  ContentSchedule,
+  CommentThread,
+  CommentQuery,
+  CommentUser,
+  NewComment,
+  WorkflowAction,
+  WorkflowStatus,
+  WorkflowResponse,
+  RevisionEntry,
+  RevisionOptions,
+  RevisionDiffResponse,
+  RestoreResponse,
+  MediaAsset,
+  AssetQuery,
+  AssetPage,
+  AssetDetails,
+  AssetChanges,
+  MediaLibrarySource,
+  MissingTranslation
 } from './types';
-import { ErrorHandler } from "./utils/error-handler";
+import { ErrorHandler, ConflictError, SchemaValidationError, HookCancelledError } from "./utils/error-handler";
+import { executeHook, NetworkHookContext } from './hooks/HookManager';
 import { HTMLSanitizer } from './utils/sanitizer';
 
 interface APIConfig {
@@ -21,7 +52,7 @@ interface RequestOptions extends RequestInit {
   retry?: number;
 }
 
-export class SightEditAPI {
+export class SightEditAPI implements MediaLibrarySource {
   private config: APIConfig;
   private queue: SaveData[] = [];
   private get isOffline(): boolean {
@@ -128,7 +159,7 @@ export class SightEditAPI {
     }
   }
 
-  async batch(operations: BatchOperation[]): Promise<BatchResponse> {
+  async batch(operations: BatchOperation[], options: BatchOptions = {}): Promise<BatchResponse> {
     if (!Array.isArray(operations) || operations.length === 0) {
       throw new Error('Batch operations must be a non-empty array');
     }
@@ -156,7 +187,7 @@ export class SightEditAPI {
     try {
       const response = await this.request<BatchResponse>('/batch', {
         method: 'POST',
-        body: JSON.stringify({ operations: sanitizedOperations })
+        body: JSON.stringify(options.atomic ? { operations: sanitizedOperations, atomic: true } : { operations: sanitizedOperations })
       });
 
       if (this.config.debug) {
@@ -230,6 +261,465 @@ export class SightEditAPI {
     }
   }
 
+  /**
+   * The schema published for a sight, or null when there is none. Unlike fetchSchema
+   * the server doesn't fall back to a default.
+   */
+  async fetchStoredSchema(sight: string): Promise<StoredSchema | null> {
+    this.validateSightIdentifier(sight);
+
+    try {
+      const response = await this.request<{ success: boolean } & StoredSchema>(`/schemas/${encodeURIComponent(sight)}`, {
+        method: 'GET'
+      });
+      return { sight: response.sight, schema: response.schema, version: response.version, updatedAt: response.updatedAt };
+    } catch (error) {
+      if ((error as any).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async fetch(sight: string, options: FetchOptions = {}): Promise<ContentEntry | null> {
+    this.validateSightIdentifier(sight);
+
+    const requestKey = this.createRequestKey('fetch', { sight, ...options });
+    
+    if (this.pendingRequests.has(requestKey)) {
+      return this.pendingRequests.get(requestKey)!;
+    }
+
+    const fetchPromise = this.performFetch(sight, options);
+    this.pendingRequests.set(requestKey, fetchPromise);
+    fetchPromise.finally(() => {
+      this.pendingRequests.delete(requestKey);
+    });
+    
+    return fetchPromise;
+  }
+
+  private async performFetch(sight: string, options: FetchOptions): Promise<ContentEntry | null> {
+    const params = new URLSearchParams();
+    if (options.recordId) params.set('recordId', options.recordId);
+    if (options.id) params.set('id', options.id);
+    if (options.draft) params.set('draft', 'true');
+    if (options.locale) params.set('locale', options.locale);
+    const query = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean; data: ContentEntry }>(
+        `/content/${encodeURIComponent(sight)}${query ? `?${query}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return response.data ?? null;
+    } catch (error) {
+      if ((error as any).status === 404) {
+        return null;
+      }
+      console.error('Content fetch failed:', error);
+      throw error;
+    }
+  }
+
+  async fetchMany(query: ContentQuery, options: Pick<FetchOptions, 'recordId' | 'draft' | 'locale'> = {}): Promise<ContentEntry[]> {
+    const params = new URLSearchParams();
+
+    if (Array.isArray(query)) {
+      if (query.length === 0) {
+        return [];
+      }
+      query.forEach(sight => this.validateSightIdentifier(sight));
+      params.set('sights', Array.from(new Set(query)).join(','));
+    } else if (query && typeof query.prefix === 'string' && query.prefix.length > 0) {
+      this.validateSightIdentifier(query.prefix);
+      params.set('prefix', query.prefix);
+    } else {
+      throw new Error('Content query must be a list of sights or a prefix');
+    }
+
+    if (options.recordId) {
+      params.set('recordId', options.recordId);
+    }
+    if (options.draft) {
+      params.set('draft', 'true');
+    }
+    if (options.locale) {
+      params.set('locale', options.locale);
+    }
+
+    try {
+      const response = await this.request<{ success: boolean; items: ContentEntry[] }>(
+        `/content?${params.toString()}`,
+        { method: 'GET' }
+      );
+
+      if (this.config.debug) {
+        console.log('Content fetched successfully:', { count: response.items?.length ?? 0 });
+      }
+
+      return response.items || [];
+    } catch (error) {
+      console.error('Content fetch failed:', error);
+      throw error;
+    }
+  }
+
+  async publish(target: PublishTarget): Promise<PublishResponse> {
+    this.validatePublishTarget(target);
+
+    try {
+      const response = await this.request<PublishResponse>('/publish', {
+        method: 'POST',
+        body: JSON.stringify(target)
+      });
+
+      if (this.config.debug) {
+        console.log('Publish completed:', { count: response.published?.length ?? 0 });
+      }
+
+      return response;
+    } catch (error) {
+      console.error('Publish failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish drafts and/or expire published content at a later time
+   */
+  async schedule(target: ScheduleTarget): Promise<ScheduleResponse> {
+    const { publishAt, expireAt, ...publishTarget } = target;
+    if (publishAt === undefined && expireAt === undefined) {
+      throw new Error('Specify publishAt, expireAt or both');
+    }
+    this.validatePublishTarget(publishTarget as PublishTarget);
+
+    try {
+      const response = await this.request<ScheduleResponse>('/schedule', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...publishTarget,
+          ...(publishAt !== undefined ? { publishAt: this.toScheduleTime(publishAt) } : {}),
+          ...(expireAt !== undefined ? { expireAt: this.toScheduleTime(expireAt) } : {})
+        })
+      });
+
+      if (this.config.debug) {
+        console.log('Schedule created:', { count: response.schedules?.length ?? 0 });
+      }
+
+      return response;
+    } catch (error) {
+      console.error('Scheduling failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scheduled publishes and expiries, soonest first
+   */
+  async getSchedules(query: ScheduleQuery = {}): Promise<ContentSchedule[]> {
+    const params = new URLSearchParams();
+    if (query.status) params.set('status', query.status);
+    if (query.sight) {
+      this.validateSightIdentifier(query.sight);
+      params.set('sight', query.sight);
+    }
+    const search = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean; schedules: ContentSchedule[] }>(
+        `/schedules${search ? `?${search}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return response.schedules || [];
+    } catch (error) {
+      console.error('Schedule fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a schedule that hasn't run yet
+   */
+  async cancelSchedule(id: string): Promise<ContentSchedule> {
+    if (!/^[a-z0-9]{8,40}$/.test(id)) {
+      throw new Error('Invalid schedule ID');
+    }
+
+    try {
+      const response = await this.request<{ success: boolean; schedule: ContentSchedule }>(
+        `/schedules/${encodeURIComponent(id)}`,
+        { method: 'DELETE' }
+      );
+
+      return response.schedule;
+    } catch (error) {
+      console.error('Schedule cancel failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Review stages of the pending drafts on a page, or of a single sight
+   */
+  async getWorkflow(target: PublishItem | { page: string; locale?: string }): Promise<WorkflowStatus> {
+    this.validatePublishTarget(target);
+    const params = new URLSearchParams();
+    Object.entries(target).forEach(([name, value]) => {
+      if (value !== undefined) params.set(name, String(value));
+    });
+
+    try {
+      const response = await this.request<{ success: boolean } & WorkflowStatus>(
+        `/workflow?${params.toString()}`,
+        { method: 'GET' }
+      );
+
+      return { stages: response.stages || [], items: response.items || [] };
+    } catch (error) {
+      console.error('Workflow fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send drafts to the first review stage
+   */
+  async submitForReview(target: PublishTarget, comment?: string): Promise<WorkflowResponse> {
+    return this.workflowAction('submit', target, comment);
+  }
+
+  /**
+   * Move drafts on to the next review stage, or to approved after the last one
+   */
+  async approveChanges(target: PublishTarget, comment?: string): Promise<WorkflowResponse> {
+    return this.workflowAction('approve', target, comment);
+  }
+
+  async rejectChanges(target: PublishTarget, comment: string): Promise<WorkflowResponse> {
+    if (!comment || !comment.trim()) {
+      throw new Error('A comment is required to reject changes');
+    }
+    return this.workflowAction('reject', target, comment);
+  }
+
+  /**
+   * Review threads, oldest first
+   */
+  async getComments(query: CommentQuery = {}): Promise<CommentThread[]> {
+    const params = new URLSearchParams();
+    if (query.sight) {
+      this.validateSightIdentifier(query.sight);
+      params.set('sight', query.sight);
+    }
+    if (query.recordId) params.set('recordId', query.recordId);
+    if (query.page) params.set('page', query.page);
+    if (query.status) params.set('status', query.status);
+    const search = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean; threads: CommentThread[] }>(
+        `/comments${search ? `?${search}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return response.threads || [];
+    } catch (error) {
+      console.error('Comment fetch failed:', error);
+      throw error;
+    }
+  }
+
+  async getComment(id: string): Promise<CommentThread> {
+    this.validateCommentId(id);
+
+    const response = await this.request<{ success: boolean; thread: CommentThread }>(
+      `/comments/${encodeURIComponent(id)}`,
+      { method: 'GET' }
+    );
+    return response.thread;
+  }
+
+  /**
+   * Start a thread on a sight, optionally on a text range within it
+   */
+  async createComment(comment: NewComment): Promise<CommentThread> {
+    this.validateSightIdentifier(comment.sight);
+    if (!comment.body || !comment.body.trim()) {
+      throw new Error('Comment body is required');
+    }
+
+    try {
+      const response = await this.request<{ success: boolean; thread: CommentThread }>('/comments', {
+        method: 'POST',
+        body: JSON.stringify(comment)
+      });
+
+      return response.thread;
+    } catch (error) {
+      console.error('Comment failed:', error);
+      throw error;
+    }
+  }
+
+  async replyToComment(id: string, body: string, mentions: string[] = []): Promise<CommentThread> {
+    this.validateCommentId(id);
+    if (!body || !body.trim()) {
+      throw new Error('Comment body is required');
+    }
+
+    try {
+      const response = await this.request<{ success: boolean; thread: CommentThread }>(
+        `/comments/${encodeURIComponent(id)}/replies`,
+        { method: 'POST', body: JSON.stringify({ body, mentions }) }
+      );
+
+      return response.thread;
+    } catch (error) {
+      console.error('Reply failed:', error);
+      throw error;
+    }
+  }
+
+  async resolveComment(id: string): Promise<CommentThread> {
+    return this.setCommentStatus(id, 'resolve');
+  }
+
+  async reopenComment(id: string): Promise<CommentThread> {
+    return this.setCommentStatus(id, 'reopen');
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    this.validateCommentId(id);
+
+    try {
+      await this.request(`/comments/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Comment delete failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * People that can be @mentioned
+   */
+  async searchCommentUsers(query: string, limit = 10): Promise<CommentUser[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await this.request<{ success: boolean; users: CommentUser[] }>(
+      `/comments/users?${params.toString()}`,
+      { method: 'GET' }
+    );
+    return response.users || [];
+  }
+
+  /**
+   * Revision history of a sight, newest first
+   */
+  async getHistory(sight: string, options: RevisionOptions & { limit?: number } = {}): Promise<RevisionEntry[]> {
+    this.validateSightIdentifier(sight);
+
+    const params = this.createRevisionParams(options);
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean; revisions: RevisionEntry[] }>(
+        `/history/${encodeURIComponent(sight)}${query ? `?${query}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return response.revisions || [];
+    } catch (error) {
+      console.error('History fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two revisions; `to` defaults to the latest one
+   */
+  async diffRevisions(sight: string, from: number, to?: number, options: RevisionOptions = {}): Promise<RevisionDiffResponse> {
+    this.validateSightIdentifier(sight);
+
+    const params = this.createRevisionParams(options);
+    params.set('from', String(from));
+    if (to !== undefined) params.set('to', String(to));
+
+    try {
+      return await this.request<RevisionDiffResponse>(
+        `/history/${encodeURIComponent(sight)}/diff?${params.toString()}`,
+        { method: 'GET' }
+      );
+    } catch (error) {
+      console.error('Revision diff failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write an earlier revision back as the current value
+   */
+  async restoreRevision(
+    sight: string,
+    revision: number,
+    options: RevisionOptions & { expectedVersion?: number } = {}
+  ): Promise<RestoreResponse> {
+    this.validateSightIdentifier(sight);
+
+    try {
+      const response = await this.request<RestoreResponse>(
+        `/history/${encodeURIComponent(sight)}/restore`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ ...options, revision })
+        }
+      );
+
+      if (this.config.debug) {
+        console.log('Revision restored:', { sight, revision, version: response.version });
+      }
+
+      return response;
+    } catch (error) {
+      console.error('Revision restore failed:', error);
+      throw error;
+    }
+  }
+
+  private createRevisionParams(options: RevisionOptions): URLSearchParams {
+    const params = new URLSearchParams();
+    if (options.recordId) params.set('recordId', options.recordId);
+    if (options.id) params.set('id', options.id);
+    if (options.locale) params.set('locale', options.locale);
+    return params;
+  }
+
+  /**
+   * Default-locale content without a translation, in one locale or in every other locale
+   */
+  async getMissingTranslations(options: { locale?: string; prefix?: string } = {}): Promise<MissingTranslation[]> {
+    const params = new URLSearchParams();
+    if (options.locale) params.set('locale', options.locale);
+    if (options.prefix) params.set('prefix', options.prefix);
+    const query = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean; items: MissingTranslation[] }>(
+        `/translations/missing${query ? `?${query}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return response.items || [];
+    } catch (error) {
+      console.error('Missing translations fetch failed:', error);
+      throw error;
+    }
+  }
+
   async upload(file: File, sight: string): Promise<{ url: string }> {
     if (!file || !(file instanceof File)) {
       throw new Error('Invalid file provided');
@@ -290,6 +780,136 @@ export class SightEditAPI {
     }
   }
 
+  /**
+   * Search the media library, newest uploads first
+   */
+  async listAssets(query: AssetQuery = {}): Promise<AssetPage> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const search = params.toString();
+
+    try {
+      const response = await this.request<{ success: boolean } & AssetPage>(
+        `/assets${search ? `?${search}` : ''}`,
+        { method: 'GET' }
+      );
+
+      return {
+        assets: response.assets || [],
+        total: response.total || 0,
+        page: response.page || 1,
+        limit: response.limit || 0,
+        pages: response.pages || 1
+      };
+    } catch (error) {
+      console.error('Asset list failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * An asset together with the content that uses it
+   */
+  async getAsset(id: string): Promise<AssetDetails> {
+    this.validateAssetId(id);
+
+    try {
+      const response = await this.request<{ success: boolean } & AssetDetails>(
+        `/assets/${encodeURIComponent(id)}`,
+        { method: 'GET' }
+      );
+
+      return { asset: response.asset, references: response.references || [] };
+    } catch (error) {
+      console.error('Asset fetch failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload files into the media library. Fails only when none of the files could be stored.
+   */
+  async uploadAssets(files: File[], details: { alt?: string; tags?: string[] } = {}): Promise<MediaAsset[]> {
+    if (!Array.isArray(files) || files.length === 0 || files.some(file => !(file instanceof File))) {
+      throw new Error('Invalid files provided');
+    }
+
+    if (files.some(file => this.isFileUnsafe(file))) {
+      throw new Error('File validation failed');
+    }
+
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+    if (details.alt) formData.append('alt', details.alt);
+    if (details.tags) formData.append('tags', details.tags.join(','));
+
+    try {
+      const response = await this.request<{ success: boolean; files: Array<{ success: boolean; asset?: MediaAsset; error?: string }> }>(
+        '/upload',
+        {
+          method: 'POST',
+          body: formData,
+          headers: {}, // Let browser set Content-Type for FormData
+          timeout: 120000
+        }
+      );
+
+      const results = response.files || [];
+      const assets = results.filter(result => result.success && result.asset).map(result => result.asset!);
+      if (assets.length === 0) {
+        throw new Error(results.find(result => result.error)?.error || 'Upload failed');
+      }
+
+      if (this.config.debug) {
+        console.log('Assets uploaded:', { count: assets.length, failed: results.length - assets.length });
+      }
+
+      return assets;
+    } catch (error) {
+      console.error('Asset upload failed:', error);
+      throw error;
+    }
+  }
+
+  async updateAsset(id: string, changes: AssetChanges): Promise<MediaAsset> {
+    this.validateAssetId(id);
+
+    try {
+      const response = await this.request<{ success: boolean; asset: MediaAsset }>(
+        `/assets/${encodeURIComponent(id)}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(changes)
+        }
+      );
+
+      return response.asset;
+    } catch (error) {
+      console.error('Asset update failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an asset. The server refuses with a ConflictError while content still uses it,
+   * unless `force` is set.
+   */
+  async deleteAsset(id: string, options: { force?: boolean } = {}): Promise<void> {
+    this.validateAssetId(id);
+
+    try {
+      await this.request<{ success: boolean }>(
+        `/assets/${encodeURIComponent(id)}${options.force ? '?force=true' : ''}`,
+        { method: 'DELETE' }
+      );
+    } catch (error) {
+      console.error('Asset delete failed:', error);
+      throw error;
+    }
+  }
+
   private async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
     if (!path || typeof path !== 'string') {
       throw new Error('Invalid request path');
@@ -297,32 +917,80 @@ export class SightEditAPI {
 
     const url = this.buildUrl(path);
     const headers = await this.buildHeaders(options.headers);
+
+    // Hooks can rewrite the request or refuse to send it
+    const request = await executeHook<NetworkHookContext>('network:beforeRequest', {
+      url,
+      method: options.method || 'GET',
+      headers: Object.fromEntries(headers.entries()),
+      body: options.body
+    });
+    if (request.cancel) {
+      throw new HookCancelledError('network:beforeRequest', request.reason, { path });
+    }
     
     const requestOptions: RequestInit = {
       ...options,
-      headers: Object.fromEntries(headers.entries()),
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
       credentials: 'include'
     };
 
     if (this.config.debug) {
       console.log('SightEdit API Request', {
-        method: options.method || 'GET',
+        method: request.method,
         path,
-        hasBody: !!options.body
+        hasBody: !!request.body
+      });
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await this.send<T>(request.url, requestOptions, options.timeout, path);
+      const completed = await executeHook<NetworkHookContext>('network:afterRequest', {
+        ...request,
+        response,
+        duration: Date.now() - startedAt
       });
+      return completed.response;
+    } catch (error) {
+      const event = error instanceof Error && error.message === 'Request timeout' ? 'network:timeout' : 'network:error';
+      await executeHook<NetworkHookContext>(event, {
+        ...request,
+        error: error instanceof Error ? error : new Error(String(error)),
+        duration: Date.now() - startedAt
+      });
+      throw error;
     }
+  }
 
+  private async send<T>(url: string, requestOptions: RequestInit, timeout: number | undefined, path: string): Promise<T> {
     // Retry logic for failed requests
     const maxRetries = 3;
     let lastError: Error = new Error('Request failed after all retry attempts');
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const response = await this.fetchWithTimeout(url, requestOptions, options.timeout);
+        const response = await this.fetchWithTimeout(url, requestOptions, timeout);
         
         if (!response.ok) {
           const errorData = await this.parseError(response);
           const error = new Error(ErrorHandler.sanitizeErrorMessage(errorData.message || 'Request failed: ' + response.status));
+          (error as any).status = response.status;
+
+          // Stale writes carry the current server state so callers can resolve them
+          if (response.status === 409) {
+            const payload = errorData as any;
+            const conflicts = payload.conflicts || (payload.conflict ? [payload.conflict] : []);
+            throw new ConflictError(ErrorHandler.sanitizeErrorMessage(payload.error || error.message), conflicts, { path });
+          }
+
+          // Values the server's schema check refused, with the rule each one broke
+          if (response.status === 422 && Array.isArray((errorData as any).errors)) {
+            const payload = errorData as any;
+            throw new SchemaValidationError(ErrorHandler.sanitizeErrorMessage(payload.error || error.message), payload.errors, { path });
+          }
           
           // Only retry on server errors (5xx) and specific network errors
           if (response.status >= 500 && attempt < maxRetries) {
@@ -640,6 +1308,86 @@ export class SightEditAPI {
     return sanitized;
   }
 
+  private validateSightIdentifier(sight: string): void {
+    if (!sight || typeof sight !== 'string') {
+      throw new Error('Invalid sight identifier');
+    }
+
+    if (sight.includes('..') || sight.includes('/') || sight.includes('\\')) {
+      throw new Error('Sight identifier contains invalid characters');
+    }
+  }
+
+  private validatePublishTarget(target: PublishTarget): void {
+    if ('page' in target) {
+      if (!target.page || typeof target.page !== 'string') {
+        throw new Error('Invalid page');
+      }
+    } else {
+      const items = 'items' in target ? target.items : [target];
+      if (!Array.isArray(items) || items.length === 0) {
+        throw new Error('Nothing to publish');
+      }
+      items.forEach(item => this.validateSightIdentifier(item.sight));
+    }
+  }
+
+  private async workflowAction(action: WorkflowAction, target: PublishTarget, comment?: string): Promise<WorkflowResponse> {
+    this.validatePublishTarget(target);
+
+    try {
+      const response = await this.request<WorkflowResponse>(`/workflow/${action}`, {
+        method: 'POST',
+        body: JSON.stringify({ ...target, ...(comment ? { comment } : {}) })
+      });
+
+      if (this.config.debug) {
+        console.log(`Workflow ${action} completed:`, { count: response.items?.length ?? 0 });
+      }
+
+      return response;
+    } catch (error) {
+      console.error(`Workflow ${action} failed:`, error);
+      throw error;
+    }
+  }
+
+  private async setCommentStatus(id: string, action: 'resolve' | 'reopen'): Promise<CommentThread> {
+    this.validateCommentId(id);
+
+    try {
+      const response = await this.request<{ success: boolean; thread: CommentThread }>(
+        `/comments/${encodeURIComponent(id)}/${action}`,
+        { method: 'POST' }
+      );
+
+      return response.thread;
+    } catch (error) {
+      console.error(`Comment ${action} failed:`, error);
+      throw error;
+    }
+  }
+
+  private validateCommentId(id: string): void {
+    if (!/^[a-z0-9]{8,40}$/.test(id)) {
+      throw new Error('Invalid comment ID');
+    }
+  }
+
+  private toScheduleTime(value: Date | string | number): string {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error('Invalid schedule time');
+    }
+    return date.toISOString();
+  }
+
+  private validateAssetId(id: string): void {
+    if (!id || typeof id !== 'string' || !/^[a-zA-Z0-9._-]+$/.test(id) || id.includes('..')) {
+      throw new Error('Invalid asset ID');
+    }
+  }
+
   private createRequestKey(method: string, data: any): string {
     // Create a key based on method and data to identify duplicate requests
     const dataString = JSON.stringify(data);
@@ -3,7 +3,7 @@
  * Queues changes locally and syncs them in batches
  */
 
-import { SaveData, BatchOperation } from './types';
+import { SaveData, BatchOperation, BatchOptions, BatchResponse } from './types';
 import { EventEmitter } from './utils/event-emitter';
 
 export interface BatchConfig {
@@ -14,6 +14,15 @@ export interface BatchConfig {
   autoFlush: boolean;
   retryOnFailure: boolean;
   maxRetries: number;
+  atomic: boolean; // Ask the server to apply each flushed batch all-or-nothing
+}
+
+export interface FlushOptions {
+  atomic?: boolean;
+}
+
+export interface BatchSender {
+  batch(operations: BatchOperation[], options?: BatchOptions): Promise<BatchResponse>;
 }
 
 export interface QueuedChange {
@@ -35,7 +44,11 @@ export class BatchManager extends EventEmitter {
   private boundBeforeUnload: (event: BeforeUnloadEvent) => void;
   private boundVisibilityChange: () => void;
 
-  constructor(config: Partial<BatchConfig> = {}) {
+  /**
+   * Without a sender (usually a SightEditAPI) batches are handed to whoever
+   * listens for the `sightedit:batch` event.
+   */
+  constructor(config: Partial<BatchConfig> = {}, private sender?: BatchSender) {
     super();
 
     this.config = {
@@ -46,6 +59,7 @@ export class BatchManager extends EventEmitter {
       autoFlush: true,
       retryOnFailure: true,
       maxRetries: 3,
+      atomic: false,
       ...config
     };
 
@@ -155,9 +169,12 @@ export class BatchManager extends EventEmitter {
   }
 
   /**
-   * Manually flush the queue
+   * Manually flush the queue. In atomic mode the server rolls back the
+   * whole batch if any operation fails, so changes stay queued together.
    */
-  async flush(): Promise<void> {
+  async flush(options: FlushOptions = {}): Promise<void> {
+    const atomic = options.atomic ?? this.config.atomic;
+
     if (this.isProcessing || this.queue.size === 0) {
       return;
     }
@@ -176,7 +193,7 @@ export class BatchManager extends EventEmitter {
     try {
       // Process the batch
       const operations = batch.map(c => c.operation);
-      await this.processBatch(operations);
+      await this.processBatch(operations, atomic);
 
       // Mark as completed and remove from queue
       batch.forEach(change => {
@@ -208,14 +225,14 @@ export class BatchManager extends EventEmitter {
 
       // Schedule retry if enabled
       if (this.config.retryOnFailure) {
-        setTimeout(() => this.flush(), 5000); // Retry after 5 seconds
+        setTimeout(() => this.flush({ atomic }), 5000); // Retry after 5 seconds
       }
     } finally {
       this.isProcessing = false;
 
       // Continue flushing if more items
       if (this.queue.size > 0) {
-        setTimeout(() => this.flush(), 100);
+        setTimeout(() => this.flush({ atomic }), 100);
       }
     }
   }
@@ -223,10 +240,17 @@ export class BatchManager extends EventEmitter {
   /**
    * Process a batch of operations
    */
-  private async processBatch(operations: BatchOperation[]): Promise<void> {
-    // This will be overridden by the API implementation
+  private async processBatch(operations: BatchOperation[], atomic: boolean = false): Promise<void> {
+    if (this.sender) {
+      const response = await this.sender.batch(operations, { atomic });
+      if (!response.success) {
+        throw new Error(response.error || 'Batch processing failed');
+      }
+      return;
+    }
+
     const event = new CustomEvent('sightedit:batch', {
-      detail: { operations }
+      detail: { operations, atomic }
     });
     
     return new Promise((resolve, reject) => {
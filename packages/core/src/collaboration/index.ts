@@ -4,9 +4,20 @@
  */
 
 import { EventEmitter } from '../utils/event-emitter';
-import { SaveData, ElementType } from '../types';
+import { SaveData, ElementType, CommentAction, CommentThread } from '../types';
 import { JSONValidator } from '../utils/sanitizer';
 import { SafeJSONParser } from '../utils/safe-json';
+import {
+  TextOperation,
+  applyOperation,
+  composeOperations,
+  diffToOperation,
+  isNoop,
+  isTextOperation,
+  transformOperations
+} from './text-operation';
+
+export * from './text-operation';
 
 export interface CollaboratorInfo {
   id: string;
@@ -34,7 +45,8 @@ export interface CollaborationConfig {
 }
 
 export interface CollaborationMessage {
-  type: 'cursor' | 'selection' | 'edit' | 'presence' | 'sync' | 'lock' | 'unlock';
+  type: 'cursor' | 'selection' | 'edit' | 'presence' | 'sync' | 'lock' | 'unlock'
+    | 'open' | 'close' | 'op' | 'ack' | 'document' | 'error' | 'comment';
   userId: string;
   data: any;
   timestamp: number;
@@ -48,6 +60,27 @@ export interface EditOperation {
   userId: string;
 }
 
+export interface RemoteTextOperation {
+  sight: string;
+  operation: TextOperation;
+  text: string;
+  userId: string;
+}
+
+/**
+ * Client side of a text document. The server orders operations: at most one local
+ * operation is in flight (`outstanding`) and later local changes wait in `buffer`.
+ */
+interface TextDocumentState {
+  sight: string;
+  type: ElementType;
+  text: string; // Local text, including unconfirmed changes
+  serverText: string; // Text at `revision`
+  revision: number | null; // null until the server has sent the document
+  outstanding: TextOperation | null;
+  buffer: TextOperation | null;
+}
+
 /**
  * Manages real-time collaboration features for SightEdit
  */
@@ -60,7 +93,11 @@ export class CollaborationManager extends EventEmitter {
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private editQueue: EditOperation[] = [];
   private lockedElements: Map<string, string> = new Map(); // element -> userId
+  private textDocuments: Map<string, TextDocumentState> = new Map();
   private documentVersion = 0;
+  // Last room version received from the server, and which incarnation of the room it belongs to
+  private syncedVersion = 0;
+  private roomEpoch: string | null = null;
   private isConnected = false;
   
   // Security and rate limiting
@@ -149,15 +186,9 @@ export class CollaborationManager extends EventEmitter {
         this.reconnectAttempts = 0;
         this.sendPresence();
         this.startHeartbeat();
+        this.reopenTextDocuments();
         this.emit('connected');
-        
-        // Request sync with current state
-        this.send({
-          type: 'sync',
-          userId: this.config.userId,
-          data: { request: true },
-          timestamp: Date.now()
-        });
+        // The server syncs on connect, from the version in the connection URL when we have one
       };
 
       this.ws.onmessage = (event) => {
@@ -224,6 +255,7 @@ export class CollaborationManager extends EventEmitter {
     }
     this.collaborators.clear();
     this.lockedElements.clear();
+    this.textDocuments.clear();
     this.isConnected = false;
   }
 
@@ -252,6 +284,12 @@ export class CollaborationManager extends EventEmitter {
     
     // Add origin for server-side validation
     url.searchParams.set('origin', encodeURIComponent(window.location.origin));
+
+    // After a reconnect, only changes made while we were away are sent
+    if (this.roomEpoch) {
+      url.searchParams.set('since', String(this.syncedVersion));
+      url.searchParams.set('epoch', this.roomEpoch);
+    }
     
     return url.toString();
   }
@@ -314,7 +352,10 @@ export class CollaborationManager extends EventEmitter {
     }
     
     // Validate allowed message types
-    const allowedTypes = ['cursor', 'selection', 'edit', 'presence', 'sync', 'lock', 'unlock', 'pong'];
+    const allowedTypes = [
+      'cursor', 'selection', 'edit', 'presence', 'sync', 'lock', 'unlock', 'pong',
+      'open', 'close', 'op', 'ack', 'document', 'error', 'comment'
+    ];
     if (!allowedTypes.includes(message.type)) {
       return false;
     }
@@ -330,10 +371,50 @@ export class CollaborationManager extends EventEmitter {
       case 'lock':
       case 'unlock':
         return this.validateLockMessage(message.data);
+      case 'open':
+      case 'close':
+      case 'op':
+      case 'ack':
+      case 'document':
+        return this.validateTextMessage(message.type, message.data);
+      case 'comment':
+        return this.validateCommentMessage(message.data);
     }
     
     return true;
   }
+
+  /**
+   * Validates comment notifications
+   */
+  private validateCommentMessage(data: any): boolean {
+    return data &&
+           ['created', 'replied', 'resolved', 'reopened', 'deleted'].includes(data.action) &&
+           typeof data.thread === 'string' && /^[a-z0-9]{8,40}$/.test(data.thread) &&
+           typeof data.sight === 'string' && /^[a-zA-Z0-9_.-]+$/.test(data.sight);
+  }
+
+  /**
+   * Validates text document messages
+   */
+  private validateTextMessage(type: string, data: any): boolean {
+    if (!data || typeof data.sight !== 'string' || !/^[a-zA-Z0-9_.-]+$/.test(data.sight)) {
+      return false;
+    }
+
+    switch (type) {
+      case 'open':
+        return typeof data.value === 'string';
+      case 'op':
+        return Number.isInteger(data.revision) && isTextOperation(data.operation);
+      case 'ack':
+        return Number.isInteger(data.revision);
+      case 'document':
+        return Number.isInteger(data.revision) && typeof data.text === 'string';
+    }
+
+    return true;
+  }
   
   /**
    * Validates edit operation messages
@@ -401,7 +482,7 @@ export class CollaborationManager extends EventEmitter {
    */
   private handleMessage(message: CollaborationMessage): void {
     // Additional security check: verify message is from known collaborator for edit operations
-    if (message.type === 'edit' && !this.collaborators.has(message.userId) && message.userId !== this.config.userId) {
+    if ((message.type === 'edit' || message.type === 'op') && !this.collaborators.has(message.userId) && message.userId !== this.config.userId) {
       console.warn('Received edit from unknown collaborator:', message.userId);
       return;
     }
@@ -428,6 +509,25 @@ export class CollaborationManager extends EventEmitter {
       case 'unlock':
         this.handleElementUnlock(message);
         break;
+      case 'op':
+        this.handleRemoteTextOperation(message);
+        break;
+      case 'ack':
+        this.handleTextAck(message);
+        break;
+      case 'document':
+        this.handleTextDocument(message);
+        break;
+      case 'comment':
+        // Only the thread id travels over the socket; listeners load the thread from the API
+        this.emit('comment', { userId: message.userId, ...message.data });
+        break;
+      case 'error':
+        // The server lost the document, e.g. after a restart
+        if (message.data?.sight && this.textDocuments.has(message.data.sight)) {
+          this.sendOpen(this.textDocuments.get(message.data.sight)!);
+        }
+        break;
     }
   }
 
@@ -479,6 +579,7 @@ export class CollaborationManager extends EventEmitter {
     }
 
     this.documentVersion = operation.version;
+    this.trackVersion(operation.version);
     this.emit('remoteEdit', operation);
   }
 
@@ -516,6 +617,11 @@ export class CollaborationManager extends EventEmitter {
    * Handles sync responses from server
    */
   private handleSync(message: CollaborationMessage): void {
+    if (typeof message.data.epoch === 'string' && message.data.epoch !== this.roomEpoch) {
+      this.roomEpoch = message.data.epoch;
+      this.syncedVersion = 0;
+    }
+
     if (message.data.collaborators) {
       // Update collaborators list
       this.collaborators.clear();
@@ -534,8 +640,16 @@ export class CollaborationManager extends EventEmitter {
       });
     }
 
+    // Incremental sync: the latest value of each sight changed since our last version
+    if (Array.isArray(message.data.changes)) {
+      message.data.changes
+        .filter((change: EditOperation) => this.validateEditMessage(change))
+        .forEach((change: EditOperation) => this.emit('remoteEdit', change));
+    }
+
     if (message.data.version !== undefined) {
       this.documentVersion = message.data.version;
+      this.trackVersion(message.data.version);
     }
 
     this.emit('synced', message.data);
@@ -636,6 +750,208 @@ export class CollaborationManager extends EventEmitter {
     });
   }
 
+  /**
+   * Tells the room that a comment thread changed
+   */
+  sendComment(action: CommentAction, thread: Pick<CommentThread, 'id' | 'sight'>): void {
+    this.send({
+      type: 'comment',
+      userId: this.config.userId,
+      data: { action, thread: thread.id, sight: thread.sight },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Starts character-level editing of a text, rich text or markdown field. Local changes
+   * go through updateText(); remote ones arrive as `remoteTextOperation` events.
+   * Locks are not needed: concurrent changes are merged by the server.
+   */
+  openTextDocument(sight: string, type: ElementType, value: string): void {
+    if (this.textDocuments.has(sight)) return;
+
+    const state: TextDocumentState = {
+      sight,
+      type,
+      text: value,
+      serverText: value,
+      revision: null,
+      outstanding: null,
+      buffer: null
+    };
+    this.textDocuments.set(sight, state);
+    this.sendOpen(state);
+  }
+
+  /**
+   * Stops receiving operations for a field
+   */
+  closeTextDocument(sight: string): void {
+    if (!this.textDocuments.delete(sight)) return;
+
+    this.send({
+      type: 'close',
+      userId: this.config.userId,
+      data: { sight },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Sends the difference between the last known text and the field's new text
+   */
+  updateText(sight: string, text: string): void {
+    const state = this.textDocuments.get(sight);
+    if (!state) return;
+
+    const operation = diffToOperation(state.text, text);
+    if (isNoop(operation)) return;
+
+    state.text = text;
+    if (state.revision === null || state.outstanding) {
+      state.buffer = state.buffer ? composeOperations(state.buffer, operation) : operation;
+    } else {
+      this.sendTextOperation(state, operation);
+    }
+  }
+
+  /**
+   * Current local text of an open field
+   */
+  getText(sight: string): string | undefined {
+    return this.textDocuments.get(sight)?.text;
+  }
+
+  private sendOpen(state: TextDocumentState): void {
+    this.send({
+      type: 'open',
+      userId: this.config.userId,
+      data: { sight: state.sight, type: state.type, value: state.serverText },
+      timestamp: Date.now()
+    });
+  }
+
+  private sendTextOperation(state: TextDocumentState, operation: TextOperation): void {
+    state.outstanding = operation;
+    this.send({
+      type: 'op',
+      userId: this.config.userId,
+      data: { sight: state.sight, revision: state.revision, operation },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * The server applied our outstanding operation; the buffer can go next
+   */
+  private handleTextAck(message: CollaborationMessage): void {
+    const state = this.textDocuments.get(message.data.sight);
+    if (!state || !state.outstanding) return;
+
+    state.serverText = applyOperation(state.serverText, state.outstanding);
+    state.revision = message.data.revision;
+    this.trackVersion(message.data.version);
+    state.outstanding = null;
+
+    if (state.buffer) {
+      const buffer = state.buffer;
+      state.buffer = null;
+      this.sendTextOperation(state, buffer);
+    }
+  }
+
+  /**
+   * Transforms a collaborator's operation over our unconfirmed changes before applying it
+   */
+  private handleRemoteTextOperation(message: CollaborationMessage): void {
+    const state = this.textDocuments.get(message.data.sight);
+    if (!state || state.revision === null) return;
+
+    let operation: TextOperation = message.data.operation;
+    let { outstanding, buffer } = state;
+    let serverText: string;
+    let text: string;
+    try {
+      serverText = applyOperation(state.serverText, operation);
+      if (outstanding) {
+        [outstanding, operation] = transformOperations(outstanding, operation);
+      }
+      if (buffer) {
+        [buffer, operation] = transformOperations(buffer, operation);
+      }
+      text = applyOperation(state.text, operation);
+    } catch (error) {
+      console.warn('Text operation out of sync, reloading document:', state.sight, error);
+      this.sendOpen(state);
+      return;
+    }
+
+    Object.assign(state, { serverText, text, outstanding, buffer, revision: message.data.revision });
+    this.trackVersion(message.data.version);
+    this.emitRemoteText(state, operation, message.userId);
+  }
+
+  /**
+   * Takes the server's text and rebases unconfirmed local changes onto it
+   */
+  private handleTextDocument(message: CollaborationMessage): void {
+    const state = this.textDocuments.get(message.data.sight);
+    if (!state) return;
+
+    const serverText: string = message.data.text;
+
+    // Our in-flight operation may have been applied before the connection dropped
+    if (state.outstanding && applyOperation(state.serverText, state.outstanding) === serverText) {
+      state.serverText = serverText;
+      state.outstanding = null;
+    }
+
+    let pending: TextOperation | null = null;
+    if (!message.data.reset) {
+      pending = state.outstanding && state.buffer
+        ? composeOperations(state.outstanding, state.buffer)
+        : state.outstanding || state.buffer;
+    }
+
+    let remote = diffToOperation(state.serverText, serverText);
+    try {
+      if (pending) {
+        [pending, remote] = transformOperations(pending, remote);
+      }
+    } catch {
+      // Local changes no longer fit the document, the server's text wins
+      pending = null;
+    }
+    if (!pending) {
+      remote = diffToOperation(state.text, serverText);
+    }
+
+    state.text = applyOperation(state.text, remote);
+    state.serverText = serverText;
+    state.revision = message.data.revision;
+    state.outstanding = null;
+    state.buffer = null;
+
+    if (!isNoop(remote)) {
+      this.emitRemoteText(state, remote, message.userId);
+    }
+    if (pending && !isNoop(pending)) {
+      this.sendTextOperation(state, pending);
+    }
+  }
+
+  private emitRemoteText(state: TextDocumentState, operation: TextOperation, userId: string): void {
+    const event: RemoteTextOperation = { sight: state.sight, operation, text: state.text, userId };
+    this.emit('remoteTextOperation', event);
+  }
+
+  /**
+   * Reopens text documents after a reconnect so unconfirmed changes are rebased
+   */
+  private reopenTextDocuments(): void {
+    this.textDocuments.forEach(state => this.sendOpen(state));
+  }
+
   /**
    * Requests lock on an element
    */
@@ -714,17 +1030,25 @@ export class CollaborationManager extends EventEmitter {
   }
 
   /**
-   * Requests full sync from server
+   * Requests a sync from the server, only of missed changes once we know the room
    */
   private requestSync(): void {
     this.send({
       type: 'sync',
       userId: this.config.userId,
-      data: { request: true },
+      data: this.roomEpoch
+        ? { request: true, since: this.syncedVersion, epoch: this.roomEpoch }
+        : { request: true },
       timestamp: Date.now()
     });
   }
 
+  private trackVersion(version: any): void {
+    if (Number.isInteger(version) && version > this.syncedVersion) {
+      this.syncedVersion = version;
+    }
+  }
+
   /**
    * Attempts to reconnect after connection loss
    */
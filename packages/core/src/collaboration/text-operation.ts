@@ -0,0 +1,355 @@
+/**
+ * @module @sightedit/core/collaboration/text-operation
+ * @description Operational transformation for plain strings (text, rich text HTML and markdown)
+ *
+ * An operation walks the whole document once: a positive number retains that many
+ * characters, a negative number deletes them and a string inserts it. `[3, 'a', -2, 4]`
+ * keeps 3 characters, inserts "a", deletes 2 and keeps the remaining 4.
+ *
+ * The server copy in `@sightedit/server-node` must stay identical, since both sides
+ * have to transform concurrent operations the same way.
+ */
+
+export type TextOperation = Array<number | string>;
+
+const isRetain = (op: number | string | undefined): op is number => typeof op === 'number' && op > 0;
+const isDelete = (op: number | string | undefined): op is number => typeof op === 'number' && op < 0;
+const isInsert = (op: number | string | undefined): op is string => typeof op === 'string';
+
+/**
+ * Appends components while keeping operations canonical: adjacent components of the
+ * same kind are merged and an insert always comes before a neighbouring delete
+ */
+class OperationBuilder {
+  readonly ops: TextOperation = [];
+
+  retain(count: number): this {
+    if (count <= 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isRetain(last)) {
+      this.ops[this.ops.length - 1] = last + count;
+    } else {
+      this.ops.push(count);
+    }
+    return this;
+  }
+
+  insert(text: string): this {
+    if (text === '') return this;
+    const ops = this.ops;
+    const last = ops[ops.length - 1];
+    if (isInsert(last)) {
+      ops[ops.length - 1] = last + text;
+    } else if (isDelete(last)) {
+      const beforeDelete = ops[ops.length - 2];
+      if (isInsert(beforeDelete)) {
+        ops[ops.length - 2] = beforeDelete + text;
+      } else {
+        ops[ops.length] = last;
+        ops[ops.length - 2] = text;
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(count: number): this {
+    count = Math.abs(count);
+    if (count === 0) return this;
+    const last = this.ops[this.ops.length - 1];
+    if (isDelete(last)) {
+      this.ops[this.ops.length - 1] = last - count;
+    } else {
+      this.ops.push(-count);
+    }
+    return this;
+  }
+}
+
+/**
+ * Checks that a value received over the wire is a well-formed operation
+ */
+export function isTextOperation(value: any): value is TextOperation {
+  return Array.isArray(value) && value.every(op =>
+    (typeof op === 'number' && Number.isInteger(op) && op !== 0) ||
+    (typeof op === 'string' && op.length > 0)
+  );
+}
+
+/**
+ * Length of the document the operation applies to
+ */
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, op) => length + (isInsert(op) ? 0 : Math.abs(op)), 0);
+}
+
+/**
+ * Length of the document after the operation
+ */
+export function targetLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (length, op) => length + (isInsert(op) ? op.length : isRetain(op) ? op : 0),
+    0
+  );
+}
+
+export function isNoop(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (baseLength(operation) !== text.length) {
+    throw new Error(`Operation expects a document of length ${baseLength(operation)}, got ${text.length}`);
+  }
+
+  let result = '';
+  let index = 0;
+  for (const op of operation) {
+    if (isRetain(op)) {
+      result += text.slice(index, index + op);
+      index += op;
+    } else if (isInsert(op)) {
+      result += op;
+    } else {
+      index -= op;
+    }
+  }
+  return result;
+}
+
+/**
+ * Combines two consecutive operations into one with the same effect
+ */
+export function composeOperations(a: TextOperation, b: TextOperation): TextOperation {
+  if (targetLength(a) !== baseLength(b)) {
+    throw new Error('The second operation must apply to the result of the first');
+  }
+
+  const result = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = a[i1++];
+  let op2 = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isDelete(op1)) {
+      result.delete(op1);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      result.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        result.retain(op2);
+        op1 = op1 - op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        result.retain(op1);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.retain(op1);
+        op2 = op2 - op1;
+        op1 = a[i1++];
+      }
+    } else if (isInsert(op1) && isDelete(op2)) {
+      if (op1.length > -op2) {
+        op1 = op1.slice(-op2);
+        op2 = b[i2++];
+      } else if (op1.length === -op2) {
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        op2 = op2 + op1.length;
+        op1 = a[i1++];
+      }
+    } else if (isInsert(op1) && isRetain(op2)) {
+      if (op1.length > op2) {
+        result.insert(op1.slice(0, op2));
+        op1 = op1.slice(op2);
+        op2 = b[i2++];
+      } else if (op1.length === op2) {
+        result.insert(op1);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.insert(op1);
+        op2 = op2 - op1.length;
+        op1 = a[i1++];
+      }
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        result.delete(op2);
+        op1 = op1 + op2;
+        op2 = b[i2++];
+      } else if (op1 === -op2) {
+        result.delete(op2);
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        result.delete(op1);
+        op2 = op2 + op1;
+        op1 = a[i1++];
+      }
+    } else {
+      throw new Error('Operations cannot be composed');
+    }
+  }
+
+  return result.ops;
+}
+
+/**
+ * Transforms two operations made concurrently on the same document into `[a', b']` so that
+ * applying a then b' gives the same text as b then a'. When both insert at the same
+ * position, a's text goes first.
+ */
+export function transformOperations(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new Error('Both operations must apply to the same document');
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = a[i1++];
+  let op2 = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      aPrime.insert(op1);
+      bPrime.retain(op1.length);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      aPrime.retain(op2.length);
+      bPrime.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+
+    let length: number;
+    if (isRetain(op1) && isRetain(op2)) {
+      if (op1 > op2) {
+        length = op2;
+        op1 = op1 - op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        length = op2;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = op1;
+        op2 = op2 - op1;
+        op1 = a[i1++];
+      }
+      aPrime.retain(length);
+      bPrime.retain(length);
+    } else if (isDelete(op1) && isDelete(op2)) {
+      // Both deleted the same characters
+      if (-op1 > -op2) {
+        op1 = op1 - op2;
+        op2 = b[i2++];
+      } else if (op1 === op2) {
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        op2 = op2 - op1;
+        op1 = a[i1++];
+      }
+    } else if (isDelete(op1) && isRetain(op2)) {
+      if (-op1 > op2) {
+        length = op2;
+        op1 = op1 + op2;
+        op2 = b[i2++];
+      } else if (-op1 === op2) {
+        length = op2;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = -op1;
+        op2 = op2 + op1;
+        op1 = a[i1++];
+      }
+      aPrime.delete(length);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      if (op1 > -op2) {
+        length = -op2;
+        op1 = op1 + op2;
+        op2 = b[i2++];
+      } else if (op1 === -op2) {
+        length = op1;
+        op1 = a[i1++];
+        op2 = b[i2++];
+      } else {
+        length = op1;
+        op2 = op2 + op1;
+        op1 = a[i1++];
+      }
+      bPrime.delete(length);
+    } else {
+      throw new Error('Operations cannot be transformed');
+    }
+  }
+
+  return [aPrime.ops, bPrime.ops];
+}
+
+/**
+ * Moves a caret or selection offset over an operation, so it stays next to the same
+ * characters. Text inserted exactly at the offset ends up before it.
+ */
+export function transformIndex(index: number, operation: TextOperation): number {
+  let remaining = index;
+  let result = index;
+
+  for (const op of operation) {
+    if (isRetain(op)) {
+      remaining -= op;
+    } else if (isInsert(op)) {
+      result += op.length;
+    } else {
+      result -= Math.min(remaining, -op);
+      remaining += op;
+    }
+    if (remaining < 0) break;
+  }
+
+  return result;
+}
+
+/**
+ * Operation turning one string into another, as a single replaced span between the
+ * common prefix and suffix. Enough for input events, which change one contiguous range.
+ */
+export function diffToOperation(oldText: string, newText: string): TextOperation {
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+    prefix++;
+  }
+
+  const maxSuffix = maxPrefix - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  return new OperationBuilder()
+    .retain(prefix)
+    .insert(newText.slice(prefix, newText.length - suffix))
+    .delete(oldText.length - prefix - suffix)
+    .retain(suffix)
+    .ops;
+}
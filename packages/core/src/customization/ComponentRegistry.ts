@@ -14,9 +14,13 @@ export type ComponentType =
   | 'cancelButton'
   | 'deleteButton'
   | 'closeButton'
+  | 'button'
   | 'loadingSpinner'
   | 'errorMessage'
-  | 'successMessage';
+  | 'successMessage'
+  | 'formField'
+  | 'tabs'
+  | 'confirmDialog';
 
 export interface ComponentProps {
   // Common props for all components
@@ -30,12 +34,13 @@ export interface ComponentProps {
   onCancel?: () => void;
   isSaving?: boolean;
 
-  // Modal props
+  // Modal and sidebar props
   title?: string;
   content?: HTMLElement | string;
+  footer?: HTMLElement; // Container the editor adds its buttons to
   onClose?: () => void;
-  width?: number;
-  height?: number;
+  width?: number | string;
+  height?: number | string;
 
   // Editor props
   value?: any;
@@ -55,6 +60,22 @@ export interface ComponentProps {
   duration?: number;
   onDismiss?: () => void;
 
+  // Form field props. The editor owns `control` and reads its value; the field lays it out.
+  control?: HTMLElement;
+  description?: string;
+  error?: string;
+  required?: boolean;
+
+  // Tabs props
+  tabs?: Array<{ id: string; label: string }>;
+  activeTab?: string;
+  onSelect?: (id: string) => void;
+
+  // Confirmation dialog props
+  confirmLabel?: string;
+  cancelLabel?: string;
+  onConfirm?: () => void;
+
   // Custom props
   [key: string]: any;
 }
@@ -131,9 +152,10 @@ export class ComponentRegistry {
   }
 
   /**
-   * Render a component with the highest priority override or default
+   * Render a component with the highest priority override or default. Built-in UI passes
+   * its own look as `builtIn`, which is used instead of the default when not overridden.
    */
-  render(type: ComponentType, props: ComponentProps): HTMLElement {
+  render(type: ComponentType, props: ComponentProps, builtIn?: ComponentRenderer): HTMLElement {
     const overrides = this.overrides.get(type);
 
     // Use highest priority override if available
@@ -146,6 +168,10 @@ export class ComponentRegistry {
       }
     }
 
+    if (builtIn) {
+      return builtIn(props);
+    }
+
     // Use default renderer
     const defaultRenderer = this.defaults.get(type);
     if (defaultRenderer) {
@@ -178,6 +204,8 @@ export class ComponentRegistry {
    * Register default component renderers
    */
   private registerDefaults(): void {
+    this.registerLayoutDefaults();
+
     // Toolbar
     this.defaults.set('toolbar', (props) => {
       const toolbar = document.createElement('div');
@@ -439,6 +467,9 @@ export class ComponentRegistry {
       return overlay;
     });
 
+    // Button: any other action in an editor, e.g. "Today" or "Format"
+    this.defaults.set('button', dialogButton('#f3f4f6', '#374151'));
+
     // Loading Spinner
     this.defaults.set('loadingSpinner', (props) => {
       const spinner = document.createElement('div');
@@ -577,6 +608,153 @@ export class ComponentRegistry {
     });
   }
 
+  /**
+   * Defaults for the sidebar, form field, tabs and confirmation dialog slots
+   */
+  private registerLayoutDefaults(): void {
+    // Sidebar
+    this.defaults.set('sidebar', (props) => {
+      const sidebar = document.createElement('div');
+      sidebar.className = 'se-sidebar';
+      sidebar.style.cssText = `
+        position: fixed;
+        top: 0;
+        right: 0;
+        bottom: 0;
+        width: ${typeof props.width === 'number' ? `${props.width}px` : props.width || '400px'};
+        background: white;
+        box-shadow: -10px 0 30px rgba(0,0,0,0.1);
+        display: flex;
+        flex-direction: column;
+        z-index: 10000;
+      `;
+
+      const header = document.createElement('div');
+      header.style.cssText = `
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 1.5rem;
+        border-bottom: 1px solid #e5e7eb;
+      `;
+      const title = document.createElement('h3');
+      title.textContent = props.title || '';
+      title.style.cssText = 'margin: 0; font-size: 1.25rem; font-weight: 600; color: #1f2937;';
+      header.appendChild(title);
+      if (props.onClose) {
+        header.appendChild(this.render('closeButton', { onClick: props.onClose }));
+      }
+      sidebar.appendChild(header);
+
+      const content = document.createElement('div');
+      content.style.cssText = 'padding: 1.5rem; overflow: auto; flex: 1;';
+      if (props.content instanceof HTMLElement) {
+        content.appendChild(props.content);
+      }
+      sidebar.appendChild(content);
+
+      return sidebar;
+    });
+
+    // Form Field
+    this.defaults.set('formField', (props) => {
+      const field = document.createElement('div');
+      field.className = 'se-form-field';
+      field.style.cssText = 'margin-bottom: 16px;';
+
+      if (props.label) {
+        const label = document.createElement('label');
+        label.textContent = props.required ? `${props.label} *` : props.label;
+        label.style.cssText = `
+          display: block;
+          margin-bottom: 6px;
+          font-size: 14px;
+          font-weight: 600;
+          color: #374151;
+        `;
+        if (props.control?.id) {
+          label.htmlFor = props.control.id;
+        }
+        field.appendChild(label);
+      }
+
+      if (props.control) {
+        field.appendChild(props.control);
+      }
+
+      if (props.description || props.error) {
+        const hint = document.createElement('div');
+        hint.textContent = props.error || props.description || '';
+        hint.style.cssText = `
+          margin-top: 4px;
+          font-size: 12px;
+          color: ${props.error ? '#dc2626' : '#6b7280'};
+        `;
+        field.appendChild(hint);
+      }
+
+      return field;
+    });
+
+    // Tabs
+    this.defaults.set('tabs', (props) => {
+      const tabs = document.createElement('div');
+      tabs.className = 'se-tabs';
+      tabs.setAttribute('role', 'tablist');
+      tabs.style.cssText = 'display: flex; gap: 4px; border-bottom: 2px solid #e5e7eb; margin-bottom: 16px;';
+
+      (props.tabs || []).forEach(tab => {
+        const button = document.createElement('button');
+        const active = tab.id === props.activeTab;
+        button.type = 'button';
+        button.textContent = tab.label;
+        button.setAttribute('role', 'tab');
+        button.setAttribute('aria-selected', String(active));
+        button.style.cssText = `
+          padding: 8px 16px;
+          background: none;
+          border: none;
+          border-bottom: 2px solid ${active ? '#8b5cf6' : 'transparent'};
+          margin-bottom: -2px;
+          color: ${active ? '#8b5cf6' : '#6b7280'};
+          font-weight: 600;
+          cursor: pointer;
+        `;
+        button.addEventListener('click', () => props.onSelect?.(tab.id));
+        tabs.appendChild(button);
+      });
+
+      return tabs;
+    });
+
+    // Confirmation Dialog
+    this.defaults.set('confirmDialog', (props) => {
+      const content = document.createElement('p');
+      content.textContent = props.message || '';
+      content.style.cssText = 'margin: 0 0 1.5rem; color: #374151; font-size: 14px;';
+
+      const actions = document.createElement('div');
+      actions.style.cssText = 'display: flex; justify-content: flex-end; gap: 8px;';
+      // The default buttons are styled for the toolbar; these suit a white dialog
+      actions.appendChild(this.render(
+        'cancelButton',
+        { label: props.cancelLabel || 'Cancel', onClick: props.onCancel },
+        dialogButton('#f3f4f6', '#374151')
+      ));
+      actions.appendChild(this.render(
+        props.variant === 'danger' ? 'deleteButton' : 'saveButton',
+        { label: props.confirmLabel || 'OK', onClick: props.onConfirm },
+        props.variant === 'danger' ? dialogButton('#ef4444', 'white') : dialogButton('#8b5cf6', 'white')
+      ));
+
+      const body = document.createElement('div');
+      body.appendChild(content);
+      body.appendChild(actions);
+
+      return this.render('modal', { title: props.title, content: body, onClose: props.onCancel, width: 420 });
+    });
+  }
+
   /**
    * Get a default renderer (for testing/debugging)
    */
@@ -585,6 +763,28 @@ export class ComponentRegistry {
   }
 }
 
+function dialogButton(background: string, color: string): ComponentRenderer {
+  return (props) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = props.label || '';
+    button.style.cssText = `
+      padding: 8px 16px;
+      background: ${background};
+      color: ${color};
+      border: none;
+      border-radius: 4px;
+      font-size: 14px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    if (props.onClick) {
+      button.addEventListener('click', () => props.onClick?.());
+    }
+    return button;
+  };
+}
+
 // Export singleton instance
 export const componentRegistry = ComponentRegistry.getInstance();
 
@@ -597,8 +797,8 @@ export function unregisterComponent(type: ComponentType, renderer: ComponentRend
   componentRegistry.unregister(type, renderer);
 }
 
-export function renderComponent(type: ComponentType, props: ComponentProps): HTMLElement {
-  return componentRegistry.render(type, props);
+export function renderComponent(type: ComponentType, props: ComponentProps, builtIn?: ComponentRenderer): HTMLElement {
+  return componentRegistry.render(type, props, builtIn);
 }
 
 export function hasComponentOverride(type: ComponentType): boolean {
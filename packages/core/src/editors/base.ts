@@ -1,6 +1,7 @@
 import { Editor, EditorConfig, ValidationResult } from '../types';
 import { EventEmitter } from '../utils/event-emitter';
 import { addClass, removeClass, hasClass } from '../utils/dom';
+import { renderComponent, ComponentRenderer } from '../customization/ComponentRegistry';
 
 export abstract class BaseEditor extends EventEmitter implements Editor {
   public element: HTMLElement;
@@ -278,6 +279,50 @@ export abstract class BaseEditor extends EventEmitter implements Editor {
     return false;
   }
 
+  /**
+   * Editor button, rendered by the app's component for `type` when it overrides one.
+   * `style` is the look of the built-in button.
+   */
+  protected renderButton(
+    type: 'saveButton' | 'cancelButton' | 'deleteButton' | 'button',
+    label: string,
+    style: string,
+    onClick: () => void | Promise<void>
+  ): HTMLElement {
+    return renderComponent(type, { label, onClick }, () => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = label;
+      button.style.cssText = style;
+      button.onclick = () => onClick();
+      return button;
+    });
+  }
+
+  /**
+   * Tab strip for switching between views of the editor, rendered again each time a
+   * tab is selected. `builtIn` draws the editor's own strip when `tabs` isn't overridden.
+   */
+  protected renderTabStrip(
+    tabs: Array<{ id: string; label: string }>,
+    activeTab: string,
+    onSelect: (id: string) => void,
+    builtIn: ComponentRenderer
+  ): HTMLElement {
+    const render = (active: string): HTMLElement => renderComponent('tabs', {
+      tabs,
+      activeTab: active,
+      onSelect: (id) => {
+        onSelect(id);
+        const selected = render(id);
+        strip.replaceWith(selected);
+        strip = selected;
+      }
+    }, builtIn);
+    let strip = render(activeTab);
+    return strip;
+  }
+
   protected injectStyles(): void {
     if (document.getElementById('sight-edit-styles')) return;
     
@@ -1,5 +1,8 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { renderComponent } from '../customization/ComponentRegistry';
+import { t } from '../i18n/I18n';
+import { confirmAction } from '../ui/confirm-dialog';
 
 interface CollectionItem {
   id: string;
@@ -100,8 +103,8 @@ export class CollectionModalEditor extends BaseEditor {
       font-size: 14px;
     `;
     instructions.innerHTML = `
-      <div style="font-weight: 600; margin-bottom: 5px;">📚 Collection Editor</div>
-      <div>Add, edit, remove, and reorder items in this collection.</div>
+      <div style="font-weight: 600; margin-bottom: 5px;">📚 ${t('collection.title')}</div>
+      <div>${t('collection.help')}</div>
     `;
 
     // Items container
@@ -127,7 +130,7 @@ export class CollectionModalEditor extends BaseEditor {
 
     const addInput = document.createElement('input');
     addInput.type = 'text';
-    addInput.placeholder = 'Enter new item...';
+    addInput.placeholder = t('collection.newItem');
     addInput.style.cssText = `
       flex: 1;
       padding: 10px;
@@ -136,26 +139,7 @@ export class CollectionModalEditor extends BaseEditor {
       font-size: 14px;
     `;
 
-    const addBtn = document.createElement('button');
-    addBtn.textContent = '➕ Add Item';
-    addBtn.style.cssText = `
-      padding: 10px 20px;
-      background: #3b82f6;
-      color: white;
-      border: none;
-      border-radius: 6px;
-      font-weight: 600;
-      cursor: pointer;
-      transition: all 0.2s;
-    `;
-    addBtn.onmouseover = () => {
-      addBtn.style.background = '#2563eb';
-    };
-    addBtn.onmouseout = () => {
-      addBtn.style.background = '#3b82f6';
-    };
-
-    addBtn.onclick = () => {
+    const addFromInput = () => {
       const value = addInput.value.trim();
       if (value) {
         this.addItem(value);
@@ -164,10 +148,35 @@ export class CollectionModalEditor extends BaseEditor {
       }
     };
 
+    const addLabel = `➕ ${t('collection.addItem')}`;
+    const addBtn = renderComponent('button', { label: addLabel, onClick: addFromInput }, () => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = addLabel;
+      btn.style.cssText = `
+        padding: 10px 20px;
+        background: #3b82f6;
+        color: white;
+        border: none;
+        border-radius: 6px;
+        font-weight: 600;
+        cursor: pointer;
+        transition: all 0.2s;
+      `;
+      btn.onmouseover = () => {
+        btn.style.background = '#2563eb';
+      };
+      btn.onmouseout = () => {
+        btn.style.background = '#3b82f6';
+      };
+      btn.onclick = addFromInput;
+      return btn;
+    });
+
     // Enter key to add
     addInput.onkeypress = (e) => {
       if (e.key === 'Enter') {
-        addBtn.click();
+        addFromInput();
       }
     };
 
@@ -182,22 +191,22 @@ export class CollectionModalEditor extends BaseEditor {
       margin-bottom: 15px;
     `;
 
-    const sortBtn = this.createActionButton('🔤 Sort A-Z', () => {
+    const sortBtn = this.createActionButton(`🔤 ${t('collection.sort')}`, () => {
       this.items.sort((a, b) => a.value.localeCompare(b.value));
       this.renderItems(itemsContainer);
     });
 
-    const reverseBtn = this.createActionButton('🔃 Reverse', () => {
+    const reverseBtn = this.createActionButton(`🔃 ${t('collection.reverse')}`, () => {
       this.items.reverse();
       this.renderItems(itemsContainer);
     });
 
-    const clearBtn = this.createActionButton('🗑️ Clear All', () => {
-      if (confirm('Are you sure you want to remove all items?')) {
+    const clearBtn = this.createActionButton(`🗑️ ${t('common.clearAll')}`, async () => {
+      if (await confirmAction({ message: t('collection.confirmClear'), variant: 'danger' })) {
         this.items = [];
         this.renderItems(itemsContainer);
       }
-    });
+    }, 'deleteButton');
 
     actions.appendChild(sortBtn);
     actions.appendChild(reverseBtn);
@@ -228,15 +237,13 @@ export class CollectionModalEditor extends BaseEditor {
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '📚 Collection Editor',
+      title: `📚 ${t('collection.title')}`,
       width: '600px',
       footer: true
     });
 
     // Footer buttons
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -244,12 +251,9 @@ export class CollectionModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -257,8 +261,7 @@ export class CollectionModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => this.stopEditing(true);
+    `, () => this.stopEditing(true));
 
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
@@ -267,28 +270,35 @@ export class CollectionModalEditor extends BaseEditor {
     setTimeout(() => addInput.focus(), 100);
   }
 
-  private createActionButton(label: string, onClick: () => void): HTMLElement {
-    const btn = document.createElement('button');
-    btn.textContent = label;
-    btn.style.cssText = `
-      padding: 8px 16px;
-      background: white;
-      border: 1px solid #e5e7eb;
-      border-radius: 6px;
-      cursor: pointer;
-      font-size: 14px;
-      transition: all 0.2s;
-    `;
-    btn.onmouseover = () => {
-      btn.style.background = '#f3f4f6';
-      btn.style.borderColor = '#9ca3af';
-    };
-    btn.onmouseout = () => {
-      btn.style.background = 'white';
-      btn.style.borderColor = '#e5e7eb';
-    };
-    btn.onclick = onClick;
-    return btn;
+  private createActionButton(
+    label: string,
+    onClick: () => void,
+    type: 'button' | 'deleteButton' = 'button'
+  ): HTMLElement {
+    return renderComponent(type, { label, onClick }, () => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = label;
+      btn.style.cssText = `
+        padding: 8px 16px;
+        background: white;
+        border: 1px solid #e5e7eb;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: 14px;
+        transition: all 0.2s;
+      `;
+      btn.onmouseover = () => {
+        btn.style.background = '#f3f4f6';
+        btn.style.borderColor = '#9ca3af';
+      };
+      btn.onmouseout = () => {
+        btn.style.background = 'white';
+        btn.style.borderColor = '#e5e7eb';
+      };
+      btn.onclick = onClick;
+      return btn;
+    });
   }
 
   private renderItems(container: HTMLElement): void {
@@ -303,8 +313,8 @@ export class CollectionModalEditor extends BaseEditor {
       `;
       empty.innerHTML = `
         <div style="font-size: 48px; margin-bottom: 10px;">📭</div>
-        <div>No items in collection</div>
-        <div style="font-size: 12px; margin-top: 5px;">Add items using the input above</div>
+        <div>${t('collection.empty')}</div>
+        <div style="font-size: 12px; margin-top: 5px;">${t('collection.emptyHint')}</div>
       `;
       container.appendChild(empty);
       this.updateStats();
@@ -389,6 +399,7 @@ export class CollectionModalEditor extends BaseEditor {
           [this.items[index], this.items[index - 1]] = [this.items[index - 1], this.items[index]];
           this.renderItems(container);
         });
+        upBtn.setAttribute('aria-label', t('collection.moveUp'));
         actions.appendChild(upBtn);
       }
 
@@ -398,6 +409,7 @@ export class CollectionModalEditor extends BaseEditor {
           [this.items[index], this.items[index + 1]] = [this.items[index + 1], this.items[index]];
           this.renderItems(container);
         });
+        downBtn.setAttribute('aria-label', t('collection.moveDown'));
         actions.appendChild(downBtn);
       }
 
@@ -406,6 +418,7 @@ export class CollectionModalEditor extends BaseEditor {
         this.items.splice(index, 1);
         this.renderItems(container);
       }, '#ef4444');
+      deleteBtn.setAttribute('aria-label', t('collection.remove'));
       actions.appendChild(deleteBtn);
 
       // Drag over handlers
@@ -476,10 +489,7 @@ export class CollectionModalEditor extends BaseEditor {
     if (stats) {
       const count = this.items.length;
       const chars = this.items.reduce((sum, item) => sum + item.value.length, 0);
-      stats.innerHTML = `
-        <strong>${count}</strong> item${count !== 1 ? 's' : ''} • 
-        <strong>${chars}</strong> total characters
-      `;
+      stats.textContent = t('collection.stats', { count, chars });
     }
   }
 
@@ -1,5 +1,6 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { t } from '../i18n/I18n';
 
 export class ColorModalEditor extends BaseEditor {
   private modal: ModalManager;
@@ -44,7 +45,7 @@ export class ColorModalEditor extends BaseEditor {
         <div style="flex: 1;">
           <!-- Preview -->
           <div style="margin-bottom: 20px;">
-            <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Preview</label>
+            <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">${t('common.preview')}</label>
             <div id="color-preview" style="width: 100%; height: 80px; border-radius: 8px; border: 1px solid #e5e7eb;"></div>
           </div>
           
@@ -75,7 +76,7 @@ export class ColorModalEditor extends BaseEditor {
           
           <!-- Preset Colors -->
           <div>
-            <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Presets</label>
+            <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">${t('color.presets')}</label>
             <div style="display: grid; grid-template-columns: repeat(8, 1fr); gap: 5px;">
               ${this.getPresetColors().map(color => `
                 <div class="preset-color" data-color="${color}"
@@ -92,7 +93,7 @@ export class ColorModalEditor extends BaseEditor {
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '🎨 Color Picker',
+      title: `🎨 ${t('color.title')}`,
       width: '600px',
       footer: true
     });
@@ -103,9 +104,7 @@ export class ColorModalEditor extends BaseEditor {
     }, 100);
 
     // Footer buttons
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -113,18 +112,15 @@ export class ColorModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => {
+    `, () => {
       const hexInput = document.getElementById('hex-input') as HTMLInputElement;
       if (hexInput) {
         this.currentColor = hexInput.value;
       }
       this.stopEditing(true);
-    };
+    });
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -132,8 +128,7 @@ export class ColorModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
@@ -1,5 +1,7 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { ComponentProps } from '../customization/ComponentRegistry';
+import { i18n, t } from '../i18n/I18n';
 
 export class DateModalEditor extends BaseEditor {
   private modal: ModalManager;
@@ -38,21 +40,13 @@ export class DateModalEditor extends BaseEditor {
     container.style.cssText = 'min-width: 350px;';
 
     // Date/Time toggle
-    const modeToggle = document.createElement('div');
-    modeToggle.style.cssText = `
-      display: flex;
-      gap: 10px;
-      margin-bottom: 20px;
-      background: #f3f4f6;
-      padding: 4px;
-      border-radius: 8px;
-    `;
-
-    const dateBtn = this.createModeButton('📅 Date', true);
-    const timeBtn = this.createModeButton('🕐 Time', false);
-    
-    modeToggle.appendChild(dateBtn);
-    modeToggle.appendChild(timeBtn);
+    const modeToggle = this.renderTabStrip([
+      { id: 'date', label: `📅 ${t('date.date')}` },
+      { id: 'time', label: `🕐 ${t('date.time')}` }
+    ], 'date', (mode) => {
+      calendarView.style.display = mode === 'date' ? 'block' : 'none';
+      timeView.style.display = mode === 'time' ? 'block' : 'none';
+    }, (props) => this.renderModeToggle(props));
 
     // Calendar view
     const calendarView = document.createElement('div');
@@ -82,28 +76,9 @@ export class DateModalEditor extends BaseEditor {
     container.appendChild(timeView);
     container.appendChild(selectionDisplay);
 
-    // Mode switching
-    dateBtn.onclick = () => {
-      dateBtn.style.background = '#3b82f6';
-      dateBtn.style.color = 'white';
-      timeBtn.style.background = 'transparent';
-      timeBtn.style.color = '#6b7280';
-      calendarView.style.display = 'block';
-      timeView.style.display = 'none';
-    };
-
-    timeBtn.onclick = () => {
-      timeBtn.style.background = '#3b82f6';
-      timeBtn.style.color = 'white';
-      dateBtn.style.background = 'transparent';
-      dateBtn.style.color = '#6b7280';
-      timeView.style.display = 'block';
-      calendarView.style.display = 'none';
-    };
-
     // Open modal
     const footer = this.modal.open(container, {
-      title: '📅 Date & Time Picker',
+      title: `📅 ${t('date.title')}`,
       width: '400px',
       footer: true
     });
@@ -116,9 +91,7 @@ export class DateModalEditor extends BaseEditor {
     }, 100);
 
     // Footer buttons
-    const todayBtn = document.createElement('button');
-    todayBtn.textContent = 'Today';
-    todayBtn.style.cssText = `
+    const todayBtn = this.renderButton('button', t('date.today'), `
       padding: 10px 20px;
       background: #3b82f6;
       color: white;
@@ -126,19 +99,16 @@ export class DateModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-      margin-right: auto;
-    `;
-    todayBtn.onclick = () => {
+      margin-inline-end: auto;
+    `, () => {
       this.selectedDate = new Date();
       this.selectedTime = this.selectedDate.toTimeString().slice(0, 5);
       this.renderCalendar(calendarView);
       this.renderTimePicker(timeView);
       this.updateSelectionDisplay(selectionDisplay);
-    };
+    });
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -146,12 +116,9 @@ export class DateModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -159,18 +126,37 @@ export class DateModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => {
+    `, () => {
       const [hours, minutes] = this.selectedTime.split(':');
       this.selectedDate.setHours(parseInt(hours), parseInt(minutes));
       this.stopEditing(true);
-    };
+    });
 
     footer.appendChild(todayBtn);
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
   }
 
+  private renderModeToggle(props: ComponentProps): HTMLElement {
+    const modeToggle = document.createElement('div');
+    modeToggle.style.cssText = `
+      display: flex;
+      gap: 10px;
+      margin-bottom: 20px;
+      background: #f3f4f6;
+      padding: 4px;
+      border-radius: 8px;
+    `;
+
+    (props.tabs || []).forEach(({ id, label }) => {
+      const btn = this.createModeButton(label, id === props.activeTab);
+      btn.onclick = () => props.onSelect?.(id);
+      modeToggle.appendChild(btn);
+    });
+
+    return modeToggle;
+  }
+
   private createModeButton(label: string, active: boolean): HTMLElement {
     const btn = document.createElement('button');
     btn.textContent = label;
@@ -203,8 +189,11 @@ export class DateModalEditor extends BaseEditor {
       margin-bottom: 15px;
     `;
 
+    // The arrows point the way the calendar reads
+    const rtl = i18n.getDirection() === 'rtl';
     const prevBtn = document.createElement('button');
-    prevBtn.innerHTML = '◀';
+    prevBtn.innerHTML = rtl ? '▶' : '◀';
+    prevBtn.setAttribute('aria-label', t('date.previousMonth'));
     prevBtn.style.cssText = this.getNavButtonStyle();
     prevBtn.onclick = () => {
       this.selectedDate.setMonth(month - 1);
@@ -213,11 +202,12 @@ export class DateModalEditor extends BaseEditor {
     };
 
     const monthLabel = document.createElement('div');
-    monthLabel.textContent = `${this.getMonthName(month)} ${year}`;
+    monthLabel.textContent = i18n.formatDate(new Date(year, month, 1), { month: 'long', year: 'numeric' });
     monthLabel.style.cssText = 'font-weight: 600; color: #374151;';
 
     const nextBtn = document.createElement('button');
-    nextBtn.innerHTML = '▶';
+    nextBtn.innerHTML = rtl ? '◀' : '▶';
+    nextBtn.setAttribute('aria-label', t('date.nextMonth'));
     nextBtn.style.cssText = this.getNavButtonStyle();
     nextBtn.onclick = () => {
       this.selectedDate.setMonth(month + 1);
@@ -232,8 +222,8 @@ export class DateModalEditor extends BaseEditor {
     // Day headers
     const dayHeaders = document.createElement('div');
     dayHeaders.style.cssText = 'display: grid; grid-template-columns: repeat(7, 1fr); gap: 5px; margin-bottom: 10px;';
-    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    days.forEach(day => {
+    const firstDayOfWeek = i18n.getFirstDayOfWeek();
+    this.getWeekdayNames(firstDayOfWeek).forEach(day => {
       const header = document.createElement('div');
       header.textContent = day;
       header.style.cssText = 'text-align: center; font-size: 12px; font-weight: 600; color: #6b7280;';
@@ -249,7 +239,7 @@ export class DateModalEditor extends BaseEditor {
     const today = new Date();
 
     // Empty cells before first day
-    for (let i = 0; i < firstDay; i++) {
+    for (let i = 0; i < (firstDay - firstDayOfWeek + 7) % 7; i++) {
       const empty = document.createElement('div');
       grid.appendChild(empty);
     }
@@ -316,7 +306,7 @@ export class DateModalEditor extends BaseEditor {
     hoursContainer.style.cssText = 'text-align: center;';
     
     const hoursLabel = document.createElement('div');
-    hoursLabel.textContent = 'Hours';
+    hoursLabel.textContent = t('date.hours');
     hoursLabel.style.cssText = 'font-size: 12px; color: #6b7280; margin-bottom: 10px;';
     
     const hoursInput = document.createElement('input');
@@ -353,7 +343,7 @@ export class DateModalEditor extends BaseEditor {
     minutesContainer.style.cssText = 'text-align: center;';
     
     const minutesLabel = document.createElement('div');
-    minutesLabel.textContent = 'Minutes';
+    minutesLabel.textContent = t('date.minutes');
     minutesLabel.style.cssText = 'font-size: 12px; color: #6b7280; margin-bottom: 10px;';
     
     const minutesInput = document.createElement('input');
@@ -426,7 +416,7 @@ export class DateModalEditor extends BaseEditor {
     if (!display) return;
     display.id = 'selection-display';
     
-    const dateStr = this.selectedDate.toLocaleDateString('en-US', {
+    const dateStr = i18n.formatDate(this.selectedDate, {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -439,10 +429,14 @@ export class DateModalEditor extends BaseEditor {
     `;
   }
 
-  private getMonthName(month: number): string {
-    const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                   'July', 'August', 'September', 'October', 'November', 'December'];
-    return months[month];
+  /**
+   * Short weekday names in the UI language, starting from `firstDay`
+   */
+  private getWeekdayNames(firstDay: number): string[] {
+    // 2023-01-01 was a Sunday
+    return Array.from({ length: 7 }, (_, i) =>
+      i18n.formatDate(new Date(2023, 0, 1 + ((firstDay + i) % 7)), { weekday: 'short' })
+    );
   }
 
   private getNavButtonStyle(): string {
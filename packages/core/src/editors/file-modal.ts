@@ -1,10 +1,15 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { MediaLibrary } from '../ui/media-library';
+import { MediaAsset } from '../types';
+import { i18n, t } from '../i18n/I18n';
 
 export class FileModalEditor extends BaseEditor {
   private modal: ModalManager;
   private selectedFiles: File[] = [];
   private uploadedUrls: string[] = [];
+  private library: MediaLibrary | null = null;
+  private libraryAssets: MediaAsset[] = [];
   private allowMultiple: boolean = false;
   private acceptTypes: string = '*/*';
   private maxSize: number = 10 * 1024 * 1024; // 10MB default
@@ -62,9 +67,9 @@ export class FileModalEditor extends BaseEditor {
     dropZone.innerHTML = `
       <div style="font-size: 64px; margin-bottom: 20px;">📁</div>
       <div style="font-size: 20px; font-weight: 600; color: #1f2937; margin-bottom: 10px;">
-        Drag & drop files here
+        ${t('file.dropHere')}
       </div>
-      <div style="color: #6b7280; margin-bottom: 20px;">or</div>
+      <div style="color: #6b7280; margin-bottom: 20px;">${t('common.or')}</div>
       <input type="file" id="file-input" ${this.allowMultiple ? 'multiple' : ''} accept="${this.acceptTypes}" style="display: none;">
       <button onclick="document.getElementById('file-input').click()" style="
         padding: 12px 24px;
@@ -77,10 +82,10 @@ export class FileModalEditor extends BaseEditor {
         cursor: pointer;
         transition: all 0.2s;
       " onmouseover="this.style.background='#2563eb'" onmouseout="this.style.background='#3b82f6'">
-        Choose Files
+        ${t('file.chooseFiles')}
       </button>
       <div style="color: #6b7280; margin-top: 15px; font-size: 14px;">
-        ${this.getAcceptDescription()} • Max ${this.formatFileSize(this.maxSize)}
+        ${this.getAcceptDescription()} • ${t('file.maxSize', { size: this.formatFileSize(this.maxSize) })}
       </div>
     `;
 
@@ -92,7 +97,7 @@ export class FileModalEditor extends BaseEditor {
     const progressContainer = document.createElement('div');
     progressContainer.style.cssText = 'margin-top: 20px; display: none;';
     progressContainer.innerHTML = `
-      <div style="margin-bottom: 10px; font-weight: 600; color: #374151;">Uploading...</div>
+      <div style="margin-bottom: 10px; font-weight: 600; color: #374151;">${t('file.uploading')}</div>
       <div style="background: #e5e7eb; border-radius: 8px; overflow: hidden; height: 8px;">
         <div id="upload-progress" style="background: #3b82f6; height: 100%; width: 0%; transition: width 0.3s;"></div>
       </div>
@@ -138,18 +143,19 @@ export class FileModalEditor extends BaseEditor {
     container.appendChild(dropZone);
     container.appendChild(filesPreview);
     container.appendChild(progressContainer);
+    if (this.config.media) {
+      container.appendChild(this.createLibrarySection());
+    }
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '📤 File Upload',
+      title: `📤 ${t('file.title')}`,
       width: '600px',
       footer: true
     });
 
     // Footer buttons
-    const clearBtn = document.createElement('button');
-    clearBtn.textContent = 'Clear All';
-    clearBtn.style.cssText = `
+    const clearBtn = this.renderButton('deleteButton', t('common.clearAll'), `
       padding: 10px 20px;
       background: #ef4444;
       color: white;
@@ -157,18 +163,16 @@ export class FileModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-      margin-right: auto;
-    `;
-    clearBtn.onclick = () => {
+      margin-inline-end: auto;
+    `, () => {
       this.selectedFiles = [];
       this.uploadedUrls = [];
+      this.libraryAssets = [];
       filesPreview.innerHTML = '';
       progressContainer.style.display = 'none';
-    };
+    });
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -176,12 +180,9 @@ export class FileModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const uploadBtn = document.createElement('button');
-    uploadBtn.textContent = 'Upload & Apply';
-    uploadBtn.style.cssText = `
+    const uploadBtn = this.renderButton('saveButton', t('file.uploadApply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -189,14 +190,24 @@ export class FileModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    uploadBtn.onclick = async () => {
+    `, async () => {
       if (this.selectedFiles.length > 0) {
         progressContainer.style.display = 'block';
-        await this.uploadFiles(progressContainer);
+        try {
+          await this.uploadFiles(progressContainer);
+        } catch (error) {
+          const statusText = progressContainer.querySelector('#upload-status') as HTMLElement;
+          statusText.textContent = t('file.uploadFailed', { message: error instanceof Error ? error.message : t('file.unknownError') });
+          return;
+        }
+      }
+      // Files picked from the library are used as they are
+      const libraryUrls = this.libraryAssets.map(asset => asset.url);
+      if (libraryUrls.length > 0) {
+        this.uploadedUrls = this.allowMultiple ? [...this.uploadedUrls, ...libraryUrls] : libraryUrls.slice(0, 1);
       }
       this.stopEditing(true);
-    };
+    });
 
     footer.appendChild(clearBtn);
     footer.appendChild(cancelBtn);
@@ -207,7 +218,7 @@ export class FileModalEditor extends BaseEditor {
     // Validate files
     const validFiles = files.filter(file => {
       if (file.size > this.maxSize) {
-        alert(`File ${file.name} exceeds maximum size of ${this.formatFileSize(this.maxSize)}`);
+        alert(t('file.tooLarge', { name: file.name, size: this.formatFileSize(this.maxSize) }));
         return false;
       }
       if (this.acceptTypes !== '*/*') {
@@ -219,7 +230,7 @@ export class FileModalEditor extends BaseEditor {
           return file.type === type || file.name.endsWith(type);
         });
         if (!accepted) {
-          alert(`File ${file.name} is not an accepted type`);
+          alert(t('file.notAccepted', { name: file.name }));
           return false;
         }
       }
@@ -241,7 +252,7 @@ export class FileModalEditor extends BaseEditor {
     if (this.selectedFiles.length === 0) return;
 
     const title = document.createElement('div');
-    title.textContent = 'Selected Files:';
+    title.textContent = t('file.selected');
     title.style.cssText = 'font-weight: 600; color: #374151; margin-bottom: 10px;';
     container.appendChild(title);
 
@@ -270,12 +281,13 @@ export class FileModalEditor extends BaseEditor {
       info.style.cssText = 'flex: 1;';
       info.innerHTML = `
         <div style="font-weight: 500; color: #1f2937;">${file.name}</div>
-        <div style="font-size: 12px; color: #6b7280;">${this.formatFileSize(file.size)} • ${file.type || 'Unknown type'}</div>
+        <div style="font-size: 12px; color: #6b7280;">${this.formatFileSize(file.size)} • ${file.type || t('file.unknownType')}</div>
       `;
 
       // Remove button
       const removeBtn = document.createElement('button');
       removeBtn.innerHTML = '×';
+      removeBtn.setAttribute('aria-label', t('file.remove', { name: file.name }));
       removeBtn.style.cssText = `
         width: 24px;
         height: 24px;
@@ -301,6 +313,60 @@ export class FileModalEditor extends BaseEditor {
     container.appendChild(filesList);
   }
 
+  /**
+   * Collapsible media library for reusing files that were uploaded before
+   */
+  private createLibrarySection(): HTMLElement {
+    const section = document.createElement('div');
+    section.style.cssText = 'margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;';
+
+    const toggle = document.createElement('button');
+    toggle.type = 'button';
+    toggle.textContent = `📚 ${t('file.chooseFromLibrary')}`;
+    toggle.style.cssText = `
+      padding: 8px 16px;
+      background: none;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      font-weight: 600;
+      color: #374151;
+      cursor: pointer;
+    `;
+
+    const body = document.createElement('div');
+    body.style.cssText = 'display: none; margin-top: 12px;';
+
+    toggle.onclick = () => {
+      if (!this.library && this.config.media) {
+        this.library = new MediaLibrary(this.config.media, {
+          type: this.getLibraryType(),
+          accept: this.acceptTypes,
+          multiple: this.allowMultiple,
+          onSelectionChange: assets => {
+            this.libraryAssets = assets;
+          }
+        });
+        body.appendChild(this.library.render());
+      }
+      body.style.display = body.style.display === 'none' ? 'block' : 'none';
+    };
+
+    section.appendChild(toggle);
+    section.appendChild(body);
+    return section;
+  }
+
+  /**
+   * Narrows the library listing when the editor accepts a single kind of file, e.g. `video/*`
+   */
+  private getLibraryType(): string | undefined {
+    const types = this.acceptTypes.split(',').map(type => type.trim());
+    if (types.length === 1 && types[0] !== '*/*' && types[0].includes('/')) {
+      return types[0].endsWith('/*') ? types[0].slice(0, -2) : types[0];
+    }
+    return undefined;
+  }
+
   private async uploadFiles(progressContainer: HTMLElement): Promise<void> {
     const progressBar = progressContainer.querySelector('#upload-progress') as HTMLElement;
     const statusText = progressContainer.querySelector('#upload-status') as HTMLElement;
@@ -310,19 +376,24 @@ export class FileModalEditor extends BaseEditor {
     
     for (let i = 0; i < totalFiles; i++) {
       const file = this.selectedFiles[i];
-      statusText.textContent = `Uploading ${file.name} (${i + 1}/${totalFiles})...`;
+      statusText.textContent = t('file.uploadingFile', { name: file.name, current: i + 1, total: totalFiles });
       
       const progress = ((i + 1) / totalFiles) * 100;
       progressBar.style.width = `${progress}%`;
       
-      // Simulate upload (in real implementation, would upload to server)
-      const url = await this.simulateUpload(file);
-      this.uploadedUrls.push(url);
-      
-      await new Promise(resolve => setTimeout(resolve, 500)); // Simulate delay
+      if (this.config.media) {
+        const [asset] = await this.config.media.uploadAssets([file]);
+        this.uploadedUrls.push(asset.url);
+      } else {
+        // Simulate upload when no server is connected
+        const url = await this.simulateUpload(file);
+        this.uploadedUrls.push(url);
+        
+        await new Promise(resolve => setTimeout(resolve, 500)); // Simulate delay
+      }
     }
     
-    statusText.textContent = `✓ Successfully uploaded ${totalFiles} file(s)`;
+    statusText.textContent = `✓ ${t('file.uploaded', { count: totalFiles })}`;
     progressBar.style.background = '#10b981';
   }
 
@@ -354,11 +425,11 @@ export class FileModalEditor extends BaseEditor {
   }
 
   private getAcceptDescription(): string {
-    if (this.acceptTypes === '*/*') return 'All file types';
+    if (this.acceptTypes === '*/*') return t('file.allTypes');
     const types = this.acceptTypes.split(',').map(t => t.trim());
     if (types.length === 1) {
       if (types[0].endsWith('/*')) {
-        return types[0].slice(0, -2).split('/')[1].toUpperCase() + ' files';
+        return t('file.typeFiles', { type: types[0].slice(0, -2).split('/')[1].toUpperCase() });
       }
       return types[0].toUpperCase();
     }
@@ -366,9 +437,9 @@ export class FileModalEditor extends BaseEditor {
   }
 
   private formatFileSize(bytes: number): string {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    if (bytes < 1024) return i18n.formatNumber(bytes, { style: 'unit', unit: 'byte' });
+    if (bytes < 1024 * 1024) return i18n.formatNumber(bytes / 1024, { style: 'unit', unit: 'kilobyte', maximumFractionDigits: 1 });
+    return i18n.formatNumber(bytes / (1024 * 1024), { style: 'unit', unit: 'megabyte', maximumFractionDigits: 1 });
   }
 
   protected async stopEditing(save: boolean = true): Promise<void> {
@@ -376,6 +447,9 @@ export class FileModalEditor extends BaseEditor {
       this.value = this.uploadedUrls.join(',');
       this.applyValue(this.value);
     }
+    this.library?.destroy();
+    this.library = null;
+    this.libraryAssets = [];
     this.modal.close();
     await super.stopEditing(save);
   }
@@ -390,7 +464,7 @@ export class FileModalEditor extends BaseEditor {
 
   applyValue(value: string): void {
     if (!value) {
-      this.element.textContent = '📎 Click to upload files';
+      this.element.textContent = `📎 ${t('file.placeholder')}`;
       this.uploadedUrls = [];
       return;
     }
@@ -400,16 +474,16 @@ export class FileModalEditor extends BaseEditor {
     
     const fileNames = urls.map(url => {
       if (url.startsWith('data:')) {
-        return 'Uploaded file';
+        return t('file.uploadedFile');
       }
       if (url.startsWith('/uploads/')) {
         const parts = url.split('/');
-        return parts[parts.length - 1] || 'File';
+        return parts[parts.length - 1] || t('file.file');
       }
-      return url.split('/').pop() || 'File';
+      return url.split('/').pop() || t('file.file');
     });
     
-    this.element.textContent = fileNames.length > 0 ? fileNames.join(', ') : '📎 Click to upload files';
+    this.element.textContent = fileNames.length > 0 ? fileNames.join(', ') : `📎 ${t('file.placeholder')}`;
     this.element.dataset.fileUrls = value;
   }
 
@@ -7,6 +7,7 @@ import { BaseEditor } from './base';
 import { EditorOptions } from '../types';
 import { HTMLDesignerSchema } from '../schema/advanced-schema';
 import { HTMLSanitizer } from '../utils/sanitizer';
+import { renderComponent } from '../customization/ComponentRegistry';
 
 export class HTMLDesignerEditor extends BaseEditor {
   private schema?: HTMLDesignerSchema;
@@ -540,20 +541,15 @@ export class HTMLDesignerEditor extends BaseEditor {
     const actions = document.createElement('div');
     actions.style.cssText = 'display: flex; gap: 12px;';
     
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', 'Cancel', `
       padding: 8px 20px;
       border: 1px solid #d1d5db;
       background: white;
       border-radius: 6px;
       cursor: pointer;
-    `;
-    cancelBtn.addEventListener('click', () => this.closeDesigner());
+    `, () => this.closeDesigner());
     
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Save Changes';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', 'Save Changes', `
       padding: 8px 20px;
       background: #8b5cf6;
       color: white;
@@ -561,8 +557,7 @@ export class HTMLDesignerEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 500;
       cursor: pointer;
-    `;
-    saveBtn.addEventListener('click', () => this.saveChanges());
+    `, () => this.saveChanges());
     
     actions.appendChild(cancelBtn);
     actions.appendChild(saveBtn);
@@ -743,19 +738,6 @@ export class HTMLDesignerEditor extends BaseEditor {
     readonly: boolean,
     onChange?: (value: string) => void
   ): HTMLElement {
-    const field = document.createElement('div');
-    field.style.cssText = 'margin-bottom: 12px;';
-    
-    const labelEl = document.createElement('label');
-    labelEl.textContent = label;
-    labelEl.style.cssText = `
-      display: block;
-      font-size: 12px;
-      color: #6b7280;
-      margin-bottom: 4px;
-    `;
-    field.appendChild(labelEl);
-    
     let input: HTMLInputElement | HTMLTextAreaElement;
     
     if (type === 'textarea') {
@@ -781,9 +763,23 @@ export class HTMLDesignerEditor extends BaseEditor {
       input.addEventListener('input', () => onChange(input.value));
     }
     
-    field.appendChild(input);
-    
-    return field;
+    return renderComponent('formField', { label, control: input }, () => {
+      const field = document.createElement('div');
+      field.style.cssText = 'margin-bottom: 12px;';
+
+      const labelEl = document.createElement('label');
+      labelEl.textContent = label;
+      labelEl.style.cssText = `
+        display: block;
+        font-size: 12px;
+        color: #6b7280;
+        margin-bottom: 4px;
+      `;
+      field.appendChild(labelEl);
+      field.appendChild(input);
+
+      return field;
+    });
   }
   
   private switchMode(mode: 'visual' | 'code' | 'split'): void {
@@ -1,9 +1,26 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { t } from '../i18n/I18n';
+import { MediaLibrary } from '../ui/media-library';
+import { renderComponent, ComponentProps } from '../customization/ComponentRegistry';
+import { FocalPoint, MediaAsset, ResponsiveImageValue } from '../types';
+import {
+  applyImageValue,
+  assetIdFromUrl,
+  compactImageValue,
+  focalPointToPosition,
+  normalizeImageValue,
+  readImageValue,
+  responsiveValueFromAsset
+} from '../utils/responsive-image';
 
 export class ImageModalEditor extends BaseEditor {
   private modal: ModalManager;
   private currentSrc: string = '';
+  private currentValue: ResponsiveImageValue = { src: '' };
+  private selectedAsset: MediaAsset | null = null;
+  private focalPoint?: FocalPoint;
+  private library: MediaLibrary | null = null;
 
   constructor(element: HTMLElement, config?: any) {
     super(element, config);
@@ -24,27 +41,25 @@ export class ImageModalEditor extends BaseEditor {
     super.startEditing();
     
     const img = this.element.tagName === 'IMG' ? this.element as HTMLImageElement : this.element.querySelector('img');
-    this.currentSrc = img?.src || '';
+    this.currentValue = normalizeImageValue(img ? readImageValue(img) : '');
+    this.currentSrc = this.currentValue.src;
+    this.focalPoint = this.currentValue.focalPoint;
+    this.selectedAsset = null;
 
     // Create editor content
     const container = document.createElement('div');
 
-    // Tab buttons
-    const tabs = document.createElement('div');
-    tabs.style.cssText = `
-      display: flex;
-      gap: 10px;
-      margin-bottom: 20px;
-      border-bottom: 2px solid #e5e7eb;
-    `;
-
-    const urlTab = this.createTab('URL', true);
-    const uploadTab = this.createTab('Upload', false);
-    const libraryTab = this.createTab('Library', false);
-    
-    tabs.appendChild(urlTab);
-    tabs.appendChild(uploadTab);
-    tabs.appendChild(libraryTab);
+    // Tab buttons. The library lists assets on the server, so it needs a media source.
+    const tabList = [
+      { id: 'url', label: t('image.tabUrl') },
+      { id: 'upload', label: t('image.tabUpload') },
+      ...(this.config.media ? [{ id: 'library', label: t('image.tabLibrary') }] : [])
+    ];
+    const tabs = this.renderTabStrip(tabList, 'url', (id) => {
+      Object.entries(tabPanels).forEach(([panelId, panel]) => {
+        panel.style.display = panelId === id ? 'block' : 'none';
+      });
+    }, (props) => this.renderTabs(props));
 
     // Tab contents
     const tabContents = document.createElement('div');
@@ -52,18 +67,8 @@ export class ImageModalEditor extends BaseEditor {
     // URL Tab Content
     const urlContent = document.createElement('div');
     urlContent.id = 'url-tab';
-    urlContent.innerHTML = `
-      <div style="margin-bottom: 20px;">
-        <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Image URL</label>
-        <input type="url" id="image-url" value="${this.currentSrc}" placeholder="https://example.com/image.jpg"
-          style="width: 100%; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px;">
-      </div>
-      <div style="margin-bottom: 20px;">
-        <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Alt Text</label>
-        <input type="text" id="image-alt" value="${img?.alt || ''}" placeholder="Describe the image"
-          style="width: 100%; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px;">
-      </div>
-    `;
+    urlContent.appendChild(this.renderField(t('image.url'), 'image-url', 'url', this.currentSrc, 'https://example.com/image.jpg'));
+    urlContent.appendChild(this.renderField(t('image.alt'), 'image-alt', 'text', img?.alt || '', t('image.altPlaceholder')));
 
     // Upload Tab Content
     const uploadContent = document.createElement('div');
@@ -72,15 +77,15 @@ export class ImageModalEditor extends BaseEditor {
     uploadContent.innerHTML = `
       <div style="border: 2px dashed #d1d5db; border-radius: 8px; padding: 40px; text-align: center; background: #f9fafb;">
         <div style="font-size: 48px; margin-bottom: 10px;">📁</div>
-        <div style="font-weight: 600; margin-bottom: 10px;">Drag & drop your image here</div>
-        <div style="color: #6b7280; margin-bottom: 20px;">or</div>
+        <div style="font-weight: 600; margin-bottom: 10px;">${t('image.dropHere')}</div>
+        <div style="color: #6b7280; margin-bottom: 20px;">${t('common.or')}</div>
         <input type="file" id="file-input" accept="image/*" style="display: none;">
         <button onclick="document.getElementById('file-input').click()"
           style="padding: 10px 20px; background: #3b82f6; color: white; border: none; border-radius: 6px; cursor: pointer; font-weight: 600;">
-          Choose File
+          ${t('image.chooseFile')}
         </button>
         <div style="color: #6b7280; margin-top: 10px; font-size: 12px;">
-          Supported formats: JPG, PNG, GIF, WebP (Max 5MB)
+          ${t('image.formats')}
         </div>
       </div>
     `;
@@ -89,29 +94,39 @@ export class ImageModalEditor extends BaseEditor {
     const libraryContent = document.createElement('div');
     libraryContent.id = 'library-tab';
     libraryContent.style.display = 'none';
-    libraryContent.innerHTML = `
-      <div style="display: grid; grid-template-columns: repeat(auto-fill, minmax(120px, 1fr)); gap: 10px;">
-        ${this.getStockImages().map(img => `
-          <div class="library-image" style="cursor: pointer; border: 2px solid transparent; border-radius: 8px; overflow: hidden; transition: all 0.2s;"
-               onmouseover="this.style.borderColor='#3b82f6'; this.style.transform='scale(1.05)'"
-               onmouseout="this.style.borderColor='transparent'; this.style.transform='scale(1)'"
-               onclick="document.getElementById('image-url').value='${img}'; updatePreview();">
-            <img src="${img}" style="width: 100%; height: 100px; object-fit: cover;">
-          </div>
-        `).join('')}
-      </div>
-    `;
+    if (this.config.media) {
+      this.library = new MediaLibrary(this.config.media, {
+        type: 'image',
+        accept: 'image/*',
+        onSelectionChange: ([asset]) => {
+          if (!asset) return;
+          const urlInput = document.getElementById('image-url') as HTMLInputElement;
+          const altInput = document.getElementById('image-alt') as HTMLInputElement;
+          if (urlInput) urlInput.value = asset.url;
+          if (altInput && asset.alt) altInput.value = asset.alt;
+          this.selectedAsset = asset;
+          this.focalPoint = asset.focalPoint;
+          updatePreview();
+        }
+      });
+      libraryContent.appendChild(this.library.render());
+    }
 
     // Image preview
     const previewContainer = document.createElement('div');
     previewContainer.innerHTML = `
       <div style="margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
-        <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Preview</label>
+        <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">${t('common.preview')}</label>
         <div style="border: 1px solid #d1d5db; border-radius: 8px; padding: 20px; background: #f9fafb; text-align: center;">
+          <div id="preview-frame" style="position: relative; display: inline-block; cursor: crosshair;">
           <img id="preview-image" src="${this.currentSrc}" 
-               style="max-width: 100%; max-height: 300px; border-radius: 4px;"
+               style="display: block; max-width: 100%; max-height: 300px; border-radius: 4px;"
                onerror="this.src='data:image/svg+xml,%3Csvg xmlns=\\'http://www.w3.org/2000/svg\\' width=\\'200\\' height=\\'200\\' viewBox=\\'0 0 200 200\\'%3E%3Crect width=\\'200\\' height=\\'200\\' fill=\\'%23f3f4f6\\'/%3E%3Ctext x=\\'50%25\\' y=\\'50%25\\' text-anchor=\\'middle\\' dy=\\'.3em\\' fill=\\'%236b7280\\' font-family=\\'sans-serif\\' font-size=\\'14\\'%3ENo Preview%3C/text%3E%3C/svg%3E'">
+          <div id="focal-marker" style="display: none; position: absolute; width: 16px; height: 16px; margin: -10px 0 0 -10px;
+               border: 2px solid white; border-radius: 50%; background: rgba(59, 130, 246, 0.8); box-shadow: 0 0 0 1px rgba(0, 0, 0, 0.4); pointer-events: none;"></div>
+          </div>
         </div>
+        <div style="margin-top: 8px; font-size: 12px; color: #6b7280;">${t('image.focalPointHint')}</div>
       </div>
     `;
 
@@ -123,23 +138,7 @@ export class ImageModalEditor extends BaseEditor {
     container.appendChild(tabContents);
     container.appendChild(previewContainer);
 
-    // Tab switching logic
-    const tabButtons = [urlTab, uploadTab, libraryTab];
-    const tabPanels = [urlContent, uploadContent, libraryContent];
-    
-    tabButtons.forEach((btn, index) => {
-      btn.onclick = () => {
-        tabButtons.forEach(b => {
-          b.style.borderBottom = '2px solid transparent';
-          b.style.color = '#6b7280';
-        });
-        tabPanels.forEach(p => p.style.display = 'none');
-        
-        btn.style.borderBottom = '2px solid #3b82f6';
-        btn.style.color = '#3b82f6';
-        tabPanels[index].style.display = 'block';
-      };
-    });
+    const tabPanels: Record<string, HTMLElement> = { url: urlContent, upload: uploadContent, library: libraryContent };
 
     // Update preview function
     const updatePreview = () => {
@@ -148,11 +147,21 @@ export class ImageModalEditor extends BaseEditor {
       if (urlInput && previewImg) {
         previewImg.src = urlInput.value;
       }
+      updateFocalMarker();
+    };
+
+    const updateFocalMarker = () => {
+      const marker = document.getElementById('focal-marker');
+      if (!marker) return;
+      marker.style.display = this.focalPoint ? 'block' : 'none';
+      if (this.focalPoint) {
+        [marker.style.left, marker.style.top] = focalPointToPosition(this.focalPoint).split(' ');
+      }
     };
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '🖼️ Image Editor',
+      title: `🖼️ ${t('image.title')}`,
       width: '700px',
       footer: true
     });
@@ -161,8 +170,27 @@ export class ImageModalEditor extends BaseEditor {
     setTimeout(() => {
       const urlInput = document.getElementById('image-url') as HTMLInputElement;
       if (urlInput) {
-        urlInput.addEventListener('input', updatePreview);
+        urlInput.addEventListener('input', () => {
+          // The focal point belongs to the previous image
+          this.focalPoint = undefined;
+          updatePreview();
+        });
+      }
+
+      const previewImg = document.getElementById('preview-image') as HTMLImageElement;
+      if (previewImg) {
+        previewImg.addEventListener('click', (e) => {
+          const rect = previewImg.getBoundingClientRect();
+          if (!rect.width || !rect.height) return;
+          const clamp = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000;
+          this.focalPoint = {
+            x: clamp((e.clientX - rect.left) / rect.width),
+            y: clamp((e.clientY - rect.top) / rect.height)
+          };
+          updateFocalMarker();
+        });
       }
+      updateFocalMarker();
 
       // File upload handler
       const fileInput = document.getElementById('file-input') as HTMLInputElement;
@@ -182,15 +210,10 @@ export class ImageModalEditor extends BaseEditor {
           }
         });
       }
-
-      // Make updatePreview global for onclick handlers
-      (window as any).updatePreview = updatePreview;
     }, 100);
 
     // Footer buttons
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -198,23 +221,20 @@ export class ImageModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => {
+    `, () => {
       const urlInput = document.getElementById('image-url') as HTMLInputElement;
       const altInput = document.getElementById('image-alt') as HTMLInputElement;
       if (urlInput) {
         this.currentSrc = urlInput.value;
+        this.currentValue = this.buildValue(this.currentSrc, altInput?.value || '', img);
         if (img) {
-          img.src = this.currentSrc;
-          if (altInput) img.alt = altInput.value;
+          applyImageValue(img, this.currentValue);
         }
       }
       this.stopEditing(true);
-    };
+    });
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -222,56 +242,118 @@ export class ImageModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
   }
 
-  private createTab(label: string, active: boolean): HTMLElement {
-    const tab = document.createElement('button');
-    tab.textContent = label;
-    tab.style.cssText = `
-      padding: 10px 20px;
-      background: none;
-      border: none;
-      border-bottom: 2px solid ${active ? '#3b82f6' : 'transparent'};
-      color: ${active ? '#3b82f6' : '#6b7280'};
-      font-weight: 600;
-      cursor: pointer;
-      transition: all 0.2s;
+  /**
+   * Value for the chosen URL. Library assets bring their variants as a srcset; an unchanged
+   * URL keeps the srcset it had. A moved focal point is stored on the asset too, so the
+   * server crops its variants around it.
+   */
+  private buildValue(src: string, alt: string, img: HTMLImageElement | null): ResponsiveImageValue {
+    const previous = this.currentValue;
+    let value: ResponsiveImageValue;
+
+    if (this.selectedAsset && this.selectedAsset.url === src) {
+      value = responsiveValueFromAsset(this.selectedAsset, {
+        alt,
+        sizes: img?.dataset.sizes,
+        focalPoint: this.focalPoint
+      });
+    } else if (src === previous.src) {
+      value = { ...previous, alt, focalPoint: this.focalPoint };
+    } else {
+      value = { src, alt, focalPoint: this.focalPoint };
+    }
+
+    const assetId = assetIdFromUrl(src);
+    const focalChanged = JSON.stringify(this.focalPoint) !== JSON.stringify(
+      this.selectedAsset?.url === src ? this.selectedAsset.focalPoint : previous.focalPoint
+    );
+    if (assetId && focalChanged && this.config.media) {
+      this.config.media.updateAsset(assetId, { focalPoint: this.focalPoint || null }).catch(error => {
+        console.warn('Failed to store the focal point:', error);
+      });
+    }
+
+    return value;
+  }
+
+  private renderTabs(props: ComponentProps): HTMLElement {
+    const tabs = document.createElement('div');
+    tabs.setAttribute('role', 'tablist');
+    tabs.style.cssText = `
+      display: flex;
+      gap: 10px;
+      margin-bottom: 20px;
+      border-bottom: 2px solid #e5e7eb;
     `;
-    return tab;
+
+    (props.tabs || []).forEach(({ id, label }) => {
+      const active = id === props.activeTab;
+      const tab = document.createElement('button');
+      tab.textContent = label;
+      tab.setAttribute('role', 'tab');
+      tab.setAttribute('aria-selected', String(active));
+      tab.style.cssText = `
+        padding: 10px 20px;
+        background: none;
+        border: none;
+        border-bottom: 2px solid ${active ? '#3b82f6' : 'transparent'};
+        color: ${active ? '#3b82f6' : '#6b7280'};
+        font-weight: 600;
+        cursor: pointer;
+        transition: all 0.2s;
+      `;
+      tab.onclick = () => props.onSelect?.(id);
+      tabs.appendChild(tab);
+    });
+
+    return tabs;
   }
 
-  private getStockImages(): string[] {
-    return [
-      'https://via.placeholder.com/300x200/667eea/ffffff?text=Sample+1',
-      'https://via.placeholder.com/300x200/764ba2/ffffff?text=Sample+2',
-      'https://via.placeholder.com/300x200/f59e0b/ffffff?text=Sample+3',
-      'https://via.placeholder.com/300x200/10b981/ffffff?text=Sample+4',
-      'https://via.placeholder.com/300x200/ef4444/ffffff?text=Sample+5',
-      'https://via.placeholder.com/300x200/3b82f6/ffffff?text=Sample+6'
-    ];
+  private renderField(label: string, id: string, type: string, value: string, placeholder: string): HTMLElement {
+    const input = document.createElement('input');
+    input.type = type;
+    input.id = id;
+    input.value = value;
+    input.placeholder = placeholder;
+    input.style.cssText = 'width: 100%; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px;';
+
+    return renderComponent('formField', { label, control: input }, () => {
+      const field = document.createElement('div');
+      field.style.cssText = 'margin-bottom: 20px;';
+      const labelElement = document.createElement('label');
+      labelElement.textContent = label;
+      labelElement.htmlFor = id;
+      labelElement.style.cssText = 'display: block; margin-bottom: 8px; font-weight: 600; color: #374151;';
+      field.appendChild(labelElement);
+      field.appendChild(input);
+      return field;
+    });
   }
 
   protected async stopEditing(save: boolean = true): Promise<void> {
     if (save) {
-      this.value = this.currentSrc;
+      this.value = compactImageValue(this.currentValue);
     }
+    this.library?.destroy();
+    this.library = null;
     this.modal.close();
     await super.stopEditing(save);
   }
 
-  extractValue(): string {
+  extractValue(): string | ResponsiveImageValue {
     const img = this.element.tagName === 'IMG' ? this.element as HTMLImageElement : this.element.querySelector('img');
-    return img?.src || '';
+    return img ? readImageValue(img) : '';
   }
 
-  applyValue(value: string): void {
+  applyValue(value: string | ResponsiveImageValue): void {
     const img = this.element.tagName === 'IMG' ? this.element as HTMLImageElement : this.element.querySelector('img');
-    if (img) img.src = value;
+    if (img) applyImageValue(img, value);
   }
 
   destroy(): void {
@@ -1,6 +1,7 @@
 import { BaseEditor } from './base';
-import { EditorConfig } from '../types';
+import { EditorConfig, ResponsiveImageValue } from '../types';
 import { createElement } from '../utils/dom';
+import { applyImageValue, readImageValue, sanitizeImageUrl, normalizeImageValue } from '../utils/responsive-image';
 
 export class ImageEditor extends BaseEditor {
   private modal?: HTMLElement;
@@ -10,9 +11,9 @@ export class ImageEditor extends BaseEditor {
     this.setupClickHandler();
   }
 
-  extractValue(): string {
+  extractValue(): string | ResponsiveImageValue {
     if (this.element.tagName === 'IMG') {
-      return (this.element as HTMLImageElement).src;
+      return readImageValue(this.element as HTMLImageElement);
     }
     const bgImage = this.element.style.backgroundImage;
     if (!bgImage || bgImage === 'none') return '';
@@ -22,40 +23,16 @@ export class ImageEditor extends BaseEditor {
     return match ? match[2] : '';
   }
 
-  applyValue(value: string): void {
-    // Validate URL to prevent XSS via javascript: protocol
-    const sanitizedValue = this.sanitizeImageUrl(value);
-
-    if (this.element.tagName === 'IMG') {
-      (this.element as HTMLImageElement).src = sanitizedValue;
-    } else {
-      this.element.style.backgroundImage = `url('${sanitizedValue}')`;
-    }
+  applyValue(value: string | ResponsiveImageValue): void {
+    // URLs are validated to prevent XSS via javascript: protocol
+    applyImageValue(this.element, value, sanitizeImageUrl);
   }
 
-  private sanitizeImageUrl(url: string): string {
-    if (!url || typeof url !== 'string') {
-      return '';
-    }
-
-    // Remove whitespace
-    const trimmed = url.trim();
-
-    // Allow http://, https://, data:image/,  // (protocol-relative), and / (absolute/relative paths)
-    const allowedProtocols = /^(https?:\/\/|data:image\/|\/\/|\/)/i;
-
-    if (!allowedProtocols.test(trimmed)) {
-      console.warn('Invalid image URL protocol. Only http://, https://, data:image/, and relative URLs are allowed.');
-      return '';
-    }
-
-    // Prevent javascript: and other dangerous protocols
-    if (/^(javascript|vbscript|data:(?!image\/))/i.test(trimmed)) {
-      console.error('Blocked dangerous URL protocol');
-      return '';
-    }
-
-    return trimmed;
+  /**
+   * Keeps the srcset and focal point unless the URL changed, since they describe that image
+   */
+  private valueForUrl(url: string): string | ResponsiveImageValue {
+    return normalizeImageValue(this.getValue()).src === url ? this.getValue() : url;
   }
 
   private setupClickHandler(): void {
@@ -101,7 +78,7 @@ export class ImageEditor extends BaseEditor {
 
     const input = createElement('input', {
       type: 'url',
-      value: this.getValue(),
+      value: normalizeImageValue(this.getValue()).src,
       placeholder: 'Enter image URL',
       style: {
         width: '100%',
@@ -138,7 +115,7 @@ export class ImageEditor extends BaseEditor {
     });
 
     saveBtn.addEventListener('click', () => {
-      this.setValue(input.value);
+      this.setValue(this.valueForUrl(input.value));
       this.closeModal();
       this.stopEditing(true);
     });
@@ -152,7 +129,7 @@ export class ImageEditor extends BaseEditor {
     input.addEventListener('keydown', (e) => {
       if (e.key === 'Enter') {
         e.preventDefault();
-        this.setValue(input.value);
+        this.setValue(this.valueForUrl(input.value));
         this.closeModal();
         this.stopEditing(true);
       } else if (e.key === 'Escape') {
@@ -1,5 +1,7 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { ComponentProps } from '../customization/ComponentRegistry';
+import { t } from '../i18n/I18n';
 
 export class JSONModalEditor extends BaseEditor {
   private modal: ModalManager;
@@ -31,7 +33,7 @@ export class JSONModalEditor extends BaseEditor {
       this.errorMessage = '';
     } catch (e) {
       this.currentValue = {};
-      this.errorMessage = 'Invalid JSON in current content';
+      this.errorMessage = t('json.invalidContent');
     }
 
     // Create container
@@ -39,21 +41,10 @@ export class JSONModalEditor extends BaseEditor {
     container.style.cssText = 'min-width: 600px;';
 
     // View mode toggle
-    const viewToggle = document.createElement('div');
-    viewToggle.style.cssText = `
-      display: flex;
-      gap: 10px;
-      margin-bottom: 20px;
-      background: #f3f4f6;
-      padding: 4px;
-      border-radius: 8px;
-    `;
-
-    const treeBtn = this.createViewButton('🌳 Tree View', true);
-    const codeBtn = this.createViewButton('{ } Code View', false);
-    
-    viewToggle.appendChild(treeBtn);
-    viewToggle.appendChild(codeBtn);
+    const viewToggle = this.renderTabStrip([
+      { id: 'tree', label: `🌳 ${t('json.treeView')}` },
+      { id: 'code', label: `{ } ${t('json.codeView')}` }
+    ], 'tree', (view) => (view === 'tree' ? showTree() : showCode()), (props) => this.renderViewToggle(props));
 
     // Tree view container
     const treeView = document.createElement('div');
@@ -114,10 +105,7 @@ export class JSONModalEditor extends BaseEditor {
       border-top: 1px solid #e5e7eb;
     `;
 
-    const formatBtn = document.createElement('button');
-    formatBtn.textContent = '✨ Format';
-    formatBtn.style.cssText = this.getToolbarButtonStyle();
-    formatBtn.onclick = () => {
+    const formatBtn = this.renderButton('button', `✨ ${t('json.format')}`, this.getToolbarButtonStyle(), () => {
       try {
         const parsed = JSON.parse(codeEditor.value);
         codeEditor.value = JSON.stringify(parsed, null, 2);
@@ -128,12 +116,9 @@ export class JSONModalEditor extends BaseEditor {
         errorDisplay.textContent = '❌ ' + e.message;
         errorDisplay.style.display = 'block';
       }
-    };
+    });
 
-    const minifyBtn = document.createElement('button');
-    minifyBtn.textContent = '📦 Minify';
-    minifyBtn.style.cssText = this.getToolbarButtonStyle();
-    minifyBtn.onclick = () => {
+    const minifyBtn = this.renderButton('button', `📦 ${t('json.minify')}`, this.getToolbarButtonStyle(), () => {
       try {
         const parsed = JSON.parse(codeEditor.value);
         codeEditor.value = JSON.stringify(parsed);
@@ -143,16 +128,13 @@ export class JSONModalEditor extends BaseEditor {
         errorDisplay.textContent = '❌ ' + e.message;
         errorDisplay.style.display = 'block';
       }
-    };
+    });
 
-    const validateBtn = document.createElement('button');
-    validateBtn.textContent = '✓ Validate';
-    validateBtn.style.cssText = this.getToolbarButtonStyle();
-    validateBtn.onclick = () => {
+    const validateBtn = this.renderButton('button', `✓ ${t('json.validate')}`, this.getToolbarButtonStyle(), () => {
       try {
         const parsed = JSON.parse(codeEditor.value);
         this.currentValue = parsed;
-        errorDisplay.textContent = '✅ Valid JSON';
+        errorDisplay.textContent = `✅ ${t('json.valid')}`;
         errorDisplay.style.cssText = `
           margin-top: 10px;
           padding: 10px;
@@ -177,18 +159,14 @@ export class JSONModalEditor extends BaseEditor {
           display: block;
         `;
       }
-    };
+    });
 
     toolbar.appendChild(formatBtn);
     toolbar.appendChild(minifyBtn);
     toolbar.appendChild(validateBtn);
 
     // View switching
-    treeBtn.onclick = () => {
-      treeBtn.style.background = '#3b82f6';
-      treeBtn.style.color = 'white';
-      codeBtn.style.background = 'transparent';
-      codeBtn.style.color = '#6b7280';
+    const showTree = () => {
       treeView.style.display = 'block';
       codeView.style.display = 'none';
       
@@ -203,11 +181,7 @@ export class JSONModalEditor extends BaseEditor {
       }
     };
 
-    codeBtn.onclick = () => {
-      codeBtn.style.background = '#3b82f6';
-      codeBtn.style.color = 'white';
-      treeBtn.style.background = 'transparent';
-      treeBtn.style.color = '#6b7280';
+    const showCode = () => {
       codeView.style.display = 'block';
       treeView.style.display = 'none';
       
@@ -227,15 +201,13 @@ export class JSONModalEditor extends BaseEditor {
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '{ } JSON Editor',
+      title: `{ } ${t('json.title')}`,
       width: '700px',
       footer: true
     });
 
     // Footer buttons
-    const importBtn = document.createElement('button');
-    importBtn.textContent = '📥 Import';
-    importBtn.style.cssText = `
+    const importBtn = this.renderButton('button', `📥 ${t('json.import')}`, `
       padding: 10px 20px;
       background: #8b5cf6;
       color: white;
@@ -243,9 +215,8 @@ export class JSONModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-      margin-right: auto;
-    `;
-    importBtn.onclick = () => {
+      margin-inline-end: auto;
+    `, () => {
       const input = document.createElement('input');
       input.type = 'file';
       input.accept = '.json';
@@ -261,7 +232,7 @@ export class JSONModalEditor extends BaseEditor {
               this.renderTreeView(treeView);
               errorDisplay.style.display = 'none';
             } catch (err: any) {
-              errorDisplay.textContent = '❌ Invalid JSON file';
+              errorDisplay.textContent = `❌ ${t('json.invalidFile')}`;
               errorDisplay.style.display = 'block';
             }
           };
@@ -269,11 +240,9 @@ export class JSONModalEditor extends BaseEditor {
         }
       };
       input.click();
-    };
+    });
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -281,12 +250,9 @@ export class JSONModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -294,8 +260,7 @@ export class JSONModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => {
+    `, () => {
       // Validate before saving
       try {
         if (codeView.style.display !== 'none') {
@@ -303,16 +268,36 @@ export class JSONModalEditor extends BaseEditor {
         }
         this.stopEditing(true);
       } catch (e: any) {
-        errorDisplay.textContent = '❌ Fix JSON errors before saving';
+        errorDisplay.textContent = `❌ ${t('json.fixErrors')}`;
         errorDisplay.style.display = 'block';
       }
-    };
+    });
 
     footer.appendChild(importBtn);
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
   }
 
+  private renderViewToggle(props: ComponentProps): HTMLElement {
+    const viewToggle = document.createElement('div');
+    viewToggle.style.cssText = `
+      display: flex;
+      gap: 10px;
+      margin-bottom: 20px;
+      background: #f3f4f6;
+      padding: 4px;
+      border-radius: 8px;
+    `;
+
+    (props.tabs || []).forEach(({ id, label }) => {
+      const btn = this.createViewButton(label, id === props.activeTab);
+      btn.onclick = () => props.onSelect?.(id);
+      viewToggle.appendChild(btn);
+    });
+
+    return viewToggle;
+  }
+
   private createViewButton(label: string, active: boolean): HTMLElement {
     const btn = document.createElement('button');
     btn.textContent = label;
@@ -454,11 +439,11 @@ export class JSONModalEditor extends BaseEditor {
         this.element.textContent = truncated;
         
         // Add a tooltip or indicator
-        this.element.setAttribute('title', 'Click to edit full JSON data');
+        this.element.setAttribute('title', t('json.clickToEdit'));
         
         // Add visual indicator for large JSON
         const indicator = document.createElement('span');
-        indicator.textContent = '📄 Large JSON';
+        indicator.textContent = `📄 ${t('json.large')}`;
         indicator.style.cssText = `
           position: absolute;
           top: 4px;
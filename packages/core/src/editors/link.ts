@@ -1,6 +1,7 @@
 import { BaseEditor } from './base';
 import { EditorOptions } from '../types';
 import { createElement, setStyles } from '../utils/dom';
+import { renderComponent } from '../customization/ComponentRegistry';
 
 export class LinkEditor extends BaseEditor {
   private modal: HTMLElement | null = null;
@@ -36,42 +37,7 @@ export class LinkEditor extends BaseEditor {
     const text = this.element.textContent || '';
     const target = this.element.getAttribute('target') === '_blank';
 
-    this.modal = createElement('div', {
-      className: 'sight-edit-modal',
-      style: {
-        position: 'fixed',
-        top: '0',
-        left: '0',
-        right: '0',
-        bottom: '0',
-        backgroundColor: 'rgba(0, 0, 0, 0.5)',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        zIndex: '10000'
-      }
-    });
-
-    const modalContent = createElement('div', {
-      style: {
-        backgroundColor: 'white',
-        borderRadius: '8px',
-        padding: '24px',
-        maxWidth: '500px',
-        width: '90%',
-        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
-      }
-    });
-
-    const title = createElement('h3', {
-      style: {
-        margin: '0 0 16px 0',
-        fontSize: '18px',
-        fontWeight: '600'
-      }
-    }, ['Edit Link']);
-
-    const form = createElement('form', {
+    const form = createElement('div', {
       style: {
         display: 'flex',
         flexDirection: 'column',
@@ -108,34 +74,30 @@ export class LinkEditor extends BaseEditor {
       }
     });
 
-    const cancelButton = createElement('button', {
-      type: 'button',
-      style: {
-        padding: '8px 16px',
-        border: '1px solid #ddd',
-        borderRadius: '4px',
-        backgroundColor: 'white',
-        cursor: 'pointer'
+    const cancelButton = this.renderButton('cancelButton', 'Cancel', `
+      padding: 8px 16px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      background-color: white;
+      cursor: pointer;
+    `, () => this.closeModal());
+
+    const saveButton = this.renderButton('saveButton', 'Save', `
+      padding: 8px 16px;
+      border: none;
+      border-radius: 4px;
+      background-color: ${this.options.theme?.primaryColor || '#007bff'};
+      color: white;
+      cursor: pointer;
+    `, () => this.saveLink());
+
+    // Enter in a text field saves
+    form.addEventListener('keydown', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (e.key === 'Enter' && target.tagName === 'INPUT' && target.type !== 'checkbox') {
+        e.preventDefault();
+        this.saveLink();
       }
-    }, ['Cancel']);
-
-    const saveButton = createElement('button', {
-      type: 'submit',
-      style: {
-        padding: '8px 16px',
-        border: 'none',
-        borderRadius: '4px',
-        backgroundColor: this.options.theme?.primaryColor || '#007bff',
-        color: 'white',
-        cursor: 'pointer'
-      }
-    }, ['Save']);
-
-    cancelButton.addEventListener('click', () => this.closeModal());
-    
-    form.addEventListener('submit', async (e) => {
-      e.preventDefault();
-      await this.saveLink();
     });
 
     buttons.appendChild(cancelButton);
@@ -146,23 +108,66 @@ export class LinkEditor extends BaseEditor {
     form.appendChild(targetGroup);
     form.appendChild(buttons);
 
-    modalContent.appendChild(title);
-    modalContent.appendChild(form);
-    this.modal.appendChild(modalContent);
+    this.modal = renderComponent('modal', {
+      title: 'Edit Link',
+      content: form,
+      onClose: () => this.closeModal()
+    }, () => this.renderModal(form));
     document.body.appendChild(this.modal);
 
     this.urlInput?.focus();
+  }
 
-    this.modal.addEventListener('click', (e) => {
-      if (e.target === this.modal) {
+  private renderModal(form: HTMLElement): HTMLElement {
+    const overlay = createElement('div', {
+      className: 'sight-edit-modal',
+      style: {
+        position: 'fixed',
+        top: '0',
+        left: '0',
+        right: '0',
+        bottom: '0',
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: '10000'
+      }
+    });
+
+    const modalContent = createElement('div', {
+      style: {
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        padding: '24px',
+        maxWidth: '500px',
+        width: '90%',
+        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)'
+      }
+    });
+
+    const title = createElement('h3', {
+      style: {
+        margin: '0 0 16px 0',
+        fontSize: '18px',
+        fontWeight: '600'
+      }
+    }, ['Edit Link']);
+
+    modalContent.appendChild(title);
+    modalContent.appendChild(form);
+    overlay.appendChild(modalContent);
+
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) {
         this.closeModal();
       }
     });
+
+    return overlay;
   }
 
   private createFormGroup(label: string, name: string, value: string, placeholder: string): HTMLElement {
-    const group = createElement('div');
-    
     const labelEl = createElement('label', {
       style: {
         display: 'block',
@@ -192,10 +197,12 @@ export class LinkEditor extends BaseEditor {
       this.textInput = input;
     }
 
-    group.appendChild(labelEl);
-    group.appendChild(input);
-
-    return group;
+    return renderComponent('formField', { label, control: input }, () => {
+      const group = createElement('div');
+      group.appendChild(labelEl);
+      group.appendChild(input);
+      return group;
+    });
   }
 
   private async saveLink(): Promise<void> {
@@ -1,5 +1,7 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { renderComponent } from '../customization/ComponentRegistry';
+import { i18n, t } from '../i18n/I18n';
 
 export class NumberModalEditor extends BaseEditor {
   private modal: ModalManager;
@@ -52,7 +54,7 @@ export class NumberModalEditor extends BaseEditor {
       margin-bottom: 30px;
       font-family: 'SF Mono', Monaco, 'Cascadia Code', monospace;
     `;
-    valueDisplay.textContent = this.formatNumber(this.currentValue);
+    valueDisplay.textContent = this.displayNumber(this.currentValue);
 
     // Slider control
     const sliderContainer = document.createElement('div');
@@ -101,21 +103,14 @@ export class NumberModalEditor extends BaseEditor {
     const sliderLabels = document.createElement('div');
     sliderLabels.style.cssText = 'display: flex; justify-content: space-between; margin-top: 10px;';
     sliderLabels.innerHTML = `
-      <span style="color: #6b7280; font-size: 12px;">${this.formatNumber(this.min)}</span>
-      <span style="color: #6b7280; font-size: 12px;">${this.formatNumber(this.max)}</span>
+      <span style="color: #6b7280; font-size: 12px;">${this.displayNumber(this.min)}</span>
+      <span style="color: #6b7280; font-size: 12px;">${this.displayNumber(this.max)}</span>
     `;
 
     sliderContainer.appendChild(slider);
     sliderContainer.appendChild(sliderLabels);
 
     // Direct input
-    const inputContainer = document.createElement('div');
-    inputContainer.style.cssText = 'margin-bottom: 30px;';
-    
-    const inputLabel = document.createElement('label');
-    inputLabel.textContent = 'Enter value directly:';
-    inputLabel.style.cssText = 'display: block; margin-bottom: 8px; font-weight: 600; color: #374151;';
-    
     const directInput = document.createElement('input');
     directInput.type = 'number';
     directInput.min = this.min.toString();
@@ -132,8 +127,18 @@ export class NumberModalEditor extends BaseEditor {
       font-weight: 600;
     `;
 
-    inputContainer.appendChild(inputLabel);
-    inputContainer.appendChild(directInput);
+    const inputContainer = renderComponent('formField', { label: t('number.enterValue'), control: directInput }, () => {
+      const field = document.createElement('div');
+      field.style.cssText = 'margin-bottom: 30px;';
+
+      const inputLabel = document.createElement('label');
+      inputLabel.textContent = t('number.enterValue');
+      inputLabel.style.cssText = 'display: block; margin-bottom: 8px; font-weight: 600; color: #374151;';
+
+      field.appendChild(inputLabel);
+      field.appendChild(directInput);
+      return field;
+    });
 
     // Quick adjustment buttons
     const buttonGrid = document.createElement('div');
@@ -173,7 +178,7 @@ export class NumberModalEditor extends BaseEditor {
         newValue = Math.round(newValue / this.step) * this.step;
         this.currentValue = newValue;
         
-        valueDisplay.textContent = this.formatNumber(this.currentValue);
+        valueDisplay.textContent = this.displayNumber(this.currentValue);
         slider.value = this.currentValue.toString();
         directInput.value = this.currentValue.toString();
       };
@@ -184,7 +189,7 @@ export class NumberModalEditor extends BaseEditor {
     // Preset values
     const presetContainer = document.createElement('div');
     presetContainer.innerHTML = `
-      <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">Common values:</label>
+      <label style="display: block; margin-bottom: 8px; font-weight: 600; color: #374151;">${t('number.commonValues')}</label>
       <div style="display: flex; gap: 10px; flex-wrap: wrap;">
         ${this.getPresetValues().map(val => `
           <button onclick="setPresetValue(${val})" style="
@@ -196,7 +201,7 @@ export class NumberModalEditor extends BaseEditor {
             font-weight: 500;
             transition: all 0.2s;
           " onmouseover="this.style.background='#dbeafe'" onmouseout="this.style.background='#f3f4f6'">
-            ${this.formatNumber(val)}
+            ${this.displayNumber(val)}
           </button>
         `).join('')}
       </div>
@@ -205,7 +210,7 @@ export class NumberModalEditor extends BaseEditor {
     // Event handlers
     slider.oninput = () => {
       this.currentValue = parseFloat(slider.value);
-      valueDisplay.textContent = this.formatNumber(this.currentValue);
+      valueDisplay.textContent = this.displayNumber(this.currentValue);
       directInput.value = this.currentValue.toString();
     };
 
@@ -213,14 +218,14 @@ export class NumberModalEditor extends BaseEditor {
       let value = parseFloat(directInput.value) || 0;
       value = Math.max(this.min, Math.min(this.max, value));
       this.currentValue = value;
-      valueDisplay.textContent = this.formatNumber(this.currentValue);
+      valueDisplay.textContent = this.displayNumber(this.currentValue);
       slider.value = this.currentValue.toString();
     };
 
     // Global function for preset buttons
     (window as any).setPresetValue = (value: number) => {
       this.currentValue = value;
-      valueDisplay.textContent = this.formatNumber(this.currentValue);
+      valueDisplay.textContent = this.displayNumber(this.currentValue);
       slider.value = this.currentValue.toString();
       directInput.value = this.currentValue.toString();
     };
@@ -238,14 +243,14 @@ export class NumberModalEditor extends BaseEditor {
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: '🔢 Number Editor',
+      title: `🔢 ${t('number.title')}`,
       width: '500px',
       footer: true
     });
 
     // Footer buttons
     const resetBtn = document.createElement('button');
-    resetBtn.textContent = 'Reset';
+    resetBtn.textContent = t('number.reset');
     resetBtn.style.cssText = `
       padding: 10px 20px;
       background: #ef4444;
@@ -254,18 +259,16 @@ export class NumberModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-      margin-right: auto;
+      margin-inline-end: auto;
     `;
     resetBtn.onclick = () => {
       this.currentValue = 0;
-      valueDisplay.textContent = this.formatNumber(this.currentValue);
+      valueDisplay.textContent = this.displayNumber(this.currentValue);
       slider.value = this.currentValue.toString();
       directInput.value = this.currentValue.toString();
     };
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -273,12 +276,9 @@ export class NumberModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -286,8 +286,7 @@ export class NumberModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => this.stopEditing(true);
+    `, () => this.stopEditing(true));
 
     footer.appendChild(resetBtn);
     footer.appendChild(cancelBtn);
@@ -299,6 +298,18 @@ export class NumberModalEditor extends BaseEditor {
     return value.toFixed(this.decimals);
   }
 
+  /**
+   * Separators follow the UI language inside the modal; the page keeps the
+   * plain `formatNumber` output so `extractValue` can parse it back
+   */
+  private displayNumber(value: number): string {
+    if (!isFinite(value)) return value.toString();
+    return i18n.formatNumber(value, {
+      minimumFractionDigits: this.decimals,
+      maximumFractionDigits: this.decimals
+    });
+  }
+
   private getPresetValues(): number[] {
     // Return common values based on range
     if (this.min >= 0 && this.max <= 100) {
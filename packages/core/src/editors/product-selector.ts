@@ -379,21 +379,16 @@ export class ProductSelectorEditor extends BaseEditor {
       gap: 12px;
     `;
     
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', 'Cancel', `
       padding: 8px 20px;
       border: 1px solid #d1d5db;
       background: white;
       border-radius: 6px;
       font-size: 14px;
       cursor: pointer;
-    `;
-    cancelBtn.addEventListener('click', () => this.closeSelector());
+    `, () => this.closeSelector());
     
-    const applyBtn = document.createElement('button');
-    applyBtn.textContent = 'Apply Selection';
-    applyBtn.style.cssText = `
+    const applyBtn = this.renderButton('saveButton', 'Apply Selection', `
       padding: 8px 20px;
       background: #3b82f6;
       color: white;
@@ -402,8 +397,7 @@ export class ProductSelectorEditor extends BaseEditor {
       font-size: 14px;
       font-weight: 500;
       cursor: pointer;
-    `;
-    applyBtn.addEventListener('click', () => this.applySelection());
+    `, () => this.applySelection());
     
     actions.appendChild(cancelBtn);
     actions.appendChild(applyBtn);
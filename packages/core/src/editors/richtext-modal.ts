@@ -1,7 +1,13 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
-
-export class RichTextModalEditor extends BaseEditor {
+import { t } from '../i18n/I18n';
+import { CollaborativeTextEditor } from '../types';
+import { HTMLSanitizer } from '../utils/sanitizer';
+import { getTextSelection, setTextSelection } from '../utils/dom';
+import { TextOperation, applyOperation, diffToOperation, transformIndex } from '../collaboration/text-operation';
+import { createTranslationPane, isTranslating } from '../ui/translation-pane';
+
+export class RichTextModalEditor extends BaseEditor implements CollaborativeTextEditor {
   private modal: ModalManager;
   private editorContent: HTMLElement | null = null;
   private toolbar: HTMLElement | null = null;
@@ -42,26 +48,26 @@ export class RichTextModalEditor extends BaseEditor {
 
     // Toolbar buttons
     const tools = [
-      { cmd: 'bold', icon: 'B', title: 'Bold' },
-      { cmd: 'italic', icon: 'I', title: 'Italic' },
-      { cmd: 'underline', icon: 'U', title: 'Underline' },
+      { cmd: 'bold', icon: 'B', title: t('richtext.bold') },
+      { cmd: 'italic', icon: 'I', title: t('richtext.italic') },
+      { cmd: 'underline', icon: 'U', title: t('richtext.underline') },
       { divider: true },
-      { cmd: 'formatBlock', icon: 'H1', value: 'h1', title: 'Heading 1' },
-      { cmd: 'formatBlock', icon: 'H2', value: 'h2', title: 'Heading 2' },
-      { cmd: 'formatBlock', icon: 'H3', value: 'h3', title: 'Heading 3' },
-      { cmd: 'formatBlock', icon: 'P', value: 'p', title: 'Paragraph' },
+      { cmd: 'formatBlock', icon: 'H1', value: 'h1', title: t('richtext.heading', { level: 1 }) },
+      { cmd: 'formatBlock', icon: 'H2', value: 'h2', title: t('richtext.heading', { level: 2 }) },
+      { cmd: 'formatBlock', icon: 'H3', value: 'h3', title: t('richtext.heading', { level: 3 }) },
+      { cmd: 'formatBlock', icon: 'P', value: 'p', title: t('richtext.paragraph') },
       { divider: true },
-      { cmd: 'insertUnorderedList', icon: '•', title: 'Bullet List' },
-      { cmd: 'insertOrderedList', icon: '1.', title: 'Numbered List' },
+      { cmd: 'insertUnorderedList', icon: '•', title: t('richtext.bulletList') },
+      { cmd: 'insertOrderedList', icon: '1.', title: t('richtext.numberedList') },
       { divider: true },
-      { cmd: 'justifyLeft', icon: '⬅', title: 'Align Left' },
-      { cmd: 'justifyCenter', icon: '↔', title: 'Align Center' },
-      { cmd: 'justifyRight', icon: '➡', title: 'Align Right' },
+      { cmd: 'justifyLeft', icon: '⬅', title: t('richtext.alignLeft') },
+      { cmd: 'justifyCenter', icon: '↔', title: t('richtext.alignCenter') },
+      { cmd: 'justifyRight', icon: '➡', title: t('richtext.alignRight') },
       { divider: true },
-      { cmd: 'createLink', icon: '🔗', title: 'Insert Link' },
-      { cmd: 'insertImage', icon: '🖼', title: 'Insert Image' },
+      { cmd: 'createLink', icon: '🔗', title: t('richtext.insertLink') },
+      { cmd: 'insertImage', icon: '🖼', title: t('richtext.insertImage') },
       { divider: true },
-      { cmd: 'removeFormat', icon: '✖', title: 'Clear Formatting' }
+      { cmd: 'removeFormat', icon: '✖', title: t('richtext.clearFormatting') }
     ];
 
     tools.forEach(tool => {
@@ -99,12 +105,12 @@ export class RichTextModalEditor extends BaseEditor {
         
         btn.onclick = () => {
           if (tool.cmd === 'createLink') {
-            const url = prompt('Enter URL:');
+            const url = prompt(t('richtext.enterUrl'));
             if (url) {
               document.execCommand('createLink', false, url);
             }
           } else if (tool.cmd === 'insertImage') {
-            const url = prompt('Enter image URL:');
+            const url = prompt(t('richtext.enterImageUrl'));
             if (url) {
               document.execCommand('insertImage', false, url);
             }
@@ -134,21 +140,39 @@ export class RichTextModalEditor extends BaseEditor {
       font-size: 16px;
       line-height: 1.6;
     `;
+    this.editorContent.addEventListener('input', () => {
+      this.emit('input', this.editorContent?.innerHTML);
+    });
 
     container.appendChild(this.toolbar);
     container.appendChild(this.editorContent);
 
+    // Translations are edited side by side with the source locale
+    const translation = this.config.translation;
+    let content: HTMLElement = container;
+    if (isTranslating(translation)) {
+      content = document.createElement('div');
+      content.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; gap: 15px; align-items: start;';
+      content.appendChild(createTranslationPane(translation, {
+        html: true,
+        onCopy: value => {
+          if (!this.editorContent) return;
+          this.editorContent.innerHTML = value;
+          this.emit('input', this.editorContent.innerHTML);
+        }
+      }));
+      content.appendChild(container);
+    }
+
     // Open modal
-    const footer = this.modal.open(container, {
-      title: '✨ Rich Text Editor',
-      width: '800px',
+    const footer = this.modal.open(content, {
+      title: `✨ ${t('richtext.title')}`,
+      width: isTranslating(translation) ? '1200px' : '800px',
       footer: true
     });
 
     // Add footer buttons
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Save';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.save'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -156,12 +180,9 @@ export class RichTextModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => this.stopEditing(true);
+    `, () => this.stopEditing(true));
 
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -169,8 +190,7 @@ export class RichTextModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
@@ -186,6 +206,7 @@ export class RichTextModalEditor extends BaseEditor {
     }
     
     this.modal.close();
+    this.editorContent = null;
     await super.stopEditing(save);
   }
 
@@ -197,6 +218,32 @@ export class RichTextModalEditor extends BaseEditor {
     this.element.innerHTML = value;
   }
 
+  getCollaborativeText(): string {
+    return this.editorContent ? this.editorContent.innerHTML : this.element.innerHTML;
+  }
+
+  /**
+   * Operations are on the HTML source; the caret is moved over the change they made
+   * to the visible text
+   */
+  applyRemoteOperation(operation: TextOperation): void {
+    const target = this.editorContent || this.element;
+    const html = HTMLSanitizer.sanitize(applyOperation(this.getCollaborativeText(), operation));
+    const selection = this.editorContent ? getTextSelection(target) : null;
+    const previousText = target.textContent || '';
+
+    target.innerHTML = html;
+
+    if (selection) {
+      const textOperation = diffToOperation(previousText, target.textContent || '');
+      setTextSelection(
+        target,
+        transformIndex(selection.start, textOperation),
+        transformIndex(selection.end, textOperation)
+      );
+    }
+  }
+
   destroy(): void {
     this.modal.close();
     super.destroy();
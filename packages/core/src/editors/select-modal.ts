@@ -1,5 +1,6 @@
 import { BaseEditor } from './base';
 import { ModalManager } from '../ui/modal-manager';
+import { t } from '../i18n/I18n';
 
 export class SelectModalEditor extends BaseEditor {
   private modal: ModalManager;
@@ -56,7 +57,7 @@ export class SelectModalEditor extends BaseEditor {
     
     const searchInput = document.createElement('input');
     searchInput.type = 'text';
-    searchInput.placeholder = '🔍 Search options...';
+    searchInput.placeholder = `🔍 ${t('select.search')}`;
     searchInput.style.cssText = `
       width: 100%;
       padding: 12px;
@@ -109,7 +110,7 @@ export class SelectModalEditor extends BaseEditor {
 
       if (filteredOptions.length === 0) {
         const noResults = document.createElement('div');
-        noResults.textContent = 'No options found';
+        noResults.textContent = t('select.noResults');
         noResults.style.cssText = 'padding: 20px; text-align: center; color: #6b7280;';
         optionsList.appendChild(noResults);
         return;
@@ -216,23 +217,17 @@ export class SelectModalEditor extends BaseEditor {
       quickActions = document.createElement('div');
       quickActions.style.cssText = 'display: flex; gap: 10px; margin-bottom: 15px;';
       
-      const selectAllBtn = document.createElement('button');
-      selectAllBtn.textContent = 'Select All';
-      selectAllBtn.style.cssText = this.getQuickActionStyle();
-      selectAllBtn.onclick = () => {
+      const selectAllBtn = this.renderButton('button', t('select.selectAll'), this.getQuickActionStyle(), () => {
         this.selectOptions.forEach(opt => this.selectedValues.add(opt.value));
         this.updateSelectedDisplay(selectedDisplay);
         renderOptions(searchInput.value);
-      };
+      });
 
-      const clearBtn = document.createElement('button');
-      clearBtn.textContent = 'Clear All';
-      clearBtn.style.cssText = this.getQuickActionStyle();
-      clearBtn.onclick = () => {
+      const clearBtn = this.renderButton('button', t('common.clearAll'), this.getQuickActionStyle(), () => {
         this.selectedValues.clear();
         this.updateSelectedDisplay(selectedDisplay);
         renderOptions(searchInput.value);
-      };
+      });
 
       quickActions.appendChild(selectAllBtn);
       quickActions.appendChild(clearBtn);
@@ -251,15 +246,13 @@ export class SelectModalEditor extends BaseEditor {
 
     // Open modal
     const footer = this.modal.open(container, {
-      title: this.allowMultiple ? '☑️ Multi-Select' : '📋 Select Option',
+      title: this.allowMultiple ? `☑️ ${t('select.titleMultiple')}` : `📋 ${t('select.titleSingle')}`,
       width: '500px',
       footer: true
     });
 
     // Footer buttons
-    const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = 'Cancel';
-    cancelBtn.style.cssText = `
+    const cancelBtn = this.renderButton('cancelButton', t('common.cancel'), `
       padding: 10px 20px;
       background: #6b7280;
       color: white;
@@ -267,12 +260,9 @@ export class SelectModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    cancelBtn.onclick = () => this.stopEditing(false);
+    `, () => this.stopEditing(false));
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Apply';
-    saveBtn.style.cssText = `
+    const saveBtn = this.renderButton('saveButton', t('common.apply'), `
       padding: 10px 20px;
       background: #10b981;
       color: white;
@@ -280,8 +270,7 @@ export class SelectModalEditor extends BaseEditor {
       border-radius: 6px;
       font-weight: 600;
       cursor: pointer;
-    `;
-    saveBtn.onclick = () => this.stopEditing(true);
+    `, () => this.stopEditing(true));
 
     footer.appendChild(cancelBtn);
     footer.appendChild(saveBtn);
@@ -292,7 +281,7 @@ export class SelectModalEditor extends BaseEditor {
 
   private updateSelectedDisplay(display: HTMLElement): void {
     if (this.selectedValues.size === 0) {
-      display.innerHTML = '<span style="color: #9ca3af;">No items selected</span>';
+      display.innerHTML = `<span style="color: #9ca3af;">${t('select.noneSelected')}</span>`;
       return;
     }
 
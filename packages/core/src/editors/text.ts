@@ -1,10 +1,13 @@
 import { BaseEditor } from './base';
-import { EditorConfig } from '../types';
-import { debounce, removeClass } from '../utils/dom';
+import { EditorConfig, CollaborativeTextEditor } from '../types';
+import { debounce, removeClass, getTextSelection, setTextSelection } from '../utils/dom';
+import { TextOperation, applyOperation, transformIndex } from '../collaboration/text-operation';
+import { createTranslationPane, isTranslating } from '../ui/translation-pane';
 
-export class TextEditor extends BaseEditor {
+export class TextEditor extends BaseEditor implements CollaborativeTextEditor {
   private originalHTML = '';
   private saveDebounced: () => void;
+  private translationPane: HTMLElement | null = null;
 
   constructor(element: HTMLElement, config?: EditorConfig | string) {
     super(element, config);
@@ -28,6 +31,24 @@ export class TextEditor extends BaseEditor {
     this.element.textContent = value;
   }
 
+  getCollaborativeText(): string {
+    return this.element.textContent || '';
+  }
+
+  applyRemoteOperation(operation: TextOperation): void {
+    const selection = this.isEditing ? getTextSelection(this.element) : null;
+    this.element.textContent = applyOperation(this.getCollaborativeText(), operation);
+    this.value = this.extractValue();
+
+    if (selection) {
+      setTextSelection(
+        this.element,
+        transformIndex(selection.start, operation),
+        transformIndex(selection.end, operation)
+      );
+    }
+  }
+
   private makeEditable(): void {
     this.element.setAttribute('contenteditable', 'false');
     this.element.setAttribute('spellcheck', 'true');
@@ -77,6 +98,7 @@ export class TextEditor extends BaseEditor {
     super.startEditing();
     this.originalHTML = this.element.innerHTML;
     this.element.setAttribute('contenteditable', 'true');
+    this.showTranslationPane();
     
     requestAnimationFrame(() => {
       this.element.focus();
@@ -90,6 +112,7 @@ export class TextEditor extends BaseEditor {
 
   protected async stopEditing(save = true): Promise<void> {
     this.element.setAttribute('contenteditable', 'false');
+    this.hideTranslationPane();
     
     if (!save) {
       this.element.innerHTML = this.originalHTML;
@@ -104,6 +127,40 @@ export class TextEditor extends BaseEditor {
     }
   }
 
+  /**
+   * The source-locale text, floating below the element while a translation is edited
+   */
+  private showTranslationPane(): void {
+    const translation = this.config.translation;
+    if (!isTranslating(translation)) return;
+
+    const pane = createTranslationPane(translation, {
+      onCopy: value => {
+        this.element.textContent = value;
+        this.value = this.extractValue();
+        this.emit('input', this.value);
+      }
+    });
+
+    const rect = this.element.getBoundingClientRect();
+    pane.style.position = 'absolute';
+    pane.style.top = `${rect.bottom + window.scrollY + 8}px`;
+    pane.style.left = `${rect.left + window.scrollX}px`;
+    pane.style.width = `${Math.max(rect.width, 280)}px`;
+    pane.style.zIndex = '999998';
+    pane.style.boxShadow = '0 4px 16px rgba(0,0,0,0.12)';
+    // Keep focus in the element, so using the pane doesn't end the edit
+    pane.addEventListener('mousedown', event => event.preventDefault());
+
+    document.body.appendChild(pane);
+    this.translationPane = pane;
+  }
+
+  private hideTranslationPane(): void {
+    this.translationPane?.remove();
+    this.translationPane = null;
+  }
+
   private selectAll(): void {
     const range = document.createRange();
     range.selectNodeContents(this.element);
@@ -122,6 +179,7 @@ export class TextEditor extends BaseEditor {
   }
 
   destroy(): void {
+    this.hideTranslationPane();
     super.destroy();
     this.element.removeAttribute('contenteditable');
     this.element.removeAttribute('spellcheck');
@@ -5,7 +5,7 @@
  * Allows developers to inject custom logic at various points in the editing flow.
  */
 
-import type { SaveData, SaveResponse, ElementType } from '../types';
+import type { SaveData, SaveResponse, ElementType, ElementSchema, Editor } from '../types';
 
 // Hook event types
 export type HookEvent =
@@ -62,15 +62,26 @@ export type HookEvent =
   | 'plugin:unloaded'
   | 'plugin:error';
 
+/**
+ * Set by a `before` hook to stop the operation it runs for. Later hooks for the
+ * event are skipped and the caller gets a HookCancelledError where it expects a result.
+ */
+export interface CancellableHookContext {
+  cancel?: boolean;
+  reason?: string;
+}
+
 // Hook context types
-export interface EditorHookContext {
+export interface EditorHookContext extends CancellableHookContext {
   element: HTMLElement;
   sight: string;
   type: ElementType;
   value?: any;
+  schema?: ElementSchema | any;
+  editor?: Editor; // Set once the editor exists
 }
 
-export interface ValueHookContext {
+export interface ValueHookContext extends CancellableHookContext {
   sight: string;
   oldValue: any;
   newValue: any;
@@ -78,25 +89,25 @@ export interface ValueHookContext {
   element: HTMLElement;
 }
 
-export interface SaveHookContext {
+export interface SaveHookContext extends CancellableHookContext {
   data: SaveData;
   response?: SaveResponse;
   error?: Error;
 }
 
-export interface BatchHookContext {
+export interface BatchHookContext extends CancellableHookContext {
   operations: SaveData[];
   currentIndex?: number;
   currentOperation?: SaveData;
   results?: Array<{ success: boolean; data?: any; error?: string }>;
 }
 
-export interface NetworkHookContext {
+export interface NetworkHookContext extends CancellableHookContext {
   url: string;
   method: string;
   headers?: Record<string, string>;
-  body?: any;
-  response?: any;
+  body?: any; // As sent, e.g. a JSON string or FormData
+  response?: any; // Parsed response body
   error?: Error;
   duration?: number;
 }
@@ -107,7 +118,7 @@ export interface UIHookContext {
   element?: HTMLElement;
 }
 
-export interface ModeHookContext {
+export interface ModeHookContext extends CancellableHookContext {
   oldMode: string;
   newMode: string;
 }
@@ -251,6 +262,8 @@ export class HookManager {
         console.error(`Error executing hook for event ${event}:`, error);
         // Continue executing other hooks
       }
+
+      if (isHookCancelled(currentContext)) break;
     }
 
     return currentContext;
@@ -319,6 +332,8 @@ export class HookManager {
       } catch (error) {
         console.error(`Error executing hook for event ${event}:`, error);
       }
+
+      if (isHookCancelled(currentContext)) break;
     }
 
     return currentContext;
@@ -405,3 +420,10 @@ export function executeHookSync<T = any>(event: HookEvent, context: T): T {
 export function hasHooks(event: HookEvent): boolean {
   return hookManager.hasHooks(event);
 }
+
+/**
+ * Whether a hook vetoed the operation its context describes
+ */
+export function isHookCancelled(context: unknown): boolean {
+  return !!context && typeof context === 'object' && (context as CancellableHookContext).cancel === true;
+}
@@ -0,0 +1,219 @@
+import { EventEmitter } from '../utils/event-emitter';
+import { formatMessage, MessageParams } from './message-format';
+import en from './catalogs/en';
+
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Supplies catalogs for UI languages that aren't bundled, or extends bundled ones
+ */
+export type CatalogLoader = (locale: string) => Promise<MessageCatalog | null | undefined>;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface I18nOptions {
+  locale?: string;
+  translations?: MessageCatalog; // Win over every catalog, e.g. to rename a button
+  loadCatalog?: CatalogLoader;
+}
+
+/**
+ * Bundled catalogs are split out of the main bundle and only fetched when their
+ * language is selected
+ */
+const BUNDLED_CATALOGS: Record<string, () => Promise<{ default: MessageCatalog }>> = {
+  ar: () => import('./catalogs/ar'),
+  de: () => import('./catalogs/de'),
+  es: () => import('./catalogs/es'),
+  fr: () => import('./catalogs/fr')
+};
+
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+// Used when Intl can't tell where the week starts
+const FIRST_DAY_BY_LANGUAGE: Record<string, number> = { en: 0, he: 0, ja: 0, ko: 0, zh: 0, ar: 6, fa: 6 };
+const SUNDAY_FIRST_REGIONS = ['US', 'CA', 'MX', 'BR', 'JP', 'IL', 'PH', 'IN', 'ZA', 'AU'];
+
+/**
+ * Message catalogs for the editor UI. Lookups fall back from the locale to its
+ * language and then to English, so partial catalogs are fine.
+ */
+export class I18n extends EventEmitter {
+  private static instance: I18n | null = null;
+  private locale = 'en';
+  private catalogs: Map<string, MessageCatalog> = new Map([['en', en]]);
+  private loading: Map<string, Promise<void>> = new Map();
+  private overrides: MessageCatalog = {};
+  private loader: CatalogLoader | null = null;
+  private requested = 0;
+
+  static getInstance(): I18n {
+    if (!I18n.instance) {
+      I18n.instance = new I18n();
+    }
+    return I18n.instance;
+  }
+
+  /**
+   * Apply the `locale`, `translations` and `loadCatalog` options and load the catalog
+   */
+  async configure(options: I18nOptions): Promise<void> {
+    if (options.translations) {
+      this.overrides = { ...options.translations };
+    }
+    if (options.loadCatalog && options.loadCatalog !== this.loader) {
+      this.loader = options.loadCatalog;
+      this.loading.clear();
+    }
+    await this.setLocale(options.locale || this.locale);
+  }
+
+  /**
+   * Switch the UI language, loading its catalog first. Unknown languages keep
+   * working with English text but still get their number and date formats.
+   */
+  async setLocale(locale: string): Promise<void> {
+    const request = ++this.requested;
+    await Promise.all(this.candidates(locale).map(candidate => this.load(candidate)));
+
+    // A later call won while the catalog was loading
+    if (request !== this.requested) {
+      return;
+    }
+
+    const previous = this.locale;
+    this.locale = locale;
+    if (previous !== locale) {
+      this.emit('localeChange', { locale, direction: this.getDirection(), previous });
+    }
+  }
+
+  getLocale(): string {
+    return this.locale;
+  }
+
+  getDirection(locale: string = this.locale): TextDirection {
+    return RTL_LANGUAGES.includes(locale.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr';
+  }
+
+  /**
+   * Merge messages into a locale's catalog
+   */
+  addMessages(locale: string, messages: MessageCatalog): void {
+    this.catalogs.set(locale, { ...this.catalogs.get(locale), ...messages });
+  }
+
+  has(key: string): boolean {
+    return this.lookup(key) !== undefined;
+  }
+
+  /**
+   * The message for `key` in the current locale, formatted with `params`.
+   * Returns the key itself when no catalog has it.
+   */
+  t(key: string, params?: MessageParams): string {
+    const message = this.lookup(key);
+    if (message === undefined) {
+      return key;
+    }
+    return formatMessage(message, params, this.locale);
+  }
+
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    try {
+      return new Intl.NumberFormat(this.locale, options).format(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+  formatDate(value: Date | string | number, options?: Intl.DateTimeFormatOptions): string {
+    const date = value instanceof Date ? value : new Date(value);
+    try {
+      return new Intl.DateTimeFormat(this.locale, options).format(date);
+    } catch {
+      return date.toLocaleString();
+    }
+  }
+
+  /**
+   * 0 for Sunday through 6 for Saturday
+   */
+  getFirstDayOfWeek(): number {
+    try {
+      const locale: any = new (Intl as any).Locale(this.locale);
+      const info = typeof locale.getWeekInfo === 'function' ? locale.getWeekInfo() : locale.weekInfo;
+      if (info && typeof info.firstDay === 'number') {
+        return info.firstDay % 7;
+      }
+    } catch {
+      // Intl.Locale is missing or doesn't know the locale
+    }
+
+    const [language, region] = this.locale.split('-');
+    if (region && /^[A-Za-z]{2}$/.test(region)) {
+      return SUNDAY_FIRST_REGIONS.includes(region.toUpperCase()) ? 0 : FIRST_DAY_BY_LANGUAGE[language] === 6 ? 6 : 1;
+    }
+    return FIRST_DAY_BY_LANGUAGE[language.toLowerCase()] ?? 1;
+  }
+
+  private lookup(key: string): string | undefined {
+    if (key in this.overrides) {
+      return this.overrides[key];
+    }
+    for (const candidate of [...this.candidates(this.locale), 'en']) {
+      const message = this.catalogs.get(candidate)?.[key];
+      if (message !== undefined) {
+        return message;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The locale and its language, e.g. `pt-BR` and `pt`
+   */
+  private candidates(locale: string): string[] {
+    const language = locale.split('-')[0];
+    return language === locale ? [locale] : [locale, language];
+  }
+
+  private load(locale: string): Promise<void> {
+    if (locale === 'en' && !this.loader) {
+      return Promise.resolve();
+    }
+
+    let pending = this.loading.get(locale);
+    if (!pending) {
+      pending = this.fetchCatalog(locale);
+      this.loading.set(locale, pending);
+    }
+    return pending;
+  }
+
+  private async fetchCatalog(locale: string): Promise<void> {
+    try {
+      const bundled = BUNDLED_CATALOGS[locale];
+      if (bundled) {
+        this.addMessages(locale, (await bundled()).default);
+      }
+      const custom = this.loader ? await this.loader(locale) : null;
+      if (custom) {
+        this.addMessages(locale, custom);
+      }
+    } catch (error) {
+      // Allow another attempt on the next switch; English is shown meanwhile
+      this.loading.delete(locale);
+      console.warn(`[SightEdit] Failed to load the ${locale} UI catalog:`, error);
+    }
+  }
+}
+
+export const i18n = I18n.getInstance();
+
+/**
+ * Shorthand for `i18n.t()`
+ */
+export function t(key: string, params?: MessageParams): string {
+  return i18n.t(key, params);
+}
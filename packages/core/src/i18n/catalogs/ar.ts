@@ -0,0 +1,245 @@
+import type { MessageCatalog } from '../I18n';
+
+/**
+ * Arabic uses all six plural categories: zero, one, two, few, many and other
+ */
+const ar: MessageCatalog = {
+  'common.apply': 'تطبيق',
+  'common.cancel': 'إلغاء',
+  'common.confirm': 'تأكيد',
+  'common.save': 'حفظ',
+  'common.clearAll': 'مسح الكل',
+  'common.preview': 'معاينة',
+  'common.or': 'أو',
+
+  'modal.title': 'تحرير',
+  'modal.close': 'إغلاق',
+
+  'toolbar.editMode': 'وضع التحرير',
+  'toolbar.changes': '{count, plural, =0 {لا توجد تغييرات} one {تغيير واحد} two {تغييران} few {# تغييرات} many {# تغييرًا} other {# تغيير}}',
+  'toolbar.contentLanguage': 'لغة المحتوى',
+  'toolbar.untranslated': '{count, plural, one {حقل واحد غير مترجم} two {حقلان غير مترجمين} few {# حقول غير مترجمة} many {# حقلًا غير مترجم} other {# حقل غير مترجم}}',
+  'toolbar.untranslatedHint': '{count, plural, one {حقل واحد في هذه الصفحة يعرض محتوى بديلًا} two {حقلان في هذه الصفحة يعرضان محتوى بديلًا} few {# حقول في هذه الصفحة تعرض محتوى بديلًا} many {# حقلًا في هذه الصفحة تعرض محتوى بديلًا} other {# حقل في هذه الصفحة تعرض محتوى بديلًا}}',
+  'toolbar.discardAll': 'تجاهل الكل',
+  'toolbar.saveDraft': 'حفظ المسودة',
+  'toolbar.saveAll': 'حفظ الكل',
+  'toolbar.publish': 'نشر',
+  'toolbar.history': 'السجل',
+  'toolbar.schedule': 'جدولة',
+  'toolbar.comments': 'التعليقات',
+  'toolbar.workflow': '{stage}: {count, plural, zero {لا توجد تغييرات} one {تغيير واحد} two {تغييران} few {# تغييرات} many {# تغييرًا} other {# تغيير}}',
+  'toolbar.workflowHint': 'مرحلة المراجعة للتغييرات المعلقة في هذه الصفحة',
+  'toolbar.exit': 'خروج',
+  'toolbar.confirmExit': '{count, plural, one {لديك تغيير واحد غير محفوظ. هل تريد تجاهله؟} two {لديك تغييران غير محفوظين. هل تريد تجاهلهما؟} few {لديك # تغييرات غير محفوظة. هل تريد تجاهلها؟} many {لديك # تغييرًا غير محفوظ. هل تريد تجاهلها؟} other {لديك # تغيير غير محفوظ. هل تريد تجاهلها؟}}',
+  'toolbar.confirmLocaleSwitch': '{count, plural, one {لديك تغيير واحد غير محفوظ في {from}. هل تريد تجاهله والتبديل إلى {to}؟} two {لديك تغييران غير محفوظين في {from}. هل تريد تجاهلهما والتبديل إلى {to}؟} few {لديك # تغييرات غير محفوظة في {from}. هل تريد تجاهلها والتبديل إلى {to}؟} many {لديك # تغييرًا غير محفوظ في {from}. هل تريد تجاهلها والتبديل إلى {to}؟} other {لديك # تغيير غير محفوظ في {from}. هل تريد تجاهلها والتبديل إلى {to}؟}}',
+  'toolbar.confirmDiscardAll': '{count, plural, one {هل تريد بالتأكيد تجاهل تغيير واحد؟} two {هل تريد بالتأكيد تجاهل تغييرين؟} few {هل تريد بالتأكيد تجاهل # تغييرات؟} many {هل تريد بالتأكيد تجاهل # تغييرًا؟} other {هل تريد بالتأكيد تجاهل # تغيير؟}}',
+
+  'schedule.title': 'الجدولة',
+  'schedule.content': 'المحتوى',
+  'schedule.allDrafts': 'كل المسودات في هذه الصفحة',
+  'schedule.publishAt': 'النشر في',
+  'schedule.expireAt': 'الإزالة في',
+  'schedule.optional': 'اتركه فارغًا للتخطي',
+  'schedule.submit': 'جدولة',
+  'schedule.timeRequired': 'اختر وقت نشر المحتوى أو إزالته أو كليهما.',
+  'schedule.failed': 'تعذرت جدولة المحتوى: {error}',
+  'schedule.unsaved': 'تعذر حفظ بعض التغييرات.',
+  'schedule.created': '{count, plural, one {تمت الجدولة} other {تمت جدولة # تغييرات}}',
+  'schedule.upcoming': 'القادم',
+  'schedule.loading': 'جارٍ التحميل…',
+  'schedule.loadFailed': 'تعذر تحميل الجدولة.',
+  'schedule.empty': 'لا شيء مجدول لهذه الصفحة.',
+  'schedule.action': '{action, select, publish {يُنشر} other {يُزال}} {time}',
+  'schedule.cancel': 'إلغاء',
+  'schedule.cancelConfirm': 'هل تريد إلغاء هذا التغيير المجدول؟',
+
+  'comments.title': 'التعليقات',
+  'comments.allOnPage': 'جميع التعليقات في هذه الصفحة',
+  'comments.target': 'العنصر',
+  'comments.selectElement': 'اختر عنصرًا لبدء نقاش.',
+  'comments.quote': 'على «{quote}»',
+  'comments.placeholder': 'أضف تعليقًا. اكتب @ للإشارة إلى شخص ما.',
+  'comments.replyPlaceholder': 'رد…',
+  'comments.submit': 'تعليق',
+  'comments.reply': 'رد',
+  'comments.resolve': 'حل',
+  'comments.reopen': 'إعادة فتح',
+  'comments.delete': 'حذف',
+  'comments.deleteConfirm': 'هل تريد حذف هذا النقاش وجميع الردود عليه؟',
+  'comments.resolved': 'تم الحل',
+  'comments.showResolved': 'إظهار المحلولة',
+  'comments.loading': 'جارٍ التحميل…',
+  'comments.loadFailed': 'تعذر تحميل التعليقات.',
+  'comments.empty': 'لا توجد تعليقات بعد.',
+  'comments.failed': 'تعذر نشر التعليق: {error}',
+  'comments.anonymous': 'شخص ما',
+  'comments.marker': '{count, plural, zero {لا توجد تعليقات مفتوحة} one {تعليق مفتوح واحد} two {تعليقان مفتوحان} few {# تعليقات مفتوحة} many {# تعليقًا مفتوحًا} other {# تعليق مفتوح}}',
+  'workflow.title': 'المراجعة',
+  'workflow.loading': 'جارٍ التحميل…',
+  'workflow.loadFailed': 'تعذر تحميل حالة المراجعة.',
+  'workflow.empty': 'لا توجد تغييرات معلقة في هذه الصفحة.',
+  'workflow.commentPlaceholder': 'تعليق للمراجعين (مطلوب عند الرفض)',
+  'workflow.commentRequired': 'أضف تعليقًا يوضح ما يجب تغييره.',
+  'workflow.submit': 'إرسال للمراجعة',
+  'workflow.approve': 'موافقة',
+  'workflow.reject': 'رفض',
+  'workflow.done.submit': '{count, plural, zero {لم يُرسل أي تغيير للمراجعة} one {أُرسل تغيير واحد للمراجعة} two {أُرسل تغييران للمراجعة} few {أُرسلت # تغييرات للمراجعة} many {أُرسل # تغييرًا للمراجعة} other {أُرسل # تغيير للمراجعة}}',
+  'workflow.done.approve': '{count, plural, zero {لم تتم الموافقة على أي تغيير} one {تمت الموافقة على تغيير واحد} two {تمت الموافقة على تغييرين} few {تمت الموافقة على # تغييرات} many {تمت الموافقة على # تغييرًا} other {تمت الموافقة على # تغيير}}',
+  'workflow.done.reject': '{count, plural, zero {لم يُرفض أي تغيير} one {رُفض تغيير واحد} two {رُفض تغييران} few {رُفضت # تغييرات} many {رُفض # تغييرًا} other {رُفض # تغيير}}',
+  'workflow.failed': 'تعذر تحديث المراجعة: {error}',
+  'workflow.unsaved': 'تعذر حفظ بعض التغييرات.',
+  'workflow.someone': 'شخص ما',
+  'workflow.history.submit': 'أرسله {user}، {time}',
+  'workflow.history.approve': 'وافق عليه {user}، {time}',
+  'workflow.history.reject': 'رفضه {user}، {time}',
+  'workflow.history.publish': 'نشره {user}، {time}',
+  'workflow.stage.draft': 'مسودة',
+  'workflow.stage.approved': 'تمت الموافقة',
+  'workflow.stage.rejected': 'مرفوض',
+  'workflow.awaitingReview': '{count, plural, zero {لا توجد تغييرات بانتظار مراجعتك} one {تغيير واحد بانتظار مراجعتك} two {تغييران بانتظار مراجعتك} few {# تغييرات بانتظار مراجعتك} many {# تغييرًا بانتظار مراجعتك} other {# تغيير بانتظار مراجعتك}}',
+  'workflow.rejectedNotice': '{count, plural, zero {لم يُرفض أي تغيير} one {رُفض تغيير واحد} two {رُفض تغييران} few {رُفضت # تغييرات} many {رُفض # تغييرًا} other {رُفض # تغيير}}',
+
+  'translation.source': 'النص الأصلي بلغة {locale}',
+  'translation.from': 'الترجمة من {source} ← {target}',
+  'translation.copy': 'نسخ الأصل',
+  'translation.loading': 'جارٍ التحميل…',
+  'translation.empty': 'لم يُكتب شيء بلغة {locale} بعد.',
+  'translation.failed': 'تعذر تحميل النص بلغة {locale}.',
+
+  'color.title': 'منتقي الألوان',
+  'color.presets': 'ألوان جاهزة',
+
+  'date.title': 'التاريخ والوقت',
+  'date.date': 'التاريخ',
+  'date.time': 'الوقت',
+  'date.today': 'اليوم',
+  'date.hours': 'الساعات',
+  'date.minutes': 'الدقائق',
+  'date.previousMonth': 'الشهر السابق',
+  'date.nextMonth': 'الشهر التالي',
+
+  'number.title': 'تحرير الرقم',
+  'number.enterValue': 'أدخل القيمة مباشرة:',
+  'number.commonValues': 'قيم شائعة:',
+  'number.reset': 'إعادة تعيين',
+
+  'image.title': 'تحرير الصورة',
+  'image.tabUrl': 'رابط',
+  'image.tabUpload': 'رفع',
+  'image.tabLibrary': 'المكتبة',
+  'image.url': 'رابط الصورة',
+  'image.alt': 'النص البديل',
+  'image.altPlaceholder': 'صف الصورة',
+  'image.dropHere': 'اسحب صورتك وأفلتها هنا',
+  'image.chooseFile': 'اختيار ملف',
+  'image.formats': 'الصيغ المدعومة: JPG وPNG وGIF وWebP (بحد أقصى 5 ميغابايت)',
+  'image.focalPointHint': 'انقر على المعاينة لتحديد نقطة التركيز التي تبقى ظاهرة عند قص الصورة.',
+
+  'richtext.title': 'محرر النصوص',
+  'richtext.bold': 'عريض',
+  'richtext.italic': 'مائل',
+  'richtext.underline': 'تسطير',
+  'richtext.heading': 'عنوان {level}',
+  'richtext.paragraph': 'فقرة',
+  'richtext.bulletList': 'قائمة نقطية',
+  'richtext.numberedList': 'قائمة مرقمة',
+  'richtext.alignLeft': 'محاذاة لليسار',
+  'richtext.alignCenter': 'توسيط',
+  'richtext.alignRight': 'محاذاة لليمين',
+  'richtext.insertLink': 'إدراج رابط',
+  'richtext.insertImage': 'إدراج صورة',
+  'richtext.clearFormatting': 'مسح التنسيق',
+  'richtext.enterUrl': 'أدخل الرابط:',
+  'richtext.enterImageUrl': 'أدخل رابط الصورة:',
+
+  'file.title': 'رفع الملفات',
+  'file.dropHere': 'اسحب الملفات وأفلتها هنا',
+  'file.chooseFiles': 'اختيار ملفات',
+  'file.maxSize': 'الحد الأقصى {size}',
+  'file.allTypes': 'جميع أنواع الملفات',
+  'file.typeFiles': 'ملفات {type}',
+  'file.uploading': 'جارٍ الرفع...',
+  'file.uploadingFile': 'جارٍ رفع {name} ({current}/{total})...',
+  'file.uploaded': '{count, plural, one {تم رفع ملف واحد بنجاح} two {تم رفع ملفين بنجاح} few {تم رفع # ملفات بنجاح} many {تم رفع # ملفًا بنجاح} other {تم رفع # ملف بنجاح}}',
+  'file.uploadFailed': 'فشل الرفع: {message}',
+  'file.unknownError': 'خطأ غير معروف',
+  'file.uploadApply': 'رفع وتطبيق',
+  'file.selected': 'الملفات المحددة:',
+  'file.unknownType': 'نوع غير معروف',
+  'file.chooseFromLibrary': 'الاختيار من المكتبة',
+  'file.tooLarge': 'الملف {name} يتجاوز الحجم الأقصى {size}',
+  'file.notAccepted': 'نوع الملف {name} غير مقبول',
+  'file.placeholder': 'انقر لرفع الملفات',
+  'file.uploadedFile': 'ملف مرفوع',
+  'file.file': 'ملف',
+  'file.remove': 'إزالة {name}',
+
+  'json.title': 'محرر JSON',
+  'json.treeView': 'عرض شجري',
+  'json.codeView': 'عرض الشيفرة',
+  'json.format': 'تنسيق',
+  'json.minify': 'ضغط',
+  'json.validate': 'تحقق',
+  'json.valid': 'JSON صالح',
+  'json.import': 'استيراد',
+  'json.invalidContent': 'المحتوى الحالي ليس JSON صالحًا',
+  'json.invalidFile': 'ملف JSON غير صالح',
+  'json.fixErrors': 'أصلح أخطاء JSON قبل الحفظ',
+  'json.clickToEdit': 'انقر لتحرير بيانات JSON كاملة',
+  'json.large': 'JSON كبير',
+
+  'select.titleSingle': 'اختيار خيار',
+  'select.titleMultiple': 'اختيار متعدد',
+  'select.search': 'البحث في الخيارات...',
+  'select.noResults': 'لم يتم العثور على خيارات',
+  'select.selectAll': 'تحديد الكل',
+  'select.noneSelected': 'لم يتم تحديد أي عنصر',
+
+  'collection.title': 'تحرير القائمة',
+  'collection.help': 'أضف عناصر هذه القائمة وحررها واحذفها وأعد ترتيبها.',
+  'collection.newItem': 'عنصر جديد...',
+  'collection.addItem': 'إضافة عنصر',
+  'collection.sort': 'ترتيب أبجدي',
+  'collection.reverse': 'عكس الترتيب',
+  'collection.confirmClear': 'هل تريد بالتأكيد إزالة جميع العناصر؟',
+  'collection.empty': 'لا توجد عناصر في القائمة',
+  'collection.emptyHint': 'أضف عناصر باستخدام الحقل أعلاه',
+  'collection.stats': '{count, plural, zero {لا عناصر} one {عنصر واحد} two {عنصران} few {# عناصر} many {# عنصرًا} other {# عنصر}} • {chars, plural, zero {لا أحرف} one {حرف واحد} two {حرفان} few {# أحرف} many {# حرفًا} other {# حرف}}',
+  'collection.moveUp': 'نقل لأعلى',
+  'collection.moveDown': 'نقل لأسفل',
+  'collection.remove': 'إزالة',
+
+  'error.required': '{field} مطلوب',
+  'error.format': 'يجب أن يكون {field} بتنسيق {format}',
+  'error.lengthBetween': 'يجب أن يتراوح طول {field} بين {min} و{max} حرفًا',
+  'error.lengthMin': 'يجب ألا يقل طول {field} عن {min} حرفًا',
+  'error.lengthMax': 'يجب ألا يزيد طول {field} عن {max} حرفًا',
+  'error.lengthInvalid': 'طول {field} غير صالح',
+  'error.rangeBetween': 'يجب أن تكون قيمة {field} بين {min} و{max}',
+  'error.rangeMin': 'يجب ألا تقل قيمة {field} عن {min}',
+  'error.rangeMax': 'يجب ألا تزيد قيمة {field} عن {max}',
+  'error.rangeInvalid': 'قيمة {field} خارج النطاق',
+  'error.type': 'يجب أن يكون {field} من النوع {type}',
+  'error.timeout': 'انتهت مهلة الطلب بعد {timeout} مللي ثانية',
+  'error.connection': 'تعذر الاتصال بالخادم. يرجى التحقق من اتصالك بالإنترنت.',
+  'error.server': 'خطأ في الخادم. يرجى المحاولة لاحقًا.',
+  'error.serverStatus': 'خطأ في الخادم ({status}). يرجى المحاولة لاحقًا.',
+  'error.rateLimited': 'طلبات كثيرة جدًا. يرجى الانتظار قبل المحاولة مرة أخرى.',
+  'error.permissionDenied': 'ليس لديك إذن لتنفيذ الإجراء: {action}',
+  'error.thisAction': 'هذا الإجراء',
+  'error.insufficientPrivileges': 'ليست لديك صلاحيات كافية لتنفيذ هذا الإجراء',
+  'error.authenticationRequired': 'يلزم تسجيل الدخول للوصول إلى هذا المورد',
+  'error.invalidToken': 'رمز الأمان غير صالح أو منتهي الصلاحية',
+  'error.csrf': 'فشل التحقق الأمني. يرجى تحديث الصفحة والمحاولة مرة أخرى.',
+  'error.suspiciousActivity': 'تم رصد نشاط مريب. تم تقييد الوصول.',
+  'error.securityIssue': 'تم رصد مشكلة أمنية. يرجى التواصل مع الدعم إذا استمرت.',
+  'error.fileTooLarge': 'الملف كبير جدًا. الحد الأقصى المسموح به {maxSize}',
+  'error.fileType': 'نوع ملف غير صالح. الأنواع المسموح بها: {types}',
+  'error.uploadFailed': 'فشل رفع الملف. يرجى المحاولة مرة أخرى.',
+  'error.unexpected': 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى أو التواصل مع الدعم.',
+  'error.operationFailed': 'فشلت العملية: {operation}. يرجى المحاولة مرة أخرى.',
+  'error.notFound': '{resource} غير موجود',
+  'error.alreadyExists': '{resource} موجود بالفعل'
+};
+
+export default ar;
@@ -0,0 +1,242 @@
+import type { MessageCatalog } from '../I18n';
+
+const de: MessageCatalog = {
+  'common.apply': 'Übernehmen',
+  'common.cancel': 'Abbrechen',
+  'common.confirm': 'Bestätigen',
+  'common.save': 'Speichern',
+  'common.clearAll': 'Alle entfernen',
+  'common.preview': 'Vorschau',
+  'common.or': 'oder',
+
+  'modal.title': 'Bearbeiten',
+  'modal.close': 'Schließen',
+
+  'toolbar.editMode': 'Bearbeitungsmodus',
+  'toolbar.changes': '{count, plural, =0 {Keine Änderungen} one {# Änderung} other {# Änderungen}}',
+  'toolbar.contentLanguage': 'Inhaltssprache',
+  'toolbar.untranslated': '{count, plural, other {# unübersetzt}}',
+  'toolbar.untranslatedHint': '{count, plural, one {# Feld auf dieser Seite zeigt Ersatzinhalt} other {# Felder auf dieser Seite zeigen Ersatzinhalt}}',
+  'toolbar.discardAll': 'Alle verwerfen',
+  'toolbar.saveDraft': 'Entwurf speichern',
+  'toolbar.saveAll': 'Alle speichern',
+  'toolbar.publish': 'Veröffentlichen',
+  'toolbar.history': 'Verlauf',
+  'toolbar.schedule': 'Planen',
+  'toolbar.comments': 'Kommentare',
+  'toolbar.workflow': '{stage}: {count, plural, one {# Änderung} other {# Änderungen}}',
+  'toolbar.workflowHint': 'Prüfstatus der ausstehenden Änderungen auf dieser Seite',
+  'toolbar.exit': 'Beenden',
+  'toolbar.confirmExit': '{count, plural, one {Sie haben # ungespeicherte Änderung. Möchten Sie sie verwerfen?} other {Sie haben # ungespeicherte Änderungen. Möchten Sie sie verwerfen?}}',
+  'toolbar.confirmLocaleSwitch': '{count, plural, one {Sie haben # ungespeicherte Änderung in {from}. Verwerfen und zu {to} wechseln?} other {Sie haben # ungespeicherte Änderungen in {from}. Verwerfen und zu {to} wechseln?}}',
+  'toolbar.confirmDiscardAll': '{count, plural, one {Möchten Sie # Änderung wirklich verwerfen?} other {Möchten Sie # Änderungen wirklich verwerfen?}}',
+
+  'schedule.title': 'Zeitplan',
+  'schedule.content': 'Inhalt',
+  'schedule.allDrafts': 'Alle Entwürfe auf dieser Seite',
+  'schedule.publishAt': 'Online ab',
+  'schedule.expireAt': 'Offline ab',
+  'schedule.optional': 'Leer lassen zum Überspringen',
+  'schedule.submit': 'Planen',
+  'schedule.timeRequired': 'Wähle, wann der Inhalt online oder offline geht, oder beides.',
+  'schedule.failed': 'Der Inhalt konnte nicht geplant werden: {error}',
+  'schedule.unsaved': 'Einige Änderungen konnten nicht gespeichert werden.',
+  'schedule.created': '{count, plural, one {Geplant} other {# Änderungen geplant}}',
+  'schedule.upcoming': 'Anstehend',
+  'schedule.loading': 'Wird geladen…',
+  'schedule.loadFailed': 'Der Zeitplan konnte nicht geladen werden.',
+  'schedule.empty': 'Für diese Seite ist nichts geplant.',
+  'schedule.action': '{action, select, publish {Online ab} other {Offline ab}} {time}',
+  'schedule.cancel': 'Stornieren',
+  'schedule.cancelConfirm': 'Diese geplante Änderung stornieren?',
+
+  'comments.title': 'Kommentare',
+  'comments.allOnPage': 'Alle Kommentare auf dieser Seite',
+  'comments.target': 'Element',
+  'comments.selectElement': 'Wähle ein Element, um eine Diskussion zu beginnen.',
+  'comments.quote': 'Zu „{quote}“',
+  'comments.placeholder': 'Kommentar hinzufügen. Mit @ erwähnst du jemanden.',
+  'comments.replyPlaceholder': 'Antworten…',
+  'comments.submit': 'Kommentieren',
+  'comments.reply': 'Antworten',
+  'comments.resolve': 'Erledigt',
+  'comments.reopen': 'Wieder öffnen',
+  'comments.delete': 'Löschen',
+  'comments.deleteConfirm': 'Diese Diskussion mit allen Antworten löschen?',
+  'comments.resolved': 'Erledigt',
+  'comments.showResolved': 'Erledigte anzeigen',
+  'comments.loading': 'Wird geladen…',
+  'comments.loadFailed': 'Die Kommentare konnten nicht geladen werden.',
+  'comments.empty': 'Noch keine Kommentare.',
+  'comments.failed': 'Der Kommentar konnte nicht gesendet werden: {error}',
+  'comments.anonymous': 'Jemand',
+  'comments.marker': '{count, plural, one {# offener Kommentar} other {# offene Kommentare}}',
+  'workflow.title': 'Freigabe',
+  'workflow.loading': 'Wird geladen…',
+  'workflow.loadFailed': 'Der Prüfstatus konnte nicht geladen werden.',
+  'workflow.empty': 'Keine ausstehenden Änderungen auf dieser Seite.',
+  'workflow.commentPlaceholder': 'Kommentar für die Prüfung (zum Ablehnen erforderlich)',
+  'workflow.commentRequired': 'Beschreiben Sie in einem Kommentar, was geändert werden muss.',
+  'workflow.submit': 'Zur Prüfung einreichen',
+  'workflow.approve': 'Freigeben',
+  'workflow.reject': 'Ablehnen',
+  'workflow.done.submit': '{count, plural, one {# Änderung zur Prüfung eingereicht} other {# Änderungen zur Prüfung eingereicht}}',
+  'workflow.done.approve': '{count, plural, one {# Änderung freigegeben} other {# Änderungen freigegeben}}',
+  'workflow.done.reject': '{count, plural, one {# Änderung abgelehnt} other {# Änderungen abgelehnt}}',
+  'workflow.failed': 'Die Prüfung konnte nicht aktualisiert werden: {error}',
+  'workflow.unsaved': 'Einige Änderungen konnten nicht gespeichert werden.',
+  'workflow.someone': 'Jemand',
+  'workflow.history.submit': 'Eingereicht von {user}, {time}',
+  'workflow.history.approve': 'Freigegeben von {user}, {time}',
+  'workflow.history.reject': 'Abgelehnt von {user}, {time}',
+  'workflow.history.publish': 'Veröffentlicht von {user}, {time}',
+  'workflow.stage.draft': 'Entwurf',
+  'workflow.stage.approved': 'Freigegeben',
+  'workflow.stage.rejected': 'Abgelehnt',
+  'workflow.awaitingReview': '{count, plural, one {# Änderung wartet auf Ihre Prüfung} other {# Änderungen warten auf Ihre Prüfung}}',
+  'workflow.rejectedNotice': '{count, plural, one {# Änderung wurde abgelehnt} other {# Änderungen wurden abgelehnt}}',
+
+  'translation.source': 'Originaltext in {locale}',
+  'translation.from': 'Übersetzen aus {source} → {target}',
+  'translation.copy': 'Original übernehmen',
+  'translation.loading': 'Wird geladen…',
+  'translation.empty': 'Noch kein Text in {locale}.',
+  'translation.failed': 'Der Text in {locale} konnte nicht geladen werden.',
+
+  'color.title': 'Farbauswahl',
+  'color.presets': 'Vorlagen',
+
+  'date.title': 'Datum & Uhrzeit',
+  'date.date': 'Datum',
+  'date.time': 'Uhrzeit',
+  'date.today': 'Heute',
+  'date.hours': 'Stunden',
+  'date.minutes': 'Minuten',
+  'date.previousMonth': 'Vorheriger Monat',
+  'date.nextMonth': 'Nächster Monat',
+
+  'number.title': 'Zahl bearbeiten',
+  'number.enterValue': 'Wert direkt eingeben:',
+  'number.commonValues': 'Häufige Werte:',
+  'number.reset': 'Zurücksetzen',
+
+  'image.title': 'Bild bearbeiten',
+  'image.tabUrl': 'URL',
+  'image.tabUpload': 'Hochladen',
+  'image.tabLibrary': 'Mediathek',
+  'image.url': 'Bild-URL',
+  'image.alt': 'Alternativtext',
+  'image.altPlaceholder': 'Beschreiben Sie das Bild',
+  'image.dropHere': 'Bild hierher ziehen',
+  'image.chooseFile': 'Datei auswählen',
+  'image.formats': 'Unterstützte Formate: JPG, PNG, GIF, WebP (max. 5 MB)',
+  'image.focalPointHint': 'Klicken Sie in die Vorschau, um den Fokuspunkt festzulegen, der beim Zuschneiden sichtbar bleibt.',
+
+  'richtext.title': 'Texteditor',
+  'richtext.bold': 'Fett',
+  'richtext.italic': 'Kursiv',
+  'richtext.underline': 'Unterstrichen',
+  'richtext.heading': 'Überschrift {level}',
+  'richtext.paragraph': 'Absatz',
+  'richtext.bulletList': 'Aufzählung',
+  'richtext.numberedList': 'Nummerierte Liste',
+  'richtext.alignLeft': 'Linksbündig',
+  'richtext.alignCenter': 'Zentriert',
+  'richtext.alignRight': 'Rechtsbündig',
+  'richtext.insertLink': 'Link einfügen',
+  'richtext.insertImage': 'Bild einfügen',
+  'richtext.clearFormatting': 'Formatierung entfernen',
+  'richtext.enterUrl': 'URL eingeben:',
+  'richtext.enterImageUrl': 'Bild-URL eingeben:',
+
+  'file.title': 'Datei hochladen',
+  'file.dropHere': 'Dateien hierher ziehen',
+  'file.chooseFiles': 'Dateien auswählen',
+  'file.maxSize': 'Max. {size}',
+  'file.allTypes': 'Alle Dateitypen',
+  'file.typeFiles': '{type}-Dateien',
+  'file.uploading': 'Wird hochgeladen...',
+  'file.uploadingFile': '{name} wird hochgeladen ({current}/{total})...',
+  'file.uploaded': '{count, plural, one {# Datei erfolgreich hochgeladen} other {# Dateien erfolgreich hochgeladen}}',
+  'file.uploadFailed': 'Hochladen fehlgeschlagen: {message}',
+  'file.unknownError': 'unbekannter Fehler',
+  'file.uploadApply': 'Hochladen & übernehmen',
+  'file.selected': 'Ausgewählte Dateien:',
+  'file.unknownType': 'Unbekannter Typ',
+  'file.chooseFromLibrary': 'Aus der Mediathek wählen',
+  'file.tooLarge': 'Die Datei {name} überschreitet die maximale Größe von {size}',
+  'file.notAccepted': 'Der Dateityp von {name} ist nicht erlaubt',
+  'file.placeholder': 'Klicken, um Dateien hochzuladen',
+  'file.uploadedFile': 'Hochgeladene Datei',
+  'file.file': 'Datei',
+  'file.remove': '{name} entfernen',
+
+  'json.title': 'JSON-Editor',
+  'json.treeView': 'Baumansicht',
+  'json.codeView': 'Codeansicht',
+  'json.format': 'Formatieren',
+  'json.minify': 'Komprimieren',
+  'json.validate': 'Prüfen',
+  'json.valid': 'Gültiges JSON',
+  'json.import': 'Importieren',
+  'json.invalidContent': 'Der aktuelle Inhalt ist kein gültiges JSON',
+  'json.invalidFile': 'Ungültige JSON-Datei',
+  'json.fixErrors': 'Beheben Sie die JSON-Fehler vor dem Speichern',
+  'json.clickToEdit': 'Klicken, um die vollständigen JSON-Daten zu bearbeiten',
+  'json.large': 'Großes JSON',
+
+  'select.titleSingle': 'Option wählen',
+  'select.titleMultiple': 'Mehrfachauswahl',
+  'select.search': 'Optionen durchsuchen...',
+  'select.noResults': 'Keine Optionen gefunden',
+  'select.selectAll': 'Alle auswählen',
+  'select.noneSelected': 'Nichts ausgewählt',
+
+  'collection.title': 'Liste bearbeiten',
+  'collection.help': 'Einträge dieser Liste hinzufügen, bearbeiten, entfernen und neu anordnen.',
+  'collection.newItem': 'Neuer Eintrag...',
+  'collection.addItem': 'Eintrag hinzufügen',
+  'collection.sort': 'A–Z sortieren',
+  'collection.reverse': 'Umkehren',
+  'collection.confirmClear': 'Möchten Sie wirklich alle Einträge entfernen?',
+  'collection.empty': 'Die Liste ist leer',
+  'collection.emptyHint': 'Fügen Sie über das Feld oben Einträge hinzu',
+  'collection.stats': '{count, plural, one {# Eintrag} other {# Einträge}} • {chars, plural, one {# Zeichen} other {# Zeichen insgesamt}}',
+  'collection.moveUp': 'Nach oben',
+  'collection.moveDown': 'Nach unten',
+  'collection.remove': 'Entfernen',
+
+  'error.required': '{field} ist erforderlich',
+  'error.format': '{field} muss im Format {format} sein',
+  'error.lengthBetween': '{field} muss zwischen {min} und {max} Zeichen lang sein',
+  'error.lengthMin': '{field} muss mindestens {min} Zeichen lang sein',
+  'error.lengthMax': '{field} darf höchstens {max} Zeichen lang sein',
+  'error.lengthInvalid': 'Die Länge von {field} ist ungültig',
+  'error.rangeBetween': '{field} muss zwischen {min} und {max} liegen',
+  'error.rangeMin': '{field} muss mindestens {min} sein',
+  'error.rangeMax': '{field} darf höchstens {max} sein',
+  'error.rangeInvalid': '{field} liegt außerhalb des erlaubten Bereichs',
+  'error.type': '{field} muss vom Typ {type} sein',
+  'error.timeout': 'Zeitüberschreitung der Anfrage nach {timeout} ms',
+  'error.connection': 'Keine Verbindung zum Server. Bitte prüfen Sie Ihre Internetverbindung.',
+  'error.server': 'Serverfehler. Bitte versuchen Sie es später erneut.',
+  'error.serverStatus': 'Serverfehler ({status}). Bitte versuchen Sie es später erneut.',
+  'error.rateLimited': 'Zu viele Anfragen. Bitte warten Sie einen Moment.',
+  'error.permissionDenied': 'Keine Berechtigung für die Aktion: {action}',
+  'error.thisAction': 'diese Aktion',
+  'error.insufficientPrivileges': 'Sie haben nicht die nötigen Rechte für diese Aktion',
+  'error.authenticationRequired': 'Für diese Ressource ist eine Anmeldung erforderlich',
+  'error.invalidToken': 'Das Sicherheitstoken ist ungültig oder abgelaufen',
+  'error.csrf': 'Sicherheitsprüfung fehlgeschlagen. Bitte laden Sie die Seite neu und versuchen Sie es erneut.',
+  'error.suspiciousActivity': 'Verdächtige Aktivität erkannt. Der Zugriff wurde eingeschränkt.',
+  'error.securityIssue': 'Ein Sicherheitsproblem wurde erkannt. Wenden Sie sich an den Support, falls es weiterhin auftritt.',
+  'error.fileTooLarge': 'Die Datei ist zu groß. Erlaubt sind höchstens {maxSize}',
+  'error.fileType': 'Ungültiger Dateityp. Erlaubte Typen: {types}',
+  'error.uploadFailed': 'Hochladen fehlgeschlagen. Bitte versuchen Sie es erneut.',
+  'error.unexpected': 'Ein unerwarteter Fehler ist aufgetreten. Bitte versuchen Sie es erneut oder wenden Sie sich an den Support.',
+  'error.operationFailed': 'Fehler bei: {operation}. Bitte versuchen Sie es erneut.',
+  'error.notFound': '{resource} nicht gefunden',
+  'error.alreadyExists': '{resource} existiert bereits'
+};
+
+export default de;
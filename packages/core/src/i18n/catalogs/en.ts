@@ -0,0 +1,245 @@
+import type { MessageCatalog } from '../I18n';
+
+/**
+ * English is always bundled: it is the fallback for keys a catalog lacks
+ */
+const en: MessageCatalog = {
+  'common.apply': 'Apply',
+  'common.cancel': 'Cancel',
+  'common.confirm': 'Confirm',
+  'common.save': 'Save',
+  'common.clearAll': 'Clear All',
+  'common.preview': 'Preview',
+  'common.or': 'or',
+
+  'modal.title': 'Edit',
+  'modal.close': 'Close',
+
+  'toolbar.editMode': 'Edit Mode',
+  'toolbar.changes': '{count, plural, =0 {No changes} one {# change} other {# changes}}',
+  'toolbar.contentLanguage': 'Content language',
+  'toolbar.untranslated': '{count, plural, other {# untranslated}}',
+  'toolbar.untranslatedHint': '{count, plural, one {# field on this page shows fallback content} other {# fields on this page show fallback content}}',
+  'toolbar.discardAll': 'Discard All',
+  'toolbar.saveDraft': 'Save Draft',
+  'toolbar.saveAll': 'Save All',
+  'toolbar.publish': 'Publish',
+  'toolbar.history': 'History',
+  'toolbar.schedule': 'Schedule',
+  'toolbar.comments': 'Comments',
+  'toolbar.workflow': '{stage}: {count, plural, one {# change} other {# changes}}',
+  'toolbar.workflowHint': 'Review stage of the pending changes on this page',
+  'toolbar.exit': 'Exit',
+  'toolbar.confirmExit': '{count, plural, one {You have # unsaved change. Do you want to discard it?} other {You have # unsaved changes. Do you want to discard them?}}',
+  'toolbar.confirmLocaleSwitch': '{count, plural, one {You have # unsaved change in {from}. Discard it and switch to {to}?} other {You have # unsaved changes in {from}. Discard them and switch to {to}?}}',
+  'toolbar.confirmDiscardAll': '{count, plural, one {Are you sure you want to discard # change?} other {Are you sure you want to discard # changes?}}',
+
+  'schedule.title': 'Schedule',
+  'schedule.content': 'Content',
+  'schedule.allDrafts': 'All drafts on this page',
+  'schedule.publishAt': 'Go live at',
+  'schedule.expireAt': 'Take offline at',
+  'schedule.optional': 'Leave empty to skip',
+  'schedule.submit': 'Schedule',
+  'schedule.timeRequired': 'Choose when the content goes live, goes offline or both.',
+  'schedule.failed': 'Could not schedule the content: {error}',
+  'schedule.unsaved': 'Some changes could not be saved.',
+  'schedule.created': '{count, plural, one {Scheduled} other {# changes scheduled}}',
+  'schedule.upcoming': 'Upcoming',
+  'schedule.loading': 'Loading…',
+  'schedule.loadFailed': 'Could not load the schedule.',
+  'schedule.empty': 'Nothing is scheduled for this page.',
+  'schedule.action': '{action, select, publish {Goes live} other {Goes offline}} {time}',
+  'schedule.cancel': 'Cancel',
+  'schedule.cancelConfirm': 'Cancel this scheduled change?',
+
+  'comments.title': 'Comments',
+  'comments.allOnPage': 'All comments on this page',
+  'comments.target': 'Element',
+  'comments.selectElement': 'Choose an element to start a thread.',
+  'comments.quote': 'On “{quote}”',
+  'comments.placeholder': 'Add a comment. Type @ to mention someone.',
+  'comments.replyPlaceholder': 'Reply…',
+  'comments.submit': 'Comment',
+  'comments.reply': 'Reply',
+  'comments.resolve': 'Resolve',
+  'comments.reopen': 'Reopen',
+  'comments.delete': 'Delete',
+  'comments.deleteConfirm': 'Delete this thread and all its replies?',
+  'comments.resolved': 'Resolved',
+  'comments.showResolved': 'Show resolved',
+  'comments.loading': 'Loading…',
+  'comments.loadFailed': 'Could not load comments.',
+  'comments.empty': 'No comments yet.',
+  'comments.failed': 'Could not post the comment: {error}',
+  'comments.anonymous': 'Someone',
+  'comments.marker': '{count, plural, one {# open comment} other {# open comments}}',
+  'workflow.title': 'Review',
+  'workflow.loading': 'Loading…',
+  'workflow.loadFailed': 'Could not load the review status.',
+  'workflow.empty': 'No pending changes on this page.',
+  'workflow.commentPlaceholder': 'Comment for reviewers (required to reject)',
+  'workflow.commentRequired': 'Add a comment explaining what needs to change.',
+  'workflow.submit': 'Submit for review',
+  'workflow.approve': 'Approve',
+  'workflow.reject': 'Reject',
+  'workflow.done.submit': '{count, plural, one {# change submitted for review} other {# changes submitted for review}}',
+  'workflow.done.approve': '{count, plural, one {# change approved} other {# changes approved}}',
+  'workflow.done.reject': '{count, plural, one {# change rejected} other {# changes rejected}}',
+  'workflow.failed': 'Could not update the review: {error}',
+  'workflow.unsaved': 'Some changes could not be saved.',
+  'workflow.someone': 'Someone',
+  'workflow.history.submit': 'Submitted by {user}, {time}',
+  'workflow.history.approve': 'Approved by {user}, {time}',
+  'workflow.history.reject': 'Rejected by {user}, {time}',
+  'workflow.history.publish': 'Published by {user}, {time}',
+  'workflow.stage.draft': 'Draft',
+  'workflow.stage.approved': 'Approved',
+  'workflow.stage.rejected': 'Rejected',
+  'workflow.awaitingReview': '{count, plural, one {# change awaits your review} other {# changes await your review}}',
+  'workflow.rejectedNotice': '{count, plural, one {# change was rejected} other {# changes were rejected}}',
+
+  'translation.source': 'Original text in {locale}',
+  'translation.from': 'Translate from {source} → {target}',
+  'translation.copy': 'Copy original',
+  'translation.loading': 'Loading…',
+  'translation.empty': 'Nothing written in {locale} yet.',
+  'translation.failed': 'Could not load the {locale} text.',
+
+  'color.title': 'Color Picker',
+  'color.presets': 'Presets',
+
+  'date.title': 'Date & Time Picker',
+  'date.date': 'Date',
+  'date.time': 'Time',
+  'date.today': 'Today',
+  'date.hours': 'Hours',
+  'date.minutes': 'Minutes',
+  'date.previousMonth': 'Previous month',
+  'date.nextMonth': 'Next month',
+
+  'number.title': 'Number Editor',
+  'number.enterValue': 'Enter value directly:',
+  'number.commonValues': 'Common values:',
+  'number.reset': 'Reset',
+
+  'image.title': 'Image Editor',
+  'image.tabUrl': 'URL',
+  'image.tabUpload': 'Upload',
+  'image.tabLibrary': 'Library',
+  'image.url': 'Image URL',
+  'image.alt': 'Alt Text',
+  'image.altPlaceholder': 'Describe the image',
+  'image.dropHere': 'Drag & drop your image here',
+  'image.chooseFile': 'Choose File',
+  'image.formats': 'Supported formats: JPG, PNG, GIF, WebP (Max 5MB)',
+  'image.focalPointHint': 'Click the preview to set the focal point kept in view when the image is cropped.',
+
+  'richtext.title': 'Rich Text Editor',
+  'richtext.bold': 'Bold',
+  'richtext.italic': 'Italic',
+  'richtext.underline': 'Underline',
+  'richtext.heading': 'Heading {level}',
+  'richtext.paragraph': 'Paragraph',
+  'richtext.bulletList': 'Bullet List',
+  'richtext.numberedList': 'Numbered List',
+  'richtext.alignLeft': 'Align Left',
+  'richtext.alignCenter': 'Align Center',
+  'richtext.alignRight': 'Align Right',
+  'richtext.insertLink': 'Insert Link',
+  'richtext.insertImage': 'Insert Image',
+  'richtext.clearFormatting': 'Clear Formatting',
+  'richtext.enterUrl': 'Enter URL:',
+  'richtext.enterImageUrl': 'Enter image URL:',
+
+  'file.title': 'File Upload',
+  'file.dropHere': 'Drag & drop files here',
+  'file.chooseFiles': 'Choose Files',
+  'file.maxSize': 'Max {size}',
+  'file.allTypes': 'All file types',
+  'file.typeFiles': '{type} files',
+  'file.uploading': 'Uploading...',
+  'file.uploadingFile': 'Uploading {name} ({current}/{total})...',
+  'file.uploaded': '{count, plural, one {Successfully uploaded # file} other {Successfully uploaded # files}}',
+  'file.uploadFailed': 'Upload failed: {message}',
+  'file.unknownError': 'unknown error',
+  'file.uploadApply': 'Upload & Apply',
+  'file.selected': 'Selected Files:',
+  'file.unknownType': 'Unknown type',
+  'file.chooseFromLibrary': 'Choose from library',
+  'file.tooLarge': 'File {name} exceeds maximum size of {size}',
+  'file.notAccepted': 'File {name} is not an accepted type',
+  'file.placeholder': 'Click to upload files',
+  'file.uploadedFile': 'Uploaded file',
+  'file.file': 'File',
+  'file.remove': 'Remove {name}',
+
+  'json.title': 'JSON Editor',
+  'json.treeView': 'Tree View',
+  'json.codeView': 'Code View',
+  'json.format': 'Format',
+  'json.minify': 'Minify',
+  'json.validate': 'Validate',
+  'json.valid': 'Valid JSON',
+  'json.import': 'Import',
+  'json.invalidContent': 'Invalid JSON in current content',
+  'json.invalidFile': 'Invalid JSON file',
+  'json.fixErrors': 'Fix JSON errors before saving',
+  'json.clickToEdit': 'Click to edit full JSON data',
+  'json.large': 'Large JSON',
+
+  'select.titleSingle': 'Select Option',
+  'select.titleMultiple': 'Multi-Select',
+  'select.search': 'Search options...',
+  'select.noResults': 'No options found',
+  'select.selectAll': 'Select All',
+  'select.noneSelected': 'No items selected',
+
+  'collection.title': 'Collection Editor',
+  'collection.help': 'Add, edit, remove, and reorder items in this collection.',
+  'collection.newItem': 'Enter new item...',
+  'collection.addItem': 'Add Item',
+  'collection.sort': 'Sort A-Z',
+  'collection.reverse': 'Reverse',
+  'collection.confirmClear': 'Are you sure you want to remove all items?',
+  'collection.empty': 'No items in collection',
+  'collection.emptyHint': 'Add items using the input above',
+  'collection.stats': '{count, plural, one {# item} other {# items}} • {chars, plural, one {# character} other {# total characters}}',
+  'collection.moveUp': 'Move up',
+  'collection.moveDown': 'Move down',
+  'collection.remove': 'Remove',
+
+  'error.required': '{field} is required',
+  'error.format': '{field} must be in {format} format',
+  'error.lengthBetween': '{field} must be between {min} and {max} characters',
+  'error.lengthMin': '{field} must be at least {min} characters',
+  'error.lengthMax': '{field} must be no more than {max} characters',
+  'error.lengthInvalid': '{field} length is invalid',
+  'error.rangeBetween': '{field} must be between {min} and {max}',
+  'error.rangeMin': '{field} must be at least {min}',
+  'error.rangeMax': '{field} must be no more than {max}',
+  'error.rangeInvalid': '{field} value is out of range',
+  'error.type': '{field} must be of type {type}',
+  'error.timeout': 'Request timed out after {timeout}ms',
+  'error.connection': 'Unable to connect to server. Please check your internet connection.',
+  'error.server': 'Server error. Please try again later.',
+  'error.serverStatus': 'Server error ({status}). Please try again later.',
+  'error.rateLimited': 'Too many requests. Please wait before trying again.',
+  'error.permissionDenied': 'Permission denied for action: {action}',
+  'error.thisAction': 'this action',
+  'error.insufficientPrivileges': 'You do not have sufficient privileges to perform this action',
+  'error.authenticationRequired': 'Authentication required to access this resource',
+  'error.invalidToken': 'Security token is invalid or expired',
+  'error.csrf': 'Security validation failed. Please refresh the page and try again.',
+  'error.suspiciousActivity': 'Suspicious activity detected. Access has been restricted.',
+  'error.securityIssue': 'A security issue was detected. Please contact support if this continues.',
+  'error.fileTooLarge': 'File is too large. Maximum size allowed is {maxSize}',
+  'error.fileType': 'Invalid file type. Allowed types: {types}',
+  'error.uploadFailed': 'File upload failed. Please try again.',
+  'error.unexpected': 'An unexpected error occurred. Please try again or contact support.',
+  'error.operationFailed': 'Failed to {operation}. Please try again.',
+  'error.notFound': '{resource} not found',
+  'error.alreadyExists': '{resource} already exists'
+};
+
+export default en;
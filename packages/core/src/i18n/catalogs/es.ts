@@ -0,0 +1,242 @@
+import type { MessageCatalog } from '../I18n';
+
+const es: MessageCatalog = {
+  'common.apply': 'Aplicar',
+  'common.cancel': 'Cancelar',
+  'common.confirm': 'Confirmar',
+  'common.save': 'Guardar',
+  'common.clearAll': 'Quitar todo',
+  'common.preview': 'Vista previa',
+  'common.or': 'o',
+
+  'modal.title': 'Editar',
+  'modal.close': 'Cerrar',
+
+  'toolbar.editMode': 'Modo edición',
+  'toolbar.changes': '{count, plural, =0 {Sin cambios} one {# cambio} other {# cambios}}',
+  'toolbar.contentLanguage': 'Idioma del contenido',
+  'toolbar.untranslated': '{count, plural, one {# sin traducir} other {# sin traducir}}',
+  'toolbar.untranslatedHint': '{count, plural, one {# campo de esta página muestra contenido alternativo} other {# campos de esta página muestran contenido alternativo}}',
+  'toolbar.discardAll': 'Descartar todo',
+  'toolbar.saveDraft': 'Guardar borrador',
+  'toolbar.saveAll': 'Guardar todo',
+  'toolbar.publish': 'Publicar',
+  'toolbar.history': 'Historial',
+  'toolbar.schedule': 'Programar',
+  'toolbar.comments': 'Comentarios',
+  'toolbar.workflow': '{stage}: {count, plural, one {# cambio} other {# cambios}}',
+  'toolbar.workflowHint': 'Etapa de revisión de los cambios pendientes en esta página',
+  'toolbar.exit': 'Salir',
+  'toolbar.confirmExit': '{count, plural, one {Tiene # cambio sin guardar. ¿Desea descartarlo?} other {Tiene # cambios sin guardar. ¿Desea descartarlos?}}',
+  'toolbar.confirmLocaleSwitch': '{count, plural, one {Tiene # cambio sin guardar en {from}. ¿Descartarlo y cambiar a {to}?} other {Tiene # cambios sin guardar en {from}. ¿Descartarlos y cambiar a {to}?}}',
+  'toolbar.confirmDiscardAll': '{count, plural, one {¿Seguro que desea descartar # cambio?} other {¿Seguro que desea descartar # cambios?}}',
+
+  'schedule.title': 'Programación',
+  'schedule.content': 'Contenido',
+  'schedule.allDrafts': 'Todos los borradores de esta página',
+  'schedule.publishAt': 'Publicar el',
+  'schedule.expireAt': 'Retirar el',
+  'schedule.optional': 'Déjalo vacío para omitirlo',
+  'schedule.submit': 'Programar',
+  'schedule.timeRequired': 'Elige cuándo se publica el contenido, cuándo se retira o ambos.',
+  'schedule.failed': 'No se pudo programar el contenido: {error}',
+  'schedule.unsaved': 'Algunos cambios no se pudieron guardar.',
+  'schedule.created': '{count, plural, one {Programado} other {# cambios programados}}',
+  'schedule.upcoming': 'Próximos',
+  'schedule.loading': 'Cargando…',
+  'schedule.loadFailed': 'No se pudo cargar la programación.',
+  'schedule.empty': 'No hay nada programado para esta página.',
+  'schedule.action': '{action, select, publish {Se publica} other {Se retira}} {time}',
+  'schedule.cancel': 'Cancelar',
+  'schedule.cancelConfirm': '¿Cancelar este cambio programado?',
+
+  'comments.title': 'Comentarios',
+  'comments.allOnPage': 'Todos los comentarios de esta página',
+  'comments.target': 'Elemento',
+  'comments.selectElement': 'Elige un elemento para iniciar una conversación.',
+  'comments.quote': 'Sobre «{quote}»',
+  'comments.placeholder': 'Añade un comentario. Escribe @ para mencionar a alguien.',
+  'comments.replyPlaceholder': 'Responder…',
+  'comments.submit': 'Comentar',
+  'comments.reply': 'Responder',
+  'comments.resolve': 'Resolver',
+  'comments.reopen': 'Reabrir',
+  'comments.delete': 'Eliminar',
+  'comments.deleteConfirm': '¿Eliminar esta conversación y todas sus respuestas?',
+  'comments.resolved': 'Resuelto',
+  'comments.showResolved': 'Mostrar resueltos',
+  'comments.loading': 'Cargando…',
+  'comments.loadFailed': 'No se pudieron cargar los comentarios.',
+  'comments.empty': 'Todavía no hay comentarios.',
+  'comments.failed': 'No se pudo publicar el comentario: {error}',
+  'comments.anonymous': 'Alguien',
+  'comments.marker': '{count, plural, one {# comentario abierto} other {# comentarios abiertos}}',
+  'workflow.title': 'Revisión',
+  'workflow.loading': 'Cargando…',
+  'workflow.loadFailed': 'No se pudo cargar el estado de la revisión.',
+  'workflow.empty': 'No hay cambios pendientes en esta página.',
+  'workflow.commentPlaceholder': 'Comentario para la revisión (obligatorio para rechazar)',
+  'workflow.commentRequired': 'Añade un comentario que explique qué debe cambiar.',
+  'workflow.submit': 'Enviar a revisión',
+  'workflow.approve': 'Aprobar',
+  'workflow.reject': 'Rechazar',
+  'workflow.done.submit': '{count, plural, one {# cambio enviado a revisión} other {# cambios enviados a revisión}}',
+  'workflow.done.approve': '{count, plural, one {# cambio aprobado} other {# cambios aprobados}}',
+  'workflow.done.reject': '{count, plural, one {# cambio rechazado} other {# cambios rechazados}}',
+  'workflow.failed': 'No se pudo actualizar la revisión: {error}',
+  'workflow.unsaved': 'Algunos cambios no se pudieron guardar.',
+  'workflow.someone': 'Alguien',
+  'workflow.history.submit': 'Enviado por {user}, {time}',
+  'workflow.history.approve': 'Aprobado por {user}, {time}',
+  'workflow.history.reject': 'Rechazado por {user}, {time}',
+  'workflow.history.publish': 'Publicado por {user}, {time}',
+  'workflow.stage.draft': 'Borrador',
+  'workflow.stage.approved': 'Aprobado',
+  'workflow.stage.rejected': 'Rechazado',
+  'workflow.awaitingReview': '{count, plural, one {# cambio espera tu revisión} other {# cambios esperan tu revisión}}',
+  'workflow.rejectedNotice': '{count, plural, one {# cambio fue rechazado} other {# cambios fueron rechazados}}',
+
+  'translation.source': 'Texto original en {locale}',
+  'translation.from': 'Traducir desde {source} → {target}',
+  'translation.copy': 'Copiar original',
+  'translation.loading': 'Cargando…',
+  'translation.empty': 'Todavía no hay nada escrito en {locale}.',
+  'translation.failed': 'No se pudo cargar el texto en {locale}.',
+
+  'color.title': 'Selector de color',
+  'color.presets': 'Predefinidos',
+
+  'date.title': 'Fecha y hora',
+  'date.date': 'Fecha',
+  'date.time': 'Hora',
+  'date.today': 'Hoy',
+  'date.hours': 'Horas',
+  'date.minutes': 'Minutos',
+  'date.previousMonth': 'Mes anterior',
+  'date.nextMonth': 'Mes siguiente',
+
+  'number.title': 'Editar número',
+  'number.enterValue': 'Introduce un valor:',
+  'number.commonValues': 'Valores habituales:',
+  'number.reset': 'Restablecer',
+
+  'image.title': 'Editar imagen',
+  'image.tabUrl': 'URL',
+  'image.tabUpload': 'Subir',
+  'image.tabLibrary': 'Biblioteca',
+  'image.url': 'URL de la imagen',
+  'image.alt': 'Texto alternativo',
+  'image.altPlaceholder': 'Describe la imagen',
+  'image.dropHere': 'Arrastra y suelta tu imagen aquí',
+  'image.chooseFile': 'Elegir archivo',
+  'image.formats': 'Formatos admitidos: JPG, PNG, GIF, WebP (máx. 5 MB)',
+  'image.focalPointHint': 'Haz clic en la vista previa para fijar el punto focal que se mantiene visible al recortar la imagen.',
+
+  'richtext.title': 'Editor de texto',
+  'richtext.bold': 'Negrita',
+  'richtext.italic': 'Cursiva',
+  'richtext.underline': 'Subrayado',
+  'richtext.heading': 'Título {level}',
+  'richtext.paragraph': 'Párrafo',
+  'richtext.bulletList': 'Lista con viñetas',
+  'richtext.numberedList': 'Lista numerada',
+  'richtext.alignLeft': 'Alinear a la izquierda',
+  'richtext.alignCenter': 'Centrar',
+  'richtext.alignRight': 'Alinear a la derecha',
+  'richtext.insertLink': 'Insertar enlace',
+  'richtext.insertImage': 'Insertar imagen',
+  'richtext.clearFormatting': 'Borrar formato',
+  'richtext.enterUrl': 'Introduce la URL:',
+  'richtext.enterImageUrl': 'Introduce la URL de la imagen:',
+
+  'file.title': 'Subir archivos',
+  'file.dropHere': 'Arrastra y suelta archivos aquí',
+  'file.chooseFiles': 'Elegir archivos',
+  'file.maxSize': 'Máx. {size}',
+  'file.allTypes': 'Todos los tipos de archivo',
+  'file.typeFiles': 'Archivos {type}',
+  'file.uploading': 'Subiendo...',
+  'file.uploadingFile': 'Subiendo {name} ({current}/{total})...',
+  'file.uploaded': '{count, plural, one {# archivo subido correctamente} other {# archivos subidos correctamente}}',
+  'file.uploadFailed': 'Error al subir: {message}',
+  'file.unknownError': 'error desconocido',
+  'file.uploadApply': 'Subir y aplicar',
+  'file.selected': 'Archivos seleccionados:',
+  'file.unknownType': 'Tipo desconocido',
+  'file.chooseFromLibrary': 'Elegir de la biblioteca',
+  'file.tooLarge': 'El archivo {name} supera el tamaño máximo de {size}',
+  'file.notAccepted': 'El tipo del archivo {name} no está permitido',
+  'file.placeholder': 'Haz clic para subir archivos',
+  'file.uploadedFile': 'Archivo subido',
+  'file.file': 'Archivo',
+  'file.remove': 'Quitar {name}',
+
+  'json.title': 'Editor JSON',
+  'json.treeView': 'Vista de árbol',
+  'json.codeView': 'Vista de código',
+  'json.format': 'Formatear',
+  'json.minify': 'Minificar',
+  'json.validate': 'Validar',
+  'json.valid': 'JSON válido',
+  'json.import': 'Importar',
+  'json.invalidContent': 'El contenido actual no es JSON válido',
+  'json.invalidFile': 'Archivo JSON no válido',
+  'json.fixErrors': 'Corrige los errores de JSON antes de guardar',
+  'json.clickToEdit': 'Haz clic para editar todos los datos JSON',
+  'json.large': 'JSON grande',
+
+  'select.titleSingle': 'Elegir opción',
+  'select.titleMultiple': 'Selección múltiple',
+  'select.search': 'Buscar opciones...',
+  'select.noResults': 'No se encontraron opciones',
+  'select.selectAll': 'Seleccionar todo',
+  'select.noneSelected': 'Ningún elemento seleccionado',
+
+  'collection.title': 'Editar lista',
+  'collection.help': 'Añade, edita, quita y reordena los elementos de esta lista.',
+  'collection.newItem': 'Nuevo elemento...',
+  'collection.addItem': 'Añadir elemento',
+  'collection.sort': 'Ordenar A-Z',
+  'collection.reverse': 'Invertir',
+  'collection.confirmClear': '¿Seguro que quieres quitar todos los elementos?',
+  'collection.empty': 'La lista está vacía',
+  'collection.emptyHint': 'Añade elementos con el campo de arriba',
+  'collection.stats': '{count, plural, one {# elemento} other {# elementos}} • {chars, plural, one {# carácter} other {# caracteres en total}}',
+  'collection.moveUp': 'Subir',
+  'collection.moveDown': 'Bajar',
+  'collection.remove': 'Quitar',
+
+  'error.required': '{field} es obligatorio',
+  'error.format': '{field} debe tener el formato {format}',
+  'error.lengthBetween': '{field} debe tener entre {min} y {max} caracteres',
+  'error.lengthMin': '{field} debe tener al menos {min} caracteres',
+  'error.lengthMax': '{field} no puede superar los {max} caracteres',
+  'error.lengthInvalid': 'La longitud de {field} no es válida',
+  'error.rangeBetween': '{field} debe estar entre {min} y {max}',
+  'error.rangeMin': '{field} debe ser al menos {min}',
+  'error.rangeMax': '{field} no puede superar {max}',
+  'error.rangeInvalid': '{field} está fuera de rango',
+  'error.type': '{field} debe ser de tipo {type}',
+  'error.timeout': 'La solicitud superó el tiempo de espera tras {timeout} ms',
+  'error.connection': 'No se puede conectar con el servidor. Comprueba tu conexión a Internet.',
+  'error.server': 'Error del servidor. Vuelve a intentarlo más tarde.',
+  'error.serverStatus': 'Error del servidor ({status}). Vuelve a intentarlo más tarde.',
+  'error.rateLimited': 'Demasiadas solicitudes. Espera antes de volver a intentarlo.',
+  'error.permissionDenied': 'Permiso denegado para la acción: {action}',
+  'error.thisAction': 'esta acción',
+  'error.insufficientPrivileges': 'No tienes permisos suficientes para realizar esta acción',
+  'error.authenticationRequired': 'Se requiere autenticación para acceder a este recurso',
+  'error.invalidToken': 'El token de seguridad no es válido o ha caducado',
+  'error.csrf': 'La verificación de seguridad falló. Recarga la página y vuelve a intentarlo.',
+  'error.suspiciousActivity': 'Se detectó actividad sospechosa. El acceso se ha restringido.',
+  'error.securityIssue': 'Se detectó un problema de seguridad. Contacta con soporte si continúa.',
+  'error.fileTooLarge': 'El archivo es demasiado grande. El tamaño máximo es {maxSize}',
+  'error.fileType': 'Tipo de archivo no válido. Tipos permitidos: {types}',
+  'error.uploadFailed': 'Error al subir el archivo. Vuelve a intentarlo.',
+  'error.unexpected': 'Se produjo un error inesperado. Vuelve a intentarlo o contacta con soporte.',
+  'error.operationFailed': 'Error en la operación: {operation}. Vuelve a intentarlo.',
+  'error.notFound': '{resource} no encontrado',
+  'error.alreadyExists': '{resource} ya existe'
+};
+
+export default es;
@@ -0,0 +1,242 @@
+import type { MessageCatalog } from '../I18n';
+
+const fr: MessageCatalog = {
+  'common.apply': 'Appliquer',
+  'common.cancel': 'Annuler',
+  'common.confirm': 'Confirmer',
+  'common.save': 'Enregistrer',
+  'common.clearAll': 'Tout effacer',
+  'common.preview': 'Aperçu',
+  'common.or': 'ou',
+
+  'modal.title': 'Modifier',
+  'modal.close': 'Fermer',
+
+  'toolbar.editMode': 'Mode édition',
+  'toolbar.changes': '{count, plural, =0 {Aucune modification} one {# modification} other {# modifications}}',
+  'toolbar.contentLanguage': 'Langue du contenu',
+  'toolbar.untranslated': '{count, plural, one {# non traduit} other {# non traduits}}',
+  'toolbar.untranslatedHint': '{count, plural, one {# champ de cette page affiche un contenu de repli} other {# champs de cette page affichent un contenu de repli}}',
+  'toolbar.discardAll': 'Tout annuler',
+  'toolbar.saveDraft': 'Enregistrer le brouillon',
+  'toolbar.saveAll': 'Tout enregistrer',
+  'toolbar.publish': 'Publier',
+  'toolbar.history': 'Historique',
+  'toolbar.schedule': 'Planifier',
+  'toolbar.comments': 'Commentaires',
+  'toolbar.workflow': '{stage} : {count, plural, one {# modification} other {# modifications}}',
+  'toolbar.workflowHint': 'Étape de relecture des modifications en attente sur cette page',
+  'toolbar.exit': 'Quitter',
+  'toolbar.confirmExit': '{count, plural, one {Vous avez # modification non enregistrée. Voulez-vous l’abandonner ?} other {Vous avez # modifications non enregistrées. Voulez-vous les abandonner ?}}',
+  'toolbar.confirmLocaleSwitch': '{count, plural, one {Vous avez # modification non enregistrée en {from}. L’abandonner et passer à {to} ?} other {Vous avez # modifications non enregistrées en {from}. Les abandonner et passer à {to} ?}}',
+  'toolbar.confirmDiscardAll': '{count, plural, one {Voulez-vous vraiment abandonner # modification ?} other {Voulez-vous vraiment abandonner # modifications ?}}',
+
+  'schedule.title': 'Planification',
+  'schedule.content': 'Contenu',
+  'schedule.allDrafts': 'Tous les brouillons de cette page',
+  'schedule.publishAt': 'Mise en ligne le',
+  'schedule.expireAt': 'Retrait le',
+  'schedule.optional': 'Laisser vide pour ignorer',
+  'schedule.submit': 'Planifier',
+  'schedule.timeRequired': 'Choisissez quand le contenu est mis en ligne, retiré, ou les deux.',
+  'schedule.failed': 'Impossible de planifier le contenu : {error}',
+  'schedule.unsaved': 'Certaines modifications n’ont pas pu être enregistrées.',
+  'schedule.created': '{count, plural, one {Planifié} other {# changements planifiés}}',
+  'schedule.upcoming': 'À venir',
+  'schedule.loading': 'Chargement…',
+  'schedule.loadFailed': 'Impossible de charger la planification.',
+  'schedule.empty': 'Rien n’est planifié pour cette page.',
+  'schedule.action': '{action, select, publish {Mise en ligne} other {Retrait}} {time}',
+  'schedule.cancel': 'Annuler',
+  'schedule.cancelConfirm': 'Annuler ce changement planifié ?',
+
+  'comments.title': 'Commentaires',
+  'comments.allOnPage': 'Tous les commentaires de cette page',
+  'comments.target': 'Élément',
+  'comments.selectElement': 'Choisissez un élément pour lancer une discussion.',
+  'comments.quote': 'Sur « {quote} »',
+  'comments.placeholder': 'Ajoutez un commentaire. Tapez @ pour mentionner quelqu’un.',
+  'comments.replyPlaceholder': 'Répondre…',
+  'comments.submit': 'Commenter',
+  'comments.reply': 'Répondre',
+  'comments.resolve': 'Résoudre',
+  'comments.reopen': 'Rouvrir',
+  'comments.delete': 'Supprimer',
+  'comments.deleteConfirm': 'Supprimer cette discussion et toutes ses réponses ?',
+  'comments.resolved': 'Résolu',
+  'comments.showResolved': 'Afficher les résolus',
+  'comments.loading': 'Chargement…',
+  'comments.loadFailed': 'Impossible de charger les commentaires.',
+  'comments.empty': 'Aucun commentaire pour l’instant.',
+  'comments.failed': 'Impossible de publier le commentaire : {error}',
+  'comments.anonymous': 'Quelqu’un',
+  'comments.marker': '{count, plural, one {# commentaire ouvert} other {# commentaires ouverts}}',
+  'workflow.title': 'Relecture',
+  'workflow.loading': 'Chargement…',
+  'workflow.loadFailed': 'Impossible de charger l’état de la relecture.',
+  'workflow.empty': 'Aucune modification en attente sur cette page.',
+  'workflow.commentPlaceholder': 'Commentaire pour la relecture (obligatoire pour refuser)',
+  'workflow.commentRequired': 'Ajoutez un commentaire expliquant ce qui doit changer.',
+  'workflow.submit': 'Soumettre à relecture',
+  'workflow.approve': 'Approuver',
+  'workflow.reject': 'Refuser',
+  'workflow.done.submit': '{count, plural, one {# modification soumise à relecture} other {# modifications soumises à relecture}}',
+  'workflow.done.approve': '{count, plural, one {# modification approuvée} other {# modifications approuvées}}',
+  'workflow.done.reject': '{count, plural, one {# modification refusée} other {# modifications refusées}}',
+  'workflow.failed': 'Impossible de mettre à jour la relecture : {error}',
+  'workflow.unsaved': 'Certaines modifications n’ont pas pu être enregistrées.',
+  'workflow.someone': 'Quelqu’un',
+  'workflow.history.submit': 'Soumis par {user}, {time}',
+  'workflow.history.approve': 'Approuvé par {user}, {time}',
+  'workflow.history.reject': 'Refusé par {user}, {time}',
+  'workflow.history.publish': 'Publié par {user}, {time}',
+  'workflow.stage.draft': 'Brouillon',
+  'workflow.stage.approved': 'Approuvé',
+  'workflow.stage.rejected': 'Refusé',
+  'workflow.awaitingReview': '{count, plural, one {# modification attend votre relecture} other {# modifications attendent votre relecture}}',
+  'workflow.rejectedNotice': '{count, plural, one {# modification a été refusée} other {# modifications ont été refusées}}',
+
+  'translation.source': 'Texte original en {locale}',
+  'translation.from': 'Traduire depuis {source} → {target}',
+  'translation.copy': 'Copier l’original',
+  'translation.loading': 'Chargement…',
+  'translation.empty': 'Rien n’est encore écrit en {locale}.',
+  'translation.failed': 'Impossible de charger le texte en {locale}.',
+
+  'color.title': 'Sélecteur de couleur',
+  'color.presets': 'Préréglages',
+
+  'date.title': 'Date et heure',
+  'date.date': 'Date',
+  'date.time': 'Heure',
+  'date.today': 'Aujourd’hui',
+  'date.hours': 'Heures',
+  'date.minutes': 'Minutes',
+  'date.previousMonth': 'Mois précédent',
+  'date.nextMonth': 'Mois suivant',
+
+  'number.title': 'Modifier le nombre',
+  'number.enterValue': 'Saisir une valeur :',
+  'number.commonValues': 'Valeurs courantes :',
+  'number.reset': 'Réinitialiser',
+
+  'image.title': 'Modifier l’image',
+  'image.tabUrl': 'URL',
+  'image.tabUpload': 'Importer',
+  'image.tabLibrary': 'Médiathèque',
+  'image.url': 'URL de l’image',
+  'image.alt': 'Texte alternatif',
+  'image.altPlaceholder': 'Décrivez l’image',
+  'image.dropHere': 'Glissez-déposez votre image ici',
+  'image.chooseFile': 'Choisir un fichier',
+  'image.formats': 'Formats pris en charge : JPG, PNG, GIF, WebP (5 Mo max.)',
+  'image.focalPointHint': 'Cliquez sur l’aperçu pour définir le point focal conservé lors du recadrage.',
+
+  'richtext.title': 'Éditeur de texte',
+  'richtext.bold': 'Gras',
+  'richtext.italic': 'Italique',
+  'richtext.underline': 'Souligné',
+  'richtext.heading': 'Titre {level}',
+  'richtext.paragraph': 'Paragraphe',
+  'richtext.bulletList': 'Liste à puces',
+  'richtext.numberedList': 'Liste numérotée',
+  'richtext.alignLeft': 'Aligner à gauche',
+  'richtext.alignCenter': 'Centrer',
+  'richtext.alignRight': 'Aligner à droite',
+  'richtext.insertLink': 'Insérer un lien',
+  'richtext.insertImage': 'Insérer une image',
+  'richtext.clearFormatting': 'Effacer la mise en forme',
+  'richtext.enterUrl': 'Saisissez l’URL :',
+  'richtext.enterImageUrl': 'Saisissez l’URL de l’image :',
+
+  'file.title': 'Importer des fichiers',
+  'file.dropHere': 'Glissez-déposez vos fichiers ici',
+  'file.chooseFiles': 'Choisir des fichiers',
+  'file.maxSize': '{size} max.',
+  'file.allTypes': 'Tous les types de fichiers',
+  'file.typeFiles': 'Fichiers {type}',
+  'file.uploading': 'Importation...',
+  'file.uploadingFile': 'Importation de {name} ({current}/{total})...',
+  'file.uploaded': '{count, plural, one {# fichier importé} other {# fichiers importés}}',
+  'file.uploadFailed': 'Échec de l’importation : {message}',
+  'file.unknownError': 'erreur inconnue',
+  'file.uploadApply': 'Importer et appliquer',
+  'file.selected': 'Fichiers sélectionnés :',
+  'file.unknownType': 'Type inconnu',
+  'file.chooseFromLibrary': 'Choisir dans la médiathèque',
+  'file.tooLarge': 'Le fichier {name} dépasse la taille maximale de {size}',
+  'file.notAccepted': 'Le type du fichier {name} n’est pas accepté',
+  'file.placeholder': 'Cliquez pour importer des fichiers',
+  'file.uploadedFile': 'Fichier importé',
+  'file.file': 'Fichier',
+  'file.remove': 'Retirer {name}',
+
+  'json.title': 'Éditeur JSON',
+  'json.treeView': 'Arborescence',
+  'json.codeView': 'Code',
+  'json.format': 'Formater',
+  'json.minify': 'Minifier',
+  'json.validate': 'Valider',
+  'json.valid': 'JSON valide',
+  'json.import': 'Importer',
+  'json.invalidContent': 'Le contenu actuel n’est pas du JSON valide',
+  'json.invalidFile': 'Fichier JSON invalide',
+  'json.fixErrors': 'Corrigez les erreurs JSON avant d’enregistrer',
+  'json.clickToEdit': 'Cliquez pour modifier toutes les données JSON',
+  'json.large': 'JSON volumineux',
+
+  'select.titleSingle': 'Choisir une option',
+  'select.titleMultiple': 'Sélection multiple',
+  'select.search': 'Rechercher des options...',
+  'select.noResults': 'Aucune option trouvée',
+  'select.selectAll': 'Tout sélectionner',
+  'select.noneSelected': 'Aucun élément sélectionné',
+
+  'collection.title': 'Modifier la liste',
+  'collection.help': 'Ajoutez, modifiez, supprimez et réordonnez les éléments de cette liste.',
+  'collection.newItem': 'Nouvel élément...',
+  'collection.addItem': 'Ajouter',
+  'collection.sort': 'Trier de A à Z',
+  'collection.reverse': 'Inverser',
+  'collection.confirmClear': 'Voulez-vous vraiment supprimer tous les éléments ?',
+  'collection.empty': 'La liste est vide',
+  'collection.emptyHint': 'Ajoutez des éléments avec le champ ci-dessus',
+  'collection.stats': '{count, plural, one {# élément} other {# éléments}} • {chars, plural, one {# caractère} other {# caractères au total}}',
+  'collection.moveUp': 'Monter',
+  'collection.moveDown': 'Descendre',
+  'collection.remove': 'Supprimer',
+
+  'error.required': '{field} est obligatoire',
+  'error.format': '{field} doit être au format {format}',
+  'error.lengthBetween': '{field} doit contenir entre {min} et {max} caractères',
+  'error.lengthMin': '{field} doit contenir au moins {min} caractères',
+  'error.lengthMax': '{field} ne doit pas dépasser {max} caractères',
+  'error.lengthInvalid': 'La longueur de {field} n’est pas valide',
+  'error.rangeBetween': '{field} doit être compris entre {min} et {max}',
+  'error.rangeMin': '{field} doit être au moins {min}',
+  'error.rangeMax': '{field} ne doit pas dépasser {max}',
+  'error.rangeInvalid': '{field} est hors limites',
+  'error.type': '{field} doit être de type {type}',
+  'error.timeout': 'La requête a expiré après {timeout} ms',
+  'error.connection': 'Impossible de joindre le serveur. Vérifiez votre connexion Internet.',
+  'error.server': 'Erreur du serveur. Veuillez réessayer plus tard.',
+  'error.serverStatus': 'Erreur du serveur ({status}). Veuillez réessayer plus tard.',
+  'error.rateLimited': 'Trop de requêtes. Veuillez patienter avant de réessayer.',
+  'error.permissionDenied': 'Action non autorisée : {action}',
+  'error.thisAction': 'cette action',
+  'error.insufficientPrivileges': 'Vous n’avez pas les droits nécessaires pour effectuer cette action',
+  'error.authenticationRequired': 'Une authentification est requise pour accéder à cette ressource',
+  'error.invalidToken': 'Le jeton de sécurité est invalide ou a expiré',
+  'error.csrf': 'La vérification de sécurité a échoué. Actualisez la page et réessayez.',
+  'error.suspiciousActivity': 'Activité suspecte détectée. L’accès a été restreint.',
+  'error.securityIssue': 'Un problème de sécurité a été détecté. Contactez le support s’il persiste.',
+  'error.fileTooLarge': 'Le fichier est trop volumineux. La taille maximale est de {maxSize}',
+  'error.fileType': 'Type de fichier non valide. Types acceptés : {types}',
+  'error.uploadFailed': 'L’importation a échoué. Veuillez réessayer.',
+  'error.unexpected': 'Une erreur inattendue s’est produite. Réessayez ou contactez le support.',
+  'error.operationFailed': 'Échec de l’opération : {operation}. Veuillez réessayer.',
+  'error.notFound': '{resource} introuvable',
+  'error.alreadyExists': '{resource} existe déjà'
+};
+
+export default fr;
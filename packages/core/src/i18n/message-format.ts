@@ -0,0 +1,212 @@
+/**
+ * ICU-style message formatting: `{name}`, `{count, number}`, `{when, date, long}`,
+ * `{count, plural, =0 {none} one {# item} other {# items}}` and
+ * `{gender, select, female {her} other {their}}`. Plural categories come from
+ * Intl.PluralRules, so each locale gets its own (Arabic has six, Japanese one).
+ *
+ * Quoting follows ICU: `''` is an apostrophe and `'{...}'` is literal text.
+ */
+
+export type MessageParams = Record<string, string | number | Date | null | undefined>;
+
+export function formatMessage(message: string, params: MessageParams = {}, locale: string = 'en'): string {
+  return render(message, params, locale);
+}
+
+function render(message: string, params: MessageParams, locale: string, pound?: string): string {
+  let output = '';
+  let index = 0;
+
+  while (index < message.length) {
+    const char = message[index];
+
+    if (char === "'") {
+      const next = message[index + 1];
+      if (next === "'") {
+        output += "'";
+        index += 2;
+      } else if (next === '{' || next === '}' || next === '#') {
+        const end = message.indexOf("'", index + 1);
+        output += message.slice(index + 1, end === -1 ? undefined : end);
+        index = end === -1 ? message.length : end + 1;
+      } else {
+        output += char;
+        index++;
+      }
+    } else if (char === '{') {
+      const end = matchingBrace(message, index);
+      if (end === -1) {
+        output += message.slice(index);
+        break;
+      }
+      output += renderArgument(message.slice(index + 1, end), params, locale);
+      index = end + 1;
+    } else if (char === '#' && pound !== undefined) {
+      output += pound;
+      index++;
+    } else {
+      output += char;
+      index++;
+    }
+  }
+
+  return output;
+}
+
+function renderArgument(body: string, params: MessageParams, locale: string): string {
+  const [rawName, rawType, ...rest] = splitArgument(body);
+  const name = rawName.trim();
+  const value = params[name];
+  const type = rawType?.trim();
+
+  if (type === 'plural' || type === 'selectordinal') {
+    return renderPlural(rest.join(','), Number(value), type === 'selectordinal', params, locale);
+  }
+  if (type === 'select') {
+    const options = parseOptions(rest.join(','));
+    const message = options.get(String(value)) ?? options.get('other');
+    return message === undefined ? '' : render(message, params, locale);
+  }
+
+  if (value === undefined || value === null) {
+    return `{${name}}`;
+  }
+
+  const style = rest.join(',').trim();
+  if (type === 'number' || (!type && typeof value === 'number')) {
+    return formatNumberValue(Number(value), style, locale);
+  }
+  if (type === 'date' || type === 'time' || (!type && value instanceof Date)) {
+    return formatDateValue(value, type === 'time' ? 'time' : 'date', style, locale);
+  }
+  return String(value);
+}
+
+function renderPlural(
+  body: string,
+  value: number,
+  ordinal: boolean,
+  params: MessageParams,
+  locale: string
+): string {
+  let text = body.trim();
+  let offset = 0;
+
+  const offsetMatch = text.match(/^offset:\s*(\d+)/);
+  if (offsetMatch) {
+    offset = Number(offsetMatch[1]);
+    text = text.slice(offsetMatch[0].length);
+  }
+
+  const options = parseOptions(text);
+  const exact = options.get(`=${value}`);
+  const relative = value - offset;
+  const pound = formatNumberValue(relative, '', locale);
+
+  if (exact !== undefined) {
+    return render(exact, params, locale, pound);
+  }
+
+  let category = 'other';
+  try {
+    category = new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' }).select(relative);
+  } catch {
+    category = relative === 1 ? 'one' : 'other';
+  }
+
+  const message = options.get(category) ?? options.get('other');
+  return message === undefined ? '' : render(message, params, locale, pound);
+}
+
+/**
+ * Reads `selector {message}` pairs
+ */
+function parseOptions(text: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let index = 0;
+
+  while (index < text.length) {
+    while (index < text.length && /\s/.test(text[index])) index++;
+    if (index >= text.length) break;
+
+    const start = index;
+    while (index < text.length && !/[\s{]/.test(text[index])) index++;
+    const selector = text.slice(start, index);
+
+    while (index < text.length && /\s/.test(text[index])) index++;
+    if (text[index] !== '{') break;
+
+    const end = matchingBrace(text, index);
+    if (end === -1) break;
+    options.set(selector, text.slice(index + 1, end));
+    index = end + 1;
+  }
+
+  return options;
+}
+
+/**
+ * Splits `name, type, style` at the top-level commas; the style may contain more
+ */
+function splitArgument(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === ',' && depth === 0 && parts.length < 2) {
+      parts.push(body.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts;
+}
+
+function matchingBrace(text: string, open: number): number {
+  let depth = 0;
+
+  for (let index = open; index < text.length; index++) {
+    const char = text[index];
+    if (char === "'" && /[{}#]/.test(text[index + 1] || '')) {
+      const end = text.indexOf("'", index + 1);
+      if (end === -1) return -1;
+      index = end;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+function formatNumberValue(value: number, style: string, locale: string): string {
+  const options: Intl.NumberFormatOptions =
+    style === 'integer' ? { maximumFractionDigits: 0 } :
+    style === 'percent' ? { style: 'percent' } :
+    {};
+  try {
+    return new Intl.NumberFormat(locale, options).format(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function formatDateValue(value: unknown, type: 'date' | 'time', style: string, locale: string): string {
+  const date = value instanceof Date ? value : new Date(value as any);
+  if (isNaN(date.getTime())) {
+    return String(value);
+  }
+
+  const length = (['short', 'medium', 'long', 'full'].includes(style) ? style : 'medium') as 'short' | 'medium' | 'long' | 'full';
+  try {
+    return new Intl.DateTimeFormat(locale, type === 'time' ? { timeStyle: length } : { dateStyle: length }).format(date);
+  } catch {
+    return type === 'time' ? date.toLocaleTimeString() : date.toLocaleDateString();
+  }
+}
@@ -7,18 +7,66 @@ import {
   SaveResponse,
   ElementType,
   ElementSchema,
-  Plugin
+  Plugin,
+  Hooks,
+  VersionConflict,
+  FieldError,
+  ConflictDecision,
+  PublishTarget,
+  PublishResponse,
+  ScheduleTarget,
+  ContentSchedule,
+  CommentAction,
+  CommentRange,
+  CommentThread,
+  WorkflowAction,
+  WorkflowItem,
+  WorkflowResponse,
+  WorkflowStatus,
+  RestoreResponse,
+  CollaborativeTextEditor,
+  TranslationSource,
+  ContentEntry,
+  MissingTranslation
 } from './types';
 import { ElementDetector, DetectedElement } from './detector';
 import { SightEditAPI } from './api';
 import { EventEmitter } from './utils/event-emitter';
 import { changeTracker } from './utils/change-tracker';
 import { editToolbar } from './ui/edit-toolbar';
+import { conflictDialog } from './ui/conflict-dialog';
+import { confirmAction } from './ui/confirm-dialog';
+import { HistoryPanel, HistoryTarget } from './ui/history-panel';
+import { SchedulePanel } from './ui/schedule-panel';
+import { CommentsPanel } from './ui/comments-panel';
+import { WorkflowPanel, pageStage } from './ui/workflow-panel';
+import { CollaborationUI } from './ui/collaboration-ui';
+import { ConflictError, SchemaValidationError, HookCancelledError } from './utils/error-handler';
+import {
+  hookManager,
+  executeHook,
+  executeHookSync,
+  EditorHookContext,
+  ValueHookContext,
+  SaveHookContext,
+  BatchHookContext,
+  ModeHookContext,
+  PluginHookContext
+} from './hooks/HookManager';
+import { getGlobalPipeline } from './transforms/TransformPipeline';
+import { getGlobalComputedManager, ComputedField } from './transforms/computed-fields';
+import { parseComputedExpression } from './transforms/computed-expression';
+import { notifications } from './utils/notification-system';
+import { CollaborationManager, RemoteTextOperation, diffToOperation } from './collaboration';
+import { i18n, t } from './i18n/I18n';
 
 // Export all types
 export * from './types';
 export { ElementDetector } from './detector';
 export type { DetectedElement } from './detector';
+export type { HistoryTarget } from './ui/history-panel';
+export { MediaLibrary } from './ui/media-library';
+export type { MediaLibraryOptions } from './ui/media-library';
 export { SightEditAPI } from './api';
 export { EventEmitter } from './utils/event-emitter';
 export { BaseEditor } from './editors/base';
@@ -38,10 +86,33 @@ export {
   ExternalServiceError,
   ConfigurationError,
   DataCorruptionError,
+  ConflictError,
+  SchemaValidationError,
+  HookCancelledError,
+  CircularDependencyError,
   CircuitBreaker,
   UserErrorMessages
 } from './utils/error-handler';
 
+// Export real-time collaboration
+export { CollaborationManager } from './collaboration';
+export type { CollaboratorInfo, CollaborationConfig, RemoteTextOperation } from './collaboration';
+export {
+  applyOperation,
+  composeOperations,
+  transformOperations,
+  transformIndex,
+  diffToOperation,
+  isTextOperation
+} from './collaboration/text-operation';
+export type { TextOperation } from './collaboration/text-operation';
+
+// Export UI translations
+export { I18n, i18n, t } from './i18n/I18n';
+export type { MessageCatalog, CatalogLoader, I18nOptions, TextDirection } from './i18n/I18n';
+export { formatMessage } from './i18n/message-format';
+export type { MessageParams } from './i18n/message-format';
+
 // Export validation utilities
 export { ValidationEngine } from './utils/validation-engine';
 export type { ValidationRule, ValidationSchema } from './utils/validation-engine';
@@ -87,6 +158,8 @@ export {
 } from './transforms/built-in';
 export { ComputedFieldManager, getGlobalComputedManager, resetGlobalComputedManager } from './transforms/computed-fields';
 export type { ComputedField } from './transforms/computed-fields';
+export { parseComputedExpression } from './transforms/computed-expression';
+export type { ComputedExpression } from './transforms/computed-expression';
 
 // Export component customization system (v2.0)
 export {
@@ -103,6 +176,8 @@ export type {
   ComponentRenderer,
   ComponentOverride
 } from './customization/ComponentRegistry';
+export { confirmAction } from './ui/confirm-dialog';
+export type { ConfirmOptions } from './ui/confirm-dialog';
 
 // Export hook system (v2.0)
 export {
@@ -116,7 +191,8 @@ export {
   executeHook,
   executeHookParallel,
   executeHookSync,
-  hasHooks
+  hasHooks,
+  isHookCancelled
 } from './hooks/HookManager';
 export type {
   HookEvent,
@@ -130,6 +206,7 @@ export type {
   UIHookContext,
   ModeHookContext,
   PluginHookContext,
+  CancellableHookContext,
   HookContext
 } from './hooks/HookManager';
 export {
@@ -172,6 +249,20 @@ import { FileModalEditor } from './editors/file-modal';
 import { JSONModalEditor } from './editors/json-modal';
 import { CollectionModalEditor } from './editors/collection-modal';
 
+// Field types whose edits are merged character by character while collaborating
+const COLLABORATIVE_TEXT_TYPES: ElementType[] = ['text', 'richtext', 'markdown'];
+
+function isCollaborativeTextEditor(editor: any): editor is BaseEditor & CollaborativeTextEditor {
+  return editor instanceof BaseEditor &&
+    typeof (editor as any).getCollaborativeText === 'function' &&
+    typeof (editor as any).applyRemoteOperation === 'function';
+}
+
+// A draft's stage changes with every transition and every save
+function workflowSeenKey(item: WorkflowItem): string {
+  return `${item.key}@${item.version}:${item.stage}`;
+}
+
 /**
  * Core SightEdit class - simplified version focusing on essential functionality
  */
@@ -185,6 +276,22 @@ class SightEditCore extends EventEmitter {
   private observer: MutationObserver | null = null;
   private scanTimeout: NodeJS.Timeout | null = null;
   private initialized = false;
+  private historyPanel: HistoryPanel | null = null;
+  private schedulePanel: SchedulePanel | null = null;
+  private commentsPanel: CommentsPanel | null = null;
+  private workflowPanel: WorkflowPanel | null = null;
+  private workflowSeen: Set<string> = new Set(); // Review stages already notified, per draft version
+  private collaborationUI: CollaborationUI | null = null; // Comment markers, while in edit mode
+  private collaboration: CollaborationManager | null = null;
+  private collaborativeEditors: Map<string, CollaborativeTextEditor> = new Map();
+  private locale: string | undefined; // Content locale, set when localization is configured
+  private untranslated: Set<string> = new Set();
+  // What the markup showed before another locale was loaded, for sights with no stored value
+  private markupValues: WeakMap<HTMLElement, any> = new WeakMap();
+  // Schemas published on the server, when schemaRegistry is configured
+  private storedSchemas: Map<string, { schema: any; loadedAt: number }> = new Map();
+  // Computed fields declared with data-sight-computed, dropped again on destroy
+  private markupComputed: Set<string> = new Set();
 
   static init(config: SightEditConfig): SightEditCore {
     if (!this.instance) {
@@ -209,6 +316,13 @@ class SightEditCore extends EventEmitter {
       ...config
     };
     
+    const localization = this.config.localization;
+    if (localization && localization.locales.length > 0) {
+      this.locale = this.config.locale && localization.locales.includes(this.config.locale)
+        ? this.config.locale
+        : this.getDefaultLocale();
+    }
+    
     try {
       this.api = new SightEditAPI(this.config);
       this.initialize();
@@ -332,6 +446,9 @@ class SightEditCore extends EventEmitter {
         });
       }
       
+      const computed = getGlobalComputedManager();
+      elements.forEach(detected => this.registerComputedElement(detected));
+      
       for (const detected of elements) {
         if (this.mode === 'edit') {
           if (this.config.debug) {
@@ -344,6 +461,10 @@ class SightEditCore extends EventEmitter {
         
         detected.element.dataset.sightEditReady = 'true';
       }
+      
+      if (elements.some(detected => computed.isComputed(detected.sight))) {
+        await this.updateComputed(null, false);
+      }
     } catch (error) {
       console.error('Failed to scan element:', error);
     }
@@ -358,6 +479,36 @@ class SightEditCore extends EventEmitter {
           element: element
         });
       }
+
+      // Computed values follow their inputs and aren't edited themselves
+      if (getGlobalComputedManager().isComputed(detected.sight)) {
+        element.classList.add('sight-computed');
+        element.setAttribute('aria-readonly', 'true');
+        return;
+      }
+
+      // A schema published on the server takes precedence over the markup's attributes
+      const stored = await this.loadStoredSchema(detected.sight);
+      if (stored) {
+        const storedType = stored.type ?? stored.editor?.type;
+        detected = {
+          ...detected,
+          type: storedType && this.editors.has(storedType) ? storedType : detected.type,
+          schema: { ...(detected.schema || {}), ...stored }
+        };
+      }
+
+      // Hooks can change the editor type and schema, or keep the element read-only
+      const rendering = await executeHook<EditorHookContext>('editor:beforeRender', {
+        element,
+        sight: detected.sight,
+        type: detected.type,
+        schema: detected.schema
+      });
+      if (rendering.cancel) {
+        return;
+      }
+      detected = { ...detected, type: rendering.type, schema: rendering.schema };
       
       const EditorClass = this.editors.get(detected.type);
       if (!EditorClass) {
@@ -365,13 +516,23 @@ class SightEditCore extends EventEmitter {
         return;
       }
 
+      // Server-rendered pages can declare the version their markup came from
+      if (element.dataset.sightVersion && changeTracker.getVersion(detected.sight) === undefined) {
+        const version = Number(element.dataset.sightVersion);
+        if (Number.isFinite(version)) {
+          changeTracker.setVersion(detected.sight, version);
+        }
+      }
+
       const editorConfig: any = {
         mode: detected.mode || 'inline',
         schema: detected.schema || {},
         theme: this.config.theme,
         locale: this.config.locale || 'en',
         debug: this.config.debug || false,
-        sight: detected.sight || ''
+        sight: detected.sight || '',
+        media: this.api,
+        translation: this.createTranslationSource(detected)
       };
 
       let editor: Editor;
@@ -396,10 +557,27 @@ class SightEditCore extends EventEmitter {
       }
 
     // Instead of saving immediately, track changes locally
-    editor.onSave = async (value: any) => {
+    editor.onSave = async (newValue: any) => {
       try {
         // Get original value from editor's initial state
         const originalValue = (editor as any).originalValue !== undefined ? (editor as any).originalValue : (editor.extractValue ? editor.extractValue() : '');
+        const previousValue = changeTracker.getChange(detected.sight)?.value ?? originalValue;
+        
+        // Hooks can rewrite the new value or refuse the change
+        const change = await executeHook<ValueHookContext>('value:beforeChange', {
+          sight: detected.sight,
+          oldValue: previousValue,
+          newValue,
+          type: detected.type,
+          element
+        });
+        if (change.cancel) {
+          editor.value = previousValue;
+          editor.applyValue?.(previousValue);
+          this.emit('changeCancelled', { sight: detected.sight, value: newValue, reason: change.reason });
+          return;
+        }
+        const value = change.newValue;
         
         // Track the change locally
         changeTracker.track(
@@ -407,7 +585,9 @@ class SightEditCore extends EventEmitter {
           value,
           originalValue,
           detected.type || 'text',
-          element
+          element,
+          undefined,
+          this.locale
         );
         
         // Update UI to show change count
@@ -440,11 +620,23 @@ class SightEditCore extends EventEmitter {
             pendingChanges: changeTracker.getChangeCount()
           });
         }
+        
+        await executeHook<ValueHookContext>('value:afterChange', {
+          sight: detected.sight,
+          oldValue: previousValue,
+          newValue: value,
+          type: detected.type,
+          element
+        });
       } catch (error) {
         console.error('Error tracking change:', error);
       }
     };
 
+      if (isCollaborativeTextEditor(editor)) {
+        this.bindCollaborativeText(editor, detected);
+      }
+
       if (this.config.debug) {
         console.log('[SightEdit] Calling editor.render() for:', detected.sight);
       }
@@ -452,6 +644,15 @@ class SightEditCore extends EventEmitter {
       editor.render();
       this.activeEditors.set(element, editor);
       
+      await executeHook<EditorHookContext>('editor:afterRender', {
+        element,
+        sight: detected.sight,
+        type: detected.type,
+        schema: detected.schema,
+        value: editor.getValue(),
+        editor
+      });
+      
       if (this.config.debug) {
         console.log('[SightEdit] Editor registered, total active editors:', this.activeEditors.size);
       }
@@ -460,8 +661,77 @@ class SightEditCore extends EventEmitter {
     }
   }
 
+  /**
+   * While a text field is being edited its changes are sent as operations, so
+   * collaborators typing in the same field are merged instead of overwritten
+   */
+  private bindCollaborativeText(editor: BaseEditor & CollaborativeTextEditor, detected: DetectedElement): void {
+    const collaboration = this.collaboration;
+    const sight = detected.sight;
+    if (!collaboration || !sight || !COLLABORATIVE_TEXT_TYPES.includes(detected.type)) return;
+
+    editor.on('editStart', () => {
+      if (this.collaborativeEditors.has(sight)) return;
+      this.collaborativeEditors.set(sight, editor);
+      collaboration.openTextDocument(sight, detected.type, editor.getCollaborativeText());
+    });
+
+    editor.on('input', () => {
+      if (this.collaborativeEditors.get(sight) === editor) {
+        collaboration.updateText(sight, editor.getCollaborativeText());
+      }
+    });
+
+    editor.on('editEnd', () => {
+      if (this.collaborativeEditors.get(sight) === editor) {
+        this.collaborativeEditors.delete(sight);
+        collaboration.closeTextDocument(sight);
+      }
+    });
+  }
+
+  private setupI18n(): void {
+    // English is always available, so the UI can render while another catalog loads
+    i18n.configure({
+      locale: this.config.locale || 'en',
+      translations: this.config.translations,
+      loadCatalog: this.config.loadTranslations
+    }).catch(error => {
+      console.error('Failed to load UI translations:', error);
+    });
+  }
+
+  private setupCollaboration(): void {
+    if (!this.config.collaboration) return;
+
+    try {
+      this.collaboration = new CollaborationManager(this.config.collaboration);
+    } catch (error) {
+      console.error('Failed to set up collaboration:', error);
+      return;
+    }
+
+    this.collaboration.on('remoteTextOperation', (event: RemoteTextOperation) => {
+      const editor = this.collaborativeEditors.get(event.sight);
+      if (!editor) return;
+
+      try {
+        editor.applyRemoteOperation(event.operation);
+      } catch {
+        // The field drifted from the shared text (e.g. sanitized markup), replace it wholesale
+        editor.applyRemoteOperation(diffToOperation(editor.getCollaborativeText(), event.text));
+      }
+      this.emit('remoteTextChange', event);
+    });
+
+    this.collaboration.on('comment', (event: { action: CommentAction; thread: string; sight: string; userId: string }) => {
+      this.emit('remoteComment', event);
+      this.refreshComments();
+    });
+  }
+
   enterEditMode(): void {
-    if (this.mode === 'edit') return;
+    if (this.mode === 'edit' || !this.canChangeMode('edit')) return;
     
     this.mode = 'edit';
     document.body.dataset.sightEditMode = 'edit';
@@ -474,9 +744,28 @@ class SightEditCore extends EventEmitter {
     changeTracker.load();
     
     // Show edit toolbar
+    editToolbar.setPublishing(this.config.publishing || {});
+    editToolbar.setLocalization(this.locale ? {
+      locales: this.config.localization!.locales,
+      current: this.locale,
+      labels: this.config.localization!.labels
+    } : null);
     editToolbar.show(changeTracker.getChangeCount());
     editToolbar.onSave(() => this.saveAllChanges());
     editToolbar.onDiscard(() => this.discardAllChanges());
+    editToolbar.onPublish(() => this.publishAllChanges());
+    editToolbar.onHistory(() => this.showHistory());
+    editToolbar.onSchedule(() => this.showSchedules());
+    editToolbar.setComments(!!this.config.comments?.enabled);
+    editToolbar.onComments(() => this.showComments());
+    editToolbar.setWorkflow(!!this.config.publishing?.workflow);
+    editToolbar.onWorkflow(() => this.showWorkflow());
+    editToolbar.onLocaleChange(locale => {
+      this.setLocale(locale).catch(error => console.error('Failed to switch locale:', error));
+    });
+    if (this.locale) {
+      editToolbar.setLocale(this.locale, this.untranslated.size);
+    }
     
     // Clear the ready flag so elements can be re-scanned for edit mode
     const elements = document.querySelectorAll('[data-sight-edit-ready="true"]');
@@ -485,8 +774,15 @@ class SightEditCore extends EventEmitter {
     });
     
     this.scanDocument();
+    this.collaboration?.connect();
+    if (this.config.comments?.enabled) {
+      this.collaborationUI = new CollaborationUI();
+      this.refreshComments();
+    }
+    this.refreshWorkflow();
     this.emit('editModeEntered');
     this.emit('modeChange', 'edit');
+    executeHook<ModeHookContext>('mode:afterChange', { oldMode: 'view', newMode: 'edit' });
     
     if (this.config.debug) {
       console.log('[SightEdit] Edit mode entered, active editors:', this.activeEditors.size);
@@ -494,16 +790,22 @@ class SightEditCore extends EventEmitter {
   }
 
   exitEditMode(): void {
-    if (this.mode === 'view') return;
+    if (this.mode === 'view' || !this.canChangeMode('view')) return;
     
-    // Check for unsaved changes
+    // Check for unsaved changes; edit mode stays on until they're discarded
     if (changeTracker.hasChanges()) {
-      const confirmExit = confirm(`You have ${changeTracker.getChangeCount()} unsaved changes. Do you want to discard them?`);
-      if (!confirmExit) {
-        return; // Don't exit if user cancels
-      }
-      // Discard changes
-      changeTracker.discardAll();
+      confirmAction({
+        message: t('toolbar.confirmExit', { count: changeTracker.getChangeCount() }),
+        variant: 'danger'
+      }).then(confirmExit => {
+        if (!confirmExit || this.mode === 'view') {
+          return; // Don't exit if user cancels
+        }
+        // Discard changes
+        changeTracker.discardAll();
+        this.doExitEditMode();
+      });
+      return;
     }
     
     this.doExitEditMode();
@@ -517,15 +819,31 @@ class SightEditCore extends EventEmitter {
     editToolbar.destroy();
     
     // Clean up active editors
-    this.activeEditors.forEach((editor) => {
+    this.activeEditors.forEach((editor, element) => {
+      const context: EditorHookContext = {
+        element,
+        sight: editor.sight || element.dataset.sight || '',
+        type: (editor.type || element.dataset.sightType || 'text') as ElementType,
+        editor
+      };
       try {
+        executeHookSync('editor:beforeDestroy', context);
         editor.destroy();
+        executeHookSync('editor:afterDestroy', context);
       } catch (error) {
         console.warn('Error destroying editor:', error);
       }
     });
     
     this.activeEditors.clear();
+    this.collaborativeEditors.clear();
+    document.querySelectorAll<HTMLElement>('.sight-computed').forEach(element => {
+      element.classList.remove('sight-computed');
+      element.removeAttribute('aria-readonly');
+    });
+    this.collaboration?.disconnect();
+    this.collaborationUI?.destroy();
+    this.collaborationUI = null;
     
     // Clear ready flags so elements can be re-scanned next time
     const elements = document.querySelectorAll('[data-sight-edit-ready="true"]');
@@ -535,6 +853,7 @@ class SightEditCore extends EventEmitter {
     
     this.emit('editModeExited');
     this.emit('modeChange', 'view');
+    executeHook<ModeHookContext>('mode:afterChange', { oldMode: 'edit', newMode: 'view' });
     
     if (this.config.debug) {
       console.log('[SightEdit] Edit mode exited');
@@ -553,27 +872,91 @@ class SightEditCore extends EventEmitter {
     return this.mode === 'edit';
   }
 
+  /**
+   * Asks mode:beforeChange hooks. They run synchronously so switching modes stays
+   * synchronous; async handlers are skipped.
+   */
+  private canChangeMode(newMode: 'view' | 'edit'): boolean {
+    const context = executeHookSync<ModeHookContext>('mode:beforeChange', { oldMode: this.mode, newMode });
+    if (context.cancel) {
+      this.emit('modeChangeCancelled', { mode: newMode, reason: context.reason });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The schema published for a sight, cached for `schemaRegistry.ttl` (5 minutes by
+   * default) unless `cache` is false. Null without a schemaRegistry or a published schema.
+   */
+  private async loadStoredSchema(sight: string): Promise<any | null> {
+    const registry = this.config.schemaRegistry;
+    if (!registry || !sight) {
+      return null;
+    }
+
+    const cached = this.storedSchemas.get(sight);
+    if (cached && registry.cache !== false && Date.now() - cached.loadedAt < (registry.ttl ?? 5 * 60 * 1000)) {
+      return cached.schema;
+    }
+
+    try {
+      const stored = await this.api.fetchStoredSchema(sight);
+      this.storedSchemas.set(sight, { schema: stored ? stored.schema : null, loadedAt: Date.now() });
+      return stored ? stored.schema : null;
+    } catch (error) {
+      console.warn('Failed to load the published schema, using the markup:', sight, error);
+      return cached ? cached.schema : null;
+    }
+  }
+
   async save(data: Partial<SaveData>): Promise<SaveResponse> {
-    const saveData: SaveData = {
-      sight: data.sight!,
-      value: data.value,
-      type: data.type || 'text' as ElementType,
-      id: data.id,
-      context: data.context,
-      timestamp: Date.now()
-    };
+    const type = data.type || 'text' as ElementType;
+    const locale = data.locale ?? this.locale;
+    const value = await getGlobalPipeline().applyOutputTransforms(
+      data.value,
+      data.sight!,
+      type,
+      undefined,
+      locale ? { locale } : undefined
+    );
+
+    // Hooks see what is about to be sent, and can rewrite or refuse it
+    const saving = await executeHook<SaveHookContext>('save:before', {
+      data: {
+        sight: data.sight!,
+        value,
+        type,
+        id: data.id,
+        context: data.context,
+        timestamp: Date.now(),
+        expectedVersion: data.expectedVersion,
+        locale
+      }
+    });
+    if (saving.cancel) {
+      throw new HookCancelledError('save:before', saving.reason, { sight: data.sight });
+    }
+    const saveData = saving.data;
 
     try {
       this.emit('beforeSave', saveData);
       
       const response = await this.api.save(saveData);
       
+      if (typeof response.version === 'number' && !response.queued) {
+        changeTracker.setVersion(saveData.sight, response.version);
+      }
+      
       this.emit('afterSave', response);
       
       if (this.config.onSave) {
         this.config.onSave(saveData);
       }
       
+      await executeHook<SaveHookContext>('save:success', { data: saveData, response });
+      await executeHook<SaveHookContext>('save:after', { data: saveData, response });
+      
       return response;
     } catch (error) {
       console.error('Save operation failed:', error);
@@ -584,10 +967,363 @@ class SightEditCore extends EventEmitter {
         this.config.onError(error as Error);
       }
       
+      await executeHook<SaveHookContext>('save:error', { data: saveData, error: error as Error });
+      await executeHook<SaveHookContext>('save:after', { data: saveData, error: error as Error });
+      
       throw error;
     }
   }
 
+  /**
+   * Load stored values from the server into the data-sight elements under root.
+   * Elements with unsaved local changes are left untouched.
+   */
+  async hydrate(root: HTMLElement = document.body): Promise<number> {
+    const detectedElements = this.detectElements(root);
+
+    if (detectedElements.length === 0) {
+      return 0;
+    }
+
+    // Group by record so each request maps to one set of storage keys
+    const groups = new Map<string, DetectedElement[]>();
+    detectedElements.forEach(detected => {
+      const recordId = detected.context?.recordId || '';
+      const group = groups.get(recordId) || [];
+      group.push(detected);
+      groups.set(recordId, group);
+    });
+
+    let hydrated = 0;
+
+    for (const [recordId, group] of groups) {
+      try {
+        const entries = await this.api.fetchMany(
+          group.map(detected => detected.sight),
+          {
+            ...(recordId ? { recordId } : {}),
+            // Editors see their pending drafts, visitors only published content
+            ...(this.mode === 'edit' && this.config.publishing?.drafts ? { draft: true } : {}),
+            ...(this.locale ? { locale: this.locale } : {})
+          }
+        );
+        const bySight = new Map(entries.map(entry => [entry.sight, entry]));
+
+        for (const detected of group) {
+          const entry = bySight.get(detected.sight);
+          if (this.locale) {
+            this.trackTranslation(detected, entry);
+          }
+          if (!entry) {
+            // Back to what the page was rendered with, rather than another locale's value
+            if (this.markupValues.has(detected.element) && !changeTracker.getChange(detected.sight)) {
+              this.applyStoredValue(detected, this.markupValues.get(detected.element));
+            }
+            continue;
+          }
+
+          changeTracker.setVersion(entry.sight, entry.version);
+          if (changeTracker.getChange(detected.sight)) continue;
+
+          if (this.applyStoredValue(detected, await this.transformInput(detected, entry.value))) {
+            hydrated++;
+          }
+        }
+      } catch (error) {
+        console.error('Failed to hydrate content:', error);
+        this.emit('hydrateError', error);
+      }
+    }
+
+    await this.updateComputed(null, false);
+    this.emit('hydrated', { count: hydrated, ...(this.locale ? { locale: this.locale } : {}) });
+    
+    if (this.locale) {
+      editToolbar.setLocale(this.locale, this.untranslated.size);
+      if (this.untranslated.size > 0) {
+        this.emit('missingTranslations', { locale: this.locale, sights: Array.from(this.untranslated) });
+      }
+    }
+
+    if (this.config.debug) {
+      console.log('[SightEdit] Hydrated elements:', hydrated);
+    }
+
+    return hydrated;
+  }
+
+  private detectElements(root: HTMLElement): DetectedElement[] {
+    const detectedElements: DetectedElement[] = [];
+
+    root.querySelectorAll<HTMLElement>('[data-sight]').forEach(element => {
+      const detected = ElementDetector.detectElement(element);
+      if (detected) detectedElements.push(detected);
+    });
+    root.querySelectorAll<HTMLElement>('[data-sightedit]').forEach(element => {
+      const detected = ElementDetector.detectElementNewFormat(element);
+      if (detected) detectedElements.push(detected);
+    });
+
+    return detectedElements;
+  }
+
+  private applyStoredValue(detected: DetectedElement, value: any): boolean {
+    const activeEditor = this.activeEditors.get(detected.element);
+    if (activeEditor) {
+      activeEditor.setValue(value);
+      return true;
+    }
+
+    const EditorClass = this.editors.get(detected.type);
+    if (!EditorClass) {
+      return false;
+    }
+
+    try {
+      const editor = new EditorClass(detected.element, {
+        mode: detected.mode,
+        schema: detected.schema || {},
+        sight: detected.sight
+      } as any);
+      editor.applyValue(value);
+      editor.destroy();
+      return true;
+    } catch (error) {
+      console.warn('Failed to apply stored value:', detected.sight, error);
+      return false;
+    }
+  }
+
+  /**
+   * Shows a value on its element. Values as stored on the server pass through the
+   * input transforms first; `stored` is false for values the user merged.
+   */
+  private async applyServerValue(element: HTMLElement | undefined, value: any, stored: boolean = true): Promise<void> {
+    if (!element) return;
+    
+    const detected = ElementDetector.detectElement(element) || ElementDetector.detectElementNewFormat(element);
+    if (detected) {
+      this.applyStoredValue(detected, stored ? await this.transformInput(detected, value) : value);
+    }
+    element.classList.remove('sight-changed');
+  }
+
+  /**
+   * A value loaded from the server, through the input transforms of the global pipeline
+   */
+  private transformInput(detected: DetectedElement, value: any): Promise<any> {
+    return getGlobalPipeline().applyInputTransforms(
+      value,
+      detected.sight,
+      detected.type,
+      this.locale ? { locale: this.locale } : undefined
+    );
+  }
+
+  private getDefaultLocale(): string {
+    const localization = this.config.localization!;
+    return localization.defaultLocale || localization.locales[0];
+  }
+
+  /**
+   * Content locale being shown and edited, undefined without localization
+   */
+  getLocale(): string | undefined {
+    return this.locale;
+  }
+
+  /**
+   * Switch the language of the editor UI (toolbar, modals and messages). This is
+   * separate from the content locale set with `setLocale`.
+   */
+  setUILocale(locale: string): Promise<void> {
+    return i18n.setLocale(locale);
+  }
+
+  /**
+   * Load every data-sight element in another locale. Unsaved changes belong to the
+   * current locale, so they are discarded first if the user agrees.
+   */
+  async setLocale(locale: string): Promise<boolean> {
+    const localization = this.config.localization;
+    if (!localization || !localization.locales.includes(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    if (locale === this.locale) return true;
+
+    if (changeTracker.hasChanges()) {
+      const confirmSwitch = await confirmAction({
+        message: t('toolbar.confirmLocaleSwitch', { count: changeTracker.getChangeCount(), from: this.locale, to: locale }),
+        variant: 'danger'
+      });
+      if (!confirmSwitch) {
+        editToolbar.setLocale(this.locale!, this.untranslated.size);
+        return false;
+      }
+      changeTracker.discardAll();
+      editToolbar.updateCount(0);
+    }
+
+    const previous = this.locale;
+    this.locale = locale;
+    // Versions are tracked per sight and each locale has its own
+    changeTracker.clearVersions();
+
+    this.emit('localeChange', { locale, previous });
+    await this.hydrate();
+    this.refreshWorkflow();
+    return true;
+  }
+
+  /**
+   * Stored content with no translation in `locale` (the current locale by default)
+   */
+  async getMissingTranslations(locale: string | undefined = this.locale): Promise<MissingTranslation[]> {
+    if (!this.locale) {
+      throw new Error('Localization is not configured');
+    }
+    return this.api.getMissingTranslations(locale && locale !== this.getDefaultLocale() ? { locale } : {});
+  }
+
+  /**
+   * Source for the "translate from" view: the same sight in the default locale
+   */
+  private createTranslationSource(detected: DetectedElement): TranslationSource | undefined {
+    if (!this.locale) return undefined;
+
+    const sourceLocale = this.getDefaultLocale();
+    return {
+      sourceLocale,
+      getLocale: () => this.locale!,
+      getSource: async () => {
+        const entry = await this.api.fetch(detected.sight, {
+          ...(detected.context?.recordId ? { recordId: detected.context.recordId } : {}),
+          ...(this.config.publishing?.drafts ? { draft: true } : {}),
+          locale: sourceLocale
+        });
+        return entry ? entry.value : this.markupValues.get(detected.element);
+      }
+    };
+  }
+
+  /**
+   * Remember the rendered value and flag sights served from a fallback locale
+   */
+  private trackTranslation(detected: DetectedElement, entry: ContentEntry | undefined): void {
+    if (!this.markupValues.has(detected.element)) {
+      const value = this.readElementValue(detected);
+      if (value !== undefined) {
+        this.markupValues.set(detected.element, value);
+      }
+    }
+
+    const untranslated = this.locale !== this.getDefaultLocale() && (!entry || !!entry.fallback);
+    detected.element.classList.toggle('sight-untranslated', untranslated);
+    if (untranslated) {
+      this.untranslated.add(detected.sight);
+    } else {
+      this.untranslated.delete(detected.sight);
+    }
+  }
+
+  /**
+   * Registers the computed field an element declares with `data-sight-computed`, and
+   * `data-sight-persist="true"` to save its value. Elements showing a sight that is
+   * already computed share its field.
+   */
+  private registerComputedElement(detected: DetectedElement): void {
+    const expression = detected.element.dataset.sightComputed;
+    const computed = getGlobalComputedManager();
+    if (!expression || computed.isComputed(detected.sight)) return;
+
+    try {
+      const { dependencies, evaluate } = parseComputedExpression(expression);
+      computed.registerComputed({
+        sight: detected.sight,
+        dependencies,
+        compute: evaluate,
+        persist: detected.element.dataset.sightPersist === 'true'
+      });
+      this.markupComputed.add(detected.sight);
+    } catch (error) {
+      console.error(`[SightEdit] Computed field "${detected.sight}" was not registered:`, (error as Error).message);
+      this.emit('computedError', { sight: detected.sight, error });
+    }
+  }
+
+  /**
+   * Recomputes the fields depending on `changed`, or all of them when it's null, and
+   * shows the results. After edits, fields with `persist` are tracked as changes so
+   * they're saved with them.
+   */
+  private async updateComputed(changed: string[] | null, persist: boolean): Promise<void> {
+    const computed = getGlobalComputedManager();
+    const fields = computed.getComputedFields();
+    if (fields.length === 0) return;
+
+    const detectedElements = this.detectElements(document.body);
+    const bySight = new Map<string, DetectedElement[]>();
+    detectedElements.forEach(detected => {
+      bySight.set(detected.sight, [...(bySight.get(detected.sight) || []), detected]);
+    });
+
+    // Only the values computed fields depend on are read from the page
+    const values: Record<string, any> = {};
+    fields.forEach(sight => computed.getField(sight)!.dependencies.forEach(dependency => {
+      if (dependency in values) return;
+      const change = changeTracker.getChange(dependency);
+      const shown = bySight.get(dependency)?.[0];
+      values[dependency] = change ? change.value : shown ? this.readElementValue(shown) : computed.getCachedValue(dependency);
+    }));
+
+    const updates = changed
+      ? await computed.recomputeDependents(changed, values)
+      : await computed.recomputeAll(values);
+
+    let tracked = false;
+    for (const [sight, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      const targets = bySight.get(sight) || [];
+      const previous = targets[0] ? this.readElementValue(targets[0]) : undefined;
+      targets.forEach(detected => this.applyStoredValue(detected, value));
+
+      if (persist && targets[0] && computed.getField(sight)?.persist && String(previous) !== String(value)) {
+        changeTracker.track(sight, value, previous, targets[0].type, targets[0].element, undefined, this.locale);
+        tracked = true;
+      }
+      this.emit('computed', { sight, value });
+    }
+
+    if (tracked) {
+      editToolbar.updateCount(changeTracker.getChangeCount());
+    }
+  }
+
+  private readElementValue(detected: DetectedElement): any {
+    const activeEditor = this.activeEditors.get(detected.element);
+    if (activeEditor) {
+      return activeEditor.extractValue();
+    }
+
+    const EditorClass = this.editors.get(detected.type);
+    if (!EditorClass) {
+      return undefined;
+    }
+
+    try {
+      const editor = new EditorClass(detected.element, {
+        mode: detected.mode,
+        schema: detected.schema || {},
+        sight: detected.sight
+      } as any);
+      const value = editor.extractValue();
+      editor.destroy();
+      return value;
+    } catch {
+      return undefined;
+    }
+  }
+
   registerEditor(type: string, editor: EditorConstructor): void {
     this.editors.set(type, editor);
     
@@ -621,21 +1357,54 @@ class SightEditCore extends EventEmitter {
     }
   }
 
+  /**
+   * Saves operations one by one. Results follow the operations batch:beforeProcess
+   * hooks returned and carry their sight.
+   */
   async batch(operations: any[]): Promise<any> {
     try {
-      this.emit('beforeBatch', operations);
+      const batch = await executeHook<BatchHookContext>('batch:beforeProcess', {
+        operations: operations.map(operation => operation.data || operation)
+      });
+      if (batch.cancel) {
+        throw new HookCancelledError('batch:beforeProcess', batch.reason);
+      }
+
+      this.emit('beforeBatch', batch.operations);
       
-      const results = [];
-      for (const operation of operations) {
+      const results: any[] = [];
+      for (const [index, operation] of batch.operations.entries()) {
         try {
-          const result = await this.save(operation.data || operation);
-          results.push({ success: true, data: result });
+          const result = await this.save(operation);
+          results.push({ success: true, sight: operation.sight, data: result });
+          await executeHook<BatchHookContext>('batch:itemComplete', {
+            operations: batch.operations,
+            currentIndex: index,
+            currentOperation: operation,
+            results
+          });
         } catch (error) {
-          results.push({ success: false, error: (error as Error).message });
+          results.push({
+            success: false,
+            sight: operation.sight,
+            error: (error as Error).message,
+            conflict: error instanceof ConflictError ? error.conflicts[0] : undefined,
+            errors: error instanceof SchemaValidationError ? error.errors : undefined
+          });
+          await executeHook<BatchHookContext>('batch:itemError', {
+            operations: batch.operations,
+            currentIndex: index,
+            currentOperation: operation,
+            results
+          });
         }
       }
       
-      const batchResult = { success: true, results };
+      const processed = await executeHook<BatchHookContext>('batch:afterProcess', {
+        operations: batch.operations,
+        results
+      });
+      const batchResult = { success: true, results: processed.results ?? results };
       this.emit('afterBatch', batchResult);
       return batchResult;
     } catch (error) {
@@ -649,14 +1418,25 @@ class SightEditCore extends EventEmitter {
     if (this.initialized) return;
     
     try {
+      this.setupI18n();
       this.registerBuiltInEditors();
+      this.setupCollaboration();
       this.setupEventListeners();
+      this.on('change', ({ sight }: { sight: string }) => {
+        this.updateComputed([sight], true).catch(error => console.error('Failed to update computed fields:', error));
+      });
       this.loadPlugins();
       this.scanDocument();
       this.setupMutationObserver();
       
       this.initialized = true;
       
+      if (this.config.hydrate) {
+        this.hydrate().catch(error => {
+          console.error('Initial hydration failed:', error);
+        });
+      }
+      
       if (this.config.debug) {
         console.log('SightEdit initialized successfully', {
           config: this.config,
@@ -689,13 +1469,93 @@ class SightEditCore extends EventEmitter {
           this.registerEditor(type, EditorClass as any);
         });
       }
+
+      if (plugin.hooks) {
+        this.registerPluginHooks(plugin.hooks);
+      }
       
       if (this.config.debug) {
         console.log(`Plugin loaded: ${plugin.name} v${plugin.version}`);
       }
+      executeHookSync<PluginHookContext>('plugin:loaded', { name: plugin.name, version: plugin.version, plugin });
     } catch (error) {
       console.error(`Failed to load plugin: ${plugin.name}`, error);
+      executeHookSync<PluginHookContext>('plugin:error', {
+        name: plugin.name,
+        version: plugin.version,
+        plugin,
+        error: error as Error
+      });
+    }
+  }
+
+  /**
+   * Runs the `hooks` of a plugin at the matching lifecycle events
+   */
+  private registerPluginHooks(hooks: Hooks): void {
+    const { beforeSave, afterSave, beforeEdit, afterEdit } = hooks;
+
+    if (beforeSave) {
+      hookManager.register({
+        event: 'save:before',
+        handler: async (context: SaveHookContext) => {
+          context.data = await beforeSave(context.data);
+        }
+      });
+    }
+    if (afterSave) {
+      hookManager.register({
+        event: 'save:success',
+        handler: (context: SaveHookContext) => {
+          if (context.response) afterSave(context.response);
+        }
+      });
     }
+    if (beforeEdit) {
+      hookManager.register({
+        event: 'editor:beforeRender',
+        handler: (context: EditorHookContext) => {
+          if (beforeEdit(context.element) === false) {
+            context.cancel = true;
+          }
+        }
+      });
+    }
+    if (afterEdit) {
+      hookManager.register({
+        event: 'value:afterChange',
+        handler: (context: ValueHookContext) => {
+          afterEdit(context.element, context.newValue);
+        }
+      });
+    }
+  }
+
+  /**
+   * Shows `field.compute` of its dependencies in the field's elements, updated as they
+   * are edited. Throws a CircularDependencyError when fields would depend on each other.
+   */
+  registerComputed(field: ComputedField): void {
+    getGlobalComputedManager().registerComputed(field);
+    this.markupComputed.delete(field.sight);
+
+    // Elements already being edited become read-only
+    this.activeEditors.forEach((editor, element) => {
+      if (element.dataset.sight !== field.sight) return;
+      editor.destroy();
+      this.activeEditors.delete(element);
+      element.classList.add('sight-computed');
+      element.setAttribute('aria-readonly', 'true');
+    });
+
+    this.updateComputed(null, false).catch(error => {
+      console.error('Failed to compute field:', field.sight, error);
+    });
+  }
+
+  unregisterComputed(sight: string): void {
+    getGlobalComputedManager().unregisterComputed(sight);
+    this.markupComputed.delete(sight);
   }
 
   refresh(): void {
@@ -704,6 +1564,8 @@ class SightEditCore extends EventEmitter {
 
   destroy(): void {
     this.exitEditMode();
+    this.markupComputed.forEach(sight => getGlobalComputedManager().unregisterComputed(sight));
+    this.markupComputed.clear();
     
     if (this.observer) {
       this.observer.disconnect();
@@ -737,21 +1599,63 @@ class SightEditCore extends EventEmitter {
           sight: change.sight,
           value: change.value,
           type: change.type,
-          timestamp: change.timestamp
+          timestamp: change.timestamp,
+          expectedVersion: change.version,
+          context: { page: this.getPagePath() },
+          locale: change.locale ?? this.locale
         }
       }));
       
       try {
-        await this.batch(operations);
+        const batchResult = await this.batch(operations);
+        const conflicts: VersionConflict[] = [];
+        const invalid: FieldError[] = [];
+        let saved = 0;
+        let lastError: string | undefined;
         
-        // Clear tracked changes after successful save
-        changeTracker.clearAll();
-        editToolbar.updateCount(0);
+        // Only clear what the server accepted; failed changes stay pending
+        batchResult.results.forEach((result: any) => {
+          // Hooks may have dropped or reordered operations
+          const change = changes.find(candidate => candidate.sight === result.sight);
+          if (!change) return;
+          if (result.success) {
+            changeTracker.clearChange(change.sight);
+            change.element?.classList.remove('sight-edit-error');
+            change.element?.removeAttribute('data-sight-error');
+            saved++;
+          } else if (result.conflict) {
+            conflicts.push(result.conflict);
+          } else {
+            if (result.errors) {
+              invalid.push(...result.errors);
+              this.showFieldErrors(change.element, result.errors);
+            }
+            lastError = result.error;
+          }
+        });
         
-        this.emit('batchSaved', changes.length);
+        editToolbar.updateCount(changeTracker.getChangeCount());
+        
+        if (saved > 0) {
+          this.emit('batchSaved', saved);
+          // Saving sends reviewed drafts back to the draft stage
+          this.refreshWorkflow();
+        }
         
         if (this.config.debug) {
-          console.log(`[SightEdit] Successfully saved ${changes.length} changes`);
+          console.log(`[SightEdit] Successfully saved ${saved} of ${changes.length} changes`);
+        }
+        
+        if (invalid.length > 0) {
+          this.emit('validationError', invalid);
+        }
+        
+        if (lastError && this.config.onError) {
+          this.config.onError(new Error(lastError));
+        }
+        
+        if (conflicts.length > 0) {
+          await this.resolveConflicts(conflicts);
         }
       } catch (error) {
         console.error('Batch save failed:', error);
@@ -764,10 +1668,472 @@ class SightEditCore extends EventEmitter {
     }
   }
   
+  /**
+   * Show the server's schema errors on the element, through its editor when it is open
+   */
+  private showFieldErrors(element: HTMLElement | undefined, errors: FieldError[]): void {
+    if (!element) return;
+    
+    const message = errors.map(error => error.field ? `${error.field}: ${error.message}` : error.message).join('\n');
+    const editor = this.activeEditors.get(element) as (Editor & { showError?: (message: string) => void }) | undefined;
+    if (editor?.showError) {
+      editor.showError(message);
+    } else {
+      element.classList.add('sight-edit-error');
+      element.setAttribute('data-sight-error', message);
+    }
+  }
+  
+  /**
+   * Ask how to resolve stale saves, then retry the ones the user wants to keep
+   */
+  private async resolveConflicts(conflicts: VersionConflict[]): Promise<void> {
+    this.emit('conflict', conflicts);
+    
+    const decisions: ConflictDecision[] | null = this.config.onConflict
+      ? await this.config.onConflict(conflicts)
+      : await conflictDialog.open(conflicts.map(conflict => {
+          const change = changeTracker.getChange(conflict.sight);
+          return {
+            conflict,
+            mine: change?.value,
+            original: change?.originalValue
+          };
+        }));
+    
+    // Cancelled: leave the changes pending so nothing is lost
+    if (!decisions) return;
+    
+    let retry = false;
+    
+    for (const { conflict, resolution, value } of decisions) {
+      const change = changeTracker.getChange(conflict.sight);
+      if (!change) continue;
+      
+      if (resolution === 'theirs') {
+        changeTracker.clearChange(conflict.sight);
+        changeTracker.setVersion(conflict.sight, conflict.currentVersion);
+        await this.applyServerValue(change.element, value);
+      } else {
+        changeTracker.rebase(conflict.sight, value, conflict.currentVersion);
+        if (resolution === 'merge') {
+          await this.applyServerValue(change.element, value, false);
+        }
+        retry = true;
+      }
+    }
+    
+    editToolbar.updateCount(changeTracker.getChangeCount());
+    this.emit('conflictResolved', decisions);
+    
+    if (retry) {
+      await this.saveAllChanges();
+    }
+  }
+  
+  /**
+   * Promote drafts to published content
+   */
+  async publish(target: PublishTarget): Promise<PublishResponse> {
+    try {
+      this.emit('beforePublish', target);
+      
+      const response = await this.api.publish(target);
+      
+      this.emit('published', response);
+      return response;
+    } catch (error) {
+      console.error('Publish operation failed:', error);
+      
+      this.emit('publishError', error);
+      
+      if (this.config.onError) {
+        this.config.onError(error as Error);
+      }
+      
+      throw error;
+    }
+  }
+  
+  /**
+   * Save pending changes as drafts, then publish every draft on this page
+   */
+  async publishAllChanges(): Promise<void> {
+    await this.saveAllChanges();
+    
+    // Unsaved changes mean a failed save or an unresolved conflict
+    if (changeTracker.hasChanges()) {
+      console.warn('[SightEdit] Publish skipped: some changes could not be saved');
+      return;
+    }
+    
+    try {
+      await this.publish(this.getPageScope());
+    } catch (error) {
+      // Reported through publishError / onError; unapproved changes are also shown to the editor
+      if (this.config.publishing?.workflow && error instanceof ConflictError) {
+        this.notifyWorkflow('warning', error.message);
+      }
+    }
+    this.refreshWorkflow();
+  }
+  
+  /**
+   * Submit, approve or reject the drafts on this page (or a given target). Pending
+   * changes are saved before they are submitted for review.
+   */
+  async reviewChanges(action: WorkflowAction, comment: string = '', target?: PublishTarget): Promise<WorkflowResponse> {
+    const scope = target ?? this.getPageScope();
+    try {
+      if (action === 'submit') {
+        await this.saveAllChanges();
+        if (changeTracker.hasChanges()) {
+          throw new Error(t('workflow.unsaved'));
+        }
+      }
+      
+      const response = action === 'submit'
+        ? await this.api.submitForReview(scope, comment || undefined)
+        : action === 'approve'
+          ? await this.api.approveChanges(scope, comment || undefined)
+          : await this.api.rejectChanges(scope, comment);
+      
+      // The user's own transitions don't need a notice when the stages reload
+      response.items.forEach(item => this.workflowSeen.add(workflowSeenKey(item)));
+      this.notifyWorkflow('success', t(`workflow.done.${action}`, { count: response.items.length }));
+      this.emit('workflowChanged', { action, items: response.items });
+      return response;
+    } catch (error) {
+      console.error('Workflow operation failed:', error);
+      
+      this.emit('workflowError', error);
+      
+      if (this.config.onError) {
+        this.config.onError(error as Error);
+      }
+      
+      throw error;
+    } finally {
+      this.refreshWorkflow();
+    }
+  }
+  
+  /**
+   * Open the review panel for the drafts on this page
+   */
+  showWorkflow(): void {
+    if (!this.workflowPanel) {
+      this.workflowPanel = new WorkflowPanel(this.api);
+    }
+    
+    this.workflowPanel.open({
+      page: this.getPagePath(),
+      ...(this.locale ? { locale: this.locale } : {}),
+      onAction: (action, comment) => this.reviewChanges(action, comment)
+    });
+  }
+  
+  /**
+   * Reloads the review stage shown in the toolbar, and the panel if it is open.
+   * Changes that newly await the user's review, or came back rejected, are announced.
+   */
+  async refreshWorkflow(): Promise<void> {
+    if (!this.config.publishing?.workflow || this.mode !== 'edit') return;
+    this.workflowPanel?.refresh();
+    
+    let status: WorkflowStatus;
+    try {
+      status = await this.api.getWorkflow(this.getPageScope());
+    } catch (error) {
+      console.error('Failed to load review status:', error);
+      return;
+    }
+    // Edit mode may have ended while loading
+    if (this.mode !== 'edit') return;
+    
+    editToolbar.setWorkflowStage(pageStage(status));
+    this.emit('workflowStatus', status);
+    
+    const fresh = status.items.filter(item => {
+      const seen = workflowSeenKey(item);
+      if (this.workflowSeen.has(seen)) return false;
+      this.workflowSeen.add(seen);
+      return true;
+    });
+    const awaiting = fresh.filter(item => item.actions.includes('approve'));
+    const rejected = fresh.filter(item => item.stage === 'rejected');
+    if (awaiting.length > 0) {
+      this.notifyWorkflow('info', t('workflow.awaitingReview', { count: awaiting.length }));
+    }
+    if (rejected.length > 0) {
+      const reason = rejected[0].history[rejected[0].history.length - 1]?.comment;
+      this.notifyWorkflow('warning', [t('workflow.rejectedNotice', { count: rejected.length }), reason].filter(Boolean).join(' — '));
+    }
+  }
+  
+  private notifyWorkflow(type: 'success' | 'info' | 'warning', message: string): void {
+    if (typeof document === 'undefined') return;
+    // init() adds a new container on every call
+    if (!document.getElementById('sightedit-notifications')) {
+      notifications.init();
+    }
+    notifications[type](message, { title: t('workflow.title') });
+  }
+  
+  /**
+   * Publish drafts and/or take published content offline at a later time
+   */
+  async schedule(target: ScheduleTarget): Promise<ContentSchedule[]> {
+    try {
+      this.emit('beforeSchedule', target);
+      
+      const { schedules } = await this.api.schedule(target);
+      
+      this.emit('scheduled', schedules);
+      return schedules;
+    } catch (error) {
+      console.error('Schedule operation failed:', error);
+      
+      this.emit('scheduleError', error);
+      
+      if (this.config.onError) {
+        this.config.onError(error as Error);
+      }
+      
+      throw error;
+    }
+  }
+  
+  /**
+   * Cancel a scheduled publish or expiry that hasn't run yet
+   */
+  async cancelSchedule(id: string): Promise<ContentSchedule> {
+    const schedule = await this.api.cancelSchedule(id);
+    this.emit('scheduleCancelled', schedule);
+    return schedule;
+  }
+  
+  /**
+   * Open the schedule panel for the drafts on this page. Pending changes are
+   * saved as drafts before anything is scheduled.
+   */
+  showSchedules(): void {
+    if (!this.schedulePanel) {
+      this.schedulePanel = new SchedulePanel(this.api);
+    }
+    
+    this.schedulePanel.open({
+      page: this.getPagePath(),
+      ...(this.locale ? { locale: this.locale } : {}),
+      targets: this.getPageTargets(),
+      onSchedule: async target => {
+        await this.saveAllChanges();
+        if (changeTracker.hasChanges()) {
+          throw new Error(t('schedule.unsaved'));
+        }
+        return this.schedule(target);
+      },
+      onCancel: async schedule => {
+        await this.cancelSchedule(schedule.id);
+      }
+    });
+  }
+  
+  /**
+   * Open the comments sidebar. Without an explicit sight or element, text selected in
+   * a rich text field anchors the new thread to that range.
+   */
+  showComments(selected?: string | HTMLElement): void {
+    const targets = this.getPageTargets();
+    const anchor = selected === undefined ? this.getSelectedText() : null;
+    
+    const selectedElement = selected instanceof HTMLElement
+      ? ElementDetector.detectElement(selected) || ElementDetector.detectElementNewFormat(selected)
+      : anchor?.detected ?? null;
+    const selectedSight = typeof selected === 'string' ? selected : selectedElement?.sight;
+    const selectedRecord = selectedElement?.context?.recordId;
+    
+    if (!this.commentsPanel) {
+      this.commentsPanel = new CommentsPanel(this.api);
+    }
+    
+    this.commentsPanel.open({
+      page: this.getPagePath(),
+      targets,
+      selected: targets.find(target =>
+        target.sight === selectedSight && (!selectedElement || target.recordId === selectedRecord)
+      ),
+      ...(anchor ? { range: anchor.range } : {}),
+      userId: this.config.comments?.userId ?? this.config.collaboration?.userId,
+      onChange: (action, thread) => this.commentChanged(action, thread)
+    });
+  }
+  
+  /**
+   * Reloads the comment markers, and the sidebar if it is open
+   */
+  async refreshComments(): Promise<void> {
+    this.commentsPanel?.refresh();
+    
+    const ui = this.collaborationUI;
+    if (!ui) return;
+    
+    let threads: CommentThread[];
+    try {
+      threads = await this.api.getComments({ status: 'open' });
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+      return;
+    }
+    // Edit mode may have ended while loading
+    if (ui !== this.collaborationUI) return;
+    
+    const markers = this.detectElements(document.body).map(detected => ({
+      element: detected.element,
+      sight: detected.sight,
+      ...(detected.context?.recordId ? { recordId: detected.context.recordId } : {}),
+      open: threads.filter(thread =>
+        thread.sight === detected.sight && thread.recordId === detected.context?.recordId
+      ).length
+    }));
+    ui.showCommentMarkers(markers, marker => this.showComments(marker.element));
+  }
+  
+  private commentChanged(action: CommentAction, thread: CommentThread): void {
+    this.collaboration?.sendComment(action, thread);
+    this.emit('comment', { action, thread });
+    this.refreshComments();
+  }
+  
+  /**
+   * The rich text field holding the current text selection, with the selection's
+   * offsets into the field's plain text
+   */
+  private getSelectedText(): { detected: DetectedElement; range: CommentRange } | null {
+    const selection = typeof window !== 'undefined' ? window.getSelection() : null;
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+    
+    const range = selection.getRangeAt(0);
+    const container = range.commonAncestorContainer;
+    const field = (container instanceof HTMLElement ? container : container.parentElement)
+      ?.closest<HTMLElement>('[data-sight], [data-sightedit]');
+    if (!field) return null;
+    
+    const detected = ElementDetector.detectElement(field) || ElementDetector.detectElementNewFormat(field);
+    if (!detected || detected.type !== 'richtext') return null;
+    
+    const before = document.createRange();
+    before.selectNodeContents(field);
+    before.setEnd(range.startContainer, range.startOffset);
+    const start = before.toString().length;
+    const quote = range.toString();
+    
+    return { detected, range: { start, end: start + quote.length, quote: quote.slice(0, 1000) } };
+  }
+  
+  /**
+   * One target per sight and record on this page, in the locale being edited
+   */
+  private getPageTargets(): HistoryTarget[] {
+    const targets: HistoryTarget[] = [];
+    this.detectElements(document.body).forEach(detected => {
+      const recordId = detected.context?.recordId;
+      if (!targets.some(target => target.sight === detected.sight && target.recordId === recordId)) {
+        targets.push({
+          sight: detected.sight,
+          ...(recordId ? { recordId } : {}),
+          ...(this.locale ? { locale: this.locale } : {})
+        });
+      }
+    });
+    return targets;
+  }
+  
+  private getPagePath(): string {
+    return typeof window !== 'undefined' ? window.location.pathname : '/';
+  }
+  
+  /**
+   * Every draft on this page in the locale being edited
+   */
+  private getPageScope(): { page: string; locale?: string } {
+    return { page: this.getPagePath(), ...(this.locale ? { locale: this.locale } : {}) };
+  }
+  
+  /**
+   * Open the revision history panel for the sights on this page,
+   * preselecting the given sight or element
+   */
+  showHistory(selected?: string | HTMLElement): void {
+    const targets = this.getPageTargets();
+    
+    const selectedElement = selected instanceof HTMLElement
+      ? ElementDetector.detectElement(selected) || ElementDetector.detectElementNewFormat(selected)
+      : null;
+    const selectedSight = typeof selected === 'string' ? selected : selectedElement?.sight;
+    const selectedRecord = selectedElement?.context?.recordId;
+    
+    if (!this.historyPanel) {
+      this.historyPanel = new HistoryPanel(this.api);
+    }
+    
+    this.historyPanel.open({
+      targets,
+      selected: targets.find(target =>
+        target.sight === selectedSight && (!selectedElement || target.recordId === selectedRecord)
+      ),
+      onRestore: async (target, revision) => {
+        await this.restoreRevision(target, revision.id);
+      }
+    });
+  }
+  
+  /**
+   * Roll a sight back to an earlier revision and show the restored value on the page
+   */
+  async restoreRevision(target: HistoryTarget, revision: number): Promise<RestoreResponse> {
+    try {
+      this.emit('beforeRestore', { ...target, revision });
+      
+      const response = await this.api.restoreRevision(target.sight, revision, {
+        recordId: target.recordId,
+        id: target.id,
+        locale: target.locale,
+        expectedVersion: changeTracker.getVersion(target.sight)
+      });
+      
+      // The restored value replaces any unsaved local edit
+      changeTracker.clearChange(target.sight);
+      changeTracker.setVersion(target.sight, response.version);
+      
+      await Promise.all(this.detectElements(document.body)
+        .filter(detected => detected.sight === target.sight && detected.context?.recordId === target.recordId)
+        .map(detected => this.applyServerValue(detected.element, response.data)));
+      
+      editToolbar.updateCount(changeTracker.getChangeCount());
+      this.emit('revisionRestored', { ...target, revision, response });
+      
+      return response;
+    } catch (error) {
+      console.error('Restore operation failed:', error);
+      
+      this.emit('restoreError', error);
+      
+      if (this.config.onError) {
+        this.config.onError(error as Error);
+      }
+      
+      throw error;
+    }
+  }
+  
   async discardAllChanges(): Promise<void> {
     if (!changeTracker.hasChanges()) return;
     
-    const confirmDiscard = confirm(`Are you sure you want to discard ${changeTracker.getChangeCount()} changes?`);
+    const confirmDiscard = await confirmAction({
+      message: t('toolbar.confirmDiscardAll', { count: changeTracker.getChangeCount() }),
+      variant: 'danger'
+    });
     if (!confirmDiscard) return;
     
     // Restore original values
@@ -776,6 +2142,7 @@ class SightEditCore extends EventEmitter {
     
     // Re-scan to refresh editors
     this.scanDocument();
+    await this.updateComputed(null, false);
     
     this.emit('changesDiscarded');
     
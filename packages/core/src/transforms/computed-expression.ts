@@ -0,0 +1,272 @@
+import { ConfigurationError } from '../utils/error-handler';
+
+/**
+ * A parsed `data-sight-computed` expression
+ */
+export interface ComputedExpression {
+  dependencies: string[];
+  evaluate: (values: Record<string, any>) => any;
+}
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'sight'; sight: string }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'sight'; sight: string }
+  | { kind: 'name'; name: string }
+  | { kind: 'punct'; value: string };
+
+// Longest expression accepted from markup
+const MAX_EXPRESSION_LENGTH = 1000;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  },
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max
+};
+
+/**
+ * Parses an expression like `round({product.price} * (1 + {product.taxRate} / 100), 2)`.
+ * Sights are written in braces; `+ - * / %`, parentheses, numbers, quoted strings and
+ * round, floor, ceil, abs, min and max are supported. Values that read as numbers are
+ * calculated with and `+` joins anything else as text. Nothing is ever run as code.
+ */
+export function parseComputedExpression(expression: string): ComputedExpression {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw invalid(expression, `longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isPunct = (value: string): boolean => {
+    const token = peek();
+    return !!token && token.kind === 'punct' && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!isPunct(value)) {
+      throw invalid(expression, `expected "${value}"`);
+    }
+    position++;
+  };
+
+  const parseSum = (): Node => {
+    let node = parseProduct();
+    while (isPunct('+') || isPunct('-')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): Node => {
+    let node = parseUnary();
+    while (isPunct('*') || isPunct('/') || isPunct('%')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (isPunct('-')) {
+      position++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    if (isPunct('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parseOperand();
+  };
+
+  const parseOperand = (): Node => {
+    const token = tokens[position++];
+    if (!token) {
+      throw invalid(expression, 'unexpected end');
+    }
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+      case 'sight':
+        return token;
+
+      case 'name': {
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.name)) {
+          throw invalid(expression, `unknown function "${token.name}"`);
+        }
+        expect('(');
+        const args: Node[] = [];
+        if (!isPunct(')')) {
+          args.push(parseSum());
+          while (isPunct(',')) {
+            position++;
+            args.push(parseSum());
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.name, args };
+      }
+
+      case 'punct':
+        if (token.value === '(') {
+          const node = parseSum();
+          expect(')');
+          return node;
+        }
+        throw invalid(expression, `unexpected "${token.value}"`);
+    }
+  };
+
+  const tree = parseSum();
+  if (position < tokens.length) {
+    throw invalid(expression, 'unexpected input after the end');
+  }
+
+  const dependencies = new Set<string>();
+  collectSights(tree, dependencies);
+
+  return {
+    dependencies: Array.from(dependencies),
+    evaluate: (values) => {
+      const result = evaluate(tree, values);
+      return typeof result === 'number' && !Number.isFinite(result) ? '' : result;
+    }
+  };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(expression.slice(index));
+      if (!match) {
+        throw invalid(expression, `unexpected "${char}"`);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(match[1]) });
+      index += match[1].length;
+    } else if (char === '{') {
+      const end = expression.indexOf('}', index);
+      const sight = end === -1 ? '' : expression.slice(index + 1, end).trim();
+      if (!sight) {
+        throw invalid(expression, 'sights are written as {sight}');
+      }
+      tokens.push({ kind: 'sight', sight });
+      index = end + 1;
+    } else if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, index + 1);
+      if (end === -1) {
+        throw invalid(expression, 'unterminated string');
+      }
+      tokens.push({ kind: 'string', value: expression.slice(index + 1, end) });
+      index = end + 1;
+    } else if (/[a-z]/i.test(char)) {
+      const name = /^[a-z]+/i.exec(expression.slice(index))![0];
+      tokens.push({ kind: 'name', name });
+      index += name.length;
+    } else if ('+-*/%(),'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char });
+      index++;
+    } else {
+      throw invalid(expression, `unexpected "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+function collectSights(node: Node, sights: Set<string>): void {
+  switch (node.kind) {
+    case 'sight':
+      sights.add(node.sight);
+      break;
+    case 'negate':
+      collectSights(node.operand, sights);
+      break;
+    case 'binary':
+      collectSights(node.left, sights);
+      collectSights(node.right, sights);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectSights(arg, sights));
+      break;
+  }
+}
+
+function evaluate(node: Node, values: Record<string, any>): number | string {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+
+    case 'sight':
+      return operand(values[node.sight]);
+
+    case 'negate':
+      return -toNumber(evaluate(node.operand, values));
+
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => toNumber(evaluate(arg, values))));
+
+    case 'binary': {
+      const left = evaluate(node.left, values);
+      const right = evaluate(node.right, values);
+      if (node.operator === '+') {
+        return isNumeric(left) && isNumeric(right) ? toNumber(left) + toNumber(right) : `${left}${right}`;
+      }
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      switch (node.operator) {
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        default: return a % b;
+      }
+    }
+  }
+}
+
+// Values read from the page are strings; the ones that read as numbers are calculated with
+function operand(value: unknown): number | string {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value === null) return '';
+
+  const text = String(value).trim();
+  const number = Number(text.replace(/,/g, ''));
+  return text && Number.isFinite(number) ? number : text;
+}
+
+// Empty values count as 0 in sums, so an unfilled field doesn't turn a total into text
+function isNumeric(value: number | string): boolean {
+  return typeof value === 'number' || value === '';
+}
+
+function toNumber(value: number | string): number {
+  return typeof value === 'number' ? value : Number(value);
+}
+
+function invalid(expression: string, detail: string): ConfigurationError {
+  return new ConfigurationError(`Invalid computed expression "${expression}": ${detail}`, { expression });
+}
@@ -1,3 +1,5 @@
+import { CircularDependencyError } from '../utils/error-handler';
+
 /**
  * Computed Field Definition
  */
@@ -6,6 +8,7 @@ export interface ComputedField {
   dependencies: string[];
   compute: (values: Record<string, any>) => any | Promise<any>;
   debounce?: number; // Debounce time in ms
+  persist?: boolean; // Save the computed value along with the edits that change it
 }
 
 /**
@@ -19,11 +22,24 @@ export class ComputedFieldManager {
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
 
   /**
-   * Register a computed field
+   * Register a computed field. Throws a CircularDependencyError, and keeps the fields
+   * registered before, when the field would depend on itself.
    */
   registerComputed(field: ComputedField): void {
+    const previous = this.fields.get(field.sight);
     this.fields.set(field.sight, field);
     this.buildDependencyGraph();
+
+    const cycle = this.findCycle();
+    if (cycle) {
+      if (previous) {
+        this.fields.set(field.sight, previous);
+      } else {
+        this.fields.delete(field.sight);
+      }
+      this.buildDependencyGraph();
+      throw new CircularDependencyError(cycle, { sight: field.sight });
+    }
   }
 
   /**
@@ -49,6 +65,13 @@ export class ComputedFieldManager {
     return this.fields.has(sight);
   }
 
+  /**
+   * Get a computed field's definition
+   */
+  getField(sight: string): ComputedField | undefined {
+    return this.fields.get(sight);
+  }
+
   /**
    * Compute a field's value
    */
@@ -132,14 +155,14 @@ export class ComputedFieldManager {
   }
 
   /**
-   * Recompute all fields that depend on changed sights
+   * Recompute all fields that depend on changed sights. Fields are computed after
+   * the fields they depend on, and see their new values.
    */
   async recomputeDependents(
     changedSights: string[],
     allValues: Record<string, any>
   ): Promise<Record<string, any>> {
-    const updates: Record<string, any> = {};
-    const visited = new Set<string>();
+    const affected = new Set<string>();
 
     // BFS to find all affected computed fields
     const queue = [...changedSights];
@@ -147,30 +170,57 @@ export class ComputedFieldManager {
     while (queue.length > 0) {
       const sight = queue.shift()!;
 
-      if (visited.has(sight)) {
-        continue;
+      for (const dependent of this.getDependentFields(sight)) {
+        if (!affected.has(dependent)) {
+          affected.add(dependent);
+          queue.push(dependent);
+        }
       }
+    }
 
-      visited.add(sight);
+    return this.recompute(affected, allValues);
+  }
 
-      // Find fields that depend on this sight
-      const dependents = this.getDependentFields(sight);
+  /**
+   * Recompute every field
+   */
+  async recomputeAll(allValues: Record<string, any>): Promise<Record<string, any>> {
+    return this.recompute(new Set(this.fields.keys()), allValues);
+  }
 
-      for (const dependent of dependents) {
-        if (!visited.has(dependent)) {
-          // Compute new value
-          const newValue = await this.computeValue(dependent, allValues);
-          updates[dependent] = newValue;
+  private async recompute(sights: Set<string>, allValues: Record<string, any>): Promise<Record<string, any>> {
+    const updates: Record<string, any> = {};
+    const values = { ...allValues };
 
-          // Add to queue to check transitive dependencies
-          queue.push(dependent);
-        }
-      }
+    for (const sight of this.dependencyOrder(sights)) {
+      const newValue = await this.computeValue(sight, values);
+      values[sight] = newValue;
+      updates[sight] = newValue;
     }
 
     return updates;
   }
 
+  /**
+   * The given fields, each after the computed fields it depends on
+   */
+  private dependencyOrder(sights: Set<string>): string[] {
+    const ordered: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (sight: string) => {
+      if (visited.has(sight)) return;
+      visited.add(sight);
+      for (const dep of this.dependencyGraph.get(sight) || []) {
+        if (sights.has(dep)) visit(dep);
+      }
+      ordered.push(sight);
+    };
+
+    sights.forEach(visit);
+    return ordered;
+  }
+
   /**
    * Build dependency graph for optimization
    */
@@ -187,40 +237,51 @@ export class ComputedFieldManager {
    * Check for circular dependencies
    */
   hasCircularDependencies(): boolean {
+    return this.findCycle() !== null;
+  }
+
+  /**
+   * The first circular dependency found, as the sights on it ending with the one it
+   * starts with, e.g. `['a', 'b', 'a']`
+   */
+  findCycle(): string[] | null {
     const visited = new Set<string>();
-    const stack = new Set<string>();
+    const path: string[] = [];
 
-    const hasCycle = (sight: string): boolean => {
-      if (stack.has(sight)) {
-        return true; // Circular dependency detected
+    const walk = (sight: string): string[] | null => {
+      const index = path.indexOf(sight);
+      if (index !== -1) {
+        return [...path.slice(index), sight]; // Circular dependency detected
       }
 
       if (visited.has(sight)) {
-        return false;
+        return null;
       }
 
       visited.add(sight);
-      stack.add(sight);
+      path.push(sight);
 
       const deps = this.dependencyGraph.get(sight) || new Set();
 
       for (const dep of deps) {
-        if (hasCycle(dep)) {
-          return true;
+        const cycle = walk(dep);
+        if (cycle) {
+          return cycle;
         }
       }
 
-      stack.delete(sight);
-      return false;
+      path.pop();
+      return null;
     };
 
     for (const sight of this.fields.keys()) {
-      if (hasCycle(sight)) {
-        return true;
+      const cycle = walk(sight);
+      if (cycle) {
+        return cycle;
       }
     }
 
-    return false;
+    return null;
   }
 
   /**
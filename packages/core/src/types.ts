@@ -1,3 +1,5 @@
+import type { TextOperation } from './collaboration/text-operation';
+
 export interface SightEditConfig {
   endpoint: string;
   apiKey?: string;
@@ -6,12 +8,26 @@ export interface SightEditConfig {
   plugins?: Plugin[];
   theme?: ThemeConfig;
   debug?: boolean;
-  locale?: string;
-  translations?: Record<string, string>;
+  locale?: string; // UI language, e.g. 'de' or 'ar'; bundled catalogs load on demand
+  translations?: Record<string, string>; // UI message overrides by key, e.g. { 'toolbar.publish': 'Go live' }
+  loadTranslations?: (locale: string) => Promise<Record<string, string> | null | undefined>; // Catalogs for other UI languages
   onSave?: (data: SaveData) => void | Promise<void>;
   onChange?: (data: any) => void | Promise<void>;
   onError?: (error: Error) => void;
+  onConflict?: (conflicts: VersionConflict[]) => ConflictDecision[] | null | Promise<ConflictDecision[] | null>;
   editModeKey?: string;
+  hydrate?: boolean;
+  publishing?: {
+    drafts?: boolean; // Saves create drafts; the toolbar offers Save Draft / Publish
+    canPublish?: boolean; // Show the Publish action (the server still checks content:publish)
+    canSchedule?: boolean; // Show the Schedule action for timed publishing and expiry (server needs `schedules`)
+    workflow?: boolean; // Changes pass review stages before they can be published (server needs `workflow`)
+  };
+  comments?: {
+    enabled?: boolean; // Comment markers and the Comments sidebar in edit mode (server needs `comments`)
+    userId?: string; // Current user, who may delete their own threads; defaults to collaboration.userId
+  };
+  localization?: LocalizationConfig;
   schemaRegistry?: {
     endpoint?: string;
     cache?: boolean;
@@ -32,6 +48,7 @@ export interface SightEditConfig {
     userAvatar?: string;
     reconnectInterval?: number;
     maxReconnectAttempts?: number;
+    authToken?: string;
   };
   sentry?: {
     dsn: string;
@@ -264,6 +281,7 @@ export interface DetectedElement {
 
 export interface ElementContext {
   recordId?: string;
+  page?: string;
   pageType?: string;
   section?: string;
   index?: number;
@@ -298,6 +316,16 @@ export interface ElementSchema {
   includeTime?: boolean;
 }
 
+/**
+ * A schema published to the server, e.g. from the admin panel
+ */
+export interface StoredSchema {
+  sight: string;
+  schema: ElementSchema | any; // Allow advanced schemas as well
+  version: number;
+  updatedAt?: string;
+}
+
 export interface Editor {
   element: HTMLElement;
   value: any;
@@ -323,6 +351,15 @@ export interface Editor {
   type?: string;
 }
 
+/**
+ * Implemented by editors whose text several people can edit at once. The editor emits
+ * `input` on every local change and applies remote operations without moving the caret.
+ */
+export interface CollaborativeTextEditor {
+  getCollaborativeText(): string;
+  applyRemoteOperation(operation: TextOperation): void;
+}
+
 export interface EditorConfig {
   mode?: EditMode;
   schema?: ElementSchema | any; // Allow advanced schemas as well
@@ -331,6 +368,27 @@ export interface EditorConfig {
   a11y?: any; // AccessibilityManager instance
   sight?: string; // For legacy compatibility
   type?: string; // For type metadata
+  media?: MediaLibrarySource; // Enables the media library in image and file editors
+  translation?: TranslationSource; // Enables the "translate from" view in text editors
+}
+
+/**
+ * Content locales. The page starts in `locale` when it is one of `locales`, otherwise in
+ * the default, and editors can switch between them from the toolbar.
+ */
+export interface LocalizationConfig {
+  locales: string[];
+  defaultLocale?: string; // Defaults to the first locale; must match the server's default
+  labels?: Record<string, string>; // Names shown in the locale switcher
+}
+
+/**
+ * Lets an editor show the value it is translating from
+ */
+export interface TranslationSource {
+  sourceLocale: string;
+  getLocale(): string; // Locale being edited; it can change while the editor exists
+  getSource(): Promise<any>; // Value in the source locale, undefined when there is none
 }
 
 export type EditorOptions = EditorConfig;
@@ -348,6 +406,8 @@ export interface SaveData {
   timestamp?: number;
   previous?: any; // Previous value for undo functionality
   skipHistory?: boolean; // Skip adding to history
+  expectedVersion?: number; // Version the edit started from, checked by the server
+  locale?: string; // Content locale, the server's default when omitted
 }
 
 export interface SaveResponse {
@@ -356,6 +416,8 @@ export interface SaveResponse {
   error?: string;
   version?: number;
   queued?: boolean;
+  status?: 'draft' | 'published';
+  warnings?: FieldError[]; // e.g. the sight has no schema on the server
 }
 
 export interface BatchOperation {
@@ -363,10 +425,356 @@ export interface BatchOperation {
   data: SaveData;
 }
 
+export interface BatchOptions {
+  atomic?: boolean; // Server applies every operation or none of them
+}
+
 export interface BatchResponse {
   success: boolean;
   results: SaveResponse[];
   error?: string;
+  atomic?: boolean;
+  rolledBack?: boolean;
+}
+
+/**
+ * A value the server refused because it breaks a rule of the sight's schema.
+ * `field` is set for a field of an object value, `index` for an operation of a batch.
+ */
+export interface FieldError {
+  sight: string;
+  field?: string;
+  rule: string;
+  message: string;
+  index?: number;
+}
+
+export interface VersionConflict {
+  sight: string;
+  key?: string;
+  expectedVersion?: number;
+  currentVersion: number | null;
+  currentValue: any;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export interface ConflictDecision {
+  conflict: VersionConflict;
+  resolution: ConflictResolution;
+  value: any; // Value to keep: local, server or merged
+}
+
+export interface ContentEntry {
+  key: string;
+  sight: string;
+  value: any;
+  type: ElementType;
+  id?: string;
+  context?: ElementContext;
+  version?: number;
+  status?: 'draft' | 'published';
+  publishedAt?: string;
+  locale?: string;
+  fallback?: boolean; // No translation in the requested locale, the value comes from a fallback
+}
+
+export interface FetchOptions {
+  recordId?: string;
+  id?: string;
+  draft?: boolean; // Prefer the pending draft over the published value
+  locale?: string;
+}
+
+export interface PublishItem {
+  sight: string;
+  recordId?: string;
+  id?: string;
+  locale?: string;
+}
+
+export type PublishTarget = PublishItem | { items: PublishItem[] } | { page: string; locale?: string };
+
+/**
+ * When scheduled content goes live and/or is taken offline again; at least one is required
+ */
+export interface ScheduleTimes {
+  publishAt?: Date | string | number;
+  expireAt?: Date | string | number;
+}
+
+export type ScheduleTarget = PublishTarget & ScheduleTimes;
+
+export interface ContentSchedule {
+  id: string;
+  action: 'publish' | 'expire';
+  keys: string[];
+  sights: string[];
+  runAt: string;
+  status: 'scheduled' | 'running' | 'done' | 'failed' | 'cancelled';
+  createdAt: string;
+  createdBy?: { id: string; name?: string };
+  completedAt?: string;
+  cancelledBy?: { id: string; name?: string };
+  applied?: string[];
+  missing?: string[];
+  unapproved?: string[];
+  error?: string;
+}
+
+export interface ScheduleResponse {
+  success: boolean;
+  schedules: ContentSchedule[];
+  error?: string;
+}
+
+export interface ScheduleQuery {
+  status?: ContentSchedule['status'];
+  sight?: string;
+}
+
+export interface CommentUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Character offsets into the plain text of a rich text field, plus the text they covered
+ */
+export interface CommentRange {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+export interface ThreadComment {
+  id: string;
+  author?: { id: string; name?: string };
+  body: string;
+  mentions: CommentUser[];
+  createdAt: string;
+}
+
+export interface CommentThread {
+  id: string;
+  key: string;
+  sight: string;
+  recordId?: string;
+  locale?: string;
+  range?: CommentRange;
+  page?: string;
+  status: 'open' | 'resolved';
+  comments: ThreadComment[];
+  createdAt: string;
+  createdBy?: { id: string; name?: string };
+  updatedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: { id: string; name?: string };
+}
+
+export interface NewComment {
+  sight: string;
+  recordId?: string;
+  id?: string;
+  locale?: string;
+  range?: CommentRange;
+  page?: string;
+  body: string;
+  mentions?: string[]; // User ids
+}
+
+export interface CommentQuery {
+  sight?: string;
+  recordId?: string;
+  page?: string;
+  status?: CommentThread['status'];
+}
+
+export type CommentAction = 'created' | 'replied' | 'resolved' | 'reopened' | 'deleted';
+
+export type WorkflowAction = 'submit' | 'approve' | 'reject';
+
+export interface WorkflowTransition {
+  action: WorkflowAction | 'publish';
+  from: string;
+  to: string;
+  by?: { id: string; name?: string };
+  comment?: string;
+  at: string;
+}
+
+/**
+ * Review stage of a pending draft. Besides the configured stages a draft can be in
+ * `draft`, `rejected` or `approved`.
+ */
+export interface WorkflowItem {
+  key: string;
+  sight: string;
+  recordId?: string;
+  id?: string;
+  locale?: string;
+  stage: string;
+  stageName: string;
+  version: number | null;
+  history: WorkflowTransition[]; // Oldest first
+  actions: WorkflowAction[]; // What the current user may do
+}
+
+export interface WorkflowStatus {
+  stages: Array<{ id: string; name: string }>; // Configured review stages, in order
+  items: WorkflowItem[];
+}
+
+export interface WorkflowResponse {
+  success: boolean;
+  items: WorkflowItem[];
+  skipped: Array<{ key: string; reason: 'missing' | 'stage' | 'forbidden'; stage?: string }>;
+  error?: string;
+}
+
+/**
+ * Content that has no translation in some locales yet
+ */
+export interface MissingTranslation {
+  key: string;
+  sight: string;
+  locales: string[];
+}
+
+export interface PublishResponse {
+  success: boolean;
+  published: Array<{ key: string; sight: string; version?: number }>;
+  missing?: string[];
+  error?: string;
+}
+
+export type ContentQuery = string[] | { prefix: string };
+
+export interface RevisionEntry {
+  id: number;
+  key: string;
+  sight: string;
+  value: any;
+  type: ElementType;
+  action: 'save' | 'publish' | 'restore';
+  status: 'draft' | 'published';
+  version?: number;
+  author?: { id: string; name?: string };
+  createdAt: string;
+  restoredFrom?: number;
+}
+
+export interface RevisionOptions {
+  recordId?: string;
+  id?: string;
+  locale?: string;
+}
+
+export type RevisionDiff =
+  | { type: 'text'; parts: Array<{ type: 'equal' | 'insert' | 'delete'; value: string }> }
+  | { type: 'fields'; changes: Array<{ path: string; before: any; after: any }> };
+
+export interface RevisionDiffResponse {
+  success: boolean;
+  from: RevisionEntry;
+  to: RevisionEntry;
+  diff: RevisionDiff;
+}
+
+export interface RestoreResponse extends SaveResponse {
+  restoredFrom: number;
+}
+
+/**
+ * Point of interest as fractions of the image size, from the top left corner
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  format: 'jpeg' | 'png' | 'webp' | 'avif';
+  url: string;
+}
+
+/**
+ * Value of an image editor when there is more to it than the URL
+ */
+export interface ResponsiveImageValue {
+  src: string;
+  alt?: string;
+  srcset?: string;
+  sizes?: string;
+  focalPoint?: FocalPoint;
+}
+
+export interface MediaAsset {
+  id: string;
+  filename: string;
+  originalName: string;
+  url: string;
+  thumbnailUrl?: string;
+  mimetype: string;
+  size: number;
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+  focalPoint?: FocalPoint;
+  alt: string;
+  tags: string[];
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+/**
+ * Content that still uses an asset
+ */
+export interface AssetReference {
+  key: string;
+  sight: string;
+  id?: string;
+  status: 'draft' | 'published';
+}
+
+export interface AssetQuery {
+  q?: string;
+  type?: string; // `image`, `video`... or a full mime type
+  tag?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AssetPage {
+  assets: MediaAsset[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface AssetChanges {
+  alt?: string;
+  tags?: string[];
+  focalPoint?: FocalPoint | null; // null clears it
+}
+
+export interface AssetDetails {
+  asset: MediaAsset;
+  references: AssetReference[];
+}
+
+/**
+ * What the media library browser needs from the server; implemented by SightEditAPI
+ */
+export interface MediaLibrarySource {
+  listAssets(query?: AssetQuery): Promise<AssetPage>;
+  getAsset(id: string): Promise<AssetDetails>;
+  uploadAssets(files: File[], details?: { alt?: string; tags?: string[] }): Promise<MediaAsset[]>;
+  updateAsset(id: string, changes: AssetChanges): Promise<MediaAsset>;
+  deleteAsset(id: string, options?: { force?: boolean }): Promise<void>;
 }
 
 export interface ValidationResult {
@@ -3,12 +3,27 @@
  */
 
 import { CollaboratorInfo } from '../collaboration';
+import { t } from '../i18n/I18n';
+
+/**
+ * An element with open comment threads
+ */
+export interface CommentMarker {
+  element: HTMLElement;
+  sight: string;
+  recordId?: string;
+  open: number; // Open threads on the element
+}
 
 export class CollaborationUI {
   private container: HTMLElement;
   private collaboratorsList: HTMLElement;
   private collaborators: Map<string, HTMLElement> = new Map();
   private isVisible = false;
+  private commentMarkers: Array<{ marker: CommentMarker; badge: HTMLElement }> = [];
+  private positionMarkers = () => {
+    this.commentMarkers.forEach(({ marker, badge }) => placeMarker(badge, marker.element));
+  };
 
   constructor() {
     this.container = this.createContainer();
@@ -273,12 +288,74 @@ export class CollaborationUI {
     }, 3000);
   }
 
+  /**
+   * Shows a badge with the number of open threads at the corner of each element.
+   * Replaces the markers shown before.
+   */
+  public showCommentMarkers(markers: CommentMarker[], onOpen: (marker: CommentMarker) => void): void {
+    this.clearCommentMarkers();
+
+    markers.filter(marker => marker.open > 0).forEach(marker => {
+      const badge = document.createElement('button');
+      badge.type = 'button';
+      badge.className = 'sight-edit-comment-marker';
+      badge.dataset.sight = marker.sight;
+      badge.textContent = `💬 ${marker.open}`;
+      badge.title = t('comments.marker', { count: marker.open });
+      badge.setAttribute('aria-label', badge.title);
+      badge.style.cssText = `
+        position: absolute;
+        z-index: 9999;
+        padding: 2px 8px;
+        background: #fbbf24;
+        color: #1f2937;
+        border: 2px solid white;
+        border-radius: 12px;
+        box-shadow: 0 2px 6px rgba(0, 0, 0, 0.2);
+        font-size: 12px;
+        font-weight: 600;
+        cursor: pointer;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      `;
+      badge.onclick = event => {
+        event.preventDefault();
+        event.stopPropagation();
+        onOpen(marker);
+      };
+
+      placeMarker(badge, marker.element);
+      document.body.appendChild(badge);
+      this.commentMarkers.push({ marker, badge });
+    });
+
+    if (this.commentMarkers.length > 0) {
+      window.addEventListener('resize', this.positionMarkers);
+    }
+  }
+
+  public clearCommentMarkers(): void {
+    this.commentMarkers.forEach(({ badge }) => badge.remove());
+    this.commentMarkers = [];
+    window.removeEventListener('resize', this.positionMarkers);
+  }
+
   public destroy(): void {
+    this.clearCommentMarkers();
     this.container.remove();
     this.collaborators.clear();
   }
 }
 
+/**
+ * Puts a marker over the top end corner of its element, in document coordinates
+ */
+function placeMarker(badge: HTMLElement, element: HTMLElement): void {
+  const rect = element.getBoundingClientRect();
+  const rtl = getComputedStyle(element).direction === 'rtl';
+  badge.style.top = `${rect.top + window.scrollY - 10}px`;
+  badge.style.left = `${(rtl ? rect.left : rect.right) + window.scrollX - 16}px`;
+}
+
 /**
  * Creates cursor element for a collaborator
  */
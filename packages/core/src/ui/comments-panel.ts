@@ -0,0 +1,453 @@
+/**
+ * Comments Panel - Side panel with review threads on the sights of a page
+ */
+import { SidebarManager } from './modal-manager';
+import { confirmAction } from './confirm-dialog';
+import { SightEditAPI } from '../api';
+import { CommentAction, CommentRange, CommentThread, CommentUser } from '../types';
+import { i18n, t } from '../i18n/I18n';
+import type { HistoryTarget } from './history-panel';
+
+export interface CommentsPanelOptions {
+  page: string;
+  targets: HistoryTarget[]; // Sights on the page that can be commented on
+  selected?: HistoryTarget; // Sight to show and comment on, e.g. from a comment marker
+  range?: CommentRange; // Selected text within the selected sight
+  userId?: string; // Current user; only their own threads offer Delete
+  onChange: (action: CommentAction, thread: CommentThread) => void;
+}
+
+export class CommentsPanel {
+  private sidebar = SidebarManager.getInstance();
+  private list: HTMLElement | null = null;
+  private options: CommentsPanelOptions | null = null;
+  private target: HistoryTarget | null = null;
+  private showResolved = false;
+
+  constructor(private api: SightEditAPI) {}
+
+  open(options: CommentsPanelOptions): void {
+    this.options = options;
+    this.target = options.selected ?? null;
+    const range = options.range;
+
+    const container = document.createElement('div');
+    container.style.cssText = 'display: flex; flex-direction: column; gap: 16px;';
+
+    const scope = document.createElement('select');
+    scope.style.cssText = INPUT_STYLE;
+    const pageOption = document.createElement('option');
+    pageOption.value = '';
+    pageOption.textContent = t('comments.allOnPage');
+    scope.appendChild(pageOption);
+    options.targets.forEach((target, index) => {
+      const option = document.createElement('option');
+      option.value = String(index);
+      option.textContent = target.recordId ? `${target.sight} (${target.recordId})` : target.sight;
+      option.selected = !!this.target && sameTarget(target, this.target);
+      scope.appendChild(option);
+    });
+
+    const quote = document.createElement('blockquote');
+    quote.style.cssText = QUOTE_STYLE;
+    quote.textContent = range ? t('comments.quote', { quote: range.quote }) : '';
+    quote.style.display = range ? 'block' : 'none';
+
+    const composer = createMentionInput(this.api, t('comments.placeholder'));
+
+    const message = document.createElement('p');
+    message.setAttribute('role', 'status');
+    message.style.cssText = 'margin: 0; font-size: 13px; color: #dc2626;';
+
+    const submitBtn = document.createElement('button');
+    submitBtn.textContent = `💬 ${t('comments.submit')}`;
+    submitBtn.style.cssText = PRIMARY_BUTTON_STYLE;
+    submitBtn.onclick = async () => {
+      const target = this.target;
+      const body = composer.textarea.value.trim();
+      if (!target) {
+        message.textContent = t('comments.selectElement');
+        return;
+      }
+      if (!body) return;
+
+      submitBtn.disabled = true;
+      try {
+        const thread = await this.api.createComment({
+          ...target,
+          ...(range && sameTarget(target, options.selected) ? { range } : {}),
+          page: options.page,
+          body,
+          mentions: composer.getMentions()
+        });
+        composer.clear();
+        message.textContent = '';
+        quote.style.display = 'none';
+        options.onChange('created', thread);
+        this.load();
+      } catch (error) {
+        message.textContent = t('comments.failed', { error: (error as Error).message });
+      } finally {
+        submitBtn.disabled = false;
+      }
+    };
+
+    scope.onchange = () => {
+      this.target = scope.value === '' ? null : options.targets[Number(scope.value)];
+      quote.style.display = range && this.target && sameTarget(this.target, options.selected) ? 'block' : 'none';
+      this.load();
+    };
+
+    const resolvedToggle = document.createElement('label');
+    resolvedToggle.style.cssText = 'display: flex; align-items: center; gap: 6px; font-size: 13px; color: #374151;';
+    const resolvedCheckbox = document.createElement('input');
+    resolvedCheckbox.type = 'checkbox';
+    resolvedCheckbox.checked = this.showResolved;
+    resolvedCheckbox.onchange = () => {
+      this.showResolved = resolvedCheckbox.checked;
+      this.load();
+    };
+    resolvedToggle.appendChild(resolvedCheckbox);
+    resolvedToggle.appendChild(document.createTextNode(t('comments.showResolved')));
+
+    container.appendChild(scope);
+    container.appendChild(quote);
+    container.appendChild(composer.element);
+    container.appendChild(submitBtn);
+    container.appendChild(message);
+    container.appendChild(resolvedToggle);
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = 'display: flex; flex-direction: column; gap: 12px;';
+    container.appendChild(this.list);
+
+    this.sidebar.open(container, { title: `💬 ${t('comments.title')}`, width: '420px' });
+    this.load();
+  }
+
+  close(): void {
+    this.sidebar.close();
+    this.list = null;
+    this.options = null;
+  }
+
+  /**
+   * Reloads the threads while the panel is open, e.g. after a collaborator commented
+   */
+  refresh(): void {
+    if (this.list && this.list.isConnected) {
+      this.load();
+    }
+  }
+
+  private async load(): Promise<void> {
+    const list = this.list;
+    const options = this.options;
+    if (!list || !options) return;
+
+    list.textContent = t('comments.loading');
+
+    let threads: CommentThread[];
+    try {
+      threads = await this.api.getComments(this.showResolved ? {} : { status: 'open' });
+    } catch {
+      list.textContent = t('comments.loadFailed');
+      return;
+    }
+
+    const target = this.target;
+    threads = threads.filter(thread => target
+      ? sameTarget(thread, target)
+      : options.targets.some(candidate => sameTarget(thread, candidate))
+    );
+
+    list.innerHTML = '';
+    if (threads.length === 0) {
+      list.textContent = t('comments.empty');
+      return;
+    }
+
+    threads.forEach(thread => list.appendChild(this.createThread(thread, options)));
+  }
+
+  private createThread(thread: CommentThread, options: CommentsPanelOptions): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'sight-comment-thread';
+    card.dataset.thread = thread.id;
+    card.style.cssText = `
+      border: 2px solid ${thread.status === 'open' ? '#e5e7eb' : '#d1fae5'};
+      border-radius: 8px;
+      padding: 10px 12px;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      ${thread.status === 'resolved' ? 'opacity: 0.75;' : ''}
+    `;
+
+    const heading = document.createElement('div');
+    heading.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 8px; font-size: 12px; color: #6b7280;';
+    const sight = document.createElement('span');
+    sight.textContent = thread.recordId ? `${thread.sight} (${thread.recordId})` : thread.sight;
+    heading.appendChild(sight);
+    if (thread.status === 'resolved') {
+      const badge = document.createElement('span');
+      badge.textContent = `✓ ${t('comments.resolved')}`;
+      badge.style.cssText = 'color: #065f46; font-weight: 600;';
+      heading.appendChild(badge);
+    }
+    card.appendChild(heading);
+
+    if (thread.range) {
+      const quote = document.createElement('blockquote');
+      quote.style.cssText = QUOTE_STYLE;
+      quote.textContent = t('comments.quote', { quote: thread.range.quote });
+      card.appendChild(quote);
+    }
+
+    thread.comments.forEach(comment => {
+      const entry = document.createElement('div');
+      entry.className = 'sight-comment';
+
+      const meta = document.createElement('div');
+      meta.style.cssText = 'font-size: 12px; color: #6b7280;';
+      const author = document.createElement('strong');
+      author.textContent = comment.author?.name || comment.author?.id || t('comments.anonymous');
+      author.style.color = '#1f2937';
+      meta.appendChild(author);
+      meta.appendChild(document.createTextNode(` · ${i18n.formatDate(comment.createdAt, { dateStyle: 'medium', timeStyle: 'short' })}`));
+
+      const body = document.createElement('div');
+      body.style.cssText = 'font-size: 14px; color: #1f2937; white-space: pre-wrap; word-break: break-word; margin-top: 2px;';
+      renderBody(body, comment.body, comment.mentions);
+
+      entry.appendChild(meta);
+      entry.appendChild(body);
+      card.appendChild(entry);
+    });
+
+    const reply = createMentionInput(this.api, t('comments.replyPlaceholder'));
+    reply.textarea.rows = 1;
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; gap: 8px; flex-wrap: wrap;';
+
+    const replyBtn = this.createButton(t('comments.reply'), '#3b82f6', async () => {
+      const body = reply.textarea.value.trim();
+      if (!body) return;
+      const updated = await this.api.replyToComment(thread.id, body, reply.getMentions());
+      options.onChange('replied', updated);
+    });
+    actions.appendChild(replyBtn);
+
+    const resolving = thread.status === 'open';
+    actions.appendChild(this.createButton(resolving ? t('comments.resolve') : t('comments.reopen'), '#065f46', async () => {
+      const updated = resolving
+        ? await this.api.resolveComment(thread.id)
+        : await this.api.reopenComment(thread.id);
+      options.onChange(resolving ? 'resolved' : 'reopened', updated);
+    }));
+
+    if (!thread.createdBy || thread.createdBy.id === options.userId) {
+      actions.appendChild(this.createButton(t('comments.delete'), '#ef4444', async () => {
+        if (!await confirmAction({ message: t('comments.deleteConfirm'), variant: 'danger' })) return;
+        await this.api.deleteComment(thread.id);
+        options.onChange('deleted', thread);
+      }));
+    }
+
+    card.appendChild(reply.element);
+    card.appendChild(actions);
+    return card;
+  }
+
+  private createButton(label: string, color: string, action: () => Promise<void>): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      padding: 6px 12px;
+      background: white;
+      color: ${color};
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    button.onclick = async () => {
+      button.disabled = true;
+      try {
+        await action();
+        this.load();
+      } catch (error) {
+        console.error('Comment action failed:', error);
+        button.disabled = false;
+      }
+    };
+    return button;
+  }
+}
+
+interface MentionInput {
+  element: HTMLElement;
+  textarea: HTMLTextAreaElement;
+  getMentions(): string[]; // Ids of mentioned users whose @name is still in the text
+  clear(): void;
+}
+
+/**
+ * A textarea that suggests users after "@" and remembers who was picked
+ */
+function createMentionInput(api: SightEditAPI, placeholder: string): MentionInput {
+  const element = document.createElement('div');
+  element.style.cssText = 'position: relative;';
+
+  const textarea = document.createElement('textarea');
+  textarea.rows = 3;
+  textarea.placeholder = placeholder;
+  textarea.style.cssText = `${INPUT_STYLE} resize: vertical; font-family: inherit;`;
+
+  const suggestions = document.createElement('div');
+  suggestions.setAttribute('role', 'listbox');
+  suggestions.style.cssText = `
+    position: absolute;
+    left: 0;
+    right: 0;
+    top: 100%;
+    background: white;
+    border: 2px solid #e5e7eb;
+    border-radius: 6px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+    z-index: 1;
+    display: none;
+  `;
+
+  const mentioned = new Map<string, CommentUser>();
+  let lookup = 0;
+
+  const hide = () => {
+    suggestions.style.display = 'none';
+    suggestions.innerHTML = '';
+  };
+
+  textarea.addEventListener('input', async () => {
+    const before = textarea.value.slice(0, textarea.selectionStart ?? textarea.value.length);
+    const match = before.match(/(?:^|\s)@([^\s@]{0,50})$/);
+    if (!match) {
+      hide();
+      return;
+    }
+
+    const current = ++lookup;
+    let users: CommentUser[];
+    try {
+      users = await api.searchCommentUsers(match[1], 5);
+    } catch {
+      users = [];
+    }
+    if (current !== lookup) return;
+
+    suggestions.innerHTML = '';
+    if (users.length === 0) {
+      hide();
+      return;
+    }
+    users.forEach(user => {
+      const option = document.createElement('button');
+      option.type = 'button';
+      option.setAttribute('role', 'option');
+      option.textContent = user.name;
+      option.style.cssText = 'display: block; width: 100%; text-align: start; padding: 6px 10px; background: none; border: none; cursor: pointer;';
+      option.onmousedown = event => {
+        event.preventDefault();
+        const start = before.length - match[1].length - 1;
+        const after = textarea.value.slice(before.length);
+        textarea.value = `${textarea.value.slice(0, start)}@${user.name} ${after}`;
+        const caret = start + user.name.length + 2;
+        textarea.setSelectionRange(caret, caret);
+        mentioned.set(user.id, user);
+        hide();
+        textarea.focus();
+      };
+      suggestions.appendChild(option);
+    });
+    suggestions.style.display = 'block';
+  });
+  textarea.addEventListener('blur', hide);
+
+  element.appendChild(textarea);
+  element.appendChild(suggestions);
+
+  return {
+    element,
+    textarea,
+    getMentions: () => Array.from(mentioned.values())
+      .filter(user => textarea.value.includes(`@${user.name}`))
+      .map(user => user.id),
+    clear: () => {
+      textarea.value = '';
+      mentioned.clear();
+      hide();
+    }
+  };
+}
+
+/**
+ * Comment text with the names of mentioned users highlighted
+ */
+function renderBody(container: HTMLElement, body: string, mentions: CommentUser[]): void {
+  const names = mentions.map(user => `@${user.name}`).sort((a, b) => b.length - a.length);
+  let rest = body;
+  while (rest) {
+    let index = -1;
+    let name = '';
+    names.forEach(candidate => {
+      const found = rest.indexOf(candidate);
+      if (found !== -1 && (index === -1 || found < index)) {
+        index = found;
+        name = candidate;
+      }
+    });
+    if (index === -1) {
+      container.appendChild(document.createTextNode(rest));
+      return;
+    }
+    container.appendChild(document.createTextNode(rest.slice(0, index)));
+    const mention = document.createElement('span');
+    mention.className = 'sight-comment-mention';
+    mention.textContent = name;
+    mention.style.cssText = 'color: #2563eb; font-weight: 600;';
+    container.appendChild(mention);
+    rest = rest.slice(index + name.length);
+  }
+}
+
+function sameTarget(a: { sight: string; recordId?: string }, b?: { sight: string; recordId?: string } | null): boolean {
+  return !!b && a.sight === b.sight && (a.recordId || undefined) === (b.recordId || undefined);
+}
+
+const INPUT_STYLE = `
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px;
+  border: 2px solid #e5e7eb;
+  border-radius: 6px;
+  font-size: 14px;
+`;
+
+const QUOTE_STYLE = `
+  margin: 0;
+  padding: 6px 10px;
+  border-inline-start: 3px solid #fbbf24;
+  background: #fffbeb;
+  font-size: 13px;
+  color: #92400e;
+`;
+
+const PRIMARY_BUTTON_STYLE = `
+  padding: 10px 20px;
+  background: #3b82f6;
+  color: white;
+  border: none;
+  border-radius: 6px;
+  font-weight: 600;
+  cursor: pointer;
+`;
@@ -0,0 +1,41 @@
+import { componentRegistry } from '../customization/ComponentRegistry';
+import { t } from '../i18n/I18n';
+
+export interface ConfirmOptions {
+  message: string;
+  title?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  variant?: 'primary' | 'danger'; // `danger` for destructive actions
+}
+
+/**
+ * Asks the user to confirm an action. Apps that register a `confirmDialog` component
+ * get it rendered here; otherwise the browser's own dialog is used.
+ */
+export function confirmAction(options: ConfirmOptions): Promise<boolean> {
+  if (!componentRegistry.hasOverride('confirmDialog')) {
+    return Promise.resolve(window.confirm(options.message));
+  }
+
+  return new Promise(resolve => {
+    let dialog: HTMLElement | null = null;
+    const settle = (confirmed: boolean) => {
+      if (!dialog) return;
+      dialog.remove();
+      dialog = null;
+      resolve(confirmed);
+    };
+
+    dialog = componentRegistry.render('confirmDialog', {
+      title: options.title,
+      message: options.message,
+      confirmLabel: options.confirmLabel || t('common.confirm'),
+      cancelLabel: options.cancelLabel || t('common.cancel'),
+      variant: options.variant || 'primary',
+      onConfirm: () => settle(true),
+      onCancel: () => settle(false)
+    });
+    document.body.appendChild(dialog);
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * Conflict Dialog - Lets the user resolve stale saves (keep mine / take theirs / merge)
+ */
+import { ModalManager } from './modal-manager';
+import { renderComponent, ComponentRenderer } from '../customization/ComponentRegistry';
+import { VersionConflict, ConflictDecision, ConflictResolution } from '../types';
+
+export interface ConflictEntry {
+  conflict: VersionConflict;
+  mine: any;
+  original: any;
+}
+
+export class ConflictDialog {
+  private modal = ModalManager.getInstance();
+
+  /**
+   * Resolves with one decision per conflict, or null when the user cancels
+   */
+  open(entries: ConflictEntry[]): Promise<ConflictDecision[] | null> {
+    return new Promise(resolve => {
+      let settled = false;
+      const rows = entries.map(entry => this.createRow(entry));
+
+      const container = document.createElement('div');
+      container.style.cssText = 'min-width: 480px; display: flex; flex-direction: column; gap: 16px;';
+
+      const intro = document.createElement('p');
+      intro.textContent = entries.length === 1
+        ? 'This content was changed by someone else while you were editing.'
+        : `${entries.length} items were changed by someone else while you were editing.`;
+      intro.style.cssText = 'margin: 0; color: #4b5563;';
+      container.appendChild(intro);
+
+      rows.forEach(row => container.appendChild(row.element));
+
+      const finish = (decisions: ConflictDecision[] | null) => {
+        if (settled) return;
+        settled = true;
+        this.modal.off('close', onClose);
+        if (decisions) {
+          this.modal.close();
+        }
+        resolve(decisions);
+      };
+      const onClose = () => finish(null);
+
+      const footer = this.modal.open(container, {
+        title: '⚠️ Save Conflict',
+        width: '640px',
+        footer: true,
+        closeOnOverlay: false
+      });
+      this.modal.on('close', onClose);
+
+      const cancelBtn = renderComponent('cancelButton', { label: 'Cancel', onClick: () => this.modal.close() }, footerButton('#6b7280'));
+      const applyBtn = renderComponent(
+        'saveButton',
+        { label: 'Apply', onClick: () => finish(rows.map(row => row.decide())) },
+        footerButton('#10b981')
+      );
+
+      footer.appendChild(cancelBtn);
+      footer.appendChild(applyBtn);
+    });
+  }
+
+  private createRow(entry: ConflictEntry): { element: HTMLElement; decide: () => ConflictDecision } {
+    const { conflict, mine } = entry;
+    let resolution: ConflictResolution = 'mine';
+
+    const row = document.createElement('div');
+    row.className = 'sight-conflict';
+    row.style.cssText = 'border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px;';
+
+    const heading = document.createElement('div');
+    heading.textContent = conflict.sight;
+    heading.style.cssText = 'font-weight: 600; color: #1f2937; margin-bottom: 8px;';
+    row.appendChild(heading);
+
+    const columns = document.createElement('div');
+    columns.style.cssText = 'display: grid; grid-template-columns: 1fr 1fr; gap: 8px; margin-bottom: 10px;';
+    columns.appendChild(this.createPreview('Your version', mine));
+    columns.appendChild(this.createPreview(
+      conflict.currentVersion === null ? 'Server version (deleted)' : 'Server version',
+      conflict.currentValue
+    ));
+    row.appendChild(columns);
+
+    const mergeInput = document.createElement('textarea');
+    mergeInput.value = stringifyValue(mergeValues(entry.original, mine, conflict.currentValue));
+    mergeInput.rows = 4;
+    mergeInput.style.cssText = `
+      display: none;
+      width: 100%;
+      box-sizing: border-box;
+      padding: 8px;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      font-family: inherit;
+      margin-bottom: 10px;
+    `;
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; gap: 8px;';
+
+    const options: Array<[ConflictResolution, string]> = [
+      ['mine', 'Keep mine'],
+      ['theirs', 'Take theirs'],
+      ['merge', 'Merge']
+    ];
+    const buttons = options.map(([value, label]) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = label;
+      btn.dataset.resolution = value;
+      btn.onclick = () => select(value);
+      actions.appendChild(btn);
+      return btn;
+    });
+
+    const select = (value: ConflictResolution) => {
+      resolution = value;
+      buttons.forEach(btn => {
+        const active = btn.dataset.resolution === value;
+        btn.style.cssText = `
+          padding: 6px 14px;
+          border-radius: 6px;
+          cursor: pointer;
+          font-weight: 600;
+          border: 2px solid ${active ? '#3b82f6' : '#e5e7eb'};
+          background: ${active ? '#eff6ff' : 'white'};
+          color: ${active ? '#1d4ed8' : '#374151'};
+        `;
+      });
+      mergeInput.style.display = value === 'merge' ? 'block' : 'none';
+    };
+    select(resolution);
+
+    row.appendChild(mergeInput);
+    row.appendChild(actions);
+
+    return {
+      element: row,
+      decide: () => ({
+        conflict,
+        resolution,
+        value: resolution === 'mine'
+          ? mine
+          : resolution === 'theirs'
+            ? conflict.currentValue
+            : parseMergedValue(mergeInput.value, mine)
+      })
+    };
+  }
+
+  private createPreview(label: string, value: any): HTMLElement {
+    const wrapper = document.createElement('div');
+
+    const title = document.createElement('div');
+    title.textContent = label;
+    title.style.cssText = 'font-size: 12px; color: #6b7280; margin-bottom: 4px;';
+
+    const content = document.createElement('pre');
+    content.textContent = stringifyValue(value);
+    content.style.cssText = `
+      margin: 0;
+      padding: 8px;
+      background: #f9fafb;
+      border-radius: 6px;
+      max-height: 160px;
+      overflow: auto;
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 13px;
+    `;
+
+    wrapper.appendChild(title);
+    wrapper.appendChild(content);
+    return wrapper;
+  }
+}
+
+/**
+ * Three-way merge against the value the edit started from. Objects merge per key,
+ * taking local changes over server ones; scalars fall back to the local value.
+ */
+export function mergeValues(base: any, mine: any, theirs: any): any {
+  if (theirs === null || theirs === undefined || isEqual(mine, theirs) || isEqual(base, theirs)) {
+    return mine;
+  }
+  if (isEqual(base, mine)) {
+    return theirs;
+  }
+
+  if (isPlainObject(mine) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Record<string, any> = { ...theirs };
+    Object.keys(mine).forEach(key => {
+      if (!isEqual(mine[key], baseObject[key])) {
+        merged[key] = mergeValues(baseObject[key], mine[key], theirs[key]);
+      }
+    });
+    return merged;
+  }
+
+  return mine;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function stringifyValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function parseMergedValue(text: string, mine: any): any {
+  if (typeof mine === 'string') return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export const conflictDialog = new ConflictDialog();
+
+// The built-in look of the footer buttons
+function footerButton(background: string): ComponentRenderer {
+  return (props) => {
+    const button = document.createElement('button');
+    button.textContent = props.label || '';
+    button.style.cssText = `
+      padding: 10px 20px;
+      background: ${background};
+      color: white;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    button.onclick = () => props.onClick?.();
+    return button;
+  };
+}
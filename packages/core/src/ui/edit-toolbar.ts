@@ -1,3 +1,27 @@
+import { i18n, t } from '../i18n/I18n';
+import { renderComponent, ComponentProps } from '../customization/ComponentRegistry';
+
+export interface ToolbarPublishingOptions {
+  drafts?: boolean;
+  canPublish?: boolean;
+  canSchedule?: boolean;
+}
+
+export interface ToolbarLocaleOptions {
+  locales: string[];
+  current: string;
+  labels?: Record<string, string>; // Shown instead of the locale code, e.g. { de: 'Deutsch' }
+}
+
+/**
+ * Review stage shown for the page's pending changes
+ */
+export interface ToolbarWorkflowStage {
+  stage: string; // Stage id, e.g. 'draft', 'review' or 'approved'
+  label: string;
+  count: number; // Pending changes in this stage
+}
+
 /**
  * Edit Mode Toolbar - Shows Save All / Discard buttons in edit mode
  */
@@ -7,6 +31,28 @@ export class EditToolbar {
   private isVisible: boolean = false;
   private onSaveAll?: () => void;
   private onDiscardAll?: () => void;
+  private onPublishAll?: () => void;
+  private onShowHistory?: () => void;
+  private onShowSchedule?: () => void;
+  private onShowComments?: () => void;
+  private onShowWorkflow?: () => void;
+  private onSwitchLocale?: (locale: string) => void;
+  private publishing: ToolbarPublishingOptions = {};
+  private comments: boolean = false;
+  private workflow: boolean = false;
+  private workflowBadge: HTMLButtonElement | null = null;
+  private stage: ToolbarWorkflowStage | null = null;
+  private localization: ToolbarLocaleOptions | null = null;
+  private localeSelect: HTMLSelectElement | null = null;
+  private missingBadge: HTMLElement | null = null;
+  private count: number = 0;
+  private missing: number = 0;
+  private custom: boolean = false; // Rendered by the app's `toolbar` component
+  
+  constructor() {
+    // Re-render in the new language while edit mode is on
+    i18n.on('localeChange', () => this.refresh());
+  }
   
   show(changeCount: number = 0): void {
     if (this.isVisible) {
@@ -14,13 +60,17 @@ export class EditToolbar {
       return;
     }
     
+    this.count = changeCount;
     this.create();
     this.updateCount(changeCount);
     this.isVisible = true;
   }
   
   hide(): void {
-    if (this.container) {
+    if (this.container && this.custom) {
+      this.container.remove();
+      this.container = null;
+    } else if (this.container) {
       this.container.style.transform = 'translateY(-100%)';
       setTimeout(() => {
         if (this.container && this.container.parentNode) {
@@ -28,23 +78,45 @@ export class EditToolbar {
         }
         this.container = null;
         this.changeCount = null;
+        this.localeSelect = null;
+        this.missingBadge = null;
+        this.workflowBadge = null;
       }, 300);
     }
     this.isVisible = false;
   }
   
   updateCount(count: number): void {
-    if (this.changeCount) {
-      if (count > 0) {
-        this.changeCount.textContent = `${count} change${count !== 1 ? 's' : ''}`;
-        this.changeCount.style.display = 'inline-block';
-      } else {
-        this.changeCount.textContent = 'No changes';
-        this.changeCount.style.display = 'inline-block';
-      }
+    const changed = count !== this.count;
+    this.count = count;
+    if (this.custom) {
+      if (changed) this.rerender();
+    } else if (this.changeCount) {
+      this.changeCount.textContent = t('toolbar.changes', { count });
+      this.changeCount.style.display = 'inline-block';
     }
   }
   
+  /**
+   * Rebuild a visible toolbar, e.g. after the UI language changed
+   */
+  refresh(): void {
+    if (!this.isVisible) {
+      return;
+    }
+    this.create();
+    if (this.custom) {
+      return;
+    }
+    this.container!.style.transition = 'none';
+    this.container!.style.transform = 'translateY(0)';
+    this.updateCount(this.count);
+    if (this.localization) {
+      this.setLocale(this.localization.current, this.missing);
+    }
+    this.setWorkflowStage(this.stage);
+  }
+  
   onSave(callback: () => void): void {
     this.onSaveAll = callback;
   }
@@ -53,6 +125,108 @@ export class EditToolbar {
     this.onDiscardAll = callback;
   }
   
+  onPublish(callback: () => void): void {
+    this.onPublishAll = callback;
+  }
+  
+  onHistory(callback: () => void): void {
+    this.onShowHistory = callback;
+  }
+  
+  onSchedule(callback: () => void): void {
+    this.onShowSchedule = callback;
+  }
+  
+  onComments(callback: () => void): void {
+    this.onShowComments = callback;
+  }
+  
+  onWorkflow(callback: () => void): void {
+    this.onShowWorkflow = callback;
+  }
+  
+  onLocaleChange(callback: (locale: string) => void): void {
+    this.onSwitchLocale = callback;
+  }
+  
+  /**
+   * Switch between "Save All" and the "Save Draft" / "Publish" pair.
+   * Takes effect the next time the toolbar is shown.
+   */
+  setPublishing(options: ToolbarPublishingOptions): void {
+    this.publishing = { ...options };
+  }
+  
+  /**
+   * Show or hide the Comments action. Takes effect the next time the toolbar is shown.
+   */
+  setComments(enabled: boolean): void {
+    this.comments = enabled;
+  }
+  
+  /**
+   * Show or hide the review stage badge. Takes effect the next time the toolbar is shown.
+   */
+  setWorkflow(enabled: boolean): void {
+    this.workflow = enabled;
+  }
+  
+  /**
+   * Reflect the review stage of the page's pending changes, or hide the badge with null
+   */
+  setWorkflowStage(stage: ToolbarWorkflowStage | null): void {
+    this.stage = stage ? { ...stage } : null;
+    if (this.custom) {
+      this.rerender();
+      return;
+    }
+    const badge = this.workflowBadge;
+    if (!badge) {
+      return;
+    }
+    if (!stage) {
+      badge.style.display = 'none';
+      return;
+    }
+    badge.textContent = t('toolbar.workflow', { stage: stage.label, count: stage.count });
+    badge.title = t('toolbar.workflowHint');
+    badge.dataset.stage = stage.stage;
+    badge.style.background = STAGE_COLORS[stage.stage] ?? REVIEW_STAGE_COLOR;
+    badge.style.display = 'inline-block';
+  }
+  
+  /**
+   * Show the locale switcher, or hide it with null.
+   * Takes effect the next time the toolbar is shown.
+   */
+  setLocalization(options: ToolbarLocaleOptions | null): void {
+    this.localization = options ? { ...options } : null;
+  }
+  
+  /**
+   * Reflect the locale being edited and how many sights on the page lack a translation
+   */
+  setLocale(locale: string, missing: number = 0): void {
+    if (this.localization) {
+      this.localization.current = locale;
+    }
+    if (this.localeSelect) {
+      this.localeSelect.value = locale;
+    }
+    this.missing = missing;
+    if (this.custom) {
+      this.rerender();
+    } else if (this.missingBadge) {
+      this.missingBadge.textContent = t('toolbar.untranslated', { count: missing });
+      this.missingBadge.title = t('toolbar.untranslatedHint', { count: missing });
+      this.missingBadge.style.display = missing > 0 ? 'inline-block' : 'none';
+    }
+  }
+  
+  /**
+   * Renders the toolbar, or the app's `toolbar` component with the toolbar's state and
+   * actions as props
+   */
   private create(): void {
     // Remove existing if any
     const existing = document.getElementById('sight-edit-toolbar');
@@ -60,10 +234,83 @@ export class EditToolbar {
       existing.remove();
     }
     
-    // Create toolbar
-    this.container = document.createElement('div');
+    let builtIn = false;
+    this.container = renderComponent('toolbar', this.toolbarProps(), () => {
+      builtIn = true;
+      return this.renderToolbar();
+    });
     this.container.id = 'sight-edit-toolbar';
-    this.container.style.cssText = `
+    this.custom = !builtIn;
+    document.body.appendChild(this.container);
+    
+    if (this.custom) {
+      this.changeCount = null;
+      this.localeSelect = null;
+      this.missingBadge = null;
+      this.workflowBadge = null;
+      return;
+    }
+    
+    // Add margin to body to make room for toolbar
+    document.body.style.marginTop = '60px';
+    document.body.style.transition = 'margin-top 0.3s ease';
+    
+    // Animate in
+    setTimeout(() => {
+      if (this.container) {
+        this.container.style.transform = 'translateY(0)';
+      }
+    }, 10);
+  }
+  
+  /**
+   * Replaces a custom toolbar with one rendered from the current state
+   */
+  private rerender(): void {
+    if (this.container) {
+      this.create();
+    }
+  }
+  
+  private toolbarProps(): ComponentProps {
+    const { drafts, canPublish, canSchedule } = this.publishing;
+    return {
+      changeCount: this.count,
+      drafts: !!drafts,
+      onSave: () => this.onSaveAll?.(),
+      onCancel: () => this.onDiscardAll?.(), // Discards all changes
+      onDiscard: () => this.onDiscardAll?.(),
+      onPublish: drafts && canPublish ? () => this.onPublishAll?.() : undefined,
+      onSchedule: canSchedule ? () => this.onShowSchedule?.() : undefined,
+      onHistory: () => this.onShowHistory?.(),
+      onComments: this.comments ? () => this.onShowComments?.() : undefined,
+      onWorkflow: this.workflow ? () => this.onShowWorkflow?.() : undefined,
+      workflowStage: this.stage,
+      locales: this.localization?.locales,
+      locale: this.localization?.current,
+      localeLabels: this.localization?.labels,
+      untranslated: this.missing,
+      onLocaleChange: this.localization ? (locale: string) => this.onSwitchLocale?.(locale) : undefined,
+      onExit: () => this.exitEditMode()
+    };
+  }
+  
+  private exitEditMode(): void {
+    // Trigger exit edit mode
+    const event = new KeyboardEvent('keydown', {
+      key: 'e',
+      ctrlKey: true,
+      bubbles: true
+    });
+    document.dispatchEvent(event);
+  }
+  
+  private renderToolbar(): HTMLElement {
+    // Create toolbar
+    const container = document.createElement('div');
+    container.lang = i18n.getLocale();
+    container.dir = i18n.getDirection();
+    container.style.cssText = `
       position: fixed;
       top: 0;
       left: 0;
@@ -104,10 +351,13 @@ export class EditToolbar {
       background: rgba(255,255,255,0.2);
       border-radius: 8px;
     `;
-    modeIndicator.innerHTML = `
-      <span style="font-size: 20px;">✏️</span>
-      <span>Edit Mode</span>
-    `;
+    const modeIcon = document.createElement('span');
+    modeIcon.textContent = '✏️';
+    modeIcon.style.fontSize = '20px';
+    const modeLabel = document.createElement('span');
+    modeLabel.textContent = t('toolbar.editMode');
+    modeIndicator.appendChild(modeIcon);
+    modeIndicator.appendChild(modeLabel);
     
     // Change counter
     this.changeCount = document.createElement('span');
@@ -118,9 +368,62 @@ export class EditToolbar {
       border-radius: 20px;
       font-size: 14px;
       font-weight: 500;
-      margin-left: auto;
+      margin-inline-start: auto;
     `;
     
+    // Locale switcher
+    let localeSwitcher: HTMLElement | null = null;
+    if (this.localization && this.localization.locales.length > 1) {
+      const { locales, current, labels = {} } = this.localization;
+      localeSwitcher = document.createElement('div');
+      localeSwitcher.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      `;
+      
+      const select = document.createElement('select');
+      select.setAttribute('aria-label', t('toolbar.contentLanguage'));
+      select.style.cssText = `
+        padding: 8px 10px;
+        background: rgba(255,255,255,0.2);
+        color: white;
+        border: none;
+        border-radius: 8px;
+        font-weight: 600;
+        font-size: 14px;
+        cursor: pointer;
+      `;
+      locales.forEach(locale => {
+        const option = document.createElement('option');
+        option.value = locale;
+        option.textContent = `🌐 ${labels[locale] || locale.toUpperCase()}`;
+        option.style.color = '#111827';
+        select.appendChild(option);
+      });
+      select.value = current;
+      select.onchange = () => {
+        if (this.onSwitchLocale) {
+          this.onSwitchLocale(select.value);
+        }
+      };
+      
+      this.missingBadge = document.createElement('span');
+      this.missingBadge.style.cssText = `
+        display: none;
+        padding: 4px 10px;
+        background: #f59e0b;
+        color: white;
+        border-radius: 20px;
+        font-size: 12px;
+        font-weight: 600;
+      `;
+      
+      this.localeSelect = select;
+      localeSwitcher.appendChild(select);
+      localeSwitcher.appendChild(this.missingBadge);
+    }
+    
     // Buttons container
     const buttons = document.createElement('div');
     buttons.style.cssText = `
@@ -129,8 +432,215 @@ export class EditToolbar {
     `;
     
     // Discard button
+    const discardBtn = renderComponent('cancelButton', {
+      label: t('toolbar.discardAll'),
+      onClick: () => this.onDiscardAll?.()
+    }, () => this.renderDiscardButton());
+    
+    // Save All button
+    const saveBtn = renderComponent('saveButton', {
+      label: this.publishing.drafts ? t('toolbar.saveDraft') : t('toolbar.saveAll'),
+      onClick: () => this.onSaveAll?.()
+    }, () => this.renderSaveButton());
+    
+    // Publish button (draft workflow only)
+    let publishBtn: HTMLButtonElement | null = null;
+    if (this.publishing.drafts && this.publishing.canPublish) {
+      const btn = document.createElement('button');
+      btn.textContent = `🚀 ${t('toolbar.publish')}`;
+      btn.style.cssText = `
+        padding: 10px 20px;
+        background: #3b82f6;
+        color: white;
+        border: none;
+        border-radius: 8px;
+        font-weight: 600;
+        font-size: 14px;
+        cursor: pointer;
+        transition: all 0.2s;
+        box-shadow: 0 2px 10px rgba(59,130,246,0.3);
+      `;
+      btn.onmouseover = () => {
+        btn.style.transform = 'translateY(-2px)';
+        btn.style.boxShadow = '0 4px 15px rgba(59,130,246,0.4)';
+      };
+      btn.onmouseout = () => {
+        btn.style.transform = 'translateY(0)';
+        btn.style.boxShadow = '0 2px 10px rgba(59,130,246,0.3)';
+      };
+      btn.onclick = () => {
+        if (this.onPublishAll) {
+          this.onPublishAll();
+        }
+      };
+      publishBtn = btn;
+    }
+    
+    // Schedule button (timed publishing and expiry)
+    let scheduleBtn: HTMLButtonElement | null = null;
+    if (this.publishing.canSchedule) {
+      const btn = document.createElement('button');
+      btn.textContent = `⏰ ${t('toolbar.schedule')}`;
+      btn.style.cssText = `
+        padding: 10px 20px;
+        background: rgba(255,255,255,0.2);
+        color: white;
+        border: none;
+        border-radius: 8px;
+        font-weight: 600;
+        font-size: 14px;
+        cursor: pointer;
+        transition: all 0.2s;
+      `;
+      btn.onmouseover = () => {
+        btn.style.background = 'rgba(255,255,255,0.3)';
+      };
+      btn.onmouseout = () => {
+        btn.style.background = 'rgba(255,255,255,0.2)';
+      };
+      btn.onclick = () => {
+        if (this.onShowSchedule) {
+          this.onShowSchedule();
+        }
+      };
+      scheduleBtn = btn;
+    }
+    
+    // History button
+    const historyBtn = document.createElement('button');
+    historyBtn.textContent = `🕘 ${t('toolbar.history')}`;
+    historyBtn.style.cssText = `
+      padding: 10px 20px;
+      background: rgba(255,255,255,0.2);
+      color: white;
+      border: none;
+      border-radius: 8px;
+      font-weight: 600;
+      font-size: 14px;
+      cursor: pointer;
+      transition: all 0.2s;
+    `;
+    historyBtn.onmouseover = () => {
+      historyBtn.style.background = 'rgba(255,255,255,0.3)';
+    };
+    historyBtn.onmouseout = () => {
+      historyBtn.style.background = 'rgba(255,255,255,0.2)';
+    };
+    historyBtn.onclick = () => {
+      if (this.onShowHistory) {
+        this.onShowHistory();
+      }
+    };
+    
+    // Comments button (review threads)
+    let commentsBtn: HTMLButtonElement | null = null;
+    if (this.comments) {
+      const btn = document.createElement('button');
+      btn.textContent = `💬 ${t('toolbar.comments')}`;
+      btn.style.cssText = `
+        padding: 10px 20px;
+        background: rgba(255,255,255,0.2);
+        color: white;
+        border: none;
+        border-radius: 8px;
+        font-weight: 600;
+        font-size: 14px;
+        cursor: pointer;
+        transition: all 0.2s;
+      `;
+      btn.onmouseover = () => {
+        btn.style.background = 'rgba(255,255,255,0.3)';
+      };
+      btn.onmouseout = () => {
+        btn.style.background = 'rgba(255,255,255,0.2)';
+      };
+      // Keep the text selection, so a comment can be anchored to it
+      btn.onmousedown = event => event.preventDefault();
+      btn.onclick = () => {
+        if (this.onShowComments) {
+          this.onShowComments();
+        }
+      };
+      commentsBtn = btn;
+    }
+    
+    // Review stage badge, opens the workflow panel
+    this.workflowBadge = null;
+    if (this.workflow) {
+      const badge = document.createElement('button');
+      badge.className = 'sight-workflow-stage';
+      badge.style.cssText = `
+        display: none;
+        padding: 6px 12px;
+        color: white;
+        border: none;
+        border-radius: 20px;
+        font-size: 13px;
+        font-weight: 600;
+        cursor: pointer;
+      `;
+      badge.onclick = () => {
+        if (this.onShowWorkflow) {
+          this.onShowWorkflow();
+        }
+      };
+      this.workflowBadge = badge;
+    }
+    
+    // Exit button
+    const exitBtn = document.createElement('button');
+    exitBtn.textContent = `✕ ${t('toolbar.exit')}`;
+    exitBtn.style.cssText = `
+      padding: 10px 20px;
+      background: rgba(255,255,255,0.2);
+      color: white;
+      border: 2px solid white;
+      border-radius: 8px;
+      font-weight: 600;
+      font-size: 14px;
+      cursor: pointer;
+      transition: all 0.2s;
+    `;
+    exitBtn.onmouseover = () => {
+      exitBtn.style.background = 'rgba(255,255,255,0.3)';
+    };
+    exitBtn.onmouseout = () => {
+      exitBtn.style.background = 'rgba(255,255,255,0.2)';
+    };
+    exitBtn.onclick = () => this.exitEditMode();
+    
+    // Assemble
+    buttons.appendChild(historyBtn);
+    if (commentsBtn) {
+      buttons.appendChild(commentsBtn);
+    }
+    buttons.appendChild(discardBtn);
+    buttons.appendChild(saveBtn);
+    if (scheduleBtn) {
+      buttons.appendChild(scheduleBtn);
+    }
+    if (publishBtn) {
+      buttons.appendChild(publishBtn);
+    }
+    buttons.appendChild(exitBtn);
+    
+    wrapper.appendChild(modeIndicator);
+    if (localeSwitcher) {
+      wrapper.appendChild(localeSwitcher);
+    }
+    wrapper.appendChild(this.changeCount);
+    if (this.workflowBadge) {
+      wrapper.appendChild(this.workflowBadge);
+    }
+    wrapper.appendChild(buttons);
+    
+    container.appendChild(wrapper);
+    return container;
+  }
+  
+  private renderDiscardButton(): HTMLElement {
     const discardBtn = document.createElement('button');
-    discardBtn.textContent = '🗑️ Discard All';
+    discardBtn.textContent = `🗑️ ${t('toolbar.discardAll')}`;
     discardBtn.style.cssText = `
       padding: 10px 20px;
       background: #ef4444;
@@ -156,10 +666,12 @@ export class EditToolbar {
         this.onDiscardAll();
       }
     };
-    
-    // Save All button
+    return discardBtn;
+  }
+  
+  private renderSaveButton(): HTMLElement {
     const saveBtn = document.createElement('button');
-    saveBtn.textContent = '💾 Save All';
+    saveBtn.textContent = this.publishing.drafts ? `📝 ${t('toolbar.saveDraft')}` : `💾 ${t('toolbar.saveAll')}`;
     saveBtn.style.cssText = `
       padding: 10px 20px;
       background: #10b981;
@@ -185,59 +697,7 @@ export class EditToolbar {
         this.onSaveAll();
       }
     };
-    
-    // Exit button
-    const exitBtn = document.createElement('button');
-    exitBtn.textContent = '✕ Exit';
-    exitBtn.style.cssText = `
-      padding: 10px 20px;
-      background: rgba(255,255,255,0.2);
-      color: white;
-      border: 2px solid white;
-      border-radius: 8px;
-      font-weight: 600;
-      font-size: 14px;
-      cursor: pointer;
-      transition: all 0.2s;
-    `;
-    exitBtn.onmouseover = () => {
-      exitBtn.style.background = 'rgba(255,255,255,0.3)';
-    };
-    exitBtn.onmouseout = () => {
-      exitBtn.style.background = 'rgba(255,255,255,0.2)';
-    };
-    exitBtn.onclick = () => {
-      // Trigger exit edit mode
-      const event = new KeyboardEvent('keydown', {
-        key: 'e',
-        ctrlKey: true,
-        bubbles: true
-      });
-      document.dispatchEvent(event);
-    };
-    
-    // Assemble
-    buttons.appendChild(discardBtn);
-    buttons.appendChild(saveBtn);
-    buttons.appendChild(exitBtn);
-    
-    wrapper.appendChild(modeIndicator);
-    wrapper.appendChild(this.changeCount);
-    wrapper.appendChild(buttons);
-    
-    this.container.appendChild(wrapper);
-    document.body.appendChild(this.container);
-    
-    // Add margin to body to make room for toolbar
-    document.body.style.marginTop = '60px';
-    document.body.style.transition = 'margin-top 0.3s ease';
-    
-    // Animate in
-    setTimeout(() => {
-      if (this.container) {
-        this.container.style.transform = 'translateY(0)';
-      }
-    }, 10);
+    return saveBtn;
   }
   
   destroy(): void {
@@ -246,5 +706,14 @@ export class EditToolbar {
   }
 }
 
+const STAGE_COLORS: Record<string, string> = {
+  draft: 'rgba(255,255,255,0.25)',
+  rejected: '#dc2626',
+  approved: '#059669'
+};
+
+// Configured review stages
+const REVIEW_STAGE_COLOR = '#d97706';
+
 // Export singleton
 export const editToolbar = new EditToolbar();
\ No newline at end of file
@@ -0,0 +1,294 @@
+/**
+ * History Panel - Side panel listing the revisions of a sight with preview and rollback
+ */
+import { SidebarManager } from './modal-manager';
+import { SightEditAPI } from '../api';
+import { RevisionEntry, RevisionDiff } from '../types';
+import { confirmAction } from './confirm-dialog';
+
+export interface HistoryTarget {
+  sight: string;
+  recordId?: string;
+  id?: string;
+  locale?: string;
+}
+
+export interface HistoryPanelOptions {
+  targets: HistoryTarget[];
+  selected?: HistoryTarget;
+  onRestore: (target: HistoryTarget, revision: RevisionEntry) => Promise<void>;
+}
+
+export class HistoryPanel {
+  private sidebar = SidebarManager.getInstance();
+  private list: HTMLElement | null = null;
+  private preview: HTMLElement | null = null;
+
+  constructor(private api: SightEditAPI) {}
+
+  open(options: HistoryPanelOptions): void {
+    const targets = options.targets;
+    let target = options.selected || targets[0];
+
+    const container = document.createElement('div');
+    container.style.cssText = 'display: flex; flex-direction: column; gap: 16px;';
+
+    if (!target) {
+      const empty = document.createElement('p');
+      empty.textContent = 'There is no editable content on this page.';
+      empty.style.cssText = 'margin: 0; color: #6b7280;';
+      container.appendChild(empty);
+      this.sidebar.open(container, { title: '🕘 History', width: '420px' });
+      return;
+    }
+
+    if (targets.length > 1) {
+      const select = document.createElement('select');
+      select.style.cssText = `
+        width: 100%;
+        padding: 8px;
+        border: 2px solid #e5e7eb;
+        border-radius: 6px;
+        font-size: 14px;
+      `;
+      targets.forEach((item, index) => {
+        const option = document.createElement('option');
+        option.value = String(index);
+        option.textContent = item.recordId ? `${item.sight} (${item.recordId})` : item.sight;
+        option.selected = item === target;
+        select.appendChild(option);
+      });
+      select.onchange = () => {
+        target = targets[Number(select.value)];
+        this.load(target, options);
+      };
+      container.appendChild(select);
+    }
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = 'display: flex; flex-direction: column; gap: 8px;';
+
+    this.preview = document.createElement('div');
+
+    container.appendChild(this.list);
+    container.appendChild(this.preview);
+
+    this.sidebar.open(container, { title: '🕘 History', width: '420px' });
+    this.load(target, options);
+  }
+
+  close(): void {
+    this.sidebar.close();
+    this.list = null;
+    this.preview = null;
+  }
+
+  private async load(target: HistoryTarget, options: HistoryPanelOptions): Promise<void> {
+    const list = this.list;
+    if (!list || !this.preview) return;
+
+    list.textContent = 'Loading history…';
+    this.preview.innerHTML = '';
+
+    let revisions: RevisionEntry[];
+    try {
+      revisions = await this.api.getHistory(target.sight, {
+        recordId: target.recordId,
+        id: target.id,
+        locale: target.locale
+      });
+    } catch {
+      list.textContent = 'Could not load the revision history.';
+      return;
+    }
+
+    list.innerHTML = '';
+    if (revisions.length === 0) {
+      list.textContent = 'No revisions have been saved yet.';
+      return;
+    }
+
+    revisions.forEach((revision, index) => {
+      const row = this.createRow(revision, index === 0);
+      row.onclick = () => {
+        list.querySelectorAll<HTMLElement>('.sight-revision').forEach(item => {
+          item.style.borderColor = '#e5e7eb';
+        });
+        row.style.borderColor = '#3b82f6';
+        this.showPreview(target, revision, index === 0, options);
+      };
+      list.appendChild(row);
+    });
+  }
+
+  private createRow(revision: RevisionEntry, current: boolean): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'sight-revision';
+    row.dataset.revision = String(revision.id);
+    row.style.cssText = `
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 10px 12px;
+      cursor: pointer;
+    `;
+
+    const heading = document.createElement('div');
+    heading.style.cssText = 'display: flex; justify-content: space-between; gap: 8px; font-weight: 600; color: #1f2937;';
+
+    const author = document.createElement('span');
+    author.textContent = revision.author?.name || revision.author?.id || 'Unknown author';
+
+    const badge = document.createElement('span');
+    badge.textContent = current ? 'Current' : ACTION_LABELS[revision.action] || revision.action;
+    badge.style.cssText = `
+      font-size: 12px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      background: ${current ? '#d1fae5' : '#f3f4f6'};
+      color: ${current ? '#065f46' : '#4b5563'};
+    `;
+
+    heading.appendChild(author);
+    heading.appendChild(badge);
+
+    const meta = document.createElement('div');
+    meta.textContent = `${formatTimestamp(revision.createdAt)} · ${revision.status === 'draft' ? 'Draft' : 'Published'}`;
+    meta.style.cssText = 'font-size: 12px; color: #6b7280; margin-top: 4px;';
+
+    row.appendChild(heading);
+    row.appendChild(meta);
+    return row;
+  }
+
+  private async showPreview(
+    target: HistoryTarget,
+    revision: RevisionEntry,
+    current: boolean,
+    options: HistoryPanelOptions
+  ): Promise<void> {
+    const preview = this.preview;
+    if (!preview) return;
+
+    preview.innerHTML = '';
+
+    const title = document.createElement('div');
+    title.textContent = current ? 'Current version' : 'Changes since this version';
+    title.style.cssText = 'font-size: 12px; color: #6b7280; margin-bottom: 6px;';
+    preview.appendChild(title);
+
+    const body = document.createElement('div');
+    body.style.cssText = `
+      padding: 10px;
+      background: #f9fafb;
+      border-radius: 6px;
+      max-height: 280px;
+      overflow: auto;
+      white-space: pre-wrap;
+      word-break: break-word;
+      font-size: 13px;
+    `;
+    preview.appendChild(body);
+
+    if (current) {
+      body.textContent = stringifyValue(revision.value);
+      return;
+    }
+
+    try {
+      const { diff } = await this.api.diffRevisions(target.sight, revision.id, undefined, {
+        recordId: target.recordId,
+        id: target.id,
+        locale: target.locale
+      });
+      renderDiff(body, diff);
+    } catch {
+      body.textContent = stringifyValue(revision.value);
+    }
+
+    const restoreBtn = document.createElement('button');
+    restoreBtn.textContent = '↩️ Restore this version';
+    restoreBtn.style.cssText = `
+      margin-top: 12px;
+      padding: 10px 20px;
+      background: #3b82f6;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    restoreBtn.onclick = async () => {
+      if (!await confirmAction({ message: `Restore the version from ${formatTimestamp(revision.createdAt)}?` })) return;
+
+      restoreBtn.disabled = true;
+      try {
+        await options.onRestore(target, revision);
+        this.load(target, options);
+      } catch {
+        restoreBtn.disabled = false;
+      }
+    };
+    preview.appendChild(restoreBtn);
+  }
+}
+
+const ACTION_LABELS: Record<RevisionEntry['action'], string> = {
+  save: 'Saved',
+  publish: 'Published',
+  restore: 'Restored'
+};
+
+/**
+ * Text diffs read old → new with removals struck through; structured values list changed fields
+ */
+function renderDiff(container: HTMLElement, diff: RevisionDiff): void {
+  if (diff.type === 'text') {
+    diff.parts.forEach(part => {
+      const span = document.createElement(part.type === 'insert' ? 'ins' : part.type === 'delete' ? 'del' : 'span');
+      span.textContent = part.value;
+      if (part.type === 'insert') {
+        span.style.cssText = 'background: #d1fae5; color: #065f46; text-decoration: none;';
+      } else if (part.type === 'delete') {
+        span.style.cssText = 'background: #fee2e2; color: #991b1b;';
+      }
+      container.appendChild(span);
+    });
+    return;
+  }
+
+  if (diff.changes.length === 0) {
+    container.textContent = 'No differences.';
+    return;
+  }
+
+  diff.changes.forEach(change => {
+    const row = document.createElement('div');
+    row.style.cssText = 'margin-bottom: 6px;';
+
+    const path = document.createElement('strong');
+    path.textContent = `${change.path || 'value'}: `;
+
+    const before = document.createElement('del');
+    before.textContent = stringifyValue(change.before);
+    before.style.cssText = 'background: #fee2e2; color: #991b1b;';
+
+    const after = document.createElement('ins');
+    after.textContent = stringifyValue(change.after);
+    after.style.cssText = 'background: #d1fae5; color: #065f46; text-decoration: none; margin-left: 4px;';
+
+    row.appendChild(path);
+    row.appendChild(before);
+    row.appendChild(after);
+    container.appendChild(row);
+  });
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function stringifyValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
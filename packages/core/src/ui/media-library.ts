@@ -0,0 +1,375 @@
+/**
+ * Media Library - Browser for uploaded assets shared by the image and file editors:
+ * search, pagination, drag-and-drop upload and deletion with a warning for assets in use
+ */
+import { MediaAsset, MediaLibrarySource } from '../types';
+import { confirmAction } from './confirm-dialog';
+
+export interface MediaLibraryOptions {
+  type?: string; // Only list this kind of asset, e.g. `image`
+  accept?: string; // `accept` of the upload input
+  multiple?: boolean;
+  pageSize?: number;
+  onSelectionChange: (assets: MediaAsset[]) => void;
+}
+
+const SEARCH_DELAY = 300;
+
+export class MediaLibrary {
+  private container: HTMLElement | null = null;
+  private grid: HTMLElement | null = null;
+  private pager: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+  private query = '';
+  private page = 1;
+  private selected: Map<string, MediaAsset> = new Map();
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+  private loading = 0;
+
+  constructor(private source: MediaLibrarySource, private options: MediaLibraryOptions) {}
+
+  render(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'sight-media-library';
+    container.style.cssText = 'display: flex; flex-direction: column; gap: 12px;';
+
+    const toolbar = document.createElement('div');
+    toolbar.style.cssText = 'display: flex; gap: 8px;';
+
+    const search = document.createElement('input');
+    search.type = 'search';
+    search.placeholder = 'Search by name, alt text or tag';
+    search.setAttribute('aria-label', 'Search media');
+    search.style.cssText = `
+      flex: 1;
+      padding: 8px 10px;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 14px;
+    `;
+    search.oninput = () => {
+      if (this.searchTimer) clearTimeout(this.searchTimer);
+      this.searchTimer = setTimeout(() => {
+        this.query = search.value.trim();
+        this.page = 1;
+        this.load();
+      }, SEARCH_DELAY);
+    };
+
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.multiple = true;
+    fileInput.style.display = 'none';
+    if (this.options.accept) fileInput.accept = this.options.accept;
+    fileInput.onchange = () => {
+      if (fileInput.files?.length) {
+        this.upload(Array.from(fileInput.files));
+        fileInput.value = '';
+      }
+    };
+
+    const uploadBtn = document.createElement('button');
+    uploadBtn.type = 'button';
+    uploadBtn.textContent = '⬆️ Upload';
+    uploadBtn.style.cssText = `
+      padding: 8px 14px;
+      background: #3b82f6;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    uploadBtn.onclick = () => fileInput.click();
+
+    toolbar.appendChild(search);
+    toolbar.appendChild(uploadBtn);
+    toolbar.appendChild(fileInput);
+
+    this.status = document.createElement('div');
+    this.status.setAttribute('role', 'status');
+    this.status.style.cssText = 'font-size: 13px; color: #6b7280; min-height: 18px;';
+
+    this.grid = document.createElement('div');
+    this.grid.style.cssText = `
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(110px, 1fr));
+      gap: 10px;
+      min-height: 120px;
+      padding: 8px;
+      border: 2px dashed #e5e7eb;
+      border-radius: 8px;
+      transition: border-color 0.2s, background 0.2s;
+    `;
+
+    this.pager = document.createElement('div');
+    this.pager.style.cssText = 'display: flex; justify-content: center; align-items: center; gap: 12px; font-size: 13px;';
+
+    container.appendChild(toolbar);
+    container.appendChild(this.status);
+    container.appendChild(this.grid);
+    container.appendChild(this.pager);
+    this.setupDropZone(container);
+
+    this.container = container;
+    this.load();
+    return container;
+  }
+
+  /**
+   * Reloads the current page, e.g. after an upload elsewhere
+   */
+  refresh(): Promise<void> {
+    return this.load();
+  }
+
+  getSelection(): MediaAsset[] {
+    return Array.from(this.selected.values());
+  }
+
+  destroy(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.container?.remove();
+    this.container = null;
+    this.grid = null;
+    this.pager = null;
+    this.status = null;
+  }
+
+  private setupDropZone(container: HTMLElement): void {
+    const highlight = (active: boolean) => {
+      if (!this.grid) return;
+      this.grid.style.borderColor = active ? '#3b82f6' : '#e5e7eb';
+      this.grid.style.background = active ? '#eff6ff' : 'transparent';
+    };
+
+    container.addEventListener('dragover', event => {
+      event.preventDefault();
+      highlight(true);
+    });
+    container.addEventListener('dragleave', event => {
+      if (!container.contains(event.relatedTarget as Node)) highlight(false);
+    });
+    container.addEventListener('drop', event => {
+      event.preventDefault();
+      highlight(false);
+      const files = Array.from(event.dataTransfer?.files || []);
+      if (files.length > 0) {
+        this.upload(files);
+      }
+    });
+  }
+
+  private async load(): Promise<void> {
+    const grid = this.grid;
+    if (!grid) return;
+
+    // Only the latest request may render, so fast typing can't show stale results
+    const request = ++this.loading;
+    this.setStatus('Loading…');
+
+    try {
+      const result = await this.source.listAssets({
+        q: this.query || undefined,
+        type: this.options.type,
+        page: this.page,
+        limit: this.options.pageSize
+      });
+      if (request !== this.loading || !this.grid) return;
+
+      this.page = result.page;
+      grid.innerHTML = '';
+      if (result.assets.length === 0) {
+        this.setStatus(this.query ? `Nothing matches "${this.query}".` : 'No media yet. Drop files here to upload them.');
+      } else {
+        this.setStatus(`${result.total} item(s)`);
+        result.assets.forEach(asset => grid.appendChild(this.createTile(asset)));
+      }
+      this.renderPager(result.page, result.pages);
+    } catch {
+      if (request === this.loading) {
+        this.setStatus('Could not load the media library.');
+      }
+    }
+  }
+
+  private createTile(asset: MediaAsset): HTMLElement {
+    const tile = document.createElement('div');
+    tile.className = 'sight-media-item';
+    tile.dataset.assetId = asset.id;
+    tile.tabIndex = 0;
+    tile.setAttribute('role', 'option');
+    tile.title = asset.alt || asset.originalName;
+    tile.style.cssText = `
+      position: relative;
+      border: 2px solid #e5e7eb;
+      border-radius: 6px;
+      overflow: hidden;
+      cursor: pointer;
+      background: #f9fafb;
+    `;
+
+    const preview = document.createElement('div');
+    preview.style.cssText = 'height: 90px; display: flex; align-items: center; justify-content: center; font-size: 32px;';
+    if (asset.mimetype.startsWith('image/')) {
+      const img = document.createElement('img');
+      img.src = asset.thumbnailUrl || asset.url;
+      img.alt = asset.alt;
+      img.loading = 'lazy';
+      img.style.cssText = 'width: 100%; height: 100%; object-fit: cover;';
+      preview.appendChild(img);
+    } else {
+      preview.textContent = '📄';
+    }
+
+    const name = document.createElement('div');
+    name.textContent = asset.originalName;
+    name.style.cssText = 'padding: 4px 6px; font-size: 12px; color: #374151; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;';
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.textContent = '🗑️';
+    deleteBtn.title = 'Delete';
+    deleteBtn.setAttribute('aria-label', `Delete ${asset.originalName}`);
+    deleteBtn.style.cssText = `
+      position: absolute;
+      top: 4px;
+      right: 4px;
+      padding: 2px 6px;
+      background: rgba(255, 255, 255, 0.9);
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    `;
+    deleteBtn.onclick = event => {
+      event.stopPropagation();
+      this.remove(asset);
+    };
+
+    tile.appendChild(preview);
+    tile.appendChild(name);
+    tile.appendChild(deleteBtn);
+
+    const select = () => this.toggle(asset);
+    tile.onclick = select;
+    tile.onkeydown = event => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        select();
+      }
+    };
+
+    this.markSelected(tile, this.selected.has(asset.id));
+    return tile;
+  }
+
+  private renderPager(page: number, pages: number): void {
+    const pager = this.pager;
+    if (!pager) return;
+
+    pager.innerHTML = '';
+    if (pages <= 1) return;
+
+    const button = (label: string, target: number, disabled: boolean) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.textContent = label;
+      btn.disabled = disabled;
+      btn.style.cssText = `
+        padding: 4px 10px;
+        border: 1px solid #d1d5db;
+        border-radius: 4px;
+        background: white;
+        cursor: ${disabled ? 'default' : 'pointer'};
+      `;
+      btn.onclick = () => {
+        this.page = target;
+        this.load();
+      };
+      return btn;
+    };
+
+    const label = document.createElement('span');
+    label.textContent = `Page ${page} of ${pages}`;
+
+    pager.appendChild(button('‹ Previous', page - 1, page <= 1));
+    pager.appendChild(label);
+    pager.appendChild(button('Next ›', page + 1, page >= pages));
+  }
+
+  private toggle(asset: MediaAsset): void {
+    if (this.selected.has(asset.id)) {
+      this.selected.delete(asset.id);
+    } else {
+      if (!this.options.multiple) this.selected.clear();
+      this.selected.set(asset.id, asset);
+    }
+
+    this.grid?.querySelectorAll<HTMLElement>('.sight-media-item').forEach(tile => {
+      this.markSelected(tile, this.selected.has(tile.dataset.assetId || ''));
+    });
+    this.options.onSelectionChange(this.getSelection());
+  }
+
+  private markSelected(tile: HTMLElement, selected: boolean): void {
+    tile.style.borderColor = selected ? '#3b82f6' : '#e5e7eb';
+    tile.setAttribute('aria-selected', String(selected));
+  }
+
+  private async upload(files: File[]): Promise<void> {
+    this.setStatus(`Uploading ${files.length} file(s)…`);
+
+    let uploaded: MediaAsset[];
+    try {
+      uploaded = await this.source.uploadAssets(files);
+    } catch (error) {
+      this.setStatus(`Upload failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+      return;
+    }
+
+    // New uploads are what the user is about to pick
+    if (!this.options.multiple) this.selected.clear();
+    (this.options.multiple ? uploaded : uploaded.slice(0, 1)).forEach(asset => this.selected.set(asset.id, asset));
+    this.options.onSelectionChange(this.getSelection());
+
+    this.query = '';
+    this.page = 1;
+    const search = this.container?.querySelector<HTMLInputElement>('input[type="search"]');
+    if (search) search.value = '';
+    await this.load();
+  }
+
+  private async remove(asset: MediaAsset): Promise<void> {
+    let references;
+    try {
+      references = (await this.source.getAsset(asset.id)).references;
+    } catch {
+      this.setStatus(`Could not check where ${asset.originalName} is used.`);
+      return;
+    }
+
+    const message = references.length > 0
+      ? `${asset.originalName} is still used by ${references.length} item(s):\n` +
+        references.slice(0, 10).map(ref => `• ${ref.sight}${ref.status === 'draft' ? ' (draft)' : ''}`).join('\n') +
+        (references.length > 10 ? '\n…' : '') +
+        '\n\nDeleting it will leave broken links. Delete anyway?'
+      : `Delete ${asset.originalName}?`;
+    if (!await confirmAction({ message, variant: 'danger' })) return;
+
+    try {
+      await this.source.deleteAsset(asset.id, { force: references.length > 0 });
+    } catch (error) {
+      this.setStatus(`Could not delete ${asset.originalName}: ${error instanceof Error ? error.message : 'unknown error'}`);
+      return;
+    }
+
+    if (this.selected.delete(asset.id)) {
+      this.options.onSelectionChange(this.getSelection());
+    }
+    await this.load();
+  }
+
+  private setStatus(text: string): void {
+    if (this.status) this.status.textContent = text;
+  }
+}
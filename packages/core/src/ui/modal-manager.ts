@@ -1,4 +1,6 @@
 import { EventEmitter } from '../utils/event-emitter';
+import { i18n, t } from '../i18n/I18n';
+import { renderComponent } from '../customization/ComponentRegistry';
 
 export interface ModalOptions {
   title?: string;
@@ -12,9 +14,11 @@ export interface ModalOptions {
 }
 
 export class ModalManager extends EventEmitter {
+  private root: HTMLElement | null = null;
   private modal: HTMLElement | null = null;
   private overlay: HTMLElement | null = null;
   private originalFocus: HTMLElement | null = null;
+  private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
   private static instance: ModalManager;
 
   static getInstance(): ModalManager {
@@ -24,11 +28,15 @@ export class ModalManager extends EventEmitter {
     return this.instance;
   }
 
+  /**
+   * Opens content in a modal, rendered by the `modal` component when an app overrides
+   * it. Returns the footer to add buttons to, or the body when there is no footer.
+   */
   open(content: HTMLElement | string, options: ModalOptions = {}): HTMLElement {
     this.close(); // Close any existing modal
     
     const opts = {
-      title: 'Edit',
+      title: t('modal.title'),
       width: '600px',
       height: 'auto',
       closeOnEscape: true,
@@ -41,6 +49,108 @@ export class ModalManager extends EventEmitter {
     // Store current focus
     this.originalFocus = document.activeElement as HTMLElement;
 
+    // Create body
+    const body = document.createElement('div');
+    body.className = 'sight-modal-body';
+    body.style.cssText = `
+      padding: 20px;
+      overflow-y: auto;
+      flex: 1;
+    `;
+
+    if (typeof content === 'string') {
+      body.innerHTML = content;
+    } else {
+      body.appendChild(content);
+    }
+
+    // Create footer if needed
+    let footer: HTMLElement | null = null;
+    if (opts.footer) {
+      footer = document.createElement('div');
+      footer.className = 'sight-modal-footer';
+      footer.style.cssText = `
+        padding: 20px;
+        border-top: 1px solid #e5e7eb;
+        display: flex;
+        justify-content: flex-end;
+        gap: 10px;
+      `;
+    }
+
+    this.root = renderComponent('modal', {
+      title: opts.title,
+      content: body,
+      footer: footer || undefined,
+      width: opts.width,
+      height: opts.height,
+      className: opts.className,
+      closeOnOverlay: opts.closeOnOverlay,
+      onClose: opts.showCloseButton || opts.closeOnOverlay ? () => this.close() : undefined
+    }, () => this.renderModal(body, footer, opts));
+
+    if (opts.closeOnEscape) {
+      const escapeHandler = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          this.close();
+        }
+      };
+      this.escapeHandler = escapeHandler;
+      document.addEventListener('keydown', escapeHandler);
+    }
+
+    // Add styles if not already added
+    this.injectStyles();
+
+    // Append to DOM
+    document.body.appendChild(this.root);
+
+    // Focus first focusable element
+    const focusable = this.root.querySelector('input, textarea, select, button');
+    if (focusable) {
+      (focusable as HTMLElement).focus();
+    }
+
+    this.emit('open');
+    return footer || body;
+  }
+
+  close(): void {
+    const root = this.root;
+    if (root) {
+      if (this.modal) {
+        this.modal.style.animation = 'slideOut 0.2s ease';
+      }
+      if (this.overlay) {
+        this.overlay.style.animation = 'fadeOut 0.2s ease';
+      }
+      setTimeout(() => root.remove(), 200);
+    }
+    this.root = null;
+    this.modal = null;
+    this.overlay = null;
+
+    if (this.escapeHandler) {
+      document.removeEventListener('keydown', this.escapeHandler);
+      this.escapeHandler = null;
+    }
+
+    // Restore focus
+    if (this.originalFocus) {
+      this.originalFocus.focus();
+      this.originalFocus = null;
+    }
+
+    this.emit('close');
+  }
+
+  /**
+   * The built-in modal: an overlay and the dialog, in a container without a layout of its own
+   */
+  private renderModal(body: HTMLElement, footer: HTMLElement | null, opts: ModalOptions): HTMLElement {
+    const root = document.createElement('div');
+    root.className = 'sight-modal-root';
+
     // Create overlay
     this.overlay = document.createElement('div');
     this.overlay.className = 'sight-modal-overlay';
@@ -59,6 +169,10 @@ export class ModalManager extends EventEmitter {
     // Create modal
     this.modal = document.createElement('div');
     this.modal.className = `sight-modal ${opts.className || ''}`;
+    this.modal.setAttribute('role', 'dialog');
+    this.modal.setAttribute('aria-modal', 'true');
+    this.modal.lang = i18n.getLocale();
+    this.modal.dir = i18n.getDirection();
     this.modal.style.cssText = `
       position: fixed;
       top: 50%;
@@ -98,63 +212,7 @@ export class ModalManager extends EventEmitter {
     header.appendChild(title);
 
     if (opts.showCloseButton) {
-      const closeBtn = document.createElement('button');
-      closeBtn.innerHTML = '×';
-      closeBtn.className = 'sight-modal-close';
-      closeBtn.style.cssText = `
-        background: none;
-        border: none;
-        font-size: 28px;
-        color: #6b7280;
-        cursor: pointer;
-        padding: 0;
-        width: 32px;
-        height: 32px;
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        border-radius: 6px;
-        transition: all 0.2s;
-      `;
-      closeBtn.onmouseover = () => {
-        closeBtn.style.background = '#f3f4f6';
-        closeBtn.style.color = '#1f2937';
-      };
-      closeBtn.onmouseout = () => {
-        closeBtn.style.background = 'none';
-        closeBtn.style.color = '#6b7280';
-      };
-      closeBtn.onclick = () => this.close();
-      header.appendChild(closeBtn);
-    }
-
-    // Create body
-    const body = document.createElement('div');
-    body.className = 'sight-modal-body';
-    body.style.cssText = `
-      padding: 20px;
-      overflow-y: auto;
-      flex: 1;
-    `;
-
-    if (typeof content === 'string') {
-      body.innerHTML = content;
-    } else {
-      body.appendChild(content);
-    }
-
-    // Create footer if needed
-    let footer: HTMLElement | null = null;
-    if (opts.footer) {
-      footer = document.createElement('div');
-      footer.className = 'sight-modal-footer';
-      footer.style.cssText = `
-        padding: 20px;
-        border-top: 1px solid #e5e7eb;
-        display: flex;
-        justify-content: flex-end;
-        gap: 10px;
-      `;
+      header.appendChild(renderCloseButton(() => this.close(), 'sight-modal-close'));
     }
 
     // Assemble modal
@@ -164,66 +222,13 @@ export class ModalManager extends EventEmitter {
       this.modal.appendChild(footer);
     }
 
-    // Add event listeners
     if (opts.closeOnOverlay) {
       this.overlay.onclick = () => this.close();
     }
 
-    if (opts.closeOnEscape) {
-      const escapeHandler = (e: KeyboardEvent) => {
-        if (e.key === 'Escape') {
-          this.close();
-          document.removeEventListener('keydown', escapeHandler);
-        }
-      };
-      document.addEventListener('keydown', escapeHandler);
-    }
-
-    // Add styles if not already added
-    this.injectStyles();
-
-    // Append to DOM
-    document.body.appendChild(this.overlay);
-    document.body.appendChild(this.modal);
-
-    // Focus first focusable element
-    const focusable = this.modal.querySelector('input, textarea, select, button');
-    if (focusable) {
-      (focusable as HTMLElement).focus();
-    }
-
-    this.emit('open');
-    return footer || body;
-  }
-
-  close(): void {
-    if (this.modal) {
-      this.modal.style.animation = 'slideOut 0.2s ease';
-      setTimeout(() => {
-        if (this.modal && this.modal.parentNode) {
-          this.modal.parentNode.removeChild(this.modal);
-        }
-        this.modal = null;
-      }, 200);
-    }
-
-    if (this.overlay) {
-      this.overlay.style.animation = 'fadeOut 0.2s ease';
-      setTimeout(() => {
-        if (this.overlay && this.overlay.parentNode) {
-          this.overlay.parentNode.removeChild(this.overlay);
-        }
-        this.overlay = null;
-      }, 200);
-    }
-
-    // Restore focus
-    if (this.originalFocus) {
-      this.originalFocus.focus();
-      this.originalFocus = null;
-    }
-
-    this.emit('close');
+    root.appendChild(this.overlay);
+    root.appendChild(this.modal);
+    return root;
   }
 
   private injectStyles(): void {
@@ -269,8 +274,11 @@ export class ModalManager extends EventEmitter {
 }
 
 export class SidebarManager extends EventEmitter {
+  private root: HTMLElement | null = null;
   private sidebar: HTMLElement | null = null;
   private overlay: HTMLElement | null = null;
+  private escapeHandler: ((e: KeyboardEvent) => void) | null = null;
+  private side: 'left' | 'right' = 'right';
   private static instance: SidebarManager;
 
   static getInstance(): SidebarManager {
@@ -280,18 +288,101 @@ export class SidebarManager extends EventEmitter {
     return this.instance;
   }
 
+  /**
+   * Opens content in a sidebar, rendered by the `sidebar` component when an app
+   * overrides it. Returns the body the content was added to.
+   */
   open(content: HTMLElement | string, options: any = {}): HTMLElement {
     this.close();
 
+    const direction = i18n.getDirection();
     const opts = {
-      title: 'Edit',
+      title: t('modal.title'),
       width: '400px',
-      position: 'right',
+      position: 'end',
       closeOnEscape: true,
       closeOnOverlay: true,
       ...options
     };
 
+    // `start` and `end` follow the reading direction, so the sidebar opens on the left in RTL
+    this.side = opts.position === 'left' || opts.position === 'right'
+      ? opts.position
+      : (opts.position === 'start') === (direction === 'ltr') ? 'left' : 'right';
+
+    // Create body
+    const body = document.createElement('div');
+    body.style.cssText = `
+      padding: 20px;
+      overflow-y: auto;
+      flex: 1;
+    `;
+
+    if (typeof content === 'string') {
+      body.innerHTML = content;
+    } else {
+      body.appendChild(content);
+    }
+
+    this.root = renderComponent('sidebar', {
+      title: opts.title,
+      content: body,
+      width: opts.width,
+      position: this.side,
+      closeOnOverlay: opts.closeOnOverlay,
+      onClose: () => this.close()
+    }, () => this.renderSidebar(body, opts));
+
+    if (opts.closeOnEscape) {
+      const escapeHandler = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          this.close();
+        }
+      };
+      this.escapeHandler = escapeHandler;
+      document.addEventListener('keydown', escapeHandler);
+    }
+
+    // Add styles
+    this.injectStyles();
+
+    // Append to DOM
+    document.body.appendChild(this.root);
+
+    this.emit('open');
+    return body;
+  }
+
+  close(): void {
+    const root = this.root;
+    if (root) {
+      if (this.sidebar) {
+        this.sidebar.style.animation = `slideOut${this.side === 'right' ? 'Right' : 'Left'} 0.3s ease`;
+      }
+      if (this.overlay) {
+        this.overlay.style.animation = 'fadeOut 0.2s ease';
+      }
+      setTimeout(() => root.remove(), 300);
+    }
+    this.root = null;
+    this.sidebar = null;
+    this.overlay = null;
+
+    if (this.escapeHandler) {
+      document.removeEventListener('keydown', this.escapeHandler);
+      this.escapeHandler = null;
+    }
+
+    this.emit('close');
+  }
+
+  /**
+   * The built-in sidebar and its overlay, in a container without a layout of its own
+   */
+  private renderSidebar(body: HTMLElement, opts: any): HTMLElement {
+    const root = document.createElement('div');
+    root.className = 'sight-sidebar-root';
+
     // Create overlay
     this.overlay = document.createElement('div');
     this.overlay.className = 'sight-sidebar-overlay';
@@ -310,18 +401,21 @@ export class SidebarManager extends EventEmitter {
     // Create sidebar
     this.sidebar = document.createElement('div');
     this.sidebar.className = 'sight-sidebar';
+    this.sidebar.setAttribute('role', 'dialog');
+    this.sidebar.lang = i18n.getLocale();
+    this.sidebar.dir = i18n.getDirection();
     this.sidebar.style.cssText = `
       position: fixed;
       top: 0;
-      ${opts.position}: 0;
+      ${this.side}: 0;
       bottom: 0;
       width: ${opts.width};
       background: white;
-      box-shadow: -10px 0 30px rgba(0, 0, 0, 0.1);
+      box-shadow: ${this.side === 'right' ? '-10px' : '10px'} 0 30px rgba(0, 0, 0, 0.1);
       z-index: 999999;
       display: flex;
       flex-direction: column;
-      animation: slideIn${opts.position === 'right' ? 'Right' : 'Left'} 0.3s ease;
+      animation: slideIn${this.side === 'right' ? 'Right' : 'Left'} 0.3s ease;
     `;
 
     // Create header
@@ -343,88 +437,19 @@ export class SidebarManager extends EventEmitter {
       color: #1f2937;
     `;
     header.appendChild(title);
-
-    const closeBtn = document.createElement('button');
-    closeBtn.innerHTML = '×';
-    closeBtn.style.cssText = `
-      background: none;
-      border: none;
-      font-size: 28px;
-      color: #6b7280;
-      cursor: pointer;
-      padding: 0;
-      width: 32px;
-      height: 32px;
-    `;
-    closeBtn.onclick = () => this.close();
-    header.appendChild(closeBtn);
-
-    // Create body
-    const body = document.createElement('div');
-    body.style.cssText = `
-      padding: 20px;
-      overflow-y: auto;
-      flex: 1;
-    `;
-
-    if (typeof content === 'string') {
-      body.innerHTML = content;
-    } else {
-      body.appendChild(content);
-    }
+    header.appendChild(renderCloseButton(() => this.close()));
 
     // Assemble sidebar
     this.sidebar.appendChild(header);
     this.sidebar.appendChild(body);
 
-    // Event listeners
     if (opts.closeOnOverlay) {
       this.overlay.onclick = () => this.close();
     }
 
-    if (opts.closeOnEscape) {
-      const escapeHandler = (e: KeyboardEvent) => {
-        if (e.key === 'Escape') {
-          this.close();
-          document.removeEventListener('keydown', escapeHandler);
-        }
-      };
-      document.addEventListener('keydown', escapeHandler);
-    }
-
-    // Add styles
-    this.injectStyles();
-
-    // Append to DOM
-    document.body.appendChild(this.overlay);
-    document.body.appendChild(this.sidebar);
-
-    this.emit('open');
-    return body;
-  }
-
-  close(): void {
-    if (this.sidebar) {
-      this.sidebar.style.animation = 'slideOutRight 0.3s ease';
-      setTimeout(() => {
-        if (this.sidebar && this.sidebar.parentNode) {
-          this.sidebar.parentNode.removeChild(this.sidebar);
-        }
-        this.sidebar = null;
-      }, 300);
-    }
-
-    if (this.overlay) {
-      this.overlay.style.animation = 'fadeOut 0.2s ease';
-      setTimeout(() => {
-        if (this.overlay && this.overlay.parentNode) {
-          this.overlay.parentNode.removeChild(this.overlay);
-        }
-        this.overlay = null;
-      }, 200);
-    }
-
-    this.emit('close');
+    root.appendChild(this.overlay);
+    root.appendChild(this.sidebar);
+    return root;
   }
 
   private injectStyles(): void {
@@ -455,4 +480,43 @@ export class SidebarManager extends EventEmitter {
     `;
     document.head.appendChild(style);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The × button of the modal and sidebar headers, or the app's `closeButton`
+ */
+function renderCloseButton(onClose: () => void, className?: string): HTMLElement {
+  return renderComponent('closeButton', { label: t('modal.close'), onClick: onClose }, () => {
+    const closeBtn = document.createElement('button');
+    closeBtn.innerHTML = '×';
+    if (className) {
+      closeBtn.className = className;
+    }
+    closeBtn.setAttribute('aria-label', t('modal.close'));
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 28px;
+      color: #6b7280;
+      cursor: pointer;
+      padding: 0;
+      width: 32px;
+      height: 32px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      border-radius: 6px;
+      transition: all 0.2s;
+    `;
+    closeBtn.onmouseover = () => {
+      closeBtn.style.background = '#f3f4f6';
+      closeBtn.style.color = '#1f2937';
+    };
+    closeBtn.onmouseout = () => {
+      closeBtn.style.background = 'none';
+      closeBtn.style.color = '#6b7280';
+    };
+    closeBtn.onclick = onClose;
+    return closeBtn;
+  });
+}
@@ -0,0 +1,243 @@
+/**
+ * Schedule Panel - Side panel to publish drafts and take content offline at a set time
+ */
+import { SidebarManager } from './modal-manager';
+import { confirmAction } from './confirm-dialog';
+import { SightEditAPI } from '../api';
+import { ContentSchedule, ScheduleTarget } from '../types';
+import { i18n, t } from '../i18n/I18n';
+import type { HistoryTarget } from './history-panel';
+
+export interface SchedulePanelOptions {
+  page: string;
+  locale?: string;
+  targets: HistoryTarget[]; // Sights on the page, offered next to "all drafts on this page"
+  onSchedule: (target: ScheduleTarget) => Promise<ContentSchedule[]>;
+  onCancel: (schedule: ContentSchedule) => Promise<void>;
+}
+
+export class SchedulePanel {
+  private sidebar = SidebarManager.getInstance();
+  private list: HTMLElement | null = null;
+
+  constructor(private api: SightEditAPI) {}
+
+  open(options: SchedulePanelOptions): void {
+    const container = document.createElement('div');
+    container.style.cssText = 'display: flex; flex-direction: column; gap: 16px;';
+
+    const scope = document.createElement('select');
+    scope.style.cssText = INPUT_STYLE;
+    const pageOption = document.createElement('option');
+    pageOption.value = '';
+    pageOption.textContent = t('schedule.allDrafts');
+    scope.appendChild(pageOption);
+    options.targets.forEach((target, index) => {
+      const option = document.createElement('option');
+      option.value = String(index);
+      option.textContent = target.recordId ? `${target.sight} (${target.recordId})` : target.sight;
+      scope.appendChild(option);
+    });
+
+    const publishAt = this.createTimeInput();
+    const expireAt = this.createTimeInput();
+
+    const message = document.createElement('p');
+    message.setAttribute('role', 'status');
+    message.style.cssText = 'margin: 0; font-size: 13px; color: #6b7280;';
+
+    const submitBtn = document.createElement('button');
+    submitBtn.textContent = `⏰ ${t('schedule.submit')}`;
+    submitBtn.style.cssText = `
+      padding: 10px 20px;
+      background: #3b82f6;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    submitBtn.onclick = async () => {
+      const times = {
+        ...(publishAt.value ? { publishAt: new Date(publishAt.value) } : {}),
+        ...(expireAt.value ? { expireAt: new Date(expireAt.value) } : {})
+      };
+      if (!times.publishAt && !times.expireAt) {
+        this.setMessage(message, t('schedule.timeRequired'), true);
+        return;
+      }
+
+      const selected = scope.value === '' ? null : options.targets[Number(scope.value)];
+      const target: ScheduleTarget = selected
+        ? { ...selected, ...times }
+        : { page: options.page, ...(options.locale ? { locale: options.locale } : {}), ...times };
+
+      submitBtn.disabled = true;
+      try {
+        const schedules = await options.onSchedule(target);
+        this.setMessage(message, t('schedule.created', { count: schedules.length }), false);
+        publishAt.value = '';
+        expireAt.value = '';
+        this.load(options);
+      } catch (error) {
+        this.setMessage(message, t('schedule.failed', { error: (error as Error).message }), true);
+      } finally {
+        submitBtn.disabled = false;
+      }
+    };
+
+    container.appendChild(this.createField(t('schedule.content'), scope));
+    container.appendChild(this.createField(t('schedule.publishAt'), publishAt));
+    container.appendChild(this.createField(t('schedule.expireAt'), expireAt, t('schedule.optional')));
+    container.appendChild(submitBtn);
+    container.appendChild(message);
+
+    const heading = document.createElement('h4');
+    heading.textContent = t('schedule.upcoming');
+    heading.style.cssText = 'margin: 8px 0 0; color: #1f2937;';
+    container.appendChild(heading);
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = 'display: flex; flex-direction: column; gap: 8px;';
+    container.appendChild(this.list);
+
+    this.sidebar.open(container, { title: `⏰ ${t('schedule.title')}`, width: '420px' });
+    this.load(options);
+  }
+
+  close(): void {
+    this.sidebar.close();
+    this.list = null;
+  }
+
+  /**
+   * Lists pending schedules that touch a sight on this page
+   */
+  private async load(options: SchedulePanelOptions): Promise<void> {
+    const list = this.list;
+    if (!list) return;
+
+    list.textContent = t('schedule.loading');
+
+    let schedules: ContentSchedule[];
+    try {
+      schedules = await this.api.getSchedules({ status: 'scheduled' });
+    } catch {
+      list.textContent = t('schedule.loadFailed');
+      return;
+    }
+
+    const sights = new Set(options.targets.map(target => target.sight));
+    schedules = schedules.filter(schedule => schedule.sights.some(sight => sights.has(sight)));
+
+    list.innerHTML = '';
+    if (schedules.length === 0) {
+      list.textContent = t('schedule.empty');
+      return;
+    }
+
+    schedules.forEach(schedule => list.appendChild(this.createRow(schedule, options)));
+  }
+
+  private createRow(schedule: ContentSchedule, options: SchedulePanelOptions): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'sight-schedule';
+    row.dataset.schedule = schedule.id;
+    row.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 10px 12px;
+    `;
+
+    const details = document.createElement('div');
+    details.style.cssText = 'flex: 1; min-width: 0;';
+
+    const when = document.createElement('div');
+    when.textContent = t('schedule.action', {
+      action: schedule.action,
+      time: i18n.formatDate(schedule.runAt, { dateStyle: 'medium', timeStyle: 'short' })
+    });
+    when.style.cssText = `font-weight: 600; color: ${schedule.action === 'publish' ? '#065f46' : '#991b1b'};`;
+
+    const sights = document.createElement('div');
+    sights.textContent = schedule.sights.join(', ');
+    sights.style.cssText = 'font-size: 12px; color: #6b7280; margin-top: 4px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+
+    details.appendChild(when);
+    details.appendChild(sights);
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.textContent = t('schedule.cancel');
+    cancelBtn.style.cssText = `
+      padding: 6px 12px;
+      background: white;
+      color: #ef4444;
+      border: 2px solid #fecaca;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = async () => {
+      if (!await confirmAction({ message: t('schedule.cancelConfirm'), variant: 'danger' })) return;
+
+      cancelBtn.disabled = true;
+      try {
+        await options.onCancel(schedule);
+        this.load(options);
+      } catch {
+        cancelBtn.disabled = false;
+      }
+    };
+
+    row.appendChild(details);
+    row.appendChild(cancelBtn);
+    return row;
+  }
+
+  private createTimeInput(): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'datetime-local';
+    input.min = toLocalInputValue(new Date());
+    input.style.cssText = INPUT_STYLE;
+    return input;
+  }
+
+  private createField(label: string, control: HTMLElement, hint?: string): HTMLElement {
+    const field = document.createElement('label');
+    field.style.cssText = 'display: flex; flex-direction: column; gap: 6px; font-size: 14px; font-weight: 600; color: #374151;';
+    field.appendChild(document.createTextNode(label));
+    field.appendChild(control);
+    if (hint) {
+      const note = document.createElement('span');
+      note.textContent = hint;
+      note.style.cssText = 'font-size: 12px; font-weight: 400; color: #6b7280;';
+      field.appendChild(note);
+    }
+    return field;
+  }
+
+  private setMessage(element: HTMLElement, text: string, error: boolean): void {
+    element.textContent = text;
+    element.style.color = error ? '#dc2626' : '#065f46';
+  }
+}
+
+const INPUT_STYLE = `
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px;
+  border: 2px solid #e5e7eb;
+  border-radius: 6px;
+  font-size: 14px;
+`;
+
+/**
+ * `datetime-local` values are wall-clock time without a zone
+ */
+function toLocalInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Translation Pane - Shows a sight's value in the source locale next to the editor
+ * while it is being translated, with a button to start from a copy of it
+ */
+import { TranslationSource } from '../types';
+import { HTMLSanitizer } from '../utils/sanitizer';
+import { t } from '../i18n/I18n';
+
+export interface TranslationPaneOptions {
+  html?: boolean; // The value is markup rather than plain text
+  onCopy: (value: string) => void;
+}
+
+/**
+ * Only locales other than the source one have something to translate from
+ */
+export function isTranslating(translation: TranslationSource | undefined): translation is TranslationSource {
+  return !!translation && translation.getLocale() !== translation.sourceLocale;
+}
+
+export function createTranslationPane(translation: TranslationSource, options: TranslationPaneOptions): HTMLElement {
+  const source = translation.sourceLocale.toUpperCase();
+  const target = translation.getLocale().toUpperCase();
+
+  const pane = document.createElement('div');
+  pane.className = 'sight-translation-source';
+  pane.setAttribute('role', 'complementary');
+  pane.setAttribute('aria-label', t('translation.source', { locale: source }));
+  pane.style.cssText = `
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    padding: 12px;
+    background: #f9fafb;
+    border: 1px solid #e5e7eb;
+    border-radius: 8px;
+    font-size: 14px;
+    color: #374151;
+  `;
+
+  const header = document.createElement('div');
+  header.style.cssText = 'display: flex; align-items: center; justify-content: space-between; gap: 12px;';
+
+  const title = document.createElement('strong');
+  title.textContent = `🌐 ${t('translation.from', { source, target })}`;
+  title.style.cssText = 'font-size: 12px; color: #6b7280;';
+
+  const copyBtn = document.createElement('button');
+  copyBtn.type = 'button';
+  copyBtn.textContent = t('translation.copy');
+  copyBtn.disabled = true;
+  copyBtn.style.cssText = `
+    padding: 4px 10px;
+    background: white;
+    border: 1px solid #d1d5db;
+    border-radius: 4px;
+    font-size: 12px;
+    cursor: pointer;
+  `;
+
+  const body = document.createElement('div');
+  body.textContent = t('translation.loading');
+  body.style.cssText = 'max-height: 400px; overflow: auto; line-height: 1.5;';
+
+  header.appendChild(title);
+  header.appendChild(copyBtn);
+  pane.appendChild(header);
+  pane.appendChild(body);
+
+  translation.getSource().then(value => {
+    const text = typeof value === 'string' ? value : '';
+    if (!text) {
+      body.textContent = t('translation.empty', { locale: source });
+      return;
+    }
+
+    const content = options.html ? HTMLSanitizer.sanitize(text) : text;
+    if (options.html) {
+      body.innerHTML = content;
+    } else {
+      body.textContent = content;
+    }
+    copyBtn.disabled = false;
+    copyBtn.onclick = () => options.onCopy(content);
+  }).catch(() => {
+    body.textContent = t('translation.failed', { locale: source });
+  });
+
+  return pane;
+}
@@ -0,0 +1,276 @@
+/**
+ * Workflow Panel - Side panel with the review stage of a page's pending changes
+ */
+import { SidebarManager } from './modal-manager';
+import { SightEditAPI } from '../api';
+import { WorkflowAction, WorkflowItem, WorkflowResponse, WorkflowStatus, WorkflowTransition } from '../types';
+import { i18n, t } from '../i18n/I18n';
+
+export interface WorkflowPanelOptions {
+  page: string;
+  locale?: string;
+  onAction: (action: WorkflowAction, comment: string) => Promise<WorkflowResponse>;
+}
+
+// Built-in stages, translated; configured stages use the name the server sends
+const BUILT_IN_STAGES = ['draft', 'approved', 'rejected'];
+
+export class WorkflowPanel {
+  private sidebar = SidebarManager.getInstance();
+  private list: HTMLElement | null = null;
+  private buttons = new Map<WorkflowAction, HTMLButtonElement>();
+  private options: WorkflowPanelOptions | null = null;
+
+  constructor(private api: SightEditAPI) {}
+
+  open(options: WorkflowPanelOptions): void {
+    this.options = options;
+
+    const container = document.createElement('div');
+    container.style.cssText = 'display: flex; flex-direction: column; gap: 16px;';
+
+    this.list = document.createElement('div');
+    this.list.style.cssText = 'display: flex; flex-direction: column; gap: 8px;';
+
+    const comment = document.createElement('textarea');
+    comment.rows = 3;
+    comment.maxLength = 2000;
+    comment.placeholder = t('workflow.commentPlaceholder');
+    comment.style.cssText = INPUT_STYLE;
+
+    const message = document.createElement('p');
+    message.setAttribute('role', 'status');
+    message.style.cssText = 'margin: 0; font-size: 13px; color: #dc2626;';
+
+    const actions = document.createElement('div');
+    actions.style.cssText = 'display: flex; gap: 8px; flex-wrap: wrap;';
+
+    this.buttons.clear();
+    (['submit', 'approve', 'reject'] as WorkflowAction[]).forEach(action => {
+      const btn = document.createElement('button');
+      btn.textContent = t(`workflow.${action}`);
+      btn.dataset.action = action;
+      btn.disabled = true;
+      btn.style.cssText = action === 'reject' ? SECONDARY_BUTTON_STYLE : PRIMARY_BUTTON_STYLE;
+      btn.onclick = async () => {
+        const text = comment.value.trim();
+        if (action === 'reject' && !text) {
+          message.textContent = t('workflow.commentRequired');
+          comment.focus();
+          return;
+        }
+
+        this.buttons.forEach(button => {
+          button.disabled = true;
+        });
+        try {
+          await options.onAction(action, text);
+          message.textContent = '';
+          comment.value = '';
+        } catch (error) {
+          message.textContent = t('workflow.failed', { error: (error as Error).message });
+        }
+        this.load();
+      };
+      this.buttons.set(action, btn);
+      actions.appendChild(btn);
+    });
+
+    container.appendChild(this.list);
+    container.appendChild(comment);
+    container.appendChild(actions);
+    container.appendChild(message);
+
+    this.sidebar.open(container, { title: `🚦 ${t('workflow.title')}`, width: '420px' });
+    this.load();
+  }
+
+  close(): void {
+    this.sidebar.close();
+    this.list = null;
+    this.options = null;
+  }
+
+  /**
+   * Reload the stages if the panel is open
+   */
+  refresh(): void {
+    if (this.list && this.list.isConnected) {
+      this.load();
+    }
+  }
+
+  private async load(): Promise<void> {
+    const list = this.list;
+    const options = this.options;
+    if (!list || !options) return;
+
+    list.textContent = t('workflow.loading');
+
+    let status: WorkflowStatus;
+    try {
+      status = await this.api.getWorkflow({ page: options.page, ...(options.locale ? { locale: options.locale } : {}) });
+    } catch {
+      list.textContent = t('workflow.loadFailed');
+      return;
+    }
+    // Closed or reopened while loading
+    if (list !== this.list) return;
+
+    this.buttons.forEach((button, action) => {
+      button.disabled = !status.items.some(item => item.actions.includes(action));
+    });
+
+    list.innerHTML = '';
+    list.appendChild(this.createStages(status));
+    if (status.items.length === 0) {
+      const empty = document.createElement('p');
+      empty.textContent = t('workflow.empty');
+      empty.style.cssText = 'margin: 0; color: #6b7280;';
+      list.appendChild(empty);
+      return;
+    }
+    status.items.forEach(item => list.appendChild(this.createRow(item)));
+  }
+
+  /**
+   * The path changes take, e.g. Draft → In review → Legal → Approved
+   */
+  private createStages(status: WorkflowStatus): HTMLElement {
+    const path = document.createElement('div');
+    path.className = 'sight-workflow-stages';
+    path.style.cssText = 'font-size: 12px; color: #6b7280;';
+    path.textContent = [
+      stageLabel('draft'),
+      ...status.stages.map(stage => stageLabel(stage.id, stage.name)),
+      stageLabel('approved')
+    ].join(' → ');
+    return path;
+  }
+
+  private createRow(item: WorkflowItem): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'sight-workflow-item';
+    row.dataset.stage = item.stage;
+    row.style.cssText = `
+      border: 2px solid #e5e7eb;
+      border-radius: 8px;
+      padding: 10px 12px;
+    `;
+
+    const header = document.createElement('div');
+    header.style.cssText = 'display: flex; align-items: center; gap: 8px;';
+
+    const sight = document.createElement('span');
+    sight.textContent = item.recordId ? `${item.sight} (${item.recordId})` : item.sight;
+    sight.style.cssText = 'flex: 1; min-width: 0; font-weight: 600; color: #1f2937; overflow: hidden; text-overflow: ellipsis;';
+
+    const stage = document.createElement('span');
+    stage.textContent = stageLabel(item.stage, item.stageName);
+    stage.style.cssText = `
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-size: 12px;
+      font-weight: 600;
+      color: white;
+      background: ${STAGE_COLORS[item.stage] ?? REVIEW_STAGE_COLOR};
+    `;
+
+    header.appendChild(sight);
+    header.appendChild(stage);
+    row.appendChild(header);
+
+    const last = item.history[item.history.length - 1];
+    if (last) {
+      row.appendChild(this.createTransition(last));
+    }
+    return row;
+  }
+
+  private createTransition(transition: WorkflowTransition): HTMLElement {
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 12px; color: #6b7280; margin-top: 6px;';
+    details.textContent = t(`workflow.history.${transition.action}`, {
+      user: transition.by?.name || transition.by?.id || t('workflow.someone'),
+      time: i18n.formatDate(transition.at, { dateStyle: 'medium', timeStyle: 'short' })
+    });
+
+    if (transition.comment) {
+      const comment = document.createElement('blockquote');
+      comment.textContent = transition.comment;
+      comment.style.cssText = 'margin: 4px 0 0; padding-inline-start: 8px; border-inline-start: 3px solid #e5e7eb; color: #374151; white-space: pre-wrap;';
+      details.appendChild(comment);
+    }
+    return details;
+  }
+}
+
+/**
+ * Display name of a stage: built-in stages are translated, configured ones use their name
+ */
+export function stageLabel(stage: string, name?: string): string {
+  return BUILT_IN_STAGES.includes(stage) ? t(`workflow.stage.${stage}`) : name || stage;
+}
+
+/**
+ * The least advanced stage among a page's pending changes and how many are in it.
+ * Rejected changes come first, since they need the editor's attention.
+ */
+export function pageStage(status: WorkflowStatus): { stage: string; label: string; count: number } | null {
+  const order = ['rejected', 'draft', ...status.stages.map(stage => stage.id), 'approved'];
+  let first: WorkflowItem | null = null;
+  status.items.forEach(item => {
+    if (!first || order.indexOf(item.stage) < order.indexOf(first.stage)) {
+      first = item;
+    }
+  });
+  if (!first) {
+    return null;
+  }
+  const { stage, stageName } = first as WorkflowItem;
+  return {
+    stage,
+    label: stageLabel(stage, stageName),
+    count: status.items.filter(item => item.stage === stage).length
+  };
+}
+
+const STAGE_COLORS: Record<string, string> = {
+  draft: '#6b7280',
+  rejected: '#dc2626',
+  approved: '#059669'
+};
+
+// Configured review stages
+const REVIEW_STAGE_COLOR = '#d97706';
+
+const INPUT_STYLE = `
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px;
+  border: 2px solid #e5e7eb;
+  border-radius: 6px;
+  font-size: 14px;
+  font-family: inherit;
+  resize: vertical;
+`;
+
+const PRIMARY_BUTTON_STYLE = `
+  padding: 8px 16px;
+  background: #3b82f6;
+  color: white;
+  border: none;
+  border-radius: 6px;
+  font-weight: 600;
+  cursor: pointer;
+`;
+
+const SECONDARY_BUTTON_STYLE = `
+  padding: 8px 16px;
+  background: white;
+  color: #ef4444;
+  border: 2px solid #fecaca;
+  border-radius: 6px;
+  font-weight: 600;
+  cursor: pointer;
+`;
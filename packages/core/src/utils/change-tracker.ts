@@ -8,16 +8,19 @@ export interface TrackedChange {
   type: string;
   timestamp: number;
   element: HTMLElement;
+  version?: number; // Server version the edit started from
+  locale?: string; // Content locale the edit was made in
 }
 
 export class ChangeTracker {
   private changes: Map<string, TrackedChange> = new Map();
   private history: Map<string, TrackedChange[]> = new Map();
+  private versions: Map<string, number> = new Map();
   
   /**
    * Track a change
    */
-  track(sight: string, value: any, originalValue: any, type: string, element: HTMLElement): void {
+  track(sight: string, value: any, originalValue: any, type: string, element: HTMLElement, version?: number, locale?: string): void {
     const existing = this.changes.get(sight);
     
     // Store history of changes for this sight
@@ -34,7 +37,9 @@ export class ChangeTracker {
       originalValue: existing ? existing.originalValue : originalValue, // Keep first original
       type,
       timestamp: Date.now(),
-      element
+      element,
+      version: existing ? existing.version : (version ?? this.versions.get(sight)), // Keep first version
+      locale: existing ? existing.locale : locale
     });
     
     // Store in localStorage for persistence
@@ -69,6 +74,44 @@ export class ChangeTracker {
     return this.changes.size;
   }
   
+  /**
+   * Record the server version of a sight as last seen by this client
+   */
+  setVersion(sight: string, version: number | null | undefined): void {
+    if (typeof version === 'number') {
+      this.versions.set(sight, version);
+    } else {
+      this.versions.delete(sight);
+    }
+  }
+  
+  /**
+   * Forget every known server version, e.g. when switching to content in another locale
+   */
+  clearVersions(): void {
+    this.versions.clear();
+  }
+  
+  /**
+   * Get the last known server version of a sight
+   */
+  getVersion(sight: string): number | undefined {
+    return this.versions.get(sight);
+  }
+  
+  /**
+   * Move a pending change onto a newer server version after a conflict was resolved
+   */
+  rebase(sight: string, value: any, version: number | null): void {
+    const change = this.changes.get(sight);
+    if (!change) return;
+    
+    change.value = value;
+    change.version = version ?? undefined;
+    this.setVersion(sight, version);
+    this.persist();
+  }
+  
   /**
    * Clear a specific change
    */
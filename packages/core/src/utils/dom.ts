@@ -152,4 +152,64 @@ export function unescapeHtml(text: string): string {
   };
   
   return text.replace(/&amp;|&lt;|&gt;|&quot;|&#039;/g, m => map[m]);
-}
\ No newline at end of file
+}
+/**
+ * Selection inside an element as character offsets into its textContent, or null
+ * when the selection is elsewhere
+ */
+export function getTextSelection(element: HTMLElement): { start: number; end: number } | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!element.contains(range.startContainer) || !element.contains(range.endContainer)) return null;
+
+  const offsetOf = (container: Node, offset: number): number => {
+    const before = document.createRange();
+    before.selectNodeContents(element);
+    before.setEnd(container, offset);
+    return before.toString().length;
+  };
+
+  return {
+    start: offsetOf(range.startContainer, range.startOffset),
+    end: offsetOf(range.endContainer, range.endOffset)
+  };
+}
+
+/**
+ * Places the selection at textContent offsets inside an element
+ */
+export function setTextSelection(element: HTMLElement, start: number, end: number = start): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const locate = (offset: number): { node: Node; offset: number } => {
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    let remaining = offset;
+    let node = walker.nextNode();
+    let last: Node | null = null;
+
+    while (node) {
+      const length = node.textContent?.length || 0;
+      if (remaining <= length) {
+        return { node, offset: remaining };
+      }
+      remaining -= length;
+      last = node;
+      node = walker.nextNode();
+    }
+
+    return last
+      ? { node: last, offset: last.textContent?.length || 0 }
+      : { node: element, offset: element.childNodes.length };
+  };
+
+  const from = locate(start);
+  const to = locate(end);
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
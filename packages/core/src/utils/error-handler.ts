@@ -1,6 +1,7 @@
 /**
  * Error handling utilities for better debugging and user experience
  */
+import type { VersionConflict, FieldError } from '../types';
 
 export enum ErrorType {
   VALIDATION = 'validation',
@@ -15,7 +16,8 @@ export enum ErrorType {
   UNAVAILABLE = 'unavailable',
   CONFIGURATION = 'configuration',
   DATA_CORRUPTION = 'data_corruption',
-  EXTERNAL_SERVICE = 'external_service'
+  EXTERNAL_SERVICE = 'external_service',
+  CONFLICT = 'conflict'
 }
 
 export interface ErrorDetails {
@@ -199,6 +201,42 @@ export class DataCorruptionError extends SightEditError {
   retryable = false as const;
 }
 
+export class ConflictError extends SightEditError {
+  type = ErrorType.CONFLICT as const;
+  severity = ErrorSeverity.MEDIUM as const;
+  recoverable = true as const;
+  retryable = false as const;
+  
+  constructor(message: string, public conflicts: VersionConflict[], context?: Record<string, any>) {
+    super(message, { ...context, conflicts });
+  }
+}
+
+export class SchemaValidationError extends ValidationError {
+  constructor(message: string, public errors: FieldError[], context?: Record<string, any>) {
+    super(message, { ...context, errors });
+  }
+}
+
+/**
+ * A `before` hook stopped the operation by setting `cancel` on its context
+ */
+export class HookCancelledError extends ValidationError {
+  constructor(public event: string, public reason?: string, context?: Record<string, any>) {
+    super(reason || `Cancelled by a ${event} hook`, { ...context, event, reason });
+  }
+}
+
+/**
+ * Computed fields that depend on each other. `cycle` lists the sights in order and
+ * ends with the one it starts with.
+ */
+export class CircularDependencyError extends ConfigurationError {
+  constructor(public cycle: string[], context?: Record<string, any>) {
+    super(`Computed fields depend on each other: ${cycle.join(' → ')}`, { ...context, cycle });
+  }
+}
+
 /**
  * Circuit breaker for external service calls
  */
@@ -512,7 +550,8 @@ export class ErrorHandler {
       [ErrorType.UNAVAILABLE]: 0,
       [ErrorType.CONFIGURATION]: 0,
       [ErrorType.DATA_CORRUPTION]: 0,
-      [ErrorType.EXTERNAL_SERVICE]: 0
+      [ErrorType.EXTERNAL_SERVICE]: 0,
+      [ErrorType.CONFLICT]: 0
     };
 
     this.errors.forEach(error => {
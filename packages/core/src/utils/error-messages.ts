@@ -1,7 +1,11 @@
 /**
- * Standardized error message formatting for consistent user experience
+ * Standardized error message formatting for consistent user experience.
+ * Messages come from the `error.*` keys of the UI catalog, so they follow the
+ * editor's UI language.
  */
 
+import { t } from '../i18n/I18n';
+
 export interface StandardizedError {
   code: string;
   message: string;
@@ -16,83 +20,83 @@ export interface StandardizedError {
 export class ErrorMessages {
   // Validation errors
   static readonly VALIDATION_REQUIRED = (field: string): string => 
-    `${field} is required`;
+    t('error.required', { field });
   
   static readonly VALIDATION_FORMAT = (field: string, format: string): string => 
-    `${field} must be in ${format} format`;
+    t('error.format', { field, format });
   
   static readonly VALIDATION_LENGTH = (field: string, min?: number, max?: number): string => {
-    if (min && max) return `${field} must be between ${min} and ${max} characters`;
-    if (min) return `${field} must be at least ${min} characters`;
-    if (max) return `${field} must be no more than ${max} characters`;
-    return `${field} length is invalid`;
+    if (min && max) return t('error.lengthBetween', { field, min, max });
+    if (min) return t('error.lengthMin', { field, min });
+    if (max) return t('error.lengthMax', { field, max });
+    return t('error.lengthInvalid', { field });
   };
 
   static readonly VALIDATION_RANGE = (field: string, min?: number, max?: number): string => {
-    if (min && max) return `${field} must be between ${min} and ${max}`;
-    if (min) return `${field} must be at least ${min}`;
-    if (max) return `${field} must be no more than ${max}`;
-    return `${field} value is out of range`;
+    if (min && max) return t('error.rangeBetween', { field, min, max });
+    if (min) return t('error.rangeMin', { field, min });
+    if (max) return t('error.rangeMax', { field, max });
+    return t('error.rangeInvalid', { field });
   };
 
   static readonly VALIDATION_TYPE = (field: string, expectedType: string): string =>
-    `${field} must be of type ${expectedType}`;
+    t('error.type', { field, type: expectedType });
 
   // Network errors
   static readonly NETWORK_TIMEOUT = (timeout: number): string => 
-    `Request timed out after ${timeout}ms`;
+    t('error.timeout', { timeout });
   
   static readonly NETWORK_CONNECTION_FAILED = (): string => 
-    'Unable to connect to server. Please check your internet connection.';
+    t('error.connection');
   
   static readonly NETWORK_SERVER_ERROR = (statusCode?: number): string => 
-    `Server error${statusCode ? ` (${statusCode})` : ''}. Please try again later.`;
+    statusCode ? t('error.serverStatus', { status: String(statusCode) }) : t('error.server');
 
   static readonly NETWORK_RATE_LIMITED = (): string => 
-    'Too many requests. Please wait before trying again.';
+    t('error.rateLimited');
 
   // Permission errors
   static readonly PERMISSION_DENIED = (action: string): string => 
-    `Permission denied for action: ${action}`;
+    t('error.permissionDenied', { action });
   
   static readonly PERMISSION_INSUFFICIENT_PRIVILEGES = (): string => 
-    'You do not have sufficient privileges to perform this action';
+    t('error.insufficientPrivileges');
 
   static readonly PERMISSION_AUTHENTICATION_REQUIRED = (): string => 
-    'Authentication required to access this resource';
+    t('error.authenticationRequired');
 
   // Security errors
   static readonly SECURITY_INVALID_TOKEN = (): string => 
-    'Security token is invalid or expired';
+    t('error.invalidToken');
 
   static readonly SECURITY_CSRF_TOKEN_MISMATCH = (): string => 
-    'Security validation failed. Please refresh the page and try again.';
+    t('error.csrf');
 
   static readonly SECURITY_SUSPICIOUS_ACTIVITY = (): string => 
-    'Suspicious activity detected. Access has been restricted.';
+    t('error.suspiciousActivity');
 
   // File/Upload errors  
   static readonly FILE_TOO_LARGE = (maxSize: string): string => 
-    `File is too large. Maximum size allowed is ${maxSize}`;
+    t('error.fileTooLarge', { maxSize });
 
   static readonly FILE_INVALID_TYPE = (allowedTypes: string[]): string => 
-    `Invalid file type. Allowed types: ${allowedTypes.join(', ')}`;
+    t('error.fileType', { types: allowedTypes.join(', ') });
 
   static readonly FILE_UPLOAD_FAILED = (): string => 
-    'File upload failed. Please try again.';
+    t('error.uploadFailed');
 
   // General runtime errors
   static readonly RUNTIME_UNEXPECTED_ERROR = (): string => 
-    'An unexpected error occurred. Please try again or contact support.';
+    t('error.unexpected');
 
   static readonly RUNTIME_OPERATION_FAILED = (operation: string): string => 
-    `Failed to ${operation}. Please try again.`;
+    t('error.operationFailed', { operation });
 
   static readonly RUNTIME_RESOURCE_NOT_FOUND = (resource: string): string => 
-    `${resource} not found`;
+    t('error.notFound', { resource });
 
   static readonly RUNTIME_RESOURCE_ALREADY_EXISTS = (resource: string): string => 
-    `${resource} already exists`;
+    t('error.alreadyExists', { resource });
 
   /**
    * Creates a standardized error object
@@ -193,7 +197,7 @@ export class ErrorMessages {
 
     switch (type) {
       case 'denied':
-        message = this.PERMISSION_DENIED(details?.action || 'this action');
+        message = this.PERMISSION_DENIED(details?.action || t('error.thisAction'));
         code = 'PERMISSION_DENIED';
         break;
       case 'insufficient':
@@ -243,7 +247,7 @@ export class ErrorMessages {
   static getUserFriendlyMessage(error: StandardizedError): string {
     // Return generic messages for security-sensitive errors
     if (error.category === 'security') {
-      return 'A security issue was detected. Please contact support if this continues.';
+      return t('error.securityIssue');
     }
 
     // For other categories, return the formatted message
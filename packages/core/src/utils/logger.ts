@@ -439,48 +439,18 @@ export const log = {
     }
   },
   
-  // Export
-  export: (filter?: LogFilter) => {
-    return logger.exportLogs(filter);
-  },
-  
-  // Configuration
-  configure: (options: Parameters<StructuredLogger['configure']>[0]) => {
-    logger.configure(options);
-  },
-  
   // Add output targets
   addOutput: (output: LogOutput) => {
     logger.addOutput(output);
   },
   
-  // Create Sentry output
-  createSentryOutput: (dsn: string, environment?: string, release?: string) => {
-    return new SentryLogOutput(dsn, environment, release);
-  },
-  
   // Create remote output
   createRemoteOutput: (endpoint: string, apiKey?: string, batchSize?: number) => {
     return new RemoteLogOutput(endpoint, apiKey, batchSize);
   },
   
   // Create performance output
-  createPerformanceOutput: (threshold?: number, bufferSize?: number) => {
-    return new PerformanceLogOutput(threshold, bufferSize);
-  },
-  
-  // Create analytics output
-  createAnalyticsOutput: (analyticsEndpoint?: string, trackingId?: string, bufferSize?: number) => {
-    return new AnalyticsLogOutput(analyticsEndpoint, trackingId, bufferSize);
+  createPerformanceOutput: () => {
+    return new PerformanceLogOutput();
   }
 };
-
-// Export types for external use
-export type {
-  LogContext,
-  LogEntry,
-  LogFilter,
-  LogMetrics
-};
-
-// Classes already exported individually above
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * Responsive image helpers shared by the image editors. A value is either a plain URL or a
+ * ResponsiveImageValue; plain URLs are kept for images without srcset or focal point so
+ * existing content keeps its shape.
+ */
+import { FocalPoint, MediaAsset, ResponsiveImageValue } from '../types';
+
+export const DEFAULT_SIZES = '100vw';
+
+const UPLOAD_PATTERN = /^(?:https?:\/\/[^/]+)?\/uploads\/([a-zA-Z0-9._-]+)$/;
+
+export function normalizeImageValue(value: string | ResponsiveImageValue | null | undefined): ResponsiveImageValue {
+  if (value && typeof value === 'object') {
+    return { ...value, src: typeof value.src === 'string' ? value.src : '' };
+  }
+  return { src: typeof value === 'string' ? value : '' };
+}
+
+/**
+ * Returns the plain URL unless the value has a srcset or focal point
+ */
+export function compactImageValue(value: ResponsiveImageValue): string | ResponsiveImageValue {
+  if (!value.srcset && !value.focalPoint) {
+    return value.src;
+  }
+
+  const compact: ResponsiveImageValue = { src: value.src };
+  if (value.alt) compact.alt = value.alt;
+  if (value.srcset) compact.srcset = value.srcset;
+  if (value.srcset && value.sizes) compact.sizes = value.sizes;
+  if (value.focalPoint) compact.focalPoint = value.focalPoint;
+  return compact;
+}
+
+/**
+ * Asset id of a file served from the upload route, without query string
+ */
+export function assetIdFromUrl(url: string): string | null {
+  const match = url.split(/[?#]/)[0].match(UPLOAD_PATTERN);
+  return match && !match[1].includes('..') ? match[1] : null;
+}
+
+/**
+ * srcset of an uploaded image, served through the transform route so the server can
+ * pick WebP or AVIF per browser
+ */
+export function buildSrcset(src: string, widths: number[]): string {
+  const base = src.split(/[?#]/)[0];
+  return Array.from(new Set(widths))
+    .filter(width => Number.isInteger(width) && width > 0)
+    .sort((a, b) => a - b)
+    .map(width => `${base}?w=${width}&format=auto ${width}w`)
+    .join(', ');
+}
+
+export function responsiveValueFromAsset(
+  asset: MediaAsset,
+  options: { alt?: string; sizes?: string; focalPoint?: FocalPoint } = {}
+): ResponsiveImageValue {
+  const widths = (asset.variants || []).map(variant => variant.width);
+  if (asset.width) widths.push(asset.width);
+
+  return {
+    src: asset.url,
+    alt: options.alt ?? asset.alt,
+    srcset: widths.length > 1 ? buildSrcset(asset.url, widths) : undefined,
+    sizes: options.sizes || DEFAULT_SIZES,
+    focalPoint: options.focalPoint ?? asset.focalPoint
+  };
+}
+
+export function focalPointToPosition(focalPoint: FocalPoint): string {
+  return `${Math.round(focalPoint.x * 100)}% ${Math.round(focalPoint.y * 100)}%`;
+}
+
+/**
+ * Writes a value onto an `<img>` (src, srcset, sizes, alt and object-position) or onto
+ * any other element as its background image. URLs that fail `sanitize` are dropped.
+ */
+export function applyImageValue(
+  element: HTMLElement,
+  value: string | ResponsiveImageValue,
+  sanitize: (url: string) => string = sanitizeImageUrl
+): void {
+  const image = normalizeImageValue(value);
+  const src = sanitize(image.src);
+  const position = image.focalPoint ? focalPointToPosition(image.focalPoint) : '';
+
+  if (image.focalPoint) {
+    element.dataset.focalPoint = `${image.focalPoint.x},${image.focalPoint.y}`;
+  } else {
+    delete element.dataset.focalPoint;
+  }
+
+  if (element.tagName !== 'IMG') {
+    element.style.backgroundImage = `url('${src}')`;
+    element.style.backgroundPosition = position;
+    return;
+  }
+
+  const img = element as HTMLImageElement;
+  img.src = src;
+  if (image.alt !== undefined) img.alt = image.alt;
+  img.style.objectPosition = position;
+
+  const srcset = image.srcset && sanitizeSrcset(image.srcset, sanitize);
+  if (srcset) {
+    img.setAttribute('srcset', srcset);
+    img.setAttribute('sizes', image.sizes || img.dataset.sizes || DEFAULT_SIZES);
+  } else {
+    img.removeAttribute('srcset');
+    img.removeAttribute('sizes');
+  }
+}
+
+/**
+ * Reads the value of an `<img>`, as a plain URL unless it has a srcset or focal point
+ */
+export function readImageValue(img: HTMLImageElement): string | ResponsiveImageValue {
+  return compactImageValue({
+    src: img.src,
+    alt: img.alt,
+    srcset: img.getAttribute('srcset') || undefined,
+    sizes: img.getAttribute('sizes') || undefined,
+    focalPoint: parseFocalPoint(img.dataset.focalPoint)
+  });
+}
+
+export function parseFocalPoint(raw: string | undefined): FocalPoint | undefined {
+  if (!raw) return undefined;
+  const [x, y] = raw.split(',').map(Number);
+  return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : undefined;
+}
+
+/**
+ * Allows http(s), protocol-relative and root-relative URLs and image data URLs; anything
+ * else becomes an empty string
+ */
+export function sanitizeImageUrl(url: string): string {
+  if (!url || typeof url !== 'string') {
+    return '';
+  }
+
+  // Remove whitespace
+  const trimmed = url.trim();
+
+  // Allow http://, https://, data:image/,  // (protocol-relative), and / (absolute/relative paths)
+  const allowedProtocols = /^(https?:\/\/|data:image\/|\/\/|\/)/i;
+
+  if (!allowedProtocols.test(trimmed)) {
+    console.warn('Invalid image URL protocol. Only http://, https://, data:image/, and relative URLs are allowed.');
+    return '';
+  }
+
+  // Prevent javascript: and other dangerous protocols
+  if (/^(javascript|vbscript|data:(?!image\/))/i.test(trimmed)) {
+    console.error('Blocked dangerous URL protocol');
+    return '';
+  }
+
+  return trimmed;
+}
+
+function sanitizeSrcset(srcset: string, sanitize: (url: string) => string): string {
+  return srcset
+    .split(',')
+    .map(candidate => candidate.trim())
+    .filter(candidate => {
+      const [url] = candidate.split(/\s+/);
+      return url.length > 0 && sanitize(url) === url;
+    })
+    .join(', ');
+}
@@ -0,0 +1,11 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    // The server package isn't a workspace, so tests run against its source
+    '^@sightedit/server-node$': '<rootDir>/../server/node/src/index.ts'
+  },
+  moduleFileExtensions: ['ts', 'js', 'json']
+};
@@ -0,0 +1,189 @@
+/**
+ * The storage data source serves published content unless drafts are asked for and
+ * allowed, and saves through the REST handler's save pipeline.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import type { StorageAdapter } from '@sightedit/server-node';
+import { StorageAdapterDataSource } from '../datasources/storage';
+import { resolvers } from '../schema/resolvers';
+import type { SightEditContext } from '../datasources/types';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+function contextFor(dataSource: StorageAdapterDataSource, permissions: string[]): SightEditContext {
+  return {
+    dataSource,
+    auth: { jwt: { verifyAccessToken: async () => null } },
+    user: { id: 'user-1', email: 'user@example.com', name: 'User', roles: [], permissions },
+    userId: 'user-1'
+  };
+}
+
+describe('StorageAdapterDataSource', () => {
+  let storage: MapStorage;
+  let dataSource: StorageAdapterDataSource;
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    dataSource = new StorageAdapterDataSource(storage, { drafts: true });
+    storage.data.set('hero', { sight: 'hero', value: 'Published', type: 'text', timestamp: 1 });
+    storage.data.set('_draft:hero', { sight: 'hero', value: 'Draft', type: 'text', timestamp: 2 });
+    storage.data.set('_draft:teaser', { sight: 'teaser', value: 'Unpublished', type: 'text', timestamp: 3 });
+  });
+
+  describe('reads', () => {
+    test('serve published content unless the draft is asked for', async () => {
+      expect((await dataSource.getContent('hero'))!.value).toBe('Published');
+      expect(await dataSource.getContent('teaser')).toBeNull();
+
+      expect((await dataSource.getContent('hero', undefined, true))!.value).toBe('Draft');
+      expect((await dataSource.getContent('teaser', undefined, true))!.metadata.status).toBe('draft');
+    });
+
+    test('search published content unless drafts are asked for', async () => {
+      const published = await dataSource.searchContent('', { limit: 10 });
+      expect(published.map(record => record.value)).toEqual(['Published']);
+
+      const drafts = await dataSource.searchContent('', { limit: 10, draft: true });
+      expect(drafts.map(record => record.value).sort()).toEqual(['Draft', 'Unpublished']);
+    });
+
+    test('ignore draft requests when the source keeps no drafts', async () => {
+      const withoutDrafts = new StorageAdapterDataSource(storage);
+      expect((await withoutDrafts.getContent('hero', undefined, true))!.value).toBe('Published');
+    });
+  });
+
+  describe('GraphQL draft queries', () => {
+    test('need the permission to write content', async () => {
+      const reader = contextFor(dataSource, ['content:read']);
+      await expect(resolvers.Query.fetchContent(null, { sight: 'hero' }, reader)).resolves.toBe('Published');
+      await expect(resolvers.Query.fetchContent(null, { sight: 'hero', draft: true }, reader))
+        .rejects.toMatchObject({ extensions: { code: 'FORBIDDEN', missingPermissions: ['content:write'] } });
+      await expect(resolvers.Query.fetchContents(null, { sights: ['hero'], draft: true }, reader))
+        .rejects.toMatchObject({ extensions: { code: 'FORBIDDEN' } });
+      await expect(resolvers.Query.searchContent(null, { query: 'hero', draft: true }, reader))
+        .rejects.toMatchObject({ extensions: { code: 'FORBIDDEN' } });
+
+      const editor = contextFor(dataSource, ['content:read', 'content:write']);
+      await expect(resolvers.Query.fetchContent(null, { sight: 'hero', draft: true }, editor)).resolves.toBe('Draft');
+    });
+  });
+
+  describe('GraphQL change events', () => {
+    test('send drafts only to subscribers allowed to read them', async () => {
+      const reader = contextFor(dataSource, ['content:read']);
+      const editor = contextFor(dataSource, ['content:read', 'content:write']);
+      const readerEvents = (resolvers.Subscription.contentChanged.subscribe as any)(null, {}, reader) as AsyncIterator<any>;
+      const editorEvents = (resolvers.Subscription.contentChanged.subscribe as any)(null, {}, editor) as AsyncIterator<any>;
+      // Iterators subscribe on their first pull
+      const readerEvent = readerEvents.next();
+      const editorEvent = editorEvents.next();
+
+      await resolvers.Mutation.saveContent(null, { input: { sight: 'hero', value: 'Secret draft', type: 'TEXT' as any } }, editor);
+      const publishing = contextFor(new StorageAdapterDataSource(storage), ['content:read', 'content:write']);
+      await resolvers.Mutation.saveContent(null, { input: { sight: 'hero', value: 'Live', type: 'TEXT' as any } }, publishing);
+
+      expect((await editorEvent).value.contentChanged).toMatchObject({ value: 'Secret draft', status: 'draft' });
+      expect((await readerEvent).value.contentChanged).toMatchObject({ value: 'Live', status: 'published' });
+
+      await readerEvents.return?.();
+      await editorEvents.return?.();
+    });
+  });
+
+  describe('saves', () => {
+    test('sanitize values and write drafts', async () => {
+      const record = await dataSource.saveContent({ sight: 'hero', value: 'Hi<script>alert(1)</script>', type: 'text' });
+
+      expect(record.value).toBe('Hi');
+      expect(record.metadata.status).toBe('draft');
+      expect(storage.data.get('_draft:hero').value).toBe('Hi');
+      expect(storage.data.get('hero').value).toBe('Published');
+    });
+
+    test('refuse reserved and malformed sights', async () => {
+      const schema = { type: 'text', maxLength: 5 };
+      storage.data.set('_schema:title', schema);
+
+      for (const sight of ['_schema', 'file', '_draft', 'bad sight', '../hero']) {
+        await expect(dataSource.saveContent({ sight, value: 'x', type: 'text', id: 'title' }))
+          .rejects.toThrow('Invalid sight identifier format');
+      }
+      expect(storage.data.get('_schema:title')).toBe(schema);
+      expect(storage.data.has('_draft:_schema:title')).toBe(false);
+    });
+
+    test('check values against the stored schema', async () => {
+      storage.data.set('_schema:title', { type: 'text', maxLength: 5 });
+
+      await expect(dataSource.saveContent({ sight: 'title', value: 'Far too long', type: 'text' }))
+        .rejects.toThrow('Validation failed');
+      expect(storage.data.has('_draft:title')).toBe(false);
+
+      await expect(dataSource.saveContent({ sight: 'title', value: 'Short', type: 'text' })).resolves.toBeTruthy();
+    });
+
+    test('refuse a stale expected version', async () => {
+      await expect(dataSource.saveContent({ sight: 'hero', value: 'Stale', type: 'text', expectedVersion: 1 }))
+        .rejects.toThrow('Version conflict: version 2 is stored');
+      expect(storage.data.get('_draft:hero').value).toBe('Draft');
+
+      const record = await dataSource.saveContent({ sight: 'hero', value: 'Current', type: 'text', expectedVersion: 2 });
+      expect(record.metadata.version).toBeGreaterThan(2);
+    });
+
+    test('record the revision and queue webhooks like REST saves', async () => {
+      const sent: string[] = [];
+      const withWebhooks = new StorageAdapterDataSource(storage, {
+        drafts: true,
+        webhooks: { transport: async (_url, body) => { sent.push(body); return { status: 200 }; } }
+      });
+      storage.data.set('_webhook:hook1', {
+        id: 'hook1',
+        url: 'https://hooks.example.com',
+        events: ['save'],
+        sights: [],
+        secret: 'whsec_test',
+        active: true,
+        createdAt: '2024-01-01T00:00:00.000Z'
+      });
+
+      await withWebhooks.saveContent({ sight: 'hero', value: 'Saved', type: 'text' }, 'user-1');
+
+      expect(storage.data.get('_revisions:hero')[0]).toMatchObject({ status: 'draft', author: { id: 'user-1' }, record: { value: 'Saved' } });
+      const deliveries = [...storage.data.keys()].filter(key => key.startsWith('_webhook-delivery:hook1:'));
+      expect(deliveries).toHaveLength(1);
+      expect(storage.data.get(deliveries[0]).payload).toMatchObject({ event: 'save', actor: 'user-1', items: [{ key: 'hero', status: 'draft' }] });
+    });
+
+    test('answer the saveContent mutation with the saved value or the reason', async () => {
+      const context = contextFor(dataSource, ['content:write']);
+
+      const saved = await resolvers.Mutation.saveContent(null, { input: { sight: 'hero', value: '<a href="javascript:x">Hi</a>', type: 'TEXT' as any } }, context);
+      expect(saved).toMatchObject({ success: true, data: { sight: 'hero', value: '<a href="x">Hi</a>' } });
+
+      const refused = await resolvers.Mutation.saveContent(null, { input: { sight: '_webhook', value: 'x', type: 'TEXT' as any } }, context);
+      expect(refused).toMatchObject({ success: false, error: 'Invalid sight identifier format' });
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * GraphQL Authentication & Authorization
+ *
+ * Validates the access tokens issued by `@sightedit/server-node` and checks every
+ * root field against RBAC permissions before its resolver runs.
+ */
+
+import { GraphQLError } from 'graphql';
+import type { SecureJWTAuth, RBACSystem } from '@sightedit/server-node';
+
+export interface GraphQLUser {
+  id: string;
+  email: string;
+  name: string;
+  roles: string[];
+  permissions: string[];
+}
+
+export interface GraphQLAuthOptions {
+  jwt: Pick<SecureJWTAuth, 'verifyAccessToken'>;
+  // Without an RBAC system, the permissions embedded in the token are used
+  rbac?: Pick<RBACSystem, 'hasAllPermissions'>;
+  // Overrides of FIELD_PERMISSIONS, keyed by `Type.field`
+  permissions?: Record<string, string[]>;
+  // Finer-grained read access, applied to queries and subscription events
+  canRead?: (user: GraphQLUser, sight: string) => boolean | Promise<boolean>;
+  // Overrides DRAFT_PERMISSIONS
+  draftPermissions?: string[];
+}
+
+/**
+ * Added to the GraphQL context when the server has `auth` configured
+ */
+export interface AuthContext {
+  auth: GraphQLAuthOptions;
+  user?: GraphQLUser;
+  userId?: string;
+}
+
+/**
+ * Permissions each root field requires. Fields not listed are public.
+ */
+export const FIELD_PERMISSIONS: Record<string, string[]> = {
+  'Query.fetchContent': ['content:read'],
+  'Query.fetchContents': ['content:read'],
+  'Query.fetchSchema': ['schema:read'],
+  'Query.listSchemas': ['schema:read'],
+  'Query.validateContent': ['content:read'],
+  'Query.getActiveEditors': ['content:read'],
+  'Query.getHistory': ['content:read'],
+  'Query.getStatistics': ['system:metrics'],
+  'Query.searchContent': ['content:read'],
+
+  'Mutation.saveContent': ['content:write'],
+  'Mutation.batchSave': ['content:write', 'api:batch'],
+  'Mutation.updateSchema': ['schema:write'],
+  'Mutation.deleteSchema': ['schema:delete'],
+  'Mutation.updateTheme': ['system:admin'],
+  'Mutation.resetTheme': ['system:admin'],
+  'Mutation.startEditing': ['content:write'],
+  'Mutation.stopEditing': ['content:write'],
+  'Mutation.revertToHistory': ['content:write'],
+  'Mutation.clearHistory': ['system:admin'],
+
+  'Subscription.contentUpdated': ['content:read'],
+  'Subscription.contentChanged': ['content:read'],
+  'Subscription.schemaUpdated': ['schema:read'],
+  'Subscription.activeEditorsChanged': ['content:read'],
+  'Subscription.userAction': ['content:read']
+};
+
+/**
+ * Permissions needed on top of a field's own to read drafts instead of published content
+ */
+export const DRAFT_PERMISSIONS = ['content:write'];
+
+/**
+ * Builds the auth part of the context from an HTTP request or a graphql-ws connection.
+ * Requests without a token are anonymous; a token that fails verification is rejected.
+ */
+export async function authenticate(options: GraphQLAuthOptions, reqOrCtx: any): Promise<AuthContext> {
+  const token = extractToken(reqOrCtx);
+  if (!token) {
+    return { auth: options };
+  }
+
+  const payload = await options.jwt.verifyAccessToken(token, extractIP(reqOrCtx));
+  if (!payload) {
+    throw new GraphQLError('Invalid or expired authentication token', {
+      extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } }
+    });
+  }
+
+  const user: GraphQLUser = {
+    id: payload.sub,
+    email: payload.email,
+    name: payload.name,
+    roles: payload.roles || [],
+    permissions: payload.permissions || []
+  };
+
+  return { auth: options, user, userId: user.id };
+}
+
+/**
+ * Throws an UNAUTHENTICATED or FORBIDDEN error unless the caller holds every permission.
+ * Contexts without `auth` belong to a server running without authentication.
+ */
+export function authorize(context: any, permissions: string[]): void {
+  const auth: GraphQLAuthOptions | undefined = context?.auth;
+  if (!auth || permissions.length === 0) {
+    return;
+  }
+
+  const user: GraphQLUser | undefined = context.user;
+  if (!user) {
+    throw new GraphQLError('Authentication required', {
+      extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } }
+    });
+  }
+
+  const missingPermissions = auth.rbac
+    ? auth.rbac.hasAllPermissions(user.roles, permissions).missingPermissions || []
+    : permissions.filter(permission => !user.permissions.includes(permission));
+
+  if (missingPermissions.length > 0) {
+    throw new GraphQLError('Insufficient permissions', {
+      extensions: {
+        code: 'FORBIDDEN',
+        requiredPermissions: permissions,
+        missingPermissions,
+        http: { status: 403 }
+      }
+    });
+  }
+}
+
+/**
+ * Throws unless the caller may read drafts
+ */
+export function authorizeDrafts(context: any): void {
+  authorize(context, context?.auth?.draftPermissions || DRAFT_PERMISSIONS);
+}
+
+/**
+ * Whether the caller may read drafts, e.g. to receive a draft's change events
+ */
+export function canReadDrafts(context: any): boolean {
+  if (!context?.auth) {
+    return true;
+  }
+
+  try {
+    authorizeDrafts(context);
+  } catch {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the caller may see a sight's content
+ */
+export async function canReadSight(context: any, sight: string): Promise<boolean> {
+  const auth: GraphQLAuthOptions | undefined = context?.auth;
+  if (!auth) {
+    return true;
+  }
+
+  try {
+    authorize(context, ['content:read']);
+  } catch {
+    return false;
+  }
+
+  return auth.canRead ? !!(await auth.canRead(context.user, sight)) : true;
+}
+
+/**
+ * Throws FORBIDDEN when the caller may not see a sight's content
+ */
+export async function authorizeSight(context: any, sight: string): Promise<void> {
+  if (!(await canReadSight(context, sight))) {
+    throw new GraphQLError(`Access to "${sight}" is not allowed`, {
+      extensions: { code: 'FORBIDDEN', sight, http: { status: 403 } }
+    });
+  }
+}
+
+/**
+ * Keeps the items of a list the caller may read
+ */
+export async function filterReadable<T extends { sight: string }>(context: any, items: T[]): Promise<T[]> {
+  const allowed = await Promise.all(items.map(item => canReadSight(context, item.sight)));
+  return items.filter((_, index) => allowed[index]);
+}
+
+/**
+ * Wraps the root resolvers so each field checks its permissions first. Subscriptions are
+ * checked once when they start; their events are filtered by the resolvers themselves.
+ */
+export function withFieldPermissions<T extends Record<string, any>>(
+  resolvers: T,
+  permissions: Record<string, string[]> = FIELD_PERMISSIONS
+): T {
+  const wrapped: Record<string, any> = { ...resolvers };
+
+  for (const typeName of ['Query', 'Mutation', 'Subscription']) {
+    const fields = resolvers[typeName];
+    if (!fields) continue;
+
+    wrapped[typeName] = {};
+    for (const [fieldName, field] of Object.entries<any>(fields)) {
+      const required = permissions[`${typeName}.${fieldName}`] || [];
+
+      if (typeName === 'Subscription') {
+        wrapped[typeName][fieldName] = {
+          ...field,
+          subscribe: (parent: any, args: any, context: any, info: any) => {
+            authorize(context, required);
+            return field.subscribe(parent, args, context, info);
+          }
+        };
+      } else {
+        wrapped[typeName][fieldName] = (parent: any, args: any, context: any, info: any) => {
+          authorize(context, required);
+          return field(parent, args, context, info);
+        };
+      }
+    }
+  }
+
+  return wrapped as T;
+}
+
+function extractToken(reqOrCtx: any): string | null {
+  // graphql-ws connections pass the token in the connection params
+  const params = reqOrCtx?.connectionParams;
+  const fromParams = params?.authorization || params?.Authorization || params?.authToken;
+  const header = fromParams || requestOf(reqOrCtx)?.headers?.authorization;
+
+  if (typeof header !== 'string' || header.length === 0) {
+    return null;
+  }
+  return header.startsWith('Bearer ') ? header.substring(7) : header;
+}
+
+function extractIP(reqOrCtx: any): string | undefined {
+  const req = requestOf(reqOrCtx);
+  const forwarded = req?.headers?.['x-forwarded-for'];
+  if (typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req?.socket?.remoteAddress;
+}
+
+function requestOf(reqOrCtx: any): any {
+  return reqOrCtx?.extra?.request || reqOrCtx;
+}
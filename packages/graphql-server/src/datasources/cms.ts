@@ -0,0 +1,204 @@
+/**
+ * Data source over a headless CMS through any `CMSAdapter` from `@sightedit/cms-adapters`.
+ *
+ * A sight maps to a field of a CMS entry: `blog.title` is the `title` field of the first
+ * `blog` entry unless `resolve` points it somewhere else. History is read from the CMS's
+ * own versions where the adapter supports them.
+ */
+
+import type { SaveData } from '@sightedit/core';
+import type { CMSAdapter } from '@sightedit/cms-adapters';
+import type {
+  SightEditDataSource,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord,
+  HistoryFilter,
+  SearchOptions
+} from './types';
+
+export interface CMSEntryLocation {
+  contentType: string;
+  field: string;
+  entryId?: string;
+}
+
+export interface CMSDataSourceOptions {
+  resolve?: (sight: string) => CMSEntryLocation;
+}
+
+export class CMSAdapterDataSource implements SightEditDataSource {
+  private resolve: (sight: string) => CMSEntryLocation;
+  // CMSs have no place for editor settings, so the theme lives with the server process
+  private theme: any = null;
+
+  constructor(private adapter: CMSAdapter, options: CMSDataSourceOptions = {}) {
+    this.resolve = options.resolve || defaultLocation;
+  }
+
+  async getContent(sight: string, locale?: string): Promise<ContentRecord | null> {
+    const location = this.resolve(sight);
+    const entry = await this.fetchEntry(location, locale);
+    if (!entry) {
+      return null;
+    }
+
+    const value = readField(entry, location.field);
+    return value === undefined ? null : toContentRecord(sight, value, entry);
+  }
+
+  async getContents(sights: string[], locale?: string): Promise<ContentRecord[]> {
+    const records = await Promise.all(sights.map(sight => this.getContent(sight, locale)));
+    return records.filter((record): record is ContentRecord => !!record);
+  }
+
+  async searchContent(query: string, options: SearchOptions): Promise<ContentRecord[]> {
+    const response = await this.adapter.search(query, { limit: options.limit });
+    const entries: any[] = Array.isArray(response.data) ? response.data : [];
+
+    return entries
+      .map(entry => toContentRecord(entryType(entry) || String(entry.id), entry, entry, 'json'))
+      .filter(record => !options.types || options.types.includes(record.type))
+      .slice(0, options.limit);
+  }
+
+  async saveContent(data: SaveData): Promise<ContentRecord> {
+    const location = this.resolve(data.sight);
+    const response = await this.adapter.save({ ...data, id: data.id || location.entryId });
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to save content');
+    }
+
+    const record = toContentRecord(data.sight, data.value, response.data || {}, data.type);
+    return { ...record, id: (response as any).id || record.id };
+  }
+
+  async getSchema(sight: string): Promise<SchemaRecord | null> {
+    try {
+      const schema = await this.adapter.fetchSchema(this.resolve(sight).contentType);
+      return schema ? toSchemaRecord(sight, schema) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async listSchemas(): Promise<SchemaRecord[]> {
+    const contentTypes = await this.adapter.listContentTypes();
+    const schemas = await Promise.all(contentTypes.map(contentType => this.getSchema(contentType.id)));
+    return schemas.filter((schema): schema is SchemaRecord => !!schema);
+  }
+
+  async saveSchema(schema: SchemaRecord): Promise<SchemaRecord> {
+    await this.adapter.updateSchema(
+      { ...schema.properties, type: schema.type, sight: schema.sight } as any,
+      { createIfNotExists: true }
+    );
+    return schema;
+  }
+
+  async deleteSchema(): Promise<boolean> {
+    // Content models are managed in the CMS itself
+    return false;
+  }
+
+  async getTheme(): Promise<any | null> {
+    return this.theme;
+  }
+
+  async saveTheme(theme: any): Promise<any> {
+    this.theme = theme;
+    return theme;
+  }
+
+  async getHistory(filter: HistoryFilter): Promise<HistoryRecord[]> {
+    if (!filter.sight || typeof this.adapter.getVersions !== 'function') {
+      return [];
+    }
+
+    const location = this.resolve(filter.sight);
+    const entry = await this.fetchEntry(location);
+    if (!entry?.id) {
+      return [];
+    }
+
+    const versions = await this.adapter.getVersions(String(entry.id));
+    return versions
+      .map(version => ({
+        id: `${filter.sight}@${entry.id}@${version.version}`,
+        sight: filter.sight!,
+        value: undefined,
+        type: 'text',
+        userId: version.createdBy,
+        timestamp: new Date(version.createdAt),
+        action: 'UPDATE'
+      }))
+      .filter(record => !filter.userId || record.userId === filter.userId)
+      .slice(filter.offset, filter.offset + filter.limit);
+  }
+
+  async revertHistory(id: string): Promise<ContentRecord | null> {
+    const [sight, entryId, version] = id.split('@');
+    if (!sight || !entryId || !version || typeof this.adapter.restoreVersion !== 'function') {
+      return null;
+    }
+
+    await this.adapter.restoreVersion(entryId, Number(version));
+    return this.getContent(sight);
+  }
+
+  async clearHistory(): Promise<void> {
+    throw new Error('Version history is managed by the CMS');
+  }
+
+  private async fetchEntry(location: CMSEntryLocation, locale?: string): Promise<any | null> {
+    if (location.entryId) {
+      return this.adapter.fetchById(location.entryId, locale);
+    }
+
+    const response = await this.adapter.fetch({ contentType: location.contentType, limit: 1, locale });
+    return Array.isArray(response.data) ? response.data[0] || null : response.data || null;
+  }
+}
+
+function defaultLocation(sight: string): CMSEntryLocation {
+  const parts = sight.split('.');
+  return { contentType: parts[0], field: parts[parts.length - 1] };
+}
+
+/**
+ * Adapters map entries differently (`fields`, `attributes`, `meta` or top level)
+ */
+function readField(entry: any, field: string): any {
+  for (const container of [entry.fields, entry.attributes, entry.meta, entry]) {
+    if (container && typeof container === 'object' && field in container) {
+      return container[field];
+    }
+  }
+  return undefined;
+}
+
+function entryType(entry: any): string | undefined {
+  return entry.contentType || entry.type || entry.metadata?.type;
+}
+
+function toContentRecord(sight: string, value: any, entry: any, type: string = 'text'): ContentRecord {
+  const metadata = entry?.metadata || {};
+  const createdAt = new Date(metadata.createdAt || Date.now());
+  const updatedAt = new Date(metadata.updatedAt || metadata.modifiedAt || createdAt);
+
+  return {
+    id: entry?.id ? String(entry.id) : sight,
+    sight,
+    value,
+    type,
+    metadata,
+    createdAt,
+    updatedAt
+  };
+}
+
+function toSchemaRecord(sight: string, schema: any): SchemaRecord {
+  const { type, sight: _sight, ...properties } = schema;
+  return { sight, type: type || 'text', properties };
+}
@@ -0,0 +1,19 @@
+/**
+ * Data sources the GraphQL resolvers read and write through
+ */
+
+export { MemoryDataSource } from './memory';
+export { StorageAdapterDataSource } from './storage';
+export { CMSAdapterDataSource } from './cms';
+
+export type {
+  SightEditDataSource,
+  SightEditContext,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord,
+  HistoryFilter,
+  SearchOptions
+} from './types';
+export type { StorageDataSourceOptions } from './storage';
+export type { CMSDataSourceOptions, CMSEntryLocation } from './cms';
@@ -0,0 +1,116 @@
+/**
+ * In-memory data source for development and tests. Nothing is persisted.
+ */
+
+import type { SaveData } from '@sightedit/core';
+import type {
+  SightEditDataSource,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord,
+  HistoryFilter,
+  SearchOptions
+} from './types';
+
+export class MemoryDataSource implements SightEditDataSource {
+  private contents = new Map<string, ContentRecord>();
+  private schemas = new Map<string, SchemaRecord>();
+  private theme: any = null;
+  private history: HistoryRecord[] = [];
+
+  // Translations are kept under `<sight>@<locale>` and fall back to the untranslated value
+  async getContent(sight: string, locale?: string): Promise<ContentRecord | null> {
+    return (locale && this.contents.get(`${sight}@${locale}`)) || this.contents.get(sight) || null;
+  }
+
+  async getContents(sights: string[], locale?: string): Promise<ContentRecord[]> {
+    const records = await Promise.all(sights.map(sight => this.getContent(sight, locale)));
+    return records.filter((record): record is ContentRecord => !!record);
+  }
+
+  async searchContent(query: string, options: SearchOptions): Promise<ContentRecord[]> {
+    const needle = query.toLowerCase();
+
+    return Array.from(this.contents.values())
+      .filter(record => !options.types || options.types.includes(record.type))
+      .filter(record =>
+        String(record.value).toLowerCase().includes(needle) || record.sight.toLowerCase().includes(needle)
+      )
+      .slice(0, options.limit);
+  }
+
+  async saveContent(data: SaveData, userId?: string): Promise<ContentRecord> {
+    const key = data.locale ? `${data.sight}@${data.locale}` : data.sight;
+    const previous = this.contents.get(key);
+    const now = new Date();
+    const record: ContentRecord = {
+      id: data.id || data.sight,
+      sight: data.sight,
+      value: data.value,
+      type: data.type || 'text',
+      metadata: data.locale ? { ...data.context, locale: data.locale } : data.context || {},
+      createdAt: previous?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.contents.set(key, record);
+    this.history.push({
+      id: `history-${now.getTime()}-${this.history.length}`,
+      sight: data.sight,
+      value: data.value,
+      previousValue: previous?.value,
+      type: record.type,
+      userId: userId || 'anonymous',
+      timestamp: now,
+      action: previous ? 'UPDATE' : 'CREATE'
+    });
+
+    return record;
+  }
+
+  async getSchema(sight: string): Promise<SchemaRecord | null> {
+    return this.schemas.get(sight) || null;
+  }
+
+  async listSchemas(): Promise<SchemaRecord[]> {
+    return Array.from(this.schemas.values());
+  }
+
+  async saveSchema(schema: SchemaRecord): Promise<SchemaRecord> {
+    this.schemas.set(schema.sight, schema);
+    return schema;
+  }
+
+  async deleteSchema(sight: string): Promise<boolean> {
+    return this.schemas.delete(sight);
+  }
+
+  async getTheme(): Promise<any | null> {
+    return this.theme;
+  }
+
+  async saveTheme(theme: any): Promise<any> {
+    this.theme = theme;
+    return theme;
+  }
+
+  async getHistory(filter: HistoryFilter): Promise<HistoryRecord[]> {
+    return this.history
+      .filter(entry => !filter.sight || entry.sight === filter.sight)
+      .filter(entry => !filter.userId || entry.userId === filter.userId)
+      .slice(filter.offset, filter.offset + filter.limit);
+  }
+
+  async revertHistory(id: string, userId?: string): Promise<ContentRecord | null> {
+    const entry = this.history.find(item => item.id === id);
+    if (!entry) {
+      return null;
+    }
+
+    return this.saveContent({ sight: entry.sight, value: entry.previousValue, type: entry.type as any }, userId);
+  }
+
+  async clearHistory(sight?: string): Promise<void> {
+    this.history = sight ? this.history.filter(entry => entry.sight !== sight) : [];
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Data source over the Node server's StorageAdapter family.
+ *
+ * Uses the same storage layout as the REST handler (`sightEditHandler`), so both
+ * APIs can sit in front of one store: content records keyed by sight, drafts under
+ * `_draft:`, schemas under `_schema:` and revisions under `_revisions:` unless the
+ * adapter keeps them in its own table. Saves are written by the REST handler's own
+ * `saveContent`, with its validation, version checks, revisions and webhooks.
+ */
+
+import type { SaveData } from '@sightedit/core';
+import type { StorageAdapter, ContentRevision, LocaleOptions, SchemaValidationOptions, WebhookOptions } from '@sightedit/server-node';
+import type {
+  SightEditDataSource,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord,
+  HistoryFilter,
+  SearchOptions
+} from './types';
+
+export interface StorageDataSourceOptions {
+  drafts?: boolean; // Must match the REST handler's `drafts` option
+  maxRevisions?: number; // Must match the REST handler's `maxRevisions` option
+  locales?: LocaleOptions; // Must match the REST handler's `locales` option
+  schemaValidation?: SchemaValidationOptions; // Must match the REST handler's `schemaValidation` option
+  webhooks?: boolean | WebhookOptions; // Must match the REST handler's `webhooks` option
+}
+
+const SCHEMA_PREFIX = '_schema:';
+const REVISIONS_PREFIX = '_revisions:';
+const THEME_KEY = '_theme';
+
+// Loaded on first use, so the package works without the Node server installed
+const serverNode = () => import('@sightedit/server-node');
+
+export class StorageAdapterDataSource implements SightEditDataSource {
+  private drafts: boolean;
+  private maxRevisions: number;
+  private locales?: LocaleOptions;
+  private schemaValidation?: SchemaValidationOptions;
+  private webhooks?: boolean | WebhookOptions;
+
+  constructor(private storage: StorageAdapter, options: StorageDataSourceOptions = {}) {
+    this.drafts = !!options.drafts;
+    this.maxRevisions = options.maxRevisions ?? 50;
+    this.locales = options.locales;
+    this.schemaValidation = options.schemaValidation;
+    this.webhooks = options.webhooks;
+  }
+
+  async getContent(sight: string, locale?: string, draft = false): Promise<ContentRecord | null> {
+    // Untranslated content falls back the way the REST handler does
+    for (const candidate of this.fallbackChain(locale)) {
+      const record = await this.readRecord(localizedKey(sight, candidate), draft);
+      if (record) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  async getContents(sights: string[], locale?: string, draft = false): Promise<ContentRecord[]> {
+    const records = await Promise.all(sights.map(sight => this.getContent(sight, locale, draft)));
+    return records.filter((record): record is ContentRecord => !!record);
+  }
+
+  async searchContent(query: string, options: SearchOptions): Promise<ContentRecord[]> {
+    const needle = query.toLowerCase();
+    const results: ContentRecord[] = [];
+
+    for (const key of await this.listContentKeys(!!options.draft)) {
+      const record = await this.readRecord(key, !!options.draft);
+      if (!record || (options.types && !options.types.includes(record.type))) continue;
+
+      const haystack = typeof record.value === 'string' ? record.value : JSON.stringify(record.value ?? '');
+      if (haystack.toLowerCase().includes(needle) || record.sight.toLowerCase().includes(needle)) {
+        results.push(record);
+        if (results.length >= options.limit) break;
+      }
+    }
+
+    return results;
+  }
+
+  async saveContent(input: SaveData, userId?: string): Promise<ContentRecord> {
+    const { saveContent } = await serverNode();
+    const result = await saveContent(this.storage, input, {
+      drafts: this.drafts,
+      maxRevisions: this.maxRevisions,
+      locales: this.locales,
+      schemaValidation: this.schemaValidation,
+      webhooks: this.webhooks
+    }, userId ? { id: userId } : undefined);
+    if ('error' in result) {
+      const details = result.errors?.map(error => error.message).join('; ')
+        ?? (result.conflict ? `version ${result.conflict.currentVersion} is stored` : undefined);
+      throw new Error(details ? `${result.error}: ${details}` : result.error);
+    }
+
+    return toContentRecord(result.key, result.data, result.draft ? 'draft' : 'published');
+  }
+
+  async getSchema(sight: string): Promise<SchemaRecord | null> {
+    const stored = await this.storage.get(`${SCHEMA_PREFIX}${sight}`);
+    return stored ? toSchemaRecord(sight, stored) : null;
+  }
+
+  async listSchemas(): Promise<SchemaRecord[]> {
+    const schemas: SchemaRecord[] = [];
+    for (const key of await this.storage.list(SCHEMA_PREFIX)) {
+      const stored = await this.storage.get(key);
+      if (stored) {
+        schemas.push(toSchemaRecord(key.slice(SCHEMA_PREFIX.length), stored));
+      }
+    }
+    return schemas;
+  }
+
+  async saveSchema(schema: SchemaRecord): Promise<SchemaRecord> {
+    // Stored flat, the way GET /schema/:sight serves it to the editors
+    await this.storage.set(`${SCHEMA_PREFIX}${schema.sight}`, { ...schema.properties, type: schema.type });
+    return schema;
+  }
+
+  async deleteSchema(sight: string): Promise<boolean> {
+    const key = `${SCHEMA_PREFIX}${sight}`;
+    const existing = await this.storage.get(key);
+    if (existing === null || existing === undefined) {
+      return false;
+    }
+    await this.storage.delete(key);
+    return true;
+  }
+
+  async getTheme(): Promise<any | null> {
+    return (await this.storage.get(THEME_KEY)) ?? null;
+  }
+
+  async saveTheme(theme: any): Promise<any> {
+    await this.storage.set(THEME_KEY, theme);
+    return theme;
+  }
+
+  async getHistory(filter: HistoryFilter): Promise<HistoryRecord[]> {
+    const keys = filter.sight ? [filter.sight] : await this.listContentKeys(true);
+    let entries: HistoryRecord[] = [];
+
+    for (const key of keys) {
+      entries.push(...toHistoryRecords(await this.listRevisions(key)));
+    }
+
+    if (filter.userId) {
+      entries = entries.filter(entry => entry.userId === filter.userId);
+    }
+
+    return entries
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(filter.offset, filter.offset + filter.limit);
+  }
+
+  async revertHistory(id: string, userId?: string): Promise<ContentRecord | null> {
+    const separator = id.lastIndexOf('@');
+    const key = id.slice(0, separator);
+    const revisionId = Number(id.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(revisionId)) {
+      return null;
+    }
+
+    const revisions = await this.listRevisions(key);
+    const index = revisions.findIndex(revision => revision.id === revisionId);
+    if (index === -1) {
+      return null;
+    }
+
+    const previous = revisions[index + 1];
+    if (!previous) {
+      throw new Error('The entry has no earlier value to revert to');
+    }
+
+    return this.saveContent({ ...previous.record, sight: previous.record?.sight ?? previous.sight }, userId);
+  }
+
+  async clearHistory(sight?: string): Promise<void> {
+    if (typeof this.storage.getRevisions === 'function') {
+      throw new Error('This storage keeps revisions in its own table; clear them there');
+    }
+
+    const keys = sight ? [`${REVISIONS_PREFIX}${sight}`] : await this.storage.list(REVISIONS_PREFIX);
+    for (const key of keys) {
+      await this.storage.delete(key);
+    }
+  }
+
+  /**
+   * The locale, its configured fallbacks, its language and the default (undefined)
+   */
+  private fallbackChain(locale: string | undefined): Array<string | undefined> {
+    const locales = this.locales;
+    const chain: Array<string | undefined> = [];
+    if (locale && locales) {
+      [locale, ...(locales.fallbacks?.[locale] || []), locale.split('-')[0]].forEach(candidate => {
+        if (candidate !== locales.default && locales.supported.includes(candidate) && !chain.includes(candidate)) {
+          chain.push(candidate);
+        }
+      });
+    }
+    chain.push(undefined);
+    return chain;
+  }
+
+  /**
+   * The published record, or the working copy when `draft` is set
+   */
+  private async readRecord(key: string, draft = false): Promise<ContentRecord | null> {
+    if (draft && this.drafts) {
+      const { DRAFT_PREFIX } = await serverNode();
+      const draft = await this.storage.get(`${DRAFT_PREFIX}${key}`);
+      if (draft !== null && draft !== undefined) {
+        return toContentRecord(key, draft, 'draft');
+      }
+    }
+    const stored = await this.storage.get(key);
+    return stored === null || stored === undefined ? null : toContentRecord(key, stored, 'published');
+  }
+
+  private async listContentKeys(draft = false): Promise<string[]> {
+    const { DRAFT_PREFIX, isContentKey } = await serverNode();
+    const keys = new Set((await this.storage.list()).filter(isContentKey));
+    if (draft && this.drafts) {
+      (await this.storage.list(DRAFT_PREFIX)).forEach(key => keys.add(key.slice(DRAFT_PREFIX.length)));
+    }
+    return Array.from(keys);
+  }
+
+  private async listRevisions(key: string): Promise<ContentRevision[]> {
+    if (this.maxRevisions <= 0) {
+      return [];
+    }
+    if (typeof this.storage.getRevisions === 'function') {
+      return this.storage.getRevisions(key, this.maxRevisions);
+    }
+    const history = await this.storage.get(`${REVISIONS_PREFIX}${key}`);
+    return Array.isArray(history) ? history : [];
+  }
+}
+
+function localizedKey(key: string, locale?: string): string {
+  return locale ? `${key}@${locale}` : key;
+}
+
+function toContentRecord(key: string, stored: any, status: 'draft' | 'published'): ContentRecord {
+  // Records written by a save are SaveData; anything else is a raw value
+  if (stored && typeof stored === 'object' && 'sight' in stored && 'value' in stored) {
+    const updatedAt = typeof stored.timestamp === 'number' ? new Date(stored.timestamp) : new Date();
+    return {
+      id: stored.id || key,
+      sight: stored.sight,
+      value: stored.value,
+      type: stored.type || 'text',
+      metadata: {
+        ...stored.context,
+        key,
+        status,
+        version: stored.timestamp,
+        ...(stored.publishedAt ? { publishedAt: stored.publishedAt } : {})
+      },
+      createdAt: updatedAt,
+      updatedAt
+    };
+  }
+
+  const now = new Date();
+  return {
+    id: key,
+    sight: key.split(':')[0],
+    value: stored,
+    type: 'text',
+    metadata: { key, status },
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function toSchemaRecord(sight: string, stored: any): SchemaRecord {
+  const { type, sight: _sight, ...properties } = stored;
+  return { sight, type: type || 'text', properties };
+}
+
+/**
+ * Revisions come newest first, so each entry's previous value is the next one in the list
+ */
+function toHistoryRecords(revisions: ContentRevision[]): HistoryRecord[] {
+  return revisions.map((revision, index) => {
+    const previous = revisions[index + 1];
+    return {
+      id: `${revision.key}@${revision.id}`,
+      sight: revision.sight,
+      value: revision.record?.value,
+      previousValue: previous?.record?.value,
+      type: revision.record?.type || 'text',
+      userId: revision.author?.id,
+      timestamp: new Date(revision.createdAt),
+      action: revision.action === 'save' ? (previous ? 'UPDATE' : 'CREATE') : revision.action.toUpperCase()
+    };
+  });
+}
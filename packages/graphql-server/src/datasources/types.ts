@@ -0,0 +1,83 @@
+/**
+ * Data Source Interface
+ *
+ * Everything the resolvers read or write goes through a data source,
+ * which is injected per request through the GraphQL context.
+ */
+
+import type { SaveData } from '@sightedit/core';
+
+export interface ContentRecord {
+  id: string;
+  sight: string;
+  value: any;
+  type: string;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SchemaRecord {
+  sight: string;
+  type: string;
+  properties?: Record<string, any>;
+}
+
+export interface HistoryRecord {
+  id: string;
+  sight: string;
+  value: any;
+  previousValue?: any;
+  type: string;
+  userId?: string;
+  timestamp: Date;
+  action: string;
+}
+
+export interface HistoryFilter {
+  sight?: string;
+  userId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchOptions {
+  types?: string[];
+  limit: number;
+  draft?: boolean; // Search working copies instead of published content
+}
+
+export interface SightEditDataSource {
+  /**
+   * Content in `locale`, falling back to other locales where the source supports it.
+   * Published content unless `draft` asks for the working copy, for sources that keep drafts.
+   */
+  getContent(sight: string, locale?: string, draft?: boolean): Promise<ContentRecord | null>;
+  getContents(sights: string[], locale?: string, draft?: boolean): Promise<ContentRecord[]>;
+  searchContent(query: string, options: SearchOptions): Promise<ContentRecord[]>;
+  saveContent(data: SaveData, userId?: string): Promise<ContentRecord>;
+
+  getSchema(sight: string): Promise<SchemaRecord | null>;
+  listSchemas(): Promise<SchemaRecord[]>;
+  saveSchema(schema: SchemaRecord): Promise<SchemaRecord>;
+  deleteSchema(sight: string): Promise<boolean>;
+
+  getTheme(): Promise<any | null>;
+  saveTheme(theme: any): Promise<any>;
+
+  getHistory(filter: HistoryFilter): Promise<HistoryRecord[]>;
+  /**
+   * Puts back the value a history entry replaced. Resolves null when the entry is unknown.
+   */
+  revertHistory(id: string, userId?: string): Promise<ContentRecord | null>;
+  clearHistory(sight?: string): Promise<void>;
+}
+
+/**
+ * Context shape the resolvers expect
+ */
+export interface SightEditContext {
+  dataSource: SightEditDataSource;
+  userId?: string;
+  [key: string]: any;
+}
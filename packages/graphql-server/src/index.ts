@@ -17,5 +17,35 @@ export type { ServerConfig } from './server';
 export { typeDefs } from './schema/typeDefs';
 export { resolvers, pubsub, TOPICS } from './schema/resolvers';
 
+// Export data sources
+export { MemoryDataSource, StorageAdapterDataSource, CMSAdapterDataSource } from './datasources';
+
+export type {
+  SightEditDataSource,
+  SightEditContext,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord,
+  HistoryFilter,
+  SearchOptions,
+  StorageDataSourceOptions,
+  CMSDataSourceOptions,
+  CMSEntryLocation
+} from './datasources';
+
+// Export auth
+export {
+  authenticate,
+  authorize,
+  authorizeSight,
+  authorizeDrafts,
+  canReadSight,
+  withFieldPermissions,
+  FIELD_PERMISSIONS,
+  DRAFT_PERMISSIONS
+} from './auth';
+
+export type { GraphQLAuthOptions, GraphQLUser, AuthContext } from './auth';
+
 // Version
 export const VERSION = '2.0.0-alpha.1';
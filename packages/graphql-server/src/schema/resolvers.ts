@@ -4,8 +4,16 @@
  * Resolvers for SightEdit GraphQL API
  */
 
-import { PubSub } from 'graphql-subscriptions';
-import type { SaveData, SaveResponse, ElementSchema } from '@sightedit/core';
+import { PubSub, withFilter } from 'graphql-subscriptions';
+import type { SaveData } from '@sightedit/core';
+import type {
+  SightEditContext,
+  SightEditDataSource,
+  ContentRecord,
+  SchemaRecord,
+  HistoryRecord
+} from '../datasources/types';
+import { authorizeDrafts, authorizeSight, canReadDrafts, canReadSight, filterReadable } from '../auth';
 
 // Create PubSub instance for subscriptions
 const pubsub = new PubSub();
@@ -20,48 +28,89 @@ const TOPICS = {
   USER_ACTION: 'USER_ACTION'
 };
 
-// In-memory storage (in production, use a database)
-const storage = {
-  contents: new Map<string, any>(),
-  schemas: new Map<string, ElementSchema>(),
-  theme: null as any,
-  activeEditors: new Map<string, any>(),
-  history: [] as any[]
-};
+// Editing presence is per server process, the rest lives in the data source
+const activeEditors = new Map<string, any>();
+
+// Values of the GraphQL ElementType enum
+const ELEMENT_TYPES = [
+  'TEXT', 'RICHTEXT', 'NUMBER', 'DATE', 'IMAGE', 'COLOR',
+  'SELECT', 'CHECKBOX', 'LINK', 'FILE', 'JSON', 'COLLECTION'
+];
+
+/**
+ * Stored types are the lowercase editor types; types the enum has no value for read as TEXT
+ */
+function toGraphQLType(type?: string): string {
+  const upper = (type || 'text').toUpperCase();
+  return ELEMENT_TYPES.includes(upper) ? upper : 'TEXT';
+}
+
+function fromGraphQLType(type?: string): string {
+  return (type || 'TEXT').toLowerCase();
+}
+
+function getDataSource(context: SightEditContext): SightEditDataSource {
+  if (!context?.dataSource) {
+    throw new Error('No data source in the GraphQL context');
+  }
+  return context.dataSource;
+}
+
+function toContentEntry(record: ContentRecord) {
+  return { ...record, type: toGraphQLType(record.type) };
+}
+
+function toSchemaEntry(schema: SchemaRecord) {
+  return { ...schema, type: toGraphQLType(schema.type) };
+}
+
+function toHistoryEntry(record: HistoryRecord) {
+  return { ...record, type: toGraphQLType(record.type) };
+}
+
+/**
+ * Change events carry the saved value, so a draft's only go to callers who may read drafts
+ */
+async function canReceiveChange(context: SightEditContext, event: { sight: string; status?: string }): Promise<boolean> {
+  return (event.status !== 'draft' || canReadDrafts(context)) && canReadSight(context, event.sight);
+}
 
 export const resolvers = {
   Query: {
     // Fetch content by sight ID
-    fetchContent: (_: any, { sight }: { sight: string }) => {
-      return storage.contents.get(sight) || null;
+    fetchContent: async (_: any, { sight, locale, draft }: { sight: string; locale?: string; draft?: boolean }, context: SightEditContext) => {
+      await authorizeSight(context, sight);
+      if (draft) {
+        authorizeDrafts(context);
+      }
+      const record = await getDataSource(context).getContent(sight, locale || undefined, !!draft);
+      return record ? record.value : null;
     },
 
     // Fetch multiple contents
-    fetchContents: (_: any, { sights }: { sights: string[] }) => {
-      return sights.map(sight => ({
-        id: sight,
-        sight,
-        value: storage.contents.get(sight),
-        type: storage.schemas.get(sight)?.type || 'TEXT',
-        metadata: {},
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }));
+    fetchContents: async (_: any, { sights, locale, draft }: { sights: string[]; locale?: string; draft?: boolean }, context: SightEditContext) => {
+      if (draft) {
+        authorizeDrafts(context);
+      }
+      const records = await getDataSource(context).getContents(sights, locale || undefined, !!draft);
+      return (await filterReadable(context, records)).map(toContentEntry);
     },
 
     // Fetch schema
-    fetchSchema: (_: any, { sight }: { sight: string }) => {
-      return storage.schemas.get(sight) || null;
+    fetchSchema: async (_: any, { sight }: { sight: string }, context: SightEditContext) => {
+      const schema = await getDataSource(context).getSchema(sight);
+      return schema ? toSchemaEntry(schema) : null;
     },
 
     // List all schemas
-    listSchemas: () => {
-      return Array.from(storage.schemas.values());
+    listSchemas: async (_: any, __: any, context: SightEditContext) => {
+      const schemas = await getDataSource(context).listSchemas();
+      return schemas.map(toSchemaEntry);
     },
 
     // Fetch current theme
-    fetchTheme: () => {
-      return storage.theme || null;
+    fetchTheme: (_: any, __: any, context: SightEditContext) => {
+      return getDataSource(context).getTheme();
     },
 
     // List theme presets
@@ -70,8 +119,8 @@ export const resolvers = {
     },
 
     // Validate content
-    validateContent: (_: any, { sight, value }: { sight: string; value: any }) => {
-      const schema = storage.schemas.get(sight);
+    validateContent: async (_: any, { sight, value }: { sight: string; value: any }, context: SightEditContext) => {
+      const schema = await getDataSource(context).getSchema(sight);
 
       if (!schema) {
         return {
@@ -118,99 +167,73 @@ export const resolvers = {
     },
 
     // Get active editors
-    getActiveEditors: () => {
-      return Array.from(storage.activeEditors.values());
+    getActiveEditors: (_: any, __: any, context: SightEditContext) => {
+      return filterReadable(context, Array.from(activeEditors.values()));
     },
 
     // Get history
-    getHistory: (_: any, { sight, limit = 50, offset = 0, userId }: any) => {
-      let history = storage.history;
-
-      if (sight) {
-        history = history.filter(h => h.sight === sight);
-      }
-
-      if (userId) {
-        history = history.filter(h => h.userId === userId);
-      }
-
-      return history.slice(offset, offset + limit);
+    getHistory: async (_: any, { sight, limit = 50, offset = 0, userId }: any, context: SightEditContext) => {
+      const history = await getDataSource(context).getHistory({ sight, userId, limit, offset });
+      return (await filterReadable(context, history)).map(toHistoryEntry);
     },
 
     // Get statistics
-    getStatistics: () => {
+    getStatistics: async (_: any, __: any, context: SightEditContext) => {
+      const history = await getDataSource(context).getHistory({ limit: Number.MAX_SAFE_INTEGER, offset: 0 });
+      const lastUpdate = history.reduce<Date | null>(
+        (latest, entry) => (!latest || entry.timestamp > latest ? entry.timestamp : latest),
+        null
+      );
+
       return {
-        totalEdits: storage.history.length,
-        totalUsers: new Set(storage.history.map(h => h.userId)).size,
-        activeEditors: storage.activeEditors.size,
-        lastUpdate: storage.history.length > 0
-          ? storage.history[storage.history.length - 1].timestamp
-          : null
+        totalEdits: history.length,
+        totalUsers: new Set(history.map(h => h.userId)).size,
+        activeEditors: activeEditors.size,
+        lastUpdate
       };
     },
 
     // Search content
-    searchContent: (_: any, { query, types, limit = 20 }: any) => {
-      const results: any[] = [];
-
-      storage.contents.forEach((value, sight) => {
-        const schema = storage.schemas.get(sight);
-
-        if (types && schema && !types.includes(schema.type)) {
-          return;
-        }
-
-        const valueStr = String(value).toLowerCase();
-        const queryStr = query.toLowerCase();
-
-        if (valueStr.includes(queryStr) || sight.toLowerCase().includes(queryStr)) {
-          results.push({
-            id: sight,
-            sight,
-            value,
-            type: schema?.type || 'TEXT',
-            metadata: {},
-            createdAt: new Date(),
-            updatedAt: new Date()
-          });
-        }
+    searchContent: async (_: any, { query, types, limit = 20, draft }: any, context: SightEditContext) => {
+      if (draft) {
+        authorizeDrafts(context);
+      }
+      const results = await getDataSource(context).searchContent(query, {
+        types: types ? types.map(fromGraphQLType) : undefined,
+        limit,
+        draft: !!draft
       });
-
-      return results.slice(0, limit);
+      return (await filterReadable(context, results)).map(toContentEntry);
     }
   },
 
   Mutation: {
     // Save content
-    saveContent: async (_: any, { input }: { input: SaveData }, context: any) => {
+    saveContent: async (_: any, { input }: { input: SaveData }, context: SightEditContext) => {
       try {
-        const { sight, value, type, id, context: saveContext } = input;
-
-        // Store previous value for history
-        const previousValue = storage.contents.get(sight);
-
-        // Save content
-        storage.contents.set(sight, value);
+        const { sight, value, type, id, context: saveContext, locale, expectedVersion } = input;
 
-        // Add to history
-        storage.history.push({
-          id: `history-${Date.now()}`,
-          sight,
-          value,
-          previousValue,
-          type: type || 'TEXT',
-          userId: context?.userId || 'anonymous',
-          timestamp: new Date(),
-          action: previousValue ? 'UPDATE' : 'CREATE'
-        });
+        const record = await getDataSource(context).saveContent(
+          {
+            sight,
+            value,
+            type: fromGraphQLType(type) as SaveData['type'],
+            id,
+            context: saveContext,
+            locale: locale || undefined,
+            ...(typeof expectedVersion === 'number' ? { expectedVersion } : {})
+          },
+          context?.userId
+        );
 
         // Publish subscription event
         pubsub.publish(TOPICS.CONTENT_UPDATED, {
           contentUpdated: {
             sight,
-            value,
-            type,
+            value: record.value,
+            type: toGraphQLType(record.type),
             userId: context?.userId,
+            status: record.metadata?.status,
             timestamp: new Date()
           }
         });
@@ -218,18 +241,20 @@ export const resolvers = {
         pubsub.publish(TOPICS.CONTENT_CHANGED, {
           contentChanged: {
             sight,
-            value,
-            type,
+            value: record.value,
+            type: toGraphQLType(record.type),
             userId: context?.userId,
+            status: record.metadata?.status,
             timestamp: new Date()
           }
         });
 
         return {
           success: true,
-          id: id || sight,
+          id: record.id,
           message: 'Content saved successfully',
-          data: { sight, value }
+          // Sanitized by the data source
+          data: { sight, value: record.value, ...(record.metadata?.version ? { version: record.metadata.version } : {}) }
         };
       } catch (error) {
         return {
@@ -241,7 +266,7 @@ export const resolvers = {
     },
 
     // Batch save
-    batchSave: async (_: any, { operations }: { operations: any[] }, context: any) => {
+    batchSave: async (_: any, { operations }: { operations: any[] }, context: SightEditContext) => {
       const results: any[] = [];
 
       for (const operation of operations) {
@@ -266,9 +291,13 @@ export const resolvers = {
     },
 
     // Update schema
-    updateSchema: (_: any, { sight, schema }: { sight: string; schema: ElementSchema }) => {
+    updateSchema: async (_: any, { sight, schema }: { sight: string; schema: SchemaRecord }, context: SightEditContext) => {
+      await getDataSource(context).saveSchema({
+        sight,
+        type: fromGraphQLType(schema.type),
+        properties: schema.properties
+      });
       const fullSchema = { ...schema, sight };
-      storage.schemas.set(sight, fullSchema);
 
       // Publish subscription event
       pubsub.publish(TOPICS.SCHEMA_UPDATED, {
@@ -283,13 +312,13 @@ export const resolvers = {
     },
 
     // Delete schema
-    deleteSchema: (_: any, { sight }: { sight: string }) => {
-      return storage.schemas.delete(sight);
+    deleteSchema: (_: any, { sight }: { sight: string }, context: SightEditContext) => {
+      return getDataSource(context).deleteSchema(sight);
     },
 
     // Update theme
-    updateTheme: (_: any, { theme }: { theme: any }) => {
-      storage.theme = theme;
+    updateTheme: async (_: any, { theme }: { theme: any }, context: SightEditContext) => {
+      await getDataSource(context).saveTheme(theme);
 
       // Publish subscription event
       pubsub.publish(TOPICS.THEME_UPDATED, {
@@ -303,10 +332,10 @@ export const resolvers = {
     },
 
     // Reset theme
-    resetTheme: (_: any, { preset }: { preset: string }) => {
+    resetTheme: async (_: any, { preset }: { preset: string }, context: SightEditContext) => {
       // In production, load preset from theme presets
       const theme = { mode: preset, colors: {}, typography: {} };
-      storage.theme = theme;
+      await getDataSource(context).saveTheme(theme);
 
       pubsub.publish(TOPICS.THEME_UPDATED, {
         themeUpdated: {
@@ -319,10 +348,13 @@ export const resolvers = {
     },
 
     // Start editing
-    startEditing: (_: any, { sight, userId }: { sight: string; userId: string }) => {
+    startEditing: (_: any, args: { sight: string; userId: string }, context: SightEditContext) => {
+      // Signed-in callers can only mark themselves as editing
+      const { sight } = args;
+      const userId = context?.user?.id || args.userId;
       const key = `${sight}:${userId}`;
 
-      storage.activeEditors.set(key, {
+      activeEditors.set(key, {
         userId,
         sight,
         startedAt: new Date(),
@@ -334,54 +366,68 @@ export const resolvers = {
       });
 
       pubsub.publish(TOPICS.ACTIVE_EDITORS_CHANGED, {
-        activeEditorsChanged: Array.from(storage.activeEditors.values())
+        activeEditorsChanged: Array.from(activeEditors.values())
       });
 
       return true;
     },
 
     // Stop editing
-    stopEditing: (_: any, { sight, userId }: { sight: string; userId: string }) => {
+    stopEditing: (_: any, args: { sight: string; userId: string }, context: SightEditContext) => {
+      const { sight } = args;
+      const userId = context?.user?.id || args.userId;
       const key = `${sight}:${userId}`;
-      storage.activeEditors.delete(key);
+      activeEditors.delete(key);
 
       pubsub.publish(TOPICS.ACTIVE_EDITORS_CHANGED, {
-        activeEditorsChanged: Array.from(storage.activeEditors.values())
+        activeEditorsChanged: Array.from(activeEditors.values())
       });
 
       return true;
     },
 
     // Revert to history
-    revertToHistory: (_: any, { historyId }: { historyId: string }) => {
-      const historyEntry = storage.history.find(h => h.id === historyId);
+    revertToHistory: async (_: any, { historyId }: { historyId: string }, context: SightEditContext) => {
+      try {
+        const record = await getDataSource(context).revertHistory(historyId, context?.userId);
+
+        if (!record) {
+          return {
+            success: false,
+            message: 'History entry not found',
+            error: 'NOT_FOUND'
+          };
+        }
+
+        pubsub.publish(TOPICS.CONTENT_CHANGED, {
+          contentChanged: {
+            sight: record.sight,
+            value: record.value,
+            type: toGraphQLType(record.type),
+            userId: context?.userId,
+            status: record.metadata?.status,
+            timestamp: new Date()
+          }
+        });
 
-      if (!historyEntry) {
+        return {
+          success: true,
+          id: record.id,
+          message: 'Reverted to previous version',
+          data: { sight: record.sight, value: record.value }
+        };
+      } catch (error) {
         return {
           success: false,
-          message: 'History entry not found',
-          error: 'NOT_FOUND'
+          message: 'Failed to revert content',
+          error: error instanceof Error ? error.message : String(error)
         };
       }
-
-      // Restore previous value
-      storage.contents.set(historyEntry.sight, historyEntry.previousValue);
-
-      return {
-        success: true,
-        message: 'Reverted to previous version',
-        data: { sight: historyEntry.sight, value: historyEntry.previousValue }
-      };
     },
 
     // Clear history
-    clearHistory: (_: any, { sight }: { sight?: string }) => {
-      if (sight) {
-        storage.history = storage.history.filter(h => h.sight !== sight);
-      } else {
-        storage.history = [];
-      }
-
+    clearHistory: async (_: any, { sight }: { sight?: string }, context: SightEditContext) => {
+      await getDataSource(context).clearHistory(sight);
       return true;
     }
   },
@@ -389,27 +435,28 @@ export const resolvers = {
   Subscription: {
     // Content updated (specific sight)
     contentUpdated: {
-      subscribe: (_: any, { sight }: { sight?: string }) => {
-        if (sight) {
-          return pubsub.asyncIterator([`${TOPICS.CONTENT_UPDATED}:${sight}`]);
-        }
-        return pubsub.asyncIterator([TOPICS.CONTENT_UPDATED]);
-      }
+      subscribe: withFilter(
+        () => pubsub.asyncIterator([TOPICS.CONTENT_UPDATED]),
+        (payload: any, { sight }: { sight?: string }, context: SightEditContext) =>
+          (!sight || payload.contentUpdated.sight === sight) && canReceiveChange(context, payload.contentUpdated)
+      )
     },
 
     // Content changed (all sights)
     contentChanged: {
-      subscribe: () => pubsub.asyncIterator([TOPICS.CONTENT_CHANGED])
+      subscribe: withFilter(
+        () => pubsub.asyncIterator([TOPICS.CONTENT_CHANGED]),
+        (payload: any, _: any, context: SightEditContext) => canReceiveChange(context, payload.contentChanged)
+      )
     },
 
     // Schema updated
     schemaUpdated: {
-      subscribe: (_: any, { sight }: { sight?: string }) => {
-        if (sight) {
-          return pubsub.asyncIterator([`${TOPICS.SCHEMA_UPDATED}:${sight}`]);
-        }
-        return pubsub.asyncIterator([TOPICS.SCHEMA_UPDATED]);
-      }
+      subscribe: withFilter(
+        () => pubsub.asyncIterator([TOPICS.SCHEMA_UPDATED]),
+        (payload: any, { sight }: { sight?: string }, context: SightEditContext) =>
+          (!sight || payload.schemaUpdated.sight === sight) && canReadSight(context, payload.schemaUpdated.sight)
+      )
     },
 
     // Theme updated
@@ -419,17 +466,19 @@ export const resolvers = {
 
     // Active editors changed
     activeEditorsChanged: {
-      subscribe: () => pubsub.asyncIterator([TOPICS.ACTIVE_EDITORS_CHANGED])
+      subscribe: () => pubsub.asyncIterator([TOPICS.ACTIVE_EDITORS_CHANGED]),
+      // Each subscriber only sees editors of sights they can read
+      resolve: (payload: any, _: any, context: SightEditContext) =>
+        filterReadable(context, payload.activeEditorsChanged)
     },
 
     // User action
     userAction: {
-      subscribe: (_: any, { userId }: { userId?: string }) => {
-        if (userId) {
-          return pubsub.asyncIterator([`${TOPICS.USER_ACTION}:${userId}`]);
-        }
-        return pubsub.asyncIterator([TOPICS.USER_ACTION]);
-      }
+      subscribe: withFilter(
+        () => pubsub.asyncIterator([TOPICS.USER_ACTION]),
+        (payload: any, { userId }: { userId?: string }, context: SightEditContext) =>
+          (!userId || payload.userAction.userId === userId) && canReadSight(context, payload.userAction.sight)
+      )
     }
   }
 };
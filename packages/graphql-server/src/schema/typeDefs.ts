@@ -78,6 +78,8 @@ export const typeDefs = `#graphql
     type: ElementType
     id: String
     context: JSON
+    locale: String
+    expectedVersion: Float
   }
 
   # Save response
@@ -144,6 +146,8 @@ export const typeDefs = `#graphql
     value: ContentValue
     type: ElementType
     userId: ID
+    # draft or published; drafts only reach subscribers allowed to read them
+    status: String
     timestamp: DateTime!
   }
 
@@ -195,11 +199,11 @@ export const typeDefs = `#graphql
 
   # Queries
   type Query {
-    # Fetch content by sight ID
-    fetchContent(sight: String!): ContentValue
+    # Fetch content by sight ID; drafts need the permission to write content
+    fetchContent(sight: String!, locale: String, draft: Boolean): ContentValue
 
     # Fetch multiple contents
-    fetchContents(sights: [String!]!): [ContentEntry!]!
+    fetchContents(sights: [String!]!, locale: String, draft: Boolean): [ContentEntry!]!
 
     # Fetch schema for a sight
     fetchSchema(sight: String!): ElementSchema
@@ -235,6 +239,7 @@ export const typeDefs = `#graphql
       query: String!
       types: [ElementType!]
       limit: Int
+      draft: Boolean
     ): [ContentEntry!]!
   }
 
@@ -17,6 +17,10 @@ import bodyParser from 'body-parser';
 
 import { typeDefs } from './schema/typeDefs';
 import { resolvers } from './schema/resolvers';
+import { MemoryDataSource } from './datasources/memory';
+import type { SightEditDataSource } from './datasources/types';
+import { authenticate, withFieldPermissions, FIELD_PERMISSIONS } from './auth';
+import type { GraphQLAuthOptions } from './auth';
 
 export interface ServerConfig {
   port?: number;
@@ -24,6 +28,8 @@ export interface ServerConfig {
     origin?: string | string[];
     credentials?: boolean;
   };
+  dataSource?: SightEditDataSource; // Defaults to an in-memory store
+  auth?: GraphQLAuthOptions; // Without it every operation is open to anyone
   context?: (req: any) => Promise<any> | any;
   onServerStart?: (url: string, wsUrl: string) => void;
 }
@@ -35,12 +41,17 @@ export class SightEditGraphQLServer {
   private apolloServer: ApolloServer | null = null;
   private schema: any;
   private config: ServerConfig;
+  private dataSource: SightEditDataSource;
 
   constructor(config: ServerConfig = {}) {
     this.config = config;
+    this.dataSource = config.dataSource || new MemoryDataSource();
     this.app = express();
     this.httpServer = createServer(this.app);
-    this.schema = makeExecutableSchema({ typeDefs, resolvers });
+    this.schema = makeExecutableSchema({
+      typeDefs,
+      resolvers: withFieldPermissions(resolvers, { ...FIELD_PERMISSIONS, ...config.auth?.permissions })
+    });
   }
 
   async start(): Promise<void> {
@@ -56,11 +67,7 @@ export class SightEditGraphQLServer {
     const serverCleanup = useServer(
       {
         schema: this.schema,
-        context: async (ctx) => {
-          return this.config.context
-            ? await this.config.context(ctx)
-            : {};
-        }
+        context: async (ctx) => this.createContext(ctx)
       },
       this.wsServer
     );
@@ -96,11 +103,7 @@ export class SightEditGraphQLServer {
       }),
       bodyParser.json(),
       expressMiddleware(this.apolloServer, {
-        context: async ({ req }) => {
-          return this.config.context
-            ? await this.config.context(req)
-            : {};
-        }
+        context: async ({ req }) => this.createContext(req)
       })
     );
 
@@ -131,6 +134,15 @@ export class SightEditGraphQLServer {
     });
   }
 
+  /**
+   * A custom context can swap the data source per request, e.g. per tenant
+   */
+  private async createContext(reqOrCtx: any): Promise<any> {
+    const authContext = this.config.auth ? await authenticate(this.config.auth, reqOrCtx) : {};
+    const userContext = this.config.context ? await this.config.context(reqOrCtx) : {};
+    return { dataSource: this.dataSource, ...authContext, ...userContext };
+  }
+
   async stop(): Promise<void> {
     if (this.apolloServer) {
       await this.apolloServer.stop();
@@ -152,6 +164,10 @@ export class SightEditGraphQLServer {
     console.log('🛑 Server stopped');
   }
 
+  getDataSource(): SightEditDataSource {
+    return this.dataSource;
+  }
+
   getApp(): express.Application {
     return this.app;
   }
@@ -1,4 +1,5 @@
 import { BaseEditor, EditMode, HTMLSanitizer } from '@sightedit/core';
+import type { CollaborativeTextEditor, TextOperation } from '@sightedit/core';
 import { EditorView, basicSetup } from 'codemirror';
 import { EditorState, Compartment } from '@codemirror/state';
 import { markdown } from '@codemirror/lang-markdown';
@@ -8,7 +9,7 @@ import { keymap } from '@codemirror/view';
 import { MarkdownRenderer } from './renderer';
 import type { MarkdownPluginOptions } from './index';
 
-export class MarkdownEditor extends BaseEditor {
+export class MarkdownEditor extends BaseEditor implements CollaborativeTextEditor {
   getMode(): EditMode {
     return 'modal';
   }
@@ -43,6 +44,7 @@ export class MarkdownEditor extends BaseEditor {
     }
     
     document.body.appendChild(modal);
+    this.emit('editStart');
   }
   
   private createModal(): HTMLElement {
@@ -127,7 +129,13 @@ export class MarkdownEditor extends BaseEditor {
         { key: 'Ctrl-p', run: () => { this.togglePreview(); return true; } }
       ]),
       this.themeCompartment.of(this.pluginOptions.theme === 'dark' ? oneDark : []),
-      EditorView.lineWrapping
+      EditorView.lineWrapping,
+      EditorView.updateListener.of(update => {
+        // Toolbar actions change the document without an input event
+        if (update.docChanged) {
+          this.emit('input', update.state.doc.toString());
+        }
+      })
     ];
     
     const state = EditorState.create({
@@ -381,6 +389,34 @@ code block
     return this.editorView?.state.doc.toString() || this.extractValue();
   }
   
+  getCollaborativeText(): string {
+    return this.getValue();
+  }
+
+  /**
+   * Dispatched as a CodeMirror change, which keeps the local selection in place
+   */
+  applyRemoteOperation(operation: TextOperation): void {
+    if (!this.editorView) {
+      return;
+    }
+
+    const changes: Array<{ from: number; to?: number; insert?: string }> = [];
+    let position = 0;
+    for (const op of operation) {
+      if (typeof op === 'string') {
+        changes.push({ from: position, insert: op });
+      } else if (op > 0) {
+        position += op;
+      } else {
+        changes.push({ from: position, to: position - op });
+        position -= op;
+      }
+    }
+
+    this.editorView.dispatch({ changes });
+  }
+
   setValue(value: string): void {
     this.value = value;
     this.applyValue(value);
@@ -410,8 +446,11 @@ code block
   private close(): void {
     const modal = document.querySelector('.sightedit-markdown-modal');
     modal?.remove();
-    this.editorView?.destroy();
-    this.editorView = null;
+    if (this.editorView) {
+      this.editorView.destroy();
+      this.editorView = null;
+      this.emit('editEnd');
+    }
   }
   
   destroy(): void {
@@ -0,0 +1,224 @@
+/**
+ * The media library: uploads listed, searched and deleted as assets, their alt text
+ * and tags, and the permissions the production server asks for.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as http from 'http';
+import * as os from 'os';
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { ProductionSightEditServer, StorageAdapter, sightEditHandler, SightEditHandlerOptions } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+const PHOTO = {
+  filename: 'photo.png',
+  originalName: 'Beach.png',
+  mimetype: 'image/png',
+  size: 1024,
+  uploadedAt: '2024-01-01T00:00:00.000Z',
+  uploadedBy: 'alice'
+};
+
+describe('Assets', () => {
+  let storage: MapStorage;
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('file:photo.png', PHOTO);
+  });
+
+  describe('handler routes', () => {
+    const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({ storage, ...options });
+
+    beforeEach(() => {
+      storage.data.set('file:report.pdf', {
+        filename: 'report.pdf',
+        originalName: 'Annual report.pdf',
+        mimetype: 'application/pdf',
+        size: 2048,
+        uploadedAt: '2024-02-01T00:00:00.000Z',
+        tags: ['finance']
+      });
+      storage.data.set('file:sunset.jpg', {
+        filename: 'sunset.jpg',
+        originalName: 'Sunset.jpg',
+        mimetype: 'image/jpeg',
+        size: 4096,
+        uploadedAt: '2024-03-01T00:00:00.000Z',
+        alt: 'Sun over the sea',
+        tags: ['summer']
+      });
+    });
+
+    test('list assets newest first and search them by text, type and tag', async () => {
+      const all = await request(handler(), 'GET', '/assets');
+      const images = await request(handler(), 'GET', '/assets?type=image');
+      const text = await request(handler(), 'GET', '/assets?q=sea');
+      const tagged = await request(handler(), 'GET', '/assets?tag=Finance');
+
+      expect(all.body.assets.map((asset: any) => asset.id)).toEqual(['sunset.jpg', 'report.pdf', 'photo.png']);
+      expect(images.body.assets.map((asset: any) => asset.id)).toEqual(['sunset.jpg', 'photo.png']);
+      expect(text.body.assets.map((asset: any) => asset.id)).toEqual(['sunset.jpg']);
+      expect(tagged.body.assets.map((asset: any) => asset.id)).toEqual(['report.pdf']);
+    });
+
+    test('page through the results', async () => {
+      const response = await request(handler(), 'GET', '/assets?limit=2&page=2');
+
+      expect(response.body).toEqual(expect.objectContaining({ total: 3, page: 2, limit: 2, pages: 2 }));
+      expect(response.body.assets.map((asset: any) => asset.id)).toEqual(['photo.png']);
+    });
+
+    test('read an asset with the published content and drafts that use it', async () => {
+      storage.data.set('hero', { sight: 'hero', value: '<img src="/uploads/photo.png">', type: 'html' });
+      storage.data.set('_draft:banner', { sight: 'banner', value: { src: '/uploads/photo.png' }, type: 'image' });
+      storage.data.set('footer', { sight: 'footer', value: 'No images here', type: 'text' });
+
+      const response = await request(handler(), 'GET', '/assets/photo.png');
+
+      expect(response.body.asset).toEqual(expect.objectContaining({ id: 'photo.png', url: '/uploads/photo.png' }));
+      expect(response.body.references).toEqual(expect.arrayContaining([
+        expect.objectContaining({ key: 'hero', status: 'published' }),
+        expect.objectContaining({ key: 'banner', status: 'draft' })
+      ]));
+      expect(response.body.references).toHaveLength(2);
+    });
+
+    test('refuse unsafe ids and report unknown assets', async () => {
+      expect((await request(handler(), 'GET', '/assets/..photo.png')).status).toBe(400);
+      expect((await request(handler(), 'GET', '/assets/missing.png')).status).toBe(404);
+    });
+
+    test('update alt text and tags, and reject invalid values', async () => {
+      const updated = await request(handler(), 'PATCH', '/assets/report.pdf', { alt: 'Report', tags: ['Finance', 'finance', ' 2024 '] });
+      expect(updated.body.asset).toEqual(expect.objectContaining({ alt: 'Report', tags: ['finance', '2024'] }));
+
+      expect((await request(handler(), 'PATCH', '/assets/report.pdf', { alt: 5 })).status).toBe(400);
+      expect((await request(handler(), 'PATCH', '/assets/report.pdf', { tags: [1] })).status).toBe(400);
+      expect((await request(handler(), 'PATCH', '/assets/report.pdf', { focalPoint: { x: 2, y: 0 } })).status).toBe(400);
+      expect(storage.data.get('file:report.pdf').alt).toBe('Report');
+    });
+
+    test('refuse to delete an asset in use unless forced, then remove its files', async () => {
+      const uploadDir = await fs.mkdtemp(join(os.tmpdir(), 'sightedit-assets-'));
+      try {
+        await fs.writeFile(join(uploadDir, 'photo.png'), 'png');
+        storage.data.set('hero', { sight: 'hero', value: '/uploads/photo.png', type: 'image' });
+
+        const refused = await request(handler({ storagePath: uploadDir }), 'DELETE', '/assets/photo.png');
+        expect(refused.status).toBe(409);
+        expect(refused.body.references).toEqual([expect.objectContaining({ key: 'hero' })]);
+        expect(storage.data.has('file:photo.png')).toBe(true);
+
+        const forced = await request(handler({ storagePath: uploadDir }), 'DELETE', '/assets/photo.png?force=true');
+        expect(forced.status).toBe(200);
+        expect(storage.data.has('file:photo.png')).toBe(false);
+        await expect(fs.access(join(uploadDir, 'photo.png'))).rejects.toThrow();
+      } finally {
+        await fs.rm(uploadDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('production server routes', () => {
+    let server: ProductionSightEditServer;
+    let listener: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      server = new ProductionSightEditServer({
+        storage,
+        environment: 'development',
+        jwt: { accessTokenSecret: 'a'.repeat(64), refreshTokenSecret: 'b'.repeat(64) },
+        security: { requireEmailVerification: false } as any,
+        csrf: { enabled: false },
+        rateLimit: { enabled: false }
+      });
+      listener = http.createServer(server.getApp());
+      await new Promise<void>(resolve => listener.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => listener.close(resolve));
+    });
+
+    async function tokenFor(roles: string[]): Promise<string> {
+      return (server as any).jwtAuth.generateAccessToken({
+        id: 'user-1',
+        email: 'user@example.com',
+        name: 'User',
+        roles,
+        permissions: ['read', 'write'],
+        emailVerified: true,
+        twoFactorEnabled: false,
+        lastLogin: new Date(),
+        loginAttempts: 0,
+        passwordChangedAt: new Date()
+      }, 'session-1');
+    }
+
+    async function call(method: string, path: string, roles: string[], body?: any) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { Authorization: `Bearer ${await tokenFor(roles)}`, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      return { status: response.status, body: await response.json() as any };
+    }
+
+    test('let editors list, read and update assets', async () => {
+      const list = await call('GET', '/api/assets', ['editor']);
+      expect(list.status).toBe(200);
+      expect(list.body.assets.map((asset: any) => asset.id)).toEqual(['photo.png']);
+
+      const read = await call('GET', '/api/assets/photo.png', ['editor']);
+      expect(read.body.asset).toEqual(expect.objectContaining({ originalName: 'Beach.png' }));
+
+      const updated = await call('PATCH', '/api/assets/photo.png', ['editor'], { alt: 'A beach', tags: 'Summer, sea' });
+      expect(updated.status).toBe(200);
+      expect(storage.data.get('file:photo.png')).toEqual(expect.objectContaining({ alt: 'A beach', tags: ['summer', 'sea'] }));
+    });
+
+    test('let viewers read assets but not change them', async () => {
+      expect((await call('GET', '/api/assets', ['viewer'])).status).toBe(200);
+      expect((await call('PATCH', '/api/assets/photo.png', ['viewer'], { alt: 'Changed' })).status).toBe(403);
+      expect(storage.data.get('file:photo.png').alt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { BackplaneMessage, InProcessBackplane, InProcessHub, RedisBackplane } from '../collaboration/backplane';
+
+/**
+ * Keys and channels shared by the connections of FakeRedis, like a Redis server
+ */
+class FakeRedisServer {
+  readonly keys: Map<string, { value: string; expiresAt: number }> = new Map();
+  readonly connections: Set<FakeRedis> = new Set();
+
+  get(key: string): string | null {
+    const entry = this.keys.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.keys.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+/**
+ * The part of the ioredis API the backplane uses
+ */
+class FakeRedis extends EventEmitter {
+  readonly channels: Set<string> = new Set();
+  quit = jest.fn(async () => {
+    this.server.connections.delete(this);
+    return 'OK';
+  });
+
+  constructor(readonly server: FakeRedisServer = new FakeRedisServer()) {
+    super();
+    server.connections.add(this);
+  }
+
+  duplicate(): FakeRedis {
+    return new FakeRedis(this.server);
+  }
+
+  async publish(channel: string, data: string): Promise<number> {
+    const receivers = Array.from(this.server.connections).filter(connection => connection.channels.has(channel));
+    setImmediate(() => receivers.forEach(connection => connection.emit('message', channel, data)));
+    return receivers.length;
+  }
+
+  async subscribe(channel: string): Promise<void> {
+    this.channels.add(channel);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.channels.delete(channel);
+  }
+
+  async set(key: string, value: string, px: string, ttl: number, nx: string): Promise<string | null> {
+    expect([px, nx]).toEqual(['PX', 'NX']);
+    if (this.server.get(key) !== null) return null;
+    this.server.keys.set(key, { value, expiresAt: Date.now() + ttl });
+    return 'OK';
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.server.get(key);
+  }
+
+  async pexpire(key: string, ttl: number): Promise<number> {
+    const entry = this.server.keys.get(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + ttl;
+    return 1;
+  }
+
+  async eval(_script: string, _keys: number, key: string, owner: string): Promise<number> {
+    if (this.server.get(key) !== owner) return 0;
+    this.server.keys.delete(key);
+    return 1;
+  }
+}
+
+function collect(): { handler: (payload: BackplaneMessage) => void; received: BackplaneMessage[] } {
+  const received: BackplaneMessage[] = [];
+  return { handler: payload => received.push(payload), received };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('InProcessBackplane', () => {
+  it('delivers copies of published messages to every subscriber of the room, in order', async () => {
+    const hub = new InProcessHub();
+    const first = new InProcessBackplane(hub);
+    const second = new InProcessBackplane(hub);
+    const inRoom = collect();
+    const elsewhere = collect();
+
+    await second.subscribe('room1', inRoom.handler);
+    await second.subscribe('room2', elsewhere.handler);
+
+    const message = { type: 'edit', data: { sight: 'title' } };
+    await first.publish({ instanceId: 'a', roomId: 'room1', message });
+    await first.publish({ instanceId: 'a', roomId: 'room1', message: { type: 'edit', data: { sight: 'body' } } });
+    message.data.sight = 'changed';
+    await flush();
+
+    expect(inRoom.received.map(payload => payload.message.data.sight)).toEqual(['title', 'body']);
+    expect(elsewhere.received).toEqual([]);
+
+    await second.unsubscribe('room1');
+    await first.publish({ instanceId: 'a', roomId: 'room1', message });
+    await flush();
+    expect(inRoom.received).toHaveLength(2);
+  });
+
+  it('grants a lock to one user at a time until it is released or expires', async () => {
+    const hub = new InProcessHub();
+    const first = new InProcessBackplane(hub);
+    const second = new InProcessBackplane(hub);
+
+    await expect(first.acquireLock('room1', 'title', 'alice', 1000)).resolves.toBe('alice');
+    await expect(second.acquireLock('room1', 'title', 'bob', 1000)).resolves.toBe('alice');
+    await expect(second.acquireLock('room1', 'body', 'bob', 1000)).resolves.toBe('bob');
+
+    await expect(second.releaseLock('room1', 'title', 'bob')).resolves.toBe(false);
+    await expect(first.releaseLock('room1', 'title', 'alice')).resolves.toBe(true);
+    await expect(second.acquireLock('room1', 'title', 'bob', 1000)).resolves.toBe('bob');
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+    try {
+      await expect(first.acquireLock('room1', 'title', 'alice', 1000)).resolves.toBe('alice');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
+
+describe('RedisBackplane', () => {
+  it('relays messages over a subscriber connection of the given client', async () => {
+    const client = new FakeRedis();
+    const first = new RedisBackplane({ client, prefix: 'test:' });
+    const second = new RedisBackplane({ client: client.duplicate(), prefix: 'test:' });
+    const received = collect();
+
+    await second.subscribe('room1', received.handler);
+    await first.publish({ instanceId: 'a', roomId: 'room1', message: { type: 'cursor' } });
+    await first.publish({ instanceId: 'a', roomId: 'room2', message: { type: 'cursor' } });
+    await flush();
+
+    expect(received.received).toEqual([{ instanceId: 'a', roomId: 'room1', message: { type: 'cursor' } }]);
+    expect(Array.from(client.server.connections).filter(connection => connection.channels.has('test:room:room1'))).toHaveLength(1);
+
+    await second.unsubscribe('room1');
+    await first.publish({ instanceId: 'a', roomId: 'room1', message: { type: 'cursor' } });
+    await flush();
+    expect(received.received).toHaveLength(1);
+
+    // Only the connections it created itself are closed
+    await first.close();
+    expect(client.quit).not.toHaveBeenCalled();
+    expect(client.server.connections.size).toBe(3);
+  });
+
+  it('keeps locks with an expiry and only lets the owner extend or release them', async () => {
+    const client = new FakeRedis();
+    const first = new RedisBackplane({ client });
+    const second = new RedisBackplane({ client: client.duplicate() });
+
+    await expect(first.acquireLock('room1', 'title', 'alice', 1000)).resolves.toBe('alice');
+    await expect(second.acquireLock('room1', 'title', 'bob', 1000)).resolves.toBe('alice');
+    expect(client.server.keys.get('sightedit:collaboration:lock:room1:title')!.value).toBe('alice');
+
+    const expiresAt = client.server.keys.get('sightedit:collaboration:lock:room1:title')!.expiresAt;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await expect(first.acquireLock('room1', 'title', 'alice', 1000)).resolves.toBe('alice');
+    expect(client.server.keys.get('sightedit:collaboration:lock:room1:title')!.expiresAt).toBeGreaterThan(expiresAt);
+
+    await expect(second.releaseLock('room1', 'title', 'bob')).resolves.toBe(false);
+    await expect(first.releaseLock('room1', 'title', 'alice')).resolves.toBe(true);
+    await expect(second.acquireLock('room1', 'title', 'bob', 1000)).resolves.toBe('bob');
+
+    client.server.keys.get('sightedit:collaboration:lock:room1:title')!.expiresAt = Date.now() - 1;
+    await expect(first.acquireLock('room1', 'title', 'alice', 1000)).resolves.toBe('alice');
+  });
+});
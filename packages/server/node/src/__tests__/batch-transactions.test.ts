@@ -0,0 +1,188 @@
+/**
+ * Tests for all-or-nothing batches: the atomic /batch mode, the rollback of
+ * adapters without transactions, and writes racing a database transaction.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { sightEditHandler, runStorageTransaction, StorageAdapter } from '../index';
+import { BaseDatabaseStorage } from '../storage/DatabaseStorage';
+
+/** Storage without a transaction primitive whose writes to `failKey` throw. */
+class FlakyStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  constructor(private failKey: string) {}
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    if (key === this.failKey) {
+      throw new Error(`Cannot write ${key}`);
+    }
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+/**
+ * A single shared connection: while a transaction is open every write sent on
+ * the connection joins it, and a rollback discards all of them.
+ */
+class SharedConnectionStorage extends BaseDatabaseStorage {
+  committed = new Map<string, any>();
+  private pending: Map<string, any> | null = null;
+  beforeWrite: (key: string) => Promise<void> = async () => undefined;
+
+  protected async initialize(): Promise<void> {}
+
+  protected async readValue(key: string): Promise<any> {
+    return (this.pending ?? this.committed).get(key);
+  }
+
+  protected async writeValue(key: string, value: any): Promise<void> {
+    await this.beforeWrite(key);
+    (this.pending ?? this.committed).set(key, value);
+  }
+
+  protected async insertValue(key: string, value: any): Promise<boolean> {
+    const rows = this.pending ?? this.committed;
+    if (rows.has(key)) return false;
+    rows.set(key, value);
+    return true;
+  }
+
+  protected async deleteValue(key: string): Promise<void> {
+    (this.pending ?? this.committed).delete(key);
+  }
+
+  protected async listKeys(): Promise<string[]> {
+    return [...(this.pending ?? this.committed).keys()];
+  }
+
+  protected async beginTransaction(): Promise<void> {
+    this.pending = new Map(this.committed);
+  }
+
+  protected async commitTransaction(): Promise<void> {
+    this.committed = this.pending!;
+    this.pending = null;
+  }
+
+  protected async rollbackTransaction(): Promise<void> {
+    this.pending = null;
+  }
+
+  async close(): Promise<void> {}
+}
+
+async function post(handler: ReturnType<typeof sightEditHandler>, path: string, body: any) {
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const req: any = { method: 'POST', path, url: path, query: {}, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Atomic batches', () => {
+  const operations = [
+    { type: 'update', data: { sight: 'title', value: 'New title', type: 'text' } },
+    { type: 'update', data: { sight: 'broken', value: 'Never stored', type: 'text' } }
+  ];
+
+  test('rolls back earlier writes when a later one fails', async () => {
+    const storage = new FlakyStorage('broken');
+    storage.data.set('title', { sight: 'title', value: 'Old title', timestamp: 1 });
+    const handler = sightEditHandler({ storage });
+
+    const response = await post(handler, '/batch', { operations, atomic: true });
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual(expect.objectContaining({ success: false, rolledBack: true }));
+    expect(storage.data.get('title').value).toBe('Old title');
+  });
+
+  test('removes keys a failed batch created', async () => {
+    const storage = new FlakyStorage('broken');
+    const handler = sightEditHandler({ storage });
+
+    await post(handler, '/batch', { operations, atomic: true });
+
+    expect(storage.data.has('title')).toBe(false);
+  });
+
+  test('keeps the writes that succeeded without atomic mode', async () => {
+    const storage = new FlakyStorage('broken');
+    const handler = sightEditHandler({ storage });
+
+    const response = await post(handler, '/batch', { operations });
+
+    expect(response.status).toBe(200);
+    expect(response.body.results.map((result: any) => result.success)).toEqual([true, false]);
+    expect(storage.data.get('title').value).toBe('New title');
+  });
+
+  test('restores deleted keys when the rollback is done by runStorageTransaction', async () => {
+    const storage = new FlakyStorage('broken');
+    storage.data.set('footer', 'Footer');
+
+    await expect(runStorageTransaction(storage, [
+      { type: 'delete', key: 'footer' },
+      { type: 'set', key: 'broken', value: 'x' }
+    ])).rejects.toThrow('Cannot write broken');
+
+    expect(storage.data.get('footer')).toBe('Footer');
+  });
+});
+
+describe('Database transactions', () => {
+  test('do not take writes sent while they are open down with their rollback', async () => {
+    const storage = new SharedConnectionStorage({ type: 'postgres', database: 'test' });
+    let failWrite!: () => void;
+    const writeStarted = new Promise<void>(resolve => {
+      storage.beforeWrite = key => key === 'broken'
+        ? (resolve(), new Promise<void>((_, reject) => { failWrite = () => reject(new Error('Write failed')); }))
+        : Promise.resolve();
+    });
+
+    const transaction = storage.transaction([
+      { type: 'set', key: 'title', value: 'In transaction' },
+      { type: 'set', key: 'broken', value: 'x' }
+    ]);
+    await writeStarted;
+
+    const save = storage.set('footer', 'Saved meanwhile');
+    const read = storage.get('title');
+    failWrite();
+
+    await expect(transaction).rejects.toThrow('Write failed');
+    await save;
+    await expect(read).resolves.toBeUndefined();
+    expect(storage.committed.get('footer')).toBe('Saved meanwhile');
+    expect(storage.committed.has('title')).toBe(false);
+  });
+
+  test('keep serving writes after a failed transaction', async () => {
+    const storage = new SharedConnectionStorage({ type: 'postgres', database: 'test' });
+    storage.beforeWrite = async key => {
+      if (key === 'broken') throw new Error('Write failed');
+    };
+
+    await expect(storage.transaction([{ type: 'set', key: 'broken', value: 1 }])).rejects.toThrow();
+    await storage.set('title', 'After');
+
+    await expect(storage.get('title')).resolves.toBe('After');
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { CollaborationServer } from '../collaboration/websocket-server';
+import { FileRoomStore, MemoryRoomStore, RoomSnapshot } from '../collaboration/room-store';
+import { InProcessBackplane, InProcessHub } from '../collaboration/backplane';
+
+const ORIGIN = 'http://localhost:3000';
+
+/**
+ * Saves only after a delay, like a remote database
+ */
+class SlowRoomStore extends MemoryRoomStore {
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await super.save(snapshot);
+  }
+}
+
+interface TestClient {
+  ws: WebSocket;
+  next(type: string): Promise<any>;
+  send(message: any): void;
+  close(): Promise<void>;
+}
+
+const servers: CollaborationServer[] = [];
+
+function startServer(config: ConstructorParameters<typeof CollaborationServer>[0] = {}): CollaborationServer {
+  const server = new CollaborationServer({ port: 0, allowedOrigins: [ORIGIN], persistDelay: 60000, ...config });
+  servers.push(server);
+  return server;
+}
+
+function connect(server: CollaborationServer, room: string, user: string): Promise<TestClient> {
+  const port = (server as any).wss.address().port;
+  const ws = new WebSocket(`ws://localhost:${port}/?room=${room}&user=${user}`, { origin: ORIGIN });
+  const received: any[] = [];
+  const waiting: Array<{ type: string; resolve: (message: any) => void }> = [];
+
+  ws.on('message', data => {
+    const message = JSON.parse(data.toString());
+    const index = waiting.findIndex(waiter => waiter.type === message.type);
+    if (index >= 0) {
+      waiting.splice(index, 1)[0].resolve(message);
+    } else {
+      received.push(message);
+    }
+  });
+
+  const client: TestClient = {
+    ws,
+    next: type => {
+      const index = received.findIndex(message => message.type === type);
+      if (index >= 0) {
+        return Promise.resolve(received.splice(index, 1)[0]);
+      }
+      return new Promise(resolve => waiting.push({ type, resolve }));
+    },
+    send: message => ws.send(JSON.stringify(message)),
+    close: () => new Promise(resolve => {
+      ws.once('close', () => resolve());
+      ws.close();
+    })
+  };
+
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve(client));
+    ws.once('error', reject);
+  });
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; !condition(); attempt++) {
+    if (attempt > 100) throw new Error('Condition not met');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('Collaboration rooms', () => {
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  it('restores edits when a room is rejoined before its last save finished', async () => {
+    const server = startServer({ store: new SlowRoomStore() });
+
+    const alice = await connect(server, 'room1', 'alice');
+    await alice.next('sync');
+    alice.send({ type: 'edit', data: { sight: 'title', value: 'Hello', type: 'text' } });
+    await alice.next('edit');
+    await alice.close();
+
+    const bob = await connect(server, 'room1', 'bob');
+    const sync = await bob.next('sync');
+    expect(sync.data.state.title.value).toBe('Hello');
+    expect(sync.data.version).toBe(1);
+    await bob.close();
+  });
+
+  it('keeps open text documents across a restart so pending operations still transform', async () => {
+    const store = new MemoryRoomStore();
+    const first = startServer({ store });
+
+    const alice = await connect(first, 'room1', 'alice');
+    await alice.next('sync');
+    alice.send({ type: 'open', data: { sight: 'title', type: 'text', value: 'Hello' } });
+    expect((await alice.next('document')).data).toEqual(expect.objectContaining({ text: 'Hello', revision: 0 }));
+    alice.send({ type: 'op', data: { sight: 'title', revision: 0, operation: [5, ' world'] } });
+    expect((await alice.next('ack')).data.revision).toBe(1);
+
+    await first.close();
+    servers.splice(servers.indexOf(first), 1);
+    expect((await store.load('room1'))!.documents).toEqual([
+      { sight: 'title', type: 'text', text: 'Hello world', revision: 1, base: 0, operations: [{ revision: 1, operation: [5, ' world'] }] }
+    ]);
+
+    const second = startServer({ store });
+    const returning = await connect(second, 'room1', 'alice');
+    await returning.next('sync');
+    returning.send({ type: 'open', data: { sight: 'title', type: 'text', value: 'stale' } });
+    expect((await returning.next('document')).data).toEqual(expect.objectContaining({ text: 'Hello world', revision: 1 }));
+
+    // Written against the text before the restart
+    returning.send({ type: 'op', data: { sight: 'title', revision: 0, operation: ['Oh, ', 5] } });
+    expect((await returning.next('ack')).data.revision).toBe(2);
+    expect((second as any).rooms.get('room1').documents.get('title').text).toBe('Oh, Hello world');
+    await returning.close();
+  });
+
+  it('saves the same room concurrently to files without clashing temp files', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sightedit-rooms-'));
+    const store = new FileRoomStore(directory);
+    const snapshot = (version: number): RoomSnapshot => ({
+      id: 'room1',
+      epoch: 'abc',
+      version,
+      state: {},
+      locks: {},
+      participants: [],
+      createdAt: 0,
+      lastActivity: Date.now()
+    });
+
+    try {
+      await Promise.all([1, 2, 3, 4, 5].map(version => store.save(snapshot(version))));
+      expect([1, 2, 3, 4, 5]).toContain((await store.load('room1'))!.version);
+      expect(await fs.readdir(directory)).toEqual(['room1.json']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('across instances', () => {
+    const room = (server: CollaborationServer) => (server as any).rooms.get('room1');
+
+    it('grants a contested lock to only one of the clients', async () => {
+      const hub = new InProcessHub();
+      const first = startServer({ backplane: new InProcessBackplane(hub) });
+      const second = startServer({ backplane: new InProcessBackplane(hub) });
+
+      const alice = await connect(first, 'room1', 'alice');
+      const bob = await connect(second, 'room1', 'bob');
+      await Promise.all([alice.next('sync'), bob.next('sync')]);
+
+      alice.send({ type: 'lock', data: { element: 'title' } });
+      bob.send({ type: 'lock', data: { element: 'title' } });
+
+      // Everyone is told who got it
+      const granted = await alice.next('lock');
+      expect((await bob.next('lock')).userId).toBe(granted.userId);
+
+      const denied = await (granted.userId === 'alice' ? bob : alice).next('lockDenied');
+      expect(denied.data).toEqual({ element: 'title', owner: granted.userId });
+      expect(room(first).locks.get('title')).toBe(granted.userId);
+      expect(room(second).locks.get('title')).toBe(granted.userId);
+    });
+
+    it('orders concurrent text operations once, so every instance ends up with the same text', async () => {
+      const hub = new InProcessHub();
+      const first = startServer({ backplane: new InProcessBackplane(hub) });
+      const second = startServer({ backplane: new InProcessBackplane(hub) });
+
+      const alice = await connect(first, 'room1', 'alice');
+      const bob = await connect(second, 'room1', 'bob');
+      await Promise.all([alice.next('sync'), bob.next('sync')]);
+
+      alice.send({ type: 'open', data: { sight: 'title', type: 'text', value: 'Hello' } });
+      bob.send({ type: 'open', data: { sight: 'title', type: 'text', value: 'Hello' } });
+      await Promise.all([alice.next('document'), bob.next('document')]);
+
+      alice.send({ type: 'op', data: { sight: 'title', revision: 0, operation: [5, ' world'] } });
+      bob.send({ type: 'op', data: { sight: 'title', revision: 0, operation: ['Oh, ', 5] } });
+
+      const [aliceAck, bobAck, forAlice, forBob] = await Promise.all([
+        alice.next('ack'), bob.next('ack'), alice.next('op'), bob.next('op')
+      ]);
+      expect([aliceAck.data.revision, bobAck.data.revision].sort()).toEqual([1, 2]);
+      expect(forAlice.data.revision).toBe(bobAck.data.revision);
+      expect(forBob.data.revision).toBe(aliceAck.data.revision);
+
+      for (const server of [first, second]) {
+        expect(room(server).version).toBe(2);
+        expect(room(server).state.title).toEqual(expect.objectContaining({ value: 'Oh, Hello world', version: 2 }));
+        expect(room(server).documents.get('title')).toEqual(expect.objectContaining({ text: 'Oh, Hello world', revision: 2 }));
+      }
+    });
+
+    it('brings an instance that joins later up to date with the one ordering changes', async () => {
+      const hub = new InProcessHub();
+      const first = startServer({ backplane: new InProcessBackplane(hub) });
+
+      const alice = await connect(first, 'room1', 'alice');
+      await alice.next('sync');
+      alice.send({ type: 'edit', data: { sight: 'title', value: 'Hello', type: 'text' } });
+      await alice.next('edit');
+
+      // Nothing was saved yet, so the store can't tell the new instance about the edit
+      const second = startServer({ backplane: new InProcessBackplane(hub) });
+      const bob = await connect(second, 'room1', 'bob');
+      await waitFor(() => room(second).version === 1);
+      expect(room(second).epoch).toBe(room(first).epoch);
+      expect(room(second).state.title.value).toBe('Hello');
+
+      bob.send({ type: 'edit', data: { sight: 'body', value: 'Text', type: 'text' } });
+      const edits = await Promise.all([alice.next('edit'), bob.next('edit')]);
+      expect(edits.map(edit => edit.data.version)).toEqual([2, 2]);
+      expect(room(first).state.body.value).toBe('Text');
+      expect(room(second).version).toBe(2);
+    });
+
+    it('hands the ordering of changes over when that instance shuts down', async () => {
+      const hub = new InProcessHub();
+      const first = startServer({ backplane: new InProcessBackplane(hub) });
+      const second = startServer({ backplane: new InProcessBackplane(hub) });
+
+      const alice = await connect(first, 'room1', 'alice');
+      const bob = await connect(second, 'room1', 'bob');
+      await Promise.all([alice.next('sync'), bob.next('sync')]);
+      expect(room(second).sequencer).toBe(room(first).sequencer);
+
+      await first.close();
+      servers.splice(servers.indexOf(first), 1);
+      await waitFor(() => room(second).sequencer === (second as any).instanceId);
+
+      bob.send({ type: 'edit', data: { sight: 'title', value: 'Hello', type: 'text' } });
+      expect((await bob.next('edit')).data.version).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for comment threads written by concurrent requests
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { StorageAdapter } from '../index';
+import {
+  createCommentThread,
+  getCommentThread,
+  replyToCommentThread,
+  setCommentThreadStatus,
+  deleteCommentThread,
+  CommentThread
+} from '../comments';
+
+/** Every call yields first, so concurrent read-modify-writes interleave. */
+class SlowStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    await new Promise(resolve => setImmediate(resolve));
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+describe('Comment threads', () => {
+  let storage: SlowStorage;
+  let thread: CommentThread;
+
+  beforeEach(async () => {
+    storage = new SlowStorage();
+    thread = await createCommentThread(storage, { key: 'hero', sight: 'hero', body: 'Typo here', mentions: [] });
+  });
+
+  test('keep every reply sent at the same time', async () => {
+    await Promise.all(['One', 'Two', 'Three'].map(body => replyToCommentThread(storage, thread.id, body, [])));
+
+    const stored = await getCommentThread(storage, thread.id);
+    expect(stored!.comments.map(comment => comment.body).sort()).toEqual(['One', 'Three', 'Two', 'Typo here']);
+  });
+
+  test('keep a reply sent while the thread is resolved', async () => {
+    await Promise.all([
+      setCommentThreadStatus(storage, thread.id, 'resolved'),
+      replyToCommentThread(storage, thread.id, 'Not fixed yet', [])
+    ]);
+
+    const stored = await getCommentThread(storage, thread.id);
+    expect(stored!.comments).toHaveLength(2);
+    expect(stored!.status).toBe('open');
+    expect(stored!.resolvedAt).toBeUndefined();
+  });
+
+  test('keep the thread resolved when it is resolved after a reply', async () => {
+    await Promise.all([
+      replyToCommentThread(storage, thread.id, 'Fixed', []),
+      setCommentThreadStatus(storage, thread.id, 'resolved', { id: 'editor-1' })
+    ]);
+
+    const stored = await getCommentThread(storage, thread.id);
+    expect(stored!.comments).toHaveLength(2);
+    expect(stored).toEqual(expect.objectContaining({ status: 'resolved', resolvedBy: { id: 'editor-1' } }));
+  });
+
+  test('do not bring back a thread deleted before the reply is written', async () => {
+    const [, reply] = await Promise.all([
+      deleteCommentThread(storage, thread.id),
+      replyToCommentThread(storage, thread.id, 'Too late', [])
+    ]);
+
+    expect(reply).toBeNull();
+    await expect(getCommentThread(storage, thread.id)).resolves.toBeNull();
+  });
+});
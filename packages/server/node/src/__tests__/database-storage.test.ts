@@ -0,0 +1,46 @@
+/**
+ * The SQL adapters list keys by prefix with LIKE, where `_` and `%` are wildcards and
+ * case may not count; internal keys all start with `_`.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { SQLiteStorage, likePrefix } from '../storage/DatabaseStorage';
+
+describe('Database storage', () => {
+  test('escapes LIKE wildcards in prefixes', () => {
+    expect(likePrefix('_webhook:')).toBe('!_webhook:%');
+    expect(likePrefix('100%_off!')).toBe('100!%!_off!!%');
+  });
+
+  describe('SQLiteStorage', () => {
+    let storage: SQLiteStorage;
+
+    beforeEach(async () => {
+      storage = new SQLiteStorage({ type: 'sqlite', database: ':memory:' });
+      // The constructor doesn't wait for the table to be created
+      for (let tries = 0; ; tries++) {
+        try {
+          await storage.list();
+          break;
+        } catch (error) {
+          if (tries > 100) throw error;
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+      }
+    });
+
+    afterEach(async () => {
+      await storage.close();
+    });
+
+    test('lists only keys that start with the prefix', async () => {
+      for (const key of ['_webhook:one', 'awebhook:two', '_WEBHOOK:three', '_webhook-delivery:one:1', 'sale:100%', 'sale:100 off']) {
+        await storage.set(key, { key });
+      }
+
+      await expect(storage.list('_webhook:')).resolves.toEqual(['_webhook:one']);
+      await expect(storage.list('sale:100%')).resolves.toEqual(['sale:100%']);
+      await expect(storage.list()).resolves.toHaveLength(6);
+    });
+  });
+});
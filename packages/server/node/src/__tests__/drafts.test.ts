@@ -0,0 +1,126 @@
+/**
+ * Drafts stay private: content reads serve published values, draft reads and
+ * publishing need a permission callback, and internal keys are never served.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, SightEditHandlerOptions, StorageAdapter } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Drafts', () => {
+  let storage: MapStorage;
+  const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({ storage, drafts: true, ...options });
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('hero', { sight: 'hero', value: 'Published', type: 'text', timestamp: 1 });
+    storage.data.set('_draft:hero', { sight: 'hero', value: 'Draft', type: 'text', timestamp: 2 });
+  });
+
+  describe('content reads', () => {
+    test('serve the published value', async () => {
+      const response = await request(handler(), 'GET', '/content/hero');
+
+      expect(response.body.data).toEqual(expect.objectContaining({ value: 'Published', status: 'published' }));
+    });
+
+    test('refuse draft reads without a permission callback', async () => {
+      const response = await request(handler(), 'GET', '/content/hero?draft=true');
+
+      expect(response.status).toBe(403);
+    });
+
+    test('serve drafts to users canReadDrafts allows', async () => {
+      const response = await request(handler({ canReadDrafts: () => true }), 'GET', '/content/hero?draft=true');
+
+      expect(response.body.data).toEqual(expect.objectContaining({ value: 'Draft', status: 'draft' }));
+    });
+
+    test('fall back to canPublish for draft reads', async () => {
+      const denied = await request(handler({ canPublish: () => false }), 'GET', '/content/hero?draft=true');
+      const allowed = await request(handler({ canPublish: () => true }), 'GET', '/content/hero?draft=true');
+
+      expect(denied.status).toBe(403);
+      expect(allowed.body.data.value).toBe('Draft');
+    });
+
+    test('never serve drafts as a sight', async () => {
+      const single = await request(handler(), 'GET', '/content/_draft?id=hero');
+      const bulk = await request(handler(), 'GET', '/content?sights=_draft,hero&id=hero');
+
+      expect(single.status).toBe(400);
+      expect(bulk.status).toBe(400);
+      expect(JSON.stringify([single.body, bulk.body])).not.toContain('Draft');
+    });
+
+    test('never list internal keys by prefix', async () => {
+      storage.data.set('_schema:hero', { sight: 'hero', type: 'text' });
+
+      const response = await request(handler({ canReadDrafts: () => true }), 'GET', '/content?prefix=_&draft=true');
+
+      expect(response.body.items).toEqual([]);
+    });
+  });
+
+  describe('publishing', () => {
+    test('is refused without canPublish', async () => {
+      const response = await request(handler(), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(403);
+      expect(storage.data.get('hero').value).toBe('Published');
+    });
+
+    test('is refused when canPublish denies it', async () => {
+      const response = await request(handler({ canPublish: () => false }), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(403);
+    });
+
+    test('promotes the draft when canPublish allows it', async () => {
+      const response = await request(handler({ canPublish: () => true }), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(200);
+      expect(storage.data.get('hero').value).toBe('Draft');
+      expect(storage.data.has('_draft:hero')).toBe(false);
+    });
+
+    test('schedules are refused without canPublish', async () => {
+      const response = await request(handler({ schedules: true }), 'POST', '/schedule', { sight: 'hero', publishAt: Date.now() + 60000 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
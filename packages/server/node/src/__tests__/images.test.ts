@@ -0,0 +1,44 @@
+/**
+ * Tests for the image transform parameters
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { parseTransform, snapToBreakpoint } from '../images';
+
+describe('Image transforms', () => {
+  const images = { breakpoints: [320, 640, 960] };
+
+  test('round sizes up to the next breakpoint', () => {
+    expect(parseTransform({ w: '500', h: '321' }, images)).toEqual(expect.objectContaining({ width: 640, height: 640 }));
+    expect(parseTransform({ w: '640' }, images)).toEqual(expect.objectContaining({ width: 640 }));
+  });
+
+  test('round sizes above the largest breakpoint down to it', () => {
+    expect(parseTransform({ w: '3000' }, images)).toEqual(expect.objectContaining({ width: 960 }));
+  });
+
+  test('use the default breakpoints when none are configured', () => {
+    expect(parseTransform({ w: '1000' })).toEqual(expect.objectContaining({ width: 1280 }));
+  });
+
+  test('round quality to a multiple of 10', () => {
+    expect(parseTransform({ q: '73' }, images)).toEqual(expect.objectContaining({ quality: 70 }));
+    expect(parseTransform({ q: '1' }, images)).toEqual(expect.objectContaining({ quality: 10 }));
+  });
+
+  test('give every request in a breakpoint range the same transform', () => {
+    const transforms = new Set(['321', '400', '512', '639', '640'].map(w => JSON.stringify(parseTransform({ w }, images))));
+
+    expect(transforms.size).toBe(1);
+  });
+
+  test('still reject sizes outside the allowed range', () => {
+    expect(parseTransform({ w: '0' }, images)).toEqual({ error: expect.any(String) });
+    expect(parseTransform({ w: '5000' }, images)).toEqual({ error: expect.any(String) });
+    expect(parseTransform({ w: '12.5' }, images)).toEqual({ error: expect.any(String) });
+  });
+
+  test('snap nothing without breakpoints', () => {
+    expect(snapToBreakpoint(123, [])).toBe(123);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Localized content through the handler: translations are saved next to the default
+ * key, reads fall back along the locale chain, and untranslated content is listed.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, SightEditHandlerOptions, StorageAdapter } from '../index';
+import { LocaleOptions } from '../locales';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+const LOCALES: LocaleOptions = {
+  default: 'en',
+  supported: ['en', 'de', 'de-AT', 'fr'],
+  fallbacks: { 'de-AT': ['de'] }
+};
+
+describe('Locales', () => {
+  let storage: MapStorage;
+  const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({ storage, locales: LOCALES, ...options });
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('home.title', { sight: 'home.title', value: 'Welcome', type: 'text', timestamp: 1 });
+    storage.data.set('home.title@de', { sight: 'home.title', value: 'Willkommen', type: 'text', locale: 'de', timestamp: 1 });
+    storage.data.set('home.intro', { sight: 'home.intro', value: 'Hello', type: 'text', timestamp: 1 });
+  });
+
+  describe('saving', () => {
+    test('stores translations next to the default-locale key', async () => {
+      const translated = await request(handler(), 'POST', '/save', { sight: 'home.intro', value: 'Bonjour', type: 'text', locale: 'fr' });
+      const original = await request(handler(), 'POST', '/save', { sight: 'home.intro', value: 'Hi', type: 'text', locale: 'en' });
+
+      expect(translated.status).toBe(200);
+      expect(original.status).toBe(200);
+      expect(storage.data.get('home.intro@fr').value).toBe('Bonjour');
+      expect(storage.data.get('home.intro').value).toBe('Hi');
+      expect(storage.data.has('home.intro@en')).toBe(false);
+    });
+
+    test('refuses unsupported locales, and any locale when localization is off', async () => {
+      const unsupported = await request(handler(), 'POST', '/save', { sight: 'home.intro', value: 'Hola', type: 'text', locale: 'es' });
+      const disabled = await request(sightEditHandler({ storage }), 'POST', '/save', { sight: 'home.intro', value: 'Hallo', type: 'text', locale: 'de' });
+
+      expect(unsupported.status).toBe(400);
+      expect(disabled.status).toBe(400);
+      expect(await storage.list('home.intro@')).toEqual([]);
+    });
+  });
+
+  describe('reading', () => {
+    test('serves the requested locale when it is translated', async () => {
+      const response = await request(handler(), 'GET', '/content/home.title?locale=de');
+
+      expect(response.body.data).toEqual(expect.objectContaining({ value: 'Willkommen', locale: 'de', fallback: false }));
+    });
+
+    test('falls back to configured fallbacks, then to the default locale', async () => {
+      const regional = await request(handler(), 'GET', '/content/home.title?locale=de-AT');
+      const untranslated = await request(handler(), 'GET', '/content/home.title?locale=fr');
+      const unlocalized = await request(handler(), 'GET', '/content/home.title');
+
+      expect(regional.body.data).toEqual(expect.objectContaining({ value: 'Willkommen', locale: 'de', fallback: true }));
+      expect(untranslated.body.data).toEqual(expect.objectContaining({ value: 'Welcome', locale: 'en', fallback: true }));
+      expect(unlocalized.body.data).toEqual(expect.objectContaining({ value: 'Welcome', locale: 'en', fallback: false }));
+    });
+
+    test('reads each sight once by prefix, through the chain', async () => {
+      const response = await request(handler(), 'GET', '/content?prefix=home.&locale=de');
+
+      expect(response.body.items.map((item: any) => [item.sight, item.value]).sort()).toEqual([
+        ['home.intro', 'Hello'],
+        ['home.title', 'Willkommen']
+      ]);
+    });
+
+    test('refuses unsupported locales', async () => {
+      expect((await request(handler(), 'GET', '/content/home.title?locale=es')).status).toBe(400);
+    });
+  });
+
+  describe('missing translations', () => {
+    test('lists default-locale content per untranslated locale', async () => {
+      const response = await request(handler(), 'GET', '/translations/missing');
+
+      expect(response.body.defaultLocale).toBe('en');
+      expect(response.body.items).toEqual([
+        { key: 'home.intro', sight: 'home.intro', locales: ['de', 'de-AT', 'fr'] },
+        { key: 'home.title', sight: 'home.title', locales: ['de-AT', 'fr'] }
+      ]);
+    });
+
+    test('narrows to one locale and a prefix, and counts drafts as translated', async () => {
+      storage.data.set('about.title', { sight: 'about.title', value: 'About', type: 'text', timestamp: 1 });
+      storage.data.set('_draft:home.intro@fr', { sight: 'home.intro', value: 'Salut', type: 'text', locale: 'fr', timestamp: 2 });
+
+      const response = await request(handler(), 'GET', '/translations/missing?locale=fr&prefix=home.');
+
+      expect(response.body.locales).toEqual(['fr']);
+      expect(response.body.items).toEqual([{ key: 'home.title', sight: 'home.title', locales: ['fr'] }]);
+    });
+
+    test('refuses the default locale, unknown locales and disabled localization', async () => {
+      expect((await request(handler(), 'GET', '/translations/missing?locale=en')).status).toBe(400);
+      expect((await request(handler(), 'GET', '/translations/missing?locale=es')).status).toBe(400);
+      expect((await request(sightEditHandler({ storage }), 'GET', '/translations/missing')).status).toBe(400);
+    });
+  });
+});
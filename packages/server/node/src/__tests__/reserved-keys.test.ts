@@ -0,0 +1,118 @@
+/**
+ * Sights are the first part of every storage key, so a sight must never reach
+ * the internal entries stored under `_` and `file:` prefixes.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, StorageAdapter } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Reserved storage keys', () => {
+  const schema = { sight: 'title', type: 'text', maxLength: 10 };
+  let storage: MapStorage;
+  let handler: ReturnType<typeof sightEditHandler>;
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('_schema:title', schema);
+    storage.data.set('file:logo', { filename: 'logo.png' });
+    handler = sightEditHandler({ storage, canManageSchemas: () => false });
+  });
+
+  describe('saves', () => {
+    test('cannot overwrite a schema', async () => {
+      const response = await request(handler, 'POST', '/save', { sight: '_schema', id: 'title', value: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(storage.data.get('_schema:title')).toBe(schema);
+    });
+
+    test('cannot overwrite file metadata', async () => {
+      const response = await request(handler, 'POST', '/save', { sight: 'file', id: 'logo', value: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(storage.data.get('file:logo')).toEqual({ filename: 'logo.png' });
+    });
+
+    test('still accept sights with underscores inside', async () => {
+      const response = await request(handler, 'POST', '/save', { sight: 'hero_title', value: 'x' });
+
+      expect(response.status).toBe(200);
+      expect(storage.data.get('hero_title').value).toBe('x');
+    });
+  });
+
+  describe('batches', () => {
+    test('reject reserved sights per operation', async () => {
+      const response = await request(handler, 'POST', '/batch', {
+        operations: [
+          { type: 'update', data: { sight: '_schema', id: 'title', value: 'x' } },
+          { type: 'delete', data: { sight: 'file', id: 'logo' } },
+          { type: 'update', data: { sight: 'title', value: 'Hello' } }
+        ]
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results.map((result: any) => result.success)).toEqual([false, false, true]);
+      expect(storage.data.get('_schema:title')).toBe(schema);
+      expect(storage.data.has('file:logo')).toBe(true);
+    });
+
+    test('write nothing in atomic mode', async () => {
+      const response = await request(handler, 'POST', '/batch', {
+        atomic: true,
+        operations: [
+          { type: 'update', data: { sight: 'title', value: 'Hello' } },
+          { type: 'delete', data: { sight: '_schema', id: 'title' } }
+        ]
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.rolledBack).toBe(true);
+      expect(storage.data.has('title')).toBe(false);
+      expect(storage.data.get('_schema:title')).toBe(schema);
+    });
+
+    test('do not report the current value of internal entries as conflicts', async () => {
+      const response = await request(handler, 'POST', '/batch', {
+        operations: [{ type: 'update', data: { sight: '_schema', id: 'title', value: 'x', expectedVersion: 5 } }]
+      });
+
+      expect(response.status).toBe(200);
+      expect(JSON.stringify(response.body)).not.toContain('maxLength');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Revision history through the handler: saves are recorded per content key, two
+ * revisions can be compared, and an old one restored as a new save.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, SightEditHandlerOptions, StorageAdapter } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Revisions', () => {
+  let storage: MapStorage;
+  const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({ storage, ...options });
+
+  async function saveAll(values: string[], options: SightEditHandlerOptions = {}) {
+    for (const value of values) {
+      const response = await request(handler(options), 'POST', '/save', { sight: 'hero', value, type: 'text' });
+      expect(response.status).toBe(200);
+    }
+  }
+
+  beforeEach(() => {
+    storage = new MapStorage();
+  });
+
+  describe('listing', () => {
+    test('returns the saves of a key, newest first', async () => {
+      await saveAll(['One', 'Two', 'Three']);
+
+      const response = await request(handler(), 'GET', '/history/hero');
+
+      expect(response.body.key).toBe('hero');
+      expect(response.body.revisions.map((revision: any) => [revision.id, revision.value, revision.action]))
+        .toEqual([[3, 'Three', 'save'], [2, 'Two', 'save'], [1, 'One', 'save']]);
+    });
+
+    test('honours limit and keeps at most maxRevisions', async () => {
+      await saveAll(['One', 'Two', 'Three'], { maxRevisions: 2 });
+
+      const limited = await request(handler(), 'GET', '/history/hero?limit=1');
+      const all = await request(handler({ maxRevisions: 2 }), 'GET', '/history/hero');
+
+      expect(limited.body.revisions.map((revision: any) => revision.value)).toEqual(['Three']);
+      expect(all.body.revisions.map((revision: any) => revision.value)).toEqual(['Three', 'Two']);
+    });
+
+    test('keeps records and their history apart', async () => {
+      await request(handler(), 'POST', '/save', { sight: 'title', value: 'First', type: 'text', context: { recordId: 'a' } });
+      await request(handler(), 'POST', '/save', { sight: 'title', value: 'Second', type: 'text', context: { recordId: 'b' } });
+
+      const response = await request(handler(), 'GET', '/history/title?recordId=a');
+
+      expect(response.body.revisions.map((revision: any) => revision.value)).toEqual(['First']);
+    });
+
+    test('records nothing with maxRevisions 0', async () => {
+      await saveAll(['One'], { maxRevisions: 0 });
+
+      expect(await storage.list('_revisions:')).toEqual([]);
+    });
+  });
+
+  describe('diff', () => {
+    test('compares text word by word, against the latest revision by default', async () => {
+      await saveAll(['Hello world', 'Hello there']);
+
+      const response = await request(handler(), 'GET', '/history/hero/diff?from=1');
+
+      expect(response.body.from.value).toBe('Hello world');
+      expect(response.body.to.value).toBe('Hello there');
+      expect(response.body.diff).toEqual({
+        type: 'text',
+        parts: [
+          { type: 'equal', value: 'Hello ' },
+          { type: 'delete', value: 'world' },
+          { type: 'insert', value: 'there' }
+        ]
+      });
+    });
+
+    test('compares structured values field by field', async () => {
+      await request(handler(), 'POST', '/save', { sight: 'card', value: { title: 'A', body: 'Same' }, type: 'json' });
+      await request(handler(), 'POST', '/save', { sight: 'card', value: { title: 'B', body: 'Same' }, type: 'json' });
+
+      const response = await request(handler(), 'GET', '/history/card/diff?from=1&to=2');
+
+      expect(response.body.diff).toEqual({ type: 'fields', changes: [{ path: 'title', before: 'A', after: 'B' }] });
+    });
+
+    test('rejects bad revision ids and reports unknown ones', async () => {
+      await saveAll(['One']);
+
+      expect((await request(handler(), 'GET', '/history/hero/diff?from=abc')).status).toBe(400);
+      expect((await request(handler(), 'GET', '/history/hero/diff?from=1&to=9')).status).toBe(404);
+    });
+  });
+
+  describe('restore', () => {
+    test('writes the old value back and records the restore', async () => {
+      await saveAll(['One', 'Two']);
+
+      const response = await request(handler(), 'POST', '/history/hero/restore', { revision: 1 });
+
+      expect(response.body).toEqual(expect.objectContaining({ success: true, data: 'One', status: 'published', restoredFrom: 1 }));
+      expect(storage.data.get('hero').value).toBe('One');
+
+      const history = await request(handler(), 'GET', '/history/hero');
+      expect(history.body.revisions[0]).toEqual(expect.objectContaining({ id: 3, value: 'One', action: 'restore', restoredFrom: 1 }));
+    });
+
+    test('restores into the draft when drafts are on', async () => {
+      await saveAll(['One', 'Two'], { drafts: true });
+
+      const response = await request(handler({ drafts: true }), 'POST', '/history/hero/restore', { revision: 1 });
+
+      expect(response.body.status).toBe('draft');
+      expect(storage.data.get('_draft:hero').value).toBe('One');
+      expect(storage.data.get('hero')).toBeUndefined();
+    });
+
+    test('refuses a stale expectedVersion', async () => {
+      await saveAll(['One', 'Two']);
+      const stored = storage.data.get('hero').timestamp;
+
+      const response = await request(handler(), 'POST', '/history/hero/restore', { revision: 1, expectedVersion: stored - 1 });
+
+      expect(response.status).toBe(409);
+      expect(storage.data.get('hero').value).toBe('Two');
+    });
+
+    test('reports unknown revisions', async () => {
+      await saveAll(['One']);
+
+      expect((await request(handler(), 'POST', '/history/hero/restore', { revision: 7 })).status).toBe(404);
+      expect((await request(handler(), 'POST', '/history/hero/restore', { revision: 'x' })).status).toBe(400);
+    });
+  });
+});
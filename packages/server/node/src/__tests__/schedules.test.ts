@@ -0,0 +1,154 @@
+/**
+ * Tests for scheduled publishing with several scheduler instances on one storage
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { StorageAdapter, ContentScheduler, ScheduleRunner } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    await new Promise(resolve => setImmediate(resolve));
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+    this.data.set(key, value);
+  }
+
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (this.data.has(key)) return false;
+    this.data.set(key, value);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+describe('ContentScheduler', () => {
+  const start = Date.UTC(2030, 0, 1);
+  let storage: MapStorage;
+  let runner: jest.Mock<ScheduleRunner>;
+  let schedulers: ContentScheduler[];
+
+  const scheduler = (options = {}) => {
+    const created = new ContentScheduler(storage, runner, options);
+    schedulers.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start, doNotFake: ['setImmediate'] });
+    storage = new MapStorage();
+    runner = jest.fn<ScheduleRunner>().mockResolvedValue({ applied: ['hero'], missing: [] });
+    schedulers = [];
+  });
+
+  afterEach(() => {
+    schedulers.forEach(created => created.stop());
+    jest.useRealTimers();
+  });
+
+  test('runs a due schedule once when every instance arms it', async () => {
+    const first = scheduler();
+    const second = scheduler();
+    const schedule = await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start + 1000) });
+    await second.resume();
+    jest.setSystemTime(start + 1000);
+
+    const results = await Promise.all([first.run(schedule.id), second.run(schedule.id)]);
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result!.status).sort()).toEqual(['done', 'scheduled']);
+    expect(storage.data.get(`_schedule:${schedule.id}`).status).toBe('done');
+  });
+
+  test('does not run a schedule again once another instance finished it', async () => {
+    const first = scheduler();
+    const second = scheduler();
+    const schedule = await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start) });
+
+    await first.run(schedule.id);
+    const again = await second.run(schedule.id);
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(again!.status).toBe('done');
+  });
+
+  test('cannot cancel a schedule another instance is running', async () => {
+    let finish!: () => void;
+    runner.mockImplementation(() => new Promise(resolve => { finish = () => resolve({ applied: ['hero'], missing: [] }); }));
+    const first = scheduler();
+    const second = scheduler();
+    const schedule = await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start) });
+
+    const running = first.run(schedule.id);
+    while (runner.mock.calls.length === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    const cancelled = await second.cancel(schedule.id);
+    finish();
+
+    expect(cancelled!.status).toBe('running');
+    expect((await running)!.status).toBe('done');
+  });
+
+  test('does not run a schedule another instance cancelled', async () => {
+    const first = scheduler();
+    const second = scheduler();
+    const schedule = await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start + 1000) });
+
+    await second.cancel(schedule.id);
+    jest.setSystemTime(start + 1000);
+    const result = await first.run(schedule.id);
+
+    expect(runner).not.toHaveBeenCalled();
+    expect(result!.status).toBe('cancelled');
+  });
+
+  test('takes over a run whose instance went away once the lease is over', async () => {
+    const schedule = await scheduler().create({ action: 'publish', keys: ['hero'], runAt: new Date(start) });
+    // An instance claimed it and crashed before finishing
+    storage.data.set(`_schedule:${schedule.id}`, { ...schedule, status: 'running' });
+    storage.data.set(`_schedule-claim:${schedule.id}:0`, { by: 'gone', at: new Date(start).toISOString() });
+
+    const survivor = scheduler({ leaseTime: 60_000 });
+    const early = await survivor.run(schedule.id);
+    jest.setSystemTime(start + 60_000);
+    const late = await survivor.run(schedule.id);
+
+    expect(early!.status).toBe('running');
+    expect(late!.status).toBe('done');
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  test('lets only one instance take over a stale claim', async () => {
+    const schedule = await scheduler().create({ action: 'publish', keys: ['hero'], runAt: new Date(start) });
+    storage.data.set(`_schedule-claim:${schedule.id}:0`, { by: 'gone', at: new Date(start - 3_600_000).toISOString() });
+
+    await Promise.all([scheduler().run(schedule.id), scheduler().run(schedule.id), scheduler().run(schedule.id)]);
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(await storage.list(`_schedule-claim:${schedule.id}:`)).toHaveLength(2);
+  });
+
+  test('removes the claims of pruned schedules', async () => {
+    const first = scheduler({ retention: 1000 });
+    const old = await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start) });
+    await first.run(old.id);
+
+    jest.setSystemTime(start + 5000);
+    await first.create({ action: 'publish', keys: ['hero'], runAt: new Date(start + 60_000) });
+
+    expect(storage.data.has(`_schedule:${old.id}`)).toBe(false);
+    expect(await storage.list(`_schedule-claim:${old.id}:`)).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * The schema API: stored schemas, their versions and who may change them.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, StorageAdapter } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Schema API', () => {
+  const schema = { type: 'text', maxLength: 10 };
+  let storage: MapStorage;
+
+  beforeEach(() => {
+    storage = new MapStorage();
+  });
+
+  describe('permissions', () => {
+    test('refuse writes and deletes without a permission callback', async () => {
+      const handler = sightEditHandler({ storage });
+      storage.data.set('_schema:title', schema);
+
+      expect((await request(handler, 'PUT', '/schemas/title', { schema: { type: 'number' } })).status).toBe(403);
+      expect((await request(handler, 'DELETE', '/schemas/title')).status).toBe(403);
+      expect(storage.data.get('_schema:title')).toBe(schema);
+    });
+
+    test('still let anyone read schemas', async () => {
+      const handler = sightEditHandler({ storage });
+      storage.data.set('_schema:title', schema);
+
+      const response = await request(handler, 'GET', '/schemas/title');
+
+      expect(response.status).toBe(200);
+      expect(response.body.schema).toEqual(schema);
+    });
+
+    test('ask the callback with the action', async () => {
+      const actions: string[] = [];
+      const handler = sightEditHandler({
+        storage,
+        canManageSchemas: (_req, action) => {
+          actions.push(action);
+          return action === 'write';
+        }
+      });
+
+      expect((await request(handler, 'PUT', '/schemas/title', { schema })).status).toBe(201);
+      expect((await request(handler, 'DELETE', '/schemas/title')).status).toBe(403);
+      expect(actions).toEqual(['write', 'delete']);
+      expect(storage.data.get('_schema:title')).toEqual(schema);
+    });
+  });
+
+  describe('versions', () => {
+    const handler = () => sightEditHandler({ storage, canManageSchemas: () => true });
+
+    test('number each write, starting at 1', async () => {
+      const created = await request(handler(), 'PUT', '/schemas/title', { schema });
+      const updated = await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'text', maxLength: 20 }, expectedVersion: 1 });
+
+      expect(created.status).toBe(201);
+      expect(created.body.version).toBe(1);
+      expect(updated.status).toBe(200);
+      expect(updated.body.version).toBe(2);
+
+      const stored = await request(handler(), 'GET', '/schemas/title');
+      expect(stored.body).toEqual(expect.objectContaining({ version: 2, schema: { type: 'text', maxLength: 20 } }));
+    });
+
+    test('refuse a write against a stale version and keep the stored schema', async () => {
+      await request(handler(), 'PUT', '/schemas/title', { schema });
+      await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'text', maxLength: 20 }, expectedVersion: 1 });
+
+      const response = await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'number' }, expectedVersion: 1 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.conflict).toEqual(expect.objectContaining({
+        expectedVersion: 1,
+        currentVersion: 2,
+        currentValue: { type: 'text', maxLength: 20 }
+      }));
+      expect(storage.data.get('_schema:title')).toEqual({ type: 'text', maxLength: 20 });
+    });
+
+    test('treat a schema that does not exist yet as version null', async () => {
+      const response = await request(handler(), 'PUT', '/schemas/title', { schema, expectedVersion: 0 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.conflict).toEqual(expect.objectContaining({ currentVersion: null, currentValue: null }));
+      expect(storage.data.has('_schema:title')).toBe(false);
+    });
+
+    test('refuse a delete against a stale version, and keep numbering after one', async () => {
+      await request(handler(), 'PUT', '/schemas/title', { schema });
+      await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'number' }, expectedVersion: 1 });
+
+      expect((await request(handler(), 'DELETE', '/schemas/title?expectedVersion=1')).status).toBe(409);
+      expect(storage.data.has('_schema:title')).toBe(true);
+
+      const deleted = await request(handler(), 'DELETE', '/schemas/title?expectedVersion=2');
+      expect(deleted.body.version).toBe(3);
+      expect(storage.data.has('_schema:title')).toBe(false);
+      expect((await request(handler(), 'GET', '/schemas/title')).status).toBe(404);
+
+      const recreated = await request(handler(), 'PUT', '/schemas/title', { schema });
+      expect(recreated.status).toBe(201);
+      expect(recreated.body.version).toBe(4);
+    });
+
+    test('list versions newest first, deletes included', async () => {
+      await request(handler(), 'PUT', '/schemas/title', { schema });
+      await request(handler(), 'DELETE', '/schemas/title');
+      await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'number' } });
+
+      const all = await request(handler(), 'GET', '/schemas/title/versions');
+      const limited = await request(handler(), 'GET', '/schemas/title/versions?limit=1');
+
+      expect(all.body.versions.map((version: any) => [version.version, version.schema])).toEqual([
+        [3, { type: 'number' }],
+        [2, null],
+        [1, schema]
+      ]);
+      expect(limited.body.versions.map((version: any) => version.version)).toEqual([3]);
+    });
+
+    test('number a schema seeded straight into storage from 0', async () => {
+      storage.data.set('_schema:title', schema);
+
+      expect((await request(handler(), 'GET', '/schemas/title')).body.version).toBe(0);
+      expect((await request(handler(), 'PUT', '/schemas/title', { schema: { type: 'number' }, expectedVersion: 0 })).body.version).toBe(1);
+    });
+
+    test('reject a non-integer expectedVersion', async () => {
+      await request(handler(), 'PUT', '/schemas/title', { schema });
+
+      expect((await request(handler(), 'PUT', '/schemas/title', { schema, expectedVersion: '1' })).status).toBe(400);
+      expect((await request(handler(), 'DELETE', '/schemas/title?expectedVersion=x')).status).toBe(400);
+      expect(storage.data.get('_schema:title')).toEqual(schema);
+    });
+  });
+});
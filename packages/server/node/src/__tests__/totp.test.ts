@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  generateTotpSecret,
+  totpStep,
+  totpCode,
+  verifyTotp,
+  otpauthUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  consumeRecoveryCode,
+  RECOVERY_CODE_COUNT,
+} from '../auth/totp';
+
+// '12345678901234567890', the SHA-1 key of the RFC 6238 test vectors, in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('produces the RFC 6238 codes, cut to six digits', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+    }
+  });
+
+  it('accepts codes one step either side of now and says which step matched', () => {
+    const now = 1111111111 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it('ignores spaces in codes and refuses anything but six digits', () => {
+    const now = 1234567890 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '005 924', now)).toBe(totpStep(now));
+    expect(verifyTotp(RFC_SECRET, '5924', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '0059245', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('generates base32 secrets that round-trip through codes', () => {
+    const secret = generateTotpSecret();
+    const now = Date.UTC(2026, 0, 1);
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(secret).not.toBe(generateTotpSecret());
+    expect(verifyTotp(secret, totpCode(secret, totpStep(now)), now)).toBe(totpStep(now));
+  });
+
+  it('builds the otpauth URI authenticator apps read', () => {
+    const uri = new URL(otpauthUri({ issuer: 'Sight Edit', account: 'alice@example.com', secret: RFC_SECRET }));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Sight Edit:alice@example.com');
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Sight Edit',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
+
+describe('Recovery codes', () => {
+  it('generates distinct codes in the shown format', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach(code => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+  });
+
+  it('matches codes regardless of dashes, spaces and case', () => {
+    expect(hashRecoveryCode('K7Q2M X9FPA')).toBe(hashRecoveryCode('k7q2m-x9fpa'));
+    expect(hashRecoveryCode('k7q2m-x9fpa')).not.toBe(hashRecoveryCode('k7q2m-x9fpb'));
+  });
+
+  it('uses up a code, so it only works once', () => {
+    const codes = generateRecoveryCodes(3);
+    const hashes = codes.map(hashRecoveryCode);
+
+    const remaining = consumeRecoveryCode(hashes, codes[1].toUpperCase());
+    expect(remaining).toEqual([hashes[0], hashes[2]]);
+    expect(consumeRecoveryCode(remaining!, codes[1])).toBeNull();
+    expect(consumeRecoveryCode(hashes, 'aaaaa-bbbbb')).toBeNull();
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Two-factor authentication through the auth handler: enrollment, the login challenge,
+ * single-use codes, recovery codes and roles that require it. The handler's clock is fixed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as bcrypt from 'bcryptjs';
+import { SecureAuthHandler } from '../auth/secure-auth-handler';
+import { SecureJWTAuth } from '../auth/secure-jwt';
+import { RBACSystem } from '../auth/rbac-system';
+import { MemoryUserStore } from '../auth/user-store';
+import { totpCode, totpStep } from '../auth/totp';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+// Cheap rounds; verifying works the same for any cost
+const PASSWORD_HASH = bcrypt.hashSync(PASSWORD, 4);
+
+type Action =
+  | 'login'
+  | 'verifyTwoFactor'
+  | 'setupTwoFactor'
+  | 'enableTwoFactor'
+  | 'disableTwoFactor'
+  | 'regenerateRecoveryCodes'
+  | 'updateTwoFactorPolicy';
+
+describe('Two-factor authentication', () => {
+  let clock: number;
+  let store: MemoryUserStore;
+  let rbac: RBACSystem;
+  let audit: { logSecurity: jest.Mock<(...args: any[]) => Promise<void>> };
+  let handler: SecureAuthHandler;
+
+  async function call(action: Action, body: any, userId?: string) {
+    const res: any = { statusCode: 200, cookies: {} };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (payload: any) => { res.body = payload; return res; };
+    res.cookie = (name: string, value: string) => { res.cookies[name] = value; };
+    const req: any = {
+      body,
+      headers: { 'user-agent': 'jest' },
+      connection: { remoteAddress: '127.0.0.1' },
+      socket: { remoteAddress: '127.0.0.1' },
+      ...(userId ? { user: { id: userId } } : {}),
+    };
+    await handler[action](req, res);
+    return { status: res.statusCode, body: res.body };
+  }
+
+  async function createUser(email: string, roles: string[]) {
+    return store.createUser({
+      email,
+      name: email.split('@')[0],
+      password: PASSWORD_HASH,
+      roles,
+      permissions: [],
+      emailVerified: true,
+      twoFactorEnabled: false,
+      loginAttempts: 0,
+      passwordChangedAt: new Date(),
+    });
+  }
+
+  // The code an authenticator app would show right now
+  const codeFor = (secret: string) => totpCode(secret, totpStep(clock));
+
+  // Each code is accepted once, so the next one needs the next time step
+  const nextStep = () => { clock += 30 * 1000; };
+
+  async function enroll(userId: string) {
+    const { body: { secret } } = await call('setupTwoFactor', {}, userId);
+    const { body: { recoveryCodes } } = await call('enableTwoFactor', { code: codeFor(secret) }, userId);
+    nextStep();
+    return { secret, recoveryCodes: recoveryCodes as string[] };
+  }
+
+  beforeEach(() => {
+    clock = Date.UTC(2026, 0, 1);
+    store = new MemoryUserStore();
+    rbac = new RBACSystem();
+    audit = { logSecurity: jest.fn(async () => {}) };
+    const jwtAuth = new SecureJWTAuth({ accessTokenSecret: 'a'.repeat(64), refreshTokenSecret: 'b'.repeat(64) });
+    handler = new SecureAuthHandler(
+      jwtAuth,
+      { requireEmailVerification: false, enableTwoFactor: true, maxLoginAttempts: 10 },
+      undefined,
+      { store },
+      { rbac, audit, now: () => clock }
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enrollment', () => {
+    it('turns on once the authenticator produced a valid code, and shows the recovery codes then', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+
+      const setup = await call('setupTwoFactor', {}, user.id);
+      expect(setup.body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(setup.body.otpauthUri).toContain(`secret=${setup.body.secret}`);
+
+      // Kept encrypted, and not in effect until confirmed
+      const pending = (await store.findUserById(user.id))!;
+      expect(pending.twoFactorEnabled).toBe(false);
+      expect(pending.twoFactorPendingSecret).toBeDefined();
+      expect(pending.twoFactorPendingSecret).not.toBe(setup.body.secret);
+
+      expect((await call('enableTwoFactor', { code: '000000' }, user.id)).status).toBe(400);
+
+      const enabled = await call('enableTwoFactor', { code: codeFor(setup.body.secret) }, user.id);
+      expect(enabled.body.success).toBe(true);
+      expect(enabled.body.recoveryCodes).toHaveLength(10);
+
+      const stored = (await store.findUserById(user.id))!;
+      expect(stored.twoFactorEnabled).toBe(true);
+      expect(stored.twoFactorPendingSecret).toBeUndefined();
+      expect(stored.twoFactorRecoveryCodes).toHaveLength(10);
+      expect(stored.twoFactorRecoveryCodes).not.toContain(enabled.body.recoveryCodes[0]);
+      expect(audit.logSecurity).toHaveBeenCalledWith('TWO_FACTOR_ENABLED', expect.any(String), { userId: user.id }, expect.anything());
+
+      expect((await call('setupTwoFactor', {}, user.id)).status).toBe(400);
+    });
+  });
+
+  describe('login', () => {
+    it('asks for a code with a challenge and hands out tokens for a valid one', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+      const { secret } = await enroll(user.id);
+
+      const login = await call('login', { email: 'alice@example.com', password: PASSWORD, deviceName: 'Laptop' });
+      expect(login.body).toEqual(expect.objectContaining({ success: false, requiresTwoFactor: true }));
+      expect(login.body.tokens).toBeUndefined();
+
+      const [payload, signature] = login.body.challengeToken.split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: user.id, purpose: 'login', exp: clock + 60000 })).toString('base64url');
+      expect((await call('verifyTwoFactor', { challengeToken: `${forged}.${signature}`, code: codeFor(secret) })).status).toBe(401);
+      expect((await call('verifyTwoFactor', { challengeToken: `${payload}.${signature}`, code: '000000' })).status).toBe(401);
+
+      const verified = await call('verifyTwoFactor', { challengeToken: login.body.challengeToken, code: codeFor(secret) });
+      expect(verified.body.success).toBe(true);
+      expect(verified.body.tokens.accessToken).toBeDefined();
+      expect((await store.getUserSessions(user.id))[0].deviceName).toBe('Laptop');
+    });
+
+    it('refuses a challenge once it has expired', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+      const { secret } = await enroll(user.id);
+
+      const login = await call('login', { email: 'alice@example.com', password: PASSWORD });
+      clock += 301 * 1000;
+
+      const verified = await call('verifyTwoFactor', { challengeToken: login.body.challengeToken, code: codeFor(secret) });
+      expect(verified.status).toBe(401);
+      expect(verified.body.error).toMatch(/expired/);
+    });
+
+    it('accepts each code only once', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+      const { secret } = await enroll(user.id);
+      const code = codeFor(secret);
+
+      expect((await call('login', { email: 'alice@example.com', password: PASSWORD, twoFactorCode: code })).body.success).toBe(true);
+
+      // Replayed, e.g. after being seen over the wire, while it is still current
+      const replayed = await call('login', { email: 'alice@example.com', password: PASSWORD, twoFactorCode: code });
+      expect(replayed.status).toBe(401);
+      const { challengeToken } = (await call('login', { email: 'alice@example.com', password: PASSWORD })).body;
+      expect((await call('verifyTwoFactor', { challengeToken, code })).status).toBe(401);
+
+      // Neither are earlier codes still inside the window
+      nextStep();
+      expect((await call('verifyTwoFactor', { challengeToken, code })).status).toBe(401);
+      expect((await call('verifyTwoFactor', { challengeToken, code: codeFor(secret) })).body.success).toBe(true);
+
+      const attempts = await store.getRecentLoginAttempts(user.id, 60 * 60 * 1000);
+      expect(attempts.filter(attempt => attempt.failureReason === 'invalid_2fa')).toHaveLength(3);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('log in once each, and regenerating them replaces the old ones', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+      const { secret, recoveryCodes } = await enroll(user.id);
+      const challenge = async () => (await call('login', { email: 'alice@example.com', password: PASSWORD })).body.challengeToken;
+
+      const recovered = await call('verifyTwoFactor', { challengeToken: await challenge(), recoveryCode: recoveryCodes[0].toUpperCase() });
+      expect(recovered.body.success).toBe(true);
+      expect(audit.logSecurity).toHaveBeenCalledWith(
+        'TWO_FACTOR_RECOVERY_CODE_USED', expect.any(String), { userId: user.id, remainingCodes: 9 }, expect.anything()
+      );
+      expect((await call('verifyTwoFactor', { challengeToken: await challenge(), recoveryCode: recoveryCodes[0] })).status).toBe(401);
+
+      // Regenerating needs a current code
+      expect((await call('regenerateRecoveryCodes', { code: '000000' }, user.id)).status).toBe(401);
+      const regenerated = await call('regenerateRecoveryCodes', { code: codeFor(secret) }, user.id);
+      expect(regenerated.body.recoveryCodes).toHaveLength(10);
+
+      expect((await call('verifyTwoFactor', { challengeToken: await challenge(), recoveryCode: recoveryCodes[1] })).status).toBe(401);
+      expect((await call('verifyTwoFactor', { challengeToken: await challenge(), recoveryCode: regenerated.body.recoveryCodes[1] })).body.success)
+        .toBe(true);
+    });
+  });
+
+  describe('required by role', () => {
+    it('sends users of the role, or roles inheriting it, to set it up before they can log in', async () => {
+      rbac.setTwoFactorRequired('editor', true);
+      const admin = await createUser('admin@example.com', ['admin']);
+      await createUser('writer@example.com', ['contributor']);
+
+      expect((await call('login', { email: 'writer@example.com', password: PASSWORD })).body.success).toBe(true);
+
+      const login = await call('login', { email: 'admin@example.com', password: PASSWORD, deviceName: 'Laptop' });
+      expect(login.status).toBe(403);
+      expect(login.body).toEqual(expect.objectContaining({ requiresTwoFactorSetup: true }));
+      expect(login.body.tokens).toBeUndefined();
+
+      // The setup challenge can't be used to skip the code at login
+      expect((await call('verifyTwoFactor', { challengeToken: login.body.challengeToken, code: '000000' })).status).toBe(401);
+
+      const { challengeToken } = login.body;
+      const setup = await call('setupTwoFactor', { challengeToken });
+      expect(setup.body.success).toBe(true);
+      const enabled = await call('enableTwoFactor', { challengeToken, code: codeFor(setup.body.secret) });
+      expect(enabled.body).toEqual(expect.objectContaining({ success: true, recoveryCodes: expect.any(Array) }));
+      expect(enabled.body.tokens.accessToken).toBeDefined();
+      expect((await store.getUserSessions(admin.id))[0].deviceName).toBe('Laptop');
+
+      // Nor can it be turned off again
+      nextStep();
+      const disabled = await call('disableTwoFactor', { password: PASSWORD, code: codeFor(setup.body.secret) }, admin.id);
+      expect(disabled.status).toBe(403);
+      expect((await store.findUserById(admin.id))!.twoFactorEnabled).toBe(true);
+    });
+
+    it('follows policy changes made through the handler', async () => {
+      await createUser('writer@example.com', ['contributor']);
+
+      const updated = await call('updateTwoFactorPolicy', { roles: ['contributor'] });
+      expect(updated.body).toEqual({ success: true, enabled: true, roles: ['contributor'] });
+      expect((await call('login', { email: 'writer@example.com', password: PASSWORD })).body.requiresTwoFactorSetup).toBe(true);
+
+      expect((await call('updateTwoFactorPolicy', { roles: ['nobody'] })).status).toBe(400);
+
+      await call('updateTwoFactorPolicy', { roles: [] });
+      expect((await call('login', { email: 'writer@example.com', password: PASSWORD })).body.success).toBe(true);
+    });
+
+    it('lets users outside those roles turn it off with their password and a code', async () => {
+      const user = await createUser('alice@example.com', ['editor']);
+      const { secret } = await enroll(user.id);
+
+      expect((await call('disableTwoFactor', { password: 'wrong', code: codeFor(secret) }, user.id)).status).toBe(401);
+
+      const disabled = await call('disableTwoFactor', { password: PASSWORD, code: codeFor(secret) }, user.id);
+      expect(disabled.body.success).toBe(true);
+      const stored = (await store.findUserById(user.id))!;
+      expect(stored.twoFactorEnabled).toBe(false);
+      expect(stored.twoFactorSecret).toBeUndefined();
+      expect(stored.twoFactorRecoveryCodes).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { createUserStore, NewUserData, UserStore } from '../auth/user-store';
+import { DatabaseAdapter } from '../migrations/core/adapters/database-adapter';
+import { DatabaseConnection } from '../migrations/core/migration-engine';
+import * as initialSchema from '../migrations/migrations/20240101000000_create_initial_schema';
+import * as contentVersioning from '../migrations/migrations/20240102000000_add_content_versioning';
+import * as userSessions from '../migrations/migrations/20240103000000_add_user_sessions';
+import * as authUserStore from '../migrations/migrations/20240104000000_add_auth_user_store';
+import * as twoFactorRecovery from '../migrations/migrations/20240105000000_add_two_factor_recovery';
+
+const MIGRATIONS = [initialSchema, contentVersioning, userSessions, authUserStore, twoFactorRecovery];
+
+const newUser = (email: string): NewUserData => ({
+  email,
+  name: 'Alice',
+  password: 'hash',
+  roles: ['editor'],
+  permissions: ['content:write'],
+  emailVerified: true,
+  twoFactorEnabled: false,
+  loginAttempts: 0,
+  passwordChangedAt: new Date(),
+});
+
+const session = (sessionId: string, lastActivity = new Date()) => ({
+  sessionId,
+  deviceId: 'laptop',
+  ipAddress: '127.0.0.1',
+  userAgent: 'jest',
+  lastActivity,
+  createdAt: lastActivity,
+  isActive: true,
+});
+
+/**
+ * The part of a MongoDB collection the store uses, kept in memory
+ */
+class FakeCollection {
+  documents: any[] = [];
+
+  async insertOne(document: any) {
+    this.documents.push({ _id: crypto.randomBytes(12).toString('hex'), ...document });
+    return { acknowledged: true };
+  }
+
+  async findOne(filter: any) {
+    return this.documents.find(document => matches(document, filter)) ?? null;
+  }
+
+  find(filter: any) {
+    let found = this.documents.filter(document => matches(document, filter));
+    const cursor = {
+      sort: (order: Record<string, 1 | -1>) => {
+        const [[field, direction]] = Object.entries(order);
+        found = [...found].sort((a, b) => (a[field] > b[field] ? direction : a[field] < b[field] ? -direction : 0));
+        return cursor;
+      },
+      limit: (count: number) => {
+        found = found.slice(0, count);
+        return cursor;
+      },
+      toArray: async () => found,
+    };
+    return cursor;
+  }
+
+  async updateOne(filter: any, update: any) {
+    const document = this.documents.find(candidate => matches(candidate, filter));
+    if (document) applyUpdate(document, update);
+    return { matchedCount: document ? 1 : 0, modifiedCount: document ? 1 : 0 };
+  }
+
+  async updateMany(filter: any, update: any) {
+    const found = this.documents.filter(document => matches(document, filter));
+    found.forEach(document => applyUpdate(document, update));
+    return { matchedCount: found.length, modifiedCount: found.length };
+  }
+
+  async findOneAndUpdate(filter: any, update: any) {
+    const document = this.documents.find(candidate => matches(candidate, filter));
+    if (!document) return null;
+    applyUpdate(document, update);
+    return document;
+  }
+
+  async deleteOne(filter: any) {
+    const index = this.documents.findIndex(document => matches(document, filter));
+    if (index >= 0) this.documents.splice(index, 1);
+    return { deletedCount: index >= 0 ? 1 : 0 };
+  }
+
+  async deleteMany(filter: any) {
+    const before = this.documents.length;
+    this.documents = this.documents.filter(document => !matches(document, filter));
+    return { deletedCount: before - this.documents.length };
+  }
+}
+
+function matches(document: any, filter: any): boolean {
+  return Object.entries(filter).every(([field, condition]: [string, any]) => {
+    if (field === '$or') {
+      return condition.some((alternative: any) => matches(document, alternative));
+    }
+    const value = document[field] ?? null;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return compare(value, condition) === 0;
+    }
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case '$ne': return compare(value, operand) !== 0;
+        case '$gt': return value !== null && compare(value, operand) > 0;
+        case '$gte': return value !== null && compare(value, operand) >= 0;
+        case '$lte': return value !== null && compare(value, operand) <= 0;
+        case '$regex': return new RegExp(operand, condition.$options).test(value ?? '');
+        case '$options': return true;
+        default: throw new Error(`Unsupported operator ${operator}`);
+      }
+    });
+  });
+}
+
+function compare(a: any, b: any): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left === right ? 0 : left > right ? 1 : -1;
+}
+
+function applyUpdate(document: any, update: any): void {
+  Object.assign(document, update.$set);
+  Object.entries(update.$inc ?? {}).forEach(([field, amount]) => {
+    document[field] = (document[field] ?? 0) + (amount as number);
+  });
+}
+
+/**
+ * Runs the store's commands the way the MongoDB migration adapter does, against FakeCollections
+ */
+function fakeMongoConnection(): DatabaseConnection {
+  const collections = new Map<string, FakeCollection>();
+  const db = {
+    collection: (name: string) => {
+      if (!collections.has(name)) collections.set(name, new FakeCollection());
+      return collections.get(name)!;
+    },
+  };
+  const connection: DatabaseConnection = {
+    type: 'mongodb',
+    database: 'sightedit',
+    query: async (command, params) => new Function('db', 'session', 'params', command)(db, null, params),
+    transaction: callback => callback(connection),
+    close: async () => {},
+  };
+  return connection;
+}
+
+async function migrate(connection: DatabaseConnection, migrations = MIGRATIONS): Promise<void> {
+  for (const migration of migrations) {
+    await migration.up(connection);
+  }
+}
+
+async function columns(connection: DatabaseConnection, table: string): Promise<string[]> {
+  const rows = await connection.query(`SELECT name FROM pragma_table_info('${table}')`);
+  return rows.map((row: any) => row.name);
+}
+
+describe('User stores', () => {
+  let directory: string;
+  let databasePath: string;
+  const connections: DatabaseConnection[] = [];
+
+  const openSQLite = async () => {
+    const connection = await DatabaseAdapter.create({ type: 'sqlite', connection: databasePath });
+    connections.push(connection);
+    return connection;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sightedit-users-'));
+    databasePath = path.join(directory, 'sightedit.db');
+  });
+
+  afterEach(async () => {
+    await Promise.all(connections.splice(0).map(connection => connection.close()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const stores: Array<[string, () => Promise<UserStore>]> = [
+    ['SQL (SQLite)', async () => {
+      const connection = await openSQLite();
+      await migrate(connection);
+      return createUserStore({ store: connection });
+    }],
+    ['MongoDB', async () => createUserStore({ store: fakeMongoConnection() })],
+  ];
+
+  describe.each(stores)('%s', (_name, openStore) => {
+    let store: UserStore;
+
+    beforeEach(async () => {
+      store = await openStore();
+    });
+
+    it('counts every failed login and starts over once the lock has run out', async () => {
+      const user = await store.createUser(newUser('alice@example.com'));
+      const now = new Date();
+
+      await Promise.all([1, 2, 3].map(() => store.recordFailedLogin(user.id, now)));
+      expect((await store.findUserById(user.id))!.loginAttempts).toBe(3);
+
+      // Still locked: the count goes on
+      await store.updateUser(user.id, { lockedUntil: new Date(now.getTime() + 60000) });
+      await expect(store.recordFailedLogin(user.id, now)).resolves.toBe(4);
+
+      await expect(store.recordFailedLogin(user.id, new Date(now.getTime() + 120000))).resolves.toBe(1);
+      const unlocked = (await store.findUserById(user.id))!;
+      expect(unlocked.loginAttempts).toBe(1);
+      expect(unlocked.lockedUntil).toBeUndefined();
+
+      await expect(store.recordFailedLogin('999999', now)).resolves.toBe(0);
+    });
+
+    it('rotates a session once, so a refresh token can only be used once', async () => {
+      const user = await store.createUser(newUser('alice@example.com'));
+      await store.addSession(user.id, session('first'));
+      const rotation = (sessionId: string) => ({ sessionId, lastActivity: new Date(), ipAddress: '10.0.0.2' });
+
+      const results = await Promise.all([
+        store.rotateSession(user.id, 'first', rotation('second')),
+        store.rotateSession(user.id, 'first', rotation('other')),
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+
+      const [rotated] = await store.getUserSessions(user.id);
+      expect(rotated).toEqual(expect.objectContaining({ sessionId: results[0] ? 'second' : 'other', ipAddress: '10.0.0.2', deviceId: 'laptop' }));
+      await expect(store.rotateSession(user.id, 'first', rotation('third'))).resolves.toBe(false);
+
+      await store.deactivateSessions(user.id);
+      await expect(store.rotateSession(user.id, rotated.sessionId, rotation('third'))).resolves.toBe(false);
+    });
+
+    it('does not rotate sessions that have expired', async () => {
+      const user = await store.createUser(newUser('alice@example.com'));
+      const longAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      await store.addSession(user.id, session('stale', longAgo));
+
+      await expect(store.rotateSession(user.id, 'stale', { sessionId: 'fresh', lastActivity: new Date(), ipAddress: '10.0.0.2' }))
+        .resolves.toBe(false);
+      expect(await store.getUserSessions(user.id)).toEqual([]);
+    });
+  });
+
+  describe('SQL (SQLite)', () => {
+    it('keeps lockouts and sessions across restarts', async () => {
+      const connection = await openSQLite();
+      await migrate(connection);
+      const first = createUserStore({ store: connection });
+      const user = await first.createUser(newUser('alice@example.com'));
+      const lockedUntil = new Date(Date.now() + 60000);
+      await first.recordFailedLogin(user.id, new Date());
+      await first.updateUser(user.id, { lockedUntil });
+      await first.addSession(user.id, session('first'));
+      await first.close!();
+      connections.splice(connections.indexOf(connection), 1);
+
+      const second = createUserStore({ store: { type: 'sqlite', connection: databasePath } });
+      try {
+        const restored = (await second.findUserByEmail('alice@example.com'))!;
+        expect(restored).toEqual(expect.objectContaining({ id: user.id, roles: ['editor'], loginAttempts: 1, lockedUntil }));
+        expect((await second.getUserSessions(user.id)).map(s => s.sessionId)).toEqual(['first']);
+      } finally {
+        await second.close!();
+      }
+    });
+  });
+
+  describe('20240104 migration (SQLite)', () => {
+    it('lets users from before it sign in and keeps their login attempts', async () => {
+      const connection = await openSQLite();
+      await migrate(connection, [initialSchema, contentVersioning, userSessions]);
+      await connection.query(
+        `INSERT INTO users (username, email, password_hash, role) VALUES ('bob', 'bob@example.com', 'hash', 'admin')`
+      );
+
+      await migrate(connection, [authUserStore, twoFactorRecovery]);
+      expect(await columns(connection, 'login_attempts')).toEqual(
+        ['id', 'user_id', 'email', 'ip_address', 'user_agent', 'success', 'failure_reason', 'created_at']
+      );
+
+      const store = createUserStore({ store: connection });
+      const bob = (await store.findUserByEmail('bob@example.com'))!;
+      expect(bob).toEqual(expect.objectContaining({ name: 'bob', roles: ['admin'], permissions: [], twoFactorEnabled: false, loginAttempts: 0 }));
+
+      // More attempts than the old check constraint allowed
+      for (let attempt = 1; attempt <= 12; attempt++) {
+        await store.recordFailedLogin(bob.id, new Date());
+        await store.recordLoginAttempt({
+          userId: bob.id,
+          email: bob.email,
+          ipAddress: '127.0.0.1',
+          userAgent: 'jest',
+          success: false,
+          timestamp: new Date(),
+          failureReason: 'invalid_password',
+        });
+      }
+      expect((await store.findUserById(bob.id))!.loginAttempts).toBe(12);
+      const attempts = await store.getRecentLoginAttempts(bob.id, 60000);
+      expect(attempts).toHaveLength(12);
+      expect(attempts[0]).toEqual(expect.objectContaining({ userId: bob.id, success: false, failureReason: 'invalid_password' }));
+
+      // Their attempts go with them
+      await store.deleteUser(bob.id);
+      expect(await connection.query('SELECT * FROM login_attempts')).toEqual([]);
+    });
+
+    it('rolls back to the columns and tables from before it', async () => {
+      const connection = await openSQLite();
+      await migrate(connection, [initialSchema, contentVersioning, userSessions]);
+      const before = await columns(connection, 'users');
+
+      await migrate(connection, [authUserStore]);
+      expect(await columns(connection, 'users')).toEqual(expect.arrayContaining(['name', 'roles', 'password_reset_token']));
+
+      await authUserStore.down(connection);
+      expect(await columns(connection, 'users')).toEqual(before);
+      expect(await connection.query(`SELECT name FROM sqlite_master WHERE name IN ('login_attempts', 'idx_users_password_reset_token')`))
+        .toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Server-side schema validation: the rules of a sight's stored schema applied to saves.
+ */
+
+import { describe, test, expect, jest, afterEach, beforeEach } from '@jest/globals';
+import { sightEditHandler, SightEditHandlerOptions, StorageAdapter } from '../index';
+import { validateValue, validateWrite } from '../validation';
+import { parseSchemaInput } from '../schemas';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Schema validation', () => {
+  let storage: MapStorage;
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('_schema:price', { type: 'number', required: true, min: 0, max: 100 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('unknown sights', () => {
+    test('pass by default', async () => {
+      expect(await validateWrite(storage, 'title', '')).toEqual({ errors: [], warnings: [] });
+    });
+
+    test('produce a warning with the warn policy', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await validateWrite(storage, 'title', 'Hello', { unknownSights: 'warn' });
+
+      expect(result).toEqual({
+        errors: [],
+        warnings: [{ sight: 'title', rule: 'unknownSight', message: 'No schema is defined for "title"' }]
+      });
+      expect(warn).toHaveBeenCalled();
+    });
+
+    test('produce an error with the reject policy', async () => {
+      const result = await validateWrite(storage, 'title', 'Hello', { unknownSights: 'reject' });
+
+      expect(result.errors).toEqual([{ sight: 'title', rule: 'unknownSight', message: 'No schema is defined for "title"' }]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    test('do not apply to sights with a schema', async () => {
+      expect(await validateWrite(storage, 'price', 50, { unknownSights: 'reject' })).toEqual({ errors: [], warnings: [] });
+      expect((await validateWrite(storage, 'price', 150, { unknownSights: 'allow' })).errors).toEqual([
+        { sight: 'price', rule: 'max', message: 'Value must be at most 100' }
+      ]);
+    });
+  });
+
+  describe('rules', () => {
+    test('only fail empty values on required', () => {
+      const schema = { type: 'text', required: true, minLength: 3, pattern: '^[a-z]+$' };
+
+      expect(validateValue('name', '', schema).map(error => error.rule)).toEqual(['required']);
+      expect(validateValue('name', '  ', schema).map(error => error.rule)).toEqual(['required', 'minLength', 'pattern']);
+      expect(validateValue('name', 'ab', schema).map(error => error.rule)).toEqual(['minLength']);
+    });
+
+    test('skip numeric rules for values that are not numbers', () => {
+      expect(validateValue('price', 'free', { type: 'number', min: 0, max: 10 })).toEqual([]);
+      expect(validateValue('price', '-1', { type: 'number', min: 0 })).toEqual([
+        { sight: 'price', rule: 'min', message: 'Value must be at least 0' }
+      ]);
+    });
+
+    test('count list items for lengths and check choices against the options', () => {
+      const schema = { type: 'select', maxLength: 2, options: [{ value: 'red' }, 'green', { value: 'blue' }] };
+
+      expect(validateValue('colors', ['red', 'blue'], schema)).toEqual([]);
+      expect(validateValue('colors', ['red', 'green', 'blue'], schema).map(error => error.rule)).toEqual(['maxLength']);
+      expect(validateValue('colors', ['pink'], schema).map(error => error.rule)).toEqual(['options']);
+    });
+
+    test('check the fields of object values, skipping read-only ones', () => {
+      const schema = {
+        type: 'form',
+        fields: {
+          email: { type: 'text', validation: { rules: [{ type: 'email', message: 'Work email please' }] } },
+          id: { type: 'text', readonly: true, required: true }
+        }
+      };
+
+      expect(validateValue('contact', { email: 'nope' }, schema)).toEqual([
+        { sight: 'contact', field: 'email', rule: 'email', message: 'Work email please' }
+      ]);
+    });
+  });
+
+  describe('saves', () => {
+    const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({ storage, ...options });
+
+    test('are refused with the errors of the schema', async () => {
+      const response = await request(handler(), 'POST', '/save', { sight: 'price', value: 150, type: 'number' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.errors).toEqual([{ sight: 'price', rule: 'max', message: 'Value must be at most 100' }]);
+      expect(storage.data.has('price')).toBe(false);
+    });
+
+    test('to unknown sights follow the configured policy', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const allowed = await request(handler(), 'POST', '/save', { sight: 'title', value: 'A', type: 'text' });
+      const warned = await request(handler({ schemaValidation: { unknownSights: 'warn' } }), 'POST', '/save', { sight: 'title', value: 'B', type: 'text' });
+      const rejected = await request(handler({ schemaValidation: { unknownSights: 'reject' } }), 'POST', '/save', { sight: 'title', value: 'C', type: 'text' });
+
+      expect(allowed.status).toBe(200);
+      expect(allowed.body.warnings).toBeUndefined();
+      expect(warned.status).toBe(200);
+      expect(warned.body.warnings).toEqual([expect.objectContaining({ sight: 'title', rule: 'unknownSight' })]);
+      expect(rejected.status).toBe(422);
+      expect(storage.data.get('title').value).toBe('B');
+    });
+
+    test('in a batch fail per operation, or refuse the whole batch when atomic', async () => {
+      const operations = [
+        { type: 'update', data: { sight: 'price', value: 5, type: 'number' } },
+        { type: 'update', data: { sight: 'price', value: -5, type: 'number' } }
+      ];
+
+      const atomic = await request(handler(), 'POST', '/batch', { operations, atomic: true });
+      expect(atomic.status).toBe(422);
+      expect(atomic.body.errors).toEqual([{ sight: 'price', rule: 'min', message: 'Value must be at least 0', index: 1 }]);
+      expect(storage.data.has('price')).toBe(false);
+
+      const separate = await request(handler(), 'POST', '/batch', { operations });
+      expect(separate.body.results[0].success).toBe(true);
+      expect(separate.body.results[1]).toEqual(expect.objectContaining({ success: false, error: 'Validation failed' }));
+      expect(storage.data.get('price').value).toBe(5);
+    });
+  });
+
+  describe('patterns', () => {
+    test('check values against the pattern of a schema and its regex rules', () => {
+      const schema = {
+        type: 'text',
+        pattern: '^[a-z-]+$',
+        validation: { rules: [{ type: 'regex', pattern: '^a', message: 'Starts with a' }] }
+      };
+
+      expect(validateValue('slug', 'about-us', schema)).toEqual([]);
+      expect(validateValue('slug', 'Contact', schema)).toEqual([
+        { sight: 'slug', rule: 'pattern', message: 'Invalid format' },
+        { sight: 'slug', rule: 'pattern', message: 'Starts with a' }
+      ]);
+    });
+
+    test('skip patterns that repeat a repeating group instead of backtracking on them', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const started = Date.now();
+
+      for (const pattern of ['^(a+)+$', '^(\\w*)*$', '^((ab)*c?)+$', '^(a|b+){2,}$']) {
+        expect(validateValue('title', `${'a'.repeat(40)}!`, { type: 'text', pattern })).toEqual([]);
+      }
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(warn).toHaveBeenCalledTimes(4);
+    });
+
+    test('fail values too long to test', () => {
+      expect(validateValue('title', 'a'.repeat(10001), { type: 'text', pattern: '^a+$' })).toEqual([
+        { sight: 'title', rule: 'pattern', message: 'Invalid format' }
+      ]);
+    });
+
+    test('are refused when a schema is stored', () => {
+      expect(parseSchemaInput({ type: 'text', pattern: '^([a-z]+)*$' })).toEqual({
+        error: 'schema pattern "^([a-z]+)*$" repeats a group that already repeats'
+      });
+      expect(parseSchemaInput({ type: 'form', fields: { code: { type: 'text', pattern: '[' } } })).toEqual({
+        error: 'schema pattern "[" is not a valid regular expression'
+      });
+      expect(parseSchemaInput({ type: 'text', validation: { rules: [{ type: 'regex', pattern: '(\\d+){2,}' }] } })).toEqual({
+        error: 'schema pattern "(\\\\d+){2,}" repeats a group that already repeats'
+      });
+    });
+
+    test('still accept groups, classes and escapes that do not nest quantifiers', () => {
+      for (const pattern of ['^[a-z]+(-[a-z]+)?$', '^(ab){1,3}[+*(]+$', '^\\(\\d+\\)+$', '^(?:https?://)?[^\\s]+$']) {
+        expect(parseSchemaInput({ type: 'text', pattern })).toEqual({ value: { type: 'text', pattern } });
+      }
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for outbound webhooks: signatures, retries with backoff, redelivery,
+ * pruning of the delivery log and records that aren't webhooks.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  sightEditHandler,
+  StorageAdapter,
+  Webhook,
+  WebhookDispatcher,
+  WebhookTransport,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../index';
+import { webhookKey } from '../webhooks';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (this.data.has(key)) return false;
+    this.data.set(key, value);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+const webhook: Webhook = {
+  id: 'lz1abcdef',
+  url: 'https://hooks.example.com/sightedit',
+  events: ['save'],
+  sights: [],
+  secret: 'whsec_0123456789abcdef',
+  active: true,
+  createdAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('Webhook signatures', () => {
+  const body = JSON.stringify({ event: 'save', items: [] });
+  const now = Date.UTC(2024, 0, 1);
+  const timestamp = Math.floor(now / 1000);
+
+  test('verify with the secret they were signed with', () => {
+    const signature = signWebhookPayload(webhook.secret, timestamp, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(webhook.secret, signature, timestamp, body, 300, now)).toBe(true);
+  });
+
+  test('fail for another secret, body or timestamp', () => {
+    const signature = signWebhookPayload(webhook.secret, timestamp, body);
+
+    expect(verifyWebhookSignature('whsec_another_secret', signature, timestamp, body, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(webhook.secret, signature, timestamp, `${body} `, 300, now)).toBe(false);
+    expect(verifyWebhookSignature(webhook.secret, signature, timestamp + 1, body, 300, now)).toBe(false);
+  });
+
+  test('fail once the timestamp is outside the tolerance', () => {
+    const signature = signWebhookPayload(webhook.secret, timestamp, body);
+
+    expect(verifyWebhookSignature(webhook.secret, signature, timestamp, body, 300, now + 301_000)).toBe(false);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let storage: MapStorage;
+  let transport: jest.Mock<WebhookTransport>;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 1) });
+    storage = new MapStorage();
+    storage.data.set(webhookKey(webhook.id), webhook);
+    transport = jest.fn<WebhookTransport>().mockResolvedValue({ status: 200 });
+    dispatcher = new WebhookDispatcher(storage, { transport, retryDelay: 1000, maxAttempts: 3, maxDeliveries: 2 });
+  });
+
+  afterEach(() => {
+    dispatcher.stop();
+    jest.useRealTimers();
+  });
+
+  test('signs the body it sends', async () => {
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title', value: 'Hello' }]);
+    await dispatcher.attempt(webhook.id, delivery.id);
+
+    const [url, body, headers] = transport.mock.calls[0];
+    expect(url).toBe(webhook.url);
+    expect(JSON.parse(body).items).toEqual([{ sight: 'title', value: 'Hello' }]);
+    expect(verifyWebhookSignature(
+      webhook.secret,
+      headers[SIGNATURE_HEADER],
+      Number(headers[TIMESTAMP_HEADER]),
+      body,
+      300,
+      Date.now()
+    )).toBe(true);
+  });
+
+  test('retries failed attempts with backoff until the limit', async () => {
+    transport.mockResolvedValue({ status: 500 });
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title' }]);
+
+    const first = await dispatcher.attempt(webhook.id, delivery.id);
+    expect(first).toEqual(expect.objectContaining({ status: 'pending', nextAttemptAt: new Date(Date.now() + 1000).toISOString() }));
+
+    const second = await dispatcher.attempt(webhook.id, delivery.id);
+    expect(second!.nextAttemptAt).toBe(new Date(Date.now() + 2000).toISOString());
+
+    const third = await dispatcher.attempt(webhook.id, delivery.id);
+    expect(third!.status).toBe('failed');
+    expect(third!.attempts.map(attempt => attempt.error)).toEqual(Array(3).fill('Endpoint responded with 500'));
+  });
+
+  test('marks a delivery delivered once a retry succeeds', async () => {
+    transport.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title' }]);
+
+    await dispatcher.attempt(webhook.id, delivery.id);
+    const retried = await dispatcher.attempt(webhook.id, delivery.id);
+
+    expect(retried!.status).toBe('delivered');
+    expect(retried!.attempts.map(attempt => attempt.error)).toEqual(['ECONNREFUSED', undefined]);
+  });
+
+  test('redelivers a payload as a new delivery', async () => {
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title' }]);
+    await dispatcher.attempt(webhook.id, delivery.id);
+    const sent = await storage.get(`_webhook-delivery:${webhook.id}:${delivery.id}`);
+
+    const redelivery = await dispatcher.redeliver(webhook, sent);
+    await dispatcher.attempt(webhook.id, redelivery.id);
+
+    expect(redelivery.id).not.toBe(delivery.id);
+    expect(redelivery.redeliveryOf).toBe(delivery.id);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport.mock.calls[1][1]).toBe(transport.mock.calls[0][1]);
+  });
+
+  test('keeps only the newest deliveries', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      jest.advanceTimersByTime(1);
+      ids.push((await dispatcher.emit('save', [{ sight: 'title' }]))[0].id);
+    }
+
+    const keys = await storage.list('_webhook-delivery:');
+    expect(keys.sort()).toEqual(ids.slice(1).map(id => `_webhook-delivery:${webhook.id}:${id}`));
+  });
+
+  test('makes each attempt on one instance only', async () => {
+    transport.mockResolvedValueOnce({ status: 500 });
+    const other = new WebhookDispatcher(storage, { transport, retryDelay: 1000, maxAttempts: 3 });
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title' }]);
+
+    await Promise.all([dispatcher.attempt(webhook.id, delivery.id), other.attempt(webhook.id, delivery.id)]);
+    expect(transport).toHaveBeenCalledTimes(1);
+
+    await Promise.all([dispatcher.attempt(webhook.id, delivery.id), other.attempt(webhook.id, delivery.id)]);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect((await storage.get(`_webhook-delivery:${webhook.id}:${delivery.id}`)).status).toBe('delivered');
+    other.stop();
+  });
+
+  test('takes over an attempt whose instance went away', async () => {
+    const [delivery] = await dispatcher.emit('save', [{ sight: 'title' }]);
+    storage.data.set(`_webhook-claim:${webhook.id}:${delivery.id}:0`, { by: 'gone', at: new Date().toISOString(), attempt: 0 });
+
+    await dispatcher.attempt(webhook.id, delivery.id);
+    expect(transport).not.toHaveBeenCalled();
+
+    jest.setSystemTime(Date.now() + 10_000 + 60_000);
+    const sent = await dispatcher.attempt(webhook.id, delivery.id);
+    expect(sent!.status).toBe('delivered');
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Webhook API', () => {
+  async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any) {
+    const res: any = { statusCode: 200, headers: {} };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (payload: any) => { res.body = payload; return res; };
+    res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+    res.on = () => res;
+    const req: any = { method, path: url, url, query: {}, body, headers: {}, ip: '127.0.0.1', get: () => undefined };
+    await handler(req, res, () => undefined);
+    return { status: res.statusCode, body: res.body };
+  }
+
+  test('lists webhooks next to malformed records', async () => {
+    const storage = new MapStorage();
+    storage.data.set(webhookKey(webhook.id), webhook);
+    storage.data.set('_webhook:broken', 'not a webhook');
+    const handler = sightEditHandler({ storage, webhooks: true, canManageWebhooks: () => true });
+
+    const response = await request(handler, 'GET', '/webhooks');
+
+    expect(response.status).toBe(200);
+    expect(JSON.stringify(response.body)).toContain(webhook.id);
+    expect(JSON.stringify(response.body)).not.toContain(webhook.secret);
+  });
+
+  test('is refused without a permission callback', async () => {
+    const storage = new MapStorage();
+    storage.data.set(webhookKey(webhook.id), webhook);
+    const handler = sightEditHandler({ storage, webhooks: true });
+
+    expect((await request(handler, 'GET', '/webhooks')).status).toBe(403);
+    expect((await request(handler, 'GET', `/webhooks/${webhook.id}/deliveries`)).status).toBe(403);
+    expect((await request(handler, 'POST', '/webhooks', { url: 'https://attacker.example.com', events: ['save'] })).status).toBe(403);
+    expect([...storage.data.keys()]).toEqual([webhookKey(webhook.id)]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * The approval workflow through the handler: drafts move through the review stages by
+ * role, and publishing holds back anything that isn't approved as it stands.
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { sightEditHandler, SightEditHandlerOptions, StorageAdapter } from '../index';
+
+class MapStorage implements StorageAdapter {
+  data = new Map<string, any>();
+
+  async get(key: string): Promise<any> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+}
+
+async function request(handler: ReturnType<typeof sightEditHandler>, method: string, url: string, body?: any, roles: string[] = []) {
+  const [path, search] = url.split('?');
+  const res: any = { statusCode: 200, headers: {} };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = (payload: any) => { res.body = payload; return res; };
+  res.setHeader = (name: string, value: string) => { res.headers[name.toLowerCase()] = value; };
+  res.getHeader = (name: string) => res.headers[name.toLowerCase()];
+  res.on = () => res;
+  const query = Object.fromEntries(new URLSearchParams(search || ''));
+  const user = { id: `user-${roles.join('-') || 'none'}`, roles };
+  const req: any = { method, path, url, query, body, headers: {}, ip: '127.0.0.1', get: () => undefined, user };
+  await handler(req, res, () => undefined);
+  return { status: res.statusCode, body: res.body };
+}
+
+describe('Workflow', () => {
+  let storage: MapStorage;
+  const handler = (options: SightEditHandlerOptions = {}) => sightEditHandler({
+    storage,
+    drafts: true,
+    canPublish: () => true,
+    workflow: {
+      stages: [
+        { id: 'review', roles: ['reviewer'] },
+        { id: 'legal', name: 'Legal', roles: ['lawyer'] }
+      ],
+      submitRoles: ['editor']
+    },
+    ...options
+  });
+
+  async function save(sight: string, value: string) {
+    expect((await request(handler(), 'POST', '/save', { sight, value, type: 'text' }, ['editor'])).status).toBe(200);
+  }
+
+  async function approve(sight: string) {
+    expect((await request(handler(), 'POST', '/workflow/submit', { sight }, ['editor'])).status).toBe(200);
+    expect((await request(handler(), 'POST', '/workflow/approve', { sight }, ['reviewer'])).status).toBe(200);
+    expect((await request(handler(), 'POST', '/workflow/approve', { sight }, ['lawyer'])).status).toBe(200);
+  }
+
+  beforeEach(() => {
+    storage = new MapStorage();
+    storage.data.set('hero', { sight: 'hero', value: 'Live', type: 'text', timestamp: 1 });
+  });
+
+  describe('publishing', () => {
+    test('holds back drafts that were never submitted', async () => {
+      await save('hero', 'Draft');
+
+      const response = await request(handler(), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.unapproved).toEqual(['hero']);
+      expect(storage.data.get('hero').value).toBe('Live');
+    });
+
+    test('holds back drafts still in review', async () => {
+      await save('hero', 'Draft');
+      await request(handler(), 'POST', '/workflow/submit', { sight: 'hero' }, ['editor']);
+      await request(handler(), 'POST', '/workflow/approve', { sight: 'hero' }, ['reviewer']);
+
+      const workflow = await request(handler(), 'GET', '/workflow?sight=hero', undefined, ['lawyer']);
+      expect(workflow.body.items[0]).toEqual(expect.objectContaining({ stage: 'legal', stageName: 'Legal', actions: ['approve', 'reject'] }));
+
+      expect((await request(handler(), 'POST', '/publish', { sight: 'hero' })).status).toBe(409);
+    });
+
+    test('publishes approved drafts and clears their workflow state', async () => {
+      await save('hero', 'Draft');
+      await approve('hero');
+
+      const response = await request(handler(), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(200);
+      expect(storage.data.get('hero').value).toBe('Draft');
+      expect(storage.data.has('_draft:hero')).toBe(false);
+      expect(storage.data.has('_workflow:hero')).toBe(false);
+    });
+
+    test('sends a draft edited after approval back for review', async () => {
+      await save('hero', 'Draft');
+      await approve('hero');
+      await save('hero', 'Edited');
+
+      const response = await request(handler(), 'POST', '/publish', { sight: 'hero' });
+
+      expect(response.status).toBe(409);
+      expect(storage.data.get('hero').value).toBe('Live');
+    });
+
+    test('publishes nothing when part of a batch is unapproved', async () => {
+      await save('hero', 'Draft');
+      await save('footer', 'Footer draft');
+      await approve('hero');
+
+      const response = await request(handler(), 'POST', '/publish', { items: [{ sight: 'hero' }, { sight: 'footer' }] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.unapproved).toEqual(['footer']);
+      expect(storage.data.get('hero').value).toBe('Live');
+      expect(storage.data.has('footer')).toBe(false);
+    });
+  });
+
+  describe('stages', () => {
+    test('only let the roles of a stage act on it', async () => {
+      await save('hero', 'Draft');
+
+      const notSubmitter = await request(handler(), 'POST', '/workflow/submit', { sight: 'hero' }, ['reviewer']);
+      expect(notSubmitter.status).toBe(403);
+
+      await request(handler(), 'POST', '/workflow/submit', { sight: 'hero' }, ['editor']);
+      const wrongReviewer = await request(handler(), 'POST', '/workflow/approve', { sight: 'hero' }, ['lawyer']);
+
+      expect(wrongReviewer.status).toBe(403);
+      expect(wrongReviewer.body.skipped).toEqual([{ key: 'hero', reason: 'forbidden', stage: 'review' }]);
+    });
+
+    test('refuse actions the current stage does not allow', async () => {
+      await save('hero', 'Draft');
+
+      const response = await request(handler(), 'POST', '/workflow/approve', { sight: 'hero' }, ['reviewer']);
+
+      expect(response.status).toBe(409);
+      expect(response.body.skipped).toEqual([{ key: 'hero', reason: 'stage', stage: 'draft' }]);
+    });
+
+    test('require a comment to reject, and hold rejected drafts back', async () => {
+      await save('hero', 'Draft');
+      await request(handler(), 'POST', '/workflow/submit', { sight: 'hero' }, ['editor']);
+
+      expect((await request(handler(), 'POST', '/workflow/reject', { sight: 'hero' }, ['reviewer'])).status).toBe(400);
+
+      const rejected = await request(handler(), 'POST', '/workflow/reject', { sight: 'hero', comment: 'Typo' }, ['reviewer']);
+      expect(rejected.body.items[0]).toEqual(expect.objectContaining({ stage: 'rejected', actions: [] }));
+      expect(rejected.body.items[0].history.map((entry: any) => [entry.action, entry.to, entry.comment]))
+        .toEqual([['submit', 'review', undefined], ['reject', 'rejected', 'Typo']]);
+
+      expect((await request(handler(), 'POST', '/publish', { sight: 'hero' })).status).toBe(409);
+    });
+
+    test('are unavailable without a workflow', async () => {
+      const response = await request(handler({ workflow: undefined }), 'POST', '/workflow/submit', { sight: 'hero' }, ['editor']);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { StorageAdapter, DRAFT_PREFIX, isContentKey } from './index';
+import { FocalPoint, ImageFormat } from './images';
+
+/**
+ * Uploads are registered under `file:<filename>`, next to the content they are used in
+ */
+export const ASSET_PREFIX = 'file:';
+
+export const DEFAULT_ASSET_PAGE_SIZE = 24;
+export const MAX_ASSET_PAGE_SIZE = 100;
+
+/**
+ * An uploaded file as listed by the media library
+ */
+export interface MediaAsset {
+  id: string; // The stored filename, unique per upload
+  filename: string;
+  originalName: string;
+  url: string;
+  thumbnailUrl?: string;
+  mimetype: string;
+  size: number;
+  width?: number;
+  height?: number;
+  variants?: Array<{ width: number; height: number; format: ImageFormat; url: string }>;
+  focalPoint?: FocalPoint;
+  alt: string;
+  tags: string[];
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+/**
+ * Content that still points at an asset
+ */
+export interface AssetReference {
+  key: string;
+  sight: string;
+  id?: string;
+  status: 'draft' | 'published';
+}
+
+export interface AssetQuery {
+  q?: string; // Matched against the original name, alt text and tags
+  type?: string; // `image`, `video`... or a full mime type
+  tag?: string;
+  page: number;
+  limit: number;
+}
+
+export interface AssetPage {
+  assets: MediaAsset[];
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export function assetKey(id: string): string {
+  return `${ASSET_PREFIX}${id}`;
+}
+
+/**
+ * Stored filenames are generated by the upload handler and never contain path separators
+ */
+export function isValidAssetId(id: string): boolean {
+  return /^[a-zA-Z0-9._-]+$/.test(id) && !id.includes('..');
+}
+
+/**
+ * Normalizes a stored upload record; records written before the media library only
+ * have the name, type, size and uploader
+ */
+export function toMediaAsset(id: string, stored: any): MediaAsset {
+  const filename = stored.filename || id;
+  return {
+    id,
+    filename,
+    originalName: stored.originalName || filename,
+    url: stored.url || `/uploads/${filename}`,
+    thumbnailUrl: stored.thumbnailUrl || (stored.thumbnailFilename ? `/uploads/${stored.thumbnailFilename}` : undefined),
+    mimetype: stored.mimetype || 'application/octet-stream',
+    size: stored.size || 0,
+    width: stored.width,
+    height: stored.height,
+    variants: Array.isArray(stored.variants)
+      ? stored.variants.map(({ width, height, format, url }: any) => ({ width, height, format, url }))
+      : undefined,
+    focalPoint: stored.focalPoint,
+    alt: stored.alt || '',
+    tags: Array.isArray(stored.tags) ? stored.tags : [],
+    uploadedAt: stored.uploadedAt || new Date(0).toISOString(),
+    uploadedBy: stored.uploadedBy || 'anonymous'
+  };
+}
+
+/**
+ * Trims, lowercases and de-duplicates tags, accepting an array or a comma-separated string
+ */
+export function normalizeTags(raw: unknown): string[] | null {
+  const values = typeof raw === 'string' ? raw.split(',') : raw;
+  if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+    return null;
+  }
+  const tags = values.map(value => value.trim().toLowerCase()).filter(value => value.length > 0);
+  return Array.from(new Set(tags)).slice(0, 50);
+}
+
+export async function listAssets(storage: StorageAdapter): Promise<MediaAsset[]> {
+  const assets: MediaAsset[] = [];
+  for (const key of await storage.list(ASSET_PREFIX)) {
+    const stored = await storage.get(key);
+    if (stored && typeof stored === 'object') {
+      assets.push(toMediaAsset(key.slice(ASSET_PREFIX.length), stored));
+    }
+  }
+  return assets;
+}
+
+/**
+ * Filters assets by the query and returns the requested page, newest uploads first
+ */
+export function searchAssets(assets: MediaAsset[], query: AssetQuery): AssetPage {
+  const text = query.q?.trim().toLowerCase();
+  const tag = query.tag?.trim().toLowerCase();
+  const type = query.type?.trim().toLowerCase();
+
+  const matches = assets
+    .filter(asset => {
+      if (type && !(type.includes('/') ? asset.mimetype === type : asset.mimetype.startsWith(`${type}/`))) {
+        return false;
+      }
+      if (tag && !asset.tags.includes(tag)) {
+        return false;
+      }
+      if (text) {
+        const haystack = [asset.originalName, asset.alt, ...asset.tags].join(' ').toLowerCase();
+        return haystack.includes(text);
+      }
+      return true;
+    })
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+
+  const pages = Math.max(1, Math.ceil(matches.length / query.limit));
+  const page = Math.min(Math.max(1, query.page), pages);
+
+  return {
+    assets: matches.slice((page - 1) * query.limit, page * query.limit),
+    total: matches.length,
+    page,
+    limit: query.limit,
+    pages
+  };
+}
+
+/**
+ * Published content and drafts whose value mentions the asset's URL, a variant or the thumbnail
+ */
+export async function findAssetReferences(storage: StorageAdapter, asset: MediaAsset): Promise<AssetReference[]> {
+  const needles = [`/uploads/${asset.filename}`, ...(asset.variants || []).map(variant => variant.url)];
+  if (asset.thumbnailUrl) {
+    needles.push(asset.thumbnailUrl);
+  }
+
+  const references: AssetReference[] = [];
+  for (const storedKey of await storage.list()) {
+    const isDraft = storedKey.startsWith(DRAFT_PREFIX);
+    if (!isDraft && !isContentKey(storedKey)) {
+      continue;
+    }
+
+    const stored = await storage.get(storedKey);
+    const value = stored && typeof stored === 'object' && 'value' in stored ? stored.value : stored;
+    const serialized = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+    if (!needles.some(needle => serialized.includes(needle))) {
+      continue;
+    }
+
+    const key = isDraft ? storedKey.slice(DRAFT_PREFIX.length) : storedKey;
+    references.push({
+      key,
+      sight: stored?.sight || key.split(':')[0],
+      id: stored?.id,
+      status: isDraft ? 'draft' : 'published'
+    });
+  }
+  return references;
+}
@@ -0,0 +1,251 @@
+import { UserData, UserSession } from './secure-auth-handler';
+import { LoginAttempt } from './secure-jwt';
+import { UserStore, NewUserData, SessionRotation, primaryRole, MAX_LOGIN_ATTEMPTS_KEPT } from './user-store';
+import { DatabaseConnection } from '../migrations/core/migration-engine';
+import * as crypto from 'crypto';
+
+// UserData fields stored under another name in the `users` collection
+const RENAMED_FIELDS: Partial<Record<keyof UserData, string>> = {
+  password: 'passwordHash',
+  lastLogin: 'lastLoginAt',
+  loginAttempts: 'failedLoginAttempts',
+  emailVerificationExpiry: 'emailVerificationExpiresAt',
+  passwordResetExpiry: 'passwordResetExpiresAt',
+};
+
+// Derived or not stored
+const SKIPPED_FIELDS = ['id', 'refreshTokens', 'sessions', 'createdAt', 'updatedAt'];
+
+/**
+ * Users in the `users` and `user_sessions` collections created by the migrations.
+ * Runs through the migration adapter's connection, which passes values in as `params`.
+ */
+export class MongoUserStore implements UserStore {
+  constructor(
+    private connect: () => Promise<DatabaseConnection>,
+    private sessionLifetime: number // ms
+  ) {}
+
+  async createUser(user: NewUserData): Promise<UserData> {
+    const now = new Date();
+    const document = {
+      _id: crypto.randomBytes(16).toString('hex'),
+      username: user.email,
+      role: primaryRole(user.roles),
+      isActive: true,
+      ...this.userFields(user),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.run('return db.collection("users").insertOne(params[0])', document);
+    return this.toUser(document);
+  }
+
+  async findUserById(userId: string): Promise<UserData | null> {
+    return this.findUser({ _id: userId });
+  }
+
+  async findUserByEmail(email: string): Promise<UserData | null> {
+    return this.findUser({ email });
+  }
+
+  async findUserByResetToken(token: string): Promise<UserData | null> {
+    return this.findUser({ passwordResetToken: token });
+  }
+
+  async searchUsers(query: string, limit: number): Promise<UserData[]> {
+    const needle = query.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const filter = needle
+      ? { $or: [{ name: { $regex: needle, $options: 'i' } }, { email: { $regex: needle, $options: 'i' } }] }
+      : {};
+    const documents = await this.run<any[]>(
+      'return db.collection("users").find(params[0]).sort({ name: 1 }).limit(params[1]).toArray()',
+      filter,
+      Math.floor(limit)
+    );
+    return documents.map(document => this.toUser(document));
+  }
+
+  async updateUser(userId: string, updates: Partial<UserData>): Promise<UserData | null> {
+    const changes: Record<string, unknown> = { ...this.userFields(updates), updatedAt: new Date() };
+    if (updates.roles) {
+      changes.role = primaryRole(updates.roles);
+    }
+    if (updates.email) {
+      changes.username = updates.email;
+    }
+
+    await this.run('return db.collection("users").updateOne({ _id: params[0] }, { $set: params[1] })', userId, changes);
+    return this.findUserById(userId);
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    const result = await this.run<any>('return db.collection("users").deleteOne({ _id: params[0] })', userId);
+    await this.run('return db.collection("user_sessions").deleteMany({ userId: params[0] })', userId);
+    await this.run('return db.collection("login_attempts").deleteMany({ userId: params[0] })', userId);
+    return result.deletedCount > 0;
+  }
+
+  async recordFailedLogin(userId: string, now: Date): Promise<number> {
+    await this.run(
+      'return db.collection("users").updateOne({ _id: params[0], lockedUntil: { $ne: null, $lte: params[1] } }, { $set: { failedLoginAttempts: 0, lockedUntil: null } })',
+      userId,
+      now
+    );
+    // $inc is atomic, so concurrent failures on other instances all count
+    const result = await this.run<any>(
+      'return db.collection("users").findOneAndUpdate({ _id: params[0] }, { $inc: { failedLoginAttempts: 1 }, $set: { updatedAt: params[1] } }, { returnDocument: "after" })',
+      userId,
+      now
+    );
+    // Older drivers wrap the document in { value }
+    const document = result && 'value' in result && 'ok' in result ? result.value : result;
+    return document ? Number(document.failedLoginAttempts) : 0;
+  }
+
+  async addSession(userId: string, session: UserSession): Promise<void> {
+    await this.run('return db.collection("user_sessions").insertOne(params[0])', {
+      userId,
+      sessionToken: session.sessionId,
+      deviceInfo: { deviceId: session.deviceId, deviceName: session.deviceName },
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      isActive: session.isActive,
+      lastActivityAt: session.lastActivity,
+      // TTL index removes the session once it expires
+      expiresAt: this.expiresAt(session.lastActivity),
+      createdAt: session.createdAt,
+    });
+  }
+
+  async removeSession(userId: string, sessionId: string): Promise<void> {
+    await this.run(
+      'return db.collection("user_sessions").deleteOne({ userId: params[0], sessionToken: params[1] })',
+      userId,
+      sessionId
+    );
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    const documents = await this.run<any[]>(
+      'return db.collection("user_sessions").find({ userId: params[0], expiresAt: { $gt: params[1] } }).sort({ createdAt: 1 }).toArray()',
+      userId,
+      new Date()
+    );
+    return documents.map(document => ({
+      sessionId: document.sessionToken,
+      deviceId: document.deviceInfo?.deviceId,
+      deviceName: document.deviceInfo?.deviceName,
+      ipAddress: document.ipAddress,
+      userAgent: document.userAgent,
+      lastActivity: document.lastActivityAt,
+      createdAt: document.createdAt,
+      isActive: !!document.isActive,
+    }));
+  }
+
+  async rotateSession(userId: string, sessionId: string, changes: SessionRotation): Promise<boolean> {
+    // Only the first refresh with a given session id matches
+    const result = await this.run<any>(
+      'return db.collection("user_sessions").updateOne({ userId: params[0], sessionToken: params[1], isActive: true, expiresAt: { $gt: params[2].lastActivityAt } }, { $set: params[2] })',
+      userId,
+      sessionId,
+      {
+        sessionToken: changes.sessionId,
+        lastActivityAt: changes.lastActivity,
+        ipAddress: changes.ipAddress,
+        expiresAt: this.expiresAt(changes.lastActivity),
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async deactivateSessions(userId: string): Promise<void> {
+    await this.run('return db.collection("user_sessions").updateMany({ userId: params[0] }, { $set: { isActive: false } })', userId);
+  }
+
+  async recordLoginAttempt(attempt: LoginAttempt): Promise<void> {
+    await this.run('return db.collection("login_attempts").insertOne(params[0])', {
+      userId: attempt.userId ?? null,
+      email: attempt.email,
+      ipAddress: attempt.ipAddress,
+      userAgent: attempt.userAgent,
+      success: attempt.success,
+      failureReason: attempt.failureReason ?? null,
+      createdAt: attempt.timestamp,
+    });
+  }
+
+  async getRecentLoginAttempts(identifier: string, timeWindow: number): Promise<LoginAttempt[]> {
+    const documents = await this.run<any[]>(
+      'return db.collection("login_attempts").find({ $or: [{ userId: params[0] }, { email: params[0] }], createdAt: { $gte: params[1] } }).sort({ createdAt: -1 }).limit(params[2]).toArray()',
+      identifier,
+      new Date(Date.now() - timeWindow),
+      MAX_LOGIN_ATTEMPTS_KEPT
+    );
+    return documents.reverse().map(document => ({
+      ...(document.userId ? { userId: document.userId } : {}),
+      email: document.email,
+      ipAddress: document.ipAddress,
+      userAgent: document.userAgent,
+      success: !!document.success,
+      timestamp: document.createdAt,
+      ...(document.failureReason ? { failureReason: document.failureReason } : {}),
+    }));
+  }
+
+  async close(): Promise<void> {
+    await (await this.connect()).close();
+  }
+
+  private async findUser(filter: Record<string, unknown>): Promise<UserData | null> {
+    const document = await this.run<any>('return db.collection("users").findOne(params[0])', filter);
+    return document ? this.toUser(document) : null;
+  }
+
+  private async run<T = unknown>(command: string, ...params: unknown[]): Promise<T> {
+    return (await this.connect()).query(command, params);
+  }
+
+  private expiresAt(lastActivity: Date): Date {
+    return new Date(lastActivity.getTime() + this.sessionLifetime);
+  }
+
+  private userFields(user: Partial<UserData>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    (Object.keys(user) as (keyof UserData)[]).forEach(field => {
+      if (SKIPPED_FIELDS.includes(field)) return;
+      fields[RENAMED_FIELDS[field] ?? field] = user[field] ?? null;
+    });
+    return fields;
+  }
+
+  private toUser(document: any): UserData {
+    return {
+      id: String(document._id),
+      email: document.email,
+      name: document.name ?? document.username,
+      password: document.passwordHash,
+      roles: document.roles ?? [document.role],
+      permissions: document.permissions ?? [],
+      emailVerified: !!document.emailVerified,
+      twoFactorEnabled: !!document.twoFactorEnabled,
+      twoFactorSecret: document.twoFactorSecret ?? undefined,
+      twoFactorPendingSecret: document.twoFactorPendingSecret ?? undefined,
+      twoFactorRecoveryCodes: document.twoFactorRecoveryCodes ?? undefined,
+      twoFactorLastStep: document.twoFactorLastStep ?? undefined,
+      lastLogin: document.lastLoginAt ?? undefined,
+      loginAttempts: document.failedLoginAttempts ?? 0,
+      lockedUntil: document.lockedUntil ?? undefined,
+      passwordChangedAt: document.passwordChangedAt ?? document.createdAt,
+      emailVerificationToken: document.emailVerificationToken ?? undefined,
+      emailVerificationExpiry: document.emailVerificationExpiresAt ?? undefined,
+      passwordResetToken: document.passwordResetToken ?? undefined,
+      passwordResetExpiry: document.passwordResetExpiresAt ?? undefined,
+      refreshTokens: [],
+      sessions: [],
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+    };
+  }
+}
@@ -1,17 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import { SecureJWTAuth, JWTConfig } from './secure-jwt';
-import { SecureAuthHandler, SecurityConfig, EmailConfig } from './secure-auth-handler';
+import { SecureAuthHandler, SecurityConfig, EmailConfig, TwoFactorOptions } from './secure-auth-handler';
+import { UserStoreConfig } from './user-store';
 import { RBACSystem } from './rbac-system';
 import * as crypto from 'crypto';
 
 export * from './secure-jwt';
 export * from './secure-auth-handler';
+export * from './user-store';
 export * from './rbac-system';
 
 export interface SecureAuthConfig {
   jwt: JWTConfig;
   security?: Partial<SecurityConfig>;
   email?: EmailConfig;
+  userStore?: UserStoreConfig;
+  twoFactor?: Omit<TwoFactorOptions, 'rbac'> & {
+    requiredRoles?: string[];
+  };
   rbac?: {
     enableResourceLevelPermissions: boolean;
     enableConditionalPermissions: boolean;
@@ -36,12 +42,18 @@ export class SecureAuthSystem {
     
     // Initialize RBAC system
     this.rbac = new RBACSystem();
+    const { requiredRoles = [], ...twoFactor } = config.twoFactor || {};
+    for (const role of requiredRoles) {
+      this.rbac.setTwoFactorRequired(role, true);
+    }
     
     // Initialize authentication handler
     this.authHandler = new SecureAuthHandler(
       this.jwtAuth,
       config.security,
-      config.email
+      config.email,
+      config.userStore,
+      { ...twoFactor, rbac: this.rbac }
     );
     
     this.initialized = true;
@@ -236,6 +248,13 @@ export class SecureAuthSystem {
       requestPasswordReset: this.authHandler.requestPasswordReset.bind(this.authHandler),
       resetPassword: this.authHandler.resetPassword.bind(this.authHandler),
       getCurrentUser: this.authHandler.getCurrentUser.bind(this.authHandler),
+      verifyTwoFactor: this.authHandler.verifyTwoFactor.bind(this.authHandler),
+      setupTwoFactor: this.authHandler.setupTwoFactor.bind(this.authHandler),
+      enableTwoFactor: this.authHandler.enableTwoFactor.bind(this.authHandler),
+      disableTwoFactor: this.authHandler.disableTwoFactor.bind(this.authHandler),
+      regenerateRecoveryCodes: this.authHandler.regenerateRecoveryCodes.bind(this.authHandler),
+      getTwoFactorPolicy: this.authHandler.getTwoFactorPolicy.bind(this.authHandler),
+      updateTwoFactorPolicy: this.authHandler.updateTwoFactorPolicy.bind(this.authHandler),
     };
   }
   
@@ -0,0 +1,364 @@
+import { UserData, UserSession } from './secure-auth-handler';
+import { LoginAttempt } from './secure-jwt';
+import { UserStore, NewUserData, SessionRotation, primaryRole } from './user-store';
+import { DatabaseConnection } from '../migrations/core/migration-engine';
+import { isIP } from 'net';
+
+// UserData fields and the `users` columns they live in
+const USER_COLUMNS: Partial<Record<keyof UserData, string>> = {
+  email: 'email',
+  name: 'name',
+  password: 'password_hash',
+  roles: 'roles',
+  permissions: 'permissions',
+  emailVerified: 'email_verified',
+  twoFactorEnabled: 'two_factor_enabled',
+  twoFactorSecret: 'two_factor_secret',
+  twoFactorPendingSecret: 'two_factor_pending_secret',
+  twoFactorRecoveryCodes: 'two_factor_recovery_codes',
+  twoFactorLastStep: 'two_factor_last_step',
+  lastLogin: 'last_login_at',
+  loginAttempts: 'failed_login_attempts',
+  lockedUntil: 'locked_until',
+  passwordChangedAt: 'password_changed_at',
+  emailVerificationToken: 'email_verification_token',
+  emailVerificationExpiry: 'email_verification_expires_at',
+  passwordResetToken: 'password_reset_token',
+  passwordResetExpiry: 'password_reset_expires_at',
+};
+
+// Arrays kept as JSON text
+const JSON_FIELDS = ['roles', 'permissions', 'twoFactorRecoveryCodes'];
+
+// Login attempts older than this are pruned when a new one is recorded
+const LOGIN_ATTEMPT_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Users in the `users` and `user_sessions` tables created by the migrations, on PostgreSQL,
+ * MySQL or SQLite. User ids are the table's numeric ids as strings.
+ */
+export class SQLUserStore implements UserStore {
+  constructor(
+    private connect: () => Promise<DatabaseConnection>,
+    private sessionLifetime: number // ms
+  ) {}
+
+  async createUser(user: NewUserData): Promise<UserData> {
+    const now = new Date();
+    const values: Record<string, unknown> = {
+      username: user.email,
+      role: primaryRole(user.roles),
+      created_at: now,
+      updated_at: now,
+      ...this.userColumns(user),
+    };
+
+    const connection = await this.connect();
+    const columns = Object.keys(values);
+    const result = await this.query(
+      `INSERT INTO users (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})` +
+        (connection.type === 'postgresql' ? ' RETURNING id' : ''),
+      columns.map(column => values[column])
+    );
+    const id = connection.type === 'postgresql' ? result[0].id : result.insertId ?? result.lastID;
+
+    const created = await this.findUserById(String(id));
+    if (!created) {
+      throw new Error('User was not stored');
+    }
+    return created;
+  }
+
+  async findUserById(userId: string): Promise<UserData | null> {
+    const id = rowId(userId);
+    if (id === null) return null;
+    return this.findUser('id = ?', id);
+  }
+
+  async findUserByEmail(email: string): Promise<UserData | null> {
+    return this.findUser('email = ?', email);
+  }
+
+  async findUserByResetToken(token: string): Promise<UserData | null> {
+    return this.findUser('password_reset_token = ?', token);
+  }
+
+  async searchUsers(query: string, limit: number): Promise<UserData[]> {
+    const needle = query.trim().toLowerCase();
+    const pattern = `%${needle.replace(/[!%_]/g, match => `!${match}`)}%`;
+    const rows = await this.query(
+      `SELECT * FROM users` +
+        (needle ? ` WHERE LOWER(name) LIKE ? ESCAPE '!' OR email LIKE ? ESCAPE '!'` : '') +
+        ` ORDER BY name LIMIT ${Math.floor(limit)}`,
+      needle ? [pattern, pattern] : []
+    );
+    return rows.map((row: any) => this.toUser(row));
+  }
+
+  async updateUser(userId: string, updates: Partial<UserData>): Promise<UserData | null> {
+    const id = rowId(userId);
+    if (id === null) return null;
+
+    const values: Record<string, unknown> = { ...this.userColumns(updates), updated_at: new Date() };
+    if (updates.roles) {
+      values.role = primaryRole(updates.roles);
+    }
+    if (updates.email) {
+      values.username = updates.email;
+    }
+
+    const columns = Object.keys(values);
+    await this.query(
+      `UPDATE users SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+      [...columns.map(column => values[column]), id]
+    );
+    return this.findUserById(userId);
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    const id = rowId(userId);
+    if (id === null) return false;
+
+    // Sessions and login attempts go with the user (ON DELETE CASCADE)
+    return this.changed(await this.query(`DELETE FROM users WHERE id = ?${await this.returning()}`, [id]));
+  }
+
+  async recordFailedLogin(userId: string, now: Date): Promise<number> {
+    const id = rowId(userId);
+    if (id === null) return 0;
+
+    await this.query(
+      'UPDATE users SET failed_login_attempts = 0, locked_until = NULL WHERE id = ? AND locked_until IS NOT NULL AND locked_until <= ?',
+      [id, now]
+    );
+    // Incremented in the database, so concurrent failures on other instances all count
+    await this.query(
+      'UPDATE users SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1, updated_at = ? WHERE id = ?',
+      [now, id]
+    );
+    const rows = await this.query('SELECT failed_login_attempts FROM users WHERE id = ?', [id]);
+    return rows.length ? Number(rows[0].failed_login_attempts) : 0;
+  }
+
+  async addSession(userId: string, session: UserSession): Promise<void> {
+    await this.query(
+      `INSERT INTO user_sessions
+        (user_id, session_token, device_info, ip_address, user_agent, is_active, last_activity_at, expires_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        rowId(userId),
+        session.sessionId,
+        JSON.stringify({ deviceId: session.deviceId, deviceName: session.deviceName }),
+        ipAddress(session.ipAddress),
+        session.userAgent,
+        session.isActive,
+        session.lastActivity,
+        this.expiresAt(session.lastActivity),
+        session.createdAt,
+      ]
+    );
+  }
+
+  async removeSession(userId: string, sessionId: string): Promise<void> {
+    await this.query('DELETE FROM user_sessions WHERE user_id = ? AND session_token = ?', [rowId(userId), sessionId]);
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    const id = rowId(userId);
+    if (id === null) return [];
+
+    const rows = await this.query(
+      'SELECT * FROM user_sessions WHERE user_id = ? AND expires_at > ? ORDER BY created_at',
+      [id, new Date()]
+    );
+    return rows.map((row: any) => {
+      const device = parseJSON<{ deviceId?: string; deviceName?: string }>(row.device_info, {});
+      return {
+        sessionId: row.session_token,
+        deviceId: device.deviceId,
+        deviceName: device.deviceName,
+        ipAddress: row.ip_address ?? 'unknown',
+        userAgent: row.user_agent ?? 'unknown',
+        lastActivity: toDate(row.last_activity_at)!,
+        createdAt: toDate(row.created_at)!,
+        isActive: !!row.is_active,
+      };
+    });
+  }
+
+  async rotateSession(userId: string, sessionId: string, changes: SessionRotation): Promise<boolean> {
+    const id = rowId(userId);
+    if (id === null) return false;
+
+    // Only the first refresh with a given session id matches
+    const result = await this.query(
+      `UPDATE user_sessions SET session_token = ?, last_activity_at = ?, ip_address = ?, expires_at = ?
+        WHERE user_id = ? AND session_token = ? AND is_active = ? AND expires_at > ?${await this.returning()}`,
+      [
+        changes.sessionId,
+        changes.lastActivity,
+        ipAddress(changes.ipAddress),
+        this.expiresAt(changes.lastActivity),
+        id,
+        sessionId,
+        true,
+        changes.lastActivity,
+      ]
+    );
+    return this.changed(result);
+  }
+
+  async deactivateSessions(userId: string): Promise<void> {
+    await this.query('UPDATE user_sessions SET is_active = ? WHERE user_id = ?', [false, rowId(userId)]);
+  }
+
+  async recordLoginAttempt(attempt: LoginAttempt): Promise<void> {
+    const userId = attempt.userId ? rowId(attempt.userId) : null;
+    await this.query(
+      `INSERT INTO login_attempts (user_id, email, ip_address, user_agent, success, failure_reason, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        userId,
+        attempt.email,
+        attempt.ipAddress,
+        attempt.userAgent,
+        attempt.success,
+        attempt.failureReason ?? null,
+        attempt.timestamp,
+      ]
+    );
+    await this.query('DELETE FROM login_attempts WHERE email = ? AND created_at < ?', [
+      attempt.email,
+      new Date(attempt.timestamp.getTime() - LOGIN_ATTEMPT_RETENTION),
+    ]);
+  }
+
+  async getRecentLoginAttempts(identifier: string, timeWindow: number): Promise<LoginAttempt[]> {
+    const id = rowId(identifier);
+    const rows = await this.query(
+      `SELECT * FROM login_attempts WHERE ${id === null ? 'email' : 'user_id'} = ? AND created_at >= ? ORDER BY created_at`,
+      [id ?? identifier, new Date(Date.now() - timeWindow)]
+    );
+    return rows.map((row: any) => ({
+      ...(row.user_id != null ? { userId: String(row.user_id) } : {}),
+      email: row.email,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      success: !!row.success,
+      timestamp: toDate(row.created_at)!,
+      ...(row.failure_reason ? { failureReason: row.failure_reason } : {}),
+    }));
+  }
+
+  async close(): Promise<void> {
+    await (await this.connect()).close();
+  }
+
+  private async findUser(where: string, value: unknown): Promise<UserData | null> {
+    const rows = await this.query(`SELECT * FROM users WHERE ${where}`, [value]);
+    return rows.length ? this.toUser(rows[0]) : null;
+  }
+
+  /**
+   * Runs a statement written with `?` placeholders, in the connection's dialect
+   */
+  private async query(sql: string, params: unknown[]): Promise<any> {
+    const connection = await this.connect();
+    if (connection.type === 'postgresql') {
+      let index = 0;
+      sql = sql.replace(/\?/g, () => `$${++index}`);
+    }
+    return connection.query(sql, params.map(value => toParam(connection.type, value)));
+  }
+
+  // PostgreSQL reports rows, not counts, so changed rows are returned
+  private async returning(): Promise<string> {
+    return (await this.connect()).type === 'postgresql' ? ' RETURNING id' : '';
+  }
+
+  private changed(result: any): boolean {
+    return Array.isArray(result) ? result.length > 0 : (result?.affectedRows ?? 0) > 0;
+  }
+
+  private expiresAt(lastActivity: Date): Date {
+    return new Date(lastActivity.getTime() + this.sessionLifetime);
+  }
+
+  private userColumns(user: Partial<UserData>): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    (Object.keys(user) as (keyof UserData)[]).forEach(field => {
+      const column = USER_COLUMNS[field];
+      if (!column) return;
+      const value = user[field];
+      values[column] = JSON_FIELDS.includes(field) && value !== undefined ? JSON.stringify(value) : value ?? null;
+    });
+    return values;
+  }
+
+  private toUser(row: any): UserData {
+    const roles = parseJSON(row.roles, [row.role]);
+    return {
+      id: String(row.id),
+      email: row.email,
+      name: row.name ?? row.username,
+      password: row.password_hash,
+      roles,
+      permissions: parseJSON(row.permissions, []),
+      emailVerified: !!row.email_verified,
+      twoFactorEnabled: !!row.two_factor_enabled,
+      twoFactorSecret: row.two_factor_secret ?? undefined,
+      twoFactorPendingSecret: row.two_factor_pending_secret ?? undefined,
+      twoFactorRecoveryCodes: parseJSON<string[] | undefined>(row.two_factor_recovery_codes, undefined),
+      twoFactorLastStep: row.two_factor_last_step != null ? Number(row.two_factor_last_step) : undefined,
+      lastLogin: toDate(row.last_login_at),
+      loginAttempts: Number(row.failed_login_attempts ?? 0),
+      lockedUntil: toDate(row.locked_until),
+      passwordChangedAt: toDate(row.password_changed_at) ?? toDate(row.created_at)!,
+      emailVerificationToken: row.email_verification_token ?? undefined,
+      emailVerificationExpiry: toDate(row.email_verification_expires_at),
+      passwordResetToken: row.password_reset_token ?? undefined,
+      passwordResetExpiry: toDate(row.password_reset_expires_at),
+      refreshTokens: [],
+      sessions: [],
+      createdAt: toDate(row.created_at)!,
+      updatedAt: toDate(row.updated_at)!,
+    };
+  }
+}
+
+/**
+ * Table ids are numeric; anything else can't match a row
+ */
+function rowId(userId: string): number | null {
+  return /^\d+$/.test(userId) ? Number(userId) : null;
+}
+
+// PostgreSQL keeps addresses in INET columns, which reject placeholders like 'unknown'
+function ipAddress(value: string): string | null {
+  return isIP(value) ? value : null;
+}
+
+function toParam(type: DatabaseConnection['type'], value: unknown): unknown {
+  if (value === undefined) return null;
+  if (type === 'sqlite') {
+    // Stored as ISO strings so they compare correctly as text
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+  }
+  return value;
+}
+
+function toDate(value: unknown): Date | undefined {
+  return value === null || value === undefined ? undefined : new Date(value as string | Date);
+}
+
+// JSON columns come back parsed from PostgreSQL and MySQL, as text from SQLite
+function parseJSON<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_STEP = 30; // seconds
+const TOTP_DIGITS = 6;
+const SECRET_BYTES = 20;
+
+// Codes accepted on either side of the current one, for clock drift
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * A new shared secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * The time step a moment falls in
+ */
+export function totpStep(time: number): number {
+  return Math.floor(time / 1000 / TOTP_STEP);
+}
+
+/**
+ * The code for a time step (RFC 4226 HOTP over the step counter)
+ */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Checks a code against the steps around `time`. Returns the matching step, so callers
+ * can refuse a code that was already used, or null.
+ */
+export function verifyTotp(secret: string, code: string, time: number): number | null {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = totpStep(time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * The otpauth:// URI authenticator apps read, usually shown as a QR code
+ */
+export function otpauthUri(options: { issuer: string; account: string; secret: string }): string {
+  const label = `${encodeURIComponent(options.issuer)}:${encodeURIComponent(options.account)}`;
+  const params = new URLSearchParams({
+    secret: options.secret,
+    issuer: options.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Single-use codes for when the authenticator is lost, e.g. `k7q2m-x9fpa`
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * What is stored for a recovery code; dashes, spaces and case don't matter
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = String(code).replace(/[\s-]/g, '').toLowerCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * The stored hashes without the one matching `code`, or null when none matches
+ */
+export function consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hash = Buffer.from(hashRecoveryCode(code));
+  const index = hashes.findIndex(candidate => candidate.length === hash.length && crypto.timingSafeEqual(Buffer.from(candidate), hash));
+  return index === -1 ? null : hashes.filter((_, i) => i !== index);
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
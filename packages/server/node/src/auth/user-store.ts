@@ -0,0 +1,272 @@
+import { UserData, UserSession } from './secure-auth-handler';
+import { LoginAttempt } from './secure-jwt';
+import { DatabaseAdapter } from '../migrations/core/adapters/database-adapter';
+import { DatabaseConnection, MigrationConfig } from '../migrations/core/migration-engine';
+import { SQLUserStore } from './sql-user-store';
+import { MongoUserStore } from './mongo-user-store';
+import * as crypto from 'crypto';
+
+export type NewUserData = Omit<UserData, 'id' | 'createdAt' | 'updatedAt' | 'refreshTokens' | 'sessions'>;
+
+/**
+ * Where the auth handler keeps accounts, sessions and login attempts.
+ * Emails are passed in lower case; secrets arrive already encrypted.
+ */
+export interface UserStore {
+  createUser(user: NewUserData): Promise<UserData>;
+  findUserById(userId: string): Promise<UserData | null>;
+  findUserByEmail(email: string): Promise<UserData | null>;
+  findUserByResetToken(token: string): Promise<UserData | null>;
+  searchUsers(query: string, limit: number): Promise<UserData[]>;
+  updateUser(userId: string, updates: Partial<UserData>): Promise<UserData | null>;
+  deleteUser(userId: string): Promise<boolean>;
+
+  /**
+   * Counts a failed login in one step, so instances sharing the store can't lose attempts.
+   * A lock that has run out starts the count over. Returns the new count.
+   */
+  recordFailedLogin(userId: string, now: Date): Promise<number>;
+
+  addSession(userId: string, session: UserSession): Promise<void>;
+  removeSession(userId: string, sessionId: string): Promise<void>;
+  getUserSessions(userId: string): Promise<UserSession[]>;
+
+  /**
+   * Moves an active session to a new id. Returns false when the session is gone, inactive
+   * or already rotated, which makes every refresh token single use.
+   */
+  rotateSession(userId: string, sessionId: string, changes: SessionRotation): Promise<boolean>;
+  deactivateSessions(userId: string): Promise<void>;
+
+  recordLoginAttempt(attempt: LoginAttempt): Promise<void>;
+  getRecentLoginAttempts(identifier: string, timeWindow: number): Promise<LoginAttempt[]>;
+
+  close?(): Promise<void>;
+}
+
+export interface SessionRotation {
+  sessionId: string;
+  lastActivity: Date;
+  ipAddress: string;
+}
+
+/**
+ * How the auth handler stores users: in memory (default), an existing store, or a database
+ * set up by the migrations (`users`, `user_sessions` and `login_attempts`).
+ */
+export interface UserStoreConfig {
+  store?: 'memory' | UserStore | MigrationConfig['database'] | DatabaseConnection;
+  // Key for two-factor secrets at rest; required by persistent stores so secrets survive restarts
+  encryptionKey?: string;
+  // How long an idle session lasts in a database store (default: 30 days)
+  sessionLifetime?: number; // days
+}
+
+// Login attempts kept per user or email; older ones are dropped
+export const MAX_LOGIN_ATTEMPTS_KEPT = 50;
+
+export const DEFAULT_SESSION_LIFETIME = 30; // days
+
+// Roles the single `role` column of `users` allows, most privileged first
+const PRIMARY_ROLES = ['admin', 'editor', 'user'];
+
+export function createUserStore(config: UserStoreConfig = {}): UserStore {
+  const store = config.store ?? 'memory';
+  if (store === 'memory') {
+    return new MemoryUserStore();
+  }
+  if (isUserStore(store)) {
+    return store;
+  }
+
+  const sessionLifetime = (config.sessionLifetime ?? DEFAULT_SESSION_LIFETIME) * 24 * 60 * 60 * 1000;
+
+  // Connect lazily, once, on first use
+  let connection: Promise<DatabaseConnection> | null = isConnection(store) ? Promise.resolve(store) : null;
+  const connect = () => {
+    connection = connection ?? DatabaseAdapter.create(store as MigrationConfig['database']);
+    return connection;
+  };
+  return store.type === 'mongodb'
+    ? new MongoUserStore(connect, sessionLifetime)
+    : new SQLUserStore(connect, sessionLifetime);
+}
+
+/**
+ * Whether the configured store outlives the process
+ */
+export function isPersistentStore(config: UserStoreConfig): boolean {
+  const store = config.store ?? 'memory';
+  return store !== 'memory' && !(store instanceof MemoryUserStore);
+}
+
+/**
+ * The role a database keeps in its single `role` column
+ */
+export function primaryRole(roles: string[]): string {
+  return PRIMARY_ROLES.find(role => roles.includes(role)) ?? 'user';
+}
+
+function isUserStore(value: unknown): value is UserStore {
+  return !!value && typeof (value as UserStore).findUserById === 'function';
+}
+
+function isConnection(value: unknown): value is DatabaseConnection {
+  return !!value && typeof (value as DatabaseConnection).query === 'function';
+}
+
+/**
+ * Keeps everything in process memory: lost on restart and not shared between instances
+ */
+export class MemoryUserStore implements UserStore {
+  private users = new Map<string, UserData>();
+  private usersByEmail = new Map<string, string>(); // email -> userId mapping
+  private sessions = new Map<string, UserSession[]>(); // userId -> sessions
+  private loginAttempts = new Map<string, LoginAttempt[]>();
+
+  async createUser(userData: NewUserData): Promise<UserData> {
+    const userId = crypto.randomBytes(16).toString('hex');
+    const now = new Date();
+
+    const user: UserData = {
+      ...userData,
+      id: userId,
+      refreshTokens: [],
+      sessions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.users.set(userId, user);
+    this.usersByEmail.set(user.email, userId);
+
+    return { ...user };
+  }
+
+  async findUserById(userId: string): Promise<UserData | null> {
+    const user = this.users.get(userId);
+    return user ? { ...user } : null;
+  }
+
+  async findUserByEmail(email: string): Promise<UserData | null> {
+    const userId = this.usersByEmail.get(email);
+    if (!userId) return null;
+
+    return this.findUserById(userId);
+  }
+
+  async findUserByResetToken(token: string): Promise<UserData | null> {
+    for (const user of this.users.values()) {
+      if (user.passwordResetToken === token) {
+        return { ...user };
+      }
+    }
+    return null;
+  }
+
+  async searchUsers(query: string, limit: number): Promise<UserData[]> {
+    const needle = query.trim().toLowerCase();
+    const matches: UserData[] = [];
+    for (const user of this.users.values()) {
+      if (matches.length >= limit) break;
+      if (!needle || user.name.toLowerCase().includes(needle) || user.email.includes(needle)) {
+        matches.push({ ...user });
+      }
+    }
+    return matches;
+  }
+
+  async updateUser(userId: string, updates: Partial<UserData>): Promise<UserData | null> {
+    const user = this.users.get(userId);
+    if (!user) return null;
+
+    const updatedUser = {
+      ...user,
+      ...updates,
+      id: userId,
+      updatedAt: new Date(),
+    };
+
+    this.users.set(userId, updatedUser);
+
+    // Update email mapping if email changed
+    if (updates.email && updates.email !== user.email) {
+      this.usersByEmail.delete(user.email);
+      this.usersByEmail.set(updates.email, userId);
+    }
+
+    return { ...updatedUser };
+  }
+
+  async deleteUser(userId: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) return false;
+
+    this.users.delete(userId);
+    this.usersByEmail.delete(user.email);
+    this.sessions.delete(userId);
+    this.loginAttempts.delete(userId);
+
+    return true;
+  }
+
+  async recordFailedLogin(userId: string, now: Date): Promise<number> {
+    const user = this.users.get(userId);
+    if (!user) return 0;
+
+    const expired = !!user.lockedUntil && user.lockedUntil <= now;
+    user.loginAttempts = (expired ? 0 : user.loginAttempts) + 1;
+    if (expired) {
+      user.lockedUntil = undefined;
+    }
+    user.updatedAt = new Date();
+    return user.loginAttempts;
+  }
+
+  async addSession(userId: string, session: UserSession): Promise<void> {
+    const sessions = this.sessions.get(userId) || [];
+    sessions.push({ ...session });
+    this.sessions.set(userId, sessions);
+  }
+
+  async removeSession(userId: string, sessionId: string): Promise<void> {
+    const sessions = this.sessions.get(userId) || [];
+    this.sessions.set(userId, sessions.filter(s => s.sessionId !== sessionId));
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return (this.sessions.get(userId) || []).map(session => ({ ...session }));
+  }
+
+  async rotateSession(userId: string, sessionId: string, changes: SessionRotation): Promise<boolean> {
+    const session = (this.sessions.get(userId) || []).find(s => s.sessionId === sessionId && s.isActive);
+    if (!session) return false;
+
+    Object.assign(session, changes);
+    return true;
+  }
+
+  async deactivateSessions(userId: string): Promise<void> {
+    (this.sessions.get(userId) || []).forEach(session => {
+      session.isActive = false;
+    });
+  }
+
+  async recordLoginAttempt(attempt: LoginAttempt): Promise<void> {
+    const key = attempt.userId || attempt.email;
+    const attempts = this.loginAttempts.get(key) || [];
+    attempts.push(attempt);
+
+    if (attempts.length > MAX_LOGIN_ATTEMPTS_KEPT) {
+      attempts.splice(0, attempts.length - MAX_LOGIN_ATTEMPTS_KEPT);
+    }
+
+    this.loginAttempts.set(key, attempts);
+  }
+
+  async getRecentLoginAttempts(identifier: string, timeWindow: number): Promise<LoginAttempt[]> {
+    const attempts = this.loginAttempts.get(identifier) || [];
+    const cutoff = new Date(Date.now() - timeWindow);
+    return attempts.filter(attempt => attempt.timestamp >= cutoff);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Pub/sub backplane connecting CollaborationServer instances, so clients of one room can be
+ * spread over several processes behind a load balancer. It also owns element locks, since
+ * only a shared view can stop two instances from granting the same lock, and the lock
+ * naming the one instance that orders each room's changes.
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * A room message relayed to the other instances
+ */
+export interface BackplaneMessage {
+  instanceId: string; // Instance that published it, which ignores its own messages
+  roomId: string;
+  exclude?: string; // User the message must not be delivered to
+  message: any;
+}
+
+export type BackplaneHandler = (payload: BackplaneMessage) => void;
+
+export interface Backplane {
+  publish(payload: BackplaneMessage): Promise<void>;
+  subscribe(roomId: string, handler: BackplaneHandler): Promise<void>;
+  unsubscribe(roomId: string): Promise<void>;
+  /**
+   * Grants the lock unless someone else holds it, and returns the owner afterwards.
+   * Calling it again as the owner extends the lock.
+   */
+  acquireLock(roomId: string, element: string, userId: string, ttl: number): Promise<string>;
+  /**
+   * Releases the lock if `userId` holds it
+   */
+  releaseLock(roomId: string, element: string, userId: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+/**
+ * Shared state of in-process backplanes; servers given backplanes on the same hub see each other
+ */
+export class InProcessHub {
+  readonly bus = new EventEmitter();
+  readonly locks: Map<string, { owner: string; expiresAt: number }> = new Map();
+
+  constructor() {
+    this.bus.setMaxListeners(0);
+  }
+}
+
+/**
+ * Backplane within one process, for tests and single-instance deployments
+ */
+export class InProcessBackplane implements Backplane {
+  private handlers: Map<string, BackplaneHandler> = new Map();
+
+  constructor(private hub: InProcessHub = new InProcessHub()) {}
+
+  async publish(payload: BackplaneMessage): Promise<void> {
+    // Serialized like a network transport would, so no instance shares objects with another
+    const serialized = JSON.stringify(payload);
+    setImmediate(() => this.hub.bus.emit(`room:${payload.roomId}`, JSON.parse(serialized)));
+  }
+
+  async subscribe(roomId: string, handler: BackplaneHandler): Promise<void> {
+    await this.unsubscribe(roomId);
+    this.handlers.set(roomId, handler);
+    this.hub.bus.on(`room:${roomId}`, handler);
+  }
+
+  async unsubscribe(roomId: string): Promise<void> {
+    const handler = this.handlers.get(roomId);
+    if (handler) {
+      this.hub.bus.off(`room:${roomId}`, handler);
+      this.handlers.delete(roomId);
+    }
+  }
+
+  async acquireLock(roomId: string, element: string, userId: string, ttl: number): Promise<string> {
+    const key = `${roomId}:${element}`;
+    const lock = this.hub.locks.get(key);
+
+    if (lock && lock.owner !== userId && lock.expiresAt > Date.now()) {
+      return lock.owner;
+    }
+
+    this.hub.locks.set(key, { owner: userId, expiresAt: Date.now() + ttl });
+    return userId;
+  }
+
+  async releaseLock(roomId: string, element: string, userId: string): Promise<boolean> {
+    const key = `${roomId}:${element}`;
+    if (this.hub.locks.get(key)?.owner !== userId) {
+      return false;
+    }
+    this.hub.locks.delete(key);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    for (const roomId of Array.from(this.handlers.keys())) {
+      await this.unsubscribe(roomId);
+    }
+  }
+}
+
+export interface RedisBackplaneOptions {
+  url?: string;
+  client?: any; // An ioredis-compatible client to use instead of connecting to `url`
+  prefix?: string;
+}
+
+// Deletes a lock only when it still belongs to the caller
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Backplane over Redis pub/sub, or anything speaking the Redis protocol (KeyDB, Dragonfly...).
+ * Locks are keys set with NX and an expiry, so a crashed instance cannot hold them forever.
+ */
+export class RedisBackplane implements Backplane {
+  private prefix: string;
+  private publisher: any = null;
+  private subscriber: any = null;
+  private connecting: Promise<void> | null = null;
+  private handlers: Map<string, BackplaneHandler> = new Map();
+
+  constructor(private options: RedisBackplaneOptions = {}) {
+    this.prefix = options.prefix || 'sightedit:collaboration:';
+  }
+
+  async publish(payload: BackplaneMessage): Promise<void> {
+    await this.connect();
+    await this.publisher.publish(this.channel(payload.roomId), JSON.stringify(payload));
+  }
+
+  async subscribe(roomId: string, handler: BackplaneHandler): Promise<void> {
+    await this.connect();
+    this.handlers.set(roomId, handler);
+    await this.subscriber.subscribe(this.channel(roomId));
+  }
+
+  async unsubscribe(roomId: string): Promise<void> {
+    if (!this.handlers.delete(roomId) || !this.subscriber) return;
+    await this.subscriber.unsubscribe(this.channel(roomId));
+  }
+
+  async acquireLock(roomId: string, element: string, userId: string, ttl: number): Promise<string> {
+    await this.connect();
+    const key = this.lockKey(roomId, element);
+
+    if (await this.publisher.set(key, userId, 'PX', ttl, 'NX')) {
+      return userId;
+    }
+
+    const owner = await this.publisher.get(key);
+    if (owner === userId) {
+      await this.publisher.pexpire(key, ttl);
+      return userId;
+    }
+    if (owner === null) {
+      // Expired between the two calls
+      return this.acquireLock(roomId, element, userId, ttl);
+    }
+    return owner;
+  }
+
+  async releaseLock(roomId: string, element: string, userId: string): Promise<boolean> {
+    await this.connect();
+    const released = await this.publisher.eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey(roomId, element), userId);
+    return released === 1;
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.subscriber?.quit(), this.options.client ? undefined : this.publisher?.quit()]);
+    this.publisher = null;
+    this.subscriber = null;
+    this.connecting = null;
+  }
+
+  private connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.createClients().catch(error => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async createClients(): Promise<void> {
+    let publisher = this.options.client;
+    if (!publisher) {
+      // @ts-ignore - Optional dependency
+      const ioredis = await import('ioredis').catch(() => {
+        throw new Error('Redis client not installed. Run: npm install ioredis');
+      });
+      const Redis = ioredis.default || ioredis;
+      publisher = new Redis(this.options.url || 'redis://localhost:6379');
+      publisher.on('error', (error: Error) => console.error('Redis backplane error:', error));
+    }
+
+    // A connection in subscriber mode can't run other commands
+    const subscriber = publisher.duplicate();
+    subscriber.on('error', (error: Error) => console.error('Redis backplane subscriber error:', error));
+    subscriber.on('message', (channel: string, data: string) => {
+      const handler = this.handlers.get(channel.slice(`${this.prefix}room:`.length));
+      if (!handler) return;
+
+      try {
+        handler(JSON.parse(data));
+      } catch (error) {
+        console.error('Invalid backplane message:', error);
+      }
+    });
+
+    this.publisher = publisher;
+    this.subscriber = subscriber;
+  }
+
+  private channel(roomId: string): string {
+    return `${this.prefix}room:${roomId}`;
+  }
+
+  private lockKey(roomId: string, element: string): string {
+    return `${this.prefix}lock:${roomId}:${element}`;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Persistence for collaboration rooms, so rooms survive restarts and the last client leaving
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { StorageAdapter } from '../index';
+import type { TextOperation } from './text-operation';
+
+/**
+ * Last known details of someone who joined the room
+ */
+export interface RoomParticipant {
+  id: string;
+  name: string;
+  avatar?: string;
+  color: string;
+  lastSeen: number;
+}
+
+/**
+ * An operation applied to a text field, with the room version it created
+ */
+export interface AppliedOperation {
+  revision: number;
+  operation: TextOperation;
+}
+
+/**
+ * A text field being edited through operations. The recent operations let clients that
+ * reconnect with an older revision have their pending changes transformed.
+ */
+export interface DocumentSnapshot {
+  sight: string;
+  type: string;
+  text: string;
+  revision: number; // Room version of the last change to the text
+  base: number; // `operations` holds every change after this revision
+  operations: AppliedOperation[];
+}
+
+/**
+ * Everything needed to restore a room. `state` holds the latest value of each sight
+ * together with the room version it was written at, which is what incremental sync
+ * compares against.
+ */
+export interface RoomSnapshot {
+  id: string;
+  epoch: string; // Changes when a room is recreated, so old client versions are not mistaken for current ones
+  version: number;
+  state: Record<string, any>;
+  locks: Record<string, string>;
+  participants: RoomParticipant[];
+  documents?: DocumentSnapshot[]; // Missing in snapshots written before documents were kept
+  createdAt: number;
+  lastActivity: number;
+}
+
+export interface RoomStore {
+  load(roomId: string): Promise<RoomSnapshot | null>;
+  save(snapshot: RoomSnapshot): Promise<void>;
+  delete(roomId: string): Promise<void>;
+}
+
+/**
+ * Keeps rooms for the lifetime of the process
+ */
+export class MemoryRoomStore implements RoomStore {
+  private rooms: Map<string, string> = new Map();
+
+  async load(roomId: string): Promise<RoomSnapshot | null> {
+    const stored = this.rooms.get(roomId);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    // Stored serialized so later changes to the live room don't leak into the snapshot
+    this.rooms.set(snapshot.id, JSON.stringify(snapshot));
+  }
+
+  async delete(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+}
+
+/**
+ * One JSON file per room. Room ids are limited to `[a-zA-Z0-9_-]` by the server.
+ */
+export class FileRoomStore implements RoomStore {
+  constructor(private directory: string) {}
+
+  async load(roomId: string): Promise<RoomSnapshot | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(roomId), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Written next to the target and renamed, so a crash never leaves half a file
+    const target = this.filePath(snapshot.id);
+    const temp = `${target}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(snapshot));
+    await fs.rename(temp, target);
+  }
+
+  async delete(roomId: string): Promise<void> {
+    await fs.rm(this.filePath(roomId), { force: true });
+  }
+
+  private filePath(roomId: string): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(roomId)) {
+      throw new Error(`Invalid room ID: ${roomId}`);
+    }
+    return path.join(this.directory, `${roomId}.json`);
+  }
+}
+
+/**
+ * Rooms in any StorageAdapter, e.g. the SQL adapters from `createDatabaseStorage`.
+ * The default prefix starts with `_` so rooms are not listed as content.
+ */
+export class StorageRoomStore implements RoomStore {
+  constructor(private storage: StorageAdapter, private prefix: string = '_collaboration:') {}
+
+  async load(roomId: string): Promise<RoomSnapshot | null> {
+    const stored = await this.storage.get(`${this.prefix}${roomId}`);
+    return stored && typeof stored === 'object' ? stored : null;
+  }
+
+  async save(snapshot: RoomSnapshot): Promise<void> {
+    await this.storage.set(`${this.prefix}${snapshot.id}`, snapshot);
+  }
+
+  async delete(roomId: string): Promise<void> {
+    await this.storage.delete(`${this.prefix}${roomId}`);
+  }
+}
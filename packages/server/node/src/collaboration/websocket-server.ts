@@ -7,6 +7,26 @@ import { IncomingMessage } from 'http';
 import { EventEmitter } from 'events';
 import * as crypto from 'crypto';
 import * as url from 'url';
+import {
+  TextOperation,
+  applyOperation,
+  baseLength,
+  diffToOperation,
+  isNoop,
+  isTextOperation,
+  transformOperations
+} from './text-operation';
+import { RoomStore, RoomSnapshot, RoomParticipant, AppliedOperation, MemoryRoomStore } from './room-store';
+import { Backplane, BackplaneMessage } from './backplane';
+
+// Element types edited character by character through operations
+const TEXT_TYPES = ['text', 'richtext', 'markdown'];
+
+// Changes to a comment thread other clients in the room are told about
+const COMMENT_ACTIONS = ['created', 'replied', 'resolved', 'reopened', 'deleted'];
+
+// Backplane lock held by the instance ordering a room's changes. Not a valid sight, so no element lock can clash.
+const SEQUENCER_LOCK = '#sequencer';
 
 interface Client {
   id: string;
@@ -23,16 +43,55 @@ interface Client {
   ipAddress: string;
 }
 
+/**
+ * Copy of a text field. Operations are applied in the order the room's sequencer sees them,
+ * and the recent ones are kept to transform operations based on an older revision.
+ * Revisions are room versions, so they mean the same on every instance.
+ */
+interface TextDocument {
+  sight: string;
+  type: string;
+  text: string;
+  revision: number; // Room version of the last change to the text
+  base: number; // `operations` holds every change after this revision
+  operations: AppliedOperation[];
+  subscribers: Set<string>;
+}
+
+/**
+ * Who made a change, a local client or one submitted by another instance
+ */
+interface Author {
+  id: string;
+  origin?: string;
+  ipAddress?: string;
+}
+
 interface Room {
   id: string;
+  epoch: string;
   clients: Map<string, Client>;
   locks: Map<string, string>; // element -> userId
+  documents: Map<string, TextDocument>;
+  participants: Map<string, RoomParticipant>;
+  remoteClients: Map<string, RoomParticipant>; // Connected to other instances
+  sequencer: string | null; // Instance ordering the room's changes when there is a backplane
+  awaitingState: boolean; // Changes were missed and the sequencer was asked for the whole state
   version: number;
   state: any;
   createdAt: Date;
   lastActivity: Date;
 }
 
+/**
+ * Where a reconnecting client left off, from the `since`/`epoch` connection parameters
+ * or a sync request
+ */
+interface SyncPoint {
+  since: number;
+  epoch: string;
+}
+
 export interface CollaborationServerConfig {
   port?: number;
   allowedOrigins?: string[];
@@ -43,11 +102,21 @@ export interface CollaborationServerConfig {
   rateLimitMessages?: number;
   rateLimitWindow?: number;
   roomTimeout?: number;
+  maxOperationHistory?: number;
+  store?: RoomStore;
+  persistDelay?: number; // Debounce for writing room changes to the store
+  backplane?: Backplane | null; // Needed when a room's clients can connect to different instances
+  lockTtl?: number; // Locks are renewed while the owner is connected; expire after a crash
 }
 
 export class CollaborationServer extends EventEmitter {
   private wss: WebSocketServer;
   private rooms: Map<string, Room> = new Map();
+  private roomLoads: Map<string, Promise<Room>> = new Map();
+  private roomUnloads: Map<string, Promise<void>> = new Map(); // Last save of rooms dropped from memory
+  private persistTimers: Map<string, NodeJS.Timeout> = new Map();
+  private closing = false;
+  private instanceId = crypto.randomBytes(8).toString('hex');
   private clients: Map<string, Client> = new Map();
   private cleanupInterval: NodeJS.Timeout;
   private config: Required<CollaborationServerConfig>;
@@ -63,7 +132,12 @@ export class CollaborationServer extends EventEmitter {
     maxMessageSize: 100000, // 100KB
     rateLimitMessages: 50,
     rateLimitWindow: 60000, // 1 minute
-    roomTimeout: 24 * 60 * 60 * 1000 // 24 hours
+    roomTimeout: 24 * 60 * 60 * 1000, // 24 hours
+    maxOperationHistory: 1000,
+    store: new MemoryRoomStore(),
+    persistDelay: 1000,
+    backplane: null,
+    lockTtl: 5 * 60 * 1000 // 5 minutes
   };
 
   constructor(config: CollaborationServerConfig = {}) {
@@ -78,12 +152,10 @@ export class CollaborationServer extends EventEmitter {
     });
     
     this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-      try {
-        this.handleConnection(ws, req);
-      } catch (error) {
+      this.handleConnection(ws, req).catch(error => {
         console.error('Failed to handle connection:', error);
         ws.close(1008, 'Connection rejected');
-      }
+      });
     });
 
     // Clean up inactive rooms and clients
@@ -194,12 +266,13 @@ export class CollaborationServer extends EventEmitter {
     return true;
   }
   
-  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+  private async handleConnection(ws: WebSocket, req: IncomingMessage): Promise<void> {
     const parsedUrl = url.parse(req.url || '', true);
     const roomId = typeof parsedUrl.query.room === 'string' ? parsedUrl.query.room : '';
     const userId = typeof parsedUrl.query.user === 'string' ? parsedUrl.query.user : '';
     const authToken = typeof parsedUrl.query.token === 'string' ? parsedUrl.query.token : undefined;
     const origin = req.headers.origin || 'unknown';
+    const syncPoint = this.parseSyncPoint({ since: parsedUrl.query.since, epoch: parsedUrl.query.epoch });
     
     // Additional authentication check if required
     if (this.config.requireAuth && !this.validateAuthToken(authToken || '')) {
@@ -207,20 +280,19 @@ export class CollaborationServer extends EventEmitter {
       return;
     }
 
+    // Messages sent while the room is loaded from the store are handled once it is ready
+    const queued: Buffer[] = [];
+    const queue = (data: Buffer) => queued.push(data);
+    ws.on('message', queue);
+
+    const room = await this.getRoom(roomId);
+    ws.off('message', queue);
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
     // Check room size limit
-    let room = this.rooms.get(roomId);
-    if (!room) {
-      room = {
-        id: roomId,
-        clients: new Map(),
-        locks: new Map(),
-        version: 0,
-        state: {},
-        createdAt: new Date(),
-        lastActivity: new Date()
-      };
-      this.rooms.set(roomId, room);
-    } else if (room.clients.size >= this.config.maxRoomSize) {
+    if (room.clients.size >= this.config.maxRoomSize) {
       ws.close(1008, 'Room is full');
       return;
     }
@@ -254,7 +326,9 @@ export class CollaborationServer extends EventEmitter {
 
     // Add client to room and global registry
     room.clients.set(userId, client);
+    room.remoteClients.delete(userId);
     this.clients.set(userId, client);
+    this.touchParticipant(room, client);
 
     // Set up WebSocket handlers with security
     ws.on('message', (data: Buffer) => {
@@ -282,8 +356,8 @@ export class CollaborationServer extends EventEmitter {
       client.lastActivity = new Date();
     });
 
-    // Send initial sync
-    this.sendSync(client, room);
+    // Send initial sync, only what changed if the client was here before
+    this.sendSync(client, room, syncPoint);
 
     // Notify others of new participant
     this.broadcastToRoom(room, client, {
@@ -299,6 +373,548 @@ export class CollaborationServer extends EventEmitter {
     });
 
     this.emit('clientConnected', { roomId, userId });
+
+    queued.forEach(data => ws.emit('message', data));
+  }
+
+  /**
+   * Returns the live room, restoring it from the store or creating it on first use
+   */
+  private getRoom(roomId: string): Promise<Room> {
+    const live = this.rooms.get(roomId);
+    if (live) {
+      return Promise.resolve(live);
+    }
+
+    let loading = this.roomLoads.get(roomId);
+    if (!loading) {
+      loading = this.loadRoom(roomId).finally(() => this.roomLoads.delete(roomId));
+      this.roomLoads.set(roomId, loading);
+    }
+    return loading;
+  }
+
+  private async loadRoom(roomId: string): Promise<Room> {
+    // A room rejoined while it is unloaded is read back only after its last changes are saved
+    await this.roomUnloads.get(roomId);
+
+    let snapshot: RoomSnapshot | null = null;
+    try {
+      snapshot = await this.config.store.load(roomId);
+    } catch (error) {
+      console.error(`Failed to load room ${roomId}, starting empty:`, error);
+    }
+
+    // Rooms nobody used for `roomTimeout` start over
+    if (snapshot && Date.now() - snapshot.lastActivity > this.config.roomTimeout) {
+      this.config.store.delete(roomId).catch(error => console.error(`Failed to delete room ${roomId}:`, error));
+      snapshot = null;
+    }
+
+    const room: Room = {
+      id: roomId,
+      epoch: snapshot?.epoch || crypto.randomBytes(8).toString('hex'),
+      clients: new Map(),
+      locks: new Map(Object.entries(snapshot?.locks || {})),
+      documents: new Map((snapshot?.documents || []).map(document => [document.sight, { ...document, subscribers: new Set<string>() }])),
+      participants: new Map((snapshot?.participants || []).map(participant => [participant.id, participant])),
+      remoteClients: new Map(),
+      sequencer: null,
+      awaitingState: false,
+      version: snapshot?.version || 0,
+      state: snapshot?.state || {},
+      createdAt: new Date(snapshot?.createdAt || Date.now()),
+      lastActivity: new Date()
+    };
+
+    this.rooms.set(roomId, room);
+    await this.joinBackplane(room);
+    return room;
+  }
+
+  /**
+   * Subscribes to the room's messages from other instances, reconciles restored locks
+   * with the ones they granted and finds out which instance orders the room's changes
+   */
+  private async joinBackplane(room: Room): Promise<void> {
+    const backplane = this.config.backplane;
+    if (!backplane) return;
+
+    try {
+      await backplane.subscribe(room.id, payload => this.handleBackplaneMessage(payload));
+
+      for (const [element, userId] of Array.from(room.locks.entries())) {
+        const owner = await backplane.acquireLock(room.id, element, userId, this.config.lockTtl);
+        room.locks.set(element, owner);
+      }
+
+      await this.claimSequencer(room);
+
+      // Other instances answer with the clients they have in the room
+      this.publish(room, null, { type: 'rosterRequest', timestamp: Date.now() });
+    } catch (error) {
+      console.error(`Failed to join backplane for room ${room.id}:`, error);
+    }
+  }
+
+  /**
+   * Makes sure one instance orders the room's changes, taking over when the previous one
+   * left or stopped renewing its lock. Any other instance catches up with its state.
+   */
+  private async claimSequencer(room: Room): Promise<void> {
+    const backplane = this.config.backplane;
+    if (!backplane) return;
+
+    const sequencer = await backplane.acquireLock(room.id, SEQUENCER_LOCK, this.instanceId, this.config.lockTtl);
+    const changed = sequencer !== room.sequencer;
+    room.sequencer = sequencer;
+
+    if (sequencer === this.instanceId) {
+      room.awaitingState = false;
+    } else if (changed || room.awaitingState) {
+      room.awaitingState = false;
+      this.requestState(room);
+    }
+  }
+
+  /**
+   * Hands the room's ordering to another instance when this one stops serving the room
+   */
+  private async releaseSequencer(room: Room): Promise<void> {
+    const backplane = this.config.backplane;
+    if (!backplane || room.sequencer !== this.instanceId) return;
+
+    room.sequencer = null;
+    await backplane.releaseLock(room.id, SEQUENCER_LOCK, this.instanceId);
+    this.publish(room, null, { type: 'sequencerLeft', timestamp: Date.now() });
+  }
+
+  /**
+   * Whether this instance orders the room's changes. Without a backplane, or before the
+   * sequencer is known, every instance orders its own.
+   */
+  private isSequencer(room: Room): boolean {
+    return !this.config.backplane || room.sequencer === null || room.sequencer === this.instanceId;
+  }
+
+  private requestState(room: Room): void {
+    if (room.awaitingState) return;
+    room.awaitingState = true;
+    this.publish(room, null, { type: 'stateRequest', timestamp: Date.now() });
+  }
+
+  /**
+   * Hands a client's change to the room's sequencer. It comes back like any other change,
+   * or as a rejection when it no longer fits.
+   */
+  private submit(room: Room, client: Client, kind: 'edit' | 'op', change: any): void {
+    this.publish(room, null, {
+      type: 'submit',
+      userId: client.id,
+      data: { kind, change, origin: client.origin, ipAddress: client.ipAddress },
+      timestamp: Date.now()
+    });
+  }
+
+  private publish(room: Room, exclude: Client | null, message: any): void {
+    const backplane = this.config.backplane;
+    if (!backplane) return;
+
+    const payload: BackplaneMessage = {
+      instanceId: this.instanceId,
+      roomId: room.id,
+      ...(exclude ? { exclude: exclude.id } : {}),
+      message
+    };
+    backplane.publish(payload).catch(error => {
+      console.error(`Failed to publish to room ${room.id}:`, error);
+    });
+  }
+
+  /**
+   * Mirrors what happened on another instance into the local room and passes it on to
+   * local clients
+   */
+  private handleBackplaneMessage(payload: BackplaneMessage): void {
+    if (payload.instanceId === this.instanceId) return;
+
+    const room = this.rooms.get(payload.roomId);
+    const message = payload.message;
+    if (!room || !message || typeof message.type !== 'string') return;
+
+    const sequencer = room.sequencer === this.instanceId;
+
+    switch (message.type) {
+      case 'rosterRequest':
+        this.publish(room, null, {
+          type: 'roster',
+          data: { collaborators: Array.from(room.clients.values()).map(client => this.describeClient(client)) },
+          timestamp: Date.now()
+        });
+        return;
+
+      case 'roster':
+        (message.data?.collaborators || []).forEach((collaborator: RoomParticipant) => {
+          if (!room.clients.has(collaborator.id)) {
+            room.remoteClients.set(collaborator.id, collaborator);
+          }
+        });
+        return;
+
+      case 'presence':
+        if (message.data?.action === 'join') {
+          room.remoteClients.set(message.userId, {
+            id: message.userId,
+            name: message.data.name,
+            ...(message.data.avatar ? { avatar: message.data.avatar } : {}),
+            color: message.data.color,
+            lastSeen: Date.now()
+          });
+        } else if (message.data?.action === 'leave') {
+          room.remoteClients.delete(message.userId);
+        }
+        break;
+
+      case 'lock':
+        room.locks.set(message.data.element, message.userId);
+        break;
+
+      case 'unlock':
+        if (room.locks.get(message.data.element) === message.userId) {
+          room.locks.delete(message.data.element);
+        }
+        break;
+
+      case 'submit':
+        if (sequencer) {
+          this.handleSubmission(room, message);
+        }
+        return;
+
+      case 'stateRequest':
+        if (sequencer) {
+          this.publish(room, null, {
+            type: 'state',
+            data: { epoch: room.epoch, version: room.version, state: room.state },
+            timestamp: Date.now()
+          });
+        }
+        return;
+
+      case 'state':
+        if (!sequencer && room.awaitingState) {
+          this.adoptState(room, message.data);
+        }
+        return;
+
+      case 'sequencerLeft':
+        this.claimSequencer(room).catch(error => {
+          console.error(`Failed to take over room ${room.id}:`, error);
+        });
+        return;
+
+      case 'edit':
+        if (!sequencer && this.acceptSequenced(room, message.data?.version)) {
+          this.applyRemoteEdit(room, message);
+        }
+        return;
+
+      case 'op':
+        if (!sequencer && this.acceptSequenced(room, message.data?.version)) {
+          this.applyRemoteOperation(room, message);
+        }
+        return;
+
+      case 'ack':
+      case 'reject': {
+        // Answers to changes this instance submitted for its clients
+        const client = room.clients.get(message.userId);
+        const document = room.documents.get(message.data?.sight);
+        if (!client || !document?.subscribers.has(client.id) || client.ws.readyState !== WebSocket.OPEN) return;
+
+        if (message.type === 'ack') {
+          client.ws.send(JSON.stringify(message));
+          return;
+        }
+
+        // Both instances created the document from their own client's value
+        const { text, revision } = message.data;
+        if (typeof text === 'string' && text !== document.text && Number.isInteger(revision) && revision >= document.revision) {
+          Object.assign(document, { text, revision, base: revision, operations: [] });
+        }
+        this.sendDocument(client, document, !!message.data.reset);
+        return;
+      }
+    }
+
+    this.deliverLocally(room, payload.exclude, JSON.stringify(message));
+  }
+
+  /**
+   * Whether a change from the sequencer is the next one. Changes already applied are skipped,
+   * and a gap means messages were missed, so the whole state is fetched again.
+   */
+  private acceptSequenced(room: Room, version: any): boolean {
+    if (room.awaitingState || !Number.isInteger(version) || version <= room.version) {
+      return false;
+    }
+    if (version !== room.version + 1) {
+      this.requestState(room);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Catches up with the sequencer. Open documents start over from the new state and
+   * clients are sent what changed.
+   */
+  private adoptState(room: Room, data: any): void {
+    if (!data || typeof data.epoch !== 'string' || !Number.isInteger(data.version) || !data.state || typeof data.state !== 'object') {
+      return;
+    }
+
+    const syncPoint: SyncPoint = { since: room.version, epoch: room.epoch };
+    room.awaitingState = false;
+    room.epoch = data.epoch;
+    room.version = data.version;
+    room.state = data.state;
+    this.schedulePersist(room);
+
+    room.documents.forEach(document => {
+      const entry = room.state[document.sight];
+      if (typeof entry?.value === 'string') {
+        document.text = entry.value;
+      }
+      document.revision = entry?.version || 0;
+      document.base = document.revision;
+      document.operations = [];
+    });
+
+    room.clients.forEach(client => {
+      this.sendSync(client, room, syncPoint);
+      room.documents.forEach(document => {
+        if (document.subscribers.has(client.id)) {
+          this.sendDocument(client, document);
+        }
+      });
+    });
+  }
+
+  /**
+   * Orders a change a client of another instance made
+   */
+  private handleSubmission(room: Room, message: any): void {
+    const { kind, change, origin, ipAddress } = message.data || {};
+    const author: Author = { id: message.userId, origin, ipAddress };
+    if (typeof author.id !== 'string' || !change || typeof change.sight !== 'string') return;
+
+    // Locks could have changed while the change was on its way
+    const lockOwner = room.locks.get(change.sight);
+    const locked = !!lockOwner && lockOwner !== author.id;
+
+    if (kind === 'edit') {
+      if (!locked) {
+        this.applyEdit(author, room, change);
+      }
+      return;
+    }
+
+    if (kind !== 'op') return;
+
+    let document = room.documents.get(change.sight);
+    if (!document) {
+      // Nobody has it open here. The submitting instance sends its text when the room has none.
+      const state = room.state[change.sight];
+      const revision = state?.version || 0;
+      document = {
+        sight: change.sight,
+        type: change.type,
+        text: typeof state?.value === 'string' ? state.value : typeof change.text === 'string' ? change.text : '',
+        revision,
+        base: revision,
+        operations: [],
+        subscribers: new Set()
+      };
+      room.documents.set(document.sight, document);
+    }
+
+    const operation = locked ? null : this.rebase(document, change.revision, change.operation);
+    if (!operation) {
+      this.publish(room, null, {
+        type: 'reject',
+        userId: author.id,
+        data: { sight: document.sight, text: document.text, revision: document.revision, ...(locked ? { reset: true } : {}) },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    this.applyTextOperation(author, room, document, operation);
+  }
+
+  /**
+   * Takes an edit the sequencer ordered. Local clients with the field open as a text
+   * document get it as an operation, everyone else as the edit itself.
+   */
+  private applyRemoteEdit(room: Room, message: any): void {
+    const { sight, value, type, version } = message.data || {};
+    if (typeof sight !== 'string') return;
+
+    room.version = version;
+    room.state[sight] = {
+      value,
+      type,
+      version,
+      lastEditBy: message.userId,
+      lastEditAt: message.timestamp || Date.now()
+    };
+    this.schedulePersist(room);
+
+    const document = room.documents.get(sight);
+    if (!document || typeof value !== 'string') {
+      this.deliverLocally(room, undefined, JSON.stringify(message));
+      return;
+    }
+
+    const operation = diffToOperation(document.text, value);
+    this.recordOperation(document, version, operation);
+    this.deliverTextChange(room, sight, document, message.userId, operation, message.timestamp || Date.now());
+  }
+
+  /**
+   * Takes a text operation the sequencer ordered. It comes with the resulting text, which
+   * wins if the local copy does not match.
+   */
+  private applyRemoteOperation(room: Room, message: any): void {
+    const { sight, type, version, operation, value } = message.data || {};
+    if (typeof sight !== 'string' || typeof value !== 'string' || !isTextOperation(operation)) return;
+
+    room.version = version;
+    room.state[sight] = {
+      value,
+      type,
+      version,
+      lastEditBy: message.userId,
+      lastEditAt: message.timestamp || Date.now()
+    };
+    this.schedulePersist(room);
+
+    const document = room.documents.get(sight);
+    if (document) {
+      let text: string | null = null;
+      try {
+        text = applyOperation(document.text, operation);
+      } catch {
+        // Checked against the value below
+      }
+
+      if (text === value) {
+        this.recordOperation(document, version, operation);
+      } else {
+        Object.assign(document, { text: value, revision: version, base: version, operations: [] });
+        room.clients.forEach(client => {
+          if (document.subscribers.has(client.id)) {
+            this.sendDocument(client, document);
+          }
+        });
+        return;
+      }
+    }
+
+    this.deliverTextChange(room, sight, document, message.userId, operation, message.timestamp || Date.now());
+  }
+
+  private deliverLocally(room: Room, excludeId: string | undefined, messageStr: string): void {
+    room.clients.forEach(client => {
+      if (client.id !== excludeId && client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(messageStr);
+      }
+    });
+  }
+
+  private describeClient(client: Client): RoomParticipant {
+    return {
+      id: client.id,
+      name: client.userName,
+      ...(client.userAvatar ? { avatar: client.userAvatar } : {}),
+      color: client.color,
+      lastSeen: Date.now()
+    };
+  }
+
+  private toSnapshot(room: Room): RoomSnapshot {
+    return {
+      id: room.id,
+      epoch: room.epoch,
+      version: room.version,
+      state: room.state,
+      locks: Object.fromEntries(room.locks),
+      participants: Array.from(room.participants.values()),
+      documents: Array.from(room.documents.values()).map(({ subscribers, ...document }) => document),
+      createdAt: room.createdAt.getTime(),
+      lastActivity: room.lastActivity.getTime()
+    };
+  }
+
+  /**
+   * Writes the room to the store after a short quiet period
+   */
+  private schedulePersist(room: Room): void {
+    if (this.persistTimers.has(room.id)) return;
+
+    this.persistTimers.set(room.id, setTimeout(() => {
+      this.persistRoom(room).catch(() => undefined);
+    }, this.config.persistDelay));
+  }
+
+  private async persistRoom(room: Room): Promise<void> {
+    const timer = this.persistTimers.get(room.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.persistTimers.delete(room.id);
+    }
+
+    try {
+      await this.config.store.save(this.toSnapshot(room));
+    } catch (error) {
+      console.error(`Failed to persist room ${room.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Persists the room and drops it from memory; it is restored when someone joins again
+   */
+  private unloadRoom(room: Room): void {
+    this.rooms.delete(room.id);
+
+    const unloading = Promise.all([
+      this.persistRoom(room).catch(() => undefined),
+      this.releaseSequencer(room)
+        .then(() => this.config.backplane?.unsubscribe(room.id))
+        .catch(error => {
+          console.error(`Failed to leave backplane for room ${room.id}:`, error);
+        })
+    ]).then(() => {
+      if (this.roomUnloads.get(room.id) === unloading) {
+        this.roomUnloads.delete(room.id);
+      }
+    });
+    this.roomUnloads.set(room.id, unloading);
+  }
+
+  private touchParticipant(room: Room, client: Client): void {
+    room.participants.set(client.id, this.describeClient(client));
+    this.schedulePersist(room);
+  }
+
+  private parseSyncPoint(data: { since?: any; epoch?: any }): SyncPoint | undefined {
+    const since = typeof data.since === 'string' ? Number(data.since) : data.since;
+    if (!Number.isInteger(since) || since < 0 || typeof data.epoch !== 'string' || !/^[a-f0-9]{1,64}$/.test(data.epoch)) {
+      return undefined;
+    }
+    return { since, epoch: data.epoch };
   }
 
   /**
@@ -375,7 +991,7 @@ export class CollaborationServer extends EventEmitter {
     }
     
     // Validate allowed message types
-    const allowedTypes = ['ping', 'cursor', 'selection', 'edit', 'presence', 'sync', 'lock', 'unlock'];
+    const allowedTypes = ['ping', 'cursor', 'selection', 'edit', 'presence', 'sync', 'lock', 'unlock', 'open', 'close', 'op', 'comment'];
     if (!allowedTypes.includes(message.type)) {
       return false;
     }
@@ -384,9 +1000,60 @@ export class CollaborationServer extends EventEmitter {
     if (message.type === 'edit') {
       return this.validateEditMessage(message.data);
     }
+
+    if (message.type === 'open' || message.type === 'close' || message.type === 'op') {
+      return this.validateTextMessage(message.type, message.data);
+    }
+
+    if (message.type === 'comment') {
+      return this.validateCommentMessage(message.data);
+    }
     
     return true;
   }
+
+  /**
+   * Validates comment notifications. They only name the thread that changed;
+   * clients load the thread itself from the comments API.
+   */
+  private validateCommentMessage(data: any): boolean {
+    if (!data || typeof data !== 'object') {
+      return false;
+    }
+
+    if (!COMMENT_ACTIONS.includes(data.action)) {
+      return false;
+    }
+
+    if (typeof data.thread !== 'string' || !/^[a-z0-9]{8,40}$/.test(data.thread)) {
+      return false;
+    }
+
+    return typeof data.sight === 'string' && /^[a-zA-Z0-9_.-]+$/.test(data.sight);
+  }
+
+  /**
+   * Validates open/close/op messages for text documents
+   */
+  private validateTextMessage(type: string, data: any): boolean {
+    if (!data || typeof data !== 'object') {
+      return false;
+    }
+
+    if (!data.sight || typeof data.sight !== 'string' || !/^[a-zA-Z0-9_.-]+$/.test(data.sight)) {
+      return false;
+    }
+
+    if (type === 'open') {
+      return TEXT_TYPES.includes(data.type) && typeof data.value === 'string';
+    }
+
+    if (type === 'op') {
+      return Number.isInteger(data.revision) && data.revision >= 0 && isTextOperation(data.operation);
+    }
+
+    return true;
+  }
   
   /**
    * Validates edit message data
@@ -449,15 +1116,41 @@ export class CollaborationServer extends EventEmitter {
           break;
 
         case 'sync':
-          this.sendSync(client, room);
+          this.sendSync(client, room, this.parseSyncPoint(message.data || {}));
           break;
 
         case 'lock':
-          this.handleLockRequest(client, room, message);
+          this.handleLockRequest(client, room, message).catch(error => {
+            console.error(`Lock request failed for user ${client.id}:`, error);
+          });
           break;
 
         case 'unlock':
-          this.handleUnlockRequest(client, room, message);
+          this.handleUnlockRequest(client, room, message).catch(error => {
+            console.error(`Unlock request failed for user ${client.id}:`, error);
+          });
+          break;
+
+        case 'open':
+          this.handleOpenDocument(client, room, message);
+          break;
+
+        case 'close':
+          this.handleCloseDocument(client, room, message);
+          break;
+
+        case 'op':
+          if (this.canUserEdit(client, message.data.sight)) {
+            this.handleTextOperation(client, room, message);
+          } else {
+            console.warn(`Operation denied for user ${client.id} on element ${message.data.sight}`);
+            // Someone else holds the lock, so the client drops its unconfirmed changes
+            this.sendDocument(client, room.documents.get(message.data.sight), true);
+          }
+          break;
+
+        case 'comment':
+          this.handleCommentNotification(client, room, message);
           break;
 
         default:
@@ -478,6 +1171,20 @@ export class CollaborationServer extends EventEmitter {
     this.broadcastToRoom(room, client, message);
   }
 
+  private handleCommentNotification(client: Client, room: Room, message: any): void {
+    // Rebuilt from the validated fields so clients can't pass anything else along
+    this.broadcastToRoom(room, client, {
+      type: 'comment',
+      userId: client.id,
+      data: {
+        action: message.data.action,
+        thread: message.data.thread,
+        sight: message.data.sight
+      },
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * Checks if user can edit a specific element
    */
@@ -498,37 +1205,287 @@ export class CollaborationServer extends EventEmitter {
       console.warn(`Invalid edit data from client ${client.id}`);
       return;
     }
-    
+
+    if (!this.isSequencer(room)) {
+      this.submit(room, client, 'edit', message.data);
+      return;
+    }
+
+    this.applyEdit(client, room, message.data);
+  }
+
+  private applyEdit(author: Author, room: Room, data: any): void {
+    // Text fields being edited character by character take whole values as an operation
+    const document = room.documents.get(data.sight);
+    if (document && typeof data.value === 'string') {
+      this.applyTextOperation(author, room, document, diffToOperation(document.text, data.value));
+      return;
+    }
+
     // Update room version
     room.version++;
-    message.data.version = room.version;
 
     // Store state update with security metadata
-    if (message.data.sight) {
-      if (!room.state[message.data.sight]) {
-        room.state[message.data.sight] = {};
+    room.state[data.sight] = {
+      value: data.value,
+      type: data.type,
+      version: room.version,
+      lastEditBy: author.id,
+      lastEditAt: Date.now(),
+      clientOrigin: author.origin,
+      clientIP: author.ipAddress
+    };
+
+    this.schedulePersist(room);
+
+    // Broadcast edit to all clients including sender (for version sync)
+    this.broadcastToRoom(room, null, {
+      type: 'edit',
+      userId: author.id,
+      data: { ...data, version: room.version },
+      timestamp: Date.now()
+    });
+
+    this.emit('editOperation', {
+      roomId: room.id,
+      userId: author.id,
+      operation: { ...data, version: room.version }
+    });
+  }
+
+  /**
+   * Subscribes the client to a text document, creating it from the room state, or the
+   * client's value if the room has none
+   */
+  private handleOpenDocument(client: Client, room: Room, message: any): void {
+    const { sight, type, value } = message.data;
+    let document = room.documents.get(sight);
+
+    if (!document) {
+      const state = room.state[sight];
+      const revision = state?.version || 0;
+      document = {
+        sight,
+        type,
+        text: typeof state?.value === 'string' ? state.value : value,
+        revision,
+        base: revision,
+        operations: [],
+        subscribers: new Set()
+      };
+      room.documents.set(sight, document);
+    }
+
+    document.subscribers.add(client.id);
+    this.sendDocument(client, document);
+  }
+
+  private handleCloseDocument(client: Client, room: Room, message: any): void {
+    const document = room.documents.get(message.data.sight);
+    if (!document) return;
+
+    document.subscribers.delete(client.id);
+    if (document.subscribers.size === 0) {
+      // The text lives on in the room state
+      room.documents.delete(document.sight);
+    }
+  }
+
+  private handleTextOperation(client: Client, room: Room, message: any): void {
+    const { sight, revision } = message.data;
+    const document = room.documents.get(sight);
+
+    if (!document || !document.subscribers.has(client.id)) {
+      client.ws.send(JSON.stringify({
+        type: 'error',
+        userId: client.id,
+        data: { sight, error: 'Document is not open' },
+        timestamp: Date.now()
+      }));
+      return;
+    }
+
+    if (!this.isSequencer(room)) {
+      this.submit(room, client, 'op', {
+        sight,
+        type: document.type,
+        revision,
+        operation: message.data.operation,
+        // The sequencer may not know the text yet if nobody edited the field before
+        ...(typeof room.state[sight]?.value === 'string' ? {} : { text: document.text })
+      });
+      return;
+    }
+
+    const operation = this.rebase(document, revision, message.data.operation);
+    if (!operation) {
+      // Too old to transform, the client rebases on the current text instead
+      this.sendDocument(client, document);
+      return;
+    }
+
+    this.applyTextOperation(client, room, document, operation);
+  }
+
+  /**
+   * Transforms an operation written against `revision` over everything applied since.
+   * Returns null when that history is no longer kept or the operation doesn't fit.
+   */
+  private rebase(document: TextDocument, revision: any, operation: TextOperation): TextOperation | null {
+    if (!Number.isInteger(revision) || revision < document.base || revision > document.revision) {
+      return null;
+    }
+
+    try {
+      for (const applied of document.operations) {
+        if (applied.revision > revision) {
+          operation = transformOperations(operation, applied.operation)[0];
+        }
       }
-      room.state[message.data.sight] = {
-        value: message.data.value,
-        type: message.data.type,
-        version: room.version,
-        lastEditBy: client.id,
-        lastEditAt: Date.now(),
-        clientOrigin: client.origin,
-        clientIP: client.ipAddress
+    } catch {
+      return null;
+    }
+
+    return baseLength(operation) === document.text.length ? operation : null;
+  }
+
+  private applyTextOperation(author: Author, room: Room, document: TextDocument, operation: TextOperation): void {
+    const timestamp = Date.now();
+
+    if (isNoop(operation)) {
+      // Nothing changes, but the author still waits for its operation to be confirmed
+      const ack = {
+        type: 'ack',
+        userId: author.id,
+        data: { sight: document.sight, revision: document.revision, version: room.version },
+        timestamp
       };
+      const client = room.clients.get(author.id);
+      if (!client) {
+        this.publish(room, null, ack);
+      } else if (document.subscribers.has(client.id) && client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(JSON.stringify(ack));
+      }
+      return;
     }
 
-    // Broadcast edit to all clients including sender (for version sync)
-    this.broadcastToRoom(room, null, message);
+    room.version++;
+    this.recordOperation(document, room.version, operation);
+    room.state[document.sight] = {
+      value: document.text,
+      type: document.type,
+      version: room.version,
+      lastEditBy: author.id,
+      lastEditAt: timestamp,
+      clientOrigin: author.origin,
+      clientIP: author.ipAddress
+    };
+    this.schedulePersist(room);
 
-    this.emit('editOperation', {
+    this.deliverTextChange(room, document.sight, document, author.id, operation, timestamp);
+
+    // Other instances apply the operation in the same order, the text tells them if they drifted
+    this.publish(room, null, {
+      type: 'op',
+      userId: author.id,
+      data: {
+        sight: document.sight,
+        type: document.type,
+        revision: document.revision,
+        version: room.version,
+        operation,
+        value: document.text
+      },
+      timestamp
+    });
+
+    this.emit('textOperation', {
       roomId: room.id,
-      userId: client.id,
-      operation: message.data
+      userId: author.id,
+      sight: document.sight,
+      revision: document.revision,
+      operation
+    });
+  }
+
+  private recordOperation(document: TextDocument, revision: number, operation: TextOperation): void {
+    if (isNoop(operation)) return;
+
+    document.text = applyOperation(document.text, operation);
+    document.revision = revision;
+    document.operations.push({ revision, operation });
+    if (document.operations.length > this.config.maxOperationHistory) {
+      document.base = document.operations.shift()!.revision;
+    }
+  }
+
+  /**
+   * Passes a change to a text field on to local clients: the author gets an ack, others
+   * with the document open the operation and everyone else the new value
+   */
+  private deliverTextChange(
+    room: Room,
+    sight: string,
+    document: TextDocument | undefined,
+    userId: string,
+    operation: TextOperation,
+    timestamp: number
+  ): void {
+    const entry = room.state[sight];
+    const revision = document ? document.revision : entry.version;
+
+    const ackStr = JSON.stringify({
+      type: 'ack',
+      userId,
+      data: { sight, revision, version: room.version },
+      timestamp
+    });
+    const opStr = JSON.stringify({
+      type: 'op',
+      userId,
+      data: { sight, revision, version: room.version, operation },
+      timestamp
+    });
+    const editStr = JSON.stringify({
+      type: 'edit',
+      userId,
+      data: { sight, value: entry.value, type: entry.type, version: entry.version },
+      timestamp
+    });
+
+    room.clients.forEach(member => {
+      if (member.ws.readyState !== WebSocket.OPEN) return;
+      if (!document?.subscribers.has(member.id)) {
+        member.ws.send(editStr);
+      } else if (member.id === userId) {
+        member.ws.send(ackStr);
+      } else if (!isNoop(operation)) {
+        member.ws.send(opStr);
+      }
     });
   }
 
+  /**
+   * Sends the current text. The client rebases its unconfirmed changes onto it,
+   * or drops them when `reset` is set.
+   */
+  private sendDocument(client: Client, document: TextDocument | undefined, reset = false): void {
+    if (!document || client.ws.readyState !== WebSocket.OPEN) return;
+
+    client.ws.send(JSON.stringify({
+      type: 'document',
+      userId: client.id,
+      data: {
+        sight: document.sight,
+        type: document.type,
+        text: document.text,
+        revision: document.revision,
+        ...(reset ? { reset: true } : {})
+      },
+      timestamp: Date.now()
+    }));
+  }
+
   private handlePresenceUpdate(client: Client, room: Room, message: any): void {
     // Update client info
     if (message.data.name) {
@@ -537,30 +1494,37 @@ export class CollaborationServer extends EventEmitter {
     if (message.data.avatar) {
       client.userAvatar = message.data.avatar;
     }
+    this.touchParticipant(room, client);
 
     // Broadcast to others
     this.broadcastToRoom(room, client, message);
   }
 
-  private handleLockRequest(client: Client, room: Room, message: any): void {
+  private async handleLockRequest(client: Client, room: Room, message: any): Promise<void> {
     const element = message.data.element;
     
-    // Check if element is already locked
-    if (room.locks.has(element)) {
-      const owner = room.locks.get(element);
+    // Check if element is already locked, here or on another instance
+    let owner = room.locks.get(element);
+    if ((!owner || owner === client.id) && this.config.backplane) {
+      owner = await this.config.backplane.acquireLock(room.id, element, client.id, this.config.lockTtl);
       if (owner !== client.id) {
-        // Send lock denied
-        client.ws.send(JSON.stringify({
-          type: 'lockDenied',
-          data: { element, owner },
-          timestamp: Date.now()
-        }));
-        return;
+        room.locks.set(element, owner);
       }
     }
 
+    if (owner && owner !== client.id) {
+      // Send lock denied
+      client.ws.send(JSON.stringify({
+        type: 'lockDenied',
+        data: { element, owner },
+        timestamp: Date.now()
+      }));
+      return;
+    }
+
     // Grant lock
     room.locks.set(element, client.id);
+    this.schedulePersist(room);
     
     // Broadcast lock to all clients
     this.broadcastToRoom(room, null, {
@@ -577,12 +1541,14 @@ export class CollaborationServer extends EventEmitter {
     });
   }
 
-  private handleUnlockRequest(client: Client, room: Room, message: any): void {
+  private async handleUnlockRequest(client: Client, room: Room, message: any): Promise<void> {
     const element = message.data.element;
     
     // Check if client owns the lock
     if (room.locks.get(element) === client.id) {
+      await this.config.backplane?.releaseLock(room.id, element, client.id);
       room.locks.delete(element);
+      this.schedulePersist(room);
       
       // Broadcast unlock to all clients
       this.broadcastToRoom(room, null, {
@@ -601,11 +1567,21 @@ export class CollaborationServer extends EventEmitter {
   }
 
   private handleDisconnect(client: Client): void {
+    // On shutdown, locks and presence are kept for when clients reconnect to the next process
+    if (this.closing) return;
+
     const room = this.rooms.get(client.roomId);
     
     if (room) {
       // Remove client from room
       room.clients.delete(client.id);
+
+      // Documents restored from the store stay until their clients reopen them or the room empties
+      room.documents.forEach(document => {
+        if (document.subscribers.delete(client.id) && document.subscribers.size === 0) {
+          room.documents.delete(document.sight);
+        }
+      });
       
       // Release all locks held by this client
       const locksToRelease: string[] = [];
@@ -617,6 +1593,7 @@ export class CollaborationServer extends EventEmitter {
       
       locksToRelease.forEach(element => {
         room.locks.delete(element);
+        this.releaseSharedLock(room, element, client.id);
         this.broadcastToRoom(room, null, {
           type: 'unlock',
           userId: client.id,
@@ -633,9 +1610,12 @@ export class CollaborationServer extends EventEmitter {
         timestamp: Date.now()
       });
       
-      // Clean up empty room
+      this.touchParticipant(room, client);
+
+      // Empty rooms are kept in the store until someone joins again
       if (room.clients.size === 0) {
-        this.rooms.delete(client.roomId);
+        room.documents.clear();
+        this.unloadRoom(room);
       }
     }
     
@@ -648,7 +1628,11 @@ export class CollaborationServer extends EventEmitter {
     });
   }
 
-  private sendSync(client: Client, room: Room): void {
+  /**
+   * Sends collaborators, locks and content. A client that knows an earlier version of
+   * the same room only gets the sights changed since then.
+   */
+  private sendSync(client: Client, room: Room, syncPoint?: SyncPoint): void {
     const collaborators = Array.from(room.clients.values())
       .filter(c => c.id !== client.id)
       .map(c => ({
@@ -657,32 +1641,77 @@ export class CollaborationServer extends EventEmitter {
         color: c.color,
         avatar: c.userAvatar
       }));
+    room.remoteClients.forEach(remote => {
+      collaborators.push({ id: remote.id, name: remote.name, color: remote.color, avatar: remote.avatar });
+    });
 
     const locks: Record<string, string> = {};
     room.locks.forEach((userId, element) => {
       locks[element] = userId;
     });
 
+    const incremental = !!syncPoint && syncPoint.epoch === room.epoch && syncPoint.since <= room.version;
+    const content = incremental
+      ? { since: syncPoint!.since, changes: this.changesSince(room, syncPoint!.since) }
+      : { state: room.state };
+
     client.ws.send(JSON.stringify({
       type: 'sync',
+      userId: client.id,
       data: {
         collaborators,
         locks,
         version: room.version,
-        state: room.state
+        epoch: room.epoch,
+        ...content
       },
       timestamp: Date.now()
     }));
   }
 
+  /**
+   * Latest value of every sight written after `since`, oldest first, in the shape of edit messages
+   */
+  private changesSince(room: Room, since: number): any[] {
+    return Object.entries<any>(room.state)
+      .filter(([, entry]) => entry && entry.version > since)
+      .sort(([, a], [, b]) => a.version - b.version)
+      .map(([sight, entry]) => ({
+        sight,
+        value: entry.value,
+        type: entry.type,
+        version: entry.version,
+        userId: entry.lastEditBy
+      }));
+  }
+
   private broadcastToRoom(room: Room, exclude: Client | null, message: any): void {
-    const messageStr = JSON.stringify(message);
-    
-    room.clients.forEach(client => {
-      if ((!exclude || client.id !== exclude.id) && 
-          client.ws.readyState === WebSocket.OPEN) {
-        client.ws.send(messageStr);
-      }
+    this.deliverLocally(room, exclude?.id, JSON.stringify(message));
+    this.publish(room, exclude, message);
+  }
+
+  private releaseSharedLock(room: Room, element: string, userId: string): void {
+    this.config.backplane?.releaseLock(room.id, element, userId).catch(error => {
+      console.error(`Failed to release lock ${element} in room ${room.id}:`, error);
+    });
+  }
+
+  /**
+   * Extends the shared locks of connected owners before they expire, and the sequencer's
+   */
+  private renewLocks(room: Room): void {
+    const backplane = this.config.backplane;
+    if (!backplane) return;
+
+    this.claimSequencer(room).catch(error => {
+      console.error(`Failed to renew sequencer of room ${room.id}:`, error);
+    });
+
+    room.locks.forEach((userId, element) => {
+      if (!room.clients.has(userId)) return;
+      backplane.acquireLock(room.id, element, userId, this.config.lockTtl).catch(error => {
+        console.error(`Failed to renew lock ${element} in room ${room.id}:`, error);
+      });
     });
   }
 
@@ -710,9 +1739,12 @@ export class CollaborationServer extends EventEmitter {
       const roomAge = now.getTime() - room.createdAt.getTime();
       const roomInactive = now.getTime() - room.lastActivity.getTime();
       
-      if (room.clients.size === 0 || roomAge > this.config.roomTimeout || roomInactive > clientTimeout) {
-        this.rooms.delete(roomId);
-        console.log(`Removed room: ${roomId} (empty: ${room.clients.size === 0}, age: ${roomAge}, inactive: ${roomInactive})`);
+      if (room.clients.size === 0 || roomInactive > clientTimeout) {
+        this.unloadRoom(room);
+        console.log(`Unloaded room: ${roomId} (empty: ${room.clients.size === 0}, age: ${roomAge}, inactive: ${roomInactive})`);
+      } else {
+        this.releaseAbandonedLocks(room, clientTimeout);
+        this.renewLocks(room);
       }
     });
     
@@ -724,6 +1756,26 @@ export class CollaborationServer extends EventEmitter {
     });
   }
 
+  /**
+   * Locks restored from the store whose owner never came back
+   */
+  private releaseAbandonedLocks(room: Room, timeout: number): void {
+    room.locks.forEach((userId, element) => {
+      const lastSeen = room.participants.get(userId)?.lastSeen || 0;
+      if (room.clients.has(userId) || room.remoteClients.has(userId) || Date.now() - lastSeen <= timeout) return;
+
+      room.locks.delete(element);
+      this.releaseSharedLock(room, element, userId);
+      this.schedulePersist(room);
+      this.broadcastToRoom(room, null, {
+        type: 'unlock',
+        userId,
+        data: { element },
+        timestamp: Date.now()
+      });
+    });
+  }
+
   private generateUserColor(userId: string): string {
     const colors = [
       '#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8',
@@ -741,19 +1793,34 @@ export class CollaborationServer extends EventEmitter {
 
   public getStats(): any {
     return {
+      instanceId: this.instanceId,
       rooms: this.rooms.size,
       clients: this.clients.size,
       roomDetails: Array.from(this.rooms.entries()).map(([id, room]) => ({
         id,
         clients: room.clients.size,
+        remoteClients: room.remoteClients.size,
         locks: room.locks.size,
+        documents: room.documents.size,
         version: room.version
       }))
     };
   }
 
-  public close(): void {
+  public async close(): Promise<void> {
+    this.closing = true;
     clearInterval(this.cleanupInterval);
+
+    // Write pending room changes before the process goes away
+    await Promise.all([
+      ...Array.from(this.rooms.values()).map(room => this.persistRoom(room).catch(() => undefined)),
+      ...Array.from(this.roomUnloads.values())
+    ]);
+
+    // Another instance takes over ordering the rooms' changes
+    await Promise.all(Array.from(this.rooms.values()).map(room => this.releaseSequencer(room).catch(error => {
+      console.error(`Failed to hand over room ${room.id}:`, error);
+    })));
     
     // Close all connections
     this.clients.forEach(client => {
@@ -761,5 +1828,6 @@ export class CollaborationServer extends EventEmitter {
     });
     
     this.wss.close();
+    await this.config.backplane?.close();
   }
 }
\ No newline at end of file
@@ -0,0 +1,253 @@
+import * as crypto from 'crypto';
+import { StorageAdapter, RevisionAuthor } from './index';
+
+const COMMENT_PREFIX = '_comment:';
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+export interface CommentUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Users that can be mentioned, usually backed by the auth system
+ */
+export interface CommentUserDirectory {
+  search(query: string, limit: number): Promise<CommentUser[]>;
+  get(ids: string[]): Promise<CommentUser[]>; // Unknown ids are left out
+}
+
+export interface CommentOptions {
+  users?: CommentUserDirectory; // Without one, mentions are dropped
+  onMention?: (mentioned: CommentUser[], thread: CommentThread, comment: ThreadComment) => void | Promise<void>;
+  maxLength?: number; // Characters per comment (default 5000)
+}
+
+/**
+ * Character offsets into the plain text of a rich text field. The quote is the text
+ * that was selected, so clients can tell when the anchor no longer matches.
+ */
+export interface CommentRange {
+  start: number;
+  end: number;
+  quote: string;
+}
+
+export interface ThreadComment {
+  id: string;
+  author?: RevisionAuthor;
+  body: string;
+  mentions: CommentUser[];
+  createdAt: string;
+}
+
+export interface CommentThread {
+  id: string;
+  key: string; // Content key the thread is anchored to
+  sight: string;
+  recordId?: string;
+  locale?: string;
+  range?: CommentRange;
+  page?: string;
+  status: 'open' | 'resolved';
+  comments: ThreadComment[]; // Oldest first; the first one starts the thread
+  createdAt: string;
+  createdBy?: RevisionAuthor;
+  updatedAt: string;
+  resolvedAt?: string;
+  resolvedBy?: RevisionAuthor;
+}
+
+export interface NewCommentThread {
+  key: string;
+  sight: string;
+  recordId?: string;
+  locale?: string;
+  range?: CommentRange;
+  page?: string;
+  body: string;
+  mentions: CommentUser[];
+  author?: RevisionAuthor;
+}
+
+export interface CommentQuery {
+  sight?: string;
+  recordId?: string;
+  page?: string;
+  status?: CommentThread['status'];
+}
+
+export const DEFAULT_COMMENT_LENGTH = 5000;
+
+function threadKey(id: string): string {
+  return `${COMMENT_PREFIX}${id}`;
+}
+
+export function generateCommentId(): string {
+  return `${Date.now().toString(36)}${crypto.randomBytes(6).toString('hex')}`;
+}
+
+export function isValidCommentId(id: string): boolean {
+  return /^[a-z0-9]{8,40}$/.test(id);
+}
+
+/**
+ * Validates a text range; returns null when it is malformed
+ */
+export function parseCommentRange(raw: unknown): CommentRange | null {
+  const range = raw as CommentRange;
+  if (!range || typeof range !== 'object') {
+    return null;
+  }
+  if (!Number.isInteger(range.start) || !Number.isInteger(range.end) || range.start < 0 || range.end <= range.start) {
+    return null;
+  }
+  if (typeof range.quote !== 'string' || range.quote.length > 1000) {
+    return null;
+  }
+  return { start: range.start, end: range.end, quote: range.quote };
+}
+
+/**
+ * User ids mentioned in a comment. Only ids are taken from the client; names come from
+ * the user directory, which also drops ids that don't belong to anyone.
+ */
+export async function resolveMentions(raw: unknown, options: CommentOptions): Promise<CommentUser[]> {
+  if (!Array.isArray(raw) || !options.users) {
+    return [];
+  }
+  const ids = Array.from(new Set(raw.filter((id): id is string => typeof id === 'string' && id.length > 0 && id.length <= 100)));
+  if (ids.length === 0) {
+    return [];
+  }
+  return options.users.get(ids.slice(0, 20));
+}
+
+export async function getCommentThread(storage: StorageAdapter, id: string): Promise<CommentThread | null> {
+  return (await storage.get(threadKey(id))) ?? null;
+}
+
+/**
+ * Threads matching a query, oldest first
+ */
+export async function listCommentThreads(storage: StorageAdapter, query: CommentQuery = {}): Promise<CommentThread[]> {
+  const threads: CommentThread[] = [];
+  for (const key of await storage.list(COMMENT_PREFIX)) {
+    const thread: CommentThread | null = await storage.get(key);
+    if (!thread) continue;
+    if (query.sight && thread.sight !== query.sight) continue;
+    if (query.recordId && thread.recordId !== query.recordId) continue;
+    if (query.page && thread.page !== query.page) continue;
+    if (query.status && thread.status !== query.status) continue;
+    threads.push(thread);
+  }
+  return threads.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+}
+
+export async function createCommentThread(storage: StorageAdapter, input: NewCommentThread): Promise<CommentThread> {
+  const now = new Date().toISOString();
+  const thread: CommentThread = {
+    id: generateCommentId(),
+    key: input.key,
+    sight: input.sight,
+    ...(input.recordId ? { recordId: input.recordId } : {}),
+    ...(input.locale ? { locale: input.locale } : {}),
+    ...(input.range ? { range: input.range } : {}),
+    ...(input.page ? { page: input.page } : {}),
+    status: 'open',
+    comments: [createComment(input.body, input.mentions, input.author, now)],
+    createdAt: now,
+    ...(input.author ? { createdBy: input.author } : {}),
+    updatedAt: now
+  };
+  await storage.set(threadKey(thread.id), thread);
+  return thread;
+}
+
+/**
+ * Adds a reply. Replying to a resolved thread reopens it. Null when the thread is gone.
+ */
+export async function replyToCommentThread(
+  storage: StorageAdapter,
+  id: string,
+  body: string,
+  mentions: CommentUser[],
+  author?: RevisionAuthor
+): Promise<{ thread: CommentThread; comment: ThreadComment } | null> {
+  return writeThread(id, async () => {
+    const thread = await getCommentThread(storage, id);
+    if (!thread) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const comment = createComment(body, mentions, author, now);
+    const { resolvedAt, resolvedBy, ...open } = thread;
+    const updated: CommentThread = {
+      ...open,
+      status: 'open',
+      comments: [...thread.comments, comment],
+      updatedAt: now
+    };
+    await storage.set(threadKey(id), updated);
+    return { thread: updated, comment };
+  });
+}
+
+/**
+ * Null when the thread is gone. A thread that already has the status is returned unchanged.
+ */
+export async function setCommentThreadStatus(
+  storage: StorageAdapter,
+  id: string,
+  status: CommentThread['status'],
+  by?: RevisionAuthor
+): Promise<CommentThread | null> {
+  return writeThread(id, async () => {
+    const thread = await getCommentThread(storage, id);
+    if (!thread || thread.status === status) {
+      return thread;
+    }
+
+    const now = new Date().toISOString();
+    const { resolvedAt, resolvedBy, ...rest } = thread;
+    const updated: CommentThread = status === 'resolved'
+      ? { ...rest, status, updatedAt: now, resolvedAt: now, ...(by ? { resolvedBy: by } : {}) }
+      : { ...rest, status, updatedAt: now };
+    await storage.set(threadKey(id), updated);
+    return updated;
+  });
+}
+
+export async function deleteCommentThread(storage: StorageAdapter, id: string): Promise<void> {
+  await writeThread(id, () => storage.delete(threadKey(id)));
+}
+
+/**
+ * Read-modify-writes of a thread, serialized per thread so none of them works on a stale copy
+ */
+async function writeThread<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const key = threadKey(id);
+  const previous = pendingWrites.get(key) || Promise.resolve();
+  const write = previous.catch(() => undefined).then(task);
+
+  pendingWrites.set(key, write);
+  try {
+    return await write;
+  } finally {
+    if (pendingWrites.get(key) === write) {
+      pendingWrites.delete(key);
+    }
+  }
+}
+
+function createComment(body: string, mentions: CommentUser[], author: RevisionAuthor | undefined, createdAt: string): ThreadComment {
+  return {
+    id: generateCommentId(),
+    ...(author ? { author } : {}),
+    body,
+    mentions,
+    createdAt
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * Responsive images: width/format variants generated on upload, and transforms requested
+ * as `/uploads/<file>?w=&h=&fit=&format=` which are cached on disk next to the uploads.
+ * Crops are placed around the asset's focal point rather than the centre. Requested sizes
+ * snap to the breakpoints, so a file only ever has a bounded number of transforms.
+ */
+
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+export type ImageFit = 'cover' | 'contain' | 'inside' | 'outside' | 'fill';
+
+/**
+ * Point of interest as fractions of the image size, from the top left corner
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface ImageVariantOptions {
+  breakpoints?: number[]; // Widths generated for every upload
+  formats?: Array<'webp' | 'avif'>; // Generated in addition to the original format
+  quality?: number;
+  aspectRatio?: number; // Width / height; variants are cropped to it around the focal point
+  maxTransformSize?: number; // Largest width or height the transform route produces
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  filename: string;
+  url: string;
+}
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  format?: ImageFormat | 'auto'; // `auto` picks the best format the browser accepts
+  quality?: number;
+}
+
+export const DEFAULT_BREAKPOINTS = [320, 640, 960, 1280, 1920];
+
+const FITS: ImageFit[] = ['cover', 'contain', 'inside', 'outside', 'fill'];
+const FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+const EXTENSIONS: Record<ImageFormat, string> = { jpeg: 'jpg', png: 'png', webp: 'webp', avif: 'avif' };
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// Transforms are written here, prefixed with the source file's name so they can be purged with it
+const CACHE_DIR = '.cache';
+
+export function resolveVariantOptions(options: ImageVariantOptions = {}): Required<Omit<ImageVariantOptions, 'aspectRatio'>> & Pick<ImageVariantOptions, 'aspectRatio'> {
+  return {
+    breakpoints: (options.breakpoints || DEFAULT_BREAKPOINTS)
+      .filter(width => Number.isInteger(width) && width > 0)
+      .sort((a, b) => a - b),
+    formats: options.formats || ['webp'],
+    quality: options.quality || 80,
+    aspectRatio: options.aspectRatio && options.aspectRatio > 0 ? options.aspectRatio : undefined,
+    maxTransformSize: options.maxTransformSize || 4000
+  };
+}
+
+export function isFocalPoint(value: any): value is FocalPoint {
+  return !!value && typeof value === 'object' &&
+    typeof value.x === 'number' && value.x >= 0 && value.x <= 1 &&
+    typeof value.y === 'number' && value.y >= 0 && value.y <= 1;
+}
+
+/**
+ * Largest region with the target's aspect ratio that keeps the focal point as close to
+ * its centre as the image edges allow
+ */
+export function focalCrop(
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+  focal: FocalPoint = { x: 0.5, y: 0.5 }
+): { left: number; top: number; width: number; height: number } {
+  const ratio = targetWidth / targetHeight;
+  const cropWidth = Math.min(width, Math.round(height * ratio));
+  const cropHeight = Math.min(height, Math.round(width / ratio));
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    left: clamp(Math.round(focal.x * width - cropWidth / 2), width - cropWidth),
+    top: clamp(Math.round(focal.y * height - cropHeight / 2), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight
+  };
+}
+
+/**
+ * Format variants are written in; formats sharp can't re-encode (GIF, SVG...) get none
+ */
+export function toImageFormat(format: string | undefined): ImageFormat | null {
+  if (format === 'jpg') return 'jpeg';
+  return FORMATS.includes(format as ImageFormat) ? format as ImageFormat : null;
+}
+
+export function variantFilename(filename: string, width: number, format: ImageFormat): string {
+  const base = filename.slice(0, filename.length - path.extname(filename).length);
+  return `${base}-${width}w.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Writes every breakpoint narrower than the image, plus the full width in the extra formats
+ */
+export async function generateVariants(
+  buffer: Buffer,
+  filename: string,
+  uploadDir: string,
+  options: ImageVariantOptions = {},
+  focal?: FocalPoint
+): Promise<ImageVariant[]> {
+  const config = resolveVariantOptions(options);
+  const metadata = await sharp(buffer).metadata();
+  const original = toImageFormat(metadata.format);
+  if (!original || !metadata.width || !metadata.height) {
+    return [];
+  }
+
+  const widths = Array.from(new Set([...config.breakpoints.filter(width => width < metadata.width!), metadata.width]));
+  const formats = Array.from(new Set<ImageFormat>([original, ...config.formats]));
+  const variants: ImageVariant[] = [];
+
+  for (const width of widths) {
+    const height = config.aspectRatio
+      ? Math.round(width / config.aspectRatio)
+      : Math.round(width * metadata.height / metadata.width);
+
+    for (const format of formats) {
+      // The full-width original is the uploaded file itself, unless it has to be cropped
+      if (width === metadata.width && format === original && !config.aspectRatio) {
+        continue;
+      }
+
+      let pipeline = sharp(buffer);
+      if (config.aspectRatio) {
+        pipeline = pipeline
+          .extract(focalCrop(metadata.width, metadata.height, width, height, focal))
+          .resize(width, height);
+      } else {
+        pipeline = pipeline.resize(width);
+      }
+
+      const variant = variantFilename(filename, width, format);
+      await fs.writeFile(path.join(uploadDir, variant), await encode(pipeline, format, config.quality).toBuffer());
+      variants.push({ width, height, format, filename: variant, url: `/uploads/${variant}` });
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Reads transform parameters from a query string. Returns null when there are none,
+ * so the original file is served.
+ */
+export function parseTransform(query: Record<string, any>, options: ImageVariantOptions = {}): ImageTransform | { error: string } | null {
+  const { w, h, fit, format, q } = query || {};
+  if (w === undefined && h === undefined && fit === undefined && format === undefined && q === undefined) {
+    return null;
+  }
+
+  const { maxTransformSize: max, breakpoints } = resolveVariantOptions(options);
+  const dimension = (raw: unknown) => {
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    return Number.isInteger(value) && value > 0 && value <= max ? snapToBreakpoint(value, breakpoints) : NaN;
+  };
+
+  const width = dimension(w);
+  const height = dimension(h);
+  if (Number.isNaN(width) || Number.isNaN(height)) {
+    return { error: `Width and height must be whole numbers between 1 and ${max}` };
+  }
+  if (fit !== undefined && !FITS.includes(fit)) {
+    return { error: `fit must be one of ${FITS.join(', ')}` };
+  }
+  if (format !== undefined && format !== 'auto' && !toImageFormat(format)) {
+    return { error: `format must be auto or one of ${FORMATS.join(', ')}` };
+  }
+  const quality = q === undefined ? undefined : Number(q);
+  if (quality !== undefined && !(Number.isInteger(quality) && quality >= 1 && quality <= 100)) {
+    return { error: 'q must be a whole number between 1 and 100' };
+  }
+
+  return {
+    width,
+    height,
+    fit: fit || 'cover',
+    format: format === 'auto' ? 'auto' : toImageFormat(format) || undefined,
+    quality: quality === undefined ? undefined : Math.max(10, Math.round(quality / 10) * 10)
+  };
+}
+
+/**
+ * The smallest breakpoint at least as large as the size, or the largest breakpoint
+ */
+export function snapToBreakpoint(size: number, breakpoints: number[]): number {
+  if (breakpoints.length === 0) {
+    return size;
+  }
+  return breakpoints.find(breakpoint => breakpoint >= size) ?? breakpoints[breakpoints.length - 1];
+}
+
+/**
+ * Best format for an `Accept` header. AVIF is only picked when it is configured,
+ * since encoding it on the fly is slow.
+ */
+export function negotiateFormat(accept: string | undefined, original: ImageFormat, options: ImageVariantOptions = {}): ImageFormat {
+  const formats = resolveVariantOptions(options).formats;
+  if (accept?.includes('image/avif') && formats.includes('avif')) return 'avif';
+  if (accept?.includes('image/webp')) return 'webp';
+  return original;
+}
+
+/**
+ * Produces the transformed image, reusing a pre-generated variant or the disk cache
+ * when possible. `format` must already be negotiated.
+ */
+export async function transformImage(
+  uploadDir: string,
+  filename: string,
+  transform: ImageTransform & { format: ImageFormat },
+  context: { focalPoint?: FocalPoint; variants?: ImageVariant[]; quality?: number } = {}
+): Promise<string> {
+  // Plain width requests are what srcset asks for, and usually exist already
+  if (transform.width && !transform.height && !transform.quality) {
+    const variant = context.variants?.find(item => item.width === transform.width && item.format === transform.format);
+    if (variant && await exists(path.join(uploadDir, variant.filename))) {
+      return path.join(uploadDir, variant.filename);
+    }
+  }
+
+  const hash = crypto.createHash('sha1')
+    .update(JSON.stringify([transform, context.focalPoint || null]))
+    .digest('hex')
+    .slice(0, 16);
+  const cacheDir = path.join(uploadDir, CACHE_DIR);
+  const target = path.join(cacheDir, `${filename}.${hash}.${EXTENSIONS[transform.format]}`);
+  if (await exists(target)) {
+    return target;
+  }
+
+  const source = path.join(uploadDir, filename);
+  let pipeline = sharp(source);
+  const { width, height } = transform;
+
+  if (width && height && transform.fit === 'cover') {
+    const metadata = await sharp(source).metadata();
+    if (metadata.width && metadata.height) {
+      pipeline = pipeline.extract(focalCrop(metadata.width, metadata.height, width, height, context.focalPoint));
+    }
+    pipeline = pipeline.resize(width, height, { withoutEnlargement: true });
+  } else if (width || height) {
+    pipeline = pipeline.resize(width, height, { fit: transform.fit, withoutEnlargement: true });
+  }
+
+  await fs.mkdir(cacheDir, { recursive: true });
+  const temp = `${target}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(temp, await encode(pipeline, transform.format, transform.quality || context.quality || 80).toBuffer());
+  await fs.rename(temp, target);
+  return target;
+}
+
+/**
+ * Deletes cached transforms of a file, e.g. when it is deleted or its focal point moves
+ */
+export async function clearTransformCache(uploadDir: string, filename: string): Promise<void> {
+  const cacheDir = path.join(uploadDir, CACHE_DIR);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(cacheDir);
+  } catch {
+    return;
+  }
+  await Promise.all(
+    entries
+      .filter(entry => entry.startsWith(`${filename}.`))
+      .map(entry => fs.rm(path.join(cacheDir, entry), { force: true }))
+  );
+}
+
+function encode(pipeline: any, format: ImageFormat, quality: number): any {
+  switch (format) {
+    case 'jpeg':
+      return pipeline.jpeg({ quality, progressive: true, mozjpeg: true });
+    case 'png':
+      return pipeline.png({ compressionLevel: 9, adaptiveFiltering: true });
+    case 'webp':
+      return pipeline.webp({ quality });
+    case 'avif':
+      return pipeline.avif({ quality: Math.max(1, quality - 20) });
+  }
+}
+
+async function exists(filepath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filepath)).isFile();
+  } catch {
+    return false;
+  }
+}
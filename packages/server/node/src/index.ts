@@ -6,8 +6,110 @@ import compression from 'compression';
 import cookieParser from 'cookie-parser';
 import { DatabaseConfig, createDatabaseStorage } from './storage/DatabaseStorage';
 import { SecureAuthHandler, UserData, SecurityConfig, EmailConfig } from './auth/secure-auth-handler';
+import { UserStoreConfig } from './auth/user-store';
 import { SecureJWTAuth, JWTConfig } from './auth/secure-jwt';
+import { RBACSystem } from './auth/rbac-system';
 import { ServerCSRFValidation, createCSRFProtection } from './middleware/csrf-validation';
+import { DEFAULT_MAX_REVISIONS, recordRevision, listRevisions, getRevision, diffValues } from './revisions';
+import {
+  DEFAULT_ASSET_PAGE_SIZE,
+  MAX_ASSET_PAGE_SIZE,
+  assetKey,
+  isValidAssetId,
+  toMediaAsset,
+  normalizeTags,
+  listAssets,
+  searchAssets,
+  findAssetReferences
+} from './assets';
+import {
+  ImageVariantOptions,
+  IMAGE_MIME_TYPES,
+  generateVariants,
+  parseTransform,
+  negotiateFormat,
+  transformImage,
+  clearTransformCache,
+  isFocalPoint,
+  resolveVariantOptions,
+  toImageFormat
+} from './images';
+import {
+  LocaleOptions,
+  resolveLocale,
+  localizedKey,
+  splitLocalizedKey,
+  fallbackChain,
+  findMissingTranslations
+} from './locales';
+import { FieldError, SchemaValidationOptions, SchemaValidationResult, SCHEMA_PREFIX, validateWrite } from './validation';
+import {
+  MAX_SCHEMA_VERSIONS,
+  parseSchemaInput,
+  getStoredSchema,
+  listStoredSchemas,
+  listSchemaVersions,
+  writeSchema
+} from './schemas';
+import {
+  Webhook,
+  WebhookOptions,
+  WebhookEvent,
+  WebhookItem,
+  getWebhookDispatcher,
+  parseWebhookInput,
+  generateWebhookId,
+  generateWebhookSecret,
+  isValidWebhookId,
+  webhookKey,
+  getWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  getDelivery,
+  toPublicWebhook
+} from './webhooks';
+import {
+  ContentScheduler,
+  ContentSchedule,
+  ScheduleOptions,
+  ScheduleResult,
+  getContentScheduler,
+  getSchedule,
+  listSchedules,
+  parseScheduleTime,
+  isValidScheduleId
+} from './schedules';
+import {
+  CommentOptions,
+  CommentThread,
+  ThreadComment,
+  DEFAULT_COMMENT_LENGTH,
+  isValidCommentId,
+  parseCommentRange,
+  resolveMentions,
+  getCommentThread,
+  listCommentThreads,
+  createCommentThread,
+  replyToCommentThread,
+  setCommentThreadStatus,
+  deleteCommentThread
+} from './comments';
+import {
+  WorkflowOptions,
+  WorkflowAction,
+  WorkflowEvent,
+  WorkflowState,
+  APPROVED_STAGE,
+  validateWorkflowOptions,
+  workflowKey,
+  getWorkflowState,
+  currentStage,
+  stageActions,
+  availableActions,
+  applyWorkflowAction,
+  stageName
+} from './workflow';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
@@ -41,6 +143,12 @@ export interface ProductionServerConfig {
   jwt: JWTConfig;
   security: SecurityConfig;
   emailConfig?: EmailConfig;
+  userStore?: UserStoreConfig; // Where accounts and sessions live (default: memory)
+  twoFactor?: {
+    issuer?: string; // Shown in authenticator apps (default: 'SightEdit')
+    requiredRoles?: string[]; // Roles that must use two-factor authentication
+    challengeExpiry?: number; // seconds to enter the code after the password (default: 300)
+  };
   
   // CSRF Protection
   csrf: {
@@ -100,15 +208,46 @@ export interface ProductionServerConfig {
     uploadPath?: string;
   };
   
+  // Responsive variants generated for uploaded images
+  images?: ImageVariantOptions;
+  
+  // Outbound webhooks on content events, managed through /api/webhooks
+  webhooks?: boolean | WebhookOptions;
+  
+  // Publishing and expiry at a future time, managed through /api/schedule(s)
+  schedules?: boolean | ScheduleOptions;
+  
+  // Review threads on content, managed through /api/comments. Mentions resolve
+  // against the auth system's users unless `users` is given.
+  comments?: boolean | CommentOptions;
+  
+  // Review stages drafts must pass before they can be published, managed through
+  // /api/workflow. Stage roles are checked against the signed-in user's roles.
+  workflow?: WorkflowOptions;
+  
   // Request body limits
   bodyLimit?: {
     json: string;
     urlencoded: string;
   };
   
+  // Draft / publish workflow
+  drafts?: boolean;
+  
+  // Locales content can be stored in, with fallbacks for missing translations
+  locales?: LocaleOptions;
+  
+  // Revision history kept per content key (0 disables it)
+  maxRevisions?: number;
+  
+  // Saves are checked against the schema stored for their sight; this decides what
+  // happens to sights without one
+  schemaValidation?: SchemaValidationOptions;
+  
   // Hooks
   beforeSave?: (data: SaveData) => SaveData | Promise<SaveData>;
   afterSave?: (data: SaveData, result: any) => void | Promise<void>;
+  afterPublish?: (entries: PublishedEntry[], req?: Request) => void | Promise<void>; // req is unset for scheduled publishes
   onError?: (error: Error, req: Request) => void;
 }
 
@@ -119,9 +258,24 @@ export interface SightEditHandlerOptions {
   auth?: (req: Request) => boolean | Promise<boolean>;
   beforeSave?: (data: SaveData) => SaveData | Promise<SaveData>;
   afterSave?: (data: SaveData, result: any) => void | Promise<void>;
+  drafts?: boolean; // Saves write drafts that only become public once published
+  canPublish?: (req: Request) => boolean | Promise<boolean>; // Publishing and schedules are refused without it
+  canReadDrafts?: (req: Request) => boolean | Promise<boolean>; // Who may read content with ?draft=true, defaults to canPublish
+  afterPublish?: (entries: PublishedEntry[], req?: Request) => void | Promise<void>; // req is unset for scheduled publishes
+  maxRevisions?: number; // Revisions kept per content key, 0 disables history
   cors?: boolean | CorsOptions;
   rateLimit?: RateLimitOptions;
   healthCheck?: HealthCheckOptions;
+  images?: ImageVariantOptions; // Breakpoints and formats generated for uploaded images
+  locales?: LocaleOptions; // Enables per-locale content
+  webhooks?: boolean | WebhookOptions; // Outbound webhooks on content events
+  canManageWebhooks?: (req: Request) => boolean | Promise<boolean>; // The webhook API is refused without it
+  schedules?: boolean | ScheduleOptions; // Scheduled publishing and expiry, checked with canPublish
+  comments?: boolean | CommentOptions; // Review threads anchored to sights
+  canComment?: (req: Request) => boolean | Promise<boolean>;
+  workflow?: WorkflowOptions; // Review stages drafts pass before publishing; needs drafts
+  schemaValidation?: SchemaValidationOptions; // Saves are always checked against stored schemas
+  canManageSchemas?: (req: Request, action: 'write' | 'delete') => boolean | Promise<boolean>; // Schema writes and deletes are refused without it
 }
 
 export interface HealthCheckOptions {
@@ -174,6 +328,8 @@ export interface SaveData {
   type: string;
   context?: Record<string, any>;
   timestamp?: number;
+  expectedVersion?: number;
+  locale?: string; // Unset for the default locale
 }
 
 export interface BatchOperation {
@@ -181,11 +337,109 @@ export interface BatchOperation {
   data: SaveData;
 }
 
+export interface ContentEntry {
+  key: string;
+  sight: string;
+  value: any;
+  type: string;
+  id?: string;
+  context?: Record<string, any>;
+  version?: number;
+  status?: 'draft' | 'published';
+  publishedAt?: string;
+  locale?: string; // Locale the value is in, when localization is enabled
+  fallback?: boolean; // The requested locale has no translation and a fallback was served
+}
+
+export interface PublishedEntry {
+  key: string;
+  sight: string;
+  version?: number;
+  locale?: string;
+}
+
+export interface VersionConflict {
+  sight: string;
+  key: string;
+  expectedVersion: number;
+  currentVersion: number | null;
+  currentValue: any;
+}
+
+export type StorageWrite =
+  | { type: 'set'; key: string; value: any }
+  | { type: 'delete'; key: string };
+
+export interface RevisionAuthor {
+  id: string;
+  name?: string;
+}
+
+export interface ContentRevision {
+  id: number;
+  key: string;
+  sight: string;
+  action: 'save' | 'publish' | 'restore';
+  status: 'draft' | 'published';
+  version?: number;
+  record: any; // The stored record as written
+  author?: RevisionAuthor;
+  createdAt: string;
+  restoredFrom?: number;
+}
+
+export type NewContentRevision = Omit<ContentRevision, 'id'>;
+
+export interface RevisionEntry {
+  id: number;
+  key: string;
+  sight: string;
+  value: any;
+  type: string;
+  action: ContentRevision['action'];
+  status: ContentRevision['status'];
+  version?: number;
+  author?: RevisionAuthor;
+  createdAt: string;
+  restoredFrom?: number;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+export interface FieldChange {
+  path: string;
+  before: any;
+  after: any;
+}
+
+export type RevisionDiff =
+  | { type: 'text'; parts: DiffPart[] }
+  | { type: 'fields'; changes: FieldChange[] };
+
 export interface StorageAdapter {
   get(key: string): Promise<any>;
   set(key: string, value: any): Promise<void>;
   delete(key: string): Promise<void>;
   list(prefix?: string): Promise<string[]>;
+  /**
+   * Applies all writes or none of them. Adapters without it get a
+   * best-effort rollback from runStorageTransaction.
+   */
+  transaction?(writes: StorageWrite[]): Promise<void>;
+  /**
+   * Stores the value only if the key doesn't exist yet, atomically even across
+   * server instances. Returns whether it was stored.
+   */
+  setIfAbsent?(key: string, value: any): Promise<boolean>;
+  /**
+   * Native revision history. Adapters without it keep revisions as
+   * regular entries under an internal `_revisions:` key.
+   */
+  addRevision?(revision: NewContentRevision, limit: number): Promise<ContentRevision>;
+  getRevisions?(key: string, limit: number): Promise<ContentRevision[]>;
 }
 
 export interface CorsOptions {
@@ -212,6 +466,14 @@ class MemoryStorage implements StorageAdapter {
     this.data.set(key, value);
   }
 
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (this.data.has(key)) {
+      return false;
+    }
+    this.data.set(key, value);
+    return true;
+  }
+
   async delete(key: string): Promise<void> {
     this.data.delete(key);
   }
@@ -223,6 +485,22 @@ class MemoryStorage implements StorageAdapter {
     }
     return keys;
   }
+
+  async transaction(writes: StorageWrite[]): Promise<void> {
+    const snapshot = new Map(this.data);
+    try {
+      for (const write of writes) {
+        if (write.type === 'set') {
+          this.data.set(write.key, write.value);
+        } else {
+          this.data.delete(write.key);
+        }
+      }
+    } catch (error) {
+      this.data = snapshot;
+      throw error;
+    }
+  }
 }
 
 /**
@@ -233,6 +511,7 @@ class FileStorage implements StorageAdapter {
   private readonly basePath: string;
   private readonly MAX_KEY_LENGTH = 200;
   private readonly ALLOWED_KEY_PATTERN = /^[a-zA-Z0-9_:.-]+$/;
+  private transactionQueue: Promise<void> = Promise.resolve();
   
   constructor(basePath: string) {
     // Validate and normalize base path
@@ -365,18 +644,10 @@ class FileStorage implements StorageAdapter {
     // Security validation
     await this.validateFileAccess(filePath);
     
-    // Validate and sanitize data before storage
-    const sanitizedValue = this.sanitizeValue(value);
-    const data = JSON.stringify(sanitizedValue, null, 2);
-    
-    // Size limit check (prevent disk space exhaustion)
-    const maxFileSize = 10 * 1024 * 1024; // 10MB
-    if (Buffer.byteLength(data, 'utf8') > maxFileSize) {
-      throw new Error('Data too large for storage');
-    }
+    const data = this.serialize(value);
     
     // Write to temporary file first, then atomically move
-    const tempPath = `${filePath}.tmp.${Date.now()}.${crypto.randomBytes(4).toString('hex')}`;
+    const tempPath = this.createTempPath(filePath);
     
     try {
       await this.fs.writeFile(tempPath, data, 'utf8');
@@ -392,6 +663,32 @@ class FileStorage implements StorageAdapter {
     }
   }
 
+  /**
+   * Hard-links a fully written temp file into place, which fails if the key exists
+   */
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    const filePath = this.getFilePath(key);
+    await this.validateFileAccess(filePath);
+
+    const tempPath = this.createTempPath(filePath);
+    try {
+      await this.fs.writeFile(tempPath, this.serialize(value), 'utf8');
+      await this.fs.link(tempPath, filePath);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      try {
+        await this.fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
   async delete(key: string): Promise<void> {
     try {
       const filePath = this.getFilePath(key);
@@ -407,6 +704,73 @@ class FileStorage implements StorageAdapter {
     }
   }
 
+  /**
+   * Applies writes all-or-nothing: new contents are staged in temp files first,
+   * and keys already committed are restored from their previous contents on failure.
+   * Transactions are serialized so their rollbacks cannot interleave.
+   */
+  async transaction(writes: StorageWrite[]): Promise<void> {
+    const run = this.transactionQueue.then(() => this.applyTransaction(writes));
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async applyTransaction(writes: StorageWrite[]): Promise<void> {
+    const staged: Array<{ key: string; filePath: string; tempPath?: string; previous: string | null }> = [];
+    const committed: typeof staged = [];
+
+    try {
+      // Stage: validate every key and write new contents next to their targets
+      for (const write of writes) {
+        const filePath = this.getFilePath(write.key);
+        await this.validateFileAccess(filePath);
+
+        const entry: typeof staged[number] = {
+          key: write.key,
+          filePath,
+          previous: await this.readRaw(filePath)
+        };
+        staged.push(entry);
+
+        if (write.type === 'set') {
+          entry.tempPath = this.createTempPath(filePath);
+          await this.fs.writeFile(entry.tempPath, this.serialize(write.value), 'utf8');
+        }
+      }
+
+      // Commit: each rename or unlink is atomic on its own
+      for (const entry of staged) {
+        if (entry.tempPath) {
+          await this.fs.rename(entry.tempPath, entry.filePath);
+          entry.tempPath = undefined;
+        } else {
+          await this.unlinkIfExists(entry.filePath);
+        }
+        committed.push(entry);
+      }
+    } catch (error) {
+      for (const entry of committed.reverse()) {
+        try {
+          if (entry.previous === null) {
+            await this.unlinkIfExists(entry.filePath);
+          } else {
+            await this.fs.writeFile(entry.filePath, entry.previous, 'utf8');
+          }
+        } catch (restoreError) {
+          console.error('Failed to roll back storage key:', entry.key, restoreError);
+        }
+      }
+
+      for (const entry of staged) {
+        if (entry.tempPath) {
+          await this.unlinkIfExists(entry.tempPath);
+        }
+      }
+
+      throw error;
+    }
+  }
+
   async list(prefix?: string): Promise<string[]> {
     try {
       const files = await this.fs.readdir(this.basePath);
@@ -436,6 +800,46 @@ class FileStorage implements StorageAdapter {
     }
   }
   
+  /**
+   * Sanitizes and serializes a value, enforcing the per-file size limit
+   */
+  private serialize(value: any): string {
+    const data = JSON.stringify(this.sanitizeValue(value), null, 2);
+    
+    // Size limit check (prevent disk space exhaustion)
+    const maxFileSize = 10 * 1024 * 1024; // 10MB
+    if (Buffer.byteLength(data, 'utf8') > maxFileSize) {
+      throw new Error('Data too large for storage');
+    }
+    
+    return data;
+  }
+
+  private createTempPath(filePath: string): string {
+    return `${filePath}.tmp.${Date.now()}.${crypto.randomBytes(4).toString('hex')}`;
+  }
+
+  private async readRaw(filePath: string): Promise<string | null> {
+    try {
+      return await this.fs.readFile(filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async unlinkIfExists(filePath: string): Promise<void> {
+    try {
+      await this.fs.unlink(filePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Validates file access is within allowed boundaries
    */
@@ -510,8 +914,10 @@ export class ProductionSightEditServer {
   private config: ProductionServerConfig;
   private jwtAuth: SecureJWTAuth;
   private authHandler: SecureAuthHandler;
+  private rbac: RBACSystem;
   private csrf: any;
   private storage: StorageAdapter;
+  private scheduler: ContentScheduler | null;
   private metrics: SystemMetrics;
   
   constructor(config: ProductionServerConfig) {
@@ -521,10 +927,16 @@ export class ProductionSightEditServer {
     
     // Initialize authentication
     this.jwtAuth = new SecureJWTAuth(this.config.jwt);
+    this.rbac = new RBACSystem();
+    for (const role of this.config.twoFactor?.requiredRoles || []) {
+      this.rbac.setTwoFactorRequired(role, true);
+    }
     this.authHandler = new SecureAuthHandler(
       this.jwtAuth,
       this.config.security,
-      this.config.emailConfig
+      this.config.emailConfig,
+      this.config.userStore,
+      { ...this.config.twoFactor, rbac: this.rbac }
     );
     
     // Initialize CSRF protection
@@ -536,6 +948,7 @@ export class ProductionSightEditServer {
     
     // Initialize storage
     this.storage = this.createStorage();
+    this.scheduler = contentScheduler(this.storage, this.publishOptions());
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -551,6 +964,10 @@ export class ProductionSightEditServer {
       throw new Error('Security configuration is required');
     }
     
+    if (config.workflow) {
+      validateWorkflowOptions(config.workflow);
+    }
+    
     return {
       port: 3000,
       host: '0.0.0.0',
@@ -572,7 +989,7 @@ export class ProductionSightEditServer {
         enabled: true,
         origins: ['http://localhost:3000', 'https://localhost:3000'],
         credentials: true,
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-CSRF-Token']
       },
       rateLimit: {
@@ -612,6 +1029,7 @@ export class ProductionSightEditServer {
         json: '10mb',
         urlencoded: '10mb'
       },
+      maxRevisions: DEFAULT_MAX_REVISIONS,
       ...config
     };
   }
@@ -746,6 +1164,38 @@ export class ProductionSightEditServer {
     });
   }
   
+  /**
+   * Options for publishing, shared by /api/publish and the scheduler
+   */
+  private publishOptions(): SightEditHandlerOptions {
+    return {
+      drafts: this.config.drafts,
+      maxRevisions: this.config.maxRevisions,
+      afterPublish: this.config.afterPublish,
+      locales: this.config.locales,
+      webhooks: this.config.webhooks,
+      schedules: this.config.schedules,
+      workflow: this.config.workflow
+    };
+  }
+  
+  /**
+   * Options for comment routes. Mentions default to the users known to the auth handler.
+   */
+  private commentOptions(): SightEditHandlerOptions {
+    if (!this.config.comments) {
+      return { locales: this.config.locales };
+    }
+    const users = {
+      search: (query: string, limit: number) => this.authHandler.searchUsers(query, limit),
+      get: (ids: string[]) => this.authHandler.getUsers(ids)
+    };
+    return {
+      locales: this.config.locales,
+      comments: { users, ...(this.config.comments === true ? {} : this.config.comments) }
+    };
+  }
+  
   private setupRoutes(): void {
     // Health check routes
     if (this.config.healthCheck?.enabled) {
@@ -781,6 +1231,36 @@ export class ProductionSightEditServer {
       this.authHandler.getCurrentUser.bind(this.authHandler)
     );
     
+    // Two-factor authentication; setup and enable also accept the challenge from login
+    this.app.post('/api/auth/2fa/verify', this.authHandler.verifyTwoFactor.bind(this.authHandler));
+    this.app.post('/api/auth/2fa/setup',
+      this.authHandler.createAuthMiddleware({ required: false }),
+      this.authHandler.setupTwoFactor.bind(this.authHandler)
+    );
+    this.app.post('/api/auth/2fa/enable',
+      this.authHandler.createAuthMiddleware({ required: false }),
+      this.authHandler.enableTwoFactor.bind(this.authHandler)
+    );
+    this.app.post('/api/auth/2fa/disable',
+      this.authHandler.createAuthMiddleware({ required: true }),
+      this.authHandler.disableTwoFactor.bind(this.authHandler)
+    );
+    this.app.post('/api/auth/2fa/recovery-codes',
+      this.authHandler.createAuthMiddleware({ required: true }),
+      this.authHandler.regenerateRecoveryCodes.bind(this.authHandler)
+    );
+    const canManageSystem = this.rbac.createAuthorizationMiddleware({ permissions: ['system:admin'] });
+    this.app.get('/api/auth/2fa/policy',
+      this.authHandler.createAuthMiddleware({ required: true }),
+      canManageSystem,
+      this.authHandler.getTwoFactorPolicy.bind(this.authHandler)
+    );
+    this.app.put('/api/auth/2fa/policy',
+      this.authHandler.createAuthMiddleware({ required: true }),
+      canManageSystem,
+      this.authHandler.updateTwoFactorPolicy.bind(this.authHandler)
+    );
+    
     // SightEdit API routes with authentication
     const authMiddleware = this.authHandler.createAuthMiddleware({
       required: true,
@@ -791,35 +1271,159 @@ export class ProductionSightEditServer {
     this.app.post('/api/save', authMiddleware, (req, res) => 
       handleSave(req, res, this.storage, {
         beforeSave: this.config.beforeSave,
-        afterSave: this.config.afterSave
+        afterSave: this.config.afterSave,
+        drafts: this.config.drafts,
+        maxRevisions: this.config.maxRevisions,
+        locales: this.config.locales,
+        webhooks: this.config.webhooks,
+        schemaValidation: this.config.schemaValidation
       })
     );
     
     this.app.post('/api/batch', authMiddleware, (req, res) => 
       handleBatch(req, res, this.storage, {
         beforeSave: this.config.beforeSave,
-        afterSave: this.config.afterSave
+        afterSave: this.config.afterSave,
+        drafts: this.config.drafts,
+        maxRevisions: this.config.maxRevisions,
+        locales: this.config.locales,
+        webhooks: this.config.webhooks,
+        schemaValidation: this.config.schemaValidation
       })
     );
     
+    const publishOptions = this.publishOptions();
+    const canPublish = this.rbac.createAuthorizationMiddleware({ permissions: ['content:publish'] });
+    
+    this.app.post('/api/publish', authMiddleware, canPublish, (req, res) => handlePublish(req, res, this.storage, publishOptions));
+    this.app.post('/api/schedule', authMiddleware, canPublish, (req, res) => handleScheduleCreate(req, res, this.storage, publishOptions));
+    this.app.get('/api/schedules', authMiddleware, canPublish, (req, res) => handleSchedules(req, res, this.storage, publishOptions));
+    this.app.delete('/api/schedules/:id', authMiddleware, canPublish, (req, res) => handleScheduleCancel(req, res, this.storage, publishOptions));
+    
+    // Revision history holds drafts too, so it needs the same access as saving
+    const historyOptions: SightEditHandlerOptions = {
+      beforeSave: this.config.beforeSave,
+      afterSave: this.config.afterSave,
+      drafts: this.config.drafts,
+      maxRevisions: this.config.maxRevisions,
+      locales: this.config.locales,
+      webhooks: this.config.webhooks
+    };
+    
+    this.app.get('/api/history/:sight', authMiddleware, (req, res) => handleHistory(req, res, this.storage, historyOptions));
+    this.app.get('/api/history/:sight/diff', authMiddleware, (req, res) => handleRevisionDiff(req, res, this.storage, historyOptions));
+    this.app.post('/api/history/:sight/restore', authMiddleware, (req, res) => handleRevisionRestore(req, res, this.storage, historyOptions));
+    
+    const readAuthMiddleware = this.authHandler.createAuthMiddleware({ required: true, permissions: ['read'] });
+    // Drafts are only visible to users who can edit
+    const contentOptions = (req: Request) => ({
+      drafts: !!this.config.drafts && !!(req as any).user?.permissions?.includes('write'),
+      locales: this.config.locales
+    });
+    
+    this.app.get('/api/content', readAuthMiddleware, (req, res) => handleContent(req, res, this.storage, contentOptions(req)));
+    this.app.get('/api/content/:sight', readAuthMiddleware, (req, res) => handleContent(req, res, this.storage, contentOptions(req)));
+    this.app.get('/api/translations/missing',
+      authMiddleware,
+      (req, res) => handleMissingTranslations(req, res, this.storage, { locales: this.config.locales })
+    );
+    
     this.app.get('/api/schema/:sight', 
       this.authHandler.createAuthMiddleware({ required: true, permissions: ['read'] }),
       (req, res) => handleSchema(req, res, this.storage)
     );
     
+    const schemaOptions = { webhooks: this.config.webhooks };
+    const canReadSchemas = this.rbac.createAuthorizationMiddleware({ permissions: ['schema:read'] });
+    
+    this.app.get('/api/schemas', authMiddleware, canReadSchemas, (req, res) => handleSchemas(req, res, this.storage));
+    this.app.get('/api/schemas/:sight', authMiddleware, canReadSchemas, (req, res) => handleStoredSchema(req, res, this.storage));
+    this.app.put('/api/schemas/:sight',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['schema:write'] }),
+      (req, res) => handleSchemaUpdate(req, res, this.storage, schemaOptions)
+    );
+    this.app.delete('/api/schemas/:sight',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['schema:delete'] }),
+      (req, res) => handleSchemaDelete(req, res, this.storage, schemaOptions)
+    );
+    this.app.get('/api/schemas/:sight/versions', authMiddleware, canReadSchemas, (req, res) => handleSchemaVersions(req, res, this.storage));
+    
     this.app.post('/api/upload',
       authMiddleware,
       this.createUploadMiddleware(),
       (req, res) => handleUpload(req, res, this.storage, {
         storagePath: this.config.fileUpload?.uploadPath,
-        afterSave: this.config.afterSave
+        afterSave: this.config.afterSave,
+        images: this.config.images,
+        webhooks: this.config.webhooks
       })
     );
     
+    const uploadOptions = { storagePath: this.config.fileUpload?.uploadPath, images: this.config.images };
+    
+    this.app.get('/api/assets',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['file:download'] }),
+      (req, res) => handleAssets(req, res, this.storage)
+    );
+    this.app.get('/api/assets/:id',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['file:download'] }),
+      (req, res) => handleAsset(req, res, this.storage)
+    );
+    this.app.patch('/api/assets/:id',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['file:upload'] }),
+      (req, res) => handleAssetUpdate(req, res, this.storage, uploadOptions)
+    );
+    this.app.delete('/api/assets/:id',
+      authMiddleware,
+      this.rbac.createAuthorizationMiddleware({ permissions: ['file:delete'] }),
+      (req, res) => handleAssetDelete(req, res, this.storage, uploadOptions)
+    );
+    
+    const canManageWebhooks = this.rbac.createAuthorizationMiddleware({ permissions: ['api:webhooks'] });
+    const webhookOptions = { webhooks: this.config.webhooks };
+    
+    this.app.get('/api/webhooks', authMiddleware, canManageWebhooks, (req, res) => handleWebhooks(req, res, this.storage, webhookOptions));
+    this.app.post('/api/webhooks', authMiddleware, canManageWebhooks, (req, res) => handleWebhookCreate(req, res, this.storage, webhookOptions));
+    this.app.get('/api/webhooks/:id', authMiddleware, canManageWebhooks, (req, res) => handleWebhook(req, res, this.storage, webhookOptions));
+    this.app.patch('/api/webhooks/:id', authMiddleware, canManageWebhooks, (req, res) => handleWebhookUpdate(req, res, this.storage, webhookOptions));
+    this.app.delete('/api/webhooks/:id', authMiddleware, canManageWebhooks, (req, res) => handleWebhookDelete(req, res, this.storage, webhookOptions));
+    this.app.get('/api/webhooks/:id/deliveries',
+      authMiddleware,
+      canManageWebhooks,
+      (req, res) => handleWebhookDeliveries(req, res, this.storage, webhookOptions)
+    );
+    this.app.post('/api/webhooks/:id/deliveries/:deliveryId/redeliver',
+      authMiddleware,
+      canManageWebhooks,
+      (req, res) => handleWebhookRedeliver(req, res, this.storage, webhookOptions)
+    );
+    
+    // Reviewers only need read access to discuss content
+    const commentOptions = this.commentOptions();
+    
+    this.app.get('/api/comments', readAuthMiddleware, (req, res) => handleComments(req, res, this.storage, commentOptions));
+    this.app.post('/api/comments', readAuthMiddleware, (req, res) => handleCommentCreate(req, res, this.storage, commentOptions));
+    this.app.get('/api/comments/users', readAuthMiddleware, (req, res) => handleCommentUsers(req, res, this.storage, commentOptions));
+    this.app.get('/api/comments/:id', readAuthMiddleware, (req, res) => handleComment(req, res, this.storage, commentOptions));
+    this.app.delete('/api/comments/:id', readAuthMiddleware, (req, res) => handleCommentDelete(req, res, this.storage, commentOptions));
+    this.app.post('/api/comments/:id/replies', readAuthMiddleware, (req, res) => handleCommentReply(req, res, this.storage, commentOptions));
+    this.app.post('/api/comments/:id/resolve', readAuthMiddleware, (req, res) => handleCommentStatus(req, res, this.storage, commentOptions, 'resolved'));
+    this.app.post('/api/comments/:id/reopen', readAuthMiddleware, (req, res) => handleCommentStatus(req, res, this.storage, commentOptions, 'open'));
+    
+    // Submitting needs write access; reviewers only need read access, stage roles decide the rest
+    this.app.get('/api/workflow', readAuthMiddleware, (req, res) => handleWorkflow(req, res, this.storage, publishOptions));
+    this.app.post('/api/workflow/submit', authMiddleware, (req, res) => handleWorkflowAction(req, res, this.storage, publishOptions, 'submit'));
+    this.app.post('/api/workflow/approve', readAuthMiddleware, (req, res) => handleWorkflowAction(req, res, this.storage, publishOptions, 'approve'));
+    this.app.post('/api/workflow/reject', readAuthMiddleware, (req, res) => handleWorkflowAction(req, res, this.storage, publishOptions, 'reject'));    
     // Serve uploaded files (with authentication for security)
     this.app.get('/uploads/*', 
       this.authHandler.createAuthMiddleware({ required: true, permissions: ['read'] }),
-      (req, res) => {
+      async (req, res) => {
         const filename = req.path.replace('/uploads/', '');
         const uploadDir = this.config.fileUpload?.uploadPath || './uploads';
         
@@ -832,6 +1436,9 @@ export class ProductionSightEditServer {
         }
         
         const filepath = path.join(uploadDir, filename);
+        if (await handleImageTransform(req, res, this.storage, filename, uploadOptions)) {
+          return;
+        }
         res.sendFile(path.resolve(filepath), (err) => {
           if (err) {
             res.status(404).json({
@@ -997,6 +1604,8 @@ export class ProductionSightEditServer {
    * Stop the server gracefully
    */
   async stop(): Promise<void> {
+    this.scheduler?.stop();
+    await this.authHandler.close();
     if (this.server) {
       await new Promise<void>((resolve) => {
         this.server.close(() => {
@@ -1023,7 +1632,12 @@ export class ProductionSightEditServer {
 }
 
 export function sightEditHandler(options: SightEditHandlerOptions = {}): RequestHandler {
+  if (options.workflow) {
+    validateWorkflowOptions(options.workflow);
+  }
   const storage = createStorage(options);
+  // Arms the schedules stored before a restart without waiting for a request
+  contentScheduler(storage, options);
   const rateLimitMap = new Map<string, number[]>();
   const metrics = SystemMetrics.getInstance();
 
@@ -1060,10 +1674,13 @@ export function sightEditHandler(options: SightEditHandlerOptions = {}): Request
         });
       }
 
+      // Route handling
+      const routePath = req.path || req.url;
+
       // Serve static uploaded files
-      if (path.startsWith('/uploads/') && req.method === 'GET') {
+      if (routePath.startsWith('/uploads/') && req.method === 'GET') {
         const uploadDir = options.storagePath || './uploads';
-        const filename = path.replace('/uploads/', '');
+        const filename = routePath.replace('/uploads/', '');
         
         // Security: prevent directory traversal
         if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
@@ -1074,6 +1691,9 @@ export function sightEditHandler(options: SightEditHandlerOptions = {}): Request
         }
         
         const filepath = path.join(uploadDir, filename);
+        if (await handleImageTransform(req, res, storage, filename, options)) {
+          return;
+        }
         
         try {
           const stats = await fs.stat(filepath);
@@ -1108,29 +1728,100 @@ export function sightEditHandler(options: SightEditHandlerOptions = {}): Request
         }
       }
 
-      // Route handling
-      const path = req.path || req.url;
-      
       // Handle CSP violation reports
-      if (path === '/api/csp-report' && req.method === 'POST') {
+      if (routePath === '/api/csp-report' && req.method === 'POST') {
         await handleCSPReport(req, res);
-      } else if (path === '/api/csp-stats' && req.method === 'GET') {
+      } else if (routePath === '/api/csp-stats' && req.method === 'GET') {
         await handleCSPStats(req, res);
-      } else if (path === '/save' && req.method === 'POST') {
+      } else if (routePath === '/save' && req.method === 'POST') {
         await handleSave(req, res, storage, options);
-      } else if (path === '/batch' && req.method === 'POST') {
+      } else if (routePath === '/batch' && req.method === 'POST') {
         await handleBatch(req, res, storage, options);
-      } else if (path.startsWith('/schema/') && req.method === 'GET') {
+      } else if (routePath === '/publish' && req.method === 'POST') {
+        if (!options.canPublish || !(await options.canPublish(req))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: ['content:publish']
+          });
+        }
+        await handlePublish(req, res, storage, options);
+      } else if (routePath === '/schedule' || routePath === '/schedules' || routePath.startsWith('/schedules/')) {
+        if (!options.canPublish || !(await options.canPublish(req))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: ['content:publish']
+          });
+        }
+        await routeSchedules(req, res, storage, options, routePath);
+      } else if (/^\/history\/[^/]+\/diff$/.test(routePath) && req.method === 'GET') {
+        await handleRevisionDiff(req, res, storage, options);
+      } else if (/^\/history\/[^/]+\/restore$/.test(routePath) && req.method === 'POST') {
+        await handleRevisionRestore(req, res, storage, options);
+      } else if (/^\/history\/[^/]+$/.test(routePath) && req.method === 'GET') {
+        await handleHistory(req, res, storage, options);
+      } else if ((routePath === '/content' || routePath.startsWith('/content/')) && req.method === 'GET') {
+        const canReadDrafts = options.canReadDrafts || options.canPublish;
+        if (options.drafts && req.query?.draft === 'true' && (!canReadDrafts || !(await canReadDrafts(req)))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: ['content:write']
+          });
+        }
+        await handleContent(req, res, storage, { drafts: options.drafts, locales: options.locales });
+      } else if (routePath === '/translations/missing' && req.method === 'GET') {
+        await handleMissingTranslations(req, res, storage, options);
+      } else if (routePath.startsWith('/schema/') && req.method === 'GET') {
         await handleSchema(req, res, storage);
-      } else if (path === '/upload' && req.method === 'POST') {
+      } else if (routePath === '/schemas' || routePath.startsWith('/schemas/')) {
+        const action = req.method === 'DELETE' ? 'delete' : req.method === 'PUT' ? 'write' : null;
+        if (action && (!options.canManageSchemas || !(await options.canManageSchemas(req, action)))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: [`schema:${action}`]
+          });
+        }
+        await routeSchemas(req, res, storage, options, routePath);
+      } else if (routePath === '/upload' && req.method === 'POST') {
         await handleUpload(req, res, storage, options);
-      } else if (path === '/health' && req.method === 'GET') {
+      } else if (routePath === '/assets' && req.method === 'GET') {
+        await handleAssets(req, res, storage);
+      } else if (/^\/assets\/[^/]+$/.test(routePath) && req.method === 'GET') {
+        await handleAsset(req, res, storage);
+      } else if (/^\/assets\/[^/]+$/.test(routePath) && req.method === 'PATCH') {
+        await handleAssetUpdate(req, res, storage, options);
+      } else if (/^\/assets\/[^/]+$/.test(routePath) && req.method === 'DELETE') {
+        await handleAssetDelete(req, res, storage, options);
+      } else if (routePath === '/webhooks' || routePath.startsWith('/webhooks/')) {
+        if (!options.canManageWebhooks || !(await options.canManageWebhooks(req))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: ['api:webhooks']
+          });
+        }
+        await routeWebhooks(req, res, storage, options, routePath);
+      } else if (routePath === '/comments' || routePath.startsWith('/comments/')) {
+        if (options.canComment && !(await options.canComment(req))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Insufficient permissions',
+            requiredPermissions: ['content:read']
+          });
+        }
+        await routeComments(req, res, storage, options, routePath);
+      } else if (routePath === '/workflow' || routePath.startsWith('/workflow/')) {
+        await routeWorkflow(req, res, storage, options, routePath);
+      } else if (routePath === '/health' && req.method === 'GET') {
         await handleHealthCheck(req, res, storage, options);
-      } else if (path === '/health' && req.method === 'HEAD') {
+      } else if (routePath === '/health' && req.method === 'HEAD') {
         await handleHealthCheckHead(req, res, storage, options);
-      } else if (path === '/metrics' && req.method === 'GET') {
+      } else if (routePath === '/metrics' && req.method === 'GET') {
         await handleMetrics(req, res, storage, options);
-      } else if (path === '/status' && req.method === 'GET') {
+      } else if (routePath === '/status' && req.method === 'GET') {
         await handleStatus(req, res, storage, options);
       } else {
         res.status(404).json({
@@ -1151,60 +1842,133 @@ export function sightEditHandler(options: SightEditHandlerOptions = {}): Request
   };
 }
 
-async function handleSave(
-  req: Request,
-  res: Response,
+/**
+ * A save that passed `prepareSave`, or why it was refused
+ */
+export type PreparedSave =
+  | { data: SaveData; warnings: FieldError[] }
+  | { status: 400 | 422; error: string; errors?: FieldError[] };
+
+/**
+ * Validates and sanitizes a save the way POST /save does before writing it: required
+ * fields, sight format (reserved keys included), locale, beforeSave and the stored schema.
+ */
+export async function prepareSave(
   storage: StorageAdapter,
-  options: SightEditHandlerOptions
-): Promise<void> {
-  let data: SaveData = req.body;
-  
+  input: unknown,
+  options: Pick<SightEditHandlerOptions, 'locales' | 'beforeSave' | 'schemaValidation'> = {}
+): Promise<PreparedSave> {
+  let data = input as SaveData;
+
   // Input validation and sanitization
   if (!data || typeof data !== 'object') {
-    res.status(400).json({
-      success: false,
-      error: 'Invalid request body'
-    });
-    return;
+    return { status: 400, error: 'Invalid request body' };
   }
-  
+
   if (!data.sight || typeof data.sight !== 'string' || data.value === undefined) {
-    res.status(400).json({
-      success: false,
-      error: 'Missing required fields: sight and value'
-    });
-    return;
+    return { status: 400, error: 'Missing required fields: sight and value' };
   }
-  
+
   // Validate sight identifier format to prevent injection
   if (!isValidSightIdentifier(data.sight)) {
-    res.status(400).json({
-      success: false,
-      error: 'Invalid sight identifier format'
-    });
-    return;
+    return { status: 400, error: 'Invalid sight identifier format' };
   }
-  
+
   // Sanitize input data
   data = sanitizeInputData(data);
 
+  const locale = resolveLocale(data.locale, options.locales);
+  if ('error' in locale) {
+    return { status: 400, error: locale.error };
+  }
+  data.locale = locale.locale;
+  if (!data.locale) {
+    delete data.locale;
+  }
+
   if (options.beforeSave) {
     data = await options.beforeSave(data);
   }
 
-  data.timestamp = Date.now();
-  
+  const validation = await validateWrite(storage, data.sight, data.value, options.schemaValidation);
+  if (validation.errors.length > 0) {
+    return { status: 422, error: 'Validation failed', errors: validation.errors };
+  }
+
+  return { data, warnings: validation.warnings };
+}
+
+/**
+ * A save written by `saveContent`, or why it was refused
+ */
+export type SaveResult =
+  | { data: SaveData; key: string; draft: boolean; warnings: FieldError[] }
+  | { status: 400 | 409 | 422; error: string; errors?: FieldError[]; conflict?: VersionConflict };
+
+/**
+ * Writes a save the way POST /save does: `prepareSave`, the `expectedVersion` check, the
+ * draft or published record, its revision, `afterSave` and webhooks. A new version also
+ * sends a draft back to the start of the workflow. Used by the GraphQL data source too.
+ */
+export async function saveContent(
+  storage: StorageAdapter,
+  input: unknown,
+  options: SightEditHandlerOptions = {},
+  author?: RevisionAuthor
+): Promise<SaveResult> {
+  const prepared = await prepareSave(storage, input, options);
+  if ('error' in prepared) {
+    return prepared;
+  }
+
+  const { data, warnings } = prepared;
   const key = generateKey(data);
-  await storage.set(key, data);
+  const existing = await getWorkingCopy(storage, key, !!options.drafts);
+
+  const conflict = detectVersionConflict(key, data, existing);
+  if (conflict) {
+    return { status: 409, error: 'Version conflict', conflict };
+  }
+
+  delete data.expectedVersion;
+  data.timestamp = nextVersion(existing);
+
+  const write: StorageWrite = { type: 'set', key: options.drafts ? draftKey(key) : key, value: data };
+  await storage.set(write.key, write.value);
+  await recordRevisions(storage, [write], author, options, 'save');
 
   if (options.afterSave) {
-    await options.afterSave(data, { key });
+    await options.afterSave(data, { key, draft: !!options.drafts });
+  }
+  await notifyWebhooks(storage, options, author, 'save', [toWebhookItem(key, data, options.drafts ? 'draft' : 'published')]);
+
+  return { data, key, draft: !!options.drafts, warnings };
+}
+
+async function handleSave(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const result = await saveContent(storage, req.body, options, requestAuthor(req));
+  if ('error' in result) {
+    res.status(result.status).json({
+      success: false,
+      error: result.error,
+      ...(result.errors ? { errors: result.errors } : {}),
+      ...(result.conflict ? { conflict: result.conflict } : {})
+    });
+    return;
   }
 
+  const { data, draft, warnings } = result;
   res.json({
     success: true,
     data: data.value,
-    version: data.timestamp
+    version: data.timestamp,
+    status: draft ? 'draft' : 'published',
+    ...(warnings.length > 0 ? { warnings } : {})
   });
 }
 
@@ -1214,7 +1978,7 @@ async function handleBatch(
   storage: StorageAdapter,
   options: SightEditHandlerOptions
 ): Promise<void> {
-  const { operations } = req.body;
+  const { operations, atomic } = req.body;
   
   if (!Array.isArray(operations)) {
     res.status(400).json({
@@ -1224,36 +1988,280 @@ async function handleBatch(
     return;
   }
 
+  // Translations are keyed by locale, so an unknown one must not fall through to the default
+  for (let i = 0; i < operations.length; i++) {
+    const data = operations[i]?.data;
+    if (!data || typeof data !== 'object') continue;
+
+    const locale = resolveLocale(data.locale, options.locales);
+    if ('error' in locale) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid locale at index ${i}: ${locale.error}`
+      });
+      return;
+    }
+    operations[i] = { ...operations[i], data: { ...data, locale: locale.locale } };
+    if (!locale.locale) {
+      delete operations[i].data.locale;
+    }
+  }
+
+  // Check every expected version up front so a stale batch writes nothing
+  const conflicts: VersionConflict[] = [];
+  const existingValues = new Map<number, any>();
+
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i];
+    if (!hasValidSight(operation)) continue;
+    try {
+      const key = generateKey(operation.data);
+      const existing = await getWorkingCopy(storage, key, !!options.drafts);
+      existingValues.set(i, existing);
+
+      const conflict = detectVersionConflict(key, operation.data, existing);
+      if (conflict) {
+        conflicts.push(conflict);
+      }
+    } catch {
+      // Malformed operations are reported per operation below
+    }
+  }
+
+  if (conflicts.length > 0) {
+    res.status(409).json({
+      success: false,
+      error: 'Version conflict',
+      conflicts
+    });
+    return;
+  }
+
+  const validation = await validateOperations(storage, operations, options);
+  const warnings = validation.warnings.length > 0 ? { warnings: validation.warnings } : {};
+
+  if (atomic === true) {
+    if (validation.errors.length > 0) {
+      res.status(422).json({
+        success: false,
+        error: 'Validation failed',
+        errors: validation.errors,
+        rolledBack: true
+      });
+      return;
+    }
+    await handleAtomicBatch(req, res, storage, operations, existingValues, options, warnings);
+    return;
+  }
+
   const results = [];
+  const applied: Array<{ operation: BatchOperation; writes: StorageWrite[] }> = [];
   
-  for (const operation of operations) {
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i];
+    if (!hasValidSight(operation)) {
+      results.push({ success: false, error: 'Invalid sight identifier format' });
+      continue;
+    }
+
+    const errors = validation.errors.filter(error => error.index === i);
+    if (errors.length > 0) {
+      results.push({ success: false, error: 'Validation failed', errors });
+      continue;
+    }
+
     try {
-      const key = generateKey(operation.data);
+      const writes = toStorageWrites(operation, existingValues.get(i), !!options.drafts);
       
-      switch (operation.type) {
-        case 'create':
-        case 'update':
-          await storage.set(key, operation.data);
-          results.push({ success: true });
-          break;
-        case 'delete':
-          await storage.delete(key);
-          results.push({ success: true });
-          break;
-        default:
-          results.push({ success: false, error: 'Invalid operation type' });
+      if (!writes) {
+        results.push({ success: false, error: 'Invalid operation type' });
+        continue;
+      }
+      
+      for (const write of writes) {
+        if (write.type === 'set') {
+          await storage.set(write.key, write.value);
+        } else {
+          await storage.delete(write.key);
+        }
       }
+      await recordRevisions(storage, writes, requestAuthor(req), options, 'save');
+      results.push(toBatchResult(writes));
+      applied.push({ operation, writes });
     } catch (error) {
       results.push({ success: false, error: String(error) });
     }
   }
 
+  await notifyBatchWebhooks(storage, options, req, applied);
+
+  res.json({
+    success: true,
+    results,
+    ...warnings
+  });
+}
+
+/**
+ * All-or-nothing batch: every operation is validated before anything is written,
+ * and a failing write rolls back the ones before it.
+ */
+async function handleAtomicBatch(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  operations: BatchOperation[],
+  existingValues: Map<number, any>,
+  options: SightEditHandlerOptions,
+  warnings: { warnings?: SchemaValidationResult['warnings'] } = {}
+): Promise<void> {
+  const drafts = !!options.drafts;
+  const writesByOperation: StorageWrite[][] = [];
+
+  for (let i = 0; i < operations.length; i++) {
+    let writes: StorageWrite[] | null;
+    try {
+      writes = hasValidSight(operations[i]) ? toStorageWrites(operations[i], existingValues.get(i), drafts) : null;
+    } catch {
+      writes = null;
+    }
+
+    if (!writes) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid operation at index ${i}`,
+        rolledBack: true
+      });
+      return;
+    }
+    writesByOperation.push(writes);
+  }
+
+  try {
+    await runStorageTransaction(storage, writesByOperation.flat());
+  } catch (error) {
+    console.error('Atomic batch failed and was rolled back:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Batch failed and was rolled back',
+      rolledBack: true
+    });
+    return;
+  }
+
+  await recordRevisions(storage, writesByOperation.flat(), requestAuthor(req), options, 'save');
+  await notifyBatchWebhooks(storage, options, req, operations.map((operation, i) => ({ operation, writes: writesByOperation[i] })));
+
   res.json({
     success: true,
-    results
+    atomic: true,
+    results: writesByOperation.map(toBatchResult),
+    ...warnings
   });
 }
 
+/**
+ * Schema errors and warnings of the creates and updates in a batch, tagged with their index.
+ * Malformed operations are left to the batch handlers to report.
+ */
+async function validateOperations(
+  storage: StorageAdapter,
+  operations: BatchOperation[],
+  options: SightEditHandlerOptions
+): Promise<SchemaValidationResult> {
+  const result: SchemaValidationResult = { errors: [], warnings: [] };
+  const schemas = new Map<string, unknown>();
+
+  for (let i = 0; i < operations.length; i++) {
+    const operation = operations[i];
+    if (operation?.type !== 'create' && operation?.type !== 'update') continue;
+    if (!hasValidSight(operation)) continue;
+
+    const validation = await validateWrite(storage, operation.data.sight, operation.data.value, options.schemaValidation, schemas);
+    result.errors.push(...validation.errors.map(error => ({ ...error, index: i })));
+    result.warnings.push(...validation.warnings.map(warning => ({ ...warning, index: i })));
+  }
+
+  return result;
+}
+
+function hasValidSight(operation: BatchOperation | undefined): boolean {
+  return typeof operation?.data?.sight === 'string' && isValidSightIdentifier(operation.data.sight);
+}
+
+/**
+ * Maps a batch operation onto storage writes, stamping the next version on saves.
+ * With drafts enabled saves go to the draft and deletes remove both copies.
+ */
+function toStorageWrites(operation: BatchOperation, existing: any, drafts: boolean): StorageWrite[] | null {
+  const key = generateKey(operation.data);
+
+  switch (operation.type) {
+    case 'create':
+    case 'update': {
+      const data: SaveData = { ...operation.data, timestamp: nextVersion(existing) };
+      delete data.expectedVersion;
+      return [{ type: 'set', key: drafts ? draftKey(key) : key, value: data }];
+    }
+    case 'delete':
+      return drafts
+        ? [{ type: 'delete', key: draftKey(key) }, { type: 'delete', key }]
+        : [{ type: 'delete', key }];
+    default:
+      return null;
+  }
+}
+
+function toBatchResult(writes: StorageWrite[]): { success: boolean; version?: number } {
+  const saved = writes.find(write => write.type === 'set');
+  return saved && saved.type === 'set'
+    ? { success: true, version: saved.value.timestamp }
+    : { success: true };
+}
+
+/**
+ * Applies writes all-or-nothing. Uses the adapter's own transaction when it has one,
+ * otherwise restores the previous value of every touched key after a failure.
+ */
+export async function runStorageTransaction(storage: StorageAdapter, writes: StorageWrite[]): Promise<void> {
+  if (typeof storage.transaction === 'function') {
+    await storage.transaction(writes);
+    return;
+  }
+
+  const previous = new Map<string, any>();
+  const touched: string[] = [];
+
+  try {
+    for (const write of writes) {
+      if (!previous.has(write.key)) {
+        previous.set(write.key, await storage.get(write.key));
+      }
+      touched.push(write.key);
+
+      if (write.type === 'set') {
+        await storage.set(write.key, write.value);
+      } else {
+        await storage.delete(write.key);
+      }
+    }
+  } catch (error) {
+    for (const key of new Set(touched.reverse())) {
+      try {
+        const value = previous.get(key);
+        if (value === null || value === undefined) {
+          await storage.delete(key);
+        } else {
+          await storage.set(key, value);
+        }
+      } catch (restoreError) {
+        console.error('Failed to roll back storage key:', key, restoreError);
+      }
+    }
+    throw error;
+  }
+}
+
 async function handleSchema(
   req: Request,
   res: Response,
@@ -1274,7 +2282,7 @@ async function handleSchema(
   
   try {
     // Try to get stored schema first
-    const schemaKey = `_schema:${sight}`;
+    const schemaKey = `${SCHEMA_PREFIX}${sight}`;
     const storedSchema = await storage.get(schemaKey);
   
     if (storedSchema) {
@@ -1297,177 +2305,2386 @@ async function handleSchema(
   }
 }
 
+async function routeSchemas(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  routePath: string
+): Promise<void> {
+  if (routePath === '/schemas' && req.method === 'GET') {
+    await handleSchemas(req, res, storage);
+  } else if (/^\/schemas\/[^/]+$/.test(routePath) && req.method === 'GET') {
+    await handleStoredSchema(req, res, storage);
+  } else if (/^\/schemas\/[^/]+$/.test(routePath) && req.method === 'PUT') {
+    await handleSchemaUpdate(req, res, storage, options);
+  } else if (/^\/schemas\/[^/]+$/.test(routePath) && req.method === 'DELETE') {
+    await handleSchemaDelete(req, res, storage, options);
+  } else if (/^\/schemas\/[^/]+\/versions$/.test(routePath) && req.method === 'GET') {
+    await handleSchemaVersions(req, res, storage);
+  } else {
+    res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+}
+
+async function handleSchemas(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter
+): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      schemas: await listStoredSchemas(storage)
+    });
+  } catch (error) {
+    console.error('Error listing schemas:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list schemas'
+    });
+  }
+}
+
 /**
- * Multer configuration for file uploads
+ * Unlike GET /schema/:sight, answers 404 instead of a default schema and includes the
+ * version to send back as `expectedVersion`
  */
-const uploadStorage = multer.memoryStorage();
-
-const upload = multer({
-  storage: uploadStorage,
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB max file size
-    files: 10 // Max 10 files per request
-  },
-  fileFilter: (req, file, cb) => {
-    // Allowed file types
-    const allowedMimes = [
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'image/svg+xml',
-      'video/mp4',
-      'video/webm',
-      'audio/mpeg',
-      'audio/wav',
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain',
-      'text/csv'
-    ];
+async function handleStoredSchema(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter
+): Promise<void> {
+  const sight = schemaSight(req, res);
+  if (!sight) return;
 
-    if (allowedMimes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error(`File type ${file.mimetype} not allowed`));
+  try {
+    const stored = await getStoredSchema(storage, sight);
+    if (!stored) {
+      res.status(404).json({
+        success: false,
+        error: 'Schema not found'
+      });
+      return;
     }
+
+    res.json({
+      success: true,
+      ...stored
+    });
+  } catch (error) {
+    console.error('Error loading schema:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve schema'
+    });
   }
-});
+}
 
-async function handleUpload(
+/**
+ * Creates or replaces a sight's schema:
+ *   PUT /schemas/:sight { schema, expectedVersion? }
+ * A stale `expectedVersion` is refused with 409 and the schema currently stored.
+ */
+async function handleSchemaUpdate(
   req: Request,
   res: Response,
   storage: StorageAdapter,
   options: SightEditHandlerOptions
 ): Promise<void> {
-  // Use multer to handle multipart/form-data
-  upload.array('files', 10)(req, res, async (err) => {
-    if (err) {
-      if (err instanceof multer.MulterError) {
-        if (err.code === 'LIMIT_FILE_SIZE') {
-          return res.status(413).json({
-            success: false,
-            error: 'File too large. Maximum size is 10MB'
-          });
-        }
-        if (err.code === 'LIMIT_FILE_COUNT') {
-          return res.status(400).json({
-            success: false,
-            error: 'Too many files. Maximum is 10 files per request'
-          });
-        }
-      }
-      
-      return res.status(400).json({
-        success: false,
-        error: err.message || 'Upload failed'
-      });
-    }
+  const sight = schemaSight(req, res);
+  if (!sight) return;
 
-    try {
-      const files = req.files as Express.Multer.File[];
-      
-      if (!files || files.length === 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'No files uploaded'
-        });
-      }
+  const body = req.body || {};
+  const input = parseSchemaInput(body.schema);
+  if ('error' in input) {
+    res.status(400).json({
+      success: false,
+      error: input.error
+    });
+    return;
+  }
 
-      const uploadResults = [];
-      const uploadDir = options.storagePath || './uploads';
-      
-      // Ensure upload directory exists
-      await fs.mkdir(uploadDir, { recursive: true });
+  if (body.expectedVersion !== undefined && !Number.isInteger(body.expectedVersion)) {
+    res.status(400).json({
+      success: false,
+      error: 'expectedVersion must be an integer'
+    });
+    return;
+  }
 
-      for (const file of files) {
-        try {
-          // Generate unique filename
-          const timestamp = Date.now();
-          const random = crypto.randomBytes(8).toString('hex');
-          const extension = path.extname(file.originalname);
-          const filename = `${timestamp}-${random}${extension}`;
-          const filepath = path.join(uploadDir, filename);
+  const author = requestAuthor(req);
+  try {
+    const result = await writeSchema(storage, sight, input.value, { expectedVersion: body.expectedVersion, author }, writes =>
+      runStorageTransaction(storage, writes)
+    );
+    if ('conflict' in result) {
+      res.status(409).json({
+        success: false,
+        error: 'Version conflict',
+        conflict: result.conflict
+      });
+      return;
+    }
 
-          // Process images
-          if (file.mimetype.startsWith('image/')) {
-            // Resize and optimize images
-            const imageBuffer = await processImage(file.buffer, file.mimetype);
-            
-            // Save processed image
-            await fs.writeFile(filepath, imageBuffer);
-            
-            // Generate thumbnail
-            const thumbnailFilename = `${timestamp}-${random}-thumb${extension}`;
-            const thumbnailPath = path.join(uploadDir, thumbnailFilename);
-            const thumbnailBuffer = await sharp(file.buffer)
-              .resize(200, 200, { fit: 'cover' })
-              .toBuffer();
-            await fs.writeFile(thumbnailPath, thumbnailBuffer);
+    await notifyWebhooks(storage, options, author, 'schema', [
+      { sight, action: 'update', version: result.stored.version }
+    ]);
 
-            // Get image metadata
-            const metadata = await sharp(imageBuffer).metadata();
+    res.status(result.previous === null ? 201 : 200).json({
+      success: true,
+      sight,
+      schema: result.stored.schema,
+      version: result.stored.version,
+      updatedAt: result.stored.createdAt
+    });
+  } catch (error) {
+    console.error('Error saving schema:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save schema'
+    });
+  }
+}
 
-            uploadResults.push({
-              success: true,
-              originalName: file.originalname,
-              filename: filename,
-              thumbnailFilename: thumbnailFilename,
-              url: `/uploads/${filename}`,
-              thumbnailUrl: `/uploads/${thumbnailFilename}`,
-              mimetype: file.mimetype,
-              size: file.size,
-              width: metadata.width,
-              height: metadata.height,
-              format: metadata.format
-            });
-          } else {
-            // Save non-image files directly
-            await fs.writeFile(filepath, file.buffer);
-            
-            uploadResults.push({
-              success: true,
-              originalName: file.originalname,
-              filename: filename,
-              url: `/uploads/${filename}`,
-              mimetype: file.mimetype,
-              size: file.size
-            });
-          }
+/**
+ * Deletes a sight's schema, keeping its versions:
+ *   DELETE /schemas/:sight?expectedVersion=3
+ */
+async function handleSchemaDelete(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const sight = schemaSight(req, res);
+  if (!sight) return;
 
-          // Store file metadata in storage
-          await storage.set(`file:${filename}`, {
-            originalName: file.originalname,
-            filename: filename,
-            mimetype: file.mimetype,
-            size: file.size,
-            uploadedAt: new Date().toISOString(),
-            uploadedBy: (req as any).user?.id || 'anonymous'
-          });
+  const raw = req.body?.expectedVersion ?? req.query?.expectedVersion;
+  const expectedVersion = raw === undefined ? undefined : Number(raw);
+  if (expectedVersion !== undefined && !Number.isInteger(expectedVersion)) {
+    res.status(400).json({
+      success: false,
+      error: 'expectedVersion must be an integer'
+    });
+    return;
+  }
 
-        } catch (fileError) {
-          uploadResults.push({
-            success: false,
-            originalName: file.originalname,
-            error: `Failed to process ${file.originalname}: ${fileError}`
-          });
-        }
-      }
+  const author = requestAuthor(req);
+  try {
+    if (!(await getStoredSchema(storage, sight))) {
+      res.status(404).json({
+        success: false,
+        error: 'Schema not found'
+      });
+      return;
+    }
 
-      res.json({
-        success: true,
-        files: uploadResults
+    const result = await writeSchema(storage, sight, null, { expectedVersion, author }, writes =>
+      runStorageTransaction(storage, writes)
+    );
+    if ('conflict' in result) {
+      res.status(409).json({
+        success: false,
+        error: 'Version conflict',
+        conflict: result.conflict
+      });
+      return;
+    }
+
+    await notifyWebhooks(storage, options, author, 'schema', [
+      { sight, action: 'delete', version: result.stored.version }
+    ]);
+
+    res.json({
+      success: true,
+      sight,
+      version: result.stored.version
+    });
+  } catch (error) {
+    console.error('Error deleting schema:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete schema'
+    });
+  }
+}
+
+async function handleSchemaVersions(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter
+): Promise<void> {
+  const sight = schemaSight(req, res, '/versions');
+  if (!sight) return;
+
+  const requested = Number(req.query?.limit);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_SCHEMA_VERSIONS) : MAX_SCHEMA_VERSIONS;
+
+  try {
+    res.json({
+      success: true,
+      sight,
+      versions: await listSchemaVersions(storage, sight, limit)
+    });
+  } catch (error) {
+    console.error('Error listing schema versions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve schema versions'
+    });
+  }
+}
+
+function schemaSight(req: Request, res: Response, suffix: string = ''): string | null {
+  const sight = req.params?.sight || extractSightFromPath(req.path || req.url || '', 'schemas', suffix);
+  if (!sight || !isValidSightIdentifier(sight)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid sight identifier'
+    });
+    return null;
+  }
+  return sight;
+}
+
+/**
+ * Promotes drafts to published content, all-or-nothing:
+ *   POST /publish { sight, recordId?, id?, locale? }   single sight
+ *   POST /publish { items: [{ sight, recordId?, id?, locale? }] }   batch
+ *   POST /publish { page, locale? }   every draft saved with context.page === page
+ */
+async function handlePublish(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!options.drafts) {
+    res.status(400).json({
+      success: false,
+      error: 'Draft workflow is not enabled'
+    });
+    return;
+  }
+
+  let keys: string[];
+  try {
+    keys = await resolvePublishKeys(req.body || {}, storage, options.locales);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message
+    });
+    return;
+  }
+
+  // Nothing goes live while part of the request still awaits approval
+  const unapproved = await unapprovedKeys(storage, keys, options);
+  if (unapproved.length > 0) {
+    res.status(409).json({
+      success: false,
+      error: 'Changes must be approved before publishing',
+      unapproved
+    });
+    return;
+  }
+
+  try {
+    const { published, missing } = await publishDrafts(storage, keys, options, requestAuthor(req), req);
+
+    if (published.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'No drafts to publish',
+        missing
       });
+      return;
+    }
+
+    res.json({
+      success: true,
+      published,
+      missing
+    });
+  } catch (error) {
+    console.error('Error publishing content:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to publish content'
+    });
+  }
+}
+
+/**
+ * Promotes the drafts of the given keys in one transaction, then records revisions, runs
+ * afterPublish and notifies webhooks. Shared by manual and scheduled publishing. With a
+ * workflow, drafts that aren't approved are left alone and reported as unapproved.
+ */
+async function publishDrafts(
+  storage: StorageAdapter,
+  keys: string[],
+  options: SightEditHandlerOptions,
+  author: RevisionAuthor | undefined,
+  req?: Request
+): Promise<{ published: PublishedEntry[]; missing: string[]; unapproved: string[] }> {
+  const publishedAt = new Date().toISOString();
+  const writes: StorageWrite[] = [];
+  const published: PublishedEntry[] = [];
+  const missing: string[] = [];
+  const unapproved: string[] = [];
+
+  for (const key of keys) {
+    const draft = await storage.get(draftKey(key));
+    if (draft === null || draft === undefined) {
+      missing.push(key);
+      continue;
+    }
+    if (options.workflow && !(await isApproved(storage, key, draft))) {
+      unapproved.push(key);
+      continue;
+    }
+
+    const record = { ...draft, publishedAt, ...(author ? { publishedBy: author.id } : {}) };
+    writes.push({ type: 'set', key, value: record });
+    writes.push({ type: 'delete', key: draftKey(key) });
+    if (options.workflow) {
+      writes.push({ type: 'delete', key: workflowKey(key) });
+    }
+    published.push({
+      key,
+      sight: record.sight ?? key.split(':')[0],
+      version: record.timestamp,
+      ...(record.locale ? { locale: record.locale } : {})
+    });
+  }
+
+  if (published.length === 0) {
+    return { published, missing, unapproved };
+  }
+
+  await runStorageTransaction(storage, writes);
+  await recordRevisions(storage, writes, author, options, 'publish');
+
+  if (options.afterPublish) {
+    await options.afterPublish(published, req);
+  }
+  await notifyWebhooks(storage, options, author, 'publish', published.map(entry => ({ ...entry, publishedAt })));
+  await notifyTransitions(options, published.map(entry => ({
+    key: entry.key,
+    sight: entry.sight,
+    action: 'publish',
+    from: APPROVED_STAGE,
+    to: 'published',
+    ...(author ? { by: author } : {}),
+    at: publishedAt
+  })), req);
+
+  return { published, missing, unapproved };
+}
+
+/**
+ * Takes published records offline and notifies `delete` webhooks. With drafts enabled a
+ * record that has no pending draft is kept as one, so it can be published again.
+ */
+async function expireContent(
+  storage: StorageAdapter,
+  keys: string[],
+  options: SightEditHandlerOptions,
+  author: RevisionAuthor | undefined
+): Promise<ScheduleResult> {
+  const expiredAt = new Date().toISOString();
+  const writes: StorageWrite[] = [];
+  const expired: WebhookItem[] = [];
+  const missing: string[] = [];
+
+  for (const key of keys) {
+    const record = await storage.get(key);
+    if (record === null || record === undefined) {
+      missing.push(key);
+      continue;
+    }
+
+    writes.push({ type: 'delete', key });
+    if (options.drafts) {
+      const draft = await storage.get(draftKey(key));
+      if (draft === null || draft === undefined) {
+        const { publishedAt, publishedBy, ...unpublished } = record;
+        writes.push({ type: 'set', key: draftKey(key), value: unpublished });
+      }
+    }
+    expired.push({
+      key,
+      sight: record.sight ?? key.split(':')[0],
+      ...(record.id ? { id: record.id } : {}),
+      ...(record.locale ? { locale: record.locale } : {}),
+      expiredAt
+    });
+  }
+
+  if (writes.length > 0) {
+    await runStorageTransaction(storage, writes);
+  }
+  await notifyWebhooks(storage, options, author, 'delete', expired);
+
+  return { applied: expired.map(item => item.key), missing };
+}
+
+/**
+ * Storage keys targeted by a publish request. Pages resolve against drafts, or against
+ * published records when `published` is set.
+ */
+async function resolvePublishKeys(
+  body: any,
+  storage: StorageAdapter,
+  locales?: LocaleOptions,
+  published: boolean = false
+): Promise<string[]> {
+  const localeOf = (raw: unknown): string | undefined => {
+    const resolved = resolveLocale(raw, locales);
+    if ('error' in resolved) {
+      throw new Error(resolved.error);
+    }
+    return resolved.locale;
+  };
+
+  if (typeof body.page === 'string') {
+    if (body.page.length === 0 || body.page.length > 500) {
+      throw new Error('Invalid page');
+    }
+
+    // Without a locale every translation drafted on the page is published
+    const locale = body.locale === undefined ? null : localeOf(body.locale);
+    const prefix = published ? '' : DRAFT_PREFIX;
+    const keys: string[] = [];
+    for (const storedKey of await storage.list(prefix)) {
+      const key = storedKey.slice(prefix.length);
+      if (published && !isContentKey(key)) {
+        continue;
+      }
+      if (locale !== null && splitLocalizedKey(key).locale !== locale) {
+        continue;
+      }
+      const draft = await storage.get(storedKey);
+      if (draft?.context?.page === body.page) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  const items = Array.isArray(body.items) ? body.items : body.sight ? [body] : null;
+  const MAX_ITEMS = 100;
+  if (!items || items.length === 0 || items.length > MAX_ITEMS) {
+    throw new Error(`Specify a sight, a page or 1-${MAX_ITEMS} items`);
+  }
+
+  return Array.from(new Set<string>(items.map((item: any) => {
+    if (!item || typeof item.sight !== 'string' || !isValidSightIdentifier(item.sight)) {
+      throw new Error('Invalid sight identifier');
+    }
+    if ((item.recordId !== undefined && !isValidContextValue(item.recordId)) ||
+        (item.id !== undefined && !isValidContextValue(item.id))) {
+      throw new Error('Invalid recordId or id');
+    }
+    return generateKey({
+      sight: item.sight,
+      value: null,
+      type: 'text',
+      id: item.id,
+      context: item.recordId ? { recordId: item.recordId } : undefined,
+      locale: localeOf(item.locale)
+    });
+  })));
+}
+
+/**
+ * Scheduled publishing and expiry. Targets take the same forms as /publish; a request
+ * with both times creates one schedule for each:
+ *   POST   /schedule { sight | items | page, ..., publishAt?, expireAt? }
+ *   GET    /schedules?status=&sight=   soonest first
+ *   DELETE /schedules/:id              cancels a schedule that hasn't run
+ */
+async function routeSchedules(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  routePath: string
+): Promise<void> {
+  if (routePath === '/schedule' && req.method === 'POST') {
+    await handleScheduleCreate(req, res, storage, options);
+  } else if (routePath === '/schedules' && req.method === 'GET') {
+    await handleSchedules(req, res, storage, options);
+  } else if (/^\/schedules\/[^/]+$/.test(routePath) && req.method === 'DELETE') {
+    await handleScheduleCancel(req, res, storage, options);
+  } else {
+    res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+}
+
+async function handleScheduleCreate(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const scheduler = requireScheduler(res, storage, options);
+  if (!scheduler) return;
+
+  const body = req.body || {};
+  const publishAt = body.publishAt === undefined ? undefined : parseScheduleTime(body.publishAt);
+  const expireAt = body.expireAt === undefined ? undefined : parseScheduleTime(body.expireAt);
+  const now = Date.now();
+
+  let error: string | null = null;
+  if (publishAt === null || expireAt === null) {
+    error = 'Invalid publishAt or expireAt';
+  } else if (!publishAt && !expireAt) {
+    error = 'Specify publishAt, expireAt or both';
+  } else if ((publishAt && publishAt.getTime() <= now) || (expireAt && expireAt.getTime() <= now)) {
+    error = 'Scheduled times must be in the future';
+  } else if (publishAt && expireAt && expireAt <= publishAt) {
+    error = 'expireAt must be after publishAt';
+  } else if (publishAt && !options.drafts) {
+    error = 'Draft workflow is not enabled';
+  }
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  let keys: string[];
+  try {
+    keys = await resolvePublishKeys(body, storage, options.locales, !publishAt);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message
+    });
+    return;
+  }
+
+  if (keys.length === 0) {
+    res.status(404).json({
+      success: false,
+      error: publishAt ? 'No drafts to publish' : 'No published content to expire'
+    });
+    return;
+  }
+
+  try {
+    const createdBy = requestAuthor(req);
+    const schedules: ContentSchedule[] = [];
+    if (publishAt) {
+      schedules.push(await scheduler.create({ action: 'publish', keys, runAt: publishAt, createdBy }));
+    }
+    if (expireAt) {
+      schedules.push(await scheduler.create({ action: 'expire', keys, runAt: expireAt, createdBy }));
+    }
+
+    res.status(201).json({
+      success: true,
+      schedules
+    });
+  } catch (error) {
+    console.error('Error scheduling content:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to schedule content'
+    });
+  }
+}
+
+async function handleSchedules(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireScheduler(res, storage, options)) return;
+
+  const query = req.query || {};
+  const statuses: ContentSchedule['status'][] = ['scheduled', 'running', 'done', 'failed', 'cancelled'];
+  if (query.status !== undefined && !statuses.includes(query.status as ContentSchedule['status'])) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid status, expected one of: ${statuses.join(', ')}`
+    });
+    return;
+  }
+  if (query.sight !== undefined && (typeof query.sight !== 'string' || !isValidSightIdentifier(query.sight))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid sight identifier'
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      schedules: await listSchedules(storage, {
+        status: query.status as ContentSchedule['status'] | undefined,
+        sight: query.sight as string | undefined
+      })
+    });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list schedules'
+    });
+  }
+}
+
+async function handleScheduleCancel(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const scheduler = requireScheduler(res, storage, options);
+  if (!scheduler) return;
+
+  const id = req.params?.id || (req.path || req.url || '').match(/^\/schedules\/([^/]+)/)?.[1];
+  if (!id || !isValidScheduleId(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid schedule ID'
+    });
+    return;
+  }
+
+  try {
+    const existing = await getSchedule(storage, id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'Schedule not found'
+      });
+      return;
+    }
+    if (existing.status !== 'scheduled') {
+      res.status(409).json({
+        success: false,
+        error: `Schedule is already ${existing.status}`,
+        schedule: existing
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      schedule: await scheduler.cancel(id, requestAuthor(req))
+    });
+  } catch (error) {
+    console.error('Error cancelling schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel schedule'
+    });
+  }
+}
+
+/**
+ * Review threads anchored to a content record, optionally to a text range in it:
+ *   GET    /comments?sight=&recordId=&page=&status=   oldest first
+ *   POST   /comments { sight, recordId?, id?, locale?, range?, page?, body, mentions? }
+ *   GET    /comments/users?q=                          people that can be @mentioned
+ *   GET    /comments/:id
+ *   DELETE /comments/:id                               only by the user who started the thread
+ *   POST   /comments/:id/replies { body, mentions? }
+ *   POST   /comments/:id/resolve | /comments/:id/reopen
+ */
+async function routeComments(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  routePath: string
+): Promise<void> {
+  if (routePath === '/comments' && req.method === 'GET') {
+    await handleComments(req, res, storage, options);
+  } else if (routePath === '/comments' && req.method === 'POST') {
+    await handleCommentCreate(req, res, storage, options);
+  } else if (routePath === '/comments/users' && req.method === 'GET') {
+    await handleCommentUsers(req, res, storage, options);
+  } else if (/^\/comments\/[^/]+$/.test(routePath) && req.method === 'GET') {
+    await handleComment(req, res, storage, options);
+  } else if (/^\/comments\/[^/]+$/.test(routePath) && req.method === 'DELETE') {
+    await handleCommentDelete(req, res, storage, options);
+  } else if (/^\/comments\/[^/]+\/replies$/.test(routePath) && req.method === 'POST') {
+    await handleCommentReply(req, res, storage, options);
+  } else if (/^\/comments\/[^/]+\/resolve$/.test(routePath) && req.method === 'POST') {
+    await handleCommentStatus(req, res, storage, options, 'resolved');
+  } else if (/^\/comments\/[^/]+\/reopen$/.test(routePath) && req.method === 'POST') {
+    await handleCommentStatus(req, res, storage, options, 'open');
+  } else {
+    res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+}
+
+async function handleComments(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireComments(res, options)) return;
+
+  const query = req.query || {};
+  let error: string | null = null;
+  if (query.sight !== undefined && (typeof query.sight !== 'string' || !isValidSightIdentifier(query.sight))) {
+    error = 'Invalid sight identifier';
+  } else if (query.recordId !== undefined && (typeof query.recordId !== 'string' || !isValidContextValue(query.recordId))) {
+    error = 'Invalid recordId';
+  } else if (query.page !== undefined && !isValidCommentPage(query.page)) {
+    error = 'Invalid page';
+  } else if (query.status !== undefined && query.status !== 'open' && query.status !== 'resolved') {
+    error = 'Invalid status, expected one of: open, resolved';
+  }
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      threads: await listCommentThreads(storage, {
+        sight: query.sight as string | undefined,
+        recordId: query.recordId as string | undefined,
+        page: query.page as string | undefined,
+        status: query.status as CommentThread['status'] | undefined
+      })
+    });
+  } catch (error) {
+    console.error('Error listing comments:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list comments'
+    });
+  }
+}
+
+async function handleComment(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireComments(res, options)) return;
+
+  const thread = await findCommentThread(req, res, storage);
+  if (!thread) return;
+
+  res.json({
+    success: true,
+    thread
+  });
+}
+
+async function handleCommentCreate(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const config = requireComments(res, options);
+  if (!config) return;
+
+  const body = req.body || {};
+  const text = parseCommentBody(body.body, config);
+  const recordId = typeof body.recordId === 'string' ? body.recordId : undefined;
+  const id = typeof body.id === 'string' ? body.id : undefined;
+  const range = body.range === undefined ? undefined : parseCommentRange(body.range);
+  const locale = resolveLocale(body.locale, options.locales);
+
+  let error: string | null = null;
+  if (typeof body.sight !== 'string' || !isValidSightIdentifier(body.sight)) {
+    error = 'Invalid sight identifier';
+  } else if ((recordId !== undefined && !isValidContextValue(recordId)) || (id !== undefined && !isValidContextValue(id))) {
+    error = 'Invalid recordId or id';
+  } else if (range === null) {
+    error = 'Invalid range';
+  } else if (body.page !== undefined && !isValidCommentPage(body.page)) {
+    error = 'Invalid page';
+  } else if ('error' in locale) {
+    error = locale.error;
+  } else if (typeof text !== 'string') {
+    error = text.error;
+  }
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  const localeCode = 'error' in locale ? undefined : locale.locale;
+
+  try {
+    const mentions = await resolveMentions(body.mentions, config);
+    const thread = await createCommentThread(storage, {
+      key: generateKey({
+        sight: body.sight,
+        value: null,
+        type: 'text',
+        id,
+        context: recordId ? { recordId } : undefined,
+        locale: localeCode
+      }),
+      sight: body.sight,
+      recordId,
+      locale: localeCode,
+      range: range || undefined,
+      page: body.page,
+      body: text as string,
+      mentions,
+      author: requestAuthor(req)
+    });
+    await notifyMentions(config, thread, thread.comments[0]);
+
+    res.status(201).json({
+      success: true,
+      thread
+    });
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create comment'
+    });
+  }
+}
+
+async function handleCommentReply(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const config = requireComments(res, options);
+  if (!config) return;
+
+  const text = parseCommentBody(req.body?.body, config);
+  if (typeof text !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: text.error
+    });
+    return;
+  }
+
+  const existing = await findCommentThread(req, res, storage);
+  if (!existing) return;
+
+  try {
+    const mentions = await resolveMentions(req.body?.mentions, config);
+    const reply = await replyToCommentThread(storage, existing.id, text, mentions, requestAuthor(req));
+    if (!reply) {
+      res.status(404).json({
+        success: false,
+        error: 'Comment thread not found'
+      });
+      return;
+    }
+    const { thread, comment } = reply;
+    await notifyMentions(config, thread, comment);
+
+    res.status(201).json({
+      success: true,
+      thread,
+      comment
+    });
+  } catch (error) {
+    console.error('Error replying to comment:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reply to comment'
+    });
+  }
+}
+
+async function handleCommentStatus(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  status: CommentThread['status']
+): Promise<void> {
+  if (!requireComments(res, options)) return;
+
+  const existing = await findCommentThread(req, res, storage);
+  if (!existing) return;
+
+  if (existing.status === status) {
+    res.status(409).json({
+      success: false,
+      error: `Thread is already ${status}`,
+      thread: existing
+    });
+    return;
+  }
+
+  try {
+    const thread = await setCommentThreadStatus(storage, existing.id, status, requestAuthor(req));
+    if (!thread) {
+      res.status(404).json({
+        success: false,
+        error: 'Comment thread not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      thread
+    });
+  } catch (error) {
+    console.error('Error updating comment thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update comment thread'
+    });
+  }
+}
+
+async function handleCommentDelete(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireComments(res, options)) return;
+
+  const existing = await findCommentThread(req, res, storage);
+  if (!existing) return;
+
+  // Threads started anonymously (no auth configured) can be deleted by anyone
+  const author = requestAuthor(req);
+  if (existing.createdBy && existing.createdBy.id !== author?.id) {
+    res.status(403).json({
+      success: false,
+      error: 'Only the author can delete a thread'
+    });
+    return;
+  }
+
+  try {
+    await deleteCommentThread(storage, existing.id);
+    res.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting comment thread:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete comment thread'
+    });
+  }
+}
+
+async function handleCommentUsers(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const config = requireComments(res, options);
+  if (!config) return;
+
+  const query = typeof req.query?.q === 'string' ? req.query.q.slice(0, 100) : '';
+  const limit = Number(req.query?.limit);
+
+  try {
+    res.json({
+      success: true,
+      users: config.users ? await config.users.search(query, Number.isInteger(limit) && limit > 0 ? Math.min(limit, 50) : 10) : []
+    });
+  } catch (error) {
+    console.error('Error searching users:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search users'
+    });
+  }
+}
+
+/**
+ * Review stages of pending drafts. Targets take the same forms as /publish:
+ *   GET  /workflow?page=&locale= | ?sight=&recordId=&id=&locale=   stage, history and allowed actions
+ *   POST /workflow/submit  { sight | items | page, ..., comment? }
+ *   POST /workflow/approve { sight | items | page, ..., comment? }
+ *   POST /workflow/reject  { sight | items | page, ..., comment }
+ */
+async function routeWorkflow(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  routePath: string
+): Promise<void> {
+  if (routePath === '/workflow' && req.method === 'GET') {
+    await handleWorkflow(req, res, storage, options);
+  } else if (routePath === '/workflow/submit' && req.method === 'POST') {
+    await handleWorkflowAction(req, res, storage, options, 'submit');
+  } else if (routePath === '/workflow/approve' && req.method === 'POST') {
+    await handleWorkflowAction(req, res, storage, options, 'approve');
+  } else if (routePath === '/workflow/reject' && req.method === 'POST') {
+    await handleWorkflowAction(req, res, storage, options, 'reject');
+  } else {
+    res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+}
+
+async function handleWorkflow(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const workflow = requireWorkflow(res, options);
+  if (!workflow) return;
+
+  let keys: string[];
+  try {
+    keys = await resolvePublishKeys(req.query || {}, storage, options.locales);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message
+    });
+    return;
+  }
+
+  try {
+    const roles = requestRoles(req);
+    const items: any[] = [];
+    for (const key of keys) {
+      const draft = await storage.get(draftKey(key));
+      if (draft === null || draft === undefined) continue;
+      items.push(toWorkflowItem(key, draft, await getWorkflowState(storage, key), roles, workflow));
+    }
+
+    res.json({
+      success: true,
+      stages: workflow.stages.map(stage => ({ id: stage.id, name: stageName(stage.id, workflow) })),
+      items
+    });
+  } catch (error) {
+    console.error('Error retrieving workflow:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve workflow'
+    });
+  }
+}
+
+/**
+ * Moves every targeted draft the user may act on to its next stage. Drafts that can't
+ * take the action are reported as skipped; when none can, nothing changes.
+ */
+async function handleWorkflowAction(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  action: WorkflowAction
+): Promise<void> {
+  const workflow = requireWorkflow(res, options);
+  if (!workflow) return;
+
+  const body = req.body || {};
+  const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+  let error: string | null = null;
+  if (body.comment !== undefined && typeof body.comment !== 'string') {
+    error = 'Invalid comment';
+  } else if (comment.length > MAX_WORKFLOW_COMMENT) {
+    error = `Comment exceeds ${MAX_WORKFLOW_COMMENT} characters`;
+  } else if (action === 'reject' && !comment) {
+    error = 'A comment is required to reject changes';
+  }
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error
+    });
+    return;
+  }
+
+  let keys: string[];
+  try {
+    keys = await resolvePublishKeys(body, storage, options.locales);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message
+    });
+    return;
+  }
+
+  try {
+    const roles = requestRoles(req);
+    const author = requestAuthor(req);
+    const eligible: Array<{ key: string; draft: any }> = [];
+    const skipped: Array<{ key: string; reason: 'missing' | 'stage' | 'forbidden'; stage?: string }> = [];
+
+    for (const key of keys) {
+      const draft = await storage.get(draftKey(key));
+      if (draft === null || draft === undefined) {
+        skipped.push({ key, reason: 'missing' });
+        continue;
+      }
+      const stage = currentStage(await getWorkflowState(storage, key), getStoredVersion(draft));
+      if (!stageActions(stage, workflow).includes(action)) {
+        skipped.push({ key, reason: 'stage', stage });
+      } else if (!availableActions(stage, roles, workflow).includes(action)) {
+        skipped.push({ key, reason: 'forbidden', stage });
+      } else {
+        eligible.push({ key, draft });
+      }
+    }
+
+    if (eligible.length === 0) {
+      const status = skipped.some(item => item.reason === 'forbidden') ? 403
+        : skipped.some(item => item.reason === 'stage') ? 409 : 404;
+      res.status(status).json({
+        success: false,
+        error: status === 403 ? 'Insufficient permissions'
+          : status === 409 ? `Changes can't be ${WORKFLOW_VERBS[action]} in their current stage`
+          : 'No pending changes',
+        skipped
+      });
+      return;
+    }
+
+    const items: any[] = [];
+    const events: WorkflowEvent[] = [];
+    for (const { key, draft } of eligible) {
+      const sight = draft.sight ?? key.split(':')[0];
+      const { state, transition } = await applyWorkflowAction(storage, {
+        key,
+        sight,
+        version: getStoredVersion(draft),
+        action,
+        by: author,
+        comment: comment || undefined
+      }, workflow);
+      items.push(toWorkflowItem(key, draft, state, roles, workflow));
+      events.push({ key, sight, ...transition });
+    }
+    await notifyTransitions(options, events, req);
+
+    res.json({
+      success: true,
+      items,
+      skipped
+    });
+  } catch (error) {
+    console.error('Error updating workflow:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update workflow'
+    });
+  }
+}
+
+/**
+ * Revision history of a single content key:
+ *   GET  /history/:sight?recordId=&id=&limit=          revisions, newest first
+ *   GET  /history/:sight/diff?from=&to=&recordId=&id=   compare two revisions (to defaults to the latest)
+ *   POST /history/:sight/restore { revision, recordId?, id?, expectedVersion? }
+ */
+async function handleHistory(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const target = resolveHistoryTarget(req, req.query || {}, '', options.locales);
+  if ('error' in target) {
+    res.status(400).json({
+      success: false,
+      error: target.error
+    });
+    return;
+  }
+
+  const limit = revisionLimit(options);
+  const requested = Number(req.query?.limit);
+  const count = Number.isInteger(requested) && requested > 0 ? Math.min(requested, limit) : limit;
+
+  try {
+    const revisions = await listRevisions(storage, target.key, count);
+
+    res.json({
+      success: true,
+      sight: target.sight,
+      key: target.key,
+      revisions: revisions.map(toRevisionEntry)
+    });
+  } catch (error) {
+    console.error('Error listing revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve revision history'
+    });
+  }
+}
+
+async function handleRevisionDiff(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const query = req.query || {};
+  const target = resolveHistoryTarget(req, query, '/diff', options.locales);
+  if ('error' in target) {
+    res.status(400).json({
+      success: false,
+      error: target.error
+    });
+    return;
+  }
+
+  const fromId = parseRevisionId(query.from);
+  const toId = query.to === undefined ? undefined : parseRevisionId(query.to);
+  if (fromId === null || toId === null) {
+    res.status(400).json({
+      success: false,
+      error: 'from and to must be revision ids'
+    });
+    return;
+  }
+
+  try {
+    const revisions = await listRevisions(storage, target.key, revisionLimit(options));
+    const from = revisions.find(revision => revision.id === fromId);
+    const to = toId === undefined ? revisions[0] : revisions.find(revision => revision.id === toId);
+
+    if (!from || !to) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found'
+      });
+      return;
+    }
+
+    const fromEntry = toRevisionEntry(from);
+    const toEntry = toRevisionEntry(to);
+
+    res.json({
+      success: true,
+      from: fromEntry,
+      to: toEntry,
+      diff: diffValues(fromEntry.value, toEntry.value)
+    });
+  } catch (error) {
+    console.error('Error diffing revisions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to diff revisions'
+    });
+  }
+}
+
+/**
+ * Writes an old revision back as the current working copy (a draft when drafts are enabled).
+ * The restore is itself recorded, so it can be rolled back like any other save.
+ */
+async function handleRevisionRestore(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const body = req.body || {};
+  const target = resolveHistoryTarget(req, body, '/restore', options.locales);
+  if ('error' in target) {
+    res.status(400).json({
+      success: false,
+      error: target.error
+    });
+    return;
+  }
+
+  const revisionId = parseRevisionId(body.revision);
+  if (revisionId === null) {
+    res.status(400).json({
+      success: false,
+      error: 'revision must be a revision id'
+    });
+    return;
+  }
+
+  try {
+    const revision = await getRevision(storage, target.key, revisionId, revisionLimit(options));
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found'
+      });
+      return;
+    }
+
+    const drafts = !!options.drafts;
+    const existing = await getWorkingCopy(storage, target.key, drafts);
+    const expected = typeof body.expectedVersion === 'number'
+      ? { sight: target.sight, value: null, type: 'text', expectedVersion: body.expectedVersion }
+      : undefined;
+
+    const conflict = detectVersionConflict(target.key, expected, existing);
+    if (conflict) {
+      res.status(409).json({
+        success: false,
+        error: 'Version conflict',
+        conflict
+      });
+      return;
+    }
+
+    const entry = toRevisionEntry(revision);
+    let data: SaveData = {
+      sight: entry.sight,
+      value: entry.value,
+      type: entry.type,
+      ...(revision.record?.id ? { id: revision.record.id } : {}),
+      ...(revision.record?.context ? { context: revision.record.context } : {}),
+      ...(revision.record?.locale ? { locale: revision.record.locale } : {})
+    };
+
+    if (options.beforeSave) {
+      data = await options.beforeSave(data);
+    }
+    data.timestamp = nextVersion(existing);
+
+    const write: StorageWrite = { type: 'set', key: drafts ? draftKey(target.key) : target.key, value: data };
+    await storage.set(write.key, write.value);
+    await recordRevisions(storage, [write], requestAuthor(req), options, 'restore', revision.id);
+
+    if (options.afterSave) {
+      await options.afterSave(data, { key: target.key, draft: drafts, restoredFrom: revision.id });
+    }
+    await notifyWebhooks(storage, options, requestAuthor(req), 'save', [
+      { ...toWebhookItem(target.key, data, drafts ? 'draft' : 'published'), restoredFrom: revision.id }
+    ]);
+
+    res.json({
+      success: true,
+      data: data.value,
+      version: data.timestamp,
+      status: drafts ? 'draft' : 'published',
+      restoredFrom: revision.id
+    });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore revision'
+    });
+  }
+}
+
+/**
+ * Read stored content back out of storage.
+ * GET /content/:sight            - single sight (optional ?recordId=&id=)
+ * GET /content?sights=a,b,c       - bulk by list of sights (optional ?recordId=)
+ * GET /content?prefix=home.       - every sight under a page/section prefix
+ * All of them take ?locale=; untranslated sights are served from the fallback chain.
+ */
+async function handleContent(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: { drafts?: boolean; locales?: LocaleOptions } = {}
+): Promise<void> {
+  const urlPath = req.path || req.url || '';
+  const query = req.query || {};
+  const recordId = typeof query.recordId === 'string' ? query.recordId : undefined;
+  const id = typeof query.id === 'string' ? query.id : undefined;
+  // Public reads only ever see published content; editors may ask for their drafts
+  const includeDrafts = !!options.drafts && query.draft === 'true';
+  const read = async (key: string): Promise<ContentEntry | null> => {
+    if (!isContentKey(key)) {
+      return null;
+    }
+    if (includeDrafts) {
+      const draft = await storage.get(draftKey(key));
+      if (draft !== null && draft !== undefined) {
+        return toContentEntry(key, draft, 'draft');
+      }
+    }
+    const stored = await storage.get(key);
+    return stored === null || stored === undefined ? null : toContentEntry(key, stored, 'published');
+  };
+
+  if ((recordId && !isValidContextValue(recordId)) || (id && !isValidContextValue(id))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid recordId or id'
+    });
+    return;
+  }
+
+  const requested = resolveLocale(query.locale, options.locales);
+  if ('error' in requested) {
+    res.status(400).json({
+      success: false,
+      error: requested.error
+    });
+    return;
+  }
+  const chain = fallbackChain(requested.locale, options.locales);
+  const readLocalized = async (key: string): Promise<ContentEntry | null> => {
+    for (const locale of chain) {
+      const entry = await read(localizedKey(key, locale));
+      if (entry) {
+        return options.locales
+          ? { ...entry, locale: locale || options.locales.default, fallback: locale !== requested.locale }
+          : entry;
+      }
+    }
+    return null;
+  };
+
+  try {
+    // Single sight
+    if (req.params?.sight || /\/content\/[^/]+$/.test(urlPath.split('?')[0])) {
+      const sightParam = req.params?.sight || extractSightFromPath(urlPath, 'content');
+
+      if (!sightParam || !isValidSightIdentifier(sightParam)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid sight identifier'
+        });
+        return;
+      }
+
+      const key = generateKey({ sight: sightParam, value: null, type: 'text', id, context: recordId ? { recordId } : undefined });
+      const entry = await readLocalized(key);
+
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          error: 'Content not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: entry
+      });
+      return;
+    }
+
+    // Bulk by list of sights
+    const sights = parseSightList(query.sights);
+    if (sights) {
+      const MAX_SIGHTS = 100;
+      if (sights.length === 0 || sights.length > MAX_SIGHTS || !sights.every(isValidSightIdentifier)) {
+        res.status(400).json({
+          success: false,
+          error: `sights must be a list of 1-${MAX_SIGHTS} valid sight identifiers`
+        });
+        return;
+      }
+
+      const items: ContentEntry[] = [];
+      const missing: string[] = [];
+
+      for (const sight of sights) {
+        const key = generateKey({ sight, value: null, type: 'text', context: recordId ? { recordId } : undefined });
+        const entry = await readLocalized(key);
+        if (!entry) {
+          missing.push(sight);
+        } else {
+          items.push(entry);
+        }
+      }
+
+      res.json({
+        success: true,
+        items,
+        missing
+      });
+      return;
+    }
+
+    // By page/section prefix
+    if (typeof query.prefix === 'string') {
+      const prefix = query.prefix;
+      if (prefix.length === 0 || prefix.length > 100 || !/^[a-zA-Z0-9_.-]+$/.test(prefix)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid prefix'
+        });
+        return;
+      }
+
+      // Translations share their default-locale key, so each sight is read once through the chain
+      const keys = new Set((await storage.list(prefix)).filter(isContentKey).map(key => splitLocalizedKey(key).key));
+      if (includeDrafts) {
+        (await storage.list(draftKey(prefix))).forEach(key => keys.add(splitLocalizedKey(key.slice(DRAFT_PREFIX.length)).key));
+      }
+      const items: ContentEntry[] = [];
+
+      for (const key of keys) {
+        const entry = await readLocalized(key);
+        if (entry) {
+          items.push(entry);
+        }
+      }
+
+      res.json({
+        success: true,
+        items
+      });
+      return;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: 'Specify a sight, a sights list or a prefix'
+    });
+  } catch (error) {
+    console.error('Error handling content request:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve content'
+    });
+  }
+}
+
+/**
+ * Content without a translation in some locales, for translators to work through
+ * GET /translations/missing?locale=de&prefix=home.   (locale defaults to every non-default locale)
+ */
+async function handleMissingTranslations(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: { locales?: LocaleOptions } = {}
+): Promise<void> {
+  const query = req.query || {};
+  const locales = options.locales;
+  if (!locales) {
+    res.status(400).json({
+      success: false,
+      error: 'Localization is not enabled'
+    });
+    return;
+  }
+
+  let targets = locales.supported.filter(locale => locale !== locales.default);
+  if (query.locale !== undefined) {
+    const requested = resolveLocale(query.locale, locales);
+    if ('error' in requested || !requested.locale) {
+      res.status(400).json({
+        success: false,
+        error: 'error' in requested ? requested.error : 'The default locale has nothing to translate from'
+      });
+      return;
+    }
+    targets = [requested.locale];
+  }
+
+  const prefix = typeof query.prefix === 'string' ? query.prefix : undefined;
+  if (prefix !== undefined && (prefix.length === 0 || prefix.length > 100 || !/^[a-zA-Z0-9_.-]+$/.test(prefix))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid prefix'
+    });
+    return;
+  }
+
+  try {
+    const items = await findMissingTranslations(storage, targets, prefix);
+    res.json({
+      success: true,
+      defaultLocale: locales.default,
+      locales: targets,
+      items
+    });
+  } catch (error) {
+    console.error('Error listing missing translations:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list missing translations'
+    });
+  }
+}
+
+/**
+ * Multer configuration for file uploads
+ */
+const uploadStorage = multer.memoryStorage();
+
+const upload = multer({
+  storage: uploadStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+    files: 10 // Max 10 files per request
+  },
+  fileFilter: (req, file, cb) => {
+    // Allowed file types
+    const allowedMimes = [
+      'image/jpeg',
+      'image/png',
+      'image/gif',
+      'image/webp',
+      'image/svg+xml',
+      'video/mp4',
+      'video/webm',
+      'audio/mpeg',
+      'audio/wav',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain',
+      'text/csv'
+    ];
+
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype} not allowed`));
+    }
+  }
+});
+
+async function handleUpload(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  // Use multer to handle multipart/form-data
+  upload.array('files', 10)(req, res, async (err) => {
+    if (err) {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return res.status(413).json({
+            success: false,
+            error: 'File too large. Maximum size is 10MB'
+          });
+        }
+        if (err.code === 'LIMIT_FILE_COUNT') {
+          return res.status(400).json({
+            success: false,
+            error: 'Too many files. Maximum is 10 files per request'
+          });
+        }
+      }
+      
+      return res.status(400).json({
+        success: false,
+        error: err.message || 'Upload failed'
+      });
+    }
+
+    try {
+      const files = req.files as Express.Multer.File[];
+      
+      if (!files || files.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No files uploaded'
+        });
+      }
+
+      const uploadResults: any[] = [];
+      const uploadDir = options.storagePath || './uploads';
+      
+      // Ensure upload directory exists
+      await fs.mkdir(uploadDir, { recursive: true });
+
+      for (const file of files) {
+        try {
+          // Generate unique filename
+          const timestamp = Date.now();
+          const random = crypto.randomBytes(8).toString('hex');
+          const extension = path.extname(file.originalname);
+          const filename = `${timestamp}-${random}${extension}`;
+          const filepath = path.join(uploadDir, filename);
+          let details: Record<string, any> = {};
+
+          // Process images
+          if (file.mimetype.startsWith('image/')) {
+            // Resize and optimize images
+            const imageBuffer = await processImage(file.buffer, file.mimetype);
+            
+            // Save processed image
+            await fs.writeFile(filepath, imageBuffer);
+            
+            // Generate thumbnail
+            const thumbnailFilename = `${timestamp}-${random}-thumb${extension}`;
+            const thumbnailPath = path.join(uploadDir, thumbnailFilename);
+            const thumbnailBuffer = await sharp(file.buffer)
+              .resize(200, 200, { fit: 'cover' })
+              .toBuffer();
+            await fs.writeFile(thumbnailPath, thumbnailBuffer);
+
+            // Get image metadata
+            const metadata = await sharp(imageBuffer).metadata();
+            const variants = await generateVariants(imageBuffer, filename, uploadDir, options.images);
+
+            uploadResults.push({
+              success: true,
+              id: filename,
+              originalName: file.originalname,
+              filename: filename,
+              thumbnailFilename: thumbnailFilename,
+              url: `/uploads/${filename}`,
+              thumbnailUrl: `/uploads/${thumbnailFilename}`,
+              mimetype: file.mimetype,
+              size: file.size,
+              width: metadata.width,
+              height: metadata.height,
+              format: metadata.format,
+              variants: variants.map(({ width, height, format, url }) => ({ width, height, format, url }))
+            });
+            details = {
+              thumbnailFilename,
+              thumbnailUrl: `/uploads/${thumbnailFilename}`,
+              width: metadata.width,
+              height: metadata.height,
+              variants
+            };
+          } else {
+            // Save non-image files directly
+            await fs.writeFile(filepath, file.buffer);
+            
+            uploadResults.push({
+              success: true,
+              id: filename,
+              originalName: file.originalname,
+              filename: filename,
+              url: `/uploads/${filename}`,
+              mimetype: file.mimetype,
+              size: file.size
+            });
+          }
+
+          // Register the file in the media library
+          const record = {
+            originalName: file.originalname,
+            filename: filename,
+            url: `/uploads/${filename}`,
+            ...details,
+            mimetype: file.mimetype,
+            size: file.size,
+            alt: typeof req.body?.alt === 'string' ? req.body.alt.slice(0, 500) : '',
+            tags: normalizeTags(req.body?.tags ?? []) || [],
+            uploadedAt: new Date().toISOString(),
+            uploadedBy: (req as any).user?.id || 'anonymous'
+          };
+          await storage.set(assetKey(filename), record);
+          uploadResults[uploadResults.length - 1].asset = toMediaAsset(filename, record);
+
+        } catch (fileError) {
+          uploadResults.push({
+            success: false,
+            originalName: file.originalname,
+            error: `Failed to process ${file.originalname}: ${fileError}`
+          });
+        }
+      }
+
+      await notifyWebhooks(storage, options, requestAuthor(req), 'upload', uploadResults.filter(result => result.asset).map(result => result.asset));
+
+      res.json({
+        success: true,
+        files: uploadResults
+      });
+
+    } catch (error) {
+      console.error('Upload error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during upload'
+      });
+    }
+  });
+}
+
+/**
+ * Media library:
+ *   GET    /assets?q=&type=&tag=&page=&limit=   search uploads, newest first
+ *   GET    /assets/:id                          one asset and the content using it
+ *   PATCH  /assets/:id { alt?, tags?, focalPoint? }
+ *   DELETE /assets/:id?force=true               refused with 409 while content references it, unless forced
+ */
+async function handleAssets(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter
+): Promise<void> {
+  const query = req.query || {};
+  const page = Number(query.page);
+  const limit = Number(query.limit);
+  const text = (value: unknown) => (typeof value === 'string' && value.length <= 200 ? value : undefined);
+
+  try {
+    const result = searchAssets(await listAssets(storage), {
+      q: text(query.q),
+      type: text(query.type),
+      tag: text(query.tag),
+      page: Number.isInteger(page) && page > 0 ? page : 1,
+      limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_ASSET_PAGE_SIZE) : DEFAULT_ASSET_PAGE_SIZE
+    });
+
+    res.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error listing assets:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list assets'
+    });
+  }
+}
+
+async function handleAsset(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter
+): Promise<void> {
+  const asset = await loadAsset(req, res, storage);
+  if (!asset) return;
+
+  try {
+    res.json({
+      success: true,
+      asset,
+      references: await findAssetReferences(storage, asset)
+    });
+  } catch (error) {
+    console.error('Error reading asset:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve asset'
+    });
+  }
+}
+
+async function handleAssetUpdate(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const asset = await loadAsset(req, res, storage);
+  if (!asset) return;
+
+  const body = req.body || {};
+  if (body.alt !== undefined && (typeof body.alt !== 'string' || body.alt.length > 500)) {
+    res.status(400).json({
+      success: false,
+      error: 'Alt text must be a string of at most 500 characters'
+    });
+    return;
+  }
+
+  const tags = body.tags === undefined ? asset.tags : normalizeTags(body.tags);
+  if (!tags) {
+    res.status(400).json({
+      success: false,
+      error: 'Tags must be a list of strings'
+    });
+    return;
+  }
+
+  if (body.focalPoint !== undefined && body.focalPoint !== null && !isFocalPoint(body.focalPoint)) {
+    res.status(400).json({
+      success: false,
+      error: 'Focal point must have x and y between 0 and 1'
+    });
+    return;
+  }
+
+  try {
+    const key = assetKey(asset.id);
+    const stored = await storage.get(key);
+    const focalPoint = body.focalPoint === undefined ? stored.focalPoint : body.focalPoint || undefined;
+    let variants = stored.variants;
+
+    // Crops are placed around the focal point, so moving it invalidates them
+    if (body.focalPoint !== undefined && asset.mimetype.startsWith('image/')) {
+      const uploadDir = options.storagePath || './uploads';
+      await clearTransformCache(uploadDir, asset.filename);
+      if (resolveVariantOptions(options.images).aspectRatio) {
+        const original = await fs.readFile(path.join(uploadDir, asset.filename));
+        variants = await generateVariants(original, asset.filename, uploadDir, options.images, focalPoint);
+      }
+    }
+
+    await storage.set(key, {
+      ...stored,
+      alt: body.alt ?? asset.alt,
+      tags,
+      focalPoint,
+      variants
+    });
+
+    res.json({
+      success: true,
+      asset: toMediaAsset(asset.id, await storage.get(key))
+    });
+  } catch (error) {
+    console.error('Error updating asset:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update asset'
+    });
+  }
+}
+
+async function handleAssetDelete(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const asset = await loadAsset(req, res, storage);
+  if (!asset) return;
+
+  try {
+    const references = await findAssetReferences(storage, asset);
+    if (references.length > 0 && req.query?.force !== 'true') {
+      res.status(409).json({
+        success: false,
+        error: `Asset is used by ${references.length} content item(s)`,
+        references
+      });
+      return;
+    }
+
+    const uploadDir = options.storagePath || './uploads';
+    const stored = await storage.get(assetKey(asset.id));
+    const variants = Array.isArray(stored?.variants) ? stored.variants.map((variant: any) => variant.filename) : [];
+    const files = [asset.filename, stored?.thumbnailFilename, ...variants].filter(
+      (filename): filename is string => typeof filename === 'string' && isValidAssetId(filename)
+    );
+    await Promise.all(files.map(filename => fs.rm(path.join(uploadDir, filename), { force: true })));
+    await clearTransformCache(uploadDir, asset.filename);
+    await storage.delete(assetKey(asset.id));
+
+    res.json({
+      success: true,
+      id: asset.id,
+      references
+    });
+  } catch (error) {
+    console.error('Error deleting asset:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete asset'
+    });
+  }
+}
+
+/**
+ * Outbound webhooks:
+ *   GET    /webhooks                                        registered webhooks, without their secrets
+ *   POST   /webhooks { url, events, sights?, description?, secret?, active? }   the secret is only returned here
+ *   GET    /webhooks/:id
+ *   PATCH  /webhooks/:id { url?, events?, sights?, description?, active?, rotateSecret? }
+ *   DELETE /webhooks/:id                                    removes the delivery log too
+ *   GET    /webhooks/:id/deliveries?limit=                  delivery log, newest first
+ *   POST   /webhooks/:id/deliveries/:deliveryId/redeliver   sends a logged payload again
+ */
+async function routeWebhooks(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  routePath: string
+): Promise<void> {
+  if (routePath === '/webhooks' && req.method === 'GET') {
+    await handleWebhooks(req, res, storage, options);
+  } else if (routePath === '/webhooks' && req.method === 'POST') {
+    await handleWebhookCreate(req, res, storage, options);
+  } else if (/^\/webhooks\/[^/]+$/.test(routePath) && req.method === 'GET') {
+    await handleWebhook(req, res, storage, options);
+  } else if (/^\/webhooks\/[^/]+$/.test(routePath) && req.method === 'PATCH') {
+    await handleWebhookUpdate(req, res, storage, options);
+  } else if (/^\/webhooks\/[^/]+$/.test(routePath) && req.method === 'DELETE') {
+    await handleWebhookDelete(req, res, storage, options);
+  } else if (/^\/webhooks\/[^/]+\/deliveries$/.test(routePath) && req.method === 'GET') {
+    await handleWebhookDeliveries(req, res, storage, options);
+  } else if (/^\/webhooks\/[^/]+\/deliveries\/[^/]+\/redeliver$/.test(routePath) && req.method === 'POST') {
+    await handleWebhookRedeliver(req, res, storage, options);
+  } else {
+    res.status(404).json({
+      success: false,
+      error: 'Not found'
+    });
+  }
+}
+
+async function handleWebhooks(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+
+  try {
+    res.json({
+      success: true,
+      webhooks: (await listWebhooks(storage)).map(toPublicWebhook)
+    });
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list webhooks'
+    });
+  }
+}
+
+async function handleWebhookCreate(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+
+  const input = parseWebhookInput(req.body, false);
+  if ('error' in input) {
+    res.status(400).json({
+      success: false,
+      error: input.error
+    });
+    return;
+  }
+
+  try {
+    const createdBy = (req as any).user?.id;
+    const webhook: Webhook = {
+      id: generateWebhookId(),
+      url: input.value.url!,
+      events: input.value.events!,
+      sights: input.value.sights || [],
+      secret: input.value.secret || generateWebhookSecret(),
+      active: input.value.active ?? true,
+      ...(input.value.description ? { description: input.value.description } : {}),
+      createdAt: new Date().toISOString(),
+      ...(createdBy ? { createdBy: String(createdBy) } : {})
+    };
+    await storage.set(webhookKey(webhook.id), webhook);
+
+    res.status(201).json({
+      success: true,
+      webhook: toPublicWebhook(webhook),
+      secret: webhook.secret
+    });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook'
+    });
+  }
+}
+
+async function handleWebhook(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+  const webhook = await loadWebhook(req, res, storage);
+  if (!webhook) return;
+
+  res.json({
+    success: true,
+    webhook: toPublicWebhook(webhook)
+  });
+}
+
+async function handleWebhookUpdate(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+  const webhook = await loadWebhook(req, res, storage);
+  if (!webhook) return;
+
+  const input = parseWebhookInput(req.body, true);
+  if ('error' in input) {
+    res.status(400).json({
+      success: false,
+      error: input.error
+    });
+    return;
+  }
+
+  try {
+    const rotated = req.body.rotateSecret === true ? generateWebhookSecret() : undefined;
+    const updated: Webhook = {
+      ...webhook,
+      ...input.value,
+      ...(rotated ? { secret: rotated } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    await storage.set(webhookKey(webhook.id), updated);
+
+    res.json({
+      success: true,
+      webhook: toPublicWebhook(updated),
+      ...(rotated ? { secret: rotated } : {})
+    });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook'
+    });
+  }
+}
+
+async function handleWebhookDelete(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+  const webhook = await loadWebhook(req, res, storage);
+  if (!webhook) return;
+
+  try {
+    await deleteWebhook(storage, webhook.id);
+    res.json({
+      success: true,
+      id: webhook.id
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook'
+    });
+  }
+}
+
+async function handleWebhookDeliveries(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  if (!requireWebhooks(res, options)) return;
+  const webhook = await loadWebhook(req, res, storage);
+  if (!webhook) return;
+
+  const limit = Number(req.query?.limit);
+  try {
+    res.json({
+      success: true,
+      deliveries: await listDeliveries(storage, webhook.id, Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : 50)
+    });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list deliveries'
+    });
+  }
+}
+
+async function handleWebhookRedeliver(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions
+): Promise<void> {
+  const config = requireWebhooks(res, options);
+  if (!config) return;
+  const webhook = await loadWebhook(req, res, storage);
+  if (!webhook) return;
+
+  const deliveryId = req.params?.deliveryId || (req.path || req.url || '').match(/\/deliveries\/([^/]+)\/redeliver$/)?.[1];
+  const delivery = deliveryId && isValidWebhookId(deliveryId) ? await getDelivery(storage, webhook.id, deliveryId) : null;
+  if (!delivery) {
+    res.status(404).json({
+      success: false,
+      error: 'Delivery not found'
+    });
+    return;
+  }
+
+  try {
+    res.status(202).json({
+      success: true,
+      delivery: await getWebhookDispatcher(storage, config).redeliver(webhook, delivery)
+    });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to redeliver webhook'
+    });
+  }
+}
+
+/**
+ * Answers 400 when webhooks aren't enabled
+ */
+function requireWebhooks(res: Response, options: SightEditHandlerOptions): WebhookOptions | null {
+  const config = webhookOptions(options);
+  if (!config) {
+    res.status(400).json({
+      success: false,
+      error: 'Webhooks are not enabled'
+    });
+  }
+  return config;
+}
+
+/**
+ * Resolves the webhook addressed by the path, answering 400/404 itself when there is none
+ */
+async function loadWebhook(req: Request, res: Response, storage: StorageAdapter): Promise<Webhook | null> {
+  const id = req.params?.id || (req.path || req.url || '').match(/^\/webhooks\/([^/]+)/)?.[1];
+  if (!id || !isValidWebhookId(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid webhook ID'
+    });
+    return null;
+  }
+
+  const webhook = await getWebhook(storage, id);
+  if (!webhook) {
+    res.status(404).json({
+      success: false,
+      error: 'Webhook not found'
+    });
+    return null;
+  }
+  return webhook;
+}
+
+/**
+ * Serves `/uploads/<file>?w=&h=&fit=&format=&q=`. Returns false when the request has no
+ * transform parameters or isn't for a transformable image, so the file is served as is.
+ */
+async function handleImageTransform(
+  req: Request,
+  res: Response,
+  storage: StorageAdapter,
+  filename: string,
+  options: SightEditHandlerOptions
+): Promise<boolean> {
+  const transform = parseTransform(req.query || {}, options.images);
+  const original = toImageFormat(path.extname(filename).slice(1).toLowerCase());
+  if (!transform || !original) {
+    return false;
+  }
+
+  if ('error' in transform) {
+    res.status(400).json({
+      success: false,
+      error: transform.error
+    });
+    return true;
+  }
+
+  const uploadDir = options.storagePath || './uploads';
+  const format = transform.format === 'auto'
+    ? negotiateFormat(req.headers?.accept, original, options.images)
+    : transform.format || original;
+
+  try {
+    await fs.access(path.join(uploadDir, filename));
+  } catch {
+    res.status(404).json({
+      success: false,
+      error: 'File not found'
+    });
+    return true;
+  }
+
+  try {
+    const stored = isValidAssetId(filename) ? await storage.get(assetKey(filename)) : null;
+    const filepath = await transformImage(uploadDir, filename, { ...transform, format }, {
+      focalPoint: stored?.focalPoint,
+      variants: stored?.variants,
+      quality: options.images?.quality
+    });
+
+    res.setHeader('Content-Type', IMAGE_MIME_TYPES[format]);
+    // Uploads can sit behind auth, so shared caches must not keep them
+    res.setHeader('Cache-Control', 'private, max-age=31536000');
+    if (transform.format === 'auto') {
+      res.setHeader('Vary', 'Accept');
+    }
+    res.send(await fs.readFile(filepath));
+  } catch (error) {
+    console.error('Image transform error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to transform image'
+    });
+  }
+  return true;
+}
+
+/**
+ * Resolves the asset addressed by the path, answering 400/404 itself when there is none
+ */
+async function loadAsset(req: Request, res: Response, storage: StorageAdapter) {
+  const id = req.params?.id || extractSightFromPath(req.path || req.url || '', 'assets');
+  if (!id || !isValidAssetId(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid asset ID'
+    });
+    return null;
+  }
 
-    } catch (error) {
-      console.error('Upload error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error during upload'
-      });
-    }
-  });
+  const stored = await storage.get(assetKey(id));
+  if (!stored || typeof stored !== 'object') {
+    res.status(404).json({
+      success: false,
+      error: 'Asset not found'
+    });
+    return null;
+  }
+
+  return toMediaAsset(id, stored);
 }
 
 /**
@@ -1586,7 +4803,7 @@ function generateKey(data: SaveData): string {
     parts.push(data.id);
   }
   
-  return parts.join(':');
+  return localizedKey(parts.join(':'), data.locale);
 }
 
 /**
@@ -1619,6 +4836,11 @@ function isValidSightIdentifier(sight: string): boolean {
   if (reservedNames.some(name => lowerSight === name || lowerSight.startsWith(name + '.'))) {
     return false;
   }
+
+  // Keys start with the sight, so these would reach drafts, schemas and other internal entries
+  if (!isContentKey(`${sight}:`)) {
+    return false;
+  }
   
   return true;
 }
@@ -1626,7 +4848,7 @@ function isValidSightIdentifier(sight: string): boolean {
 /**
  * Extracts sight identifier from URL path safely
  */
-function extractSightFromPath(urlPath: string): string | null {
+function extractSightFromPath(urlPath: string, route: string = 'schema', suffix: string = ''): string | null {
   if (!urlPath || typeof urlPath !== 'string') {
     return null;
   }
@@ -1634,8 +4856,8 @@ function extractSightFromPath(urlPath: string): string | null {
   // Remove query string and fragments
   const cleanPath = urlPath.split('?')[0].split('#')[0];
   
-  // Extract sight from /schema/{sight} pattern
-  const match = cleanPath.match(/^\/schema\/([^/]+)$/);
+  // Extract sight from /{route}/{sight}{suffix} pattern (optionally mounted under /api)
+  const match = cleanPath.match(new RegExp(`^(?:/api)?/${route}/([^/]+)${suffix}$`));
   if (!match) {
     return null;
   }
@@ -1650,6 +4872,475 @@ function extractSightFromPath(urlPath: string): string | null {
   return sight;
 }
 
+/**
+ * Validates a recordId / id used to build storage keys
+ */
+function isValidContextValue(value: string): boolean {
+  return value.length > 0 && value.length <= 100 && /^[a-zA-Z0-9_.-]+$/.test(value);
+}
+
+/**
+ * Parses a sights list from a query parameter (comma separated or repeated)
+ */
+function parseSightList(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null) {
+    return null;
+  }
+
+  const values = Array.isArray(raw) ? raw : [raw];
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+/**
+ * Internal entries (schemas, file metadata, ...) are never served as content
+ */
+export function isContentKey(key: string): boolean {
+  return !key.startsWith('_') && !key.startsWith('file:');
+}
+
+/**
+ * Maps a stored record to the public content shape
+ */
+function toContentEntry(key: string, stored: any, status?: ContentEntry['status']): ContentEntry {
+  // Records written through handleSave are SaveData; anything else is treated as a raw value
+  if (stored && typeof stored === 'object' && 'sight' in stored && 'value' in stored) {
+    return {
+      key,
+      sight: stored.sight,
+      value: stored.value,
+      type: stored.type || 'text',
+      id: stored.id,
+      context: stored.context,
+      version: stored.timestamp,
+      status,
+      publishedAt: stored.publishedAt
+    };
+  }
+
+  return {
+    key,
+    sight: splitLocalizedKey(key).key.split(':')[0],
+    value: stored,
+    type: 'text',
+    status
+  };
+}
+
+// Drafts are stored under the content key with this prefix
+export const DRAFT_PREFIX = '_draft:';
+
+function draftKey(key: string): string {
+  return `${DRAFT_PREFIX}${key}`;
+}
+
+/**
+ * The record an edit starts from: the pending draft, or the published record when there is none
+ */
+async function getWorkingCopy(storage: StorageAdapter, key: string, drafts: boolean): Promise<any> {
+  if (drafts) {
+    const draft = await storage.get(draftKey(key));
+    if (draft !== null && draft !== undefined) {
+      return draft;
+    }
+  }
+  return storage.get(key);
+}
+
+/**
+ * The authenticated user behind a request, as recorded in revisions and webhook payloads
+ */
+function requestAuthor(req: Request): RevisionAuthor | undefined {
+  const user = (req as any).user;
+  return user?.id ? { id: String(user.id), ...(user.name ? { name: user.name } : {}) } : undefined;
+}
+
+function revisionLimit(options: SightEditHandlerOptions): number {
+  return options.maxRevisions ?? DEFAULT_MAX_REVISIONS;
+}
+
+/**
+ * Records a revision for every content record in a set of applied writes.
+ * History is best-effort: a failure is logged and never fails the write itself.
+ */
+async function recordRevisions(
+  storage: StorageAdapter,
+  writes: StorageWrite[],
+  author: RevisionAuthor | undefined,
+  options: SightEditHandlerOptions,
+  action: ContentRevision['action'],
+  restoredFrom?: number
+): Promise<void> {
+  const limit = revisionLimit(options);
+  if (limit <= 0) {
+    return;
+  }
+
+  const createdAt = new Date().toISOString();
+
+  for (const write of writes) {
+    if (write.type !== 'set') continue;
+
+    const isDraft = write.key.startsWith(DRAFT_PREFIX);
+    const key = isDraft ? write.key.slice(DRAFT_PREFIX.length) : write.key;
+    if (!isContentKey(key)) continue;
+
+    try {
+      await recordRevision(storage, {
+        key,
+        sight: write.value?.sight ?? key.split(':')[0],
+        action,
+        status: isDraft ? 'draft' : 'published',
+        version: getStoredVersion(write.value) ?? undefined,
+        record: write.value,
+        author,
+        createdAt,
+        ...(restoredFrom !== undefined ? { restoredFrom } : {})
+      }, limit);
+    } catch (error) {
+      console.error('Failed to record revision:', key, error);
+    }
+  }
+}
+
+function webhookOptions(options: SightEditHandlerOptions): WebhookOptions | null {
+  if (!options.webhooks) {
+    return null;
+  }
+  return options.webhooks === true ? {} : options.webhooks;
+}
+
+/**
+ * Queues webhook deliveries for an event. Like revision history this is best-effort:
+ * a failure is logged and never fails the request.
+ */
+async function notifyWebhooks(
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  author: RevisionAuthor | undefined,
+  event: WebhookEvent,
+  items: WebhookItem[]
+): Promise<void> {
+  const config = webhookOptions(options);
+  if (!config || items.length === 0) {
+    return;
+  }
+
+  try {
+    await getWebhookDispatcher(storage, config).emit(event, items, author?.id);
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error);
+  }
+}
+
+/**
+ * A batch is reported once as `batch`, and its deletions again as `delete`
+ */
+async function notifyBatchWebhooks(
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  req: Request,
+  applied: Array<{ operation: BatchOperation; writes: StorageWrite[] }>
+): Promise<void> {
+  const items: WebhookItem[] = applied.map(({ operation, writes }) => {
+    const key = generateKey(operation.data);
+    const saved = writes.find(write => write.type === 'set');
+    if (saved && saved.type === 'set') {
+      const status = saved.key.startsWith(DRAFT_PREFIX) ? 'draft' : 'published';
+      return { operation: operation.type, ...toWebhookItem(key, saved.value, status) };
+    }
+    return {
+      operation: operation.type,
+      key,
+      sight: operation.data.sight,
+      ...(operation.data.id ? { id: operation.data.id } : {}),
+      ...(operation.data.locale ? { locale: operation.data.locale } : {})
+    };
+  });
+
+  const author = requestAuthor(req);
+  await notifyWebhooks(storage, options, author, 'batch', items);
+  await notifyWebhooks(storage, options, author, 'delete', items.filter(item => item.operation === 'delete'));
+}
+
+function commentOptions(options: SightEditHandlerOptions): CommentOptions | null {
+  if (!options.comments) {
+    return null;
+  }
+  return options.comments === true ? {} : options.comments;
+}
+
+/**
+ * Answers 400 when comments aren't enabled
+ */
+function requireComments(res: Response, options: SightEditHandlerOptions): CommentOptions | null {
+  const config = commentOptions(options);
+  if (!config) {
+    res.status(400).json({
+      success: false,
+      error: 'Comments are not enabled'
+    });
+  }
+  return config;
+}
+
+/**
+ * The thread addressed by the request path; answers 400 or 404 when there is none
+ */
+async function findCommentThread(req: Request, res: Response, storage: StorageAdapter): Promise<CommentThread | null> {
+  const id = req.params?.id || (req.path || req.url || '').match(/^\/comments\/([^/?]+)/)?.[1];
+  if (!id || !isValidCommentId(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid comment ID'
+    });
+    return null;
+  }
+
+  const thread = await getCommentThread(storage, id);
+  if (!thread) {
+    res.status(404).json({
+      success: false,
+      error: 'Comment thread not found'
+    });
+  }
+  return thread;
+}
+
+function parseCommentBody(raw: unknown, options: CommentOptions): string | { error: string } {
+  const maxLength = options.maxLength ?? DEFAULT_COMMENT_LENGTH;
+  if (typeof raw !== 'string' || raw.trim().length === 0) {
+    return { error: 'Comment body is required' };
+  }
+  if (raw.length > maxLength) {
+    return { error: `Comment body must be at most ${maxLength} characters` };
+  }
+  return raw.trim();
+}
+
+function isValidCommentPage(page: unknown): page is string {
+  return typeof page === 'string' && page.length > 0 && page.length <= 500;
+}
+
+/**
+ * Tells onMention who was mentioned. Best-effort: a failure never fails the comment.
+ */
+async function notifyMentions(options: CommentOptions, thread: CommentThread, comment: ThreadComment): Promise<void> {
+  if (!options.onMention || comment.mentions.length === 0) {
+    return;
+  }
+  try {
+    await options.onMention(comment.mentions, thread, comment);
+  } catch (error) {
+    console.error('Failed to notify mentioned users:', error);
+  }
+}
+
+const MAX_WORKFLOW_COMMENT = 2000;
+
+const WORKFLOW_VERBS: Record<WorkflowAction, string> = {
+  submit: 'submitted',
+  approve: 'approved',
+  reject: 'rejected'
+};
+
+/**
+ * Answers 400 unless a workflow is configured on top of drafts
+ */
+function requireWorkflow(res: Response, options: SightEditHandlerOptions): WorkflowOptions | null {
+  if (!options.drafts || !options.workflow) {
+    res.status(400).json({
+      success: false,
+      error: 'Approval workflow is not enabled'
+    });
+    return null;
+  }
+  return options.workflow;
+}
+
+function requestRoles(req: Request): string[] {
+  const roles = (req as any).user?.roles;
+  return Array.isArray(roles) ? roles.map(String) : [];
+}
+
+function toWorkflowItem(
+  key: string,
+  draft: any,
+  state: WorkflowState | null,
+  roles: string[],
+  workflow: WorkflowOptions
+): Record<string, any> {
+  const version = getStoredVersion(draft);
+  const stage = currentStage(state, version);
+  return {
+    key,
+    sight: draft.sight ?? key.split(':')[0],
+    ...(draft.context?.recordId ? { recordId: draft.context.recordId } : {}),
+    ...(draft.id ? { id: draft.id } : {}),
+    ...(draft.locale ? { locale: draft.locale } : {}),
+    stage,
+    stageName: stageName(stage, workflow),
+    version,
+    history: state?.history ?? [],
+    actions: availableActions(stage, roles, workflow)
+  };
+}
+
+/**
+ * Whether the draft was approved as it is now; any edit after approval needs a new review
+ */
+async function isApproved(storage: StorageAdapter, key: string, draft: any): Promise<boolean> {
+  return currentStage(await getWorkflowState(storage, key), getStoredVersion(draft)) === APPROVED_STAGE;
+}
+
+/**
+ * Keys whose drafts would be held back by the workflow. Keys without a draft aren't listed.
+ */
+async function unapprovedKeys(storage: StorageAdapter, keys: string[], options: SightEditHandlerOptions): Promise<string[]> {
+  if (!options.workflow) {
+    return [];
+  }
+  const unapproved: string[] = [];
+  for (const key of keys) {
+    const draft = await storage.get(draftKey(key));
+    if (draft !== null && draft !== undefined && !(await isApproved(storage, key, draft))) {
+      unapproved.push(key);
+    }
+  }
+  return unapproved;
+}
+
+async function notifyTransitions(options: SightEditHandlerOptions, events: WorkflowEvent[], req?: Request): Promise<void> {
+  if (!options.workflow?.onTransition || events.length === 0) {
+    return;
+  }
+  try {
+    await options.workflow.onTransition(events, req);
+  } catch (error) {
+    console.error('Failed to report workflow transitions:', error);
+  }
+}
+
+function scheduleOptions(options: SightEditHandlerOptions): ScheduleOptions | null {
+  if (!options.schedules) {
+    return null;
+  }
+  return options.schedules === true ? {} : options.schedules;
+}
+
+/**
+ * The storage's scheduler, or null when scheduling is off. The first caller's options
+ * decide how due schedules publish, so servers create it up front with their full config.
+ */
+function contentScheduler(storage: StorageAdapter, options: SightEditHandlerOptions): ContentScheduler | null {
+  const config = scheduleOptions(options);
+  if (!config) {
+    return null;
+  }
+  return getContentScheduler(storage, schedule => runSchedule(storage, options, schedule), config);
+}
+
+/**
+ * Carries out a due schedule on behalf of the user who created it
+ */
+async function runSchedule(
+  storage: StorageAdapter,
+  options: SightEditHandlerOptions,
+  schedule: ContentSchedule
+): Promise<ScheduleResult> {
+  if (schedule.action === 'expire') {
+    return expireContent(storage, schedule.keys, options, schedule.createdBy);
+  }
+  const { published, missing, unapproved } = await publishDrafts(storage, schedule.keys, options, schedule.createdBy);
+  return { applied: published.map(entry => entry.key), missing, unapproved };
+}
+
+/**
+ * Answers 400 when scheduling isn't enabled
+ */
+function requireScheduler(res: Response, storage: StorageAdapter, options: SightEditHandlerOptions): ContentScheduler | null {
+  const scheduler = contentScheduler(storage, options);
+  if (!scheduler) {
+    res.status(400).json({
+      success: false,
+      error: 'Scheduling is not enabled'
+    });
+  }
+  return scheduler;
+}
+
+function toWebhookItem(key: string, data: SaveData, status: 'draft' | 'published'): WebhookItem {
+  return {
+    key,
+    sight: data.sight,
+    ...(data.id ? { id: data.id } : {}),
+    ...(data.locale ? { locale: data.locale } : {}),
+    type: data.type,
+    value: data.value,
+    version: data.timestamp,
+    status
+  };
+}
+
+/**
+ * Maps a stored revision to the public shape, unwrapping the saved value
+ */
+function toRevisionEntry(revision: ContentRevision): RevisionEntry {
+  const entry = toContentEntry(revision.key, revision.record);
+  return {
+    id: revision.id,
+    key: revision.key,
+    sight: revision.sight,
+    value: entry.value,
+    type: entry.type,
+    action: revision.action,
+    status: revision.status,
+    version: revision.version,
+    author: revision.author,
+    createdAt: revision.createdAt,
+    ...(revision.restoredFrom !== undefined ? { restoredFrom: revision.restoredFrom } : {})
+  };
+}
+
+function parseRevisionId(raw: unknown): number | null {
+  const id = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw) : NaN;
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Content key addressed by a history request: the sight from the path plus recordId / id / locale
+ */
+function resolveHistoryTarget(
+  req: Request,
+  params: Record<string, any>,
+  suffix: string,
+  locales?: LocaleOptions
+): { sight: string; key: string } | { error: string } {
+  const sight = req.params?.sight || extractSightFromPath(req.path || req.url || '', 'history', suffix);
+  if (!sight || !isValidSightIdentifier(sight)) {
+    return { error: 'Invalid sight identifier' };
+  }
+
+  const recordId = typeof params.recordId === 'string' ? params.recordId : undefined;
+  const id = typeof params.id === 'string' ? params.id : undefined;
+  if ((recordId !== undefined && !isValidContextValue(recordId)) || (id !== undefined && !isValidContextValue(id))) {
+    return { error: 'Invalid recordId or id' };
+  }
+
+  const locale = resolveLocale(params.locale, locales);
+  if ('error' in locale) {
+    return locale;
+  }
+
+  return {
+    sight,
+    key: generateKey({ sight, value: null, type: 'text', id, context: recordId ? { recordId } : undefined, locale: locale.locale })
+  };
+}
+
 /**
  * Sanitizes input data to prevent injection attacks
  */
@@ -1661,6 +5352,10 @@ function sanitizeInputData(data: SaveData): SaveData {
     timestamp: data.timestamp
   };
   
+  if (typeof data.expectedVersion === 'number' && Number.isFinite(data.expectedVersion)) {
+    sanitized.expectedVersion = data.expectedVersion;
+  }
+  
   // Sanitize optional fields
   if (data.id) {
     sanitized.id = data.id.trim();
@@ -1670,9 +5365,54 @@ function sanitizeInputData(data: SaveData): SaveData {
     sanitized.context = sanitizeContext(data.context);
   }
   
+  // Checked against the configured locales by the caller
+  if (data.locale !== undefined) {
+    sanitized.locale = data.locale;
+  }
+  
   return sanitized;
 }
 
+/**
+ * Version of a stored record: its save timestamp, 0 for legacy raw values, null when missing
+ */
+function getStoredVersion(stored: any): number | null {
+  if (stored === null || stored === undefined) {
+    return null;
+  }
+  return typeof stored === 'object' && typeof stored.timestamp === 'number' ? stored.timestamp : 0;
+}
+
+/**
+ * Next version for a record, always greater than the stored one even within the same millisecond
+ */
+function nextVersion(existing: any): number {
+  return Math.max(Date.now(), (getStoredVersion(existing) ?? 0) + 1);
+}
+
+/**
+ * Compares the version the client started editing from against storage.
+ * Writes without an expected version keep last-write-wins semantics.
+ */
+function detectVersionConflict(key: string, data: SaveData | undefined, existing: any): VersionConflict | null {
+  if (!data || typeof data.expectedVersion !== 'number') {
+    return null;
+  }
+
+  const currentVersion = getStoredVersion(existing);
+  if (currentVersion === data.expectedVersion) {
+    return null;
+  }
+
+  return {
+    sight: data.sight,
+    key,
+    expectedVersion: data.expectedVersion,
+    currentVersion,
+    currentValue: existing && typeof existing === 'object' && 'value' in existing ? existing.value : existing ?? null
+  };
+}
+
 /**
  * Sanitizes values to prevent script injection
  */
@@ -2697,6 +6437,80 @@ export {
   SQLiteStorage,
   MongoDBStorage
 } from './storage/DatabaseStorage';
+export type { MediaAsset, AssetReference, AssetQuery, AssetPage } from './assets';
+export type { ImageVariantOptions, ImageVariant, ImageTransform, FocalPoint } from './images';
+export { focalCrop, DEFAULT_BREAKPOINTS } from './images';
+export type { LocaleOptions, MissingTranslation } from './locales';
+export { fallbackChain, localizedKey } from './locales';
+export type { FieldError, SchemaValidationOptions, SchemaValidationResult, UnknownSightPolicy } from './validation';
+export { validateValue, validateWrite } from './validation';
+export type { SchemaVersion, StoredSchema, SchemaWriteOptions, SchemaWriteResult } from './schemas';
+export { MAX_SCHEMA_VERSIONS, getStoredSchema, listStoredSchemas, listSchemaVersions } from './schemas';
+export type {
+  Webhook,
+  PublicWebhook,
+  WebhookEvent,
+  WebhookOptions,
+  WebhookItem,
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookAttempt,
+  WebhookTransport
+} from './webhooks';
+export {
+  WebhookDispatcher,
+  WEBHOOK_EVENTS,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from './webhooks';
+export type {
+  ContentSchedule,
+  NewContentSchedule,
+  ScheduleAction,
+  ScheduleOptions,
+  ScheduleQuery,
+  ScheduleResult,
+  ScheduleRunner
+} from './schedules';
+export { ContentScheduler, listSchedules } from './schedules';
+export type {
+  CommentOptions,
+  CommentQuery,
+  CommentRange,
+  CommentThread,
+  CommentUser,
+  CommentUserDirectory,
+  ThreadComment
+} from './comments';
+export { listCommentThreads } from './comments';
+export type {
+  WorkflowAction,
+  WorkflowEvent,
+  WorkflowOptions,
+  WorkflowStage,
+  WorkflowState,
+  WorkflowTransition
+} from './workflow';
+export { DRAFT_STAGE, APPROVED_STAGE, REJECTED_STAGE, getWorkflowState } from './workflow';
+export type { UserSummary, TwoFactorOptions, SecurityAuditLog } from './auth/secure-auth-handler';
 export { SecureAuthHandler } from './auth/secure-auth-handler';
+export { MemoryUserStore, createUserStore } from './auth/user-store';
+export type { UserStore, UserStoreConfig, NewUserData, SessionRotation } from './auth/user-store';
+export { SQLUserStore } from './auth/sql-user-store';
+export { MongoUserStore } from './auth/mongo-user-store';
+export {
+  generateTotpSecret,
+  totpCode,
+  totpStep,
+  verifyTotp,
+  otpauthUri,
+  generateRecoveryCodes,
+  RECOVERY_CODE_COUNT
+} from './auth/totp';
 export { SecureJWTAuth } from './auth/secure-jwt';
-export { ServerCSRFValidation, createCSRFProtection } from './middleware/csrf-validation';
\ No newline at end of file
+export { RBACSystem } from './auth/rbac-system';
+export type { AuthorizationResult, AccessContext } from './auth/rbac-system';
+export { ServerCSRFValidation, createCSRFProtection } from './middleware/csrf-validation';
+export { DEFAULT_MAX_REVISIONS, diffValues } from './revisions';
\ No newline at end of file
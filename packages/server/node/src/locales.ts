@@ -0,0 +1,107 @@
+import { StorageAdapter, DRAFT_PREFIX, isContentKey } from './index';
+
+/**
+ * Content in the default locale keeps its plain key, so sites that enable localization
+ * keep their existing content; translations are stored next to it as `<key>@<locale>`
+ */
+export const LOCALE_SEPARATOR = '@';
+
+export interface LocaleOptions {
+  default: string;
+  supported: string[]; // Every locale content can be written in, including the default
+  fallbacks?: Record<string, string[]>; // Tried before the default, e.g. { 'de-AT': ['de'] }
+}
+
+/**
+ * Content that exists in the default locale but not in some of the others
+ */
+export interface MissingTranslation {
+  key: string;
+  sight: string;
+  locales: string[];
+}
+
+export function isValidLocale(locale: unknown): locale is string {
+  return typeof locale === 'string' && locale.length <= 35 && /^[a-zA-Z]{2,3}(?:-[a-zA-Z0-9]{2,8})*$/.test(locale);
+}
+
+/**
+ * Locale a request addresses. The default locale resolves to no locale at all,
+ * since its content lives under the plain key.
+ */
+export function resolveLocale(raw: unknown, options?: LocaleOptions): { locale?: string } | { error: string } {
+  if (raw === undefined || raw === null || raw === '') {
+    return {};
+  }
+  if (!options) {
+    return { error: 'Localization is not enabled' };
+  }
+  if (!isValidLocale(raw) || !options.supported.includes(raw)) {
+    return { error: `Locale must be one of ${options.supported.join(', ')}` };
+  }
+  return raw === options.default ? {} : { locale: raw };
+}
+
+export function localizedKey(key: string, locale?: string): string {
+  return locale ? `${key}${LOCALE_SEPARATOR}${locale}` : key;
+}
+
+export function splitLocalizedKey(key: string): { key: string; locale?: string } {
+  const index = key.lastIndexOf(LOCALE_SEPARATOR);
+  return index === -1 ? { key } : { key: key.slice(0, index), locale: key.slice(index + 1) };
+}
+
+/**
+ * Locales a read tries, most specific first: the locale itself, its configured fallbacks,
+ * its language without the region and finally the default (as undefined)
+ */
+export function fallbackChain(locale: string | undefined, options?: LocaleOptions): Array<string | undefined> {
+  if (!locale || !options) {
+    return [undefined];
+  }
+
+  const language = locale.split('-')[0];
+  const candidates = [locale, ...(options.fallbacks?.[locale] || []), language];
+  const chain: Array<string | undefined> = [];
+
+  for (const candidate of candidates) {
+    if (candidate !== options.default && options.supported.includes(candidate) && !chain.includes(candidate)) {
+      chain.push(candidate);
+    }
+  }
+  chain.push(undefined);
+  return chain;
+}
+
+/**
+ * Default-locale content, published or drafted, lacking a translation in `locales`.
+ * A pending draft counts as translated.
+ */
+export async function findMissingTranslations(
+  storage: StorageAdapter,
+  locales: string[],
+  prefix?: string
+): Promise<MissingTranslation[]> {
+  const keys = new Set<string>();
+  for (const storedKey of await storage.list(prefix)) {
+    if (isContentKey(storedKey)) {
+      keys.add(storedKey);
+    }
+  }
+  for (const storedKey of await storage.list(`${DRAFT_PREFIX}${prefix || ''}`)) {
+    keys.add(storedKey.slice(DRAFT_PREFIX.length));
+  }
+
+  const missing: MissingTranslation[] = [];
+  for (const key of Array.from(keys).sort()) {
+    if (splitLocalizedKey(key).locale) {
+      continue;
+    }
+
+    const untranslated = locales.filter(locale => !keys.has(localizedKey(key, locale)));
+    if (untranslated.length > 0) {
+      missing.push({ key, sight: key.split(':')[0], locales: untranslated });
+    }
+  }
+  return missing;
+}
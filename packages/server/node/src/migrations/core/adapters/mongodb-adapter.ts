@@ -37,9 +37,9 @@ export class MongoDBAdapter extends DatabaseAdapter {
           if (command.startsWith('db.')) {
             return await this.executeMongoCommand(database, command, session);
           } else {
-            // Handle raw JavaScript for MongoDB
-            const func = new Function('db', 'session', command);
-            return await func(database, session);
+            // Handle raw JavaScript for MongoDB; values are passed in as `params`
+            const func = new Function('db', 'session', 'params', command);
+            return await func(database, session, params);
           }
         } catch (error) {
           throw new Error(`MongoDB query failed: ${error}\nCommand: ${command}`);
@@ -0,0 +1,112 @@
+import { DatabaseConnection } from '../core/migration-engine';
+
+export const description = 'Add the account, two-factor and reset fields and login attempts used by the auth user store';
+
+// Columns the auth handler needs on users, besides those added with user sessions
+const USER_COLUMNS = [
+  ['name', 'VARCHAR(255)'],
+  ['roles', 'TEXT'],
+  ['permissions', 'TEXT'],
+  ['two_factor_enabled', 'BOOLEAN'],
+  ['two_factor_secret', 'TEXT'],
+  ['email_verification_token', 'VARCHAR(255)'],
+  ['email_verification_expires_at', 'TIMESTAMP'],
+  ['password_reset_token', 'VARCHAR(255)'],
+  ['password_reset_expires_at', 'TIMESTAMP'],
+];
+
+export async function up(connection: DatabaseConnection): Promise<void> {
+  if (connection.type === 'mongodb') {
+    await addMongoDBUserStore(connection);
+  } else {
+    await addSQLUserStore(connection);
+  }
+}
+
+export async function down(connection: DatabaseConnection): Promise<void> {
+  if (connection.type === 'mongodb') {
+    await removeMongoDBUserStore(connection);
+  } else {
+    await removeSQLUserStore(connection);
+  }
+}
+
+async function addSQLUserStore(connection: DatabaseConnection): Promise<void> {
+  for (const [column, type] of USER_COLUMNS) {
+    const defaultValue = type === 'BOOLEAN' ? ` DEFAULT ${connection.type === 'sqlite' ? '0' : 'FALSE'}` : '';
+    await connection.query(`ALTER TABLE users ADD COLUMN ${column} ${type}${defaultValue}`);
+  }
+
+  await connection.query('CREATE INDEX idx_users_password_reset_token ON users(password_reset_token)');
+
+  // Attempts are counted up to the configured lockout threshold, which may be above 10
+  if (connection.type === 'postgresql') {
+    await connection.query('ALTER TABLE users DROP CONSTRAINT IF EXISTS ck_users_failed_attempts');
+  } else if (connection.type === 'mysql') {
+    try {
+      await connection.query('ALTER TABLE users DROP CHECK ck_users_failed_attempts');
+    } catch (error) {
+      console.warn('Failed to drop check constraint:', error);
+    }
+  }
+
+  // Create login_attempts table
+  await connection.query(`
+    CREATE TABLE login_attempts (
+      id ${connection.type === 'sqlite' ? 'INTEGER' : 'SERIAL'} PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      email VARCHAR(255) NOT NULL,
+      ip_address VARCHAR(255),
+      user_agent TEXT,
+      success BOOLEAN NOT NULL,
+      failure_reason VARCHAR(50),
+      created_at TIMESTAMP NOT NULL
+    )
+  `);
+
+  await connection.query('CREATE INDEX idx_login_attempts_user ON login_attempts(user_id, created_at)');
+  await connection.query('CREATE INDEX idx_login_attempts_email ON login_attempts(email, created_at)');
+}
+
+async function addMongoDBUserStore(connection: DatabaseConnection): Promise<void> {
+  // Create login_attempts collection
+  await connection.query('db.createCollection("login_attempts")');
+
+  await connection.query(`
+    db.login_attempts.createIndex({ "userId": 1, "createdAt": -1 })
+  `);
+  await connection.query(`
+    db.login_attempts.createIndex({ "email": 1, "createdAt": -1 })
+  `);
+
+  // Keep login attempts for 30 days
+  await connection.query(`
+    db.login_attempts.createIndex({ "createdAt": 1 }, { "expireAfterSeconds": 2592000 })
+  `);
+
+  await connection.query(`
+    db.users.createIndex({ "passwordResetToken": 1 })
+  `);
+}
+
+async function removeSQLUserStore(connection: DatabaseConnection): Promise<void> {
+  await connection.query('DROP TABLE IF EXISTS login_attempts');
+
+  try {
+    await connection.query('DROP INDEX idx_users_password_reset_token' + (connection.type === 'mysql' ? ' ON users' : ''));
+  } catch (error) {
+    console.warn('Failed to drop index idx_users_password_reset_token:', error);
+  }
+
+  for (const [column] of USER_COLUMNS) {
+    try {
+      await connection.query(`ALTER TABLE users DROP COLUMN ${column}`);
+    } catch (error) {
+      console.warn(`Failed to drop column ${column}:`, error);
+    }
+  }
+}
+
+async function removeMongoDBUserStore(connection: DatabaseConnection): Promise<void> {
+  await connection.query('db.login_attempts.drop()');
+}
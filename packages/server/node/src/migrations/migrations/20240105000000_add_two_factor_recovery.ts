@@ -0,0 +1,40 @@
+import { DatabaseConnection } from '../core/migration-engine';
+
+export const description = 'Add two-factor enrollment, recovery codes and replay protection to users';
+
+const USER_COLUMNS = [
+  ['two_factor_pending_secret', 'TEXT'],
+  ['two_factor_recovery_codes', 'TEXT'],
+  ['two_factor_last_step', 'INTEGER'],
+];
+
+export async function up(connection: DatabaseConnection): Promise<void> {
+  // MongoDB documents take the new fields as they are written
+  if (connection.type === 'mongodb') {
+    return;
+  }
+
+  for (const [column, type] of USER_COLUMNS) {
+    await connection.query(`ALTER TABLE users ADD COLUMN ${column} ${type}`);
+  }
+}
+
+export async function down(connection: DatabaseConnection): Promise<void> {
+  if (connection.type === 'mongodb') {
+    await connection.query(`
+      db.users.updateMany(
+        {},
+        { $unset: { twoFactorPendingSecret: "", twoFactorRecoveryCodes: "", twoFactorLastStep: "" } }
+      )
+    `);
+    return;
+  }
+
+  for (const [column] of USER_COLUMNS) {
+    try {
+      await connection.query(`ALTER TABLE users DROP COLUMN ${column}`);
+    } catch (error) {
+      console.warn(`Failed to drop column ${column}:`, error);
+    }
+  }
+}
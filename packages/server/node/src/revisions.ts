@@ -0,0 +1,176 @@
+import { StorageAdapter, ContentRevision, NewContentRevision, RevisionDiff, DiffPart, FieldChange } from './index';
+
+export const DEFAULT_MAX_REVISIONS = 50;
+
+const REVISIONS_PREFIX = '_revisions:';
+
+// Longest texts still diffed word by word; larger ones are reported as a full replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Appends a revision to a key's history and trims it to `limit` entries (0 disables history).
+ * Adapters with native revision tables handle this themselves, everything else keeps
+ * the history as a newest-first list under an internal key.
+ */
+export async function recordRevision(
+  storage: StorageAdapter,
+  revision: NewContentRevision,
+  limit: number
+): Promise<ContentRevision | null> {
+  if (limit <= 0) {
+    return null;
+  }
+
+  if (typeof storage.addRevision === 'function') {
+    return storage.addRevision(revision, limit);
+  }
+
+  // Read-modify-write of the history list, serialized per key
+  const historyKey = revisionsKey(revision.key);
+  const previous = pendingWrites.get(historyKey) || Promise.resolve();
+  const write = previous.catch(() => undefined).then(async () => {
+    const history = await readHistory(storage, revision.key);
+    const stored: ContentRevision = { ...revision, id: (history[0]?.id ?? 0) + 1 };
+    await storage.set(historyKey, [stored, ...history].slice(0, limit));
+    return stored;
+  });
+
+  pendingWrites.set(historyKey, write);
+  try {
+    return await write;
+  } finally {
+    if (pendingWrites.get(historyKey) === write) {
+      pendingWrites.delete(historyKey);
+    }
+  }
+}
+
+/**
+ * Revisions of a content key, newest first
+ */
+export async function listRevisions(storage: StorageAdapter, key: string, limit: number): Promise<ContentRevision[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  if (typeof storage.getRevisions === 'function') {
+    return storage.getRevisions(key, limit);
+  }
+
+  return (await readHistory(storage, key)).slice(0, limit);
+}
+
+export async function getRevision(
+  storage: StorageAdapter,
+  key: string,
+  id: number,
+  limit: number
+): Promise<ContentRevision | null> {
+  const revisions = await listRevisions(storage, key, limit);
+  return revisions.find(revision => revision.id === id) || null;
+}
+
+/**
+ * Describes how a value changed between two revisions: a word-level diff for text,
+ * per-field changes for structured values.
+ */
+export function diffValues(before: any, after: any): RevisionDiff {
+  if ((typeof before === 'string' || before == null) && (typeof after === 'string' || after == null)) {
+    return { type: 'text', parts: diffText(before ?? '', after ?? '') };
+  }
+
+  const beforeFields = flatten(before);
+  const afterFields = flatten(after);
+  const changes: FieldChange[] = [];
+
+  for (const path of new Set([...beforeFields.keys(), ...afterFields.keys()])) {
+    const from = beforeFields.get(path);
+    const to = afterFields.get(path);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ path, before: from, after: to });
+    }
+  }
+
+  return { type: 'fields', changes };
+}
+
+function revisionsKey(key: string): string {
+  return `${REVISIONS_PREFIX}${key}`;
+}
+
+async function readHistory(storage: StorageAdapter, key: string): Promise<ContentRevision[]> {
+  const history = await storage.get(revisionsKey(key));
+  return Array.isArray(history) ? history : [];
+}
+
+function diffText(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(token => token.length > 0);
+  const b = after.split(/(\s+)/).filter(token => token.length > 0);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return compactParts([
+      { type: 'delete', value: before },
+      { type: 'insert', value: after }
+    ]);
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'equal', value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ type: 'delete', value: a[i++] });
+    } else {
+      parts.push({ type: 'insert', value: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'delete', value: a[i++] });
+  while (j < b.length) parts.push({ type: 'insert', value: b[j++] });
+
+  return compactParts(parts);
+}
+
+function compactParts(parts: DiffPart[]): DiffPart[] {
+  const compacted: DiffPart[] = [];
+  for (const part of parts) {
+    if (part.value.length === 0) continue;
+    const last = compacted[compacted.length - 1];
+    if (last && last.type === part.type) {
+      last.value += part.value;
+    } else {
+      compacted.push({ ...part });
+    }
+  }
+  return compacted;
+}
+
+/**
+ * Flattens a value into path -> leaf value pairs (`title`, `items[0].name`, ...)
+ */
+function flatten(value: any, path = '', fields = new Map<string, any>()): Map<string, any> {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, fields));
+    if (value.length === 0) fields.set(path, []);
+  } else if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value);
+    keys.forEach(key => flatten(value[key], path ? `${path}.${key}` : key, fields));
+    if (keys.length === 0) fields.set(path, {});
+  } else if (value !== undefined) {
+    fields.set(path, value);
+  }
+  return fields;
+}
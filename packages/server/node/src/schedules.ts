@@ -0,0 +1,345 @@
+import * as crypto from 'crypto';
+import { StorageAdapter, RevisionAuthor } from './index';
+import { splitLocalizedKey } from './locales';
+
+const SCHEDULE_PREFIX = '_schedule:';
+const CLAIM_PREFIX = '_schedule-claim:';
+
+// setTimeout overflows above ~24.8 days; later schedules are re-armed when this elapses
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export type ScheduleAction = 'publish' | 'expire';
+
+export interface ScheduleOptions {
+  retention?: number; // Milliseconds finished and cancelled schedules stay listed (default 30 days)
+  leaseTime?: number; // Milliseconds a claimed run has before another instance may take it over (default 10 min)
+}
+
+export interface ContentSchedule {
+  id: string;
+  action: ScheduleAction;
+  keys: string[]; // Content keys the action applies to
+  sights: string[];
+  runAt: string;
+  status: 'scheduled' | 'running' | 'done' | 'failed' | 'cancelled';
+  createdAt: string;
+  createdBy?: RevisionAuthor;
+  completedAt?: string;
+  cancelledBy?: RevisionAuthor;
+  applied?: string[]; // Keys that were published or expired
+  missing?: string[]; // Keys without a draft (publish) or published record (expire) at run time
+  unapproved?: string[]; // Drafts not yet approved when a workflow is configured (publish)
+  error?: string;
+}
+
+export interface NewContentSchedule {
+  action: ScheduleAction;
+  keys: string[];
+  runAt: Date;
+  createdBy?: RevisionAuthor;
+}
+
+export interface ScheduleResult {
+  applied: string[];
+  missing: string[];
+  unapproved?: string[];
+}
+
+/**
+ * Carries out a due schedule. Runs once per schedule; a thrown error marks it failed.
+ */
+export type ScheduleRunner = (schedule: ContentSchedule) => Promise<ScheduleResult>;
+
+export interface ScheduleQuery {
+  status?: ContentSchedule['status'];
+  sight?: string;
+}
+
+/**
+ * Which scheduler instance took a schedule over, and when
+ */
+interface ScheduleClaim {
+  by: string;
+  at: string;
+}
+
+const DEFAULTS = {
+  retention: 30 * 24 * 60 * 60 * 1000,
+  leaseTime: 10 * 60 * 1000
+};
+
+function scheduleKey(id: string): string {
+  return `${SCHEDULE_PREFIX}${id}`;
+}
+
+function claimKey(id: string, generation: number): string {
+  return `${CLAIM_PREFIX}${id}:${generation}`;
+}
+
+export function generateScheduleId(): string {
+  return `${Date.now().toString(36)}${crypto.randomBytes(6).toString('hex')}`;
+}
+
+export function isValidScheduleId(id: string): boolean {
+  return /^[a-z0-9]{8,40}$/.test(id);
+}
+
+/**
+ * Accepts an ISO 8601 string or a millisecond timestamp
+ */
+export function parseScheduleTime(raw: unknown): Date | null {
+  if (typeof raw !== 'string' && typeof raw !== 'number') {
+    return null;
+  }
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function getSchedule(storage: StorageAdapter, id: string): Promise<ContentSchedule | null> {
+  return (await storage.get(scheduleKey(id))) ?? null;
+}
+
+/**
+ * Schedules ordered by the time they run, soonest first
+ */
+export async function listSchedules(storage: StorageAdapter, query: ScheduleQuery = {}): Promise<ContentSchedule[]> {
+  const schedules: ContentSchedule[] = [];
+  for (const key of await storage.list(SCHEDULE_PREFIX)) {
+    const schedule: ContentSchedule | null = await storage.get(key);
+    if (!schedule) continue;
+    if (query.status && schedule.status !== query.status) continue;
+    if (query.sight && !schedule.sights.includes(query.sight)) continue;
+    schedules.push(schedule);
+  }
+  return schedules.sort((a, b) => a.runAt.localeCompare(b.runAt) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Every server instance arms every schedule; claims make sure only one of them
+ * runs or cancels it.
+ */
+export class ContentScheduler {
+  private options: Required<ScheduleOptions>;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private readonly instanceId = crypto.randomBytes(8).toString('hex');
+
+  constructor(private storage: StorageAdapter, private runner: ScheduleRunner, options: ScheduleOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  /**
+   * Stores a schedule and arms its timer. Times in the past run right away.
+   */
+  async create(input: NewContentSchedule): Promise<ContentSchedule> {
+    const schedule: ContentSchedule = {
+      id: generateScheduleId(),
+      action: input.action,
+      keys: input.keys,
+      sights: Array.from(new Set(input.keys.map(key => splitLocalizedKey(key).key.split(':')[0]))),
+      runAt: input.runAt.toISOString(),
+      status: 'scheduled',
+      createdAt: new Date().toISOString(),
+      ...(input.createdBy ? { createdBy: input.createdBy } : {})
+    };
+
+    await this.storage.set(scheduleKey(schedule.id), schedule);
+    await this.prune();
+    this.arm(schedule);
+    return schedule;
+  }
+
+  /**
+   * Cancels a schedule that hasn't run yet. Returns null when there is no such schedule;
+   * schedules that already ran or were cancelled are returned unchanged.
+   */
+  async cancel(id: string, cancelledBy?: RevisionAuthor): Promise<ContentSchedule | null> {
+    let schedule = await getSchedule(this.storage, id);
+    if (!schedule || schedule.status !== 'scheduled') {
+      return schedule;
+    }
+
+    // Another instance may have started it in the meantime
+    if (!(await this.claim(id))) {
+      return getSchedule(this.storage, id);
+    }
+    schedule = await getSchedule(this.storage, id);
+    if (!schedule || schedule.status !== 'scheduled') {
+      return schedule;
+    }
+
+    this.disarm(id);
+    const cancelled: ContentSchedule = {
+      ...schedule,
+      status: 'cancelled',
+      completedAt: new Date().toISOString(),
+      ...(cancelledBy ? { cancelledBy } : {})
+    };
+    await this.storage.set(scheduleKey(id), cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Arms every schedule that hasn't run, e.g. after a restart. Schedules that came due
+   * while the process was down run right away; runs a crash interrupted run again once
+   * their lease is over.
+   */
+  async resume(): Promise<number> {
+    let resumed = 0;
+    for (const schedule of await listSchedules(this.storage)) {
+      if ((schedule.status === 'scheduled' || schedule.status === 'running') && !this.timers.has(schedule.id)) {
+        this.arm(schedule);
+        resumed++;
+      }
+    }
+    return resumed;
+  }
+
+  /**
+   * Clears all timers; pending schedules stay in storage and resume with the next scheduler
+   */
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Runs a schedule if it is due and hasn't run yet
+   */
+  async run(id: string): Promise<ContentSchedule | null> {
+    this.timers.delete(id);
+
+    const key = scheduleKey(id);
+    let schedule = await getSchedule(this.storage, id);
+    if (!schedule || (schedule.status !== 'scheduled' && schedule.status !== 'running')) {
+      return schedule;
+    }
+    if (Date.parse(schedule.runAt) > Date.now()) {
+      this.arm(schedule);
+      return schedule;
+    }
+
+    if (!(await this.claim(id))) {
+      // Check again once the claim expires, in case its instance went away mid-run
+      this.arm(schedule, this.options.leaseTime);
+      return schedule;
+    }
+    // The previous claim's run may have finished since the first read
+    schedule = await getSchedule(this.storage, id);
+    if (!schedule || (schedule.status !== 'scheduled' && schedule.status !== 'running')) {
+      return schedule;
+    }
+
+    await this.storage.set(key, { ...schedule, status: 'running' });
+
+    let finished: ContentSchedule;
+    try {
+      const result = await this.runner(schedule);
+      finished = {
+        ...schedule,
+        status: 'done',
+        applied: result.applied,
+        missing: result.missing,
+        ...(result.unapproved?.length ? { unapproved: result.unapproved } : {})
+      };
+    } catch (error) {
+      finished = { ...schedule, status: 'failed', error: String((error as Error).message || error) };
+    }
+    finished.completedAt = new Date().toISOString();
+
+    await this.storage.set(key, finished);
+    return finished;
+  }
+
+  /**
+   * Claims are stored once per generation. A claim older than the lease is taken over
+   * with the next generation, so of several instances finding it stale only one wins.
+   */
+  private async claim(id: string): Promise<boolean> {
+    const generations = (await this.storage.list(`${CLAIM_PREFIX}${id}:`))
+      .map(key => Number(key.slice(key.lastIndexOf(':') + 1)))
+      .filter(Number.isInteger);
+    const latest = generations.length > 0 ? Math.max(...generations) : -1;
+
+    if (latest >= 0) {
+      const current: ScheduleClaim | null = await this.storage.get(claimKey(id, latest));
+      if (current && Date.parse(current.at) + this.options.leaseTime > Date.now()) {
+        return false;
+      }
+    }
+
+    const claim: ScheduleClaim = { by: this.instanceId, at: new Date().toISOString() };
+    return storeIfAbsent(this.storage, claimKey(id, latest + 1), claim);
+  }
+
+  private arm(schedule: ContentSchedule, delay: number = Math.max(0, Date.parse(schedule.runAt) - Date.now())): void {
+    this.disarm(schedule.id);
+    const timer = setTimeout(() => {
+      this.run(schedule.id).catch(error => {
+        console.error('Scheduled content change failed:', schedule.id, error);
+      });
+    }, Math.min(delay, MAX_TIMER_DELAY));
+    // Pending schedules must not keep the process alive on shutdown
+    timer.unref?.();
+    this.timers.set(schedule.id, timer);
+  }
+
+  private disarm(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Removes finished and cancelled schedules older than the retention period
+   */
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.options.retention;
+    for (const schedule of await listSchedules(this.storage)) {
+      if (schedule.completedAt && Date.parse(schedule.completedAt) < cutoff) {
+        for (const key of await this.storage.list(`${CLAIM_PREFIX}${schedule.id}:`)) {
+          await this.storage.delete(key);
+        }
+        await this.storage.delete(scheduleKey(schedule.id));
+      }
+    }
+  }
+}
+
+/**
+ * Adapters without setIfAbsent only get a check-then-write, which is enough for a single instance
+ */
+export async function storeIfAbsent(storage: StorageAdapter, key: string, value: any): Promise<boolean> {
+  if (typeof storage.setIfAbsent === 'function') {
+    return storage.setIfAbsent(key, value);
+  }
+  const existing = await storage.get(key);
+  if (existing !== null && existing !== undefined) {
+    return false;
+  }
+  await storage.set(key, value);
+  return true;
+}
+
+const schedulers = new WeakMap<StorageAdapter, ContentScheduler>();
+
+/**
+ * The scheduler for a storage backend, created on first use. Creating it arms the
+ * schedules stored before the process last stopped.
+ */
+export function getContentScheduler(
+  storage: StorageAdapter,
+  runner: ScheduleRunner,
+  options: ScheduleOptions = {}
+): ContentScheduler {
+  let scheduler = schedulers.get(storage);
+  if (!scheduler) {
+    scheduler = new ContentScheduler(storage, runner, options);
+    schedulers.set(storage, scheduler);
+    scheduler.resume().catch(error => {
+      console.error('Failed to resume content schedules:', error);
+    });
+  }
+  return scheduler;
+}
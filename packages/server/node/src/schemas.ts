@@ -0,0 +1,175 @@
+import { StorageAdapter, StorageWrite, RevisionAuthor, VersionConflict } from './index';
+import { SCHEMA_PREFIX, schemaPatternError } from './validation';
+
+const SCHEMA_HISTORY_PREFIX = '_schema-history:';
+
+// Versions kept per sight; older ones are dropped
+export const MAX_SCHEMA_VERSIONS = 50;
+
+// Largest schema accepted, as JSON
+const MAX_SCHEMA_SIZE = 64 * 1024;
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * One version of a sight's schema. Deleting a schema records a version without one,
+ * so the numbering continues when the sight gets a schema again.
+ */
+export interface SchemaVersion {
+  version: number;
+  schema: Record<string, any> | null;
+  author?: RevisionAuthor;
+  createdAt: string;
+}
+
+export interface StoredSchema {
+  sight: string;
+  schema: Record<string, any>;
+  version: number; // 0 for schemas stored before versioning
+  updatedAt?: string;
+  updatedBy?: RevisionAuthor;
+}
+
+export interface SchemaWriteOptions {
+  expectedVersion?: number; // Version the change was made against; a newer one is a conflict
+  author?: RevisionAuthor;
+}
+
+export type SchemaWriteResult =
+  | { stored: SchemaVersion; previous: number | null }
+  | { conflict: VersionConflict };
+
+/**
+ * Checks a schema sent by a client. Only the shape and its patterns are checked here;
+ * its rules are compiled when values are validated against it.
+ */
+export function parseSchemaInput(raw: unknown): { value: Record<string, any> } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'schema must be an object' };
+  }
+
+  const schema = raw as Record<string, any>;
+  const type = schema.editor && typeof schema.editor === 'object' ? schema.editor.type : schema.type;
+  if (typeof type !== 'string' || !/^[a-zA-Z][a-zA-Z0-9_-]{0,49}$/.test(type)) {
+    return { error: 'schema needs an editor type in `type` or `editor.type`' };
+  }
+
+  if (JSON.stringify(schema).length > MAX_SCHEMA_SIZE) {
+    return { error: `schema must be at most ${MAX_SCHEMA_SIZE} bytes` };
+  }
+
+  const patternError = schemaPatternError(schema);
+  if (patternError) {
+    return { error: `schema ${patternError}` };
+  }
+
+  return { value: schema };
+}
+
+export async function getStoredSchema(storage: StorageAdapter, sight: string): Promise<StoredSchema | null> {
+  const schema = await storage.get(schemaKey(sight));
+  if (!schema || typeof schema !== 'object') {
+    return null;
+  }
+
+  const latest = (await readHistory(storage, sight))[0];
+  // A schema written around the API, e.g. seeded straight into storage, has no matching version
+  if (!latest || JSON.stringify(latest.schema) !== JSON.stringify(schema)) {
+    return { sight, schema, version: latest ? latest.version : 0 };
+  }
+  return {
+    sight,
+    schema,
+    version: latest.version,
+    updatedAt: latest.createdAt,
+    ...(latest.author ? { updatedBy: latest.author } : {})
+  };
+}
+
+/**
+ * Every stored schema, by sight
+ */
+export async function listStoredSchemas(storage: StorageAdapter): Promise<StoredSchema[]> {
+  const sights = (await storage.list(SCHEMA_PREFIX))
+    .filter(key => key.startsWith(SCHEMA_PREFIX))
+    .map(key => key.slice(SCHEMA_PREFIX.length))
+    .sort();
+
+  const schemas = await Promise.all(sights.map(sight => getStoredSchema(storage, sight)));
+  return schemas.filter((schema): schema is StoredSchema => schema !== null);
+}
+
+/**
+ * Versions of a sight's schema, newest first
+ */
+export async function listSchemaVersions(storage: StorageAdapter, sight: string, limit: number): Promise<SchemaVersion[]> {
+  return (await readHistory(storage, sight)).slice(0, limit);
+}
+
+/**
+ * Stores a new version of a sight's schema, or deletes it when `schema` is null. The
+ * check against `expectedVersion` and the write are serialized per sight, and the schema
+ * and its history are handed to `commit` together so they change all-or-nothing.
+ */
+export async function writeSchema(
+  storage: StorageAdapter,
+  sight: string,
+  schema: Record<string, any> | null,
+  options: SchemaWriteOptions,
+  commit: (writes: StorageWrite[]) => Promise<void>
+): Promise<SchemaWriteResult> {
+  const key = schemaKey(sight);
+  const previousWrite = pendingWrites.get(key) || Promise.resolve();
+  const write = previousWrite.catch(() => undefined).then(async (): Promise<SchemaWriteResult> => {
+    const current = await getStoredSchema(storage, sight);
+    const currentVersion = current ? current.version : null;
+
+    if (typeof options.expectedVersion === 'number' && options.expectedVersion !== currentVersion) {
+      return {
+        conflict: {
+          sight,
+          key,
+          expectedVersion: options.expectedVersion,
+          currentVersion,
+          currentValue: current ? current.schema : null
+        }
+      };
+    }
+
+    const history = await readHistory(storage, sight);
+    const stored: SchemaVersion = {
+      version: Math.max(history[0]?.version ?? 0, currentVersion ?? 0) + 1,
+      schema,
+      ...(options.author ? { author: options.author } : {}),
+      createdAt: new Date().toISOString()
+    };
+
+    await commit([
+      schema ? { type: 'set', key, value: schema } : { type: 'delete', key },
+      { type: 'set', key: historyKey(sight), value: [stored, ...history].slice(0, MAX_SCHEMA_VERSIONS) }
+    ]);
+    return { stored, previous: currentVersion };
+  });
+
+  pendingWrites.set(key, write);
+  try {
+    return await write;
+  } finally {
+    if (pendingWrites.get(key) === write) {
+      pendingWrites.delete(key);
+    }
+  }
+}
+
+function schemaKey(sight: string): string {
+  return `${SCHEMA_PREFIX}${sight}`;
+}
+
+function historyKey(sight: string): string {
+  return `${SCHEMA_HISTORY_PREFIX}${sight}`;
+}
+
+async function readHistory(storage: StorageAdapter, sight: string): Promise<SchemaVersion[]> {
+  const history = await storage.get(historyKey(sight));
+  return Array.isArray(history) ? history : [];
+}
@@ -22,6 +22,9 @@ export enum AuditEventType {
   PASSWORD_CHANGE = 'PASSWORD_CHANGE',
   TWO_FACTOR_ENABLED = 'TWO_FACTOR_ENABLED',
   TWO_FACTOR_DISABLED = 'TWO_FACTOR_DISABLED',
+  TWO_FACTOR_RECOVERY_CODE_USED = 'TWO_FACTOR_RECOVERY_CODE_USED',
+  TWO_FACTOR_RECOVERY_CODES_GENERATED = 'TWO_FACTOR_RECOVERY_CODES_GENERATED',
+  TWO_FACTOR_POLICY_CHANGE = 'TWO_FACTOR_POLICY_CHANGE',
   
   // Authorization events
   ACCESS_GRANTED = 'ACCESS_GRANTED',
@@ -512,6 +515,8 @@ export class AuditLogger {
       AuditEventType.RATE_LIMIT_EXCEEDED,
       AuditEventType.XSS_ATTEMPT,
       AuditEventType.CSRF_VIOLATION,
+      AuditEventType.TWO_FACTOR_DISABLED,
+      AuditEventType.TWO_FACTOR_RECOVERY_CODE_USED,
     ];
     
     if (criticalEvents.includes(eventType)) {
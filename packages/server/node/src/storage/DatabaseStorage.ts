@@ -1,4 +1,4 @@
-import { StorageAdapter } from '../index';
+import { StorageAdapter, StorageWrite } from '../index';
 
 /**
  * Database configuration options
@@ -19,6 +19,14 @@ export interface DatabaseConfig {
   };
 }
 
+/**
+ * LIKE pattern for keys starting with `prefix`. Internal keys start with `_`, a LIKE
+ * wildcard, so `_` and `%` are escaped with `!`, which means nothing special in any dialect.
+ */
+export function likePrefix(prefix: string): string {
+  return `${prefix.replace(/[!%_]/g, '!$&')}%`;
+}
+
 /**
  * Abstract base class for database storage adapters
  */
@@ -58,11 +66,83 @@ export abstract class BaseDatabaseStorage implements StorageAdapter {
   }
 
   protected abstract initialize(): Promise<void>;
-  abstract get(key: string): Promise<any>;
-  abstract set(key: string, value: any): Promise<void>;
-  abstract delete(key: string): Promise<void>;
-  abstract list(prefix?: string): Promise<string[]>;
+  protected abstract readValue(key: string): Promise<any>;
+  protected abstract writeValue(key: string, value: any): Promise<void>;
+  protected abstract insertValue(key: string, value: any): Promise<boolean>;
+  protected abstract deleteValue(key: string): Promise<void>;
+  protected abstract listKeys(prefix?: string): Promise<string[]>;
   abstract close(): Promise<void>;
+
+  private queue: Promise<void> = Promise.resolve();
+
+  /*
+   * Every query goes through one queue: transactions run on the adapter's single
+   * connection, so anything sent while one is open would be committed or rolled back
+   * with it, and reads would see its uncommitted writes.
+   */
+  async get(key: string): Promise<any> {
+    return this.exclusive(() => this.readValue(key));
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    return this.exclusive(() => this.writeValue(key, value));
+  }
+
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    return this.exclusive(() => this.insertValue(key, value));
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.exclusive(() => this.deleteValue(key));
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    const keys = await this.exclusive(() => this.listKeys(prefix));
+    // LIKE ignores case in SQLite and MySQL's default collations, and MongoDB matches a regex
+    return prefix ? keys.filter(key => key.startsWith(prefix)) : keys;
+  }
+
+  /**
+   * Apply all writes in a single database transaction
+   */
+  async transaction(writes: StorageWrite[]): Promise<void> {
+    return this.exclusive(() => this.runTransaction(writes));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  protected async runTransaction(writes: StorageWrite[]): Promise<void> {
+    await this.beginTransaction();
+    try {
+      for (const write of writes) {
+        if (write.type === 'set') {
+          await this.writeValue(write.key, write.value);
+        } else {
+          await this.deleteValue(write.key);
+        }
+      }
+      await this.commitTransaction();
+    } catch (error) {
+      await this.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  protected async beginTransaction(): Promise<void> {
+    throw new Error(`Transactions are not supported by ${this.config.type} storage`);
+  }
+
+  protected async commitTransaction(): Promise<void> {
+    throw new Error(`Transactions are not supported by ${this.config.type} storage`);
+  }
+
+  protected async rollbackTransaction(): Promise<void> {
+    throw new Error(`Transactions are not supported by ${this.config.type} storage`);
+  }
 }
 
 /**
@@ -112,7 +192,7 @@ export class PostgreSQLStorage extends BaseDatabaseStorage {
     await this.client.query(query);
   }
 
-  async get(key: string): Promise<any> {
+  protected async readValue(key: string): Promise<any> {
     const query = `SELECT value FROM ${this.tableName} WHERE key = $1`;
     const result = await this.client.query(query, [key]);
     
@@ -123,7 +203,7 @@ export class PostgreSQLStorage extends BaseDatabaseStorage {
     return result.rows[0].value;
   }
 
-  async set(key: string, value: any): Promise<void> {
+  protected async writeValue(key: string, value: any): Promise<void> {
     const query = `
       INSERT INTO ${this.tableName} (key, value, updated_at) 
       VALUES ($1, $2, CURRENT_TIMESTAMP)
@@ -134,18 +214,29 @@ export class PostgreSQLStorage extends BaseDatabaseStorage {
     await this.client.query(query, [key, JSON.stringify(value)]);
   }
 
-  async delete(key: string): Promise<void> {
+  protected async insertValue(key: string, value: any): Promise<boolean> {
+    const query = `
+      INSERT INTO ${this.tableName} (key, value, updated_at) 
+      VALUES ($1, $2, CURRENT_TIMESTAMP)
+      ON CONFLICT (key) DO NOTHING
+    `;
+    
+    const result = await this.client.query(query, [key, JSON.stringify(value)]);
+    return result.rowCount === 1;
+  }
+
+  protected async deleteValue(key: string): Promise<void> {
     const query = `DELETE FROM ${this.tableName} WHERE key = $1`;
     await this.client.query(query, [key]);
   }
 
-  async list(prefix?: string): Promise<string[]> {
+  protected async listKeys(prefix?: string): Promise<string[]> {
     let query = `SELECT key FROM ${this.tableName}`;
     const params: any[] = [];
     
     if (prefix) {
-      query += ` WHERE key LIKE $1`;
-      params.push(`${prefix}%`);
+      query += ` WHERE key LIKE $1 ESCAPE '!'`;
+      params.push(likePrefix(prefix));
     }
     
     query += ` ORDER BY updated_at DESC`;
@@ -154,6 +245,18 @@ export class PostgreSQLStorage extends BaseDatabaseStorage {
     return result.rows.map((row: any) => row.key);
   }
 
+  protected async beginTransaction(): Promise<void> {
+    await this.client.query('BEGIN');
+  }
+
+  protected async commitTransaction(): Promise<void> {
+    await this.client.query('COMMIT');
+  }
+
+  protected async rollbackTransaction(): Promise<void> {
+    await this.client.query('ROLLBACK');
+  }
+
   async close(): Promise<void> {
     if (this.client) {
       await this.client.end();
@@ -204,7 +307,7 @@ export class MySQLStorage extends BaseDatabaseStorage {
     await this.connection.execute(query);
   }
 
-  async get(key: string): Promise<any> {
+  protected async readValue(key: string): Promise<any> {
     const query = `SELECT \`value\` FROM ${this.tableName} WHERE \`key\` = ?`;
     const [rows] = await this.connection.execute(query, [key]);
     
@@ -215,7 +318,7 @@ export class MySQLStorage extends BaseDatabaseStorage {
     return rows[0].value;
   }
 
-  async set(key: string, value: any): Promise<void> {
+  protected async writeValue(key: string, value: any): Promise<void> {
     const query = `
       INSERT INTO ${this.tableName} (\`key\`, \`value\`) 
       VALUES (?, ?)
@@ -227,18 +330,24 @@ export class MySQLStorage extends BaseDatabaseStorage {
     await this.connection.execute(query, [key, JSON.stringify(value)]);
   }
 
-  async delete(key: string): Promise<void> {
+  protected async insertValue(key: string, value: any): Promise<boolean> {
+    const query = `INSERT IGNORE INTO ${this.tableName} (\`key\`, \`value\`) VALUES (?, ?)`;
+    const [result] = await this.connection.execute(query, [key, JSON.stringify(value)]);
+    return result.affectedRows === 1;
+  }
+
+  protected async deleteValue(key: string): Promise<void> {
     const query = `DELETE FROM ${this.tableName} WHERE \`key\` = ?`;
     await this.connection.execute(query, [key]);
   }
 
-  async list(prefix?: string): Promise<string[]> {
+  protected async listKeys(prefix?: string): Promise<string[]> {
     let query = `SELECT \`key\` FROM ${this.tableName}`;
     const params: any[] = [];
     
     if (prefix) {
-      query += ` WHERE \`key\` LIKE ?`;
-      params.push(`${prefix}%`);
+      query += ` WHERE \`key\` LIKE ? ESCAPE '!'`;
+      params.push(likePrefix(prefix));
     }
     
     query += ` ORDER BY updated_at DESC`;
@@ -247,6 +356,18 @@ export class MySQLStorage extends BaseDatabaseStorage {
     return rows.map((row: any) => row.key);
   }
 
+  protected async beginTransaction(): Promise<void> {
+    await this.connection.beginTransaction();
+  }
+
+  protected async commitTransaction(): Promise<void> {
+    await this.connection.commit();
+  }
+
+  protected async rollbackTransaction(): Promise<void> {
+    await this.connection.rollback();
+  }
+
   async close(): Promise<void> {
     if (this.connection) {
       await this.connection.end();
@@ -300,7 +421,7 @@ export class SQLiteStorage extends BaseDatabaseStorage {
     await this.db.exec(query);
   }
 
-  async get(key: string): Promise<any> {
+  protected async readValue(key: string): Promise<any> {
     const query = `SELECT value FROM ${this.tableName} WHERE key = ?`;
     const row = await this.db.get(query, [key]);
     
@@ -311,7 +432,7 @@ export class SQLiteStorage extends BaseDatabaseStorage {
     return JSON.parse(row.value);
   }
 
-  async set(key: string, value: any): Promise<void> {
+  protected async writeValue(key: string, value: any): Promise<void> {
     const query = `
       INSERT INTO ${this.tableName} (key, value, updated_at) 
       VALUES (?, ?, CURRENT_TIMESTAMP)
@@ -322,18 +443,28 @@ export class SQLiteStorage extends BaseDatabaseStorage {
     await this.db.run(query, [key, JSON.stringify(value)]);
   }
 
-  async delete(key: string): Promise<void> {
+  protected async insertValue(key: string, value: any): Promise<boolean> {
+    const query = `
+      INSERT OR IGNORE INTO ${this.tableName} (key, value, updated_at) 
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+    `;
+    
+    const result = await this.db.run(query, [key, JSON.stringify(value)]);
+    return result.changes === 1;
+  }
+
+  protected async deleteValue(key: string): Promise<void> {
     const query = `DELETE FROM ${this.tableName} WHERE key = ?`;
     await this.db.run(query, [key]);
   }
 
-  async list(prefix?: string): Promise<string[]> {
+  protected async listKeys(prefix?: string): Promise<string[]> {
     let query = `SELECT key FROM ${this.tableName}`;
     const params: any[] = [];
     
     if (prefix) {
-      query += ` WHERE key LIKE ?`;
-      params.push(`${prefix}%`);
+      query += ` WHERE key LIKE ? ESCAPE '!'`;
+      params.push(likePrefix(prefix));
     }
     
     query += ` ORDER BY updated_at DESC`;
@@ -342,6 +473,18 @@ export class SQLiteStorage extends BaseDatabaseStorage {
     return rows.map((row: any) => row.key);
   }
 
+  protected async beginTransaction(): Promise<void> {
+    await this.db.exec('BEGIN TRANSACTION');
+  }
+
+  protected async commitTransaction(): Promise<void> {
+    await this.db.exec('COMMIT');
+  }
+
+  protected async rollbackTransaction(): Promise<void> {
+    await this.db.exec('ROLLBACK');
+  }
+
   async close(): Promise<void> {
     if (this.db) {
       await this.db.close();
@@ -383,7 +526,7 @@ export class MongoDBStorage extends BaseDatabaseStorage {
     }
   }
 
-  async get(key: string): Promise<any> {
+  protected async readValue(key: string): Promise<any> {
     const document = await this.collection.findOne({ key });
     
     if (!document) {
@@ -393,7 +536,7 @@ export class MongoDBStorage extends BaseDatabaseStorage {
     return document.value;
   }
 
-  async set(key: string, value: any): Promise<void> {
+  protected async writeValue(key: string, value: any, session?: any): Promise<void> {
     await this.collection.replaceOne(
       { key },
       {
@@ -401,15 +544,52 @@ export class MongoDBStorage extends BaseDatabaseStorage {
         value,
         updatedAt: new Date()
       },
-      { upsert: true }
+      { upsert: true, session }
     );
   }
 
-  async delete(key: string): Promise<void> {
-    await this.collection.deleteOne({ key });
+  protected async insertValue(key: string, value: any): Promise<boolean> {
+    try {
+      const result = await this.collection.updateOne(
+        { key },
+        { $setOnInsert: { key, value, updatedAt: new Date() } },
+        { upsert: true }
+      );
+      return result.upsertedCount === 1;
+    } catch (error: any) {
+      // Concurrent upserts of the same key lose on the unique index
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
   }
 
-  async list(prefix?: string): Promise<string[]> {
+  protected async deleteValue(key: string, session?: any): Promise<void> {
+    await this.collection.deleteOne({ key }, { session });
+  }
+
+  /**
+   * Multi-document transactions need a replica set or sharded cluster
+   */
+  protected async runTransaction(writes: StorageWrite[]): Promise<void> {
+    const session = this.client.startSession();
+    try {
+      await session.withTransaction(async () => {
+        for (const write of writes) {
+          if (write.type === 'set') {
+            await this.writeValue(write.key, write.value, session);
+          } else {
+            await this.deleteValue(write.key, session);
+          }
+        }
+      });
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  protected async listKeys(prefix?: string): Promise<string[]> {
     const filter = prefix ? { key: { $regex: `^${prefix}` } } : {};
     
     const documents = await this.collection
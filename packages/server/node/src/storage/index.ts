@@ -18,6 +18,12 @@ export class MemoryStorageAdapter implements StorageAdapter {
     this.data.set(key, value);
   }
 
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (this.data.has(key)) return false;
+    this.data.set(key, value);
+    return true;
+  }
+
   async delete(key: string): Promise<void> {
     this.data.delete(key);
   }
@@ -1,9 +1,10 @@
-import { StorageAdapter } from '../index';
+import { StorageAdapter, ContentRevision, NewContentRevision } from '../index';
 
 export interface MongoDBConfig {
   uri: string;
   database: string;
   collection?: string;
+  revisionsCollection?: string;
   options?: any;
 }
 
@@ -12,6 +13,7 @@ export class MongoDBStorageAdapter implements StorageAdapter {
   private client: any;
   private db: any;
   private collection: any;
+  private revisions: any;
 
   constructor(config: MongoDBConfig) {
     this.config = config;
@@ -30,11 +32,16 @@ export class MongoDBStorageAdapter implements StorageAdapter {
       await this.client.connect();
       this.db = this.client.db(this.config.database);
       this.collection = this.db.collection(this.config.collection || 'sightedit');
+      this.revisions = this.db.collection(
+        this.config.revisionsCollection || `${this.config.collection || 'sightedit'}_revisions`
+      );
       
       // Create indexes
       await this.collection.createIndex({ key: 1 }, { unique: true });
       await this.collection.createIndex({ updatedAt: -1 });
       await this.collection.createIndex({ sight: 1 });
+      await this.revisions.createIndex({ key: 1, id: -1 }, { unique: true });
+      await this.revisions.createIndex({ sight: 1 });
     } catch (error) {
       console.error('MongoDB connection error:', error);
       throw error;
@@ -74,6 +81,34 @@ export class MongoDBStorageAdapter implements StorageAdapter {
     }
   }
 
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (!this.collection) await this.connect();
+    
+    try {
+      const result = await this.collection.updateOne(
+        { key },
+        {
+          $setOnInsert: {
+            key,
+            value,
+            sight: value.sight || key,
+            updatedAt: new Date(),
+            createdAt: new Date()
+          }
+        },
+        { upsert: true }
+      );
+      return result.upsertedCount === 1;
+    } catch (error: any) {
+      // Concurrent upserts of the same key lose on the unique index
+      if (error.code === 11000) {
+        return false;
+      }
+      console.error('MongoDB setIfAbsent error:', error);
+      throw error;
+    }
+  }
+
   async delete(key: string): Promise<void> {
     if (!this.collection) await this.connect();
     
@@ -114,24 +149,51 @@ export class MongoDBStorageAdapter implements StorageAdapter {
   }
 
   /**
-   * Get all changes for a specific sight identifier
+   * Store a revision and drop the oldest ones beyond the limit.
+   * Ids count up per key, the unique index rejects concurrent duplicates.
    */
-  async getHistory(sight: string, limit: number = 100): Promise<any[]> {
+  async addRevision(revision: NewContentRevision, limit: number): Promise<ContentRevision> {
+    if (!this.collection) await this.connect();
+
+    const latest = await this.revisions.findOne({ key: revision.key }, { sort: { id: -1 }, projection: { id: 1 } });
+    const stored: ContentRevision = { ...revision, id: (latest?.id ?? 0) + 1 };
+    await this.revisions.insertOne({ ...stored });
+
+    const expired = await this.revisions
+      .find({ key: revision.key }, { projection: { id: 1 } })
+      .sort({ id: -1 })
+      .skip(limit)
+      .limit(1)
+      .toArray();
+    if (expired.length > 0) {
+      await this.revisions.deleteMany({ key: revision.key, id: { $lte: expired[0].id } });
+    }
+
+    return stored;
+  }
+
+  async getRevisions(key: string, limit: number): Promise<ContentRevision[]> {
+    if (!this.collection) await this.connect();
+
+    return this.revisions
+      .find({ key }, { projection: { _id: 0 } })
+      .sort({ id: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  /**
+   * Get all revisions recorded for a specific sight identifier
+   */
+  async getHistory(sight: string, limit: number = 100): Promise<ContentRevision[]> {
     if (!this.collection) await this.connect();
     
     try {
-      const docs = await this.collection
-        .find({ sight })
-        .sort({ updatedAt: -1 })
+      return await this.revisions
+        .find({ sight }, { projection: { _id: 0 } })
+        .sort({ createdAt: -1 })
         .limit(limit)
         .toArray();
-      
-      return docs.map((doc: any) => ({
-        key: doc.key,
-        value: doc.value,
-        updatedAt: doc.updatedAt,
-        createdAt: doc.createdAt
-      }));
     } catch (error) {
       console.error('MongoDB history error:', error);
       return [];
@@ -1,4 +1,5 @@
-import { StorageAdapter } from '../index';
+import { StorageAdapter, ContentRevision, NewContentRevision } from '../index';
+import { likePrefix } from './DatabaseStorage';
 
 export interface PostgreSQLConfig {
   host: string;
@@ -7,6 +8,7 @@ export interface PostgreSQLConfig {
   user: string;
   password: string;
   table?: string;
+  revisionsTable?: string;
   ssl?: boolean | any;
 }
 
@@ -14,10 +16,12 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
   private config: PostgreSQLConfig;
   private pool: any;
   private tableName: string;
+  private revisionsTable: string;
 
   constructor(config: PostgreSQLConfig) {
     this.config = config;
     this.tableName = config.table || 'sightedit';
+    this.revisionsTable = config.revisionsTable || `${this.tableName}_revisions`;
   }
 
   async connect(): Promise<void> {
@@ -57,6 +61,22 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
       
       CREATE INDEX IF NOT EXISTS idx_${this.tableName}_sight ON ${this.tableName}(sight);
       CREATE INDEX IF NOT EXISTS idx_${this.tableName}_updated_at ON ${this.tableName}(updated_at DESC);
+      
+      CREATE TABLE IF NOT EXISTS ${this.revisionsTable} (
+        id SERIAL PRIMARY KEY,
+        content_key VARCHAR(255) NOT NULL,
+        sight VARCHAR(255),
+        version BIGINT,
+        action VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        content_data JSONB NOT NULL,
+        author JSONB,
+        restored_from INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_${this.revisionsTable}_key ON ${this.revisionsTable}(content_key, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_${this.revisionsTable}_sight ON ${this.revisionsTable}(sight);
     `;
 
     try {
@@ -110,6 +130,28 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
     }
   }
 
+  async setIfAbsent(key: string, value: any): Promise<boolean> {
+    if (!this.pool) await this.connect();
+    
+    try {
+      const query = `
+        INSERT INTO ${this.tableName} (key, value, sight, updated_at)
+        VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+        ON CONFLICT (key) DO NOTHING
+      `;
+      
+      const result = await this.pool.query(query, [
+        key,
+        JSON.stringify(value),
+        value.sight || key
+      ]);
+      return result.rowCount === 1;
+    } catch (error) {
+      console.error('PostgreSQL setIfAbsent error:', error);
+      throw error;
+    }
+  }
+
   async delete(key: string): Promise<void> {
     if (!this.pool) await this.connect();
     
@@ -130,8 +172,8 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
       const params: any[] = [];
       
       if (prefix) {
-        query += ` WHERE key LIKE $1`;
-        params.push(`${prefix}%`);
+        query += ` WHERE key LIKE $1 ESCAPE '!'`;
+        params.push(likePrefix(prefix));
       }
       
       query += ` ORDER BY updated_at DESC`;
@@ -145,34 +187,87 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
   }
 
   /**
-   * Get all changes for a specific sight identifier
+   * Store a revision and drop the oldest ones beyond the limit
+   */
+  async addRevision(revision: NewContentRevision, limit: number): Promise<ContentRevision> {
+    if (!this.pool) await this.connect();
+
+    const result = await this.pool.query(
+      `INSERT INTO ${this.revisionsTable}
+        (content_key, sight, version, action, status, content_data, author, restored_from, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        revision.key,
+        revision.sight,
+        revision.version ?? null,
+        revision.action,
+        revision.status,
+        JSON.stringify(revision.record ?? null),
+        revision.author ? JSON.stringify(revision.author) : null,
+        revision.restoredFrom ?? null,
+        revision.createdAt
+      ]
+    );
+
+    await this.pool.query(
+      `DELETE FROM ${this.revisionsTable}
+       WHERE content_key = $1 AND id NOT IN (
+         SELECT id FROM ${this.revisionsTable} WHERE content_key = $1 ORDER BY id DESC LIMIT $2
+       )`,
+      [revision.key, limit]
+    );
+
+    return { ...revision, id: result.rows[0].id };
+  }
+
+  async getRevisions(key: string, limit: number): Promise<ContentRevision[]> {
+    if (!this.pool) await this.connect();
+
+    const result = await this.pool.query(
+      `SELECT * FROM ${this.revisionsTable} WHERE content_key = $1 ORDER BY id DESC LIMIT $2`,
+      [key, limit]
+    );
+    return result.rows.map((row: any) => this.toRevision(row));
+  }
+
+  /**
+   * Get all revisions recorded for a specific sight identifier
    */
-  async getHistory(sight: string, limit: number = 100): Promise<any[]> {
+  async getHistory(sight: string, limit: number = 100): Promise<ContentRevision[]> {
     if (!this.pool) await this.connect();
     
     try {
       const query = `
-        SELECT key, value, created_at, updated_at 
-        FROM ${this.tableName}
+        SELECT * FROM ${this.revisionsTable}
         WHERE sight = $1
-        ORDER BY updated_at DESC
+        ORDER BY id DESC
         LIMIT $2
       `;
       
       const result = await this.pool.query(query, [sight, limit]);
-      
-      return result.rows.map((row: any) => ({
-        key: row.key,
-        value: row.value,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at
-      }));
+      return result.rows.map((row: any) => this.toRevision(row));
     } catch (error) {
       console.error('PostgreSQL history error:', error);
       return [];
     }
   }
 
+  private toRevision(row: any): ContentRevision {
+    return {
+      id: row.id,
+      key: row.content_key,
+      sight: row.sight,
+      action: row.action,
+      status: row.status,
+      version: row.version === null ? undefined : Number(row.version),
+      record: row.content_data,
+      author: row.author || undefined,
+      createdAt: new Date(row.created_at).toISOString(),
+      ...(row.restored_from !== null ? { restoredFrom: row.restored_from } : {})
+    };
+  }
+
   /**
    * Execute raw SQL query
    */
@@ -0,0 +1,357 @@
+import { StorageAdapter } from './index';
+
+export const SCHEMA_PREFIX = '_schema:';
+
+export type UnknownSightPolicy = 'allow' | 'warn' | 'reject';
+
+export interface SchemaValidationOptions {
+  unknownSights?: UnknownSightPolicy; // Writes to sights without a stored schema (default: 'allow')
+}
+
+/**
+ * A value that breaks a rule of its sight's schema. `field` is set for a field of an
+ * object value, `index` for an operation of a batch.
+ */
+export interface FieldError {
+  sight: string;
+  field?: string;
+  rule: string;
+  message: string;
+  index?: number;
+}
+
+export interface SchemaValidationResult {
+  errors: FieldError[];
+  warnings: FieldError[];
+}
+
+// The rules core's ValidationEngine applies, plus the choice list of select editors
+type Rule =
+  | { type: 'required' | 'email' | 'url' | 'phone' | 'creditCard'; message?: string }
+  | { type: 'min' | 'max' | 'minLength' | 'maxLength'; value: number; message?: string }
+  | { type: 'pattern'; value: RegExp; message?: string }
+  | { type: 'options'; value: unknown[]; message?: string };
+
+const EMAIL_REGEX = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const URL_REGEX = /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
+const PHONE_REGEX = /^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/;
+
+// Longest pattern compiled from a stored schema
+const MAX_PATTERN_LENGTH = 500;
+
+// Longest value tested against a schema pattern; longer ones fail it
+const MAX_PATTERN_INPUT = 10000;
+
+/**
+ * Checks a value against the schema stored for its sight. Sights without one pass,
+ * or produce a warning or an error depending on `unknownSights`.
+ */
+export async function validateWrite(
+  storage: StorageAdapter,
+  sight: string,
+  value: unknown,
+  options: SchemaValidationOptions = {},
+  schemas: Map<string, unknown> = new Map()
+): Promise<SchemaValidationResult> {
+  if (!schemas.has(sight)) {
+    schemas.set(sight, await storage.get(`${SCHEMA_PREFIX}${sight}`));
+  }
+  const schema = schemas.get(sight);
+
+  if (!schema || typeof schema !== 'object') {
+    const policy = options.unknownSights || 'allow';
+    if (policy === 'allow') {
+      return { errors: [], warnings: [] };
+    }
+    const error: FieldError = { sight, rule: 'unknownSight', message: `No schema is defined for "${sight}"` };
+    if (policy === 'reject') {
+      return { errors: [error], warnings: [] };
+    }
+    console.warn('Saving content for a sight without a schema:', sight);
+    return { errors: [], warnings: [error] };
+  }
+
+  return { errors: validateValue(sight, value, schema as Record<string, any>), warnings: [] };
+}
+
+/**
+ * Errors of a value against an `ElementSchema` or `AdvancedSchema`. Custom validators
+ * are client-side code and are never run here.
+ */
+export function validateValue(sight: string, value: unknown, schema: Record<string, any>): FieldError[] {
+  const errors: FieldError[] = checkRules(value, schemaRules(schema)).map(error => ({ sight, ...error }));
+
+  // Advanced schemas describe the fields of object values
+  if (schema.fields && typeof schema.fields === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [field, fieldSchema] of Object.entries<any>(schema.fields)) {
+      if (!fieldSchema || typeof fieldSchema !== 'object' || fieldSchema.readonly) continue;
+
+      const fieldValue = (value as Record<string, unknown>)[field];
+      for (const error of checkRules(fieldValue, schemaRules(fieldSchema))) {
+        errors.push({ sight, field, ...error });
+      }
+    }
+  }
+
+  return errors;
+}
+
+function schemaRules(schema: Record<string, any>): Rule[] {
+  const rules: Rule[] = [];
+
+  if (schema.required || schema.validation?.required === true) {
+    rules.push({ type: 'required' });
+  }
+  for (const type of ['minLength', 'maxLength', 'min', 'max'] as const) {
+    if (typeof schema[type] === 'number') {
+      rules.push({ type, value: schema[type] });
+    }
+  }
+
+  const pattern = compilePattern(schema.pattern);
+  if (pattern) {
+    rules.push({ type: 'pattern', value: pattern });
+  }
+
+  // Options loaded from an API or database can't be checked here
+  if (Array.isArray(schema.options) && schema.options.length > 0) {
+    rules.push({ type: 'options', value: schema.options.map((option: any) => option?.value ?? option) });
+  }
+
+  if (Array.isArray(schema.validation?.rules)) {
+    for (const rule of schema.validation.rules) {
+      const converted = advancedRule(rule);
+      if (converted) {
+        rules.push(converted);
+      }
+    }
+  }
+
+  return rules;
+}
+
+function advancedRule(rule: any): Rule | null {
+  const message = typeof rule?.message === 'string' ? rule.message : undefined;
+  switch (rule?.type) {
+    case 'regex': {
+      const pattern = compilePattern(rule.pattern);
+      return pattern ? { type: 'pattern', value: pattern, message } : null;
+    }
+    case 'email':
+    case 'url':
+    case 'phone':
+      return { type: rule.type, message };
+    case 'creditcard':
+      return { type: 'creditCard', message };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Why a schema's first unusable pattern can't be compiled, so the schema API can refuse
+ * it instead of it being skipped on every save
+ */
+export function schemaPatternError(schema: Record<string, any>): string | null {
+  const fields = schema.fields && typeof schema.fields === 'object' ? Object.values<any>(schema.fields) : [];
+  for (const entry of [schema, ...fields]) {
+    if (!entry || typeof entry !== 'object') continue;
+
+    const rules = Array.isArray(entry.validation?.rules) ? entry.validation.rules : [];
+    const patterns = [entry.pattern, ...rules.filter((rule: any) => rule?.type === 'regex').map((rule: any) => rule.pattern)];
+    for (const pattern of patterns) {
+      const problem = pattern === undefined ? null : patternProblem(pattern);
+      if (problem) {
+        return `pattern ${JSON.stringify(pattern)} ${problem}`;
+      }
+    }
+  }
+  return null;
+}
+
+function compilePattern(pattern: unknown): RegExp | null {
+  if (typeof pattern !== 'string' || !pattern) {
+    return null;
+  }
+  const problem = patternProblem(pattern);
+  if (problem) {
+    console.warn(`Ignoring schema pattern that ${problem}:`, pattern);
+    return null;
+  }
+  return new RegExp(pattern);
+}
+
+function patternProblem(pattern: unknown): string | null {
+  if (typeof pattern !== 'string' || !pattern) {
+    return 'must be a non-empty string';
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return 'repeats a group that already repeats';
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'is not a valid regular expression';
+  }
+  return null;
+}
+
+/**
+ * Whether a quantifier applies to a group that contains one, like `(a+)+` or `(\w*){2,}`.
+ * Such patterns backtrack exponentially on input that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group, whether it contains a quantifier
+  let closedRepeating = false; // The previous token closed a group containing a quantifier
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const bounds = char === '{' ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/) : null;
+
+    if (char === '+' || char === '*' || bounds) {
+      // `?`, `{1}` and `{0,1}` never repeat, so they aren't counted
+      const repeats = !bounds || Number(bounds[1]) > 1 || (bounds[2] !== undefined && (bounds[3] === '' || Number(bounds[3]) > 1));
+      if (repeats && closedRepeating) {
+        return true;
+      }
+      if (repeats && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+      if (bounds) {
+        i += bounds[0].length - 1;
+      }
+      closedRepeating = false;
+      continue;
+    }
+
+    closedRepeating = false;
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      closedRepeating = groups.pop() ?? false;
+      if (closedRepeating && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Same checks and messages as ValidationEngine.validate: only `required` fails on an
+ * empty value, and numeric rules skip values that aren't numbers
+ */
+function checkRules(value: any, rules: Rule[]): Array<{ rule: string; message: string }> {
+  const errors: Array<{ rule: string; message: string }> = [];
+  const fail = (rule: Rule, message: string) => errors.push({ rule: rule.type, message: rule.message || message });
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'required':
+        if (!value || (typeof value === 'string' && !value.trim())) {
+          fail(rule, 'This field is required');
+        }
+        break;
+
+      case 'email':
+        if (value && !EMAIL_REGEX.test(String(value))) {
+          fail(rule, 'Please enter a valid email address');
+        }
+        break;
+
+      case 'url':
+        if (value && !URL_REGEX.test(String(value))) {
+          fail(rule, 'Please enter a valid URL');
+        }
+        break;
+
+      case 'phone':
+        if (value && !PHONE_REGEX.test(String(value))) {
+          fail(rule, 'Please enter a valid phone number');
+        }
+        break;
+
+      case 'creditCard':
+        if (value && !isValidCreditCard(String(value))) {
+          fail(rule, 'Please enter a valid credit card number');
+        }
+        break;
+
+      case 'min':
+        if (value !== undefined && value !== null && !isNaN(Number(value)) && Number(value) < rule.value) {
+          fail(rule, `Value must be at least ${rule.value}`);
+        }
+        break;
+
+      case 'max':
+        if (value !== undefined && value !== null && !isNaN(Number(value)) && Number(value) > rule.value) {
+          fail(rule, `Value must be at most ${rule.value}`);
+        }
+        break;
+
+      case 'minLength':
+        if (value && lengthOf(value) < rule.value) {
+          fail(rule, `Must be at least ${rule.value} characters`);
+        }
+        break;
+
+      case 'maxLength':
+        if (value && lengthOf(value) > rule.value) {
+          fail(rule, `Must be at most ${rule.value} characters`);
+        }
+        break;
+
+      case 'pattern':
+        if (value && typeof value !== 'object' && (String(value).length > MAX_PATTERN_INPUT || !rule.value.test(String(value)))) {
+          fail(rule, 'Invalid format');
+        }
+        break;
+
+      case 'options': {
+        const chosen = Array.isArray(value) ? value : [value];
+        if (value !== undefined && value !== null && value !== '' && !chosen.every(item => rule.value.some(option => String(option) === String(item)))) {
+          fail(rule, 'Please choose one of the available options');
+        }
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Lists count their items, like the editors do; everything else its characters
+function lengthOf(value: unknown): number {
+  return Array.isArray(value) ? value.length : String(value).length;
+}
+
+// Luhn checksum
+function isValidCreditCard(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  let isEven = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+    isEven = !isEven;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,560 @@
+import * as crypto from 'crypto';
+import { StorageAdapter } from './index';
+import { storeIfAbsent } from './schedules';
+
+export const WEBHOOK_EVENTS = ['save', 'batch', 'publish', 'delete', 'upload', 'schema'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const WEBHOOK_PREFIX = '_webhook:';
+const DELIVERY_PREFIX = '_webhook-delivery:';
+const CLAIM_PREFIX = '_webhook-claim:';
+
+// Added to `timeout` for how long a claimed attempt may take before another instance takes over
+const CLAIM_GRACE = 60_000;
+
+export const SIGNATURE_HEADER = 'X-SightEdit-Signature';
+export const TIMESTAMP_HEADER = 'X-SightEdit-Timestamp';
+
+export interface WebhookOptions {
+  maxAttempts?: number; // Attempts per delivery, the first one included (default 6)
+  retryDelay?: number; // Milliseconds before the first retry, doubled for every further one (default 10s)
+  maxRetryDelay?: number; // Upper bound for the backoff (default 1h)
+  timeout?: number; // Milliseconds to wait for the endpoint (default 10s)
+  maxDeliveries?: number; // Delivery log entries kept per webhook (default 100)
+  transport?: WebhookTransport; // Replaces the fetch-based sender, e.g. to route through a proxy
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  sights: string[]; // Sight patterns with `*` wildcards; empty matches every sight
+  secret: string;
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+/**
+ * A webhook as returned by the API, without its signing secret
+ */
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+/**
+ * Something an event happened to. Items without a sight (uploads) match every sight filter.
+ */
+export interface WebhookItem {
+  sight?: string;
+  [field: string]: any;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  occurredAt: string;
+  actor?: string;
+  items: WebhookItem[];
+}
+
+export interface WebhookAttempt {
+  at: string;
+  status?: number; // HTTP status of the response, unset when the request failed
+  error?: string;
+  duration: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;
+  createdAt: string;
+  redeliveryOf?: string;
+}
+
+/**
+ * Which dispatcher instance took an attempt at a delivery, and when
+ */
+interface DeliveryClaim {
+  by: string;
+  at: string;
+  attempt: number; // Index of the attempt in the delivery's `attempts`
+}
+
+export type WebhookTransport = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeout: number
+) => Promise<{ status: number }>;
+
+const DEFAULTS = {
+  maxAttempts: 6,
+  retryDelay: 10_000,
+  maxRetryDelay: 60 * 60 * 1000,
+  timeout: 10_000,
+  maxDeliveries: 100
+};
+
+export function webhookKey(id: string): string {
+  return `${WEBHOOK_PREFIX}${id}`;
+}
+
+function deliveryKey(webhookId: string, deliveryId: string): string {
+  return `${DELIVERY_PREFIX}${webhookId}:${deliveryId}`;
+}
+
+function claimKey(webhookId: string, deliveryId: string, generation: number): string {
+  return `${CLAIM_PREFIX}${webhookId}:${deliveryId}:${generation}`;
+}
+
+/**
+ * Time-ordered, so delivery keys sort oldest first
+ */
+export function generateWebhookId(): string {
+  return `${Date.now().toString(36)}${crypto.randomBytes(6).toString('hex')}`;
+}
+
+export function isValidWebhookId(id: string): boolean {
+  return /^[a-z0-9]{8,40}$/.test(id);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, sent as `sha256=<hex>`. Including the
+ * timestamp lets receivers reject replayed deliveries.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a received delivery: the signature must match and the timestamp (seconds)
+ * be at most `toleranceSeconds` old
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: number,
+  body: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * `blog.*` matches `blog.title` and `blog.post.body`; `*` alone matches everything
+ */
+export function matchesSightPattern(sight: string, pattern: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(sight);
+}
+
+/**
+ * Validates the fields of a create or update request. Returns the normalized
+ * fields, or an error message.
+ */
+export function parseWebhookInput(
+  body: any,
+  partial: boolean
+): { value: Partial<Pick<Webhook, 'url' | 'events' | 'sights' | 'active' | 'description' | 'secret'>> } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const value: Partial<Webhook> = {};
+
+  if (body.url !== undefined || !partial) {
+    let url: URL;
+    try {
+      url = new URL(String(body.url));
+    } catch {
+      return { error: 'url must be an absolute http(s) URL' };
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return { error: 'url must be an absolute http(s) URL' };
+    }
+    value.url = url.toString();
+  }
+
+  if (body.events !== undefined || !partial) {
+    if (!Array.isArray(body.events) || body.events.length === 0) {
+      return { error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    const unknown = body.events.filter((event: unknown) => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+    if (unknown.length > 0) {
+      return { error: `Unknown events: ${unknown.join(', ')}` };
+    }
+    value.events = Array.from(new Set(body.events as WebhookEvent[]));
+  }
+
+  if (body.sights !== undefined) {
+    if (!Array.isArray(body.sights) || body.sights.some((pattern: unknown) => typeof pattern !== 'string' || !/^[a-zA-Z0-9._*-]{1,200}$/.test(pattern))) {
+      return { error: 'sights must be a list of sight patterns' };
+    }
+    value.sights = body.sights;
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'active must be a boolean' };
+    }
+    value.active = body.active;
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    value.description = body.description.slice(0, 500);
+  }
+
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.length < 16) {
+      return { error: 'secret must be at least 16 characters' };
+    }
+    value.secret = body.secret;
+  }
+
+  return { value };
+}
+
+export function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
+export async function listWebhooks(storage: StorageAdapter): Promise<Webhook[]> {
+  const webhooks: Webhook[] = [];
+  for (const key of await storage.list(WEBHOOK_PREFIX)) {
+    const stored = await storage.get(key);
+    if (stored && typeof stored === 'object') {
+      webhooks.push(stored);
+    }
+  }
+  return webhooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getWebhook(storage: StorageAdapter, id: string): Promise<Webhook | null> {
+  return (await storage.get(webhookKey(id))) || null;
+}
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+export async function listDeliveries(storage: StorageAdapter, webhookId: string, limit?: number): Promise<WebhookDelivery[]> {
+  const keys = (await storage.list(`${DELIVERY_PREFIX}${webhookId}:`)).sort().reverse();
+  const deliveries: WebhookDelivery[] = [];
+  for (const key of limit ? keys.slice(0, limit) : keys) {
+    const stored = await storage.get(key);
+    if (stored && typeof stored === 'object') {
+      deliveries.push(stored);
+    }
+  }
+  return deliveries;
+}
+
+export async function getDelivery(storage: StorageAdapter, webhookId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+  return (await storage.get(deliveryKey(webhookId, deliveryId))) || null;
+}
+
+/**
+ * Removes a webhook together with its delivery log
+ */
+export async function deleteWebhook(storage: StorageAdapter, id: string): Promise<void> {
+  for (const key of [...await storage.list(`${DELIVERY_PREFIX}${id}:`), ...await storage.list(`${CLAIM_PREFIX}${id}:`)]) {
+    await storage.delete(key);
+  }
+  await storage.delete(webhookKey(id));
+}
+
+const fetchTransport: WebhookTransport = async (url, body, headers, timeout) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal, redirect: 'manual' });
+    return { status: response.status };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Sends webhook deliveries and retries failed ones with exponential backoff.
+ * Every delivery is stored before it is sent, so pending retries survive a restart
+ * once `resume()` runs again. Every server instance resumes every pending delivery;
+ * claims make sure only one of them makes each attempt.
+ */
+export class WebhookDispatcher {
+  private options: Required<Omit<WebhookOptions, 'transport'>>;
+  private transport: WebhookTransport;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private readonly instanceId = crypto.randomBytes(8).toString('hex');
+
+  constructor(private storage: StorageAdapter, options: WebhookOptions = {}) {
+    const { transport, ...rest } = options;
+    this.options = { ...DEFAULTS, ...rest };
+    this.transport = transport || fetchTransport;
+  }
+
+  /**
+   * Queues a delivery to every active webhook that subscribes to the event and
+   * matches at least one item's sight. Each webhook only receives its matching items.
+   */
+  async emit(event: WebhookEvent, items: WebhookItem[], actor?: string): Promise<WebhookDelivery[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const occurredAt = new Date().toISOString();
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const webhook of await listWebhooks(this.storage)) {
+      if (!webhook.active || !webhook.events.includes(event)) continue;
+
+      const matching = items.filter(item =>
+        item.sight === undefined ||
+        webhook.sights.length === 0 ||
+        webhook.sights.some(pattern => matchesSightPattern(item.sight!, pattern))
+      );
+      if (matching.length === 0) continue;
+
+      deliveries.push(await this.enqueue(webhook, {
+        event,
+        occurredAt,
+        ...(actor ? { actor } : {}),
+        items: matching
+      }));
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Sends a stored delivery's payload again as a new delivery, whatever its outcome was
+   */
+  async redeliver(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.enqueue(webhook, delivery.payload, delivery.id);
+  }
+
+  /**
+   * Schedules every pending delivery again, e.g. after a restart
+   */
+  async resume(): Promise<number> {
+    let resumed = 0;
+    for (const key of await this.storage.list(DELIVERY_PREFIX)) {
+      const delivery: WebhookDelivery | null = await this.storage.get(key);
+      if (delivery?.status === 'pending' && !this.timers.has(delivery.id)) {
+        const due = delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0;
+        this.schedule(delivery.webhookId, delivery.id, Math.max(0, due));
+        resumed++;
+      }
+    }
+    return resumed;
+  }
+
+  /**
+   * Cancels scheduled retries; they stay pending in storage
+   */
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Makes one attempt at a pending delivery and schedules the next one if it fails
+   */
+  async attempt(webhookId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    this.timers.delete(deliveryId);
+
+    const key = deliveryKey(webhookId, deliveryId);
+    let delivery: WebhookDelivery | null = await this.storage.get(key);
+    if (!delivery || delivery.status !== 'pending') {
+      return delivery;
+    }
+
+    const attemptIndex = delivery.attempts.length;
+    if (!(await this.claim(webhookId, deliveryId, attemptIndex))) {
+      // Check again once the claim expires, in case its instance went away mid-attempt
+      this.schedule(webhookId, deliveryId, this.options.timeout + CLAIM_GRACE);
+      return delivery;
+    }
+    // Another instance may have made this attempt since the first read
+    delivery = await this.storage.get(key);
+    if (!delivery || delivery.status !== 'pending' || delivery.attempts.length !== attemptIndex) {
+      return delivery;
+    }
+
+    const webhook = await getWebhook(this.storage, webhookId);
+    if (!webhook) {
+      // The webhook was removed together with its log
+      return null;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SightEdit-Webhooks/1.0',
+      'X-SightEdit-Event': delivery.event,
+      'X-SightEdit-Delivery': delivery.id,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body)
+    };
+
+    const started = Date.now();
+    const attempt: WebhookAttempt = { at: new Date(started).toISOString(), duration: 0 };
+    try {
+      const response = await this.transport(webhook.url, body, headers, this.options.timeout);
+      attempt.status = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        attempt.error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = (error as Error).name === 'AbortError'
+        ? `Timed out after ${this.options.timeout}ms`
+        : String((error as Error).message || error);
+    }
+    attempt.duration = Date.now() - started;
+
+    const attempts = [...delivery.attempts, attempt];
+    const updated: WebhookDelivery = { ...delivery, attempts };
+    delete updated.nextAttemptAt;
+
+    if (!attempt.error) {
+      updated.status = 'delivered';
+    } else if (attempts.length >= this.options.maxAttempts) {
+      updated.status = 'failed';
+    } else {
+      const delay = this.backoff(attempts.length);
+      updated.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      this.schedule(webhookId, deliveryId, delay);
+    }
+
+    await this.storage.set(key, updated);
+    return updated;
+  }
+
+  /**
+   * Delay before the retry that follows `attempts` failed attempts
+   */
+  private backoff(attempts: number): number {
+    return Math.min(this.options.retryDelay * 2 ** (attempts - 1), this.options.maxRetryDelay);
+  }
+
+  private async enqueue(webhook: Webhook, payload: WebhookPayload, redeliveryOf?: string): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: generateWebhookId(),
+      webhookId: webhook.id,
+      event: payload.event,
+      payload,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date().toISOString(),
+      ...(redeliveryOf ? { redeliveryOf } : {})
+    };
+
+    await this.storage.set(deliveryKey(webhook.id, delivery.id), delivery);
+    await this.prune(webhook.id);
+    this.schedule(webhook.id, delivery.id, 0);
+    return delivery;
+  }
+
+  /**
+   * Claims are stored once per generation. The claim of an earlier attempt, or one
+   * older than the lease, is followed by the next generation, so of several instances
+   * only one wins each attempt.
+   */
+  private async claim(webhookId: string, deliveryId: string, attempt: number): Promise<boolean> {
+    const generations = (await this.storage.list(`${CLAIM_PREFIX}${webhookId}:${deliveryId}:`))
+      .map(key => Number(key.slice(key.lastIndexOf(':') + 1)))
+      .filter(Number.isInteger);
+    const latest = generations.length > 0 ? Math.max(...generations) : -1;
+
+    if (latest >= 0) {
+      const current: DeliveryClaim | null = await this.storage.get(claimKey(webhookId, deliveryId, latest));
+      const lease = this.options.timeout + CLAIM_GRACE;
+      if (current && current.attempt >= attempt && Date.parse(current.at) + lease > Date.now()) {
+        return false;
+      }
+    }
+
+    const claim: DeliveryClaim = { by: this.instanceId, at: new Date().toISOString(), attempt };
+    return storeIfAbsent(this.storage, claimKey(webhookId, deliveryId, latest + 1), claim);
+  }
+
+  private schedule(webhookId: string, deliveryId: string, delay: number): void {
+    const timer = setTimeout(() => {
+      this.attemptWhenDue(webhookId, deliveryId).catch(error => {
+        console.error('Webhook delivery failed:', deliveryId, error);
+      });
+    }, delay);
+    // Retries must not keep the process alive on shutdown
+    timer.unref?.();
+    this.timers.set(deliveryId, timer);
+  }
+
+  /**
+   * A timer may fire before the retry another instance scheduled is due
+   */
+  private async attemptWhenDue(webhookId: string, deliveryId: string): Promise<void> {
+    const delivery: WebhookDelivery | null = await this.storage.get(deliveryKey(webhookId, deliveryId));
+    const due = delivery?.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0;
+    if (delivery?.status === 'pending' && due > 0) {
+      this.schedule(webhookId, deliveryId, due);
+      return;
+    }
+    await this.attempt(webhookId, deliveryId);
+  }
+
+  /**
+   * Trims the delivery log to the newest `maxDeliveries` entries
+   */
+  private async prune(webhookId: string): Promise<void> {
+    const keys = (await this.storage.list(`${DELIVERY_PREFIX}${webhookId}:`)).sort();
+    for (const key of keys.slice(0, Math.max(0, keys.length - this.options.maxDeliveries))) {
+      const deliveryId = key.slice(key.lastIndexOf(':') + 1);
+      const timer = this.timers.get(deliveryId);
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(deliveryId);
+      }
+      for (const claim of await this.storage.list(`${CLAIM_PREFIX}${webhookId}:${deliveryId}:`)) {
+        await this.storage.delete(claim);
+      }
+      await this.storage.delete(key);
+    }
+  }
+}
+
+const dispatchers = new WeakMap<StorageAdapter, WebhookDispatcher>();
+
+/**
+ * The dispatcher for a storage backend, created on first use. Creating it picks
+ * up deliveries that were still pending when the process last stopped.
+ */
+export function getWebhookDispatcher(storage: StorageAdapter, options: WebhookOptions = {}): WebhookDispatcher {
+  let dispatcher = dispatchers.get(storage);
+  if (!dispatcher) {
+    dispatcher = new WebhookDispatcher(storage, options);
+    dispatchers.set(storage, dispatcher);
+    dispatcher.resume().catch(error => {
+      console.error('Failed to resume pending webhook deliveries:', error);
+    });
+  }
+  return dispatcher;
+}
@@ -0,0 +1,189 @@
+import { Request } from 'express';
+import { StorageAdapter, RevisionAuthor } from './index';
+
+const WORKFLOW_PREFIX = '_workflow:';
+
+// Transitions kept per content key; older ones are dropped
+const MAX_HISTORY = 50;
+
+// Stages every workflow has besides its review stages
+export const DRAFT_STAGE = 'draft';
+export const APPROVED_STAGE = 'approved';
+export const REJECTED_STAGE = 'rejected';
+
+const RESERVED_STAGES = [DRAFT_STAGE, APPROVED_STAGE, REJECTED_STAGE];
+
+export interface WorkflowStage {
+  id: string; // e.g. 'review' or 'legal'
+  name?: string; // Shown in the editor, defaults to the id
+  roles: string[]; // Roles that can approve or reject changes in this stage; empty lets anyone
+}
+
+export interface WorkflowOptions {
+  stages: WorkflowStage[]; // Review stages changes pass through, in order, before they are approved
+  submitRoles?: string[]; // Roles that can submit changes for review (default: anyone who can save)
+  onTransition?: (events: WorkflowEvent[], req?: Request) => void | Promise<void>;
+}
+
+export type WorkflowAction = 'submit' | 'approve' | 'reject';
+
+export interface WorkflowTransition {
+  action: WorkflowAction | 'publish';
+  from: string;
+  to: string;
+  by?: RevisionAuthor;
+  comment?: string;
+  at: string;
+}
+
+/**
+ * Where the draft of a content key stands. The stage holds for the draft version that
+ * was submitted; editing the draft afterwards sends it back to `draft`.
+ */
+export interface WorkflowState {
+  key: string;
+  sight: string;
+  stage: string;
+  version: number | null;
+  history: WorkflowTransition[]; // Oldest first
+  updatedAt: string;
+}
+
+/**
+ * A transition as reported to onTransition
+ */
+export interface WorkflowEvent extends WorkflowTransition {
+  key: string;
+  sight: string;
+}
+
+/**
+ * Checks stage ids once, when the workflow is configured
+ */
+export function validateWorkflowOptions(options: WorkflowOptions): void {
+  if (!Array.isArray(options.stages) || options.stages.length === 0) {
+    throw new Error('A workflow needs at least one review stage');
+  }
+  const ids = new Set<string>();
+  for (const stage of options.stages) {
+    if (!stage || typeof stage.id !== 'string' || !/^[a-z][a-z0-9_-]{0,39}$/.test(stage.id)) {
+      throw new Error(`Invalid workflow stage id: ${stage?.id}`);
+    }
+    if (RESERVED_STAGES.includes(stage.id) || ids.has(stage.id)) {
+      throw new Error(`Workflow stage id is reserved or used twice: ${stage.id}`);
+    }
+    ids.add(stage.id);
+  }
+}
+
+export function workflowKey(key: string): string {
+  return `${WORKFLOW_PREFIX}${key}`;
+}
+
+export async function getWorkflowState(storage: StorageAdapter, key: string): Promise<WorkflowState | null> {
+  return (await storage.get(workflowKey(key))) ?? null;
+}
+
+/**
+ * The stage of a draft: `draft` unless the stored state was reached with this very version
+ */
+export function currentStage(state: WorkflowState | null, version: number | null): string {
+  if (!state || state.version !== version) {
+    return DRAFT_STAGE;
+  }
+  return state.stage;
+}
+
+/**
+ * Actions a draft in a stage allows, regardless of who asks
+ */
+export function stageActions(stage: string, options: WorkflowOptions): WorkflowAction[] {
+  if (stage === DRAFT_STAGE || stage === REJECTED_STAGE) {
+    return ['submit'];
+  }
+  if (stage === APPROVED_STAGE) {
+    return ['reject'];
+  }
+  return options.stages.some(candidate => candidate.id === stage) ? ['approve', 'reject'] : [];
+}
+
+/**
+ * What a user with the given roles can do with a draft in a stage
+ */
+export function availableActions(stage: string, roles: string[], options: WorkflowOptions): WorkflowAction[] {
+  return stageActions(stage, options).filter(action => {
+    const allowed = requiredRoles(stage, action, options);
+    return !allowed || allowed.length === 0 || allowed.some(role => roles.includes(role));
+  });
+}
+
+/**
+ * The stage an action leads to
+ */
+export function nextStage(stage: string, action: WorkflowAction, options: WorkflowOptions): string {
+  if (action === 'submit') {
+    return options.stages[0].id;
+  }
+  if (action === 'reject') {
+    return REJECTED_STAGE;
+  }
+  const index = options.stages.findIndex(candidate => candidate.id === stage);
+  return index === options.stages.length - 1 ? APPROVED_STAGE : options.stages[index + 1].id;
+}
+
+/**
+ * Moves a draft to its next stage. Callers check availableActions first.
+ */
+export async function applyWorkflowAction(
+  storage: StorageAdapter,
+  input: {
+    key: string;
+    sight: string;
+    version: number | null;
+    action: WorkflowAction;
+    by?: RevisionAuthor;
+    comment?: string;
+  },
+  options: WorkflowOptions
+): Promise<{ state: WorkflowState; transition: WorkflowTransition }> {
+  const existing = await getWorkflowState(storage, input.key);
+  const from = currentStage(existing, input.version);
+  const at = new Date().toISOString();
+  const transition: WorkflowTransition = {
+    action: input.action,
+    from,
+    to: nextStage(from, input.action, options),
+    ...(input.by ? { by: input.by } : {}),
+    ...(input.comment ? { comment: input.comment } : {}),
+    at
+  };
+
+  const state: WorkflowState = {
+    key: input.key,
+    sight: input.sight,
+    stage: transition.to,
+    version: input.version,
+    history: [...(existing?.history ?? []), transition].slice(-MAX_HISTORY),
+    updatedAt: at
+  };
+  await storage.set(workflowKey(input.key), state);
+  return { state, transition };
+}
+
+function requiredRoles(stage: string, action: WorkflowAction, options: WorkflowOptions): string[] | undefined {
+  if (action === 'submit') {
+    return options.submitRoles;
+  }
+  if (stage === APPROVED_STAGE) {
+    // Approved changes can still be sent back by whoever signs off the last stage
+    return options.stages[options.stages.length - 1].roles;
+  }
+  return options.stages.find(candidate => candidate.id === stage)?.roles;
+}
+
+/**
+ * Public name of a stage
+ */
+export function stageName(stage: string, options: WorkflowOptions): string {
+  return options.stages.find(candidate => candidate.id === stage)?.name ?? stage;
+}